@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateSession } from '@/lib/auth/request';
+import { activityLogQuerySchema, listActivityLog } from '@/lib/activity';
+import { PublicApiError } from '@/lib/public-api/errors';
+
+// The organization's audit trail for the dashboard, newest first. Filters: resource_type,
+// resource_id, action, user_id, created_after and created_before; pages with next_cursor.
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticateSession('activity:read');
+    if (auth.error !== undefined) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const { supabase, context } = auth;
+
+    const parsed = activityLogQuerySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams));
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      return NextResponse.json({ error: `Invalid ${issue.path.join('.') || 'query'}: ${issue.message}` }, { status: 400 });
+    }
+
+    const page = await listActivityLog(supabase, context.organizationId, parsed.data);
+
+    return NextResponse.json(page);
+  } catch (error) {
+    if (error instanceof PublicApiError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error in activity API route:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
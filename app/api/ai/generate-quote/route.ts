@@ -0,0 +1,128 @@
+// app/api/ai/generate-quote/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServer } from '@/lib/supabase/server';
+import { geminiService, generateQuote, type QuoteDimensions } from '@/lib/ai';
+import type { GeminiImageInput } from '@/lib/ai/gemini-service';
+import { logger } from '@/utils/helpers/logger';
+
+const MAX_IMAGES = 5;
+const MAX_IMAGE_SIZE = 5 * 1024 * 1024; // 5MB per image
+
+export async function POST(request: NextRequest) {
+  const supabase = createServer();
+  let generationId: string | null = null;
+  let metadata: Record<string, unknown> = {};
+
+  try {
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!geminiService.isConfigured()) {
+      return NextResponse.json(
+        { error: 'Gemini service is not configured. Please check your GOOGLE_GEMINI_API_KEY.' },
+        { status: 500 }
+      );
+    }
+
+    const formData = await request.formData();
+    const transcript = String(formData.get('transcript') || '').trim();
+
+    let dimensions: QuoteDimensions = {};
+    try {
+      dimensions = JSON.parse(String(formData.get('dimensions') || '{}'));
+    } catch {
+      return NextResponse.json({ error: 'Invalid dimensions' }, { status: 400 });
+    }
+
+    const images: GeminiImageInput[] = [];
+    for (const [key, value] of Array.from(formData.entries())) {
+      if (!key.startsWith('image_') || typeof value === 'string') continue;
+
+      if (!value.type.startsWith('image/')) {
+        return NextResponse.json({ error: `${key} is not an image` }, { status: 400 });
+      }
+      if (value.size > MAX_IMAGE_SIZE) {
+        return NextResponse.json({ error: `${key} exceeds the 5MB limit` }, { status: 400 });
+      }
+      if (images.length >= MAX_IMAGES) {
+        return NextResponse.json({ error: `A maximum of ${MAX_IMAGES} images is allowed` }, { status: 400 });
+      }
+
+      images.push({
+        mimeType: value.type,
+        data: Buffer.from(await value.arrayBuffer()).toString('base64'),
+      });
+    }
+
+    if (!transcript && images.length === 0) {
+      return NextResponse.json(
+        { error: 'A transcript or at least one image is required' },
+        { status: 400 }
+      );
+    }
+
+    metadata = { dimensions, image_count: images.length };
+
+    const { data: generation, error: insertError } = await supabase
+      .from('quote_generations')
+      .insert({
+        user_id: user.id,
+        prompt: transcript,
+        model_used: geminiService.getModelName(),
+        status: 'pending',
+        metadata
+      })
+      .select('id')
+      .single();
+
+    if (insertError) {
+      logger.error('Failed to record quote generation', 'api/ai/generate-quote', insertError);
+    } else {
+      generationId = generation.id;
+    }
+
+    const result = await generateQuote({ transcript, dimensions, images }, geminiService);
+
+    if (generationId) {
+      await supabase
+        .from('quote_generations')
+        .update({
+          prompt: result.prompt,
+          generated_content: JSON.stringify(result.quote),
+          model_used: result.modelUsed,
+          tokens_used: result.tokensUsed,
+          status: 'completed'
+        })
+        .eq('id', generationId);
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.quote,
+      generationId
+    });
+  } catch (error) {
+    logger.error('Quote generation request failed', 'api/ai/generate-quote', error instanceof Error ? error : new Error(String(error)));
+
+    if (generationId) {
+      await supabase
+        .from('quote_generations')
+        .update({
+          status: 'failed',
+          metadata: { ...metadata, error: error instanceof Error ? error.message : String(error) }
+        })
+        .eq('id', generationId);
+    }
+
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'An unexpected error occurred',
+        success: false
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateSession } from '@/lib/auth/request';
+import { logActivity } from '@/lib/activity';
+
+// Revoking keeps the row, so the settings can still show when and by whom a key was used
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authenticateSession('api_keys:manage');
+    if (auth.error !== undefined) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const { supabase, context } = auth;
+
+    const { data: apiKey, error } = await supabase
+      .from('api_keys')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('id', params.id)
+      .eq('organization_id', context.organizationId)
+      .is('revoked_at', null)
+      .select('id, revoked_at')
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error revoking API key:', error);
+      return NextResponse.json({ error: 'Failed to revoke API key' }, { status: 500 });
+    }
+
+    if (!apiKey) {
+      return NextResponse.json({ error: 'API key not found' }, { status: 404 });
+    }
+
+    await logActivity(context, { action: 'api_key_revoked', resource_type: 'api_key', resource_id: apiKey.id }, request);
+
+    return NextResponse.json({ apiKey });
+  } catch (error) {
+    console.error('Error in DELETE /api/api-keys/[id]:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
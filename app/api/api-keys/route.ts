@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateSession } from '@/lib/auth/request';
+import { generateApiKey, isApiScope, normalizeScopes } from '@/lib/auth/api-keys';
+import { logActivity } from '@/lib/activity';
+
+// Never select key_hash: the key itself is only shown once, in the POST response
+const API_KEY_COLUMNS = 'id, name, key_prefix, permissions, last_used, expires_at, revoked_at, created_at, user_id';
+
+const MAX_EXPIRY_DAYS = 365 * 2;
+
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticateSession('api_keys:manage');
+    if (auth.error !== undefined) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const { supabase, context } = auth;
+
+    const { data: apiKeys, error } = await supabase
+      .from('api_keys')
+      .select(API_KEY_COLUMNS)
+      .eq('organization_id', context.organizationId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching API keys:', error);
+      return NextResponse.json({ error: 'Failed to fetch API keys' }, { status: 500 });
+    }
+
+    return NextResponse.json({ apiKeys });
+  } catch (error) {
+    console.error('Error in GET /api/api-keys:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authenticateSession('api_keys:manage');
+    if (auth.error !== undefined) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const { supabase, context } = auth;
+
+    const body = await request.json();
+    const { name, scopes, expires_in_days } = body;
+
+    if (typeof name !== 'string' || !name.trim()) {
+      return NextResponse.json({ error: 'Missing required field: name' }, { status: 400 });
+    }
+
+    if (!Array.isArray(scopes) || scopes.length === 0 || !scopes.every(isApiScope)) {
+      return NextResponse.json({ error: 'Scopes must be a non-empty list of valid scopes' }, { status: 400 });
+    }
+
+    if (
+      expires_in_days !== undefined && expires_in_days !== null &&
+      (!Number.isInteger(expires_in_days) || expires_in_days < 1 || expires_in_days > MAX_EXPIRY_DAYS)
+    ) {
+      return NextResponse.json(
+        { error: `expires_in_days must be a whole number between 1 and ${MAX_EXPIRY_DAYS}` },
+        { status: 400 }
+      );
+    }
+
+    const generated = generateApiKey();
+    const expiresAt = expires_in_days
+      ? new Date(Date.now() + expires_in_days * 24 * 60 * 60 * 1000).toISOString()
+      : null;
+
+    const { data: apiKey, error } = await supabase
+      .from('api_keys')
+      .insert({
+        organization_id: context.organizationId,
+        user_id: context.userId,
+        name: name.trim(),
+        key_hash: generated.key_hash,
+        key_prefix: generated.key_prefix,
+        permissions: normalizeScopes(scopes),
+        expires_at: expiresAt
+      })
+      .select(API_KEY_COLUMNS)
+      .single();
+
+    if (error) {
+      console.error('Error creating API key:', error);
+      return NextResponse.json({ error: 'Failed to create API key' }, { status: 500 });
+    }
+
+    await logActivity(context, {
+      action: 'api_key_created',
+      resource_type: 'api_key',
+      resource_id: apiKey.id,
+      metadata: { name: apiKey.name, scopes: apiKey.permissions },
+    }, request);
+
+    // The only time the full key leaves the server
+    return NextResponse.json({ apiKey, key: generated.key }, { status: 201 });
+  } catch (error) {
+    console.error('Error in POST /api/api-keys:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
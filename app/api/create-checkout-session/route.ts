@@ -1,45 +1,44 @@
 import { NextRequest, NextResponse } from 'next/server'
-import Stripe from 'stripe'
-
-// Check if Stripe is enabled
-const isStripeEnabled = process.env.STRIPE_ENABLED === 'true';
-
-// Early return if Stripe is not enabled
-if (!isStripeEnabled) {
-  console.warn('Stripe not enabled - payment functionality disabled')
-}
-
-let stripe: Stripe | null = null
-
-// Only import and initialize Stripe if enabled and the key is available
-if (isStripeEnabled && process.env.STRIPE_SECRET_KEY) {
-  try {
-    stripe = new Stripe(process.env.STRIPE_SECRET_KEY)
-  } catch (error) {
-    console.warn('Failed to initialize Stripe:', error)
-  }
-}
+import { authenticateSession } from '@/lib/auth/request'
+import { getStripeClient, isStripeEnabled } from '@/lib/billing/stripe'
 
 export async function POST(request: NextRequest) {
   try {
     // Check if Stripe is available
-    if (!isStripeEnabled || !stripe) {
+    const stripe = getStripeClient()
+    if (!stripe) {
       return NextResponse.json(
         {
           error: 'Payment processing not enabled or configured',
-          enabled: isStripeEnabled
+          enabled: isStripeEnabled()
         },
         { status: 503 }
       )
     }
+
+    // The subscription belongs to the active organization; the webhook links it back
+    const auth = await authenticateSession('billing:manage')
+    if (auth.error !== undefined) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status })
+    }
+    const { supabase, context } = auth
+
     const { priceId, customerEmail, planName } = await request.json()
 
+    const { data: organization } = await supabase
+      .from('organizations')
+      .select('stripe_customer_id')
+      .eq('id', context.organizationId)
+      .single()
+
     // Create or retrieve customer
     let customer
-    const existingCustomers = await stripe.customers.list({
-      email: customerEmail,
-      limit: 1,
-    })
+    const existingCustomers = organization?.stripe_customer_id
+      ? { data: [{ id: organization.stripe_customer_id }] }
+      : await stripe.customers.list({
+          email: customerEmail,
+          limit: 1,
+        })
 
     if (existingCustomers.data.length > 0) {
       customer = existingCustomers.data[0]
@@ -48,6 +47,7 @@ export async function POST(request: NextRequest) {
         email: customerEmail,
         metadata: {
           plan: planName,
+          organization_id: context.organizationId,
         },
       })
     }
@@ -65,9 +65,17 @@ export async function POST(request: NextRequest) {
       mode: 'subscription',
       success_url: `${process.env.NEXT_PUBLIC_APP_URL}/dashboard?success=true`,
       cancel_url: `${process.env.NEXT_PUBLIC_APP_URL}/pricing?canceled=true`,
+      client_reference_id: context.organizationId,
+      subscription_data: {
+        metadata: {
+          plan: planName,
+          organization_id: context.organizationId,
+        },
+      },
       metadata: {
         plan: planName,
         customerEmail,
+        organization_id: context.organizationId,
       },
     })
 
@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/auth/request';
+import { CONTACT_COLUMNS, clearPrimaryContact, parseContactInput } from '@/lib/customer-contacts';
+import { logActivity } from '@/lib/activity';
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string; contactId: string } }
+) {
+  try {
+    const auth = await authenticateRequest(request, 'customers:write');
+    if (auth.error !== undefined) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const { supabase, context } = auth;
+
+    const body = await request.json();
+    const input = parseContactInput(body, true);
+    if (input.error !== undefined) {
+      return NextResponse.json({ error: input.error }, { status: 400 });
+    }
+
+    if (input.values.is_primary === true) {
+      const { data: existing } = await supabase
+        .from('customer_contacts')
+        .select('id')
+        .eq('id', params.contactId)
+        .eq('customer_id', params.id)
+        .eq('organization_id', context.organizationId)
+        .maybeSingle();
+
+      if (!existing) {
+        return NextResponse.json({ error: 'Contact not found' }, { status: 404 });
+      }
+      await clearPrimaryContact(supabase, context.organizationId, params.id);
+    }
+
+    const { data: contact, error } = await supabase
+      .from('customer_contacts')
+      .update({ ...input.values, updated_at: new Date().toISOString() })
+      .eq('id', params.contactId)
+      .eq('customer_id', params.id)
+      .eq('organization_id', context.organizationId)
+      .select(CONTACT_COLUMNS)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error updating customer contact:', error);
+      return NextResponse.json({ error: 'Failed to update contact' }, { status: 500 });
+    }
+
+    if (!contact) {
+      return NextResponse.json({ error: 'Contact not found' }, { status: 404 });
+    }
+
+    await logActivity(context, {
+      action: 'contact_updated',
+      resource_type: 'customer',
+      resource_id: params.id,
+      metadata: { contact_id: contact.id, name: contact.name, fields: Object.keys(input.values) },
+    }, request);
+
+    return NextResponse.json({ contact });
+  } catch (error) {
+    console.error('Error in update customer contact API route:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// Offers and invoices addressed to the contact fall back to the role or customer address
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string; contactId: string } }
+) {
+  try {
+    const auth = await authenticateRequest(request, 'customers:write');
+    if (auth.error !== undefined) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const { supabase, context } = auth;
+
+    const { data: contact, error } = await supabase
+      .from('customer_contacts')
+      .delete()
+      .eq('id', params.contactId)
+      .eq('customer_id', params.id)
+      .eq('organization_id', context.organizationId)
+      .select('id, name')
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error deleting customer contact:', error);
+      return NextResponse.json({ error: 'Failed to delete contact' }, { status: 500 });
+    }
+
+    if (!contact) {
+      return NextResponse.json({ error: 'Contact not found' }, { status: 404 });
+    }
+
+    await logActivity(context, {
+      action: 'contact_deleted',
+      resource_type: 'customer',
+      resource_id: params.id,
+      metadata: { contact_id: contact.id, name: contact.name },
+    }, request);
+
+    return NextResponse.json({ message: 'Contact deleted successfully' });
+  } catch (error) {
+    console.error('Error in delete customer contact API route:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
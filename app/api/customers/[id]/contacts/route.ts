@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/auth/request';
+import { CONTACT_COLUMNS, clearPrimaryContact, parseContactInput } from '@/lib/customer-contacts';
+import { logActivity } from '@/lib/activity';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authenticateRequest(request, 'customers:read');
+    if (auth.error !== undefined) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const { supabase, context } = auth;
+
+    const { data: contacts, error } = await supabase
+      .from('customer_contacts')
+      .select(CONTACT_COLUMNS)
+      .eq('customer_id', params.id)
+      .eq('organization_id', context.organizationId)
+      .order('is_primary', { ascending: false })
+      .order('name', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching customer contacts:', error);
+      return NextResponse.json({ error: 'Failed to fetch contacts' }, { status: 500 });
+    }
+
+    return NextResponse.json({ contacts });
+  } catch (error) {
+    console.error('Error in customer contacts API route:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authenticateRequest(request, 'customers:write');
+    if (auth.error !== undefined) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const { supabase, context } = auth;
+
+    const body = await request.json();
+    const input = parseContactInput(body);
+    if (input.error !== undefined) {
+      return NextResponse.json({ error: input.error }, { status: 400 });
+    }
+
+    const { data: customer } = await supabase
+      .from('customers')
+      .select('id')
+      .eq('id', params.id)
+      .eq('organization_id', context.organizationId)
+      .maybeSingle();
+
+    if (!customer) {
+      return NextResponse.json({ error: 'Customer not found' }, { status: 404 });
+    }
+
+    // The first contact of a customer becomes its primary contact
+    const { count } = await supabase
+      .from('customer_contacts')
+      .select('id', { count: 'exact', head: true })
+      .eq('customer_id', customer.id);
+    const isPrimary = input.values.is_primary === true || !count;
+
+    if (isPrimary) {
+      await clearPrimaryContact(supabase, context.organizationId, customer.id);
+    }
+
+    const { data: contact, error } = await supabase
+      .from('customer_contacts')
+      .insert({
+        ...input.values,
+        is_primary: isPrimary,
+        customer_id: customer.id,
+        organization_id: context.organizationId
+      })
+      .select(CONTACT_COLUMNS)
+      .single();
+
+    if (error) {
+      console.error('Error creating customer contact:', error);
+      return NextResponse.json({ error: 'Failed to create contact' }, { status: 500 });
+    }
+
+    // Contacts are logged on their customer, so the customer page shows them
+    await logActivity(context, {
+      action: 'contact_created',
+      resource_type: 'customer',
+      resource_id: customer.id,
+      metadata: { contact_id: contact.id, name: contact.name },
+    }, request);
+
+    return NextResponse.json({ contact }, { status: 201 });
+  } catch (error) {
+    console.error('Error in create customer contact API route:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
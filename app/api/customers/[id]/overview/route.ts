@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateSession } from '@/lib/auth/request';
+import { summarizeCustomerAccount, toCustomerPayments } from '@/lib/customers';
+import { CONTACT_COLUMNS } from '@/lib/customer-contacts';
+
+const OFFER_COLUMNS = 'id, title, amount, total, currency, status, due_date, created_at';
+const INVOICE_COLUMNS = 'id, invoice_number, offer_id, title, amount, total, currency, status, invoice_type, due_date, paid_at, created_at';
+const ACTIVITY_LIMIT = 50;
+
+// Everything the customer detail page shows: the customer with its contacts, offers, invoices,
+// payments and activity, and the lifetime value and open balance derived from them
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authenticateSession('customers:read');
+    if (auth.error !== undefined) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const { supabase, context } = auth;
+
+    const { data: customer, error: customerError } = await supabase
+      .from('customers')
+      .select('*')
+      .eq('id', params.id)
+      .eq('organization_id', context.organizationId)
+      .maybeSingle();
+
+    if (customerError) {
+      console.error('Error fetching customer:', customerError);
+      return NextResponse.json({ error: 'Failed to fetch customer' }, { status: 500 });
+    }
+
+    if (!customer) {
+      return NextResponse.json({ error: 'Customer not found' }, { status: 404 });
+    }
+
+    const [contactsResult, offersResult, invoicesResult] = await Promise.all([
+      supabase
+        .from('customer_contacts')
+        .select(CONTACT_COLUMNS)
+        .eq('customer_id', customer.id)
+        .eq('organization_id', context.organizationId)
+        .order('is_primary', { ascending: false })
+        .order('name', { ascending: true }),
+      supabase
+        .from('offers')
+        .select(OFFER_COLUMNS)
+        .eq('client_id', customer.id)
+        .eq('organization_id', context.organizationId)
+        .order('created_at', { ascending: false }),
+      supabase
+        .from('invoices')
+        .select(INVOICE_COLUMNS)
+        .eq('customer_id', customer.id)
+        .eq('organization_id', context.organizationId)
+        .order('created_at', { ascending: false })
+    ]);
+
+    if (contactsResult.error || offersResult.error || invoicesResult.error) {
+      console.error('Error fetching customer documents:', contactsResult.error || offersResult.error || invoicesResult.error);
+      return NextResponse.json({ error: 'Failed to fetch customer overview' }, { status: 500 });
+    }
+
+    const offers = offersResult.data || [];
+    const invoices = invoicesResult.data || [];
+
+    // Activity on the customer itself and on its offers and invoices
+    const resourceIds = [customer.id, ...offers.map(offer => offer.id), ...invoices.map(invoice => invoice.id)];
+    const { data: activity, error: activityError } = await supabase
+      .from('activity_log')
+      .select('id, user_id, action, resource_type, resource_id, metadata, created_at')
+      .eq('organization_id', context.organizationId)
+      .in('resource_id', resourceIds)
+      .order('created_at', { ascending: false })
+      .limit(ACTIVITY_LIMIT);
+
+    if (activityError) {
+      console.error('Error fetching customer activity:', activityError);
+      return NextResponse.json({ error: 'Failed to fetch customer overview' }, { status: 500 });
+    }
+
+    return NextResponse.json({
+      customer,
+      contacts: contactsResult.data || [],
+      summary: summarizeCustomerAccount(offers, invoices),
+      offers,
+      invoices,
+      payments: toCustomerPayments(invoices),
+      activity: activity || []
+    });
+  } catch (error) {
+    console.error('Error in customer overview API route:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
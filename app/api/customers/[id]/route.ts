@@ -0,0 +1,130 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/auth/request';
+import { parseCustomerUpdate } from '@/lib/customers';
+import { logActivity } from '@/lib/activity';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authenticateRequest(request, 'customers:read');
+    if (auth.error !== undefined) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const { supabase, context } = auth;
+
+    const { data: customer, error } = await supabase
+      .from('customers')
+      .select('*')
+      .eq('id', params.id)
+      .eq('organization_id', context.organizationId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching customer:', error);
+      return NextResponse.json({ error: 'Failed to fetch customer' }, { status: 500 });
+    }
+
+    if (!customer) {
+      return NextResponse.json({ error: 'Customer not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ customer });
+  } catch (error) {
+    console.error('Error in customer API route:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authenticateRequest(request, 'customers:write');
+    if (auth.error !== undefined) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const { supabase, context } = auth;
+
+    const body = await request.json();
+    const parsed = parseCustomerUpdate(body);
+    if (parsed.error !== undefined) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const { data: customer, error } = await supabase
+      .from('customers')
+      .update({ ...parsed.updates, updated_at: new Date().toISOString() })
+      .eq('id', params.id)
+      .eq('organization_id', context.organizationId)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error updating customer:', error);
+      return NextResponse.json({ error: 'Failed to update customer' }, { status: 500 });
+    }
+
+    if (!customer) {
+      return NextResponse.json({ error: 'Customer not found' }, { status: 404 });
+    }
+
+    await logActivity(context, {
+      action: 'customer_updated',
+      resource_type: 'customer',
+      resource_id: customer.id,
+      metadata: { name: customer.name, fields: Object.keys(parsed.updates) },
+    }, request);
+
+    return NextResponse.json({ customer });
+  } catch (error) {
+    console.error('Error in update customer API route:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// Offers and invoices keep their data; their link to the customer is cleared by the database
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authenticateRequest(request, 'customers:write', 'customers:delete');
+    if (auth.error !== undefined) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const { supabase, context } = auth;
+
+    const { data: customer, error } = await supabase
+      .from('customers')
+      .delete()
+      .eq('id', params.id)
+      .eq('organization_id', context.organizationId)
+      .select('id, name')
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error deleting customer:', error);
+      return NextResponse.json({ error: 'Failed to delete customer' }, { status: 500 });
+    }
+
+    if (!customer) {
+      return NextResponse.json({ error: 'Customer not found' }, { status: 404 });
+    }
+
+    // The name is kept in the log, the customer itself is gone
+    await logActivity(context, {
+      action: 'customer_deleted',
+      resource_type: 'customer',
+      resource_id: customer.id,
+      metadata: { name: customer.name },
+    }, request);
+
+    return NextResponse.json({ message: 'Customer deleted successfully' });
+  } catch (error) {
+    console.error('Error in delete customer API route:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
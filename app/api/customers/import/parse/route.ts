@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/auth/request';
+import { MAX_IMPORT_FILE_SIZE, MAX_IMPORT_ROWS, autoMapColumns } from '@/lib/customer-import';
+import { readSpreadsheet } from '@/lib/spreadsheet/xlsx';
+
+// Read an uploaded CSV or XLSX file (multipart field "file") and propose a column mapping
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authenticateRequest(request, 'customers:write');
+    if (auth.error !== undefined) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+
+    const formData = await request.formData();
+    const file = formData.get('file');
+    if (!file || typeof file === 'string') {
+      return NextResponse.json({ error: 'Missing required field: file' }, { status: 400 });
+    }
+
+    if (file.size > MAX_IMPORT_FILE_SIZE) {
+      return NextResponse.json({ error: 'File is too large (max 5 MB)' }, { status: 413 });
+    }
+
+    let rows: string[][];
+    try {
+      rows = readSpreadsheet(file.name, new Uint8Array(await file.arrayBuffer()));
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Could not read the file' },
+        { status: 400 }
+      );
+    }
+
+    const [headers = [], ...data] = rows;
+    if (data.length === 0) {
+      return NextResponse.json({ error: 'The file has no rows to import' }, { status: 400 });
+    }
+
+    if (data.length > MAX_IMPORT_ROWS) {
+      return NextResponse.json({ error: `The file has more than ${MAX_IMPORT_ROWS} rows` }, { status: 400 });
+    }
+
+    return NextResponse.json({ headers, rows: data, mapping: autoMapColumns(headers) });
+  } catch (error) {
+    console.error('Error in parse customer import API route:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/auth/request';
+import { databaseService } from '@/lib/database-service';
+import {
+  DUPLICATE_STRATEGIES,
+  IMPORT_CUSTOMER_COLUMNS,
+  MAX_IMPORT_ROWS,
+  planCustomerImport,
+  runCustomerImport,
+  summarizeImportPlan,
+  validateColumnMapping,
+} from '@/lib/customer-import';
+import { logActivity } from '@/lib/activity';
+
+// Import parsed spreadsheet rows as customers. With dry_run the plan is returned for the
+// preview without writing anything; the plan is always rebuilt here from the rows.
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authenticateRequest(request, 'customers:write');
+    if (auth.error !== undefined) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const { supabase, context } = auth;
+
+    const body = await request.json();
+    const { rows, mapping, strategy = 'skip', dry_run = false } = body;
+
+    if (!Array.isArray(rows) || !rows.every(row => Array.isArray(row) && row.every(cell => typeof cell === 'string'))) {
+      return NextResponse.json({ error: 'Rows must be a list of rows of text cells' }, { status: 400 });
+    }
+
+    if (rows.length > MAX_IMPORT_ROWS) {
+      return NextResponse.json({ error: `An import can have at most ${MAX_IMPORT_ROWS} rows` }, { status: 400 });
+    }
+
+    const mappingError = validateColumnMapping(mapping);
+    if (mappingError) {
+      return NextResponse.json({ error: mappingError }, { status: 400 });
+    }
+
+    if (!DUPLICATE_STRATEGIES.includes(strategy)) {
+      return NextResponse.json(
+        { error: `Strategy must be one of: ${DUPLICATE_STRATEGIES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const { data: existing, error } = await supabase
+      .from('customers')
+      .select(IMPORT_CUSTOMER_COLUMNS)
+      .eq('organization_id', context.organizationId);
+
+    if (error) {
+      console.error('Error fetching customers for import:', error);
+      return NextResponse.json({ error: 'Failed to fetch customers' }, { status: 500 });
+    }
+
+    const plan = planCustomerImport(rows, mapping, existing || [], strategy);
+    if (dry_run) {
+      return NextResponse.json({ rows: plan, summary: summarizeImportPlan(plan) });
+    }
+
+    const result = await runCustomerImport(
+      plan,
+      context.organizationId,
+      operations => databaseService.batch(operations, supabase)
+    );
+
+    // One entry for the whole import rather than one per row
+    await logActivity(context, {
+      action: 'customers_imported',
+      resource_type: 'customer',
+      metadata: { ...result.summary, strategy },
+    }, request);
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error in customer import API route:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
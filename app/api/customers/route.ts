@@ -1,12 +1,22 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createServer } from '@/lib/supabase/server';
+import { authenticateRequest } from '@/lib/auth/request';
+import { checkVatNumber, normalizeVatNumber } from '@/validators/vat-number';
+import { emitWebhookEvent } from '@/lib/outgoing-webhooks';
+import { serializeCustomer } from '@/lib/public-api/resources';
+import { logActivity } from '@/lib/activity';
 
 export async function GET(request: NextRequest) {
-  const supabase = createServer();
   try {
+    const auth = await authenticateRequest(request, 'customers:read');
+    if (auth.error !== undefined) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const { supabase, context } = auth;
+
     const { data: customers, error } = await supabase
       .from('customers')
       .select('*')
+      .eq('organization_id', context.organizationId)
       .order('name', { ascending: true });
 
     if (error) {
@@ -22,10 +32,15 @@ export async function GET(request: NextRequest) {
 }
 
 export async function POST(request: NextRequest) {
-  const supabase = createServer();
   try {
+    const auth = await authenticateRequest(request, 'customers:write');
+    if (auth.error !== undefined) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const { supabase, context } = auth;
+
     const body = await request.json();
-    const { name, email, phone, address, company } = body;
+    const { name, email, phone, address, company, vat_number } = body;
 
     // Validate required fields
     if (!name || !email) {
@@ -35,15 +50,24 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (vat_number) {
+      const vatCheck = checkVatNumber(vat_number);
+      if (!vatCheck.valid) {
+        return NextResponse.json({ error: vatCheck.error }, { status: 400 });
+      }
+    }
+
     // Create customer
     const { data: customer, error } = await supabase
       .from('customers')
       .insert({
+        organization_id: context.organizationId,
         name,
         email,
         phone,
         address,
-        company
+        company,
+        vat_number: vat_number ? normalizeVatNumber(vat_number) : null
       })
       .select()
       .single();
@@ -53,6 +77,14 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Failed to create customer' }, { status: 500 });
     }
 
+    await emitWebhookEvent(context.organizationId, 'customer.created', serializeCustomer(customer));
+    await logActivity(context, {
+      action: 'customer_created',
+      resource_type: 'customer',
+      resource_id: customer.id,
+      metadata: { name: customer.name },
+    }, request);
+
     return NextResponse.json({ customer }, { status: 201 });
   } catch (error) {
     console.error('Error in create customer API route:', error);
@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/auth/request';
+import { toCsv } from '@/lib/spreadsheet/csv';
+import { writeXlsx, writeZip } from '@/lib/spreadsheet/xlsx';
+import {
+  exportBaseName,
+  exportColumns,
+  exportFileName,
+  fetchExportRows,
+  parseExportRequest,
+  toExportHeader,
+  toExportRecord,
+  toExportRow,
+  toLineItemHeader,
+  toLineItemRows,
+  type ExportRow,
+} from '@/lib/exports';
+
+const CONTENT_TYPES = {
+  csv: 'text/csv; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  zip: 'application/zip',
+};
+
+const fileResponse = (body: BodyInit, contentType: string, fileName: string) =>
+  new NextResponse(body, {
+    headers: {
+      'Content-Type': contentType,
+      'Content-Disposition': `attachment; filename="${fileName}"`,
+      'Cache-Control': 'no-store',
+    },
+  });
+
+// Export the offers, invoices or customers matching the filters of the list, or the selected
+// ones, as CSV, XLSX or JSON. CSV and JSON are streamed page by page; XLSX and CSV with line
+// items are built in memory, because they are zip archives.
+export async function POST(request: NextRequest) {
+  try {
+    const parsed = parseExportRequest(await request.json().catch(() => null));
+    if (parsed.error !== undefined) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+    const exportRequest = parsed.request;
+    const { resource, format, include_items: includeItems } = exportRequest;
+
+    const auth = await authenticateRequest(request, `${resource}:read`);
+    if (auth.error !== undefined) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const { supabase, context } = auth;
+
+    const columns = exportColumns(exportRequest);
+    const pages = fetchExportRows(supabase, context.organizationId, exportRequest);
+
+    // The first page is read before responding, so a failing query still gets an error status
+    let first: IteratorResult<ExportRow[]>;
+    try {
+      first = await pages.next();
+    } catch (error) {
+      console.error(`Error fetching ${resource} for export:`, error);
+      return NextResponse.json({ error: `Failed to fetch ${resource}` }, { status: 500 });
+    }
+
+    if (format === 'xlsx' || (format === 'csv' && includeItems)) {
+      const rows: unknown[][] = [toExportHeader(columns)];
+      const lines: unknown[][] = [toLineItemHeader(resource)];
+      for (let page = first; !page.done; page = await pages.next()) {
+        page.value.forEach(row => {
+          rows.push(toExportRow(row, columns));
+          if (includeItems) lines.push(...toLineItemRows(resource, row));
+        });
+      }
+
+      if (format === 'xlsx') {
+        const sheets = [{ name: exportBaseName(resource), rows }];
+        if (includeItems) sheets.push({ name: 'regels', rows: lines });
+        return fileResponse(writeXlsx(sheets), CONTENT_TYPES.xlsx, exportFileName(resource, 'xlsx'));
+      }
+
+      const zip = writeZip([
+        { name: `${exportBaseName(resource)}.csv`, data: toCsv(rows) },
+        { name: `${exportBaseName(resource)}-regels.csv`, data: toCsv(lines) },
+      ]);
+      return fileResponse(zip, CONTENT_TYPES.zip, exportFileName(resource, 'zip'));
+    }
+
+    // Each pull writes one page and fetches the next, so large exports never sit in memory
+    const encoder = new TextEncoder();
+    let page = first;
+    let written = 0;
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(encoder.encode(format === 'csv' ? toCsv([toExportHeader(columns)]) : '['));
+      },
+      async pull(controller) {
+        try {
+          if (page.done) {
+            if (format === 'json') controller.enqueue(encoder.encode(']'));
+            controller.close();
+            return;
+          }
+
+          const chunk = format === 'csv'
+            ? page.value.map(row => '\r\n' + toCsv([toExportRow(row, columns)])).join('')
+            : page.value
+              .map((row, index) => (written + index > 0 ? ',' : '') + JSON.stringify(toExportRecord(resource, row, columns, includeItems)))
+              .join('');
+          written += page.value.length;
+          controller.enqueue(encoder.encode(chunk));
+          page = await pages.next();
+        } catch (error) {
+          console.error(`Error streaming ${resource} export:`, error);
+          controller.error(error);
+        }
+      },
+    });
+
+    return fileResponse(stream, CONTENT_TYPES[format], exportFileName(resource, format));
+  } catch (error) {
+    console.error('Error in export API route:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,151 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServer } from '@/lib/supabase/server';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { ACTIVE_ORGANIZATION_COOKIE, ACTIVE_ORGANIZATION_COOKIE_OPTIONS } from '@/lib/auth/organization';
+import {
+  countUsedSeats,
+  findInvitationByToken,
+  getInviteBlocker,
+  hasFreeSeat,
+  toPublicInvitation,
+} from '@/lib/team-invites';
+import { logActivity } from '@/lib/activity';
+
+// Endpoint behind /invite/[token]. Access is granted by the token; the invitee is not a member
+// yet, so invitations are read and accepted with the service role.
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { token: string } }
+) {
+  try {
+    const result = await findInvitationByToken(createAdminClient(), params.token);
+    if (!result) {
+      return NextResponse.json({ error: 'Invitation not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      invitation: toPublicInvitation(result.invitation, result.organizationName),
+      blocker: getInviteBlocker(result.invitation),
+    });
+  } catch (error) {
+    console.error('Error in GET /api/invitations/[token]:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// Accept the invitation as the signed-in user, who must use the invited email address
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { token: string } }
+) {
+  try {
+    const { data: { user } } = await createServer().auth.getUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const supabase = createAdminClient();
+    const result = await findInvitationByToken(supabase, params.token);
+    if (!result) {
+      return NextResponse.json({ error: 'Invitation not found' }, { status: 404 });
+    }
+
+    const { invitation, maxTeamSize } = result;
+    const blocker = getInviteBlocker(invitation);
+    if (blocker) {
+      return NextResponse.json({ error: blocker }, { status: 409 });
+    }
+
+    if (user.email?.toLowerCase() !== invitation.email.toLowerCase()) {
+      return NextResponse.json(
+        { error: `Deze uitnodiging is verstuurd naar ${invitation.email}. Log in met dat e-mailadres.` },
+        { status: 403 }
+      );
+    }
+
+    // The invitation holds a seat itself; it only fails when the plan shrank since inviting
+    const usedSeats = await countUsedSeats(supabase, invitation.organization_id);
+    if (!hasFreeSeat(maxTeamSize, usedSeats - 1)) {
+      return NextResponse.json({ error: 'Het team heeft geen vrije plaatsen meer' }, { status: 409 });
+    }
+
+    const now = new Date().toISOString();
+
+    // Claim the invitation first, so it can only be accepted once
+    const { data: claimed, error: claimError } = await supabase
+      .from('team_invitations')
+      .update({ accepted_at: now, accepted_by: user.id })
+      .eq('id', invitation.id)
+      .is('accepted_at', null)
+      .is('revoked_at', null)
+      .select('id')
+      .maybeSingle();
+
+    if (claimError) {
+      console.error('Error accepting team invitation:', claimError);
+      return NextResponse.json({ error: 'Failed to accept invitation' }, { status: 500 });
+    }
+
+    if (!claimed) {
+      return NextResponse.json({ error: 'Deze uitnodiging is al gebruikt' }, { status: 409 });
+    }
+
+    // team_members references public.users, which new accounts may not have yet
+    const { error: profileError } = await supabase
+      .from('users')
+      .upsert(
+        { id: user.id, email: user.email, full_name: user.user_metadata?.full_name || user.user_metadata?.name || null },
+        { onConflict: 'id', ignoreDuplicates: true }
+      );
+
+    // A former member who is invited again gets the membership back with the new role
+    const { error: memberError } = profileError
+      ? { error: profileError }
+      : await supabase
+        .from('team_members')
+        .upsert(
+          {
+            user_id: user.id,
+            organization_id: invitation.organization_id,
+            role: invitation.role,
+            status: 'active',
+            invited_at: invitation.created_at,
+            joined_at: now,
+          },
+          { onConflict: 'user_id,organization_id' }
+        );
+
+    if (memberError) {
+      console.error('Error adding team member:', memberError);
+      // Release the claim so the invitee can try again
+      await supabase.from('team_invitations').update({ accepted_at: null, accepted_by: null }).eq('id', invitation.id);
+      return NextResponse.json({ error: 'Failed to accept invitation' }, { status: 500 });
+    }
+
+    // Joining a team replaces the onboarding wizard, which would create an organization of their own
+    if (user.user_metadata?.onboarding_completed !== true) {
+      await supabase.auth.admin.updateUserById(user.id, {
+        user_metadata: { ...user.user_metadata, onboarding_completed: true },
+      });
+    }
+
+    await logActivity(
+      { organizationId: invitation.organization_id, userId: user.id },
+      {
+        action: 'team_invitation_accepted',
+        resource_type: 'team_member',
+        resource_id: user.id,
+        metadata: { email: invitation.email, role: invitation.role, invitation_id: invitation.id },
+      },
+      request
+    );
+
+    const response = NextResponse.json({ organization_id: invitation.organization_id });
+    response.cookies.set(ACTIVE_ORGANIZATION_COOKIE, invitation.organization_id, ACTIVE_ORGANIZATION_COOKIE_OPTIONS);
+    return response;
+  } catch (error) {
+    console.error('Error in POST /api/invitations/[token]:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateSession } from '@/lib/auth/request';
+import { InvoiceConversionError, planCreditNote } from '@/lib/invoices';
+import { emitWebhookEvent } from '@/lib/outgoing-webhooks';
+import { serializeInvoice } from '@/lib/public-api/resources';
+import { logActivity } from '@/lib/activity';
+
+const UNIQUE_VIOLATION = '23505';
+
+// Credit an invoice in full, once; the credit note is numbered in the credit note series
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authenticateSession('invoices:write');
+    if (auth.error !== undefined) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const { supabase, context } = auth;
+
+    const { data: original, error: fetchError } = await supabase
+      .from('invoices')
+      .select('*')
+      .eq('id', params.id)
+      .eq('organization_id', context.organizationId)
+      .single();
+
+    if (fetchError || !original) {
+      return NextResponse.json({ error: 'Invoice not found' }, { status: 404 });
+    }
+
+    const plan = planCreditNote(original);
+
+    const { data: existing, error: existingError } = await supabase
+      .from('invoices')
+      .select('id')
+      .eq('organization_id', context.organizationId)
+      .eq('parent_invoice_id', original.id)
+      .eq('invoice_type', 'credit_note')
+      .neq('status', 'cancelled')
+      .limit(1)
+      .maybeSingle();
+
+    if (existingError) {
+      console.error('Error checking credit notes:', existingError);
+      return NextResponse.json({ error: 'Failed to create credit note' }, { status: 500 });
+    }
+    if (existing) {
+      return NextResponse.json({ error: 'Invoice has already been credited' }, { status: 409 });
+    }
+
+    const { data: invoice, error } = await supabase
+      .from('invoices')
+      .insert({
+        organization_id: context.organizationId,
+        created_by: context.userId,
+        offer_id: original.offer_id,
+        customer_id: original.customer_id,
+        contact_id: original.contact_id,
+        title: plan.title,
+        description: original.description,
+        items: JSON.stringify(plan.items),
+        amount: plan.amount,
+        vat_amount: plan.vat_amount,
+        total: plan.total,
+        currency: original.currency,
+        status: 'draft',
+        invoice_type: 'credit_note',
+        parent_invoice_id: original.id,
+        due_date: new Date().toISOString().split('T')[0]
+      })
+      .select()
+      .single();
+
+    // idx_invoices_single_credit_note catches a second request that passed the check above
+    if (error?.code === UNIQUE_VIOLATION) {
+      return NextResponse.json({ error: 'Invoice has already been credited' }, { status: 409 });
+    }
+    if (error) {
+      console.error('Error creating credit note:', error);
+      return NextResponse.json({ error: 'Failed to create credit note' }, { status: 500 });
+    }
+
+    await emitWebhookEvent(context.organizationId, 'invoice.created', serializeInvoice(invoice));
+    await logActivity(context, {
+      action: 'credit_note_created',
+      resource_type: 'invoice',
+      resource_id: invoice.id,
+      metadata: { invoice_number: invoice.invoice_number, total: invoice.total, original_invoice_id: original.id },
+    }, request);
+
+    return NextResponse.json({ invoice }, { status: 201 });
+  } catch (error) {
+    if (error instanceof InvoiceConversionError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error in credit note API route:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
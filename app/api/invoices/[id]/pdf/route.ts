@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateSession } from '@/lib/auth/request';
+import { generateAndStorePdf } from '@/lib/pdf/documents';
+import { createPdfSignedUrl } from '@/lib/pdf/storage';
+
+// The PDF buckets are private: downloads redirect to a signed URL that expires within a minute
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authenticateSession('invoices:read');
+    if (auth.error !== undefined) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const { supabase, context } = auth;
+
+    const { data: invoice, error } = await supabase
+      .from('invoices')
+      .select('id, pdf_url')
+      .eq('id', params.id)
+      .eq('organization_id', context.organizationId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching invoice:', error);
+      return NextResponse.json({ error: 'Failed to download invoice PDF' }, { status: 500 });
+    }
+    if (!invoice) {
+      return NextResponse.json({ error: 'Invoice not found' }, { status: 404 });
+    }
+
+    if (!invoice.pdf_url) {
+      await generateAndStorePdf(supabase, 'invoice', invoice.id, context.organizationId);
+    }
+
+    return NextResponse.redirect(await createPdfSignedUrl(supabase, 'invoice', invoice.id));
+  } catch (error) {
+    console.error('Error downloading invoice PDF:', error);
+    return NextResponse.json({ error: 'Failed to download invoice PDF' }, { status: 500 });
+  }
+}
+
+// (Re)generate the invoice PDF and store it under pdf_url
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authenticateSession('invoices:read');
+    if (auth.error !== undefined) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const { supabase, context } = auth;
+
+    const { pdfUrl } = await generateAndStorePdf(supabase, 'invoice', params.id, context.organizationId);
+
+    return NextResponse.json({ pdf_url: pdfUrl });
+  } catch (error) {
+    console.error('Error generating invoice PDF:', error);
+    return NextResponse.json({ error: 'Failed to generate invoice PDF' }, { status: 500 });
+  }
+}
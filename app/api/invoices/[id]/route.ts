@@ -1,12 +1,25 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createServer } from '@/lib/supabase/server';
+import { authenticateRequest } from '@/lib/auth/request';
+import { isContactOfCustomer } from '@/lib/customer-contacts';
+import { findOrganizationCustomer } from '@/lib/customers';
+import { calculateInvoiceTotals, isDeletableInvoice, normalizeInvoiceItems } from '@/lib/invoices';
+import { usesReverseCharge } from '@/lib/vat';
+import { isValidVatNumber } from '@/validators/vat-number';
+import { emitWebhookEvent } from '@/lib/outgoing-webhooks';
+import { serializeInvoice } from '@/lib/public-api/resources';
+import { logActivity, statusChangeAction } from '@/lib/activity';
 
 export async function GET(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
-  const supabase = createServer();
   try {
+    const auth = await authenticateRequest(request, 'invoices:read');
+    if (auth.error !== undefined) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const { supabase, context } = auth;
+
     const { data: invoice, error } = await supabase
       .from('invoices')
       .select(`
@@ -18,6 +31,7 @@ export async function GET(
         )
       `)
       .eq('id', params.id)
+      .eq('organization_id', context.organizationId)
       .single();
 
     if (error) {
@@ -36,43 +50,79 @@ export async function PUT(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
-  const supabase = createServer();
   try {
+    const auth = await authenticateRequest(request, 'invoices:write');
+    if (auth.error !== undefined) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const { supabase, context } = auth;
+
     const body = await request.json();
     const { 
-      invoice_number, 
       customer_id, 
+      contact_id,
       title, 
       description, 
       total, 
       status,
-      due_date,
-      items = []
+      due_date
     } = body;
+    const items = normalizeInvoiceItems(body.items);
+    const totals = calculateInvoiceTotals(items, Number(total));
 
     // Validate required fields
-    if (!invoice_number || !customer_id || !title || !total) {
+    if (!customer_id || !title || (items.length === 0 && !total) || Number.isNaN(totals.amount)) {
       return NextResponse.json(
-        { error: 'Missing required fields: invoice_number, customer_id, title, total' },
+        { error: 'Missing required fields: customer_id, title, items or total' },
         { status: 400 }
       );
     }
 
+    const customer = await findOrganizationCustomer(supabase, context.organizationId, customer_id);
+    if (!customer) {
+      return NextResponse.json({ error: 'Customer not found' }, { status: 400 });
+    }
+
+    if (contact_id && !(await isContactOfCustomer(supabase, context.organizationId, customer_id, contact_id))) {
+      return NextResponse.json({ error: 'Contact does not belong to the customer' }, { status: 400 });
+    }
+
+    // Reverse-charge lines are only allowed for business customers with a valid VAT number
+    if (usesReverseCharge(items) && (!customer.vat_number || !isValidVatNumber(customer.vat_number))) {
+      return NextResponse.json(
+        { error: 'Reverse-charge VAT requires a customer with a valid VAT number' },
+        { status: 400 }
+      );
+    }
+
+    // invoice.paid is only emitted by the update that marks the invoice as paid
+    let markedPaid = false;
+    if (status === 'paid') {
+      const { data: current } = await supabase
+        .from('invoices')
+        .select('status')
+        .eq('id', params.id)
+        .eq('organization_id', context.organizationId)
+        .maybeSingle();
+      markedPaid = !!current && current.status !== 'paid';
+    }
+
     // Update invoice
     const { data: invoice, error } = await supabase
       .from('invoices')
       .update({
-        invoice_number,
         customer_id,
+        contact_id: contact_id || null,
         title,
         description,
-        total,
+        ...totals,
         status,
         due_date,
         items: JSON.stringify(items),
         updated_at: new Date().toISOString()
       })
       .eq('id', params.id)
+      .eq('organization_id', context.organizationId)
       .select()
       .single();
 
@@ -81,6 +131,17 @@ export async function PUT(
       return NextResponse.json({ error: 'Failed to update invoice' }, { status: 500 });
     }
 
+    if (markedPaid) {
+      await emitWebhookEvent(context.organizationId, 'invoice.paid', serializeInvoice(invoice));
+    }
+
+    await logActivity(context, {
+      action: markedPaid ? statusChangeAction('invoice', 'paid') : 'invoice_updated',
+      resource_type: 'invoice',
+      resource_id: invoice.id,
+      metadata: { invoice_number: invoice.invoice_number, title: invoice.title, total: invoice.total },
+    }, request);
+
     return NextResponse.json({ invoice });
   } catch (error) {
     console.error('Error in update invoice API route:', error);
@@ -92,18 +153,55 @@ export async function DELETE(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
-  const supabase = createServer();
   try {
-    const { error } = await supabase
+    const auth = await authenticateRequest(request, 'invoices:write', 'invoices:delete');
+    if (auth.error !== undefined) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const { supabase, context } = auth;
+
+    const { data: current, error: fetchError } = await supabase
+      .from('invoices')
+      .select('status, invoice_number')
+      .eq('id', params.id)
+      .eq('organization_id', context.organizationId)
+      .maybeSingle();
+
+    if (fetchError) {
+      console.error('Error fetching invoice:', fetchError);
+      return NextResponse.json({ error: 'Failed to delete invoice' }, { status: 500 });
+    }
+
+    // Numbered invoices keep their place in the sequence; they are cancelled or credited instead
+    if (current && !isDeletableInvoice(current)) {
+      return NextResponse.json(
+        { error: 'Only draft invoices without an invoice number can be deleted; cancel the invoice or create a credit note instead' },
+        { status: 409 }
+      );
+    }
+
+    const { data: invoice, error } = await supabase
       .from('invoices')
       .delete()
-      .eq('id', params.id);
+      .eq('id', params.id)
+      .eq('organization_id', context.organizationId)
+      .select('id, invoice_number, title')
+      .maybeSingle();
 
     if (error) {
       console.error('Error deleting invoice:', error);
       return NextResponse.json({ error: 'Failed to delete invoice' }, { status: 500 });
     }
 
+    if (invoice) {
+      await logActivity(context, {
+        action: 'invoice_deleted',
+        resource_type: 'invoice',
+        resource_id: invoice.id,
+        metadata: { invoice_number: invoice.invoice_number, title: invoice.title },
+      }, request);
+    }
+
     return NextResponse.json({ message: 'Invoice deleted successfully' });
   } catch (error) {
     console.error('Error in delete invoice API route:', error);
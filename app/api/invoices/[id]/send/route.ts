@@ -0,0 +1,130 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateSession } from '@/lib/auth/request';
+import { generateAndStorePdf } from '@/lib/pdf/documents';
+import { PDF_EMAIL_LINK_EXPIRY_SECONDS, createPdfSignedUrl } from '@/lib/pdf/storage';
+import { getOutstandingAmount } from '@/lib/invoices';
+import { getUserEmailService } from '@/lib/email/email';
+import { findDocumentRecipient } from '@/lib/customer-contacts';
+import { getStripeClient } from '@/lib/billing/stripe';
+import { createInvoicePaymentLink, saveInvoicePaymentLink } from '@/lib/billing/invoice-payments';
+import { logActivity } from '@/lib/activity';
+
+// Email the invoice with its PDF attached; a draft is numbered and marked as sent
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authenticateSession('invoices:send');
+    if (auth.error !== undefined) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const { supabase, context } = auth;
+
+    const { data: stored, error: invoiceError } = await supabase
+      .from('invoices')
+      .select(`
+        *,
+        customers (
+          id,
+          name,
+          email
+        )
+      `)
+      .eq('id', params.id)
+      .eq('organization_id', context.organizationId)
+      .single();
+
+    if (invoiceError || !stored) {
+      return NextResponse.json({ error: 'Invoice not found' }, { status: 404 });
+    }
+
+    // The chosen contact, else the contact with the billing role, else the customer
+    const recipient = stored.customers
+      ? await findDocumentRecipient(supabase, stored.customers, 'invoice', stored.contact_id)
+      : null;
+    if (!recipient) {
+      return NextResponse.json({ error: 'Customer has no email address' }, { status: 400 });
+    }
+
+    // Sending issues a draft: the database numbers it when it leaves draft, so it is marked as
+    // sent first to put the number on the payment link, the PDF and the email. When the email
+    // fails the invoice stays issued and can be sent again. invoices:send alone does not allow
+    // updating invoices, so the send fields are set through mark_invoice_sent.
+    let invoice = stored;
+    if (stored.status === 'draft') {
+      const { data: issued, error: issueError } = await supabase.rpc('mark_invoice_sent', { p_invoice_id: stored.id });
+
+      if (issueError) {
+        console.error('Error issuing invoice:', issueError);
+        return NextResponse.json({ error: 'Failed to update invoice' }, { status: 500 });
+      }
+      invoice = { ...stored, ...issued };
+    }
+
+    // Payment link for the outstanding amount; created before the PDF so it is printed on it.
+    // Without Stripe, or when Stripe fails, the invoice is still sent with bank transfer details.
+    let paymentUrl: string | null = invoice.payment_url;
+    const stripe = getStripeClient();
+    if (stripe) {
+      try {
+        const link = await createInvoicePaymentLink(stripe, invoice);
+        if (link) {
+          await saveInvoicePaymentLink(supabase, invoice.id, link);
+          paymentUrl = link.payment_url;
+        }
+      } catch (error) {
+        console.error('Error creating invoice payment link:', error);
+      }
+    }
+
+    const pdf = await generateAndStorePdf(supabase, 'invoice', invoice.id, context.organizationId);
+
+    const { data: organization } = await supabase
+      .from('organizations')
+      .select('name')
+      .eq('id', context.organizationId)
+      .single();
+
+    const emailService = await getUserEmailService(supabase, context.userId);
+    const result = await emailService.sendInvoice({
+      email: recipient.email,
+      recipientName: recipient.name,
+      invoiceId: invoice.id,
+      invoiceNumber: invoice.invoice_number,
+      amount: Number(invoice.total ?? invoice.amount),
+      dueDate: invoice.due_date,
+      downloadUrl: await createPdfSignedUrl(supabase, 'invoice', invoice.id, PDF_EMAIL_LINK_EXPIRY_SECONDS),
+      paymentUrl: getOutstandingAmount(invoice) > 0 ? paymentUrl : null,
+      companyName: organization?.name || 'QuoteFast',
+      attachments: [{ filename: pdf.fileName, content: pdf.bytes, contentType: 'application/pdf' }]
+    });
+
+    if (!result.success) {
+      console.error('Error sending invoice email:', result.error);
+      return NextResponse.json({ error: 'Failed to send invoice email' }, { status: 502 });
+    }
+
+    const { data: updatedInvoice, error } = await supabase.rpc('mark_invoice_sent', {
+      p_invoice_id: invoice.id,
+      p_pdf_stored: true,
+    });
+
+    if (error) {
+      console.error('Error updating sent invoice:', error);
+      return NextResponse.json({ error: 'Failed to update invoice' }, { status: 500 });
+    }
+
+    await logActivity(context, {
+      action: 'invoice_sent',
+      resource_type: 'invoice',
+      resource_id: invoice.id,
+      metadata: { invoice_number: invoice.invoice_number, email: recipient.email },
+    }, request);
+
+    return NextResponse.json({ invoice: updatedInvoice, messageId: result.messageId });
+  } catch (error) {
+    console.error('Error in send invoice API route:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -1,9 +1,22 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createServer } from '@/lib/supabase/server';
+import { authenticateRequest } from '@/lib/auth/request';
+import { isContactOfCustomer } from '@/lib/customer-contacts';
+import { findOrganizationCustomer } from '@/lib/customers';
+import { calculateInvoiceTotals, normalizeInvoiceItems } from '@/lib/invoices';
+import { usesReverseCharge } from '@/lib/vat';
+import { isValidVatNumber } from '@/validators/vat-number';
+import { emitWebhookEvent } from '@/lib/outgoing-webhooks';
+import { serializeInvoice } from '@/lib/public-api/resources';
+import { logActivity } from '@/lib/activity';
 
 export async function GET(request: NextRequest) {
-  const supabase = createServer();
   try {
+    const auth = await authenticateRequest(request, 'invoices:read');
+    if (auth.error !== undefined) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const { supabase, context } = auth;
+
     const { data: invoices, error } = await supabase
       .from('invoices')
       .select(`
@@ -14,6 +27,7 @@ export async function GET(request: NextRequest) {
           email
         )
       `)
+      .eq('organization_id', context.organizationId)
       .order('created_at', { ascending: false });
 
     if (error) {
@@ -29,37 +43,62 @@ export async function GET(request: NextRequest) {
 }
 
 export async function POST(request: NextRequest) {
-  const supabase = createServer();
   try {
+    const auth = await authenticateRequest(request, 'invoices:write');
+    if (auth.error !== undefined) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const { supabase, context } = auth;
+
     const body = await request.json();
     const { 
-      invoice_number, 
       customer_id, 
+      contact_id,
       title, 
       description, 
       total, 
       status = 'draft',
-      due_date,
-      items = []
+      due_date
     } = body;
+    const items = normalizeInvoiceItems(body.items);
+    const totals = calculateInvoiceTotals(items, Number(total));
 
     // Validate required fields
-    if (!invoice_number || !customer_id || !title || !total) {
+    if (!customer_id || !title || (items.length === 0 && !total) || Number.isNaN(totals.amount)) {
+      return NextResponse.json(
+        { error: 'Missing required fields: customer_id, title, items or total' },
+        { status: 400 }
+      );
+    }
+
+    const customer = await findOrganizationCustomer(supabase, context.organizationId, customer_id);
+    if (!customer) {
+      return NextResponse.json({ error: 'Customer not found' }, { status: 400 });
+    }
+
+    if (contact_id && !(await isContactOfCustomer(supabase, context.organizationId, customer_id, contact_id))) {
+      return NextResponse.json({ error: 'Contact does not belong to the customer' }, { status: 400 });
+    }
+
+    // Reverse-charge lines are only allowed for business customers with a valid VAT number
+    if (usesReverseCharge(items) && (!customer.vat_number || !isValidVatNumber(customer.vat_number))) {
       return NextResponse.json(
-        { error: 'Missing required fields: invoice_number, customer_id, title, total' },
+        { error: 'Reverse-charge VAT requires a customer with a valid VAT number' },
         { status: 400 }
       );
     }
 
-    // Create invoice
+    // Create invoice; invoice_number is assigned by the database once it leaves draft
     const { data: invoice, error } = await supabase
       .from('invoices')
       .insert({
-        invoice_number,
+        organization_id: context.organizationId,
+        created_by: context.userId,
         customer_id,
+        contact_id: contact_id || null,
         title,
         description,
-        total,
+        ...totals,
         status,
         due_date,
         items: JSON.stringify(items)
@@ -72,6 +111,14 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Failed to create invoice' }, { status: 500 });
     }
 
+    await emitWebhookEvent(context.organizationId, 'invoice.created', serializeInvoice(invoice));
+    await logActivity(context, {
+      action: 'invoice_created',
+      resource_type: 'invoice',
+      resource_id: invoice.id,
+      metadata: { invoice_number: invoice.invoice_number, title: invoice.title, total: invoice.total },
+    }, request);
+
     return NextResponse.json({ invoice }, { status: 201 });
   } catch (error) {
     console.error('Error in create invoice API route:', error);
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { findOfferByToken } from '@/lib/offer-portal';
+import { createPdfSignedUrl } from '@/lib/pdf/storage';
+
+// PDF download for the offer portal: the token grants access, the PDF itself is
+// served through a signed URL that expires within a minute.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { token: string } }
+) {
+  const supabase = createAdminClient();
+  try {
+    const result = await findOfferByToken(supabase, params.token);
+    if (!result || !result.offer.pdf_url) {
+      return NextResponse.json({ error: 'Offer not found' }, { status: 404 });
+    }
+
+    return NextResponse.redirect(await createPdfSignedUrl(supabase, 'offer', result.offer.id));
+  } catch (error) {
+    console.error('Error in public offer PDF route:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,161 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createAdminClient } from '@/lib/supabase/admin';
+import {
+  findCurrentRevisionId,
+  findOfferByToken,
+  getOfferResponseBlocker,
+  offerResponseSchema,
+  toPublicOffer,
+} from '@/lib/offer-portal';
+import { emitWebhookEvent } from '@/lib/outgoing-webhooks';
+import { serializeOffer } from '@/lib/public-api/resources';
+import { MAX_USER_AGENT_LENGTH, logActivity, requestIpAddress, statusChangeAction } from '@/lib/activity';
+
+// Public endpoint behind /o/[token]: no session, access is granted by the offer token.
+// Uses the service role because anonymous visitors cannot read offers through RLS.
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { token: string } }
+) {
+  const supabase = createAdminClient();
+  try {
+    const result = await findOfferByToken(supabase, params.token);
+    if (!result) {
+      return NextResponse.json({ error: 'Offer not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ offer: toPublicOffer(result.offer, result.organizationName) });
+  } catch (error) {
+    console.error('Error in public offer API route:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { token: string } }
+) {
+  const supabase = createAdminClient();
+  try {
+    const parsed = offerResponseSchema.safeParse(await request.json().catch(() => null));
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.issues[0]?.message || 'Invalid request' }, { status: 400 });
+    }
+
+    const result = await findOfferByToken(supabase, params.token);
+    if (!result) {
+      return NextResponse.json({ error: 'Offer not found' }, { status: 404 });
+    }
+
+    const { offer, organizationName } = result;
+    const body = parsed.data;
+    const now = new Date().toISOString();
+
+    // First open: set viewed_at once and move sent -> viewed
+    if (body.action === 'view') {
+      if (!offer.viewed_at) {
+        const { data: viewed } = await supabase
+          .from('offers')
+          .update({
+            viewed_at: now,
+            status: offer.status === 'sent' ? 'viewed' : offer.status,
+            updated_at: now
+          })
+          .eq('id', offer.id)
+          .is('viewed_at', null)
+          .select()
+          .maybeSingle();
+
+        if (viewed) {
+          await logActivity(
+            { organizationId: offer.organization_id, userId: null },
+            {
+              action: statusChangeAction('offer', 'viewed'),
+              resource_type: 'offer',
+              resource_id: offer.id,
+              metadata: { title: offer.title, old_status: offer.status },
+            },
+            request
+          );
+        }
+
+        return NextResponse.json({ offer: toPublicOffer(viewed || offer, organizationName) });
+      }
+      return NextResponse.json({ offer: toPublicOffer(offer, organizationName) });
+    }
+
+    const blocker = getOfferResponseBlocker(offer);
+    if (blocker) {
+      return NextResponse.json({ error: blocker }, { status: 409 });
+    }
+
+    const decision = body.action === 'accept' ? 'accepted' : 'rejected';
+
+    const { data: signature, error: signatureError } = await supabase
+      .from('offer_signatures')
+      .insert({
+        offer_id: offer.id,
+        organization_id: offer.organization_id,
+        decision,
+        signer_name: body.name,
+        signature_type: body.action === 'accept' ? body.signature_type : null,
+        signature_data: body.action === 'accept' ? body.signature : null,
+        rejection_reason: body.action === 'reject' ? body.reason : null,
+        offer_revision_id: await findCurrentRevisionId(supabase, offer.id),
+        ip_address: requestIpAddress(request),
+        user_agent: request.headers.get('user-agent')?.slice(0, MAX_USER_AGENT_LENGTH) || null,
+        signed_at: now
+      })
+      .select('id')
+      .single();
+
+    if (signatureError) {
+      console.error('Error saving offer signature:', signatureError);
+      return NextResponse.json({ error: 'Failed to save response' }, { status: 500 });
+    }
+
+    // Guarded on the current status so two responses cannot both win
+    const { data: updatedOffer, error } = await supabase
+      .from('offers')
+      .update({
+        status: decision,
+        viewed_at: offer.viewed_at || now,
+        updated_at: now
+      })
+      .eq('id', offer.id)
+      .in('status', ['sent', 'viewed'])
+      .select()
+      .maybeSingle();
+
+    if (error || !updatedOffer) {
+      await supabase.from('offer_signatures').delete().eq('id', signature.id);
+      if (error) {
+        console.error('Error updating offer status:', error);
+        return NextResponse.json({ error: 'Failed to save response' }, { status: 500 });
+      }
+      return NextResponse.json({ error: 'Deze offerte is al beantwoord' }, { status: 409 });
+    }
+
+    if (decision === 'accepted') {
+      await emitWebhookEvent(offer.organization_id, 'offer.accepted', serializeOffer(updatedOffer));
+    }
+
+    // The customer responded, not a team member
+    await logActivity(
+      { organizationId: offer.organization_id, userId: null },
+      {
+        action: statusChangeAction('offer', decision),
+        resource_type: 'offer',
+        resource_id: offer.id,
+        metadata: { title: offer.title, old_status: offer.status, signer_name: body.name },
+      },
+      request
+    );
+
+    return NextResponse.json({ offer: toPublicOffer(updatedOffer, organizationName) });
+  } catch (error) {
+    console.error('Error in public offer response API route:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateSession } from '@/lib/auth/request';
+import {
+  DEFAULT_PAYMENT_TERMS_DAYS,
+  InvoiceConversionError,
+  calculateDueDate,
+  planOfferInvoice,
+} from '@/lib/invoices';
+import { emitWebhookEvent } from '@/lib/outgoing-webhooks';
+import { serializeInvoice } from '@/lib/public-api/resources';
+import { logActivity } from '@/lib/activity';
+
+// Turn an accepted offer into a draft invoice, optionally as a deposit
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authenticateSession('invoices:write');
+    if (auth.error !== undefined) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const { supabase, context } = auth;
+
+    const body = await request.json().catch(() => ({}));
+
+    const { data: offer, error: offerError } = await supabase
+      .from('offers')
+      .select('*')
+      .eq('id', params.id)
+      .eq('organization_id', context.organizationId)
+      .single();
+
+    if (offerError || !offer) {
+      return NextResponse.json({ error: 'Offer not found' }, { status: 404 });
+    }
+
+    const { data: existingInvoices, error: invoicesError } = await supabase
+      .from('invoices')
+      .select('id, invoice_number, invoice_type, items, amount, status, deposit_percentage, created_at')
+      .eq('offer_id', offer.id)
+      .eq('organization_id', context.organizationId);
+
+    if (invoicesError) {
+      console.error('Error fetching offer invoices:', invoicesError);
+      return NextResponse.json({ error: 'Failed to fetch offer invoices' }, { status: 500 });
+    }
+
+    const plan = planOfferInvoice(offer, existingInvoices || [], {
+      deposit_percentage: body.deposit_percentage,
+    });
+
+    const { data: organization } = await supabase
+      .from('organizations')
+      .select('payment_terms_days')
+      .eq('id', context.organizationId)
+      .single();
+
+    // invoice_number is assigned by the database when the draft is sent
+
+    const { data: invoice, error } = await supabase
+      .from('invoices')
+      .insert({
+        organization_id: context.organizationId,
+        created_by: context.userId,
+        offer_id: offer.id,
+        customer_id: offer.client_id,
+        title: plan.title,
+        description: plan.description,
+        items: JSON.stringify(plan.items),
+        amount: plan.amount,
+        vat_amount: plan.vat_amount,
+        total: plan.total,
+        currency: offer.currency,
+        status: 'draft',
+        invoice_type: plan.invoice_type,
+        deposit_percentage: plan.deposit_percentage,
+        parent_invoice_id: plan.parent_invoice_id,
+        due_date: calculateDueDate(new Date(), organization?.payment_terms_days ?? DEFAULT_PAYMENT_TERMS_DAYS)
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating invoice from offer:', error);
+      return NextResponse.json({ error: 'Failed to create invoice' }, { status: 500 });
+    }
+
+    await emitWebhookEvent(context.organizationId, 'invoice.created', serializeInvoice(invoice));
+    await logActivity(context, {
+      action: 'invoice_created',
+      resource_type: 'invoice',
+      resource_id: invoice.id,
+      metadata: {
+        invoice_number: invoice.invoice_number,
+        title: invoice.title,
+        total: invoice.total,
+        invoice_type: invoice.invoice_type,
+        offer_id: offer.id,
+      },
+    }, request);
+
+    return NextResponse.json({ invoice }, { status: 201 });
+  } catch (error) {
+    if (error instanceof InvoiceConversionError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error in offer to invoice API route:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateSession } from '@/lib/auth/request';
+import { generateAndStorePdf } from '@/lib/pdf/documents';
+import { createPdfSignedUrl } from '@/lib/pdf/storage';
+
+// The PDF buckets are private: downloads redirect to a signed URL that expires within a minute
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authenticateSession('offers:read');
+    if (auth.error !== undefined) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const { supabase, context } = auth;
+
+    const { data: offer, error } = await supabase
+      .from('offers')
+      .select('id, pdf_url')
+      .eq('id', params.id)
+      .eq('organization_id', context.organizationId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching offer:', error);
+      return NextResponse.json({ error: 'Failed to download offer PDF' }, { status: 500 });
+    }
+    if (!offer) {
+      return NextResponse.json({ error: 'Offer not found' }, { status: 404 });
+    }
+
+    if (!offer.pdf_url) {
+      await generateAndStorePdf(supabase, 'offer', offer.id, context.organizationId);
+    }
+
+    return NextResponse.redirect(await createPdfSignedUrl(supabase, 'offer', offer.id));
+  } catch (error) {
+    console.error('Error downloading offer PDF:', error);
+    return NextResponse.json({ error: 'Failed to download offer PDF' }, { status: 500 });
+  }
+}
+
+// (Re)generate the offer PDF and store it under pdf_url
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authenticateSession('offers:read');
+    if (auth.error !== undefined) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const { supabase, context } = auth;
+
+    const { pdfUrl } = await generateAndStorePdf(supabase, 'offer', params.id, context.organizationId);
+
+    return NextResponse.json({ pdf_url: pdfUrl });
+  } catch (error) {
+    console.error('Error generating offer PDF:', error);
+    return NextResponse.json({ error: 'Failed to generate offer PDF' }, { status: 500 });
+  }
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateSession } from '@/lib/auth/request';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authenticateSession('offers:read');
+    if (auth.error !== undefined) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const { supabase, context } = auth;
+
+    const { data: revisions, error } = await supabase
+      .from('offer_revisions')
+      .select('*')
+      .eq('offer_id', params.id)
+      .eq('organization_id', context.organizationId)
+      .order('version', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching offer revisions:', error);
+      return NextResponse.json({ error: 'Failed to fetch offer revisions' }, { status: 500 });
+    }
+
+    return NextResponse.json({ revisions });
+  } catch (error) {
+    console.error('Error in offer revisions API route:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,189 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/auth/request';
+import { isContactOfCustomer } from '@/lib/customer-contacts';
+import { findOrganizationCustomer } from '@/lib/customers';
+import { calculateOfferTotals, isOfferStatus, normalizeOfferProducts, offerStatusChangeError } from '@/lib/offers';
+import { emitOfferStatusEvent } from '@/lib/outgoing-webhooks';
+import { serializeOffer } from '@/lib/public-api/resources';
+import { logActivity, statusChangeAction } from '@/lib/activity';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authenticateRequest(request, 'offers:read');
+    if (auth.error !== undefined) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const { supabase, context } = auth;
+
+    const { data: offer, error } = await supabase
+      .from('offers')
+      .select(`
+        *,
+        customers (
+          id,
+          name,
+          email
+        )
+      `)
+      .eq('id', params.id)
+      .eq('organization_id', context.organizationId)
+      .single();
+
+    if (error) {
+      console.error('Error fetching offer:', error);
+      return NextResponse.json({ error: 'Offer not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ offer });
+  } catch (error) {
+    console.error('Error in get offer API route:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authenticateRequest(request, 'offers:write');
+    if (auth.error !== undefined) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const { supabase, context } = auth;
+
+    const body = await request.json();
+    const {
+      title,
+      client_name,
+      client_id,
+      contact_id,
+      currency,
+      status,
+      due_date,
+      terms
+    } = body;
+    const products = normalizeOfferProducts(body.products);
+    const totals = calculateOfferTotals(products, Number(body.amount));
+
+    // Validate required fields
+    if (!title || !client_name || Number.isNaN(totals.amount)) {
+      return NextResponse.json(
+        { error: 'Missing required fields: title, client_name, products or amount' },
+        { status: 400 }
+      );
+    }
+
+    if (status !== undefined && !isOfferStatus(status)) {
+      return NextResponse.json({ error: `Invalid status: ${status}` }, { status: 400 });
+    }
+
+    if (client_id && !(await findOrganizationCustomer(supabase, context.organizationId, client_id))) {
+      return NextResponse.json({ error: 'Customer not found' }, { status: 400 });
+    }
+
+    if (contact_id && !(await isContactOfCustomer(supabase, context.organizationId, client_id, contact_id))) {
+      return NextResponse.json({ error: 'Contact does not belong to the customer' }, { status: 400 });
+    }
+
+    // Status changes get their own entry in the activity log and may emit a webhook event
+    const { data: current } = await supabase
+      .from('offers')
+      .select('status')
+      .eq('id', params.id)
+      .eq('organization_id', context.organizationId)
+      .maybeSingle();
+
+    const statusError = current && status !== undefined ? offerStatusChangeError(context.role, current.status, status) : null;
+    if (statusError) {
+      return NextResponse.json({ error: statusError }, { status: 403 });
+    }
+
+    // Update offer
+    const { data: offer, error } = await supabase
+      .from('offers')
+      .update({
+        title,
+        client_name,
+        client_id: client_id || null,
+        contact_id: contact_id || null,
+        ...totals,
+        currency,
+        status,
+        due_date: due_date || null,
+        terms: terms || null,
+        products,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', params.id)
+      .eq('organization_id', context.organizationId)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating offer:', error);
+      return NextResponse.json({ error: 'Failed to update offer' }, { status: 500 });
+    }
+
+    const statusChanged = !!current && current.status !== offer.status;
+    if (statusChanged) {
+      await emitOfferStatusEvent(context.organizationId, current.status, serializeOffer(offer));
+    }
+    await logActivity(context, {
+      action: statusChanged ? statusChangeAction('offer', offer.status) : 'offer_updated',
+      resource_type: 'offer',
+      resource_id: offer.id,
+      metadata: statusChanged
+        ? { title: offer.title, old_status: current.status }
+        : { title: offer.title, total: offer.total },
+    }, request);
+
+    return NextResponse.json({ offer });
+  } catch (error) {
+    console.error('Error in update offer API route:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authenticateRequest(request, 'offers:write', 'offers:delete');
+    if (auth.error !== undefined) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const { supabase, context } = auth;
+
+    const { data: offer, error } = await supabase
+      .from('offers')
+      .delete()
+      .eq('id', params.id)
+      .eq('organization_id', context.organizationId)
+      .select('id, title')
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error deleting offer:', error);
+      return NextResponse.json({ error: 'Failed to delete offer' }, { status: 500 });
+    }
+
+    if (offer) {
+      await logActivity(context, {
+        action: 'offer_deleted',
+        resource_type: 'offer',
+        resource_id: offer.id,
+        metadata: { title: offer.title },
+      }, request);
+    }
+
+    return NextResponse.json({ message: 'Offer deleted successfully' });
+  } catch (error) {
+    console.error('Error in delete offer API route:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
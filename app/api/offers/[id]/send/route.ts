@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateSession } from '@/lib/auth/request';
+import { generateAndStorePdf, offerNumber } from '@/lib/pdf/documents';
+import { getOfferPortalUrl } from '@/lib/offer-portal';
+import { getUserEmailService } from '@/lib/email/email';
+import { findDocumentRecipient } from '@/lib/customer-contacts';
+import { emitWebhookEvent } from '@/lib/outgoing-webhooks';
+import { serializeOffer } from '@/lib/public-api/resources';
+import { logActivity } from '@/lib/activity';
+
+// Email the offer with its PDF attached and mark a draft as sent
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authenticateSession('offers:send');
+    if (auth.error !== undefined) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const { supabase, context } = auth;
+
+    const { data: offer, error: offerError } = await supabase
+      .from('offers')
+      .select(`
+        *,
+        customers (
+          id,
+          name,
+          email
+        )
+      `)
+      .eq('id', params.id)
+      .eq('organization_id', context.organizationId)
+      .single();
+
+    if (offerError || !offer) {
+      return NextResponse.json({ error: 'Offer not found' }, { status: 404 });
+    }
+
+    // The chosen contact, else the contact with the quotes role, else the customer
+    const recipient = offer.customers
+      ? await findDocumentRecipient(supabase, offer.customers, 'offer', offer.contact_id)
+      : null;
+    if (!recipient) {
+      return NextResponse.json({ error: 'Customer has no email address' }, { status: 400 });
+    }
+
+    const pdf = await generateAndStorePdf(supabase, 'offer', offer.id, context.organizationId);
+
+    const { data: organization } = await supabase
+      .from('organizations')
+      .select('name')
+      .eq('id', context.organizationId)
+      .single();
+
+    const emailService = await getUserEmailService(supabase, context.userId);
+    const result = await emailService.sendOffer({
+      email: recipient.email,
+      recipientName: recipient.name,
+      offerId: offer.id,
+      offerNumber: offerNumber(offer),
+      amount: offer.amount,
+      validUntil: offer.due_date || '',
+      // The email button links to the portal, where the customer can accept or reject
+      downloadUrl: getOfferPortalUrl(offer.public_token),
+      companyName: organization?.name || 'QuoteFast',
+      attachments: [{ filename: pdf.fileName, content: pdf.bytes, contentType: 'application/pdf' }]
+    });
+
+    if (!result.success) {
+      console.error('Error sending offer email:', result.error);
+      return NextResponse.json({ error: 'Failed to send offer email' }, { status: 502 });
+    }
+
+    // offers:send alone does not allow updating offers; the function only sets the status and pdf_url
+    const { data: updatedOffer, error } = await supabase.rpc('mark_offer_sent', { p_offer_id: offer.id });
+
+    if (error) {
+      console.error('Error updating sent offer:', error);
+      return NextResponse.json({ error: 'Failed to update offer' }, { status: 500 });
+    }
+
+    await emitWebhookEvent(context.organizationId, 'offer.sent', serializeOffer(updatedOffer));
+    await logActivity(context, {
+      action: 'offer_sent',
+      resource_type: 'offer',
+      resource_id: offer.id,
+      metadata: { title: offer.title, email: recipient.email },
+    }, request);
+
+    return NextResponse.json({ offer: updatedOffer, messageId: result.messageId });
+  } catch (error) {
+    console.error('Error in send offer API route:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,211 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/auth/request';
+import { isContactOfCustomer } from '@/lib/customer-contacts';
+import { findOrganizationCustomer } from '@/lib/customers';
+import { calculateOfferTotals, isOfferStatus, normalizeOfferProducts, offerStatusChangeError } from '@/lib/offers';
+import { emitOfferStatusEvent } from '@/lib/outgoing-webhooks';
+import { serializeOffer } from '@/lib/public-api/resources';
+import { logActivity, statusChangeAction } from '@/lib/activity';
+
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticateRequest(request, 'offers:read');
+    if (auth.error !== undefined) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const { supabase, context } = auth;
+
+    const status = request.nextUrl.searchParams.get('status');
+
+    let query = supabase
+      .from('offers')
+      .select(`
+        *,
+        customers (
+          id,
+          name,
+          email
+        )
+      `)
+      .eq('organization_id', context.organizationId)
+      .order('created_at', { ascending: false });
+
+    if (status) {
+      query = query.eq('status', status);
+    }
+
+    const { data: offers, error } = await query;
+
+    if (error) {
+      console.error('Error fetching offers:', error);
+      return NextResponse.json({ error: 'Failed to fetch offers' }, { status: 500 });
+    }
+
+    return NextResponse.json({ offers });
+  } catch (error) {
+    console.error('Error in offers API route:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authenticateRequest(request, 'offers:write');
+    if (auth.error !== undefined) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const { supabase, context } = auth;
+
+    const body = await request.json();
+    const {
+      title,
+      client_name,
+      client_id,
+      contact_id,
+      currency = 'EUR',
+      status = 'draft',
+      due_date,
+      terms
+    } = body;
+    const products = normalizeOfferProducts(body.products);
+    const totals = calculateOfferTotals(products, Number(body.amount));
+
+    // Validate required fields
+    if (!title || !client_name || Number.isNaN(totals.amount)) {
+      return NextResponse.json(
+        { error: 'Missing required fields: title, client_name, products or amount' },
+        { status: 400 }
+      );
+    }
+
+    if (!isOfferStatus(status)) {
+      return NextResponse.json({ error: `Invalid status: ${status}` }, { status: 400 });
+    }
+
+    const statusError = offerStatusChangeError(context.role, null, status);
+    if (statusError) {
+      return NextResponse.json({ error: statusError }, { status: 403 });
+    }
+
+    if (client_id && !(await findOrganizationCustomer(supabase, context.organizationId, client_id))) {
+      return NextResponse.json({ error: 'Customer not found' }, { status: 400 });
+    }
+
+    if (contact_id && !(await isContactOfCustomer(supabase, context.organizationId, client_id, contact_id))) {
+      return NextResponse.json({ error: 'Contact does not belong to the customer' }, { status: 400 });
+    }
+
+    // Create offer
+    const { data: offer, error } = await supabase
+      .from('offers')
+      .insert({
+        organization_id: context.organizationId,
+        created_by: context.userId,
+        title,
+        client_name,
+        client_id: client_id || null,
+        contact_id: contact_id || null,
+        ...totals,
+        currency,
+        status,
+        due_date: due_date || null,
+        terms: terms || null,
+        products
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating offer:', error);
+      return NextResponse.json({ error: 'Failed to create offer' }, { status: 500 });
+    }
+
+    await logActivity(context, {
+      action: 'offer_created',
+      resource_type: 'offer',
+      resource_id: offer.id,
+      metadata: { title: offer.title, total: offer.total },
+    }, request);
+
+    return NextResponse.json({ offer }, { status: 201 });
+  } catch (error) {
+    console.error('Error in create offer API route:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// Bulk status update for the offertes overview
+export async function PATCH(request: NextRequest) {
+  try {
+    const auth = await authenticateRequest(request, 'offers:write');
+    if (auth.error !== undefined) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const { supabase, context } = auth;
+
+    const { ids, status } = await request.json();
+
+    if (!Array.isArray(ids) || ids.length === 0 || !status) {
+      return NextResponse.json(
+        { error: 'Missing required fields: ids, status' },
+        { status: 400 }
+      );
+    }
+
+    if (!isOfferStatus(status)) {
+      return NextResponse.json({ error: `Invalid status: ${status}` }, { status: 400 });
+    }
+
+    // Only offers whose status actually changes are logged and emit a webhook event
+    const { data: previous, error: fetchError } = await supabase
+      .from('offers')
+      .select('id, status')
+      .eq('organization_id', context.organizationId)
+      .in('id', ids);
+
+    if (fetchError) {
+      console.error('Error fetching offers:', fetchError);
+      return NextResponse.json({ error: 'Failed to update offers' }, { status: 500 });
+    }
+    const previousStatus = new Map((previous || []).map(offer => [offer.id, offer.status]));
+
+    for (const from of previousStatus.values()) {
+      const statusError = offerStatusChangeError(context.role, from, status);
+      if (statusError) {
+        return NextResponse.json({ error: statusError }, { status: 403 });
+      }
+    }
+
+    const { data: offers, error } = await supabase
+      .from('offers')
+      .update({
+        status,
+        updated_at: new Date().toISOString()
+      })
+      .eq('organization_id', context.organizationId)
+      .in('id', ids)
+      .select();
+
+    if (error) {
+      console.error('Error updating offers:', error);
+      return NextResponse.json({ error: 'Failed to update offers' }, { status: 500 });
+    }
+
+    // Logged per offer, so every offer keeps its own history
+    const changed = (offers || []).filter(offer => previousStatus.get(offer.id) !== offer.status);
+    await Promise.all(changed.map(async offer => {
+      await emitOfferStatusEvent(context.organizationId, previousStatus.get(offer.id), serializeOffer(offer));
+      await logActivity(context, {
+        action: statusChangeAction('offer', status),
+        resource_type: 'offer',
+        resource_id: offer.id,
+        metadata: { title: offer.title, old_status: previousStatus.get(offer.id), bulk: true },
+      }, request);
+    }));
+
+    return NextResponse.json({ offers });
+  } catch (error) {
+    console.error('Error in bulk update offers API route:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
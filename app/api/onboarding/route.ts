@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServer } from '@/lib/supabase/server';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { ACTIVE_ORGANIZATION_COOKIE, ACTIVE_ORGANIZATION_COOKIE_OPTIONS } from '@/lib/auth/organization';
+import { createOrganization, listOrganizationMemberships, parseOrganizationInput } from '@/lib/organizations';
+import { logActivity } from '@/lib/activity';
+
+// Finish (or skip) the onboarding wizard. Users without an organization get one from the
+// company name and industry they entered; the completion is stored in the user metadata so
+// middleware.ts stops sending them to the wizard.
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = createServer();
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+
+    let organization = null;
+    const memberships = await listOrganizationMemberships(supabase, user.id);
+    if (memberships.length === 0) {
+      // Skipping the company name step still needs a name for the organization
+      const parsed = parseOrganizationInput({
+        companyName: (typeof body?.companyName === 'string' && body.companyName.trim())
+          || user.user_metadata?.full_name
+          || user.email,
+        industry: body?.industry,
+      });
+      if (parsed.error !== undefined) {
+        return NextResponse.json({ error: parsed.error }, { status: 400 });
+      }
+      organization = await createOrganization(createAdminClient(), user, parsed.values);
+      await logActivity(
+        { organizationId: organization.id, userId: user.id },
+        { action: 'organization_created', resource_type: 'organization', resource_id: organization.id, metadata: { name: organization.name } },
+        request
+      );
+    }
+
+    const { error } = await supabase.auth.updateUser({ data: { onboarding_completed: true } });
+    if (error) {
+      console.error('Error completing onboarding:', error);
+      return NextResponse.json({ error: 'Failed to complete onboarding' }, { status: 500 });
+    }
+
+    const response = NextResponse.json({ organization });
+    if (organization) {
+      response.cookies.set(ACTIVE_ORGANIZATION_COOKIE, organization.id, ACTIVE_ORGANIZATION_COOKIE_OPTIONS);
+    }
+    return response;
+  } catch (error) {
+    console.error('Error in POST /api/onboarding:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
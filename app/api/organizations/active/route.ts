@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServer } from '@/lib/supabase/server';
+import { ACTIVE_ORGANIZATION_COOKIE, ACTIVE_ORGANIZATION_COOKIE_OPTIONS } from '@/lib/auth/organization';
+import { listOrganizationMemberships } from '@/lib/organizations';
+
+// Switch the organization the API routes scope reads and writes to
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = createServer();
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => null);
+    const organizationId = typeof body?.organization_id === 'string' ? body.organization_id : '';
+    if (!organizationId) {
+      return NextResponse.json({ error: 'organization_id is required' }, { status: 400 });
+    }
+
+    // Only organizations the user is an active member of can be chosen
+    const organizations = await listOrganizationMemberships(supabase, user.id);
+    const membership = organizations.find(organization => organization.organization_id === organizationId);
+    if (!membership) {
+      return NextResponse.json({ error: 'Organization not found' }, { status: 404 });
+    }
+
+    const response = NextResponse.json({ active_organization_id: membership.organization_id });
+    response.cookies.set(ACTIVE_ORGANIZATION_COOKIE, membership.organization_id, ACTIVE_ORGANIZATION_COOKIE_OPTIONS);
+    return response;
+  } catch (error) {
+    console.error('Error in POST /api/organizations/active:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
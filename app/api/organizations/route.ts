@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { createServer } from '@/lib/supabase/server';
+import { createAdminClient } from '@/lib/supabase/admin';
+import {
+  ACTIVE_ORGANIZATION_COOKIE,
+  ACTIVE_ORGANIZATION_COOKIE_OPTIONS,
+  pickActiveMembership,
+} from '@/lib/auth/organization';
+import { createOrganization, listOrganizationMemberships, parseOrganizationInput } from '@/lib/organizations';
+import type { OrganizationList } from '@/types/api/organization';
+import { logActivity } from '@/lib/activity';
+
+// The organizations the user belongs to and which one is active, for the organization switcher.
+// Works without any membership as well, so onboarding can tell whether to create one.
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = createServer();
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const organizations = await listOrganizationMemberships(supabase, user.id);
+    const active = pickActiveMembership(organizations, cookies().get(ACTIVE_ORGANIZATION_COOKIE)?.value ?? null);
+
+    const list: OrganizationList = {
+      organizations,
+      active_organization_id: active?.organization_id ?? null,
+    };
+
+    return NextResponse.json(list);
+  } catch (error) {
+    console.error('Error in GET /api/organizations:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// Create an organization from the onboarding answers and make it the active one
+export async function POST(request: NextRequest) {
+  try {
+    const { data: { user } } = await createServer().auth.getUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const parsed = parseOrganizationInput(await request.json().catch(() => null));
+    if (parsed.error !== undefined) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const organization = await createOrganization(createAdminClient(), user, parsed.values);
+    await logActivity(
+      { organizationId: organization.id, userId: user.id },
+      { action: 'organization_created', resource_type: 'organization', resource_id: organization.id, metadata: { name: organization.name } },
+      request
+    );
+
+    const response = NextResponse.json({ organization }, { status: 201 });
+    response.cookies.set(ACTIVE_ORGANIZATION_COOKIE, organization.id, ACTIVE_ORGANIZATION_COOKIE_OPTIONS);
+    return response;
+  } catch (error) {
+    console.error('Error in POST /api/organizations:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -1,5 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServer } from '@/lib/supabase/server';
+import { authenticateSession } from '@/lib/auth/request';
+import { maskSecret, secretFromInput } from '@/lib/secrets';
+import { logActivity } from '@/lib/activity';
+
+// The SMTP password is stored encrypted and never sent back to the browser
+const maskSettings = <T extends { smtp_password?: string | null }>(settings: T): T => ({
+  ...settings,
+  smtp_password: maskSecret(settings.smtp_password)
+});
+
+// Fields a request may set; the activity log records which of them changed
+const SETTINGS_FIELDS = [
+  'smtp_host', 'smtp_port', 'smtp_username', 'smtp_password',
+  'from_email', 'from_name', 'reply_to', 'use_tls', 'use_ssl', 'enabled'
+];
 
 export async function GET(request: NextRequest) {
   try {
@@ -38,7 +53,7 @@ export async function GET(request: NextRequest) {
     };
 
     return NextResponse.json({ 
-      settings: settings || defaultSettings 
+      settings: settings ? maskSettings(settings) : defaultSettings 
     });
   } catch (error) {
     console.error('Error in GET /api/settings/email:', error);
@@ -48,13 +63,11 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
-    const supabase = createServer();
-    
-    // Get current user
-    const { data: { user }, error: authError } = await supabase.auth.getUser();
-    if (authError || !user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    const auth = await authenticateSession();
+    if (auth.error !== undefined) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
     }
+    const { supabase, context } = auth;
 
     const body = await request.json();
     const { 
@@ -85,15 +98,18 @@ export async function POST(request: NextRequest) {
       }, { status: 400 });
     }
 
+    // Omitted when unchanged, so the stored password is kept; an empty value removes it
+    const smtpPassword = secretFromInput(smtp_password);
+
     // Upsert email settings
     const { data: settings, error } = await supabase
       .from('user_email_settings')
       .upsert({
-        user_id: user.id,
+        user_id: context.userId,
         smtp_host,
         smtp_port: parseInt(smtp_port) || 587,
         smtp_username,
-        smtp_password, // In production, encrypt this
+        smtp_password: smtpPassword,
         from_email,
         from_name: from_name || '',
         reply_to: reply_to || from_email,
@@ -110,7 +126,19 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Failed to save email settings' }, { status: 500 });
     }
 
-    return NextResponse.json({ settings });
+    // Only the names of the fields are logged, never the password
+    await logActivity(context, {
+      action: 'settings_updated:email',
+      resource_type: 'team_member',
+      resource_id: context.userId,
+      metadata: {
+        fields: SETTINGS_FIELDS.filter(field =>
+          field === 'smtp_password' ? smtpPassword !== undefined : body[field] !== undefined
+        ),
+      },
+    }, request);
+
+    return NextResponse.json({ settings: maskSettings(settings) });
   } catch (error) {
     console.error('Error in POST /api/settings/email:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
@@ -119,13 +147,11 @@ export async function POST(request: NextRequest) {
 
 export async function PUT(request: NextRequest) {
   try {
-    const supabase = createServer();
-    
-    // Get current user
-    const { data: { user }, error: authError } = await supabase.auth.getUser();
-    if (authError || !user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    const auth = await authenticateSession();
+    if (auth.error !== undefined) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
     }
+    const { supabase, context } = auth;
 
     const body = await request.json();
     const updateData: any = {
@@ -133,17 +159,20 @@ export async function PUT(request: NextRequest) {
     };
 
     // Only update provided fields
-    const allowedFields = [
-      'smtp_host', 'smtp_port', 'smtp_username', 'smtp_password',
-      'from_email', 'from_name', 'reply_to', 'use_tls', 'use_ssl', 'enabled'
-    ];
-
-    for (const field of allowedFields) {
+    for (const field of SETTINGS_FIELDS) {
       if (body[field] !== undefined) {
         updateData[field] = body[field];
       }
     }
 
+    // A masked password keeps the stored one, an empty one removes it
+    const smtpPassword = secretFromInput(body.smtp_password);
+    if (smtpPassword !== undefined) {
+      updateData.smtp_password = smtpPassword;
+    } else {
+      delete updateData.smtp_password;
+    }
+
     // Validate email format if provided
     if (updateData.from_email) {
       const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
@@ -158,7 +187,7 @@ export async function PUT(request: NextRequest) {
     const { data: settings, error } = await supabase
       .from('user_email_settings')
       .update(updateData)
-      .eq('user_id', user.id)
+      .eq('user_id', context.userId)
       .select()
       .single();
 
@@ -167,7 +196,14 @@ export async function PUT(request: NextRequest) {
       return NextResponse.json({ error: 'Failed to update email settings' }, { status: 500 });
     }
 
-    return NextResponse.json({ settings });
+    await logActivity(context, {
+      action: 'settings_updated:email',
+      resource_type: 'team_member',
+      resource_id: context.userId,
+      metadata: { fields: Object.keys(updateData).filter(field => field !== 'updated_at') },
+    }, request);
+
+    return NextResponse.json({ settings: maskSettings(settings) });
   } catch (error) {
     console.error('Error in PUT /api/settings/email:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServer } from '@/lib/supabase/server';
+import { createSmtpEmailService } from '@/lib/email/email';
+import { toSmtpSettings } from '@/lib/email/smtp';
+import { SECRET_MASK, decryptSecret } from '@/lib/secrets';
+
+const SMTP_FIELDS = [
+  'smtp_host', 'smtp_port', 'smtp_username', 'smtp_password',
+  'from_email', 'from_name', 'reply_to', 'use_tls', 'use_ssl'
+];
+
+// Send a test email through the user's SMTP server. Fields in the body override the
+// saved settings, so the form can be tested before it is saved; an empty or masked
+// password keeps the saved one.
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = createServer();
+
+    // Get current user
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+
+    const { data: saved, error } = await supabase
+      .from('user_email_settings')
+      .select('*')
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching email settings:', error);
+      return NextResponse.json({ error: 'Failed to fetch email settings' }, { status: 500 });
+    }
+
+    const merged: Record<string, unknown> = {
+      ...(saved || {}),
+      smtp_password: decryptSecret(saved?.smtp_password),
+      enabled: true
+    };
+    for (const field of SMTP_FIELDS) {
+      const unchangedPassword = field === 'smtp_password' && (body[field] === '' || body[field] === SECRET_MASK);
+      if (body[field] !== undefined && !unchangedPassword) {
+        merged[field] = body[field];
+      }
+    }
+
+    const settings = toSmtpSettings(merged);
+    if (!settings) {
+      return NextResponse.json({ error: 'SMTP host and from email are required' }, { status: 400 });
+    }
+
+    const recipient = typeof body.to === 'string' && body.to ? body.to : user.email;
+    if (!recipient || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(recipient)) {
+      return NextResponse.json({ error: 'Invalid email format' }, { status: 400 });
+    }
+
+    const result = await createSmtpEmailService(settings).sendTestEmail(recipient);
+
+    if (!result.success) {
+      // The mapped code tells the settings form which field to point at
+      return NextResponse.json({ error: result.error, code: result.code || 'unknown' }, { status: 502 });
+    }
+
+    return NextResponse.json({ success: true, messageId: result.messageId, to: recipient });
+  } catch (error) {
+    console.error('Error in POST /api/settings/email/test:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,136 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateSession } from '@/lib/auth/request';
+import { formatInvoiceNumber, isValidNumberPattern } from '@/lib/invoices';
+import { checkVatNumber, normalizeVatNumber } from '@/validators/vat-number';
+import { isValidReminderSchedule } from '@/lib/dunning';
+import { logActivity } from '@/lib/activity';
+
+const INVOICING_COLUMNS = 'invoice_number_pattern, credit_note_number_pattern, fiscal_year_start_month, payment_terms_days, vat_number, dunning_enabled, reminder_schedule';
+
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticateSession('invoices:read');
+    if (auth.error !== undefined) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const { supabase, context } = auth;
+
+    const { data: settings, error } = await supabase
+      .from('organizations')
+      .select(INVOICING_COLUMNS)
+      .eq('id', context.organizationId)
+      .single();
+
+    if (error) {
+      console.error('Error fetching invoicing settings:', error);
+      return NextResponse.json({ error: 'Failed to fetch invoicing settings' }, { status: 500 });
+    }
+
+    const year = new Date().getFullYear();
+    return NextResponse.json({
+      settings,
+      preview: {
+        invoice: formatInvoiceNumber(settings.invoice_number_pattern, year, 1),
+        credit_note: formatInvoiceNumber(settings.credit_note_number_pattern, year, 1)
+      }
+    });
+  } catch (error) {
+    console.error('Error in GET /api/settings/invoicing:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const auth = await authenticateSession('settings:manage');
+    if (auth.error !== undefined) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const { supabase, context } = auth;
+
+    const body = await request.json();
+    const {
+      invoice_number_pattern,
+      credit_note_number_pattern,
+      fiscal_year_start_month,
+      payment_terms_days,
+      vat_number,
+      dunning_enabled,
+      reminder_schedule
+    } = body;
+
+    // Validate numbering patterns
+    for (const pattern of [invoice_number_pattern, credit_note_number_pattern]) {
+      if (pattern !== undefined && (typeof pattern !== 'string' || !isValidNumberPattern(pattern))) {
+        return NextResponse.json({
+          error: 'Number patterns must contain exactly one sequence token such as {0000}'
+        }, { status: 400 });
+      }
+    }
+
+    if (invoice_number_pattern && invoice_number_pattern === credit_note_number_pattern) {
+      return NextResponse.json({
+        error: 'Invoices and credit notes need different number patterns'
+      }, { status: 400 });
+    }
+
+    if (fiscal_year_start_month !== undefined &&
+        !(Number.isInteger(fiscal_year_start_month) && fiscal_year_start_month >= 1 && fiscal_year_start_month <= 12)) {
+      return NextResponse.json({ error: 'Fiscal year start month must be between 1 and 12' }, { status: 400 });
+    }
+
+    if (payment_terms_days !== undefined && !(Number.isInteger(payment_terms_days) && payment_terms_days >= 0)) {
+      return NextResponse.json({ error: 'Payment terms must be a positive number of days' }, { status: 400 });
+    }
+
+    if (dunning_enabled !== undefined && typeof dunning_enabled !== 'boolean') {
+      return NextResponse.json({ error: 'dunning_enabled must be a boolean' }, { status: 400 });
+    }
+
+    if (reminder_schedule !== undefined && !isValidReminderSchedule(reminder_schedule)) {
+      return NextResponse.json({
+        error: 'Reminder schedule needs increasing days after the due date for friendly, firm and final reminders'
+      }, { status: 400 });
+    }
+
+    if (vat_number) {
+      const vatCheck = checkVatNumber(vat_number);
+      if (!vatCheck.valid) {
+        return NextResponse.json({ error: vatCheck.error }, { status: 400 });
+      }
+    }
+
+    const { data: settings, error } = await supabase
+      .from('organizations')
+      .update({
+        invoice_number_pattern,
+        credit_note_number_pattern,
+        fiscal_year_start_month,
+        payment_terms_days,
+        vat_number: vat_number ? normalizeVatNumber(vat_number) : vat_number,
+        dunning_enabled,
+        reminder_schedule,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', context.organizationId)
+      .select(INVOICING_COLUMNS)
+      .single();
+
+    if (error) {
+      console.error('Error saving invoicing settings:', error);
+      return NextResponse.json({ error: 'Failed to save invoicing settings' }, { status: 500 });
+    }
+
+    await logActivity(context, {
+      action: 'settings_updated:invoicing',
+      resource_type: 'organization',
+      resource_id: context.organizationId,
+      metadata: { fields: Object.keys(body).filter(field => field in settings) },
+    }, request);
+
+    return NextResponse.json({ settings });
+  } catch (error) {
+    console.error('Error in PUT /api/settings/invoicing:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
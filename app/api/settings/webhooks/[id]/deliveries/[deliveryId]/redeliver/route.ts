@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateSession } from '@/lib/auth/request';
+import { inngest } from '@/lib/inngest/client';
+import { WEBHOOK_DELIVERY_COLUMNS, WEBHOOK_DELIVERY_REQUESTED } from '@/lib/outgoing-webhooks';
+import { logActivity } from '@/lib/activity';
+
+// Sends the original payload again as a new delivery, so the log keeps every earlier attempt
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string; deliveryId: string } }
+) {
+  try {
+    const auth = await authenticateSession('webhooks:manage');
+    if (auth.error !== undefined) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const { supabase, context } = auth;
+
+    const { data: original, error: fetchError } = await supabase
+      .from('webhook_deliveries')
+      .select('id, endpoint_id, event_id, event_type, payload')
+      .eq('id', params.deliveryId)
+      .eq('endpoint_id', params.id)
+      .eq('organization_id', context.organizationId)
+      .maybeSingle();
+
+    if (fetchError) {
+      console.error('Error fetching webhook delivery:', fetchError);
+      return NextResponse.json({ error: 'Failed to fetch webhook delivery' }, { status: 500 });
+    }
+
+    if (!original) {
+      return NextResponse.json({ error: 'Webhook delivery not found' }, { status: 404 });
+    }
+
+    const { data: delivery, error } = await supabase
+      .from('webhook_deliveries')
+      .insert({
+        organization_id: context.organizationId,
+        endpoint_id: original.endpoint_id,
+        event_id: original.event_id,
+        event_type: original.event_type,
+        payload: original.payload,
+        redelivery_of: original.id
+      })
+      .select(WEBHOOK_DELIVERY_COLUMNS)
+      .single();
+
+    if (error) {
+      console.error('Error creating webhook redelivery:', error);
+      return NextResponse.json({ error: 'Failed to redeliver webhook' }, { status: 500 });
+    }
+
+    await inngest.send({ name: WEBHOOK_DELIVERY_REQUESTED, data: { deliveryId: delivery.id } });
+
+    await logActivity(context, {
+      action: 'webhook_delivery_redelivered',
+      resource_type: 'webhook_endpoint',
+      resource_id: original.endpoint_id,
+      metadata: { delivery_id: delivery.id, event_type: original.event_type },
+    }, request);
+
+    return NextResponse.json({ delivery }, { status: 202 });
+  } catch (error) {
+    console.error('Error in POST /api/settings/webhooks/[id]/deliveries/[deliveryId]/redeliver:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
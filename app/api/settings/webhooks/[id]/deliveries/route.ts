@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateSession } from '@/lib/auth/request';
+import { WEBHOOK_DELIVERY_COLUMNS } from '@/lib/outgoing-webhooks';
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authenticateSession('webhooks:manage');
+    if (auth.error !== undefined) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const { supabase, context } = auth;
+
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '', 10) || DEFAULT_LIMIT, 1), MAX_LIMIT);
+    const status = searchParams.get('status');
+
+    let query = supabase
+      .from('webhook_deliveries')
+      .select(WEBHOOK_DELIVERY_COLUMNS)
+      .eq('endpoint_id', params.id)
+      .eq('organization_id', context.organizationId)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (status) {
+      query = query.eq('status', status);
+    }
+
+    const { data: deliveries, error } = await query;
+
+    if (error) {
+      console.error('Error fetching webhook deliveries:', error);
+      return NextResponse.json({ error: 'Failed to fetch webhook deliveries' }, { status: 500 });
+    }
+
+    return NextResponse.json({ deliveries });
+  } catch (error) {
+    console.error('Error in GET /api/settings/webhooks/[id]/deliveries:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,132 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateSession } from '@/lib/auth/request';
+import { encryptSecret } from '@/lib/secrets';
+import {
+  WEBHOOK_ENDPOINT_COLUMNS,
+  generateWebhookSecret,
+  isWebhookEventType,
+  webhookUrlError,
+} from '@/lib/outgoing-webhooks';
+import { logActivity } from '@/lib/activity';
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authenticateSession('webhooks:manage');
+    if (auth.error !== undefined) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const { supabase, context } = auth;
+
+    const body = await request.json();
+    const { url, description, events, enabled, rotate_secret } = body;
+    const updates: Record<string, unknown> = {};
+
+    if (url !== undefined) {
+      const urlError = typeof url === 'string' ? webhookUrlError(url.trim()) : 'URL is invalid';
+      if (urlError) {
+        return NextResponse.json({ error: urlError }, { status: 400 });
+      }
+      updates.url = url.trim();
+    }
+
+    if (events !== undefined) {
+      if (!Array.isArray(events) || events.length === 0 || !events.every(isWebhookEventType)) {
+        return NextResponse.json({ error: 'Events must be a non-empty list of valid event types' }, { status: 400 });
+      }
+      updates.events = Array.from(new Set(events));
+    }
+
+    if (enabled !== undefined) {
+      if (typeof enabled !== 'boolean') {
+        return NextResponse.json({ error: 'enabled must be a boolean' }, { status: 400 });
+      }
+      updates.enabled = enabled;
+    }
+
+    if (description !== undefined) {
+      updates.description = typeof description === 'string' && description.trim() ? description.trim() : null;
+    }
+
+    // A rotated secret is returned once, like on creation
+    const secret = rotate_secret === true ? generateWebhookSecret() : undefined;
+    if (secret) {
+      updates.secret = encryptSecret(secret);
+    }
+
+    const { data: endpoint, error } = await supabase
+      .from('webhook_endpoints')
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('id', params.id)
+      .eq('organization_id', context.organizationId)
+      .select(WEBHOOK_ENDPOINT_COLUMNS)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error updating webhook endpoint:', error);
+      return NextResponse.json({ error: 'Failed to update webhook endpoint' }, { status: 500 });
+    }
+
+    if (!endpoint) {
+      return NextResponse.json({ error: 'Webhook endpoint not found' }, { status: 404 });
+    }
+
+    // The secret itself never goes into the log, only that it was rotated
+    await logActivity(context, {
+      action: 'webhook_endpoint_updated',
+      resource_type: 'webhook_endpoint',
+      resource_id: endpoint.id,
+      metadata: { url: endpoint.url, fields: Object.keys(updates).map(field => (field === 'secret' ? 'rotate_secret' : field)) },
+    }, request);
+
+    return NextResponse.json(secret ? { endpoint, secret } : { endpoint });
+  } catch (error) {
+    console.error('Error in PATCH /api/settings/webhooks/[id]:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// Deleting an endpoint also removes its delivery log
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authenticateSession('webhooks:manage');
+    if (auth.error !== undefined) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const { supabase, context } = auth;
+
+    const { data: endpoint, error } = await supabase
+      .from('webhook_endpoints')
+      .delete()
+      .eq('id', params.id)
+      .eq('organization_id', context.organizationId)
+      .select('id, url')
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error deleting webhook endpoint:', error);
+      return NextResponse.json({ error: 'Failed to delete webhook endpoint' }, { status: 500 });
+    }
+
+    if (!endpoint) {
+      return NextResponse.json({ error: 'Webhook endpoint not found' }, { status: 404 });
+    }
+
+    await logActivity(context, {
+      action: 'webhook_endpoint_deleted',
+      resource_type: 'webhook_endpoint',
+      resource_id: endpoint.id,
+      metadata: { url: endpoint.url },
+    }, request);
+
+    return NextResponse.json({ message: 'Webhook endpoint deleted successfully' });
+  } catch (error) {
+    console.error('Error in DELETE /api/settings/webhooks/[id]:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateSession } from '@/lib/auth/request';
+import { encryptSecret } from '@/lib/secrets';
+import {
+  WEBHOOK_ENDPOINT_COLUMNS,
+  generateWebhookSecret,
+  isWebhookEventType,
+  webhookUrlError,
+} from '@/lib/outgoing-webhooks';
+import { logActivity } from '@/lib/activity';
+
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticateSession('webhooks:manage');
+    if (auth.error !== undefined) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const { supabase, context } = auth;
+
+    const { data: endpoints, error } = await supabase
+      .from('webhook_endpoints')
+      .select(WEBHOOK_ENDPOINT_COLUMNS)
+      .eq('organization_id', context.organizationId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching webhook endpoints:', error);
+      return NextResponse.json({ error: 'Failed to fetch webhook endpoints' }, { status: 500 });
+    }
+
+    return NextResponse.json({ endpoints });
+  } catch (error) {
+    console.error('Error in GET /api/settings/webhooks:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authenticateSession('webhooks:manage');
+    if (auth.error !== undefined) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const { supabase, context } = auth;
+
+    const body = await request.json();
+    const { url, description, events } = body;
+
+    if (typeof url !== 'string' || !url.trim()) {
+      return NextResponse.json({ error: 'Missing required field: url' }, { status: 400 });
+    }
+
+    const urlError = webhookUrlError(url.trim());
+    if (urlError) {
+      return NextResponse.json({ error: urlError }, { status: 400 });
+    }
+
+    if (!Array.isArray(events) || events.length === 0 || !events.every(isWebhookEventType)) {
+      return NextResponse.json({ error: 'Events must be a non-empty list of valid event types' }, { status: 400 });
+    }
+
+    const secret = generateWebhookSecret();
+
+    const { data: endpoint, error } = await supabase
+      .from('webhook_endpoints')
+      .insert({
+        organization_id: context.organizationId,
+        url: url.trim(),
+        description: typeof description === 'string' && description.trim() ? description.trim() : null,
+        events: Array.from(new Set(events)),
+        secret: encryptSecret(secret),
+        created_by: context.userId
+      })
+      .select(WEBHOOK_ENDPOINT_COLUMNS)
+      .single();
+
+    if (error) {
+      console.error('Error creating webhook endpoint:', error);
+      return NextResponse.json({ error: 'Failed to create webhook endpoint' }, { status: 500 });
+    }
+
+    await logActivity(context, {
+      action: 'webhook_endpoint_created',
+      resource_type: 'webhook_endpoint',
+      resource_id: endpoint.id,
+      metadata: { url: endpoint.url, events: endpoint.events },
+    }, request);
+
+    // The only time the signing secret leaves the server
+    return NextResponse.json({ endpoint, secret }, { status: 201 });
+  } catch (error) {
+    console.error('Error in POST /api/settings/webhooks:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
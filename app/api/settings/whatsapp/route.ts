@@ -1,5 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServer } from '@/lib/supabase/server';
+import { authenticateSession } from '@/lib/auth/request';
+import { maskSecret, secretFromInput } from '@/lib/secrets';
+import { logActivity } from '@/lib/activity';
+
+// The access token is stored encrypted and never sent back to the browser
+const maskSettings = <T extends { access_token?: string | null }>(settings: T): T => ({
+  ...settings,
+  access_token: maskSecret(settings.access_token)
+});
+
+// Fields a request may set; the activity log records which of them changed
+const SETTINGS_FIELDS = [
+  'business_account_id', 'access_token', 'phone_number_id', 'webhook_verify_token',
+  'enabled', 'auto_reply_enabled', 'auto_reply_message', 'business_hours'
+];
 
 export async function GET(request: NextRequest) {
   try {
@@ -48,7 +63,7 @@ export async function GET(request: NextRequest) {
     };
 
     return NextResponse.json({ 
-      settings: settings || defaultSettings 
+      settings: settings ? maskSettings(settings) : defaultSettings 
     });
   } catch (error) {
     console.error('Error in GET /api/settings/whatsapp:', error);
@@ -58,13 +73,11 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
-    const supabase = createServer();
-    
-    // Get current user
-    const { data: { user }, error: authError } = await supabase.auth.getUser();
-    if (authError || !user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    const auth = await authenticateSession();
+    if (auth.error !== undefined) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
     }
+    const { supabase, context } = auth;
 
     const body = await request.json();
     const { 
@@ -85,13 +98,27 @@ export async function POST(request: NextRequest) {
       }, { status: 400 });
     }
 
+    // The form sends the mask back when the token was not changed
+    const encryptedToken = secretFromInput(access_token);
+    if (!encryptedToken) {
+      const { data: existing } = await supabase
+        .from('user_whatsapp_settings')
+        .select('access_token')
+        .eq('user_id', context.userId)
+        .maybeSingle();
+
+      if (!existing?.access_token) {
+        return NextResponse.json({ error: 'Access token is required' }, { status: 400 });
+      }
+    }
+
     // Upsert WhatsApp settings
     const { data: settings, error } = await supabase
       .from('user_whatsapp_settings')
       .upsert({
-        user_id: user.id,
+        user_id: context.userId,
         business_account_id,
-        access_token, // In production, encrypt this
+        access_token: encryptedToken,
         phone_number_id,
         webhook_verify_token: webhook_verify_token || '',
         enabled: enabled !== false,
@@ -120,7 +147,19 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Failed to save WhatsApp settings' }, { status: 500 });
     }
 
-    return NextResponse.json({ settings });
+    // Only the names of the fields are logged, never the token
+    await logActivity(context, {
+      action: 'settings_updated:whatsapp',
+      resource_type: 'team_member',
+      resource_id: context.userId,
+      metadata: {
+        fields: SETTINGS_FIELDS.filter(field =>
+          field === 'access_token' ? encryptedToken !== undefined : body[field] !== undefined
+        ),
+      },
+    }, request);
+
+    return NextResponse.json({ settings: maskSettings(settings) });
   } catch (error) {
     console.error('Error in POST /api/settings/whatsapp:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
@@ -129,13 +168,11 @@ export async function POST(request: NextRequest) {
 
 export async function PUT(request: NextRequest) {
   try {
-    const supabase = createServer();
-    
-    // Get current user
-    const { data: { user }, error: authError } = await supabase.auth.getUser();
-    if (authError || !user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    const auth = await authenticateSession();
+    if (auth.error !== undefined) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
     }
+    const { supabase, context } = auth;
 
     const body = await request.json();
     const updateData: any = {
@@ -143,22 +180,25 @@ export async function PUT(request: NextRequest) {
     };
 
     // Only update provided fields
-    const allowedFields = [
-      'business_account_id', 'access_token', 'phone_number_id', 'webhook_verify_token',
-      'enabled', 'auto_reply_enabled', 'auto_reply_message', 'business_hours'
-    ];
-
-    for (const field of allowedFields) {
+    for (const field of SETTINGS_FIELDS) {
       if (body[field] !== undefined) {
         updateData[field] = body[field];
       }
     }
 
+    // A masked token keeps the stored one, an empty one removes it
+    const accessToken = secretFromInput(body.access_token);
+    if (accessToken !== undefined) {
+      updateData.access_token = accessToken;
+    } else {
+      delete updateData.access_token;
+    }
+
     // Update WhatsApp settings
     const { data: settings, error } = await supabase
       .from('user_whatsapp_settings')
       .update(updateData)
-      .eq('user_id', user.id)
+      .eq('user_id', context.userId)
       .select()
       .single();
 
@@ -167,7 +207,14 @@ export async function PUT(request: NextRequest) {
       return NextResponse.json({ error: 'Failed to update WhatsApp settings' }, { status: 500 });
     }
 
-    return NextResponse.json({ settings });
+    await logActivity(context, {
+      action: 'settings_updated:whatsapp',
+      resource_type: 'team_member',
+      resource_id: context.userId,
+      metadata: { fields: Object.keys(updateData).filter(field => field !== 'updated_at') },
+    }, request);
+
+    return NextResponse.json({ settings: maskSettings(settings) });
   } catch (error) {
     console.error('Error in PUT /api/settings/whatsapp:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
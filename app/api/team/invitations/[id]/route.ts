@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateSession } from '@/lib/auth/request';
+import { TEAM_INVITATION_COLUMNS, canManageRole } from '@/lib/team-invites';
+import { logActivity } from '@/lib/activity';
+
+// Revoking keeps the row; the link then shows that the invitation was withdrawn
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authenticateSession('team:manage');
+    if (auth.error !== undefined) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const { supabase, context } = auth;
+
+    const { data: existing, error: fetchError } = await supabase
+      .from('team_invitations')
+      .select('id, role')
+      .eq('id', params.id)
+      .eq('organization_id', context.organizationId)
+      .is('accepted_at', null)
+      .is('revoked_at', null)
+      .maybeSingle();
+
+    if (fetchError) {
+      console.error('Error fetching team invitation:', fetchError);
+      return NextResponse.json({ error: 'Failed to revoke invitation' }, { status: 500 });
+    }
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Invitation not found' }, { status: 404 });
+    }
+
+    if (!canManageRole(context.role, existing.role)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { data: invitation, error } = await supabase
+      .from('team_invitations')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('id', existing.id)
+      .select(TEAM_INVITATION_COLUMNS)
+      .single();
+
+    if (error) {
+      console.error('Error revoking team invitation:', error);
+      return NextResponse.json({ error: 'Failed to revoke invitation' }, { status: 500 });
+    }
+
+    await logActivity(context, {
+      action: 'team_invitation_revoked',
+      resource_type: 'team_invitation',
+      resource_id: invitation.id,
+      metadata: { email: invitation.email, role: invitation.role },
+    }, request);
+
+    return NextResponse.json({ invitation });
+  } catch (error) {
+    console.error('Error in DELETE /api/team/invitations/[id]:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
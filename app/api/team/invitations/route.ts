@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateSession } from '@/lib/auth/request';
+import { getUserEmailService } from '@/lib/email/email';
+import {
+  INVITE_EXPIRY_DAYS,
+  TEAM_INVITATION_COLUMNS,
+  canManageRole,
+  countUsedSeats,
+  generateInviteToken,
+  getInviteUrl,
+  hasFreeSeat,
+  inviteExpiresAt,
+  parseInviteInput,
+} from '@/lib/team-invites';
+import { logActivity } from '@/lib/activity';
+
+// Invite an email address to the team. Inviting an address again replaces its open invitation,
+// which also serves as "resend". The token is only sent by email and never returned.
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authenticateSession('team:manage');
+    if (auth.error !== undefined) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const { supabase, context } = auth;
+
+    const parsed = parseInviteInput(await request.json().catch(() => null));
+    if (parsed.error !== undefined) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+    const { email, role } = parsed.values;
+
+    if (!canManageRole(context.role, role)) {
+      return NextResponse.json({ error: `You cannot invite members with the role ${role}` }, { status: 403 });
+    }
+
+    const [organization, inviter, existingMember] = await Promise.all([
+      supabase.from('organizations').select('name, max_team_size').eq('id', context.organizationId).single(),
+      supabase.from('users').select('full_name, email').eq('id', context.userId).maybeSingle(),
+      supabase
+        .from('team_members')
+        .select('id, users!inner (email)')
+        .eq('organization_id', context.organizationId)
+        .neq('status', 'inactive')
+        .ilike('users.email', email)
+        .maybeSingle(),
+    ]);
+
+    const lookupError = organization.error || inviter.error || existingMember.error;
+    if (lookupError) {
+      console.error('Error preparing team invitation:', lookupError);
+      return NextResponse.json({ error: 'Failed to invite team member' }, { status: 500 });
+    }
+
+    if (existingMember.data) {
+      return NextResponse.json({ error: 'This person is already a member of the team' }, { status: 409 });
+    }
+
+    const { error: revokeError } = await supabase
+      .from('team_invitations')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('organization_id', context.organizationId)
+      .ilike('email', email)
+      .is('accepted_at', null)
+      .is('revoked_at', null);
+
+    if (revokeError) {
+      console.error('Error replacing team invitation:', revokeError);
+      return NextResponse.json({ error: 'Failed to invite team member' }, { status: 500 });
+    }
+
+    const maxTeamSize = organization.data.max_team_size;
+    if (!hasFreeSeat(maxTeamSize, await countUsedSeats(supabase, context.organizationId))) {
+      return NextResponse.json(
+        { error: `Your plan allows at most ${maxTeamSize} team members` },
+        { status: 403 }
+      );
+    }
+
+    const { token, token_hash } = generateInviteToken();
+    const { data: invitation, error } = await supabase
+      .from('team_invitations')
+      .insert({
+        organization_id: context.organizationId,
+        email,
+        role,
+        token_hash,
+        invited_by: context.userId,
+        expires_at: inviteExpiresAt(),
+      })
+      .select(TEAM_INVITATION_COLUMNS)
+      .single();
+
+    if (error) {
+      console.error('Error creating team invitation:', error);
+      return NextResponse.json({ error: 'Failed to invite team member' }, { status: 500 });
+    }
+
+    const emailService = await getUserEmailService(supabase, context.userId);
+    const result = await emailService.sendTeamInvite({
+      email,
+      recipientName: email.split('@')[0],
+      inviterName: inviter.data?.full_name || inviter.data?.email || 'Een collega',
+      companyName: organization.data.name,
+      inviteUrl: getInviteUrl(token),
+      expiresIn: `${INVITE_EXPIRY_DAYS} dagen`,
+    });
+
+    if (!result.success) {
+      console.error('Error sending team invitation email:', result.error);
+      // Without the email nobody has the token, so the invitation would only take up a seat
+      await supabase.from('team_invitations').update({ revoked_at: new Date().toISOString() }).eq('id', invitation.id);
+      return NextResponse.json({ error: 'Failed to send invitation email' }, { status: 502 });
+    }
+
+    await logActivity(context, {
+      action: 'team_member_invited',
+      resource_type: 'team_invitation',
+      resource_id: invitation.id,
+      metadata: { email, role },
+    }, request);
+
+    return NextResponse.json({ invitation }, { status: 201 });
+  } catch (error) {
+    console.error('Error in POST /api/team/invitations:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateSession } from '@/lib/auth/request';
+import { permissionsForRole } from '@/lib/auth/permissions';
+import type { TeamMembership } from '@/types/api/team';
+
+// The signed-in user's role and what it allows, so the dashboard can hide what the API would refuse
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticateSession();
+    if (auth.error !== undefined) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const { context } = auth;
+
+    const membership: TeamMembership = {
+      user_id: context.userId,
+      organization_id: context.organizationId,
+      role: context.role,
+      permissions: permissionsForRole(context.role),
+    };
+
+    return NextResponse.json({ membership });
+  } catch (error) {
+    console.error('Error in GET /api/team/me:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateSession } from '@/lib/auth/request';
+import { canManageRole } from '@/lib/team-invites';
+import { logActivity } from '@/lib/activity';
+
+// Removing a member deactivates the membership, which frees the seat and ends their access
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authenticateSession('team:manage');
+    if (auth.error !== undefined) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const { supabase, context } = auth;
+
+    const { data: member, error: fetchError } = await supabase
+      .from('team_members')
+      .select('id, user_id, role')
+      .eq('id', params.id)
+      .eq('organization_id', context.organizationId)
+      .neq('status', 'inactive')
+      .maybeSingle();
+
+    if (fetchError) {
+      console.error('Error fetching team member:', fetchError);
+      return NextResponse.json({ error: 'Failed to remove team member' }, { status: 500 });
+    }
+
+    if (!member) {
+      return NextResponse.json({ error: 'Team member not found' }, { status: 404 });
+    }
+
+    if (member.user_id === context.userId || !canManageRole(context.role, member.role)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { error } = await supabase
+      .from('team_members')
+      .update({ status: 'inactive' })
+      .eq('id', member.id);
+
+    if (error) {
+      console.error('Error removing team member:', error);
+      return NextResponse.json({ error: 'Failed to remove team member' }, { status: 500 });
+    }
+
+    // Team members are logged by user id, like when they accept an invitation
+    await logActivity(context, {
+      action: 'team_member_removed',
+      resource_type: 'team_member',
+      resource_id: member.user_id,
+      metadata: { role: member.role },
+    }, request);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error in DELETE /api/team/members/[id]:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
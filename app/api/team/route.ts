@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateSession } from '@/lib/auth/request';
+import { TEAM_INVITATION_COLUMNS } from '@/lib/team-invites';
+import type { TeamMember, TeamOverview } from '@/types/api/team';
+
+// Members of the organization with their profile, the open invitations and the seat limit
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticateSession();
+    if (auth.error !== undefined) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const { supabase, context } = auth;
+
+    const now = new Date().toISOString();
+    const [members, invitations, organization] = await Promise.all([
+      supabase
+        .from('team_members')
+        .select('id, user_id, role, status, joined_at, users (full_name, email, avatar_url)')
+        .eq('organization_id', context.organizationId)
+        .order('joined_at', { ascending: true }),
+      supabase
+        .from('team_invitations')
+        .select(TEAM_INVITATION_COLUMNS)
+        .eq('organization_id', context.organizationId)
+        .is('accepted_at', null)
+        .is('revoked_at', null)
+        .gt('expires_at', now)
+        .order('created_at', { ascending: false }),
+      supabase
+        .from('organizations')
+        .select('max_team_size')
+        .eq('id', context.organizationId)
+        .single(),
+    ]);
+
+    const error = members.error || invitations.error || organization.error;
+    if (error) {
+      console.error('Error fetching team:', error);
+      return NextResponse.json({ error: 'Failed to fetch team' }, { status: 500 });
+    }
+
+    const teamMembers: TeamMember[] = (members.data || []).map(({ users, ...member }: any) => ({
+      ...member,
+      name: users?.full_name ?? null,
+      email: users?.email ?? null,
+      avatar_url: users?.avatar_url ?? null,
+    }));
+
+    const overview: TeamOverview = {
+      members: teamMembers,
+      invitations: invitations.data || [],
+      max_team_size: organization.data.max_team_size,
+      seats_used: teamMembers.filter(member => member.status !== 'inactive').length + (invitations.data || []).length,
+    };
+
+    return NextResponse.json(overview);
+  } catch (error) {
+    console.error('Error in GET /api/team:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
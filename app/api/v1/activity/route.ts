@@ -0,0 +1,15 @@
+import { NextRequest } from 'next/server';
+import { apiPage, handleApiError, parseQuery, requireApiAuth } from '@/lib/public-api/http';
+import { listActivity } from '@/lib/public-api/resources';
+import { activityListQuerySchema } from '@/lib/public-api/schemas';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { supabase, context } = await requireApiAuth(request, 'activity:read');
+    const query = parseQuery(request, activityListQuerySchema);
+
+    return apiPage(await listActivity(supabase, context.organizationId, query));
+  } catch (error) {
+    return handleApiError(error, 'GET /api/v1/activity');
+  }
+}
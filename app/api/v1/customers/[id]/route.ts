@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { apiData, handleApiError, notFound, parseBody, requireApiAuth, resourceId } from '@/lib/public-api/http';
+import { CUSTOMER_COLUMNS, serializeCustomer } from '@/lib/public-api/resources';
+import { customerUpdateSchema } from '@/lib/public-api/schemas';
+import { logActivity } from '@/lib/activity';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { supabase, context } = await requireApiAuth(request, 'customers:read');
+    const id = resourceId(params, 'Customer');
+
+    const { data: customer, error } = await supabase
+      .from('customers')
+      .select(CUSTOMER_COLUMNS)
+      .eq('id', id)
+      .eq('organization_id', context.organizationId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!customer) throw notFound('Customer');
+
+    return apiData(serializeCustomer(customer));
+  } catch (error) {
+    return handleApiError(error, 'GET /api/v1/customers/[id]');
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { supabase, context } = await requireApiAuth(request, 'customers:write');
+    const id = resourceId(params, 'Customer');
+    const input = await parseBody(request, customerUpdateSchema);
+
+    const { data: customer, error } = await supabase
+      .from('customers')
+      .update({ ...input, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .eq('organization_id', context.organizationId)
+      .select(CUSTOMER_COLUMNS)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!customer) throw notFound('Customer');
+
+    const updated = serializeCustomer(customer);
+    await logActivity(context, {
+      action: 'customer_updated',
+      resource_type: 'customer',
+      resource_id: updated.id,
+      metadata: { name: updated.name, fields: Object.keys(input) },
+    }, request);
+
+    return apiData(updated);
+  } catch (error) {
+    return handleApiError(error, 'PATCH /api/v1/customers/[id]');
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { supabase, context } = await requireApiAuth(request, 'customers:write', 'customers:delete');
+    const id = resourceId(params, 'Customer');
+
+    const { data: customer, error } = await supabase
+      .from('customers')
+      .delete()
+      .eq('id', id)
+      .eq('organization_id', context.organizationId)
+      .select('id, name')
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!customer) throw notFound('Customer');
+
+    await logActivity(context, {
+      action: 'customer_deleted',
+      resource_type: 'customer',
+      resource_id: customer.id,
+      metadata: { name: customer.name },
+    }, request);
+
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    return handleApiError(error, 'DELETE /api/v1/customers/[id]');
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest } from 'next/server';
+import { emitWebhookEvent } from '@/lib/outgoing-webhooks';
+import { apiData, apiPage, handleApiError, parseBody, parseQuery, requireApiAuth } from '@/lib/public-api/http';
+import { CUSTOMER_COLUMNS, listCustomers, serializeCustomer } from '@/lib/public-api/resources';
+import { customerCreateSchema, customerListQuerySchema } from '@/lib/public-api/schemas';
+import { logActivity } from '@/lib/activity';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { supabase, context } = await requireApiAuth(request, 'customers:read');
+    const query = parseQuery(request, customerListQuerySchema);
+
+    return apiPage(await listCustomers(supabase, context.organizationId, query));
+  } catch (error) {
+    return handleApiError(error, 'GET /api/v1/customers');
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { supabase, context } = await requireApiAuth(request, 'customers:write');
+    const input = await parseBody(request, customerCreateSchema);
+
+    const { data: customer, error } = await supabase
+      .from('customers')
+      .insert({ ...input, organization_id: context.organizationId })
+      .select(CUSTOMER_COLUMNS)
+      .single();
+
+    if (error) throw error;
+
+    const created = serializeCustomer(customer);
+    await emitWebhookEvent(context.organizationId, 'customer.created', created);
+    await logActivity(context, {
+      action: 'customer_created',
+      resource_type: 'customer',
+      resource_id: created.id,
+      metadata: { name: created.name },
+    }, request);
+
+    return apiData(created, 201);
+  } catch (error) {
+    return handleApiError(error, 'POST /api/v1/customers');
+  }
+}
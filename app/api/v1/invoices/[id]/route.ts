@@ -0,0 +1,149 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { calculateInvoiceTotals, isDeletableInvoice, normalizeInvoiceItems, parseInvoiceItems } from '@/lib/invoices';
+import { usesReverseCharge } from '@/lib/vat';
+import { emitWebhookEvent } from '@/lib/outgoing-webhooks';
+import { apiData, handleApiError, notFound, parseBody, requireApiAuth, resourceId } from '@/lib/public-api/http';
+import { INVOICE_COLUMNS, assertReverseChargeAllowed, findCustomer, serializeInvoice } from '@/lib/public-api/resources';
+import { PublicApiError } from '@/lib/public-api/errors';
+import { invoiceUpdateSchema } from '@/lib/public-api/schemas';
+import { logActivity, statusChangeAction } from '@/lib/activity';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { supabase, context } = await requireApiAuth(request, 'invoices:read');
+    const id = resourceId(params, 'Invoice');
+
+    const { data: invoice, error } = await supabase
+      .from('invoices')
+      .select(INVOICE_COLUMNS)
+      .eq('id', id)
+      .eq('organization_id', context.organizationId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!invoice) throw notFound('Invoice');
+
+    return apiData(serializeInvoice(invoice));
+  } catch (error) {
+    return handleApiError(error, 'GET /api/v1/invoices/[id]');
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { supabase, context } = await requireApiAuth(request, 'invoices:write');
+    const id = resourceId(params, 'Invoice');
+    const { total, items: itemInput, ...input } = await parseBody(request, invoiceUpdateSchema);
+
+    const { data: current, error: fetchError } = await supabase
+      .from('invoices')
+      .select('id, customer_id, amount, items, status')
+      .eq('id', id)
+      .eq('organization_id', context.organizationId)
+      .maybeSingle();
+
+    if (fetchError) throw fetchError;
+    if (!current) throw notFound('Invoice');
+
+    if (input.customer_id) {
+      await findCustomer(supabase, context.organizationId, input.customer_id);
+    }
+
+    // Totals are recalculated from the stored items or amount for whichever is not sent
+    const changes: Record<string, unknown> = { ...input };
+    if (itemInput !== undefined || total !== undefined) {
+      const items = itemInput !== undefined ? normalizeInvoiceItems(itemInput) : parseInvoiceItems(current.items);
+      const customerId = input.customer_id ?? current.customer_id;
+      if (usesReverseCharge(items)) {
+        assertReverseChargeAllowed(items, customerId ? await findCustomer(supabase, context.organizationId, customerId) : null);
+      }
+      Object.assign(changes, calculateInvoiceTotals(items, total ?? Number(current.amount)), { items: JSON.stringify(items) });
+    }
+
+    const { data: invoice, error } = await supabase
+      .from('invoices')
+      .update({ ...changes, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .eq('organization_id', context.organizationId)
+      .select(INVOICE_COLUMNS)
+      .single();
+
+    if (error) throw error;
+
+    const updated = serializeInvoice(invoice);
+    if (updated.status === 'paid' && current.status !== 'paid') {
+      await emitWebhookEvent(context.organizationId, 'invoice.paid', updated);
+    }
+
+    const statusChanged = current.status !== updated.status;
+    await logActivity(context, {
+      action: statusChanged ? statusChangeAction('invoice', updated.status) : 'invoice_updated',
+      resource_type: 'invoice',
+      resource_id: updated.id,
+      metadata: statusChanged
+        ? { invoice_number: updated.invoice_number, old_status: current.status }
+        : { invoice_number: updated.invoice_number, total: updated.total },
+    }, request);
+
+    return apiData(updated);
+  } catch (error) {
+    return handleApiError(error, 'PATCH /api/v1/invoices/[id]');
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { supabase, context } = await requireApiAuth(request, 'invoices:write', 'invoices:delete');
+    const id = resourceId(params, 'Invoice');
+
+    const { data: current, error: fetchError } = await supabase
+      .from('invoices')
+      .select('status, invoice_number')
+      .eq('id', id)
+      .eq('organization_id', context.organizationId)
+      .maybeSingle();
+
+    if (fetchError) throw fetchError;
+    if (!current) throw notFound('Invoice');
+
+    // Numbered invoices keep their place in the sequence; they are cancelled or credited instead
+    if (!isDeletableInvoice(current)) {
+      throw new PublicApiError(
+        409,
+        'invoice_issued',
+        'Only draft invoices without an invoice number can be deleted; cancel the invoice or create a credit note instead'
+      );
+    }
+
+    const { data: invoice, error } = await supabase
+      .from('invoices')
+      .delete()
+      .eq('id', id)
+      .eq('organization_id', context.organizationId)
+      .select('id, invoice_number, title')
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!invoice) throw notFound('Invoice');
+
+    await logActivity(context, {
+      action: 'invoice_deleted',
+      resource_type: 'invoice',
+      resource_id: invoice.id,
+      metadata: { invoice_number: invoice.invoice_number, title: invoice.title },
+    }, request);
+
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    return handleApiError(error, 'DELETE /api/v1/invoices/[id]');
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest } from 'next/server';
+import { calculateInvoiceTotals, normalizeInvoiceItems } from '@/lib/invoices';
+import { emitWebhookEvent } from '@/lib/outgoing-webhooks';
+import { apiData, apiPage, handleApiError, parseBody, parseQuery, requireApiAuth } from '@/lib/public-api/http';
+import { INVOICE_COLUMNS, assertReverseChargeAllowed, findCustomer, listInvoices, serializeInvoice } from '@/lib/public-api/resources';
+import { invoiceCreateSchema, invoiceListQuerySchema } from '@/lib/public-api/schemas';
+import { logActivity } from '@/lib/activity';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { supabase, context } = await requireApiAuth(request, 'invoices:read');
+    const query = parseQuery(request, invoiceListQuerySchema);
+
+    return apiPage(await listInvoices(supabase, context.organizationId, query));
+  } catch (error) {
+    return handleApiError(error, 'GET /api/v1/invoices');
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { supabase, context } = await requireApiAuth(request, 'invoices:write');
+    const { total, items: itemInput, ...input } = await parseBody(request, invoiceCreateSchema);
+
+    const customer = await findCustomer(supabase, context.organizationId, input.customer_id);
+    const items = normalizeInvoiceItems(itemInput);
+    assertReverseChargeAllowed(items, customer);
+
+    // invoice_number is assigned by the database once the invoice leaves draft
+    const { data: invoice, error } = await supabase
+      .from('invoices')
+      .insert({
+        ...input,
+        ...calculateInvoiceTotals(items, total ?? 0),
+        items: JSON.stringify(items),
+        organization_id: context.organizationId,
+        created_by: context.userId
+      })
+      .select(INVOICE_COLUMNS)
+      .single();
+
+    if (error) throw error;
+
+    const created = serializeInvoice(invoice);
+    await emitWebhookEvent(context.organizationId, 'invoice.created', created);
+    await logActivity(context, {
+      action: 'invoice_created',
+      resource_type: 'invoice',
+      resource_id: created.id,
+      metadata: { invoice_number: created.invoice_number, title: created.title, total: created.total },
+    }, request);
+
+    return apiData(created, 201);
+  } catch (error) {
+    return handleApiError(error, 'POST /api/v1/invoices');
+  }
+}
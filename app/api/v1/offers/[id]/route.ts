@@ -0,0 +1,125 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { calculateOfferTotals, normalizeOfferProducts, offerStatusChangeError } from '@/lib/offers';
+import { emitOfferStatusEvent } from '@/lib/outgoing-webhooks';
+import { PublicApiError, apiData, handleApiError, notFound, parseBody, requireApiAuth, resourceId } from '@/lib/public-api/http';
+import { OFFER_COLUMNS, findCustomer, serializeOffer } from '@/lib/public-api/resources';
+import { offerUpdateSchema } from '@/lib/public-api/schemas';
+import { logActivity, statusChangeAction } from '@/lib/activity';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { supabase, context } = await requireApiAuth(request, 'offers:read');
+    const id = resourceId(params, 'Offer');
+
+    const { data: offer, error } = await supabase
+      .from('offers')
+      .select(OFFER_COLUMNS)
+      .eq('id', id)
+      .eq('organization_id', context.organizationId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!offer) throw notFound('Offer');
+
+    return apiData(serializeOffer(offer));
+  } catch (error) {
+    return handleApiError(error, 'GET /api/v1/offers/[id]');
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { supabase, context } = await requireApiAuth(request, 'offers:write');
+    const id = resourceId(params, 'Offer');
+    const { amount, products: productInput, ...input } = await parseBody(request, offerUpdateSchema);
+
+    const { data: current, error: fetchError } = await supabase
+      .from('offers')
+      .select('id, amount, products, status')
+      .eq('id', id)
+      .eq('organization_id', context.organizationId)
+      .maybeSingle();
+
+    if (fetchError) throw fetchError;
+    if (!current) throw notFound('Offer');
+
+    const statusError = input.status ? offerStatusChangeError(context.role, current.status, input.status) : null;
+    if (statusError) throw new PublicApiError(403, 'forbidden', statusError);
+
+    if (input.client_id) {
+      await findCustomer(supabase, context.organizationId, input.client_id);
+    }
+
+    // Totals are recalculated from the stored products or amount for whichever is not sent
+    const changes: Record<string, unknown> = { ...input };
+    if (productInput !== undefined || amount !== undefined) {
+      const products = normalizeOfferProducts(productInput ?? current.products);
+      Object.assign(changes, calculateOfferTotals(products, amount ?? Number(current.amount)), { products });
+    }
+
+    const { data: offer, error } = await supabase
+      .from('offers')
+      .update({ ...changes, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .eq('organization_id', context.organizationId)
+      .select(OFFER_COLUMNS)
+      .single();
+
+    if (error) throw error;
+
+    const updated = serializeOffer(offer);
+    await emitOfferStatusEvent(context.organizationId, current.status, updated);
+
+    const statusChanged = current.status !== updated.status;
+    await logActivity(context, {
+      action: statusChanged ? statusChangeAction('offer', updated.status) : 'offer_updated',
+      resource_type: 'offer',
+      resource_id: updated.id,
+      metadata: statusChanged
+        ? { title: updated.title, old_status: current.status }
+        : { title: updated.title, total: updated.total },
+    }, request);
+
+    return apiData(updated);
+  } catch (error) {
+    return handleApiError(error, 'PATCH /api/v1/offers/[id]');
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { supabase, context } = await requireApiAuth(request, 'offers:write', 'offers:delete');
+    const id = resourceId(params, 'Offer');
+
+    const { data: offer, error } = await supabase
+      .from('offers')
+      .delete()
+      .eq('id', id)
+      .eq('organization_id', context.organizationId)
+      .select('id, title')
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!offer) throw notFound('Offer');
+
+    await logActivity(context, {
+      action: 'offer_deleted',
+      resource_type: 'offer',
+      resource_id: offer.id,
+      metadata: { title: offer.title },
+    }, request);
+
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    return handleApiError(error, 'DELETE /api/v1/offers/[id]');
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest } from 'next/server';
+import { calculateOfferTotals, normalizeOfferProducts, offerStatusChangeError } from '@/lib/offers';
+import { PublicApiError, apiData, apiPage, handleApiError, parseBody, parseQuery, requireApiAuth } from '@/lib/public-api/http';
+import { OFFER_COLUMNS, findCustomer, listOffers, serializeOffer } from '@/lib/public-api/resources';
+import { offerCreateSchema, offerListQuerySchema } from '@/lib/public-api/schemas';
+import { logActivity } from '@/lib/activity';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { supabase, context } = await requireApiAuth(request, 'offers:read');
+    const query = parseQuery(request, offerListQuerySchema);
+
+    return apiPage(await listOffers(supabase, context.organizationId, query));
+  } catch (error) {
+    return handleApiError(error, 'GET /api/v1/offers');
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { supabase, context } = await requireApiAuth(request, 'offers:write');
+    const { amount, products: productInput, ...input } = await parseBody(request, offerCreateSchema);
+
+    const statusError = input.status ? offerStatusChangeError(context.role, null, input.status) : null;
+    if (statusError) throw new PublicApiError(403, 'forbidden', statusError);
+
+    if (input.client_id) {
+      await findCustomer(supabase, context.organizationId, input.client_id);
+    }
+
+    const products = normalizeOfferProducts(productInput);
+
+    const { data: offer, error } = await supabase
+      .from('offers')
+      .insert({
+        ...input,
+        ...calculateOfferTotals(products, amount ?? 0),
+        products,
+        organization_id: context.organizationId,
+        created_by: context.userId
+      })
+      .select(OFFER_COLUMNS)
+      .single();
+
+    if (error) throw error;
+
+    const created = serializeOffer(offer);
+    await logActivity(context, {
+      action: 'offer_created',
+      resource_type: 'offer',
+      resource_id: created.id,
+      metadata: { title: created.title, total: created.total },
+    }, request);
+
+    return apiData(created, 201);
+  } catch (error) {
+    return handleApiError(error, 'POST /api/v1/offers');
+  }
+}
@@ -0,0 +1,11 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { generateOpenApiDocument } from '@/lib/public-api/openapi';
+
+// Public, so API clients and tools like Swagger UI can fetch it without a key
+export async function GET(request: NextRequest) {
+  const document = generateOpenApiDocument(`${request.nextUrl.origin}/api/v1`);
+
+  return NextResponse.json(document, {
+    headers: { 'Cache-Control': 'public, max-age=3600' },
+  });
+}
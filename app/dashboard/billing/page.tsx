@@ -4,9 +4,11 @@ import { useState } from 'react'
 import Link from 'next/link'
 import { Check, X, CreditCard } from 'lucide-react'
 import { logger } from '../../../lib/logger'
+import { usePermission } from '../../providers'
 
 export default function BillingPage() {
   const [isLoading, setIsLoading] = useState(false)
+  const canManageBilling = usePermission('billing:manage')
   
   // Mock subscription data - in real app this would come from your database
   const subscription = {
@@ -119,18 +121,22 @@ export default function BillingPage() {
               <div className="mt-6 flex space-x-4">
                 <button
                   onClick={() => handleUpgrade('Enterprise')}
-                  disabled={isLoading}
+                  disabled={isLoading || !canManageBilling}
                   className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
                 >
                   {isLoading ? 'Bezig...' : 'Upgraden'}
                 </button>
                 <button
                   onClick={handleCancel}
-                  className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors"
+                  disabled={!canManageBilling}
+                  className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50"
                 >
                   Opzeggen
                 </button>
               </div>
+              {!canManageBilling && (
+                <p className="mt-3 text-sm text-gray-500">Alleen de eigenaar en beheerders kunnen het abonnement wijzigen.</p>
+              )}
             </div>
 
             {/* Payment Methods */}
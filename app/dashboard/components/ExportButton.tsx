@@ -1,114 +1,64 @@
 "use client";
 import { useTheme } from '../../../contexts/ThemeContext';
-import { Download, FileText, FileSpreadsheet, Camera, ChevronDown } from 'lucide-react';
+import { Download, FileText, FileSpreadsheet, FileJson, ChevronDown } from 'lucide-react';
 import { useState, useRef, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
+import { toast } from 'react-hot-toast';
+import { exportsApi } from '../../../lib/api-service';
+import { EXPORT_COLUMNS } from '../../../lib/exports';
+import type { ExportFilters, ExportFormat, ExportResource } from '../../../types/api/export';
 
 interface ExportButtonProps {
+  resource: ExportResource;
+  // Zoekterm, status, sortering en selectie van de lijst op de pagina
+  filters?: ExportFilters;
   className?: string;
 }
 
-export default function ExportButton({ className = '' }: ExportButtonProps) {
+const FORMAT_OPTIONS: { id: ExportFormat; label: string; description: string; icon: React.ReactNode }[] = [
+  { id: 'csv', label: 'CSV', description: 'Voor elk spreadsheetprogramma', icon: <FileText className="w-4 h-4" /> },
+  { id: 'xlsx', label: 'Excel', description: 'Werkmap, regels op een eigen tabblad', icon: <FileSpreadsheet className="w-4 h-4" /> },
+  { id: 'json', label: 'JSON', description: 'Voor koppelingen en scripts', icon: <FileJson className="w-4 h-4" /> },
+];
+
+export default function ExportButton({ resource, filters, className = '' }: ExportButtonProps) {
   const { theme } = useTheme();
   const [isOpen, setIsOpen] = useState(false);
   const [isExporting, setIsExporting] = useState(false);
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const [columns, setColumns] = useState<string[]>(() => EXPORT_COLUMNS[resource].map(column => column.key));
+  const [includeItems, setIncludeItems] = useState(false);
   const buttonRef = useRef<HTMLDivElement>(null);
-  
-  const isDark = theme === 'dark';
 
-  const exportOptions = [
-    {
-      id: 'csv',
-      label: 'Export naar CSV',
-      description: 'Download data als spreadsheet',
-      icon: <FileSpreadsheet className="w-4 h-4" />,
-      action: () => exportToCSV()
-    },
-    {
-      id: 'pdf',
-      label: 'Export naar PDF',
-      description: 'Download rapport als PDF',
-      icon: <FileText className="w-4 h-4" />,
-      action: () => exportToPDF()
-    },
-    {
-      id: 'screenshot',
-      label: 'Screenshot',
-      description: 'Maak screenshot van dashboard',
-      icon: <Camera className="w-4 h-4" />,
-      action: () => takeScreenshot()
-    }
-  ];
+  const isDark = theme === 'dark';
+  const hasLineItems = resource !== 'customers';
+  const selectedCount = filters?.ids?.length || 0;
 
-  const exportToCSV = async () => {
-    setIsExporting(true);
-    
-    // Simulate CSV export
-    const csvData = [
-      ['Metric', 'Value', 'Growth', 'Progress'],
-      ['Executions', '340', '204%', '75%'],
-      ['Projects', '12', '18%', '60%'],
-      ['Team Reviews', '5', '-12%', '40%'],
-      ['Active Users', '1284', '8%', '82%'],
-      ['Revenue', '$45.2K', '32%', '91%'],
-      ['Conversion', '3.2%', '-5%', '28%'],
-      ['Avg Response', '1.2s', '15%', '67%'],
-      ['Offers Sent', '127', '24%', '76%'],
-      ['Avg Offer Value', '€2,450', '12%', '68%'],
-      ['Acceptance Rate', '67%', '8%', '67%'],
-      ['Open Offers', '23', '-3%', '45%'],
-      ['Active Customers', '89', '15%', '89%'],
-      ['AI Generations', '45', '42%', '78%']
-    ];
-
-    const csvContent = csvData.map(row => row.join(',')).join('\n');
-    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-    const link = document.createElement('a');
-    const url = URL.createObjectURL(blob);
-    
-    link.setAttribute('href', url);
-    link.setAttribute('download', `quotefast-dashboard-${new Date().toISOString().split('T')[0]}.csv`);
-    link.style.visibility = 'hidden';
-    
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    
-    setTimeout(() => {
-      setIsExporting(false);
-      setIsOpen(false);
-    }, 1000);
+  const toggleColumn = (key: string) => {
+    setColumns(current =>
+      current.includes(key)
+        ? current.filter(column => column !== key)
+        // Houd de volgorde van de kolommen aan
+        : EXPORT_COLUMNS[resource].map(column => column.key).filter(column => column === key || current.includes(column))
+    );
   };
 
-  const exportToPDF = async () => {
+  const handleExport = async () => {
     setIsExporting(true);
-    
-    // Simulate PDF export
-    setTimeout(() => {
-      alert('PDF export functionaliteit zou hier geïmplementeerd worden met een library zoals jsPDF of Puppeteer');
-      setIsExporting(false);
-      setIsOpen(false);
-    }, 1500);
-  };
+    const result = await exportsApi.download({
+      ...filters,
+      resource,
+      format,
+      columns,
+      include_items: hasLineItems && includeItems,
+    });
+    setIsExporting(false);
 
-  const takeScreenshot = async () => {
-    setIsExporting(true);
-    
-    try {
-      // Use html2canvas or similar library for screenshot
-      const canvas = document.createElement('canvas');
-      const ctx = canvas.getContext('2d');
-      
-      // For demo purposes, we'll simulate the screenshot
-      setTimeout(() => {
-        alert('Screenshot functionaliteit zou hier geïmplementeerd worden met html2canvas');
-        setIsExporting(false);
-        setIsOpen(false);
-      }, 1000);
-    } catch (error) {
-      console.error('Screenshot failed:', error);
-      setIsExporting(false);
+    if (result.success) {
+      toast.success('Export gedownload', { duration: 3000 });
       setIsOpen(false);
+    } else {
+      toast.error(result.error || 'Export mislukt', { duration: 4000 });
     }
   };
 
@@ -127,6 +77,13 @@ export default function ExportButton({ className = '' }: ExportButtonProps) {
     };
   }, []);
 
+  const optionClassName = (active: boolean) => `w-full flex items-center gap-3 px-3 py-2 rounded-lg text-left transition-all duration-300 ${
+    active
+      ? isDark ? 'bg-blue-500/20 text-white' : 'bg-blue-100 text-gray-900'
+      : isDark ? 'text-gray-300 hover:bg-white/10 hover:text-white' : 'text-gray-700 hover:bg-gray-200/50 hover:text-gray-900'
+  }`;
+  const headingClassName = `px-3 py-2 text-xs font-semibold ${isDark ? 'text-gray-300' : 'text-gray-600'}`;
+
   return (
     <div className={`relative ${className}`} ref={buttonRef}>
       <motion.button
@@ -160,63 +117,65 @@ export default function ExportButton({ className = '' }: ExportButtonProps) {
       {/* Dropdown Menu */}
       <AnimatePresence>
         {isOpen && (
-          <motion.div 
+          <motion.div
             initial={{ opacity: 0, y: -10, scale: 0.95 }}
             animate={{ opacity: 1, y: 0, scale: 1 }}
             exit={{ opacity: 0, y: -10, scale: 0.95 }}
             transition={{ duration: 0.2 }}
-            className={`absolute top-full right-0 mt-2 w-64 rounded-xl border shadow-xl z-50 backdrop-blur-xl ${
+            className={`absolute top-full right-0 mt-2 w-72 rounded-xl border shadow-xl z-50 backdrop-blur-xl ${
               isDark
                 ? 'bg-white/10 border-white/20'
                 : 'bg-gray-50/90 border-gray-400/60'
             }`}
           >
-            <div className="p-3">
-              <motion.div 
-                initial={{ opacity: 0, y: -5 }}
-                animate={{ opacity: 1, y: 0 }}
-                transition={{ delay: 0.1 }}
-                className={`px-3 py-2 text-xs font-semibold ${
-                  isDark ? 'text-gray-300' : 'text-gray-600'
-                }`}
-              >
-                Export opties
-              </motion.div>
-              {exportOptions.map((option, index) => (
-                <motion.button
+            <div className="p-3 space-y-2">
+              <div className={headingClassName}>Formaat</div>
+              {FORMAT_OPTIONS.map(option => (
+                <button
                   key={option.id}
-                  initial={{ opacity: 0, x: -10 }}
-                  animate={{ opacity: 1, x: 0 }}
-                  transition={{ delay: 0.1 + index * 0.05 }}
-                  onClick={option.action}
-                  disabled={isExporting}
-                  className={`w-full flex items-center gap-3 px-3 py-3 rounded-lg text-left transition-all duration-300 ${
-                    isDark
-                      ? 'text-gray-300 hover:bg-white/10 hover:text-white'
-                      : 'text-gray-700 hover:bg-gray-200/50 hover:text-gray-900'
-                  } ${isExporting ? 'opacity-50 cursor-not-allowed' : ''}`}
-                  whileHover={{ scale: isExporting ? 1 : 1.02, x: 4 }}
-                  whileTap={{ scale: isExporting ? 1 : 0.98 }}
+                  onClick={() => setFormat(option.id)}
+                  className={optionClassName(format === option.id)}
                 >
-                  <motion.div 
-                    className={`p-1.5 rounded-lg ${
-                      isDark ? 'text-gray-400' : 'text-gray-500'
-                    }`}
-                    whileHover={{ rotate: 5 }}
-                    transition={{ duration: 0.2 }}
-                  >
-                    {option.icon}
-                  </motion.div>
+                  <span className={isDark ? 'text-gray-400' : 'text-gray-500'}>{option.icon}</span>
                   <div className="flex-1">
                     <div className="text-sm font-medium">{option.label}</div>
-                    <div className={`text-xs ${
-                      isDark ? 'text-gray-500' : 'text-gray-500'
-                    }`}>
-                      {option.description}
-                    </div>
+                    <div className="text-xs text-gray-500">{option.description}</div>
                   </div>
-                </motion.button>
+                </button>
               ))}
+
+              <div className={headingClassName}>Kolommen</div>
+              <div className="max-h-48 overflow-y-auto px-3 space-y-1">
+                {EXPORT_COLUMNS[resource].map(column => (
+                  <label key={column.key} className={`flex items-center gap-2 text-sm ${isDark ? 'text-gray-300' : 'text-gray-700'}`}>
+                    <input
+                      type="checkbox"
+                      checked={columns.includes(column.key)}
+                      onChange={() => toggleColumn(column.key)}
+                    />
+                    {column.label}
+                  </label>
+                ))}
+              </div>
+
+              {hasLineItems && (
+                <label className={`flex items-center gap-2 px-3 py-2 text-sm ${isDark ? 'text-gray-300' : 'text-gray-700'}`}>
+                  <input type="checkbox" checked={includeItems} onChange={event => setIncludeItems(event.target.checked)} />
+                  Regels meenemen
+                </label>
+              )}
+
+              <p className="px-3 text-xs text-gray-500">
+                {selectedCount > 0 ? `${selectedCount} geselecteerde rij(en)` : 'Alle rijen die aan de huidige filters voldoen'}
+              </p>
+
+              <button
+                onClick={handleExport}
+                disabled={isExporting || columns.length === 0}
+                className="w-full px-3 py-2 rounded-lg text-sm font-medium bg-blue-600 hover:bg-blue-700 text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isExporting ? 'Exporteren...' : 'Exporteren'}
+              </button>
             </div>
           </motion.div>
         )}
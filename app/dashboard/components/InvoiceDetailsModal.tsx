@@ -68,7 +68,7 @@ export default function InvoiceDetailsModal({
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-8">
           <div>
             <p className="text-gray-400 text-sm mb-1">Factuurnummer</p>
-            <p className="text-xl font-semibold mb-4">{invoice.invoice_number || invoice.invoiceNumber}</p>
+            <p className="text-xl font-semibold mb-4">{invoice.invoice_number || invoice.invoiceNumber || 'Concept'}</p>
 
             <p className="text-gray-400 text-sm mb-1">Klant</p>
             <p className="text-lg flex items-center gap-2 mb-4">
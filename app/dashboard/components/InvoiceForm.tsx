@@ -3,6 +3,9 @@
 import React, { useState, useEffect } from 'react'
 import { X, Plus, Save, Loader, Euro, FileText, User, Calendar } from 'lucide-react'
 import { useTheme } from '../../../contexts/ThemeContext'
+import { DEFAULT_VAT_RATE, VAT_RATES, VAT_RATE_OPTIONS, calculateLineTotal, calculateVatTotals, type VatRate } from '../../../lib/vat'
+import VatSummary from './VatSummary'
+import type { CustomerContact } from '../../../types/api/customer'
 
 interface InvoiceItem {
   name: string
@@ -10,6 +13,7 @@ interface InvoiceItem {
   quantity: number
   price: number
   total: number
+  vat_rate: VatRate
 }
 
 interface InvoiceFormProps {
@@ -43,6 +47,7 @@ export default function InvoiceForm({ isOpen, onClose, invoice, onSave }: Invoic
   const [formData, setFormData] = useState({
     invoice_number: '',
     customer_id: '',
+    contact_id: '',
     title: '',
     description: '',
     total: 0,
@@ -52,6 +57,7 @@ export default function InvoiceForm({ isOpen, onClose, invoice, onSave }: Invoic
   })
   const [isLoading, setIsLoading] = useState(false)
   const [customers, setCustomers] = useState([])
+  const [contacts, setContacts] = useState<CustomerContact[]>([])
 
   useEffect(() => {
     if (isOpen) {
@@ -64,9 +70,10 @@ export default function InvoiceForm({ isOpen, onClose, invoice, onSave }: Invoic
       setFormData({
         invoice_number: invoice.invoice_number || '',
         customer_id: invoice.customer_id || '',
+        contact_id: invoice.contact_id || '',
         title: invoice.title || '',
         description: invoice.description || '',
-        total: invoice.total || 0,
+        total: invoice.amount || 0,
         status: invoice.status || 'draft',
         due_date: invoice.due_date ? new Date(invoice.due_date).toISOString().split('T')[0] : '',
         items: invoice.items ? JSON.parse(invoice.items) : []
@@ -76,6 +83,7 @@ export default function InvoiceForm({ isOpen, onClose, invoice, onSave }: Invoic
       setFormData({
         invoice_number: '',
         customer_id: '',
+        contact_id: '',
         title: '',
         description: '',
         total: 0,
@@ -86,6 +94,19 @@ export default function InvoiceForm({ isOpen, onClose, invoice, onSave }: Invoic
     }
   }, [invoice, isOpen])
 
+  // Contactpersonen van de gekozen klant, om de factuur aan te richten
+  useEffect(() => {
+    if (!isOpen || !formData.customer_id) {
+      setContacts([])
+      return
+    }
+
+    fetch(`/api/customers/${formData.customer_id}/contacts`)
+      .then(response => (response.ok ? response.json() : { contacts: [] }))
+      .then(data => setContacts(data.contacts || []))
+      .catch(error => console.error('Error fetching contacts:', error))
+  }, [isOpen, formData.customer_id])
+
   const fetchCustomers = async () => {
     try {
       const response = await fetch('/api/customers')
@@ -100,13 +121,14 @@ export default function InvoiceForm({ isOpen, onClose, invoice, onSave }: Invoic
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
     const { name, value } = e.target
-    setFormData(prev => ({ ...prev, [name]: value }))
+    // Een andere klant heeft andere contactpersonen
+    setFormData(prev => ({ ...prev, [name]: value, ...(name === 'customer_id' ? { contact_id: '' } : {}) }))
   }
 
   const addItem = () => {
     setFormData(prev => ({
       ...prev,
-      items: [...prev.items, { name: '', description: '', quantity: 1, price: 0, total: 0 }]
+      items: [...prev.items, { name: '', description: '', quantity: 1, price: 0, total: 0, vat_rate: DEFAULT_VAT_RATE }]
     }))
   }
 
@@ -117,11 +139,11 @@ export default function InvoiceForm({ isOpen, onClose, invoice, onSave }: Invoic
       
       // Calculate total for this item
       if (field === 'quantity' || field === 'price') {
-        newItems[index].total = newItems[index].quantity * newItems[index].price
+        newItems[index].total = calculateLineTotal(newItems[index])
       }
       
-      // Calculate total for entire invoice
-      const total = newItems.reduce((sum, item) => sum + item.total, 0)
+      // Calculate total for entire invoice (excl. BTW)
+      const total = calculateVatTotals(newItems).subtotal
       
       return { ...prev, items: newItems, total }
     })
@@ -130,7 +152,7 @@ export default function InvoiceForm({ isOpen, onClose, invoice, onSave }: Invoic
   const removeItem = (index: number) => {
     setFormData(prev => {
       const newItems = prev.items.filter((_, i) => i !== index)
-      const total = newItems.reduce((sum, item) => sum + item.total, 0)
+      const total = calculateVatTotals(newItems).subtotal
       return { ...prev, items: newItems, total }
     })
   }
@@ -150,6 +172,7 @@ export default function InvoiceForm({ isOpen, onClose, invoice, onSave }: Invoic
     }
   }
 
+  const vatTotals = calculateVatTotals(formData.items)
   const cardClass = theme === 'dark' 
     ? 'bg-gray-800 border-gray-700 text-white' 
     : 'bg-white border-gray-200 text-black'
@@ -166,19 +189,19 @@ export default function InvoiceForm({ isOpen, onClose, invoice, onSave }: Invoic
           {/* Basic Information */}
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             <div>
-              <label className="block text-sm font-medium mb-1">Factuurnummer *</label>
+              <label className="block text-sm font-medium mb-1">Factuurnummer</label>
+              {/* Nummers worden bij het versturen doorlopend door de database toegekend en zijn niet aan te passen */}
               <input
                 type="text"
                 name="invoice_number"
                 value={formData.invoice_number}
-                onChange={handleChange}
-                className={`w-full p-3 rounded-lg border ${
+                readOnly
+                className={`w-full p-3 rounded-lg border cursor-not-allowed ${
                   theme === 'dark' 
-                    ? 'bg-gray-700 border-gray-600 text-white' 
-                    : 'bg-gray-50 border-gray-300 text-black'
-                } focus:ring-2 focus:ring-blue-500 focus:border-transparent`}
-                required
-                placeholder="INV-2024-001"
+                    ? 'bg-gray-700 border-gray-600 text-gray-400' 
+                    : 'bg-gray-100 border-gray-300 text-gray-500'
+                }`}
+                placeholder="Wordt toegekend bij het versturen"
               />
             </div>
             
@@ -206,6 +229,30 @@ export default function InvoiceForm({ isOpen, onClose, invoice, onSave }: Invoic
             </div>
           </div>
 
+          {contacts.length > 0 && (
+            <div>
+              <label className="block text-sm font-medium mb-1">Contactpersoon</label>
+              <select
+                name="contact_id"
+                value={formData.contact_id}
+                onChange={handleChange}
+                className={`w-full p-3 rounded-lg border ${
+                  theme === 'dark' 
+                    ? 'bg-gray-700 border-gray-600 text-white' 
+                    : 'bg-gray-50 border-gray-300 text-black'
+                } focus:ring-2 focus:ring-blue-500 focus:border-transparent`}
+                aria-label="Selecteer een contactpersoon"
+              >
+                <option value="">Automatisch (contactpersoon voor facturatie)</option>
+                {contacts.map(contact => (
+                  <option key={contact.id} value={contact.id}>
+                    {contact.name}{contact.email ? ` (${contact.email})` : ''}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
           <div>
             <label className="block text-sm font-medium mb-1">Titel *</label>
             <input
@@ -276,13 +323,13 @@ export default function InvoiceForm({ isOpen, onClose, invoice, onSave }: Invoic
             </div>
             
             <div>
-              <label className="block text-sm font-medium mb-1">Totaalbedrag</label>
+              <label className="block text-sm font-medium mb-1">Totaalbedrag (incl. BTW)</label>
               <div className="relative">
                 <Euro className="absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-gray-400" />
                 <input
                   type="number"
                   step="0.01"
-                  value={formData.total}
+                  value={vatTotals.total}
                   readOnly
                   className={`w-full pl-10 pr-3 py-3 rounded-lg border ${
                     theme === 'dark' 
@@ -316,7 +363,7 @@ export default function InvoiceForm({ isOpen, onClose, invoice, onSave }: Invoic
                   <div key={index} className={`p-4 rounded-lg border ${
                     theme === 'dark' ? 'bg-gray-700 border-gray-600' : 'bg-gray-50 border-gray-200'
                   }`}>
-                    <div className="grid grid-cols-1 md:grid-cols-6 gap-4 items-end">
+                    <div className="grid grid-cols-1 md:grid-cols-7 gap-4 items-end">
                       <div className="md:col-span-2">
                         <label className="block text-sm font-medium mb-1">Naam</label>
                         <input
@@ -361,6 +408,24 @@ export default function InvoiceForm({ isOpen, onClose, invoice, onSave }: Invoic
                           }`}
                         />
                       </div>
+
+                      <div>
+                        <label className="block text-sm font-medium mb-1">BTW</label>
+                        <select
+                          value={item.vat_rate || DEFAULT_VAT_RATE}
+                          onChange={(e) => updateItem(index, 'vat_rate', e.target.value)}
+                          className={`w-full p-2 rounded border ${
+                            theme === 'dark' 
+                              ? 'bg-gray-600 border-gray-500 text-white' 
+                              : 'bg-white border-gray-300 text-black'
+                          }`}
+                          aria-label={`BTW-tarief item ${index + 1}`}
+                        >
+                          {VAT_RATE_OPTIONS.map(rate => (
+                            <option key={rate} value={rate}>{VAT_RATES[rate].label}</option>
+                          ))}
+                        </select>
+                      </div>
                       
                       <div>
                         <label className="block text-sm font-medium mb-1">Totaal</label>
@@ -395,6 +460,8 @@ export default function InvoiceForm({ isOpen, onClose, invoice, onSave }: Invoic
                 ))}
               </div>
             )}
+
+            {formData.items.length > 0 && <VatSummary totals={vatTotals} />}
           </div>
 
           {/* Form Actions */}
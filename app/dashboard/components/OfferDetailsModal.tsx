@@ -1,15 +1,23 @@
 "use client";
+import { useState } from 'react';
 import { useTheme } from '../../../contexts/ThemeContext';
-import { X, Download, Send, Edit, Eye, FileText, User, Calendar, Euro, CheckCircle, XCircle, Clock } from 'lucide-react';
+import { X, Download, Send, Edit, Eye, FileText, User, Calendar, Euro, CheckCircle, XCircle, Clock, Copy, Receipt } from 'lucide-react';
 import StatusBadge from './StatusBadge';
+import OfferRevisionHistory from './OfferRevisionHistory';
+import { getOfferPortalUrl } from '../../../lib/offer-portal';
+import type { Offer, OfferRevision } from '../../../types/api/offer';
+import type { OfferInvoiceRequest } from '../../../types/api/invoice';
 
 interface OfferDetailsModalProps {
-  offer: any;
+  offer: Offer | null;
   isOpen: boolean;
   onClose: () => void;
-  onEdit?: (offer: any) => void;
-  onSend?: (offer: any) => void;
-  onDownload?: (offer: any) => void;
+  onEdit?: (offer: Offer) => void;
+  onDuplicate?: (offer: Offer) => void;
+  onSend?: (offer: Offer) => void;
+  onDownload?: (offer: Offer) => void;
+  onRestoreRevision?: (revision: OfferRevision) => void;
+  onConvertToInvoice?: (offer: Offer, invoiceRequest?: OfferInvoiceRequest) => void;
 }
 
 export default function OfferDetailsModal({
@@ -17,18 +25,22 @@ export default function OfferDetailsModal({
   isOpen,
   onClose,
   onEdit,
+  onDuplicate,
   onSend,
-  onDownload
+  onDownload,
+  onRestoreRevision,
+  onConvertToInvoice
 }: OfferDetailsModalProps) {
   const { theme } = useTheme();
   const isDark = theme === 'dark';
+  const [depositPercentage, setDepositPercentage] = useState(30);
 
   if (!isOpen || !offer) return null;
 
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('nl-NL', {
       style: 'currency',
-      currency: 'EUR'
+      currency: offer.currency || 'EUR'
     }).format(amount);
   };
 
@@ -48,6 +60,8 @@ export default function OfferDetailsModal({
         return <XCircle className="w-5 h-5 text-red-500" />;
       case 'sent':
         return <Send className="w-5 h-5 text-blue-500" />;
+      case 'viewed':
+        return <Eye className="w-5 h-5 text-blue-500" />;
       case 'draft':
         return <Edit className="w-5 h-5 text-yellow-500" />;
       case 'expired':
@@ -82,7 +96,7 @@ export default function OfferDetailsModal({
                 {offer.title}
               </h2>
               <p className={`text-sm ${isDark ? 'text-gray-400' : 'text-gray-600'}`}>
-                {offer.id} • Versie {offer.version}
+                #{offer.id.slice(0, 8)}
               </p>
             </div>
           </div>
@@ -120,10 +134,10 @@ export default function OfferDetailsModal({
                     <User className={`w-4 h-4 ${isDark ? 'text-gray-400' : 'text-gray-600'}`} />
                     <div>
                       <p className={`font-medium ${isDark ? 'text-white' : 'text-gray-900'}`}>
-                        {offer.client}
+                        {offer.client_name}
                       </p>
                       <p className={`text-sm ${isDark ? 'text-gray-400' : 'text-gray-600'}`}>
-                        {offer.clientEmail}
+                        {offer.customers?.email}
                       </p>
                     </div>
                   </div>
@@ -134,7 +148,7 @@ export default function OfferDetailsModal({
                         Vervaldatum
                       </p>
                       <p className={`text-sm ${isDark ? 'text-gray-400' : 'text-gray-600'}`}>
-                        {formatDate(offer.dueDate)}
+                        {offer.due_date ? formatDate(offer.due_date) : '-'}
                       </p>
                     </div>
                   </div>
@@ -147,7 +161,7 @@ export default function OfferDetailsModal({
                   Beschrijving
                 </h3>
                 <p className={`${isDark ? 'text-gray-300' : 'text-gray-700'}`}>
-                  {offer.description}
+                  {offer.terms?.description}
                 </p>
               </div>
 
@@ -157,7 +171,7 @@ export default function OfferDetailsModal({
                   Offerte Items
                 </h3>
                 <div className="space-y-3">
-                  {offer.items.map((item: any, index: number) => (
+                  {(offer.products || []).map((item, index) => (
                     <div key={index} className={`p-4 rounded-lg border ${
                       isDark ? 'bg-gray-800/50 border-gray-700' : 'bg-gray-50 border-gray-200'
                     }`}>
@@ -185,7 +199,7 @@ export default function OfferDetailsModal({
               </div>
 
               {/* Notes */}
-              {offer.notes && (
+              {offer.terms?.notes && (
                 <div>
                   <h3 className={`text-lg font-semibold mb-3 ${isDark ? 'text-white' : 'text-gray-900'}`}>
                     Notities
@@ -194,11 +208,14 @@ export default function OfferDetailsModal({
                     isDark ? 'bg-yellow-500/10 border-yellow-500/20' : 'bg-yellow-50 border-yellow-200'
                   }`}>
                     <p className={`${isDark ? 'text-yellow-300' : 'text-yellow-800'}`}>
-                      {offer.notes}
+                      {offer.terms.notes}
                     </p>
                   </div>
                 </div>
               )}
+
+              {/* Revisions */}
+              <OfferRevisionHistory offer={offer} onRestore={onRestoreRevision} />
             </div>
 
             {/* Sidebar */}
@@ -231,32 +248,19 @@ export default function OfferDetailsModal({
                         Aangemaakt
                       </p>
                       <p className={`text-xs ${isDark ? 'text-gray-400' : 'text-gray-600'}`}>
-                        {formatDate(offer.createdDate)}
+                        {formatDate(offer.created_at)}
                       </p>
                     </div>
                   </div>
-                  {offer.sentDate && (
+                  {offer.viewed_at && (
                     <div className="flex items-center gap-3">
                       <div className="w-2 h-2 bg-green-500 rounded-full"></div>
                       <div>
                         <p className={`text-sm font-medium ${isDark ? 'text-white' : 'text-gray-900'}`}>
-                          Verzonden
+                          Bekeken
                         </p>
                         <p className={`text-xs ${isDark ? 'text-gray-400' : 'text-gray-600'}`}>
-                          {formatDate(offer.sentDate)}
-                        </p>
-                      </div>
-                    </div>
-                  )}
-                  {offer.acceptedDate && (
-                    <div className="flex items-center gap-3">
-                      <div className="w-2 h-2 bg-green-600 rounded-full"></div>
-                      <div>
-                        <p className={`text-sm font-medium ${isDark ? 'text-white' : 'text-gray-900'}`}>
-                          Geaccepteerd
-                        </p>
-                        <p className={`text-xs ${isDark ? 'text-gray-400' : 'text-gray-600'}`}>
-                          {formatDate(offer.acceptedDate)}
+                          {formatDate(offer.viewed_at)}
                         </p>
                       </div>
                     </div>
@@ -281,35 +285,87 @@ export default function OfferDetailsModal({
                     <Download className="w-4 h-4" />
                     Download PDF
                   </button>
-                  {offer.status === 'draft' && (
+                  {offer.status === 'draft' && onSend && (
                     <button
-                      onClick={() => onSend?.(offer)}
+                      onClick={() => onSend(offer)}
                       className="w-full flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors"
                     >
                       <Send className="w-4 h-4" />
                       Verstuur Offerte
                     </button>
                   )}
+                  {offer.status === 'accepted' && onConvertToInvoice && (
+                    <>
+                      <button
+                        onClick={() => onConvertToInvoice(offer)}
+                        className="w-full flex items-center gap-2 px-4 py-2 bg-green-600 hover:bg-green-700 text-white rounded-lg transition-colors"
+                      >
+                        <Receipt className="w-4 h-4" />
+                        Factureren
+                      </button>
+                      <div className="flex items-center gap-2">
+                        <input
+                          type="number"
+                          min="1"
+                          max="99"
+                          value={depositPercentage}
+                          onChange={(e) => setDepositPercentage(parseFloat(e.target.value) || 0)}
+                          className={`w-20 px-3 py-2 rounded-lg border text-sm ${
+                            isDark ? 'bg-gray-800 border-gray-700 text-white' : 'bg-white border-gray-300 text-gray-900'
+                          }`}
+                          aria-label="Aanbetaling percentage"
+                        />
+                        <button
+                          onClick={() => onConvertToInvoice(offer, { deposit_percentage: depositPercentage })}
+                          className={`flex-1 flex items-center gap-2 px-4 py-2 rounded-lg transition-colors ${
+                            isDark 
+                              ? 'bg-gray-800 hover:bg-gray-700 text-gray-300' 
+                              : 'bg-gray-100 hover:bg-gray-200 text-gray-700'
+                          }`}
+                        >
+                          <Receipt className="w-4 h-4" />
+                          Aanbetaling %
+                        </button>
+                      </div>
+                    </>
+                  )}
+                  {onEdit && (
+                    <button
+                      onClick={() => onEdit(offer)}
+                      className={`w-full flex items-center gap-2 px-4 py-2 rounded-lg transition-colors ${
+                        isDark 
+                          ? 'bg-gray-800 hover:bg-gray-700 text-gray-300' 
+                          : 'bg-gray-100 hover:bg-gray-200 text-gray-700'
+                      }`}
+                    >
+                      <Edit className="w-4 h-4" />
+                      Bewerken
+                    </button>
+                  )}
+                  {onDuplicate && (
+                    <button
+                      onClick={() => onDuplicate(offer)}
+                      className={`w-full flex items-center gap-2 px-4 py-2 rounded-lg transition-colors ${
+                        isDark 
+                          ? 'bg-gray-800 hover:bg-gray-700 text-gray-300' 
+                          : 'bg-gray-100 hover:bg-gray-200 text-gray-700'
+                      }`}
+                    >
+                      <Copy className="w-4 h-4" />
+                      Dupliceren
+                    </button>
+                  )}
                   <button
-                    onClick={() => onEdit?.(offer)}
-                    className={`w-full flex items-center gap-2 px-4 py-2 rounded-lg transition-colors ${
-                      isDark 
-                        ? 'bg-gray-800 hover:bg-gray-700 text-gray-300' 
-                        : 'bg-gray-100 hover:bg-gray-200 text-gray-700'
-                    }`}
-                  >
-                    <Edit className="w-4 h-4" />
-                    Bewerken
-                  </button>
-                  <button
-                    className={`w-full flex items-center gap-2 px-4 py-2 rounded-lg transition-colors ${
+                    onClick={() => window.open(getOfferPortalUrl(offer.public_token, window.location.origin), '_blank')}
+                    disabled={offer.status === 'draft'}
+                    className={`w-full flex items-center gap-2 px-4 py-2 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
                       isDark 
                         ? 'bg-gray-800 hover:bg-gray-700 text-gray-300' 
                         : 'bg-gray-100 hover:bg-gray-200 text-gray-700'
                     }`}
                   >
                     <Eye className="w-4 h-4" />
-                    Preview
+                    Bekijk klantportaal
                   </button>
                 </div>
               </div>
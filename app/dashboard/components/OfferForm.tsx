@@ -0,0 +1,417 @@
+'use client'
+
+import React, { useState, useEffect } from 'react'
+import { X, Plus, Save, Loader, FileText } from 'lucide-react'
+import { useTheme } from '../../../contexts/ThemeContext'
+import { DEFAULT_VAT_RATE, VAT_RATES, VAT_RATE_OPTIONS, calculateVatTotals } from '../../../lib/vat'
+import VatSummary from './VatSummary'
+import type { Offer, OfferInput, OfferProduct } from '../../../types/api/offer'
+import type { CustomerContact } from '../../../types/api/customer'
+
+interface OfferFormProps {
+  isOpen: boolean
+  onClose: () => void
+  offer?: Offer | null
+  onSave: (offerData: OfferInput) => Promise<void>
+}
+
+const emptyForm = {
+  title: '',
+  client_id: '',
+  contact_id: '',
+  client_name: '',
+  due_date: '',
+  description: '',
+  notes: '',
+  products: [] as OfferProduct[]
+}
+
+export default function OfferForm({ isOpen, onClose, offer, onSave }: OfferFormProps) {
+  const { theme } = useTheme()
+  const [formData, setFormData] = useState(emptyForm)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [customers, setCustomers] = useState<Array<{ id: string; name: string; email: string | null }>>([])
+  const [contacts, setContacts] = useState<CustomerContact[]>([])
+
+  useEffect(() => {
+    if (isOpen) {
+      fetchCustomers()
+    }
+  }, [isOpen])
+
+  useEffect(() => {
+    setError(null)
+    if (offer) {
+      setFormData({
+        title: offer.title,
+        client_id: offer.client_id || '',
+        contact_id: offer.contact_id || '',
+        client_name: offer.client_name,
+        due_date: offer.due_date || '',
+        description: offer.terms?.description || '',
+        notes: offer.terms?.notes || '',
+        products: offer.products || []
+      })
+    } else {
+      // Reset for new offer
+      setFormData(emptyForm)
+    }
+  }, [offer, isOpen])
+
+  // Contactpersonen van de gekozen klant, om de offerte aan te richten
+  useEffect(() => {
+    if (!isOpen || !formData.client_id) {
+      setContacts([])
+      return
+    }
+
+    fetch(`/api/customers/${formData.client_id}/contacts`)
+      .then(response => (response.ok ? response.json() : { contacts: [] }))
+      .then(data => setContacts(data.contacts || []))
+      .catch(error => console.error('Error fetching contacts:', error))
+  }, [isOpen, formData.client_id])
+
+  const fetchCustomers = async () => {
+    try {
+      const response = await fetch('/api/customers')
+      if (response.ok) {
+        const data = await response.json()
+        setCustomers(data.customers || [])
+      }
+    } catch (error) {
+      console.error('Error fetching customers:', error)
+    }
+  }
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target
+    setFormData(prev => ({ ...prev, [name]: value }))
+  }
+
+  const handleCustomerChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const customer = customers.find(c => c.id === e.target.value)
+    setFormData(prev => ({
+      ...prev,
+      client_id: e.target.value,
+      contact_id: '',
+      client_name: customer ? customer.name : prev.client_name
+    }))
+  }
+
+  const addProduct = () => {
+    setFormData(prev => ({
+      ...prev,
+      products: [...prev.products, { name: '', description: '', quantity: 1, price: 0, vat_rate: DEFAULT_VAT_RATE }]
+    }))
+  }
+
+  const updateProduct = (index: number, field: keyof OfferProduct, value: string | number) => {
+    setFormData(prev => {
+      const products = [...prev.products]
+      products[index] = { ...products[index], [field]: value }
+      return { ...prev, products }
+    })
+  }
+
+  const removeProduct = (index: number) => {
+    setFormData(prev => ({ ...prev, products: prev.products.filter((_, i) => i !== index) }))
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      await onSave({
+        title: formData.title,
+        client_id: formData.client_id || null,
+        contact_id: formData.contact_id || null,
+        client_name: formData.client_name,
+        due_date: formData.due_date || null,
+        terms: { ...offer?.terms, description: formData.description, notes: formData.notes },
+        products: formData.products
+      })
+      onClose()
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Opslaan mislukt')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  if (!isOpen) return null
+
+  const totals = calculateVatTotals(formData.products)
+  const cardClass = theme === 'dark'
+    ? 'bg-gray-800 border-gray-700 text-white'
+    : 'bg-white border-gray-200 text-black'
+  const inputClass = `w-full p-3 rounded-lg border ${
+    theme === 'dark'
+      ? 'bg-gray-700 border-gray-600 text-white'
+      : 'bg-gray-50 border-gray-300 text-black'
+  } focus:ring-2 focus:ring-blue-500 focus:border-transparent`
+  const itemInputClass = `w-full p-2 rounded border ${
+    theme === 'dark'
+      ? 'bg-gray-600 border-gray-500 text-white'
+      : 'bg-white border-gray-300 text-black'
+  }`
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex justify-center items-center z-50 p-4">
+      <div className="relative w-full max-w-4xl max-h-[90vh] overflow-y-auto">
+        <div className={`rounded-xl border ${cardClass} p-8 shadow-2xl`}>
+          <h2 className="text-2xl font-bold mb-6 flex items-center gap-2">
+            <FileText className="w-6 h-6" />
+            {offer ? 'Offerte Bewerken' : 'Nieuwe Offerte Aanmaken'}
+          </h2>
+
+          <form onSubmit={handleSubmit} className="space-y-6">
+            <div>
+              <label className="block text-sm font-medium mb-1">Titel *</label>
+              <input
+                type="text"
+                name="title"
+                value={formData.title}
+                onChange={handleChange}
+                className={inputClass}
+                required
+                placeholder="Website ontwikkeling"
+              />
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-medium mb-1">Klant</label>
+                <select
+                  value={formData.client_id}
+                  onChange={handleCustomerChange}
+                  className={inputClass}
+                  aria-label="Selecteer een klant"
+                >
+                  <option value="">Geen gekoppelde klant</option>
+                  {customers.map(customer => (
+                    <option key={customer.id} value={customer.id}>
+                      {customer.name}{customer.email ? ` (${customer.email})` : ''}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium mb-1">Klantnaam *</label>
+                <input
+                  type="text"
+                  name="client_name"
+                  value={formData.client_name}
+                  onChange={handleChange}
+                  className={inputClass}
+                  required
+                  placeholder="ABC Bedrijf"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium mb-1">Geldig tot</label>
+                <input
+                  type="date"
+                  name="due_date"
+                  value={formData.due_date}
+                  onChange={handleChange}
+                  className={inputClass}
+                  aria-label="Geldig tot"
+                />
+              </div>
+            </div>
+
+            {contacts.length > 0 && (
+              <div>
+                <label className="block text-sm font-medium mb-1">Contactpersoon</label>
+                <select
+                  value={formData.contact_id}
+                  onChange={(e) => setFormData(prev => ({ ...prev, contact_id: e.target.value }))}
+                  className={inputClass}
+                  aria-label="Selecteer een contactpersoon"
+                >
+                  <option value="">Automatisch (contactpersoon voor offertes)</option>
+                  {contacts.map(contact => (
+                    <option key={contact.id} value={contact.id}>
+                      {contact.name}{contact.email ? ` (${contact.email})` : ''}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            <div>
+              <label className="block text-sm font-medium mb-1">Beschrijving</label>
+              <textarea
+                name="description"
+                value={formData.description}
+                onChange={handleChange}
+                rows={3}
+                className={inputClass}
+                placeholder="Omschrijving van het voorstel..."
+              />
+            </div>
+
+            {/* Offer Products */}
+            <div>
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="text-lg font-semibold">Offerte Items</h3>
+                <button
+                  type="button"
+                  onClick={addProduct}
+                  className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                >
+                  <Plus className="w-4 h-4" />
+                  Item Toevoegen
+                </button>
+              </div>
+
+              {formData.products.length === 0 ? (
+                <p className="text-gray-500 text-center py-8">Nog geen items toegevoegd</p>
+              ) : (
+                <div className="space-y-4">
+                  {formData.products.map((product, index) => (
+                    <div key={index} className={`p-4 rounded-lg border ${
+                      theme === 'dark' ? 'bg-gray-700 border-gray-600' : 'bg-gray-50 border-gray-200'
+                    }`}>
+                      <div className="grid grid-cols-1 md:grid-cols-7 gap-4 items-end">
+                        <div className="md:col-span-2">
+                          <label className="block text-sm font-medium mb-1">Naam</label>
+                          <input
+                            type="text"
+                            value={product.name}
+                            onChange={(e) => updateProduct(index, 'name', e.target.value)}
+                            className={itemInputClass}
+                            placeholder="Item naam"
+                          />
+                        </div>
+
+                        <div className="md:col-span-2">
+                          <label className="block text-sm font-medium mb-1">Omschrijving</label>
+                          <input
+                            type="text"
+                            value={product.description || ''}
+                            onChange={(e) => updateProduct(index, 'description', e.target.value)}
+                            className={itemInputClass}
+                            placeholder="Optioneel"
+                          />
+                        </div>
+
+                        <div>
+                          <label className="block text-sm font-medium mb-1">Aantal</label>
+                          <input
+                            type="number"
+                            min="0"
+                            step="any"
+                            value={product.quantity}
+                            onChange={(e) => updateProduct(index, 'quantity', parseFloat(e.target.value) || 0)}
+                            className={itemInputClass}
+                            aria-label={`Aantal item ${index + 1}`}
+                          />
+                        </div>
+
+                        <div>
+                          <label className="block text-sm font-medium mb-1">BTW</label>
+                          <select
+                            value={product.vat_rate || DEFAULT_VAT_RATE}
+                            onChange={(e) => updateProduct(index, 'vat_rate', e.target.value)}
+                            className={itemInputClass}
+                            aria-label={`BTW-tarief item ${index + 1}`}
+                          >
+                            {VAT_RATE_OPTIONS.map(rate => (
+                              <option key={rate} value={rate}>{VAT_RATES[rate].label}</option>
+                            ))}
+                          </select>
+                        </div>
+
+                        <div className="flex gap-2">
+                          <div className="flex-1">
+                            <label className="block text-sm font-medium mb-1">Prijs</label>
+                            <input
+                              type="number"
+                              step="0.01"
+                              value={product.price}
+                              onChange={(e) => updateProduct(index, 'price', parseFloat(e.target.value) || 0)}
+                              className={itemInputClass}
+                              aria-label={`Prijs item ${index + 1}`}
+                            />
+                          </div>
+                          <button
+                            type="button"
+                            onClick={() => removeProduct(index)}
+                            className="self-end p-2 bg-red-600 text-white rounded hover:bg-red-700 transition-colors"
+                            aria-label={`Item ${index + 1} verwijderen`}
+                          >
+                            <X className="w-4 h-4" />
+                          </button>
+                        </div>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <VatSummary totals={totals} currency={offer?.currency} />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium mb-1">Notities</label>
+              <textarea
+                name="notes"
+                value={formData.notes}
+                onChange={handleChange}
+                rows={2}
+                className={inputClass}
+                placeholder="Interne notities..."
+              />
+            </div>
+
+            {error && (
+              <p className="text-sm text-red-500">{error}</p>
+            )}
+
+            {/* Form Actions */}
+            <div className="flex justify-end gap-4 pt-6 border-t border-gray-200 dark:border-gray-700">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-6 py-3 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
+              >
+                Annuleren
+              </button>
+              <button
+                type="submit"
+                disabled={isLoading}
+                className="flex items-center gap-2 px-6 py-3 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isLoading ? (
+                  <>
+                    <Loader className="w-4 h-4 animate-spin" />
+                    Opslaan...
+                  </>
+                ) : (
+                  <>
+                    <Save className="w-4 h-4" />
+                    {offer ? 'Bijwerken' : 'Aanmaken'}
+                  </>
+                )}
+              </button>
+            </div>
+          </form>
+
+          <button
+            onClick={onClose}
+            className="absolute top-4 right-4 text-gray-400 hover:text-white transition-colors"
+            aria-label="Sluiten"
+          >
+            <X size={24} />
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,172 @@
+"use client";
+import { useEffect, useMemo, useState } from 'react';
+import { History, RotateCcw, Loader } from 'lucide-react';
+import { useTheme } from '../../../contexts/ThemeContext';
+import { offersApi } from '../../../lib/api-service';
+import { diffOfferRevisions } from '../../../lib/offers';
+import type { Offer, OfferRevision } from '../../../types/api/offer';
+
+interface OfferRevisionHistoryProps {
+  offer: Offer;
+  onRestore?: (revision: OfferRevision) => void;
+}
+
+export default function OfferRevisionHistory({ offer, onRestore }: OfferRevisionHistoryProps) {
+  const { theme } = useTheme();
+  const isDark = theme === 'dark';
+  const [revisions, setRevisions] = useState<OfferRevision[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [fromId, setFromId] = useState('');
+  const [toId, setToId] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+
+    offersApi.getRevisions(offer.id).then(response => {
+      if (cancelled) return;
+      if (!response.success) {
+        setError(response.error || 'Revisies konden niet worden geladen');
+        setRevisions([]);
+      } else {
+        const data = response.data || [];
+        setError(null);
+        setRevisions(data);
+        // Standaard de nieuwste revisie vergelijken met de vorige
+        setToId(data[0]?.id || '');
+        setFromId(data[1]?.id || data[0]?.id || '');
+      }
+      setIsLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [offer.id, offer.updated_at]);
+
+  const diff = useMemo(() => {
+    const from = revisions.find(revision => revision.id === fromId);
+    const to = revisions.find(revision => revision.id === toId);
+    return from && to ? diffOfferRevisions(from, to) : [];
+  }, [revisions, fromId, toId]);
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleString('nl-NL', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+  };
+
+  const selectClass = `p-2 rounded-lg border text-sm ${
+    isDark ? 'bg-gray-800 border-gray-700 text-white' : 'bg-white border-gray-300 text-gray-900'
+  }`;
+
+  return (
+    <div>
+      <h3 className={`text-lg font-semibold mb-3 flex items-center gap-2 ${isDark ? 'text-white' : 'text-gray-900'}`}>
+        <History className="w-5 h-5" />
+        Revisies
+      </h3>
+
+      {isLoading ? (
+        <div className={`flex items-center gap-2 text-sm ${isDark ? 'text-gray-400' : 'text-gray-600'}`}>
+          <Loader className="w-4 h-4 animate-spin" />
+          Revisies laden...
+        </div>
+      ) : error ? (
+        <p className="text-sm text-red-500">{error}</p>
+      ) : revisions.length === 0 ? (
+        <p className={`text-sm ${isDark ? 'text-gray-400' : 'text-gray-600'}`}>
+          Er worden revisies bewaard zodra de offerte is verzonden.
+        </p>
+      ) : (
+        <div className="space-y-4">
+          <div className="space-y-2">
+            {revisions.map(revision => (
+              <div key={revision.id} className={`flex items-center justify-between p-3 rounded-lg border ${
+                isDark ? 'bg-gray-800/50 border-gray-700' : 'bg-gray-50 border-gray-200'
+              }`}>
+                <div>
+                  <p className={`text-sm font-medium ${isDark ? 'text-white' : 'text-gray-900'}`}>
+                    Versie {revision.version}
+                  </p>
+                  <p className={`text-xs ${isDark ? 'text-gray-400' : 'text-gray-600'}`}>
+                    {formatDate(revision.created_at)} · {new Intl.NumberFormat('nl-NL', {
+                      style: 'currency',
+                      currency: revision.currency || 'EUR'
+                    }).format(revision.amount)}
+                  </p>
+                </div>
+                {onRestore && (
+                  <button
+                    onClick={() => onRestore(revision)}
+                    className={`flex items-center gap-1 px-3 py-1.5 text-xs rounded-lg transition-colors ${
+                      isDark
+                        ? 'bg-gray-700 hover:bg-gray-600 text-gray-300'
+                        : 'bg-gray-200 hover:bg-gray-300 text-gray-700'
+                    }`}
+                    title="Herstel als nieuw concept"
+                  >
+                    <RotateCcw className="w-3 h-3" />
+                    Herstellen
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {revisions.length > 1 && (
+            <div className="space-y-3">
+              <div className="flex items-center gap-2">
+                <select
+                  value={fromId}
+                  onChange={(e) => setFromId(e.target.value)}
+                  className={selectClass}
+                  aria-label="Vergelijk van versie"
+                >
+                  {revisions.map(revision => (
+                    <option key={revision.id} value={revision.id}>Versie {revision.version}</option>
+                  ))}
+                </select>
+                <span className={`text-sm ${isDark ? 'text-gray-400' : 'text-gray-600'}`}>met</span>
+                <select
+                  value={toId}
+                  onChange={(e) => setToId(e.target.value)}
+                  className={selectClass}
+                  aria-label="Vergelijk met versie"
+                >
+                  {revisions.map(revision => (
+                    <option key={revision.id} value={revision.id}>Versie {revision.version}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div className={`rounded-lg border font-mono text-xs overflow-x-auto ${
+                isDark ? 'border-gray-700' : 'border-gray-200'
+              }`}>
+                {diff.map((line, index) => (
+                  <div
+                    key={index}
+                    className={`px-3 py-1 whitespace-pre-wrap ${
+                      line.type === 'added'
+                        ? isDark ? 'bg-green-500/10 text-green-400' : 'bg-green-50 text-green-700'
+                        : line.type === 'removed'
+                          ? isDark ? 'bg-red-500/10 text-red-400' : 'bg-red-50 text-red-700'
+                          : isDark ? 'text-gray-400' : 'text-gray-600'
+                    }`}
+                  >
+                    {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}{line.text}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
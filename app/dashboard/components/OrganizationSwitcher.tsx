@@ -0,0 +1,90 @@
+"use client";
+import { useId, useState } from 'react'
+import { Building2, Check, ChevronDown } from 'lucide-react'
+import { toast } from 'react-hot-toast'
+import { useAuth } from '../../providers'
+import { TEAM_ROLE_LABELS } from '../team/roles'
+
+// Wisselt de actieve organisatie; alle API routes lezen en schrijven binnen die organisatie
+export default function OrganizationSwitcher({ className = '' }: { className?: string }) {
+  const { organizations, membership, switchOrganization } = useAuth()
+  const [isOpen, setIsOpen] = useState(false)
+  const [switchingTo, setSwitchingTo] = useState<string | null>(null)
+  // TopNav toont de wisselaar zowel in de desktop- als in de mobiele navigatie
+  const buttonId = useId()
+
+  if (organizations.length === 0) {
+    return null
+  }
+
+  const activeId = membership?.organization_id ?? organizations[0].organization_id
+  const active = organizations.find(organization => organization.organization_id === activeId) ?? organizations[0]
+  const canSwitch = organizations.length > 1
+
+  const handleSelect = async (organizationId: string) => {
+    if (organizationId === active.organization_id) {
+      setIsOpen(false)
+      return
+    }
+
+    setSwitchingTo(organizationId)
+    try {
+      await switchOrganization(organizationId)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Fout bij het wisselen van organisatie')
+      setSwitchingTo(null)
+    }
+  }
+
+  return (
+    <div className={`relative ${className}`}>
+      <button
+        id={buttonId}
+        className="flex items-center gap-2 max-w-[14rem] px-3 py-2 text-sm text-white/80 hover:text-white rounded-lg border border-white/10 transition-colors disabled:cursor-default"
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={!canSwitch}
+        aria-label="Organisatie wisselen"
+        aria-expanded={isOpen}
+        aria-haspopup="menu"
+      >
+        <Building2 className="h-4 w-4 flex-shrink-0" />
+        <span className="truncate">{active.name}</span>
+        {canSwitch && (
+          <ChevronDown className={`h-4 w-4 flex-shrink-0 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+        )}
+      </button>
+
+      {isOpen && (
+        <div
+          className="absolute right-0 mt-2 w-64 bg-black/90 backdrop-blur-sm border border-white/10 rounded-lg shadow-lg py-1 z-50"
+          role="menu"
+          aria-orientation="vertical"
+          aria-labelledby={buttonId}
+        >
+          <p className="px-4 py-2 text-xs uppercase tracking-wide text-white/50">Organisaties</p>
+          {organizations.map(organization => {
+            const isActive = organization.organization_id === active.organization_id
+            return (
+              <button
+                key={organization.organization_id}
+                className="flex w-full items-center justify-between gap-3 px-4 py-2 text-left text-sm text-white hover:bg-white/10 rounded disabled:opacity-50"
+                role="menuitem"
+                onClick={() => handleSelect(organization.organization_id)}
+                disabled={switchingTo !== null}
+              >
+                <span className="min-w-0">
+                  <span className="block truncate">{organization.name}</span>
+                  <span className="block text-xs text-white/50">{TEAM_ROLE_LABELS[organization.role]}</span>
+                </span>
+                {isActive && <Check className="h-4 w-4 flex-shrink-0 text-primary" />}
+                {switchingTo === organization.organization_id && (
+                  <span className="text-xs text-white/50">Wisselen...</span>
+                )}
+              </button>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
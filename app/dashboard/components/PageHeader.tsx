@@ -3,11 +3,14 @@ import { useTheme } from '../../../contexts/ThemeContext';
 import ExportButton from './ExportButton';
 import { Plus, Search, Filter, Download } from 'lucide-react';
 import { motion } from 'framer-motion';
+import type { ExportFilters, ExportResource } from '../../../types/api/export';
 
 interface PageHeaderProps {
   title: string;
   description: string;
   showExport?: boolean;
+  exportResource?: ExportResource;
+  exportFilters?: ExportFilters;
   showCreateButton?: boolean;
   createButtonText?: string;
   onCreateClick?: () => void;
@@ -23,6 +26,8 @@ export default function PageHeader({
   title,
   description,
   showExport = true,
+  exportResource,
+  exportFilters,
   showCreateButton = false,
   createButtonText = "Nieuw",
   onCreateClick,
@@ -71,7 +76,7 @@ export default function PageHeader({
           animate={{ opacity: 1, x: 0 }}
           transition={{ duration: 0.5, delay: 0.2 }}
         >
-          {showExport && <ExportButton />}
+          {showExport && exportResource && <ExportButton resource={exportResource} filters={exportFilters} />}
           {showCreateButton && (
             <motion.button
               onClick={onCreateClick}
@@ -3,7 +3,7 @@ import { useTheme } from '../../../contexts/ThemeContext';
 import { motion } from 'framer-motion';
 
 interface StatusBadgeProps {
-  status: 'active' | 'inactive' | 'pending' | 'completed' | 'cancelled' | 'draft' | 'sent' | 'accepted' | 'rejected' | 'paid' | 'unpaid' | 'overdue' | 'online' | 'offline' | 'away';
+  status: 'active' | 'inactive' | 'pending' | 'completed' | 'cancelled' | 'draft' | 'sent' | 'viewed' | 'expired' | 'accepted' | 'rejected' | 'paid' | 'unpaid' | 'overdue' | 'online' | 'offline' | 'away';
   size?: 'sm' | 'md' | 'lg';
   showDot?: boolean;
   className?: string;
@@ -52,6 +52,20 @@ export default function StatusBadge({
           textColor: isDark ? 'text-yellow-400' : 'text-yellow-700',
           dotColor: 'bg-yellow-500'
         };
+      case 'viewed':
+        return {
+          text: 'Bekeken',
+          bgColor: isDark ? 'bg-blue-500/20' : 'bg-blue-100',
+          textColor: isDark ? 'text-blue-400' : 'text-blue-700',
+          dotColor: 'bg-blue-500'
+        };
+      case 'expired':
+        return {
+          text: 'Verlopen',
+          bgColor: isDark ? 'bg-gray-500/20' : 'bg-gray-100',
+          textColor: isDark ? 'text-gray-400' : 'text-gray-700',
+          dotColor: 'bg-gray-500'
+        };
       case 'overdue':
         return {
           text: 'Vervallen',
@@ -6,6 +6,7 @@ import { useTheme  } from '../../../contexts/ThemeContext'
 import { Bell, Settings, User, LogOut, ChevronDown, Sun, Moon } from 'lucide-react'
 import { toast } from 'react-hot-toast'
 import { logger } from '@/lib/logger'
+import OrganizationSwitcher from './OrganizationSwitcher'
 
 // Mock auth function for now (replace with real auth later)
 const mockSignOut = () => {
@@ -123,6 +124,9 @@ export default function TopNav() {
         
             {/* Right side - Actions */}
             <div className="flex items-center gap-3">
+              {/* Actieve organisatie */}
+              <OrganizationSwitcher />
+
           {/* Notifications */}
               <button 
                 className="relative p-2 text-white/70 hover:text-white rounded-lg transition-colors"
@@ -248,6 +252,7 @@ export default function TopNav() {
           {isMobileMenuOpen && (
             <div className="border-t border-white/10 bg-black/90 backdrop-blur-sm">
               <div className="px-2 py-2 space-y-1 text-center">
+                <OrganizationSwitcher className="flex justify-center pb-2" />
                 <Link
                   href="/dashboard"
                   className="block px-3 py-2 rounded-md text-sm font-medium text-white hover:bg-white/10 w-full text-center"
@@ -0,0 +1,36 @@
+'use client'
+
+import React from 'react'
+import type { VatTotals } from '../../../lib/vat'
+
+interface VatSummaryProps {
+  totals: VatTotals
+  currency?: string
+}
+
+// Subtotaal, BTW per tarief en totaal onder de regels van een offerte- of factuurformulier
+export default function VatSummary({ totals, currency = 'EUR' }: VatSummaryProps) {
+  const format = (value: number) =>
+    new Intl.NumberFormat('nl-NL', { style: 'currency', currency }).format(value)
+
+  return (
+    <div className="ml-auto mt-4 w-full max-w-xs space-y-1 text-sm">
+      <div className="flex justify-between">
+        <span>Subtotaal</span>
+        <span>{format(totals.subtotal)}</span>
+      </div>
+      {totals.vatLines.map(line => (
+        <div key={line.rate} className="flex justify-between text-gray-500">
+          <span>
+            {line.rate === 'exempt' || line.rate === 'reverse_charge' ? line.label : `BTW ${line.label}`} over {format(line.base)}
+          </span>
+          <span>{format(line.vat)}</span>
+        </div>
+      ))}
+      <div className="flex justify-between pt-2 border-t border-gray-200 dark:border-gray-700 text-lg font-semibold">
+        <span>Totaal</span>
+        <span>{format(totals.total)}</span>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,239 @@
+"use client";
+import { useState } from "react";
+import { Mail, Phone, Pencil, Plus, Star, Trash2 } from "lucide-react";
+import { contactsApi, type ContactInput } from "../../../../lib/api-service";
+import { CONTACT_ROLES } from "../../../../lib/customer-contacts";
+import type { ContactRole, CustomerContact } from "../../../../types/api/customer";
+import { CONTACT_ROLE_LABELS } from "../status";
+
+interface ContactsSectionProps {
+  customerId: string;
+  contacts: CustomerContact[];
+  onChange: (contacts: CustomerContact[]) => void;
+  isDark: boolean;
+  // Zonder schrijfrechten is de lijst alleen-lezen
+  canEdit: boolean;
+}
+
+type ContactForm = { name: string; email: string; phone: string; job_title: string; roles: ContactRole[] };
+
+const EMPTY_FORM: ContactForm = { name: '', email: '', phone: '', job_title: '', roles: [] };
+
+// Primaire contactpersoon bovenaan, daarna op naam
+const sortContacts = (contacts: CustomerContact[]) =>
+  [...contacts].sort((a, b) => Number(b.is_primary) - Number(a.is_primary) || a.name.localeCompare(b.name));
+
+export default function ContactsSection({ customerId, contacts, onChange, isDark, canEdit }: ContactsSectionProps) {
+  // null: geen formulier, 'new': nieuwe contactpersoon, anders het id dat bewerkt wordt
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<ContactForm>(EMPTY_FORM);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const mutedClassName = isDark ? "text-gray-400" : "text-gray-600";
+  const textClassName = isDark ? "text-white" : "text-gray-900";
+  const inputClassName = `w-full px-3 py-2 rounded-xl border focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+    isDark ? "bg-white/10 border-white/20 text-white" : "bg-white border-gray-300 text-gray-900"
+  }`;
+
+  const startEditing = (contact: CustomerContact | null) => {
+    setForm(contact
+      ? { name: contact.name, email: contact.email || '', phone: contact.phone || '', job_title: contact.job_title || '', roles: contact.roles }
+      : EMPTY_FORM);
+    setEditingId(contact ? contact.id : 'new');
+  };
+
+  const toggleRole = (role: ContactRole) => {
+    setForm(prev => ({
+      ...prev,
+      roles: prev.roles.includes(role) ? prev.roles.filter(r => r !== role) : [...prev.roles, role],
+    }));
+  };
+
+  // Een nieuwe primaire contactpersoon maakt de vorige niet-primair, dus altijd opnieuw laden
+  const reload = async () => {
+    const result = await contactsApi.getAll(customerId);
+    if (result.success && result.data) {
+      onChange(result.data);
+    }
+  };
+
+  const save = async (contactId: string | null, changes: ContactInput) => {
+    setIsSaving(true);
+    const result = contactId
+      ? await contactsApi.update(customerId, contactId, changes)
+      : await contactsApi.create(customerId, changes);
+    setIsSaving(false);
+
+    if (!result.success || !result.data) {
+      alert(`Opslaan mislukt: ${result.error}`);
+      return false;
+    }
+
+    if (changes.is_primary || !contactId) {
+      await reload();
+    } else {
+      const updated = result.data;
+      onChange(sortContacts(contacts.map(contact => (contact.id === updated.id ? updated : contact))));
+    }
+    return true;
+  };
+
+  const handleSave = async () => {
+    if (await save(editingId === 'new' ? null : editingId, form)) {
+      setEditingId(null);
+    }
+  };
+
+  const handleDelete = async (contact: CustomerContact) => {
+    if (!window.confirm(`Weet je zeker dat je ${contact.name} wilt verwijderen?`)) {
+      return;
+    }
+
+    const result = await contactsApi.delete(customerId, contact.id);
+    if (!result.success) {
+      alert(`Verwijderen mislukt: ${result.error}`);
+      return;
+    }
+    onChange(contacts.filter(c => c.id !== contact.id));
+  };
+
+  const iconButtonClassName = `p-2 rounded-lg transition-colors ${isDark ? "hover:bg-white/10" : "hover:bg-gray-200"}`;
+
+  const renderForm = () => (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4">
+      {([
+        ['name', 'Naam'],
+        ['job_title', 'Functie'],
+        ['email', 'E-mail'],
+        ['phone', 'Telefoon'],
+      ] as [Exclude<keyof ContactForm, 'roles'>, string][]).map(([field, label]) => (
+        <div key={field}>
+          <label className={`block text-sm mb-1 ${mutedClassName}`}>{label}</label>
+          <input
+            value={form[field]}
+            onChange={(e) => setForm(prev => ({ ...prev, [field]: e.target.value }))}
+            className={inputClassName}
+          />
+        </div>
+      ))}
+      <div className="md:col-span-2">
+        <p className={`text-sm mb-1 ${mutedClassName}`}>Ontvangt</p>
+        <div className="flex flex-wrap gap-4">
+          {CONTACT_ROLES.map(role => (
+            <label key={role} className={`flex items-center gap-2 text-sm ${textClassName}`}>
+              <input type="checkbox" checked={form.roles.includes(role)} onChange={() => toggleRole(role)} />
+              {CONTACT_ROLE_LABELS[role]}
+            </label>
+          ))}
+        </div>
+      </div>
+      <div className="md:col-span-2 flex gap-2 justify-end">
+        <button
+          onClick={() => setEditingId(null)}
+          className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-lg transition-colors"
+        >
+          Annuleren
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={isSaving || !form.name.trim()}
+          className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors disabled:opacity-50"
+        >
+          {isSaving ? 'Opslaan...' : 'Opslaan'}
+        </button>
+      </div>
+    </div>
+  );
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-4">
+        <h2 className={`text-lg font-semibold ${textClassName}`}>Contactpersonen</h2>
+        {canEdit && editingId === null && (
+          <button
+            onClick={() => startEditing(null)}
+            className="inline-flex items-center gap-1 px-3 py-1.5 text-sm bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors"
+          >
+            <Plus className="h-4 w-4" /> Toevoegen
+          </button>
+        )}
+      </div>
+
+      {editingId === 'new' && renderForm()}
+
+      {contacts.length === 0 && editingId !== 'new' ? (
+        <p className={`text-sm ${mutedClassName}`}>
+          Nog geen contactpersonen. Offertes en facturen gaan naar het e-mailadres van de klant.
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {contacts.map(contact => (
+            <div key={contact.id} className={`p-3 rounded-xl ${isDark ? "bg-white/5" : "bg-gray-100/50"}`}>
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <p className={`font-medium flex items-center gap-2 ${textClassName}`}>
+                    {contact.name}
+                    {contact.is_primary && (
+                      <span className={`text-xs px-2 py-0.5 rounded-full ${isDark ? "bg-yellow-500/20 text-yellow-300" : "bg-yellow-100 text-yellow-700"}`}>
+                        Primair
+                      </span>
+                    )}
+                  </p>
+                  {contact.job_title && <p className={`text-xs ${mutedClassName}`}>{contact.job_title}</p>}
+                  <div className={`flex flex-wrap gap-3 mt-1 text-sm ${mutedClassName}`}>
+                    {contact.email && <span className="flex items-center gap-1"><Mail className="h-3 w-3" />{contact.email}</span>}
+                    {contact.phone && <span className="flex items-center gap-1"><Phone className="h-3 w-3" />{contact.phone}</span>}
+                  </div>
+                  {contact.roles.length > 0 && (
+                    <div className="flex flex-wrap gap-1 mt-2">
+                      {contact.roles.map(role => (
+                        <span
+                          key={role}
+                          className={`text-xs px-2 py-0.5 rounded-full ${isDark ? "bg-blue-500/20 text-blue-300" : "bg-blue-100 text-blue-700"}`}
+                        >
+                          {CONTACT_ROLE_LABELS[role]}
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                </div>
+                {canEdit && (
+                  <div className="flex items-center gap-1">
+                    {!contact.is_primary && (
+                      <button
+                        onClick={() => save(contact.id, { is_primary: true })}
+                        disabled={isSaving}
+                        className={iconButtonClassName}
+                        title="Maak primair"
+                        aria-label="Maak primair"
+                      >
+                        <Star className={`h-4 w-4 ${mutedClassName}`} />
+                      </button>
+                    )}
+                    <button
+                      onClick={() => startEditing(contact)}
+                      className={iconButtonClassName}
+                      title="Contactpersoon bewerken"
+                      aria-label="Contactpersoon bewerken"
+                    >
+                      <Pencil className={`h-4 w-4 ${mutedClassName}`} />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(contact)}
+                      className={iconButtonClassName}
+                      title="Contactpersoon verwijderen"
+                      aria-label="Contactpersoon verwijderen"
+                    >
+                      <Trash2 className="h-4 w-4 text-red-400" />
+                    </button>
+                  </div>
+                )}
+              </div>
+              {editingId === contact.id && renderForm()}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,356 @@
+"use client";
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { useParams, useRouter } from "next/navigation";
+import { ArrowLeft, Loader2, Mail, Phone, Building2, MapPin, Pencil, Trash2 } from "lucide-react";
+import { useTheme } from "../../../../contexts/ThemeContext";
+import StatusBadge from "../../components/StatusBadge";
+import { customersApi } from "../../../../lib/api-service";
+import { CUSTOMER_STATUSES } from "../../../../lib/customers";
+import type { CustomerOverview, CustomerStatus } from "../../../../types/api/customer";
+import { CUSTOMER_STATUS_LABELS, customerStatusClassName } from "../status";
+import { activityTitle } from "../../history/activity";
+import ContactsSection from "./ContactsSection";
+import { usePermission } from "../../../providers";
+
+const formatCurrency = (value: number, currency = 'EUR') =>
+  new Intl.NumberFormat('nl-NL', { style: 'currency', currency }).format(value);
+
+const formatDate = (value: string | null) =>
+  value ? new Date(value).toLocaleDateString('nl-NL', { day: 'numeric', month: 'short', year: 'numeric' }) : '–';
+
+type EditableFields = { name: string; email: string; phone: string; company: string; vat_number: string };
+
+export default function CustomerDetailPage() {
+  const { theme } = useTheme();
+  const isDark = theme === "dark";
+  const router = useRouter();
+  const params = useParams<{ id: string }>();
+  const [overview, setOverview] = useState<CustomerOverview | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isEditing, setIsEditing] = useState(false);
+  const [form, setForm] = useState<EditableFields>({ name: '', email: '', phone: '', company: '', vat_number: '' });
+  const [isSaving, setIsSaving] = useState(false);
+  const canWriteCustomers = usePermission('customers:write');
+  const canDeleteCustomers = usePermission('customers:delete');
+
+  const loadOverview = useCallback(async () => {
+    const result = await customersApi.getOverview(params.id);
+    if (result.success && result.data) {
+      setOverview(result.data);
+      setError(null);
+    } else {
+      setError(result.status === 404 ? 'Deze klant bestaat niet (meer)' : result.error || 'Klant kon niet worden geladen');
+    }
+    setIsLoading(false);
+  }, [params.id]);
+
+  useEffect(() => {
+    loadOverview();
+  }, [loadOverview]);
+
+  const startEditing = () => {
+    if (!overview) return;
+    const { customer } = overview;
+    setForm({
+      name: customer.name,
+      email: customer.email || '',
+      phone: customer.phone || '',
+      company: customer.company || '',
+      vat_number: customer.vat_number || '',
+    });
+    setIsEditing(true);
+  };
+
+  const saveCustomer = async (changes: Partial<EditableFields> | { status: CustomerStatus }) => {
+    setIsSaving(true);
+    const result = await customersApi.update(params.id, changes);
+    setIsSaving(false);
+
+    if (!result.success || !result.data) {
+      alert(`Opslaan mislukt: ${result.error}`);
+      return false;
+    }
+
+    setOverview(prev => (prev && result.data ? { ...prev, customer: { ...prev.customer, ...result.data } } : prev));
+    return true;
+  };
+
+  const handleSave = async () => {
+    if (await saveCustomer(form)) {
+      setIsEditing(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!overview) return;
+    if (!window.confirm(`Weet je zeker dat je ${overview.customer.name} wilt verwijderen? Offertes en facturen blijven bewaard.`)) {
+      return;
+    }
+
+    const result = await customersApi.delete(params.id);
+    if (!result.success) {
+      alert(`Verwijderen mislukt: ${result.error}`);
+      return;
+    }
+    router.push('/dashboard/contactpersoon');
+  };
+
+  const cardClassName = `backdrop-blur-xl rounded-2xl border p-6 ${
+    isDark ? "bg-white/10 border-white/20" : "bg-gray-50/90 border-gray-400/60 shadow-md"
+  }`;
+  const headingClassName = `text-lg font-semibold mb-4 ${isDark ? "text-white" : "text-gray-900"}`;
+  const mutedClassName = isDark ? "text-gray-400" : "text-gray-600";
+  const textClassName = isDark ? "text-white" : "text-gray-900";
+  const rowClassName = `flex items-center justify-between p-3 rounded-xl ${isDark ? "bg-white/5" : "bg-gray-100/50"}`;
+  const inputClassName = `w-full px-3 py-2 rounded-xl border focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+    isDark ? "bg-white/10 border-white/20 text-white" : "bg-white border-gray-300 text-gray-900"
+  }`;
+
+  if (isLoading) {
+    return (
+      <div className={`flex items-center justify-center py-16 ${mutedClassName}`}>
+        <Loader2 className="h-5 w-5 animate-spin mr-2" />
+        Klant laden...
+      </div>
+    );
+  }
+
+  if (error || !overview) {
+    return (
+      <div className="space-y-4">
+        <Link href="/dashboard/contactpersoon" className={`inline-flex items-center gap-2 text-sm ${mutedClassName}`}>
+          <ArrowLeft className="h-4 w-4" /> Terug naar contactpersonen
+        </Link>
+        <p className="text-red-400">{error}</p>
+      </div>
+    );
+  }
+
+  const { customer, contacts, summary, offers, invoices, payments, activity } = overview;
+  const address = customer.address
+    ? [customer.address.street, [customer.address.postal_code, customer.address.city].filter(Boolean).join(' '), customer.address.country]
+        .filter(Boolean)
+        .join(', ')
+    : '';
+
+  const summaryCards = [
+    { label: 'Levenslange waarde', value: formatCurrency(summary.lifetime_value) },
+    {
+      label: 'Openstaand saldo',
+      value: formatCurrency(summary.open_balance),
+      note: summary.overdue_balance > 0 ? `${formatCurrency(summary.overdue_balance)} vervallen` : undefined,
+    },
+    { label: 'Offertes', value: String(summary.offer_count), note: `${summary.accepted_offer_count} geaccepteerd` },
+    { label: 'Facturen', value: String(summary.invoice_count), note: `Laatste betaling ${formatDate(summary.last_payment_at)}` },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <Link href="/dashboard/contactpersoon" className={`inline-flex items-center gap-2 text-sm ${mutedClassName}`}>
+        <ArrowLeft className="h-4 w-4" /> Terug naar contactpersonen
+      </Link>
+
+      {/* Klantgegevens */}
+      <div className={cardClassName}>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h1 className={`text-2xl font-bold ${textClassName}`}>{customer.name}</h1>
+            {customer.company && <p className={mutedClassName}>{customer.company}</p>}
+            <p className={`text-xs mt-1 ${mutedClassName}`}>
+              Klant sinds {formatDate(customer.created_at)}{customer.source && ` • Bron: ${customer.source}`}
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <select
+              value={customer.status}
+              onChange={(e) => saveCustomer({ status: e.target.value as CustomerStatus })}
+              disabled={isSaving || !canWriteCustomers}
+              className={`text-sm px-3 py-1 rounded-full border-0 focus:outline-none ${customerStatusClassName(customer.status, isDark)}`}
+              aria-label="Status"
+            >
+              {CUSTOMER_STATUSES.map(status => (
+                <option key={status} value={status} className="bg-gray-900 text-white">
+                  {CUSTOMER_STATUS_LABELS[status]}
+                </option>
+              ))}
+            </select>
+            {canWriteCustomers && (
+              <button
+                onClick={startEditing}
+                className={`p-2 rounded-lg transition-colors ${isDark ? "hover:bg-white/10" : "hover:bg-gray-200"}`}
+                title="Gegevens bewerken"
+                aria-label="Gegevens bewerken"
+              >
+                <Pencil className={`h-4 w-4 ${mutedClassName}`} />
+              </button>
+            )}
+            {canDeleteCustomers && (
+              <button
+                onClick={handleDelete}
+                className={`p-2 rounded-lg transition-colors ${isDark ? "hover:bg-white/10" : "hover:bg-gray-200"}`}
+                title="Klant verwijderen"
+                aria-label="Klant verwijderen"
+              >
+                <Trash2 className="h-4 w-4 text-red-400" />
+              </button>
+            )}
+          </div>
+        </div>
+
+        {isEditing ? (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-6">
+            {([
+              ['name', 'Naam'],
+              ['company', 'Bedrijf'],
+              ['email', 'E-mail'],
+              ['phone', 'Telefoon'],
+              ['vat_number', 'Btw-nummer'],
+            ] as [keyof EditableFields, string][]).map(([field, label]) => (
+              <div key={field}>
+                <label className={`block text-sm mb-1 ${mutedClassName}`}>{label}</label>
+                <input
+                  value={form[field]}
+                  onChange={(e) => setForm(prev => ({ ...prev, [field]: e.target.value }))}
+                  className={inputClassName}
+                />
+              </div>
+            ))}
+            <div className="md:col-span-2 flex gap-2 justify-end">
+              <button
+                onClick={() => setIsEditing(false)}
+                className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-lg transition-colors"
+              >
+                Annuleren
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={isSaving || !form.name.trim()}
+                className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors disabled:opacity-50"
+              >
+                {isSaving ? 'Opslaan...' : 'Opslaan'}
+              </button>
+            </div>
+          </div>
+        ) : (
+          <div className={`grid grid-cols-1 md:grid-cols-2 gap-3 mt-6 text-sm ${textClassName}`}>
+            <p className="flex items-center gap-2"><Mail className={`h-4 w-4 ${mutedClassName}`} />{customer.email || '–'}</p>
+            <p className="flex items-center gap-2"><Phone className={`h-4 w-4 ${mutedClassName}`} />{customer.phone || '–'}</p>
+            <p className="flex items-center gap-2"><MapPin className={`h-4 w-4 ${mutedClassName}`} />{address || '–'}</p>
+            <p className="flex items-center gap-2"><Building2 className={`h-4 w-4 ${mutedClassName}`} />{customer.vat_number || 'Geen btw-nummer'}</p>
+          </div>
+        )}
+      </div>
+
+      {/* Contactpersonen */}
+      <div className={cardClassName}>
+        <ContactsSection
+          customerId={customer.id}
+          canEdit={canWriteCustomers}
+          contacts={contacts}
+          onChange={(updated) => setOverview(prev => (prev ? { ...prev, contacts: updated } : prev))}
+          isDark={isDark}
+        />
+      </div>
+
+      {/* Kerncijfers */}
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+        {summaryCards.map(card => (
+          <div key={card.label} className={cardClassName}>
+            <p className={`text-sm ${mutedClassName}`}>{card.label}</p>
+            <p className={`text-2xl font-bold ${textClassName}`}>{card.value}</p>
+            {card.note && <p className={`text-xs mt-1 ${mutedClassName}`}>{card.note}</p>}
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className={cardClassName}>
+          <h2 className={headingClassName}>Offertes</h2>
+          {offers.length === 0 ? (
+            <p className={`text-sm ${mutedClassName}`}>Nog geen offertes</p>
+          ) : (
+            <div className="space-y-2">
+              {offers.map(offer => (
+                <div key={offer.id} className={rowClassName}>
+                  <div>
+                    <p className={`font-medium ${textClassName}`}>{offer.title}</p>
+                    <p className={`text-xs ${mutedClassName}`}>{formatDate(offer.created_at)}</p>
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <span className={`text-sm ${textClassName}`}>{formatCurrency(Number(offer.total ?? offer.amount), offer.currency)}</span>
+                    <StatusBadge status={offer.status} size="sm" />
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className={cardClassName}>
+          <h2 className={headingClassName}>Facturen</h2>
+          {invoices.length === 0 ? (
+            <p className={`text-sm ${mutedClassName}`}>Nog geen facturen</p>
+          ) : (
+            <div className="space-y-2">
+              {invoices.map(invoice => (
+                <div key={invoice.id} className={rowClassName}>
+                  <div>
+                    <p className={`font-medium ${textClassName}`}>
+                      {invoice.invoice_type === 'credit_note' ? 'Creditnota' : 'Factuur'} {invoice.invoice_number ?? '(concept)'}
+                    </p>
+                    <p className={`text-xs ${mutedClassName}`}>Vervalt {formatDate(invoice.due_date)}</p>
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <span className={`text-sm ${textClassName}`}>{formatCurrency(Number(invoice.total ?? invoice.amount), invoice.currency)}</span>
+                    <StatusBadge status={invoice.status} size="sm" />
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className={cardClassName}>
+          <h2 className={headingClassName}>Betalingen</h2>
+          {payments.length === 0 ? (
+            <p className={`text-sm ${mutedClassName}`}>Nog geen betalingen ontvangen</p>
+          ) : (
+            <div className="space-y-2">
+              {payments.map(payment => (
+                <div key={payment.invoice_id} className={rowClassName}>
+                  <div>
+                    <p className={`font-medium ${textClassName}`}>
+                      {payment.refund ? 'Terugbetaling' : 'Betaling'} {payment.invoice_number}
+                    </p>
+                    <p className={`text-xs ${mutedClassName}`}>{formatDate(payment.paid_at)}</p>
+                  </div>
+                  <span className={payment.refund ? 'text-red-400' : 'text-green-500'}>
+                    {formatCurrency(payment.amount, payment.currency)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className={cardClassName}>
+          <h2 className={headingClassName}>Activiteit</h2>
+          {activity.length === 0 ? (
+            <p className={`text-sm ${mutedClassName}`}>Nog geen activiteit</p>
+          ) : (
+            <ul className="space-y-3">
+              {activity.map(item => (
+                <li key={item.id} className="flex items-center justify-between text-sm">
+                  <span className={textClassName}>{activityTitle(item.action)}</span>
+                  <span className={`text-xs ${mutedClassName}`}>{formatDate(item.created_at)}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
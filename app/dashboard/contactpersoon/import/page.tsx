@@ -0,0 +1,370 @@
+"use client";
+import { useState } from "react";
+import Link from "next/link";
+import { ArrowLeft, Download, Loader2, Upload } from "lucide-react";
+import { useTheme } from "../../../../contexts/ThemeContext";
+import {
+  CUSTOMER_IMPORT_FIELDS,
+  DUPLICATE_STRATEGIES,
+  toImportErrorReport,
+  type ColumnMapping,
+} from "../../../../lib/customer-import";
+import type {
+  CustomerImportAction,
+  CustomerImportError,
+  CustomerImportField,
+  CustomerImportRow,
+  CustomerImportSummary,
+  DuplicateStrategy,
+} from "../../../../types/api/customer";
+
+type Step = 'upload' | 'mapping' | 'preview' | 'done';
+
+const FIELD_LABELS: Record<CustomerImportField, string> = {
+  name: 'Naam',
+  email: 'E-mail',
+  phone: 'Telefoon',
+  company: 'Bedrijf',
+  vat_number: 'Btw-nummer',
+  status: 'Status',
+  source: 'Bron',
+  'address.street': 'Straat en huisnummer',
+  'address.postal_code': 'Postcode',
+  'address.city': 'Plaats',
+  'address.country': 'Land',
+};
+
+const STRATEGY_LABELS: Record<DuplicateStrategy, { label: string; description: string }> = {
+  skip: { label: 'Overslaan', description: 'Bestaande klanten blijven ongewijzigd' },
+  merge: { label: 'Samenvoegen', description: 'Alleen lege velden van bestaande klanten worden aangevuld' },
+  overwrite: { label: 'Overschrijven', description: 'Ingevulde velden uit het bestand vervangen de bestaande gegevens' },
+};
+
+const ACTION_LABELS: Record<CustomerImportAction, string> = {
+  create: 'Nieuw',
+  update: 'Bijwerken',
+  skip: 'Overslaan',
+  invalid: 'Fout',
+};
+
+const PREVIEW_LIMIT = 200;
+
+export default function CustomerImportPage() {
+  const { theme } = useTheme();
+  const isDark = theme === "dark";
+  const [step, setStep] = useState<Step>('upload');
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [rows, setRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping>([]);
+  const [strategy, setStrategy] = useState<DuplicateStrategy>('skip');
+  const [plan, setPlan] = useState<CustomerImportRow[]>([]);
+  const [summary, setSummary] = useState<CustomerImportSummary | null>(null);
+  const [errors, setErrors] = useState<CustomerImportError[]>([]);
+
+  const cardClassName = `backdrop-blur-xl rounded-2xl border p-6 ${
+    isDark ? "bg-white/10 border-white/20" : "bg-gray-50/90 border-gray-400/60 shadow-md"
+  }`;
+  const headingClassName = `text-lg font-semibold mb-4 ${isDark ? "text-white" : "text-gray-900"}`;
+  const mutedClassName = isDark ? "text-gray-400" : "text-gray-600";
+  const textClassName = isDark ? "text-white" : "text-gray-900";
+  const inputClassName = `w-full px-3 py-2 rounded-xl border focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+    isDark ? "bg-white/10 border-white/20 text-white" : "bg-white border-gray-300 text-gray-900"
+  }`;
+  const primaryButtonClassName = "px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors disabled:opacity-50";
+  const secondaryButtonClassName = "px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-lg transition-colors";
+
+  const handleFile = async (file: File) => {
+    setIsWorking(true);
+    setError(null);
+
+    const formData = new FormData();
+    formData.append('file', file);
+    const response = await fetch('/api/customers/import/parse', { method: 'POST', body: formData });
+    const body = await response.json().catch(() => ({}));
+    setIsWorking(false);
+
+    if (!response.ok) {
+      setError(body.error || 'Bestand kon niet worden gelezen');
+      return;
+    }
+
+    setFileName(file.name);
+    setHeaders(body.headers);
+    setRows(body.rows);
+    setMapping(body.mapping);
+    setStep('mapping');
+  };
+
+  // Zonder dry_run worden de rijen echt geïmporteerd
+  const submitImport = async (dryRun: boolean, selectedStrategy = strategy) => {
+    setIsWorking(true);
+    setError(null);
+
+    const response = await fetch('/api/customers/import', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ rows, mapping, strategy: selectedStrategy, dry_run: dryRun }),
+    });
+    const body = await response.json().catch(() => ({}));
+    setIsWorking(false);
+
+    if (!response.ok) {
+      setError(body.error || 'Importeren mislukt');
+      return;
+    }
+
+    setSummary(body.summary);
+    if (dryRun) {
+      setPlan(body.rows);
+      setStep('preview');
+    } else {
+      setErrors(body.errors);
+      setStep('done');
+    }
+  };
+
+  const changeStrategy = (value: DuplicateStrategy) => {
+    setStrategy(value);
+    submitImport(true, value);
+  };
+
+  const changeMapping = (index: number, value: string) => {
+    setMapping(prev => prev.map((field, i) => {
+      if (i === index) return (value || null) as CustomerImportField | null;
+      // Een veld hoort maar bij één kolom
+      return field === value ? null : field;
+    }));
+  };
+
+  const downloadErrorReport = () => {
+    const blob = new Blob([toImportErrorReport(errors)], { type: 'text/csv;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'klantimport-fouten.csv';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const actionClassName = (action: CustomerImportAction) => {
+    switch (action) {
+      case 'create':
+        return isDark ? 'bg-green-500/20 text-green-400' : 'bg-green-100 text-green-700';
+      case 'update':
+        return isDark ? 'bg-blue-500/20 text-blue-400' : 'bg-blue-100 text-blue-700';
+      case 'invalid':
+        return isDark ? 'bg-red-500/20 text-red-400' : 'bg-red-100 text-red-700';
+      default:
+        return isDark ? 'bg-gray-500/20 text-gray-400' : 'bg-gray-200 text-gray-600';
+    }
+  };
+
+  const rowNote = (row: CustomerImportRow) => {
+    if (row.error) return row.error;
+    if (row.action === 'update' && row.changes) {
+      return `${row.duplicate?.name}: ${Object.keys(row.changes).map(field => FIELD_LABELS[field as CustomerImportField] || field).join(', ')}`;
+    }
+    if (row.duplicate) return `Bestaat al als ${row.duplicate.name}`;
+    return '';
+  };
+
+  const isMapped = mapping.includes('name') || mapping.includes('company');
+
+  return (
+    <div className="space-y-6">
+      <Link href="/dashboard/contactpersoon" className={`inline-flex items-center gap-2 text-sm ${mutedClassName}`}>
+        <ArrowLeft className="h-4 w-4" /> Terug naar contactpersonen
+      </Link>
+
+      <div className={cardClassName}>
+        <h1 className={`text-2xl font-bold ${textClassName}`}>Klanten importeren</h1>
+        <p className={`mt-1 ${mutedClassName}`}>
+          Importeer klanten uit een CSV- of Excel-bestand (.xlsx). De eerste rij moet de kolomnamen bevatten.
+        </p>
+        <ol className={`flex flex-wrap gap-4 mt-4 text-sm ${mutedClassName}`}>
+          {(['upload', 'mapping', 'preview', 'done'] as Step[]).map((item, index) => (
+            <li key={item} className={item === step ? 'text-blue-500 font-medium' : ''}>
+              {index + 1}. {{ upload: 'Bestand', mapping: 'Kolommen koppelen', preview: 'Controleren', done: 'Resultaat' }[item]}
+            </li>
+          ))}
+        </ol>
+      </div>
+
+      {error && <p className="text-red-400">{error}</p>}
+
+      {step === 'upload' && (
+        <div className={cardClassName}>
+          <label
+            className={`flex flex-col items-center justify-center gap-3 p-10 rounded-xl border-2 border-dashed cursor-pointer ${
+              isDark ? "border-white/20 hover:bg-white/5" : "border-gray-300 hover:bg-gray-100"
+            }`}
+          >
+            {isWorking ? <Loader2 className={`h-8 w-8 animate-spin ${mutedClassName}`} /> : <Upload className={`h-8 w-8 ${mutedClassName}`} />}
+            <span className={textClassName}>{isWorking ? 'Bestand lezen...' : 'Kies een CSV- of XLSX-bestand'}</span>
+            <span className={`text-xs ${mutedClassName}`}>Maximaal 5 MB en 5000 rijen</span>
+            <input
+              type="file"
+              accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+              className="hidden"
+              disabled={isWorking}
+              onChange={(e) => e.target.files?.[0] && handleFile(e.target.files[0])}
+            />
+          </label>
+        </div>
+      )}
+
+      {step === 'mapping' && (
+        <div className={cardClassName}>
+          <h2 className={headingClassName}>Kolommen koppelen</h2>
+          <p className={`text-sm mb-4 ${mutedClassName}`}>
+            {fileName}: {rows.length} rijen. Koppel elke kolom aan een klantveld; naam of bedrijf is verplicht.
+          </p>
+          <div className="space-y-3">
+            {headers.map((header, index) => (
+              <div key={index} className="grid grid-cols-1 md:grid-cols-3 gap-3 items-center">
+                <div>
+                  <p className={`font-medium ${textClassName}`}>{header || `Kolom ${index + 1}`}</p>
+                  <p className={`text-xs truncate ${mutedClassName}`}>
+                    {rows.slice(0, 3).map(row => row[index]).filter(Boolean).join(', ') || 'Geen waarden'}
+                  </p>
+                </div>
+                <select
+                  value={mapping[index] || ''}
+                  onChange={(e) => changeMapping(index, e.target.value)}
+                  className={`md:col-span-2 ${inputClassName}`}
+                  aria-label={`Klantveld voor ${header}`}
+                >
+                  <option value="">Niet importeren</option>
+                  {CUSTOMER_IMPORT_FIELDS.map(field => (
+                    <option key={field} value={field}>{FIELD_LABELS[field]}</option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+          <div className="flex justify-end gap-2 mt-6">
+            <button onClick={() => setStep('upload')} className={secondaryButtonClassName}>Ander bestand</button>
+            <button onClick={() => submitImport(true)} disabled={isWorking || !isMapped} className={primaryButtonClassName}>
+              {isWorking ? 'Controleren...' : 'Controleren'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {step === 'preview' && summary && (
+        <>
+          <div className={cardClassName}>
+            <h2 className={headingClassName}>Bestaande klanten</h2>
+            <p className={`text-sm mb-4 ${mutedClassName}`}>
+              Rijen met hetzelfde e-mailadres of dezelfde bedrijfsnaam als een bestaande klant:
+            </p>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              {DUPLICATE_STRATEGIES.map(option => (
+                <label
+                  key={option}
+                  className={`p-3 rounded-xl border cursor-pointer ${
+                    strategy === option
+                      ? "border-blue-500 bg-blue-500/10"
+                      : isDark ? "border-white/20" : "border-gray-300"
+                  }`}
+                >
+                  <input
+                    type="radio"
+                    name="strategy"
+                    value={option}
+                    checked={strategy === option}
+                    onChange={() => changeStrategy(option)}
+                    disabled={isWorking}
+                    className="mr-2"
+                  />
+                  <span className={`font-medium ${textClassName}`}>{STRATEGY_LABELS[option].label}</span>
+                  <p className={`text-xs mt-1 ${mutedClassName}`}>{STRATEGY_LABELS[option].description}</p>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className={cardClassName}>
+            <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+              <h2 className={`text-lg font-semibold ${textClassName}`}>Controle</h2>
+              <p className={`text-sm ${mutedClassName}`}>
+                {summary.created} nieuw • {summary.updated} bijwerken • {summary.skipped} overslaan • {summary.failed} met fouten
+              </p>
+            </div>
+            <div className="overflow-x-auto max-h-[28rem] overflow-y-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className={`text-left ${mutedClassName}`}>
+                    <th className="p-2">Rij</th>
+                    <th className="p-2">Naam</th>
+                    <th className="p-2">E-mail</th>
+                    <th className="p-2">Bedrijf</th>
+                    <th className="p-2">Actie</th>
+                    <th className="p-2">Opmerking</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {plan.slice(0, PREVIEW_LIMIT).map(row => (
+                    <tr key={row.row} className={`border-t ${isDark ? "border-white/10" : "border-gray-200"} ${textClassName}`}>
+                      <td className="p-2">{row.row}</td>
+                      <td className="p-2">{String(row.values.name ?? '')}</td>
+                      <td className="p-2">{String(row.values.email ?? '')}</td>
+                      <td className="p-2">{String(row.values.company ?? '')}</td>
+                      <td className="p-2">
+                        <span className={`text-xs px-2 py-1 rounded-full ${actionClassName(row.action)}`}>{ACTION_LABELS[row.action]}</span>
+                      </td>
+                      <td className={`p-2 ${row.error ? 'text-red-400' : mutedClassName}`}>{rowNote(row)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {plan.length > PREVIEW_LIMIT && (
+                <p className={`text-xs mt-2 ${mutedClassName}`}>Eerste {PREVIEW_LIMIT} van {plan.length} rijen</p>
+              )}
+            </div>
+            <div className="flex justify-end gap-2 mt-6">
+              <button onClick={() => setStep('mapping')} className={secondaryButtonClassName}>Terug</button>
+              <button
+                onClick={() => submitImport(false)}
+                disabled={isWorking || summary.created + summary.updated === 0}
+                className={primaryButtonClassName}
+              >
+                {isWorking ? 'Importeren...' : `Importeer ${summary.created + summary.updated} klanten`}
+              </button>
+            </div>
+          </div>
+        </>
+      )}
+
+      {step === 'done' && summary && (
+        <div className={cardClassName}>
+          <h2 className={headingClassName}>Import voltooid</h2>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {[
+              ['Aangemaakt', summary.created],
+              ['Bijgewerkt', summary.updated],
+              ['Overgeslagen', summary.skipped],
+              ['Mislukt', summary.failed],
+            ].map(([label, value]) => (
+              <div key={label} className={`p-3 rounded-xl ${isDark ? "bg-white/5" : "bg-gray-100/50"}`}>
+                <p className={`text-sm ${mutedClassName}`}>{label}</p>
+                <p className={`text-2xl font-bold ${textClassName}`}>{value}</p>
+              </div>
+            ))}
+          </div>
+          <div className="flex justify-end gap-2 mt-6">
+            {errors.length > 0 && (
+              <button onClick={downloadErrorReport} className={`inline-flex items-center gap-2 ${secondaryButtonClassName}`}>
+                <Download className="h-4 w-4" /> Foutenrapport downloaden
+              </button>
+            )}
+            <Link href="/dashboard/contactpersoon" className={primaryButtonClassName}>Naar contactpersonen</Link>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
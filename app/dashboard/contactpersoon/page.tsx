@@ -1,65 +1,148 @@
 "use client";
-import DashboardCard from "../components/DashboardCard";
+import { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { ChevronRight, Loader2 } from "lucide-react";
+import PageHeader from "../components/PageHeader";
 import { useTheme } from "../../../contexts/ThemeContext";
+import { customersApi } from "../../../lib/api-service";
+import { Customer } from "../../../types/ui/dashboard";
+import { CUSTOMER_STATUS_LABELS, customerStatusClassName } from "./status";
+import { usePermission } from "../../providers";
+
+const STATUS_FILTERS: { value: Customer['status'] | 'all'; label: string }[] = [
+  { value: 'all', label: 'Alle' },
+  { value: 'lead', label: CUSTOMER_STATUS_LABELS.lead },
+  { value: 'customer', label: CUSTOMER_STATUS_LABELS.customer },
+  { value: 'vip', label: CUSTOMER_STATUS_LABELS.vip },
+  { value: 'inactive', label: CUSTOMER_STATUS_LABELS.inactive },
+];
 
 export default function ContactpersoonPage() {
   const { theme } = useTheme();
+  const isDark = theme === "dark";
+  const router = useRouter();
+  const canImport = usePermission('customers:write');
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [statusFilter, setStatusFilter] = useState<Customer['status'] | 'all'>('all');
+
+  useEffect(() => {
+    const fetchCustomers = async () => {
+      const result = await customersApi.getAll(true);
+      if (result.success) {
+        setCustomers(result.data || []);
+      } else {
+        setError(result.error || 'Klanten konden niet worden geladen');
+      }
+      setIsLoading(false);
+    };
+
+    fetchCustomers();
+  }, []);
+
+  const filteredCustomers = useMemo(() => {
+    const term = searchTerm.trim().toLowerCase();
+    return customers.filter(customer =>
+      (statusFilter === 'all' || customer.status === statusFilter) &&
+      (!term || [customer.name, customer.email, customer.company].some(value => value?.toLowerCase().includes(term)))
+    );
+  }, [customers, searchTerm, statusFilter]);
+
+  const monthStart = new Date(new Date().getFullYear(), new Date().getMonth(), 1).toISOString();
+  const stats = [
+    { label: 'Totaal klanten', value: customers.length },
+    { label: 'Nieuw deze maand', value: customers.filter(customer => customer.created_at >= monthStart).length },
+    { label: 'Actieve klanten', value: customers.filter(customer => customer.status === 'customer' || customer.status === 'vip').length },
+  ];
+
+  const cardClassName = `backdrop-blur-xl rounded-2xl border p-6 transition-all duration-300 ${
+    isDark ? "bg-white/10 border-white/20" : "bg-gray-50/90 border-gray-400/60 shadow-md"
+  }`;
 
   return (
     <div className="space-y-6">
-      <div>
-        <h1 className={`text-2xl font-bold mb-2 ${
-          theme === "dark" ? "text-white" : "text-gray-900"
-        }`}>Contactpersonen</h1>
-        <p className={`${
-          theme === "dark" ? "text-gray-400" : "text-gray-600"
-        }`}>Beheer je contactpersonen en klantgegevens</p>
-      </div>
-      
+      <PageHeader
+        title="Contactpersonen"
+        description="Beheer je klanten en hun gegevens"
+        exportResource="customers"
+        exportFilters={{ search: searchTerm, status: statusFilter === 'all' ? null : statusFilter }}
+        showCreateButton={canImport}
+        createButtonText="Importeren"
+        onCreateClick={() => router.push('/dashboard/contactpersoon/import')}
+        showSearch
+        searchPlaceholder="Zoek op naam, e-mail of bedrijf..."
+        onSearchChange={setSearchTerm}
+      />
+
       <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-        <DashboardCard title="Totaal Contacten" value={156} growth="12%" />
-        <DashboardCard title="Nieuwe Deze Maand" value={23} growth="8%" />
-        <DashboardCard title="Actieve Contacten" value={89} />
+        {stats.map(stat => (
+          <div key={stat.label} className={cardClassName}>
+            <p className={`text-sm ${isDark ? "text-gray-400" : "text-gray-600"}`}>{stat.label}</p>
+            <p className={`text-2xl font-bold ${isDark ? "text-white" : "text-gray-900"}`}>{stat.value}</p>
+          </div>
+        ))}
       </div>
-      
-      <div className={`backdrop-blur-xl rounded-2xl border p-6 transition-all duration-300 ${
-        theme === "dark"
-          ? "bg-white/10 border-white/20 hover:bg-white/15"
-          : "bg-gray-50/90 border-gray-400/60 hover:bg-gray-100/90 shadow-md"
-      }`}>
-        <h2 className={`text-lg font-semibold mb-4 ${
-          theme === "dark" ? "text-white" : "text-gray-900"
-        }`}>Recent Toegevoegde Contacten</h2>
-        <div className="space-y-3">
-          <div className={`flex items-center justify-between p-3 rounded-xl transition-colors ${
-            theme === "dark" ? "bg-white/5 hover:bg-white/10" : "bg-gray-100/50 hover:bg-gray-200/60"
-          }`}>
-            <div>
-              <p className={`font-medium ${
-                theme === "dark" ? "text-white" : "text-gray-900"
-              }`}>Jan de Vries</p>
-              <p className={`text-sm ${
-                theme === "dark" ? "text-gray-400" : "text-gray-600"
-              }`}>jan@example.com</p>
-            </div>
-            <span className={`text-xs ${
-              theme === "dark" ? "text-emerald-400" : "text-emerald-600"
-            }`}>2 dagen geleden</span>
+
+      <div className={cardClassName}>
+        <div className="flex flex-wrap gap-2 mb-4">
+          {STATUS_FILTERS.map(filter => (
+            <button
+              key={filter.value}
+              onClick={() => setStatusFilter(filter.value)}
+              className={`px-3 py-1 rounded-lg text-sm transition-colors ${
+                statusFilter === filter.value
+                  ? "bg-blue-600 text-white"
+                  : isDark ? "bg-white/5 text-gray-300 hover:bg-white/10" : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+              }`}
+            >
+              {filter.label}
+            </button>
+          ))}
+        </div>
+
+        {isLoading ? (
+          <div className={`flex items-center justify-center py-8 ${isDark ? "text-gray-400" : "text-gray-600"}`}>
+            <Loader2 className="h-5 w-5 animate-spin mr-2" />
+            Klanten laden...
           </div>
-          <div className={`flex items-center justify-between p-3 rounded-xl transition-colors ${
-            theme === "dark" ? "bg-white/5 hover:bg-white/10" : "bg-gray-100/50 hover:bg-gray-200/60"
-          }`}>
-            <div>
-              <p className={`font-medium ${
-                theme === "dark" ? "text-white" : "text-gray-900"
-              }`}>Maria Jansen</p>
-              <p className={`text-sm ${
-                theme === "dark" ? "text-gray-400" : "text-gray-600"
-              }`}>maria@example.com</p>
-            </div>
-            <span className="text-xs text-emerald-400">5 dagen geleden</span>
+        ) : error ? (
+          <p className="text-red-400 py-8 text-center">{error}</p>
+        ) : filteredCustomers.length === 0 ? (
+          <p className={`py-8 text-center ${isDark ? "text-gray-400" : "text-gray-600"}`}>Geen klanten gevonden</p>
+        ) : (
+          <div className="space-y-3">
+            {filteredCustomers.map(customer => (
+              <Link
+                key={customer.id}
+                href={`/dashboard/contactpersoon/${customer.id}`}
+                className={`flex items-center justify-between p-3 rounded-xl transition-colors ${
+                  isDark ? "bg-white/5 hover:bg-white/10" : "bg-gray-100/50 hover:bg-gray-200/60"
+                }`}
+              >
+                <div>
+                  <p className={`font-medium ${isDark ? "text-white" : "text-gray-900"}`}>
+                    {customer.name}
+                    {customer.company && (
+                      <span className={`ml-2 text-sm font-normal ${isDark ? "text-gray-400" : "text-gray-600"}`}>
+                        {customer.company}
+                      </span>
+                    )}
+                  </p>
+                  <p className={`text-sm ${isDark ? "text-gray-400" : "text-gray-600"}`}>{customer.email || 'Geen e-mailadres'}</p>
+                </div>
+                <div className="flex items-center gap-3">
+                  <span className={`text-xs px-2 py-1 rounded-full ${customerStatusClassName(customer.status, isDark)}`}>
+                    {CUSTOMER_STATUS_LABELS[customer.status]}
+                  </span>
+                  <ChevronRight className={`h-4 w-4 ${isDark ? "text-gray-500" : "text-gray-400"}`} />
+                </div>
+              </Link>
+            ))}
           </div>
-        </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,29 @@
+// Weergave van de klantstatus en contactrollen, gedeeld door het klantenoverzicht en de klantpagina
+
+import type { ContactRole, CustomerStatus } from "../../../types/api/customer";
+
+export const CUSTOMER_STATUS_LABELS: Record<CustomerStatus, string> = {
+  lead: 'Lead',
+  customer: 'Klant',
+  vip: 'VIP',
+  inactive: 'Inactief',
+};
+
+export const customerStatusClassName = (status: CustomerStatus, isDark: boolean): string => {
+  switch (status) {
+    case 'vip':
+      return isDark ? 'bg-purple-500/20 text-purple-300' : 'bg-purple-100 text-purple-700';
+    case 'customer':
+      return isDark ? 'bg-green-500/20 text-green-400' : 'bg-green-100 text-green-700';
+    case 'inactive':
+      return isDark ? 'bg-gray-500/20 text-gray-400' : 'bg-gray-200 text-gray-600';
+    default:
+      return isDark ? 'bg-blue-500/20 text-blue-400' : 'bg-blue-100 text-blue-700';
+  }
+};
+
+export const CONTACT_ROLE_LABELS: Record<ContactRole, string> = {
+  quotes: 'Offertes',
+  billing: 'Facturatie',
+  technical: 'Technisch',
+};
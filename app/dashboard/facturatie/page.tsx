@@ -6,8 +6,10 @@ import PageHeader from "../components/PageHeader";
 import { logger } from '../../../utils/helpers/logger';
 import { mockInvoices, getInvoicesStats } from "../../../lib/mockData/invoicesData";
 import { FileText, Euro, CheckCircle, Clock, AlertTriangle, Send } from 'lucide-react';
-import { useAuth } from '../../../app/providers';
+import { useAuth, usePermission } from '../../../app/providers';
 import { Invoice } from '../../../types/ui/dashboard';
+import { exportsApi } from '../../../lib/api-service';
+import { toast } from 'react-hot-toast';
 
 // Lazy load heavy components
 const DataTable = lazy(() => import("../components/DataTable"));
@@ -22,6 +24,9 @@ export const dynamic = 'force-dynamic';
 export default function FacturatiePage() {
   const { theme } = useTheme();
   const { user } = useAuth();
+  const canWriteInvoices = usePermission('invoices:write');
+  const canSendInvoices = usePermission('invoices:send');
+  const canDeleteInvoices = usePermission('invoices:delete');
   const [invoices, setInvoices] = useState<Invoice[]>([]);
   const [selectedInvoice, setSelectedInvoice] = useState<Invoice | null>(null);
   const [isDetailsModalOpen, setIsDetailsModalOpen] = useState(false);
@@ -85,6 +90,11 @@ export default function FacturatiePage() {
 
     const response = await fetch(`/api/invoices/${invoiceId}`, { method: 'DELETE' });
 
+    // Verzonden facturen houden hun nummer en worden gecrediteerd in plaats van verwijderd
+    if (response.status === 409) {
+      toast.error('Alleen conceptfacturen zonder factuurnummer kunnen worden verwijderd. Maak een creditnota aan.', { duration: 4000 });
+      return;
+    }
     if (!response.ok) throw new Error('Failed to delete invoice');
     refreshInvoices();
     setIsDetailsModalOpen(false);
@@ -144,8 +154,8 @@ export default function FacturatiePage() {
 
   const bulkActions = [
     { label: 'Exporteer geselecteerde', action: 'export', icon: <FileText className="w-4 h-4" /> },
-    { label: 'Verstuur herinnering', action: 'remind', icon: <Send className="w-4 h-4" /> },
-    { label: 'Markeer als betaald', action: 'markPaid', icon: <CheckCircle className="w-4 h-4" /> }
+    ...(canSendInvoices ? [{ label: 'Verstuur herinnering', action: 'remind', icon: <Send className="w-4 h-4" /> }] : []),
+    ...(canWriteInvoices ? [{ label: 'Markeer als betaald', action: 'markPaid', icon: <CheckCircle className="w-4 h-4" /> }] : [])
   ];
 
   const handleRowClick = (invoice: any) => {
@@ -153,7 +163,17 @@ export default function FacturatiePage() {
     setIsDetailsModalOpen(true);
   };
 
-  const handleBulkAction = (action: string, selectedRows: any[]) => {
+  const handleBulkAction = async (action: string, selectedRows: any[]) => {
+    if (action === 'export') {
+      const result = await exportsApi.download({
+        resource: 'invoices',
+        format: 'csv',
+        ids: selectedRows.map(row => row.id),
+        include_items: true,
+      });
+      if (!result.success) toast.error(result.error || 'Export mislukt', { duration: 4000 });
+      return;
+    }
     console.log(`Bulk action: ${action}`, { selectedRows });
     // Implement bulk actions
   };
@@ -193,12 +213,14 @@ export default function FacturatiePage() {
       <PageHeader
         title="Facturatie"
         description="Beheer je facturen en betalingen"
-        showCreateButton={true}
+        showCreateButton={canWriteInvoices}
         createButtonText="Nieuwe Factuur"
         onCreateClick={handleCreateInvoice}
         showSearch={true}
         searchPlaceholder="Zoek facturen..."
         onSearchChange={setSearchTerm}
+        exportResource="invoices"
+        exportFilters={{ search: searchTerm }}
         showFilters={true}
         onFilterClick={() => logger.info('Filter clicked', 'facturatie')}
       />
@@ -288,10 +310,10 @@ export default function FacturatiePage() {
             setSelectedInvoice(null);
           }}
           invoice={selectedInvoice}
-          onEdit={handleEditInvoice}
-          onSend={(invoice) => logger.info('Send invoice', 'facturatie', { invoice })}
+          onEdit={canWriteInvoices ? handleEditInvoice : undefined}
+          onSend={canSendInvoices ? (invoice) => logger.info('Send invoice', 'facturatie', { invoice }) : undefined}
           onDownload={(invoice) => logger.info('Download invoice', 'facturatie', { invoice })}
-          onDelete={() => selectedInvoice && handleDeleteInvoice(selectedInvoice.id)}
+          onDelete={canDeleteInvoices ? () => selectedInvoice && handleDeleteInvoice(selectedInvoice.id) : undefined}
         />
       </Suspense>
 
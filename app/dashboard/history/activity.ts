@@ -0,0 +1,177 @@
+// Weergave van het activity log (lib/activity.ts), gedeeld door de geschiedenis, het
+// activiteitenoverzicht op het dashboard, de teampagina en de klantpagina
+
+import {
+  Building2,
+  FileText,
+  KeyRound,
+  Mail,
+  Receipt,
+  User,
+  Users,
+  Webhook,
+  type LucideIcon,
+} from "lucide-react";
+import type { ActivityLogEntry, ActivityResourceType } from "../../../types/api/activity";
+import type { TeamRole } from "../../../lib/auth/organization";
+import { TEAM_ROLE_LABELS } from "../team/roles";
+import { logActivity } from '@/lib/activity';
+
+export type ActivityTone = 'success' | 'warning' | 'error' | 'info';
+
+export const ACTIVITY_RESOURCE_LABELS: Record<ActivityResourceType, string> = {
+  customer: 'Klanten',
+  offer: 'Offertes',
+  invoice: 'Facturen',
+  team_member: 'Teamleden',
+  team_invitation: 'Uitnodigingen',
+  api_key: 'API-sleutels',
+  webhook_endpoint: 'Webhooks',
+  organization: 'Organisatie',
+};
+
+export const ACTIVITY_RESOURCE_ICONS: Record<ActivityResourceType, LucideIcon> = {
+  customer: User,
+  offer: FileText,
+  invoice: Receipt,
+  team_member: Users,
+  team_invitation: Mail,
+  api_key: KeyRound,
+  webhook_endpoint: Webhook,
+  organization: Building2,
+};
+
+const OFFER_STATUS_LABELS: Record<string, string> = {
+  sent: 'verzonden',
+  viewed: 'bekeken',
+  accepted: 'geaccepteerd',
+  rejected: 'afgewezen',
+  expired: 'verlopen',
+  draft: 'terug naar concept',
+};
+
+const INVOICE_STATUS_LABELS: Record<string, string> = {
+  sent: 'verzonden',
+  paid: 'betaald',
+  overdue: 'vervallen',
+  cancelled: 'geannuleerd',
+  draft: 'terug naar concept',
+};
+
+const SETTINGS_LABELS: Record<string, string> = {
+  invoicing: 'Factuurinstellingen bijgewerkt',
+  email: 'E-mailinstellingen bijgewerkt',
+  whatsapp: 'WhatsApp-instellingen bijgewerkt',
+};
+
+const ACTION_LABELS: Record<string, string> = {
+  customer_created: 'Klant aangemaakt',
+  customer_updated: 'Klant bijgewerkt',
+  customer_deleted: 'Klant verwijderd',
+  customers_imported: 'Klanten geïmporteerd',
+  contact_created: 'Contactpersoon toegevoegd',
+  contact_updated: 'Contactpersoon bijgewerkt',
+  contact_deleted: 'Contactpersoon verwijderd',
+  offer_created: 'Offerte aangemaakt',
+  offer_updated: 'Offerte bijgewerkt',
+  offer_deleted: 'Offerte verwijderd',
+  offer_sent: 'Offerte verzonden',
+  invoice_created: 'Factuur aangemaakt',
+  invoice_updated: 'Factuur bijgewerkt',
+  invoice_deleted: 'Factuur verwijderd',
+  invoice_sent: 'Factuur verzonden',
+  credit_note_created: 'Creditnota aangemaakt',
+  invoice_reminder_sent: 'Betalingsherinnering verstuurd',
+  invoice_reminders_stopped: 'Betalingsherinneringen gestopt',
+  team_member_invited: 'Teamlid uitgenodigd',
+  team_invitation_revoked: 'Uitnodiging ingetrokken',
+  team_invitation_accepted: 'Uitnodiging geaccepteerd',
+  team_member_removed: 'Teamlid verwijderd',
+  api_key_created: 'API-sleutel aangemaakt',
+  api_key_revoked: 'API-sleutel ingetrokken',
+  webhook_endpoint_created: 'Webhook toegevoegd',
+  webhook_endpoint_updated: 'Webhook bijgewerkt',
+  webhook_endpoint_deleted: 'Webhook verwijderd',
+  webhook_delivery_redelivered: 'Webhook opnieuw verstuurd',
+  organization_created: 'Organisatie aangemaakt',
+  subscription_updated: 'Abonnement bijgewerkt',
+};
+
+const text = (value: unknown): string | null => (typeof value === 'string' && value.trim() ? value : null);
+
+// Leesbare titel van een actie: "offer_status_changed:accepted" -> "Offerte geaccepteerd"
+export function activityTitle(action: string): string {
+  const [verb, detail] = action.split(':');
+  switch (verb) {
+    case 'offer_status_changed':
+      return `Offerte ${OFFER_STATUS_LABELS[detail] || detail}`;
+    case 'invoice_status_changed':
+      return `Factuur ${INVOICE_STATUS_LABELS[detail] || detail}`;
+    case 'settings_updated':
+      return SETTINGS_LABELS[detail] || 'Instellingen bijgewerkt';
+    default:
+      return ACTION_LABELS[verb] || action.replace(/_/g, ' ');
+  }
+}
+
+// Waar de actie over ging, uit de metadata die de API routes meeschrijven
+export function activityDescription(entry: Pick<ActivityLogEntry, 'action' | 'metadata'>): string | null {
+  const metadata = entry.metadata ?? {};
+
+  if (entry.action === 'customers_imported') {
+    return `${Number(metadata.created) || 0} nieuw, ${Number(metadata.updated) || 0} bijgewerkt, ${Number(metadata.skipped) || 0} overgeslagen`;
+  }
+
+  const subject = [text(metadata.invoice_number), text(metadata.title)].filter(Boolean).join(' · ')
+    || text(metadata.name)
+    || text(metadata.email)
+    || text(metadata.url)
+    || text(metadata.plan);
+  const role = text(metadata.role);
+  const roleLabel = role && role in TEAM_ROLE_LABELS ? TEAM_ROLE_LABELS[role as TeamRole] : null;
+
+  if (subject && roleLabel) return `${subject} (${roleLabel})`;
+  return subject || roleLabel;
+}
+
+// Wie het deed: een teamlid, de klant via de offerteportal, of het systeem (webhooks en taken)
+export function activityActor(entry: Pick<ActivityLogEntry, 'user' | 'metadata'>): string {
+  const signer = text(entry.metadata?.signer_name);
+  const name = entry.user?.full_name || entry.user?.email;
+
+  if (name) return entry.metadata?.api_key_id ? `${name} via API` : name;
+  if (signer) return `${signer} (klant)`;
+  return 'Systeem';
+}
+
+export function activityTone(action: string): ActivityTone {
+  const [verb, detail] = action.split(':');
+
+  if (['rejected', 'expired', 'overdue', 'cancelled'].includes(detail) || /_(deleted|revoked|removed)$/.test(verb)) {
+    return 'error';
+  }
+  if (verb === 'invoice_reminder_sent' || verb === 'invoice_reminders_stopped') {
+    return 'warning';
+  }
+  if (['accepted', 'paid'].includes(detail) || /_(created|imported|invited|accepted)$/.test(verb)) {
+    return 'success';
+  }
+  return 'info';
+}
+
+// "5 min geleden", "3 uur geleden"; ouder dan een week als datum
+export function formatActivityTime(createdAt: string): string {
+  const date = new Date(createdAt);
+  const diffInMinutes = Math.floor((Date.now() - date.getTime()) / (1000 * 60));
+
+  if (diffInMinutes < 1) return 'Net nu';
+  if (diffInMinutes < 60) return `${diffInMinutes} min geleden`;
+
+  const diffInHours = Math.floor(diffInMinutes / 60);
+  if (diffInHours < 24) return `${diffInHours} uur geleden`;
+
+  const diffInDays = Math.floor(diffInHours / 24);
+  if (diffInDays < 7) return `${diffInDays} dag${diffInDays > 1 ? 'en' : ''} geleden`;
+
+  return date.toLocaleDateString('nl-NL', { day: 'numeric', month: 'short', year: 'numeric' });
+}
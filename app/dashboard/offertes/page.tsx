@@ -3,11 +3,17 @@ import { useState, useEffect, lazy, Suspense, useMemo, useCallback } from 'react
 import { useTheme  } from '../../../contexts/ThemeContext';
 import { getPersonalizedTemplates  } from '../../../lib/ai';
 import DashboardCard from "../components/DashboardCard";
+import ListExportButton from "../components/ExportButton";
 import { logger } from '../../../utils/helpers/logger';
-import { mockOffers, getOffersStats  } from '../../../lib/mockData/offersData';
+import { getOffersStats } from '../../../lib/mockData/offersData';
+import { exportsApi, offersApi } from '../../../lib/api-service';
+import { usePermission } from '../../providers';
+import type { Offer, OfferInput, OfferRevision, OfferStatus } from '../../../types/api/offer';
+import type { OfferInvoiceRequest } from '../../../types/api/invoice';
+import type { ExportFormat } from '../../../types/api/export';
 import { 
   FileText, Euro, Target, Clock, Users, Zap, Download, Filter, Search, 
-  Plus, ChevronDown, ExternalLink, Loader2, BarChart3, TrendingUp 
+  Plus, ChevronDown, ExternalLink, Loader2, BarChart3, TrendingUp, Copy, Receipt 
 } from 'lucide-react';
 import Link from "next/link";
 import { motion, AnimatePresence } from "framer-motion";
@@ -18,6 +24,7 @@ const DataTable = lazy(() => import("../components/DataTable"));
 const OfferStatusChart = lazy(() => import("../components/OfferStatusChart"));
 const OfferTimelineChart = lazy(() => import("../components/OfferTimelineChart"));
 const OfferDetailsModal = lazy(() => import("../components/OfferDetailsModal"));
+const OfferForm = lazy(() => import("../components/OfferForm"));
 
 // Page Header Component
 const PageHeader = ({ 
@@ -236,9 +243,14 @@ export default function OffertesPage() {
   // Use mock data for static generation
   const onboardingData = null;
   
-  const [offers, setOffers] = useState(mockOffers);
-  const [selectedOffer, setSelectedOffer] = useState(null);
+  const canWriteOffers = usePermission('offers:write');
+  const canSendOffers = usePermission('offers:send');
+  const canWriteInvoices = usePermission('invoices:write');
+  const [offers, setOffers] = useState<Offer[]>([]);
+  const [selectedOffer, setSelectedOffer] = useState<Offer | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingOffer, setEditingOffer] = useState<Offer | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [isLoading, setIsLoading] = useState(true);
   const [filtersOpen, setFiltersOpen] = useState(false);
@@ -247,19 +259,26 @@ export default function OffertesPage() {
   const [currentPage, setCurrentPage] = useState(1);
   const [sortConfig, setSortConfig] = useState<{ key: string | null, direction: 'asc' | 'desc' }>({ key: null, direction: 'asc' });
 
-  const stats = useMemo(() => getOffersStats(), []);
+  const stats = useMemo(() => getOffersStats(offers), [offers]);
   const personalizedTemplates = useMemo(() => 
     onboardingData ? getPersonalizedTemplates(onboardingData) : [], 
   [onboardingData]);
   
-  // Simulate loading with better UX
-  useEffect(() => {
-    const timer = setTimeout(() => {
-      setIsLoading(false);
-    }, 800);
-    return () => clearTimeout(timer);
+  const loadOffers = useCallback(async (skipCache = false) => {
+    const result = await offersApi.getAll(skipCache);
+    if (result.success) {
+      setOffers(result.data || []);
+    } else {
+      toast.error(result.error || 'Offertes laden mislukt', { duration: 4000 });
+      logger.error('Failed to load offers', 'offertes', { error: result.error });
+    }
+    setIsLoading(false);
   }, []);
 
+  useEffect(() => {
+    loadOffers();
+  }, [loadOffers]);
+
   // Debounced search
   const debouncedSearch = useCallback(() => {
     const handler = setTimeout(() => {
@@ -280,7 +299,7 @@ export default function OffertesPage() {
     if (searchTerm) {
       filtered = filtered.filter(offer =>
     offer.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    offer.client.toLowerCase().includes(searchTerm.toLowerCase()) ||
+    offer.client_name.toLowerCase().includes(searchTerm.toLowerCase()) ||
         offer.id.toString().includes(searchTerm)
       );
     }
@@ -294,7 +313,7 @@ export default function OffertesPage() {
         if (sortConfig.key === 'amount') {
           aValue = parseFloat(aValue);
           bValue = parseFloat(bValue);
-        } else if (sortConfig.key && sortConfig.key.includes('Date')) {
+        } else if (sortConfig.key && (sortConfig.key.endsWith('_date') || sortConfig.key.endsWith('_at'))) {
           aValue = new Date(aValue);
           bValue = new Date(bValue);
         }
@@ -321,7 +340,7 @@ export default function OffertesPage() {
       label: 'ID',
       sortable: true,
       width: '80px',
-      render: (value: any) => <span className="font-mono text-sm">#{value}</span>
+      render: (value: any) => <span className="font-mono text-sm">#{String(value).slice(0, 8)}</span>
     },
     {
       key: 'title',
@@ -330,7 +349,7 @@ export default function OffertesPage() {
       render: (value: any, row: any) => (
         <div className="space-y-1">
           <span className="font-medium line-clamp-1">{value}</span>
-          <span className="text-sm text-muted-foreground">{row.client}</span>
+          <span className="text-sm text-muted-foreground">{row.client_name}</span>
         </div>
       )
     },
@@ -353,6 +372,7 @@ export default function OffertesPage() {
         const statusConfig = {
           draft: { label: 'Concept', color: 'gray' },
           sent: { label: 'Verzonden', color: 'blue' },
+          viewed: { label: 'Bekeken', color: 'blue' },
           accepted: { label: 'Geaccepteerd', color: 'green' },
           expired: { label: 'Verlopen', color: 'red' },
           rejected: { label: 'Afgewezen', color: 'orange' }
@@ -368,7 +388,7 @@ export default function OffertesPage() {
       }
     },
     {
-      key: 'createdDate',
+      key: 'created_at',
       label: 'Aangemaakt',
       sortable: true,
       render: (value: any) => {
@@ -381,10 +401,11 @@ export default function OffertesPage() {
       }
     },
     {
-      key: 'dueDate',
+      key: 'due_date',
       label: 'Vervaldatum',
       sortable: true,
       render: (value: any) => {
+        if (!value) return <span className="text-sm text-muted-foreground">-</span>;
         const date = new Date(value);
         const today = new Date();
         const isOverdue = date < today;
@@ -408,8 +429,34 @@ export default function OffertesPage() {
   const handleExport = async (format: string) => {
     setIsExporting(true);
     try {
-      // Simulate export
-      await new Promise(resolve => setTimeout(resolve, 2000));
+      if (format === 'pdf') {
+        // Eén PDF per geselecteerde offerte, gegenereerd en opgeslagen op de server
+        if (selectedRows.length === 0) {
+          toast.error('Selecteer eerst de offertes die je als PDF wilt exporteren', { duration: 4000 });
+          return;
+        }
+        const results = await Promise.all(selectedRows.map((row: Offer) => offersApi.generatePdf(row.id)));
+        results.forEach(result => result.data && window.open(result.data, '_blank'));
+        const failed = results.filter(result => !result.success).length;
+        if (failed > 0) {
+          toast.error(`${failed} PDF('s) konden niet worden gegenereerd`, { duration: 4000 });
+          return;
+        }
+      } else {
+        // De selectie, of anders alle offertes die aan de zoekterm voldoen, in de volgorde van de tabel
+        const result = await exportsApi.download({
+          resource: 'offers',
+          format: format as ExportFormat,
+          ids: selectedRows.length > 0 ? selectedRows.map((row: Offer) => row.id) : null,
+          search: searchTerm,
+          sort: sortConfig.key ? { key: sortConfig.key, direction: sortConfig.direction } : null,
+          include_items: true,
+        });
+        if (!result.success) {
+          toast.error(result.error || 'Export mislukt', { duration: 4000 });
+          return;
+        }
+      }
       toast.success(`${format.toUpperCase()} export voltooid!`, { duration: 3000 });
       logger.info(`Export completed: ${format}`, 'offertes', { count: selectedRows.length || filteredOffers.length });
     } catch (error) {
@@ -420,14 +467,127 @@ export default function OffertesPage() {
   };
 
   const handleCreateOffer = () => {
-    toast.success('Nieuwe offerte aangemaakt!', { duration: 3000 });
-    logger.info('Create new offer', 'offertes');
-    // Navigate to offer editor
+    setEditingOffer(null);
+    setIsFormOpen(true);
+  };
+
+  const handleEditOffer = (offer: Offer) => {
+    setEditingOffer(offer);
+    setIsModalOpen(false);
+    setIsFormOpen(true);
+  };
+
+  const handleSaveOffer = async (offerData: OfferInput) => {
+    const result = editingOffer
+      ? await offersApi.update(editingOffer.id, offerData)
+      : await offersApi.create(offerData);
+
+    if (!result.success) {
+      throw new Error(result.error || 'Opslaan mislukt');
+    }
+
+    toast.success(editingOffer ? 'Offerte bijgewerkt' : 'Nieuwe offerte aangemaakt!', { duration: 3000 });
+    logger.info(editingOffer ? 'Offer updated' : 'Offer created', 'offertes', { id: result.data?.id });
+    await loadOffers(true);
+  };
+
+  const handleDuplicateOffer = async (offer: Offer) => {
+    const result = await offersApi.duplicate(offer);
+    if (!result.success) {
+      toast.error(result.error || 'Dupliceren mislukt', { duration: 4000 });
+      return;
+    }
+
+    toast.success('Offerte gedupliceerd', { duration: 3000 });
+    setIsModalOpen(false);
+    await loadOffers(true);
+  };
+
+  const handleRestoreRevision = async (revision: OfferRevision) => {
+    const result = await offersApi.restoreRevision(revision);
+    if (!result.success) {
+      toast.error(result.error || 'Herstellen mislukt', { duration: 4000 });
+      return;
+    }
+
+    toast.success(`Versie ${revision.version} hersteld als nieuw concept`, { duration: 3000 });
+    setIsModalOpen(false);
+    await loadOffers(true);
+  };
+
+  const handleSendOffer = async (offer: Offer) => {
+    const result = await offersApi.send(offer.id);
+    if (!result.success) {
+      toast.error(result.error || 'Versturen mislukt', { duration: 4000 });
+      return;
+    }
+
+    toast.success('Offerte verstuurd met PDF-bijlage', { duration: 3000 });
+    setIsModalOpen(false);
+    await loadOffers(true);
   };
 
-  const handleBulkAction = (action: string, rows: any[]) => {
-    toast.success(`${action} toegepast op ${rows.length} offerte(s)`, { duration: 3000 });
+  const handleDownloadOffer = async (offer: Offer) => {
+    const result = await offersApi.generatePdf(offer.id);
+    if (!result.success || !result.data) {
+      toast.error(result.error || 'PDF genereren mislukt', { duration: 4000 });
+      return;
+    }
+
+    window.open(result.data, '_blank');
+  };
+
+  const handleConvertToInvoice = async (offer: Offer, invoiceRequest: OfferInvoiceRequest = {}) => {
+    const result = await offersApi.convertToInvoice(offer.id, invoiceRequest);
+    if (!result.success) {
+      toast.error(result.error || 'Factureren mislukt', { duration: 4000 });
+      return;
+    }
+
+    toast.success('Conceptfactuur aangemaakt', { duration: 3000 });
+    setIsModalOpen(false);
+  };
+
+  const bulkStatusActions: Record<string, OfferStatus> = {
+    send: 'sent',
+    expire: 'expired',
+  };
+
+  const handleBulkAction = async (action: string, rows: Offer[]) => {
     logger.info(`Bulk action: ${action}`, 'offertes', { count: rows.length });
+
+    if (bulkStatusActions[action]) {
+      const result = await offersApi.bulkUpdateStatus(rows.map(row => row.id), bulkStatusActions[action]);
+      if (!result.success) {
+        toast.error(result.error || 'Bijwerken mislukt', { duration: 4000 });
+        return;
+      }
+      toast.success(`${rows.length} offerte(s) bijgewerkt`, { duration: 3000 });
+      await loadOffers(true);
+    } else if (action === 'duplicate') {
+      const results = await Promise.all(rows.map(row => offersApi.duplicate(row)));
+      const failed = results.filter(result => !result.success).length;
+      if (failed > 0) {
+        toast.error(`${failed} offerte(s) konden niet worden gedupliceerd`, { duration: 4000 });
+      } else {
+        toast.success(`${rows.length} offerte(s) gedupliceerd`, { duration: 3000 });
+      }
+      await loadOffers(true);
+    } else if (action === 'invoice') {
+      // Alleen geaccepteerde offertes kunnen worden gefactureerd
+      const accepted = rows.filter(row => row.status === 'accepted');
+      const results = await Promise.all(accepted.map(row => offersApi.convertToInvoice(row.id)));
+      const created = results.filter(result => result.success).length;
+      if (created > 0) {
+        toast.success(`${created} factuur/facturen aangemaakt als concept`, { duration: 3000 });
+      }
+      if (created < rows.length) {
+        toast.error(`${rows.length - created} offerte(s) niet gefactureerd (niet geaccepteerd of al gefactureerd)`, { duration: 4000 });
+      }
+    } else {
+      toast.success(`${action} toegepast op ${rows.length} offerte(s)`, { duration: 3000 });
+    }
+
     setSelectedRows([]);
   };
 
@@ -444,10 +604,16 @@ export default function OffertesPage() {
       dropdown: [
         { label: 'PDF', action: () => handleExport('pdf'), icon: <FileText className="h-3 w-3 mr-2" /> },
         { label: 'CSV', action: () => handleExport('csv'), icon: <Download className="h-3 w-3 mr-2" /> },
+        { label: 'Excel', action: () => handleExport('xlsx'), icon: <Download className="h-3 w-3 mr-2" /> },
+        { label: 'JSON', action: () => handleExport('json'), icon: <Download className="h-3 w-3 mr-2" /> },
       ]
     },
-    { label: 'Verstuur herinnering', action: 'remind', icon: <Clock className="h-4 w-4" /> },
-    { label: 'Markeer als verzonden', action: 'send', icon: <Zap className="h-4 w-4" /> },
+    ...(canWriteOffers && canSendOffers ? [{ label: 'Markeer als verzonden', action: 'send', icon: <Zap className="h-4 w-4" /> }] : []),
+    ...(canWriteOffers ? [
+      { label: 'Markeer als verlopen', action: 'expire', icon: <Clock className="h-4 w-4" /> },
+      { label: 'Dupliceren', action: 'duplicate', icon: <Copy className="h-4 w-4" /> },
+    ] : []),
+    ...(canWriteInvoices ? [{ label: 'Factureren', action: 'invoice', icon: <Receipt className="h-4 w-4" /> }] : []),
   ];
 
   // Loading state met nieuwe shimmer
@@ -554,7 +720,7 @@ export default function OffertesPage() {
         onCreateClick={handleCreateOffer}
         showSearch={true}
         showFilters={true}
-        showCreateButton={true}
+        showCreateButton={canWriteOffers}
       />
 
       {/* Filters Modal */}
@@ -837,10 +1003,13 @@ export default function OffertesPage() {
               isExporting={isExporting} 
               format="pdf" 
             />
-            <ExportButton 
-              onExport={handleExport} 
-              isExporting={isExporting} 
-              format="csv" 
+            <ListExportButton
+              resource="offers"
+              filters={{
+                ids: selectedRows.length > 0 ? selectedRows.map((row: Offer) => row.id) : null,
+                search: searchTerm,
+                sort: sortConfig.key ? { key: sortConfig.key, direction: sortConfig.direction } : null,
+              }}
             />
           </div>
         </div>
@@ -949,11 +1118,27 @@ export default function OffertesPage() {
           setIsModalOpen(false);
           setSelectedOffer(null);
         }}
-        onEdit={(offer) => logger.info('Edit offer', 'offertes', { offer })}
-        onSend={(offer) => logger.info('Send offer', 'offertes', { offer })}
-        onDownload={(offer) => logger.info('Download offer', 'offertes', { offer })}
+        onEdit={canWriteOffers ? handleEditOffer : undefined}
+        onDuplicate={canWriteOffers ? handleDuplicateOffer : undefined}
+        onRestoreRevision={canWriteOffers ? handleRestoreRevision : undefined}
+        onConvertToInvoice={canWriteInvoices ? handleConvertToInvoice : undefined}
+        onSend={canSendOffers ? handleSendOffer : undefined}
+        onDownload={handleDownloadOffer}
       />
       </Suspense>
+
+      {/* Offer Form Modal */}
+      <Suspense fallback={null}>
+        <OfferForm
+          isOpen={isFormOpen}
+          offer={editingOffer}
+          onClose={() => {
+            setIsFormOpen(false);
+            setEditingOffer(null);
+          }}
+          onSave={handleSaveOffer}
+        />
+      </Suspense>
     </div>
   );
 }
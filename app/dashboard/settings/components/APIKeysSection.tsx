@@ -1,79 +1,132 @@
 "use client";
 
-import { useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from "../../../../components/ui/card";
-import { Key, Plus, Copy, Trash2, Eye, EyeOff } from "lucide-react";
+import { Key, Plus, Copy, Trash2 } from "lucide-react";
 import { useToast } from "../hooks/useToast";
-import { settingsService } from "../../../../lib/validation";
 import { APIKey } from "../../../../types/forms/settings";
 
+const SCOPE_OPTIONS = [
+  { value: 'customers:read', label: 'Klanten lezen' },
+  { value: 'customers:write', label: 'Klanten beheren' },
+  { value: 'offers:read', label: 'Offertes lezen' },
+  { value: 'offers:write', label: 'Offertes beheren' },
+  { value: 'invoices:read', label: 'Facturen lezen' },
+  { value: 'invoices:write', label: 'Facturen beheren' },
+  { value: 'activity:read', label: 'Activiteit lezen' },
+];
+
+const EXPIRY_OPTIONS = [
+  { value: '', label: 'Verloopt nooit' },
+  { value: '30', label: '30 dagen' },
+  { value: '90', label: '90 dagen' },
+  { value: '365', label: '1 jaar' },
+];
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString('nl-NL', { day: 'numeric', month: 'short', year: 'numeric' });
+
+const keyStatus = (apiKey: APIKey): string | null => {
+  if (apiKey.revoked_at) return `Ingetrokken op ${formatDate(apiKey.revoked_at)}`;
+  if (apiKey.expires_at && new Date(apiKey.expires_at) <= new Date()) return 'Verlopen';
+  return null;
+};
+
 export default function APIKeysSection() {
   const toast = useToast();
-  const [apiKeys, setApiKeys] = useState<APIKey[]>([
-    {
-      id: '1',
-      name: 'Production API Key',
-      key: 'sk-prod-...abc123',
-      created: 'Jan 10, 2024',
-      lastUsed: '2 uur geleden',
-    },
-    {
-      id: '2',
-      name: 'Development API Key',
-      key: 'sk-dev-...xyz789',
-      created: 'Jan 5, 2024',
-      lastUsed: '1 dag geleden',
-    },
-  ]);
+  const [apiKeys, setApiKeys] = useState<APIKey[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
 
-  const [visibleKeys, setVisibleKeys] = useState<Set<string>>(new Set());
   const [showNewKeyModal, setShowNewKeyModal] = useState(false);
   const [newKeyName, setNewKeyName] = useState('');
+  const [newKeyScopes, setNewKeyScopes] = useState<string[]>(['offers:read', 'invoices:read']);
+  const [newKeyExpiry, setNewKeyExpiry] = useState('90');
+  const [isCreating, setIsCreating] = useState(false);
   const [generatedKey, setGeneratedKey] = useState<string | null>(null);
 
+  const fetchApiKeys = useCallback(async () => {
+    try {
+      const response = await fetch('/api/api-keys');
+      if (!response.ok) throw new Error('Failed to fetch API keys');
+      const data = await response.json();
+      setApiKeys(data.apiKeys);
+    } catch (error) {
+      console.error(error);
+      toast.error('API keys konden niet worden geladen');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchApiKeys();
+  }, [fetchApiKeys]);
+
   const handleCopyKey = (key: string, name: string) => {
     navigator.clipboard.writeText(key);
     toast.success(`${name} gekopieerd naar klembord!`);
   };
 
-  const toggleKeyVisibility = (keyId: string) => {
-    setVisibleKeys(prev => {
-      const newSet = new Set(prev);
-      if (newSet.has(keyId)) {
-        newSet.delete(keyId);
-      } else {
-        newSet.add(keyId);
-      }
-      return newSet;
-    });
+  const toggleScope = (scope: string) => {
+    setNewKeyScopes(prev =>
+      prev.includes(scope) ? prev.filter(s => s !== scope) : [...prev, scope]
+    );
   };
 
-  const handleDeleteKey = (keyId: string, name: string) => {
-    if (window.confirm(`Weet je zeker dat je "${name}" wilt verwijderen?`)) {
-      setApiKeys(prev => prev.filter(k => k.id !== keyId));
-      toast.success(`${name} verwijderd`);
+  const handleRevokeKey = async (keyId: string, name: string) => {
+    if (!window.confirm(`Weet je zeker dat je "${name}" wilt intrekken? Applicaties die deze key gebruiken verliezen direct toegang.`)) {
+      return;
     }
+
+    const response = await fetch(`/api/api-keys/${keyId}`, { method: 'DELETE' });
+    if (!response.ok) {
+      toast.error(`${name} kon niet worden ingetrokken`);
+      return;
+    }
+
+    toast.success(`${name} ingetrokken`);
+    fetchApiKeys();
   };
 
-  const handleGenerateKey = () => {
+  const handleGenerateKey = async () => {
     if (!newKeyName.trim()) {
       toast.error('Voer een naam in voor de API key');
       return;
     }
+    if (newKeyScopes.length === 0) {
+      toast.error('Kies minimaal één recht voor de API key');
+      return;
+    }
 
-    const newKey = settingsService.generateAPIKey();
-    const newApiKey: APIKey = {
-      id: Date.now().toString(),
-      name: newKeyName,
-      key: newKey,
-      created: new Date().toLocaleDateString('nl-NL', { day: 'numeric', month: 'short', year: 'numeric' }),
-      lastUsed: 'Nog niet gebruikt',
-    };
+    setIsCreating(true);
+    try {
+      const response = await fetch('/api/api-keys', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: newKeyName.trim(),
+          scopes: newKeyScopes,
+          expires_in_days: newKeyExpiry ? Number(newKeyExpiry) : null,
+        }),
+      });
 
-    setApiKeys(prev => [newApiKey, ...prev]);
-    setGeneratedKey(newKey);
-    setNewKeyName('');
-    toast.success('API key succesvol aangemaakt!');
+      if (response.status === 403) {
+        toast.error('Alleen eigenaren en beheerders kunnen API keys aanmaken');
+        return;
+      }
+      if (!response.ok) throw new Error('Failed to create API key');
+
+      const data = await response.json();
+      setApiKeys(prev => [data.apiKey, ...prev]);
+      setGeneratedKey(data.key);
+      setNewKeyName('');
+      toast.success('API key succesvol aangemaakt!');
+    } catch (error) {
+      console.error(error);
+      toast.error('API key kon niet worden aangemaakt');
+    } finally {
+      setIsCreating(false);
+    }
   };
 
   const closeModal = () => {
@@ -95,7 +148,9 @@ export default function APIKeysSection() {
           <div className="flex items-center justify-between">
             <div>
               <h4 className="text-white font-medium">Personal Access Tokens</h4>
-              <p className="text-gray-400 text-sm">Voor toegang tot de API vanuit externe applicaties</p>
+              <p className="text-gray-400 text-sm">
+                Voor toegang tot de API vanuit externe applicaties, met <code>Authorization: Bearer &lt;key&gt;</code>
+              </p>
             </div>
             <button
               onClick={() => setShowNewKeyModal(true)}
@@ -106,7 +161,9 @@ export default function APIKeysSection() {
             </button>
           </div>
 
-          {apiKeys.length === 0 ? (
+          {isLoading ? (
+            <div className="text-center py-8 text-gray-400">API keys laden...</div>
+          ) : apiKeys.length === 0 ? (
             <div className="text-center py-8 text-gray-400">
               <Key className="h-12 w-12 mx-auto mb-2 opacity-50" />
               <p>Geen API keys gevonden</p>
@@ -115,52 +172,40 @@ export default function APIKeysSection() {
           ) : (
             <div className="space-y-3">
               {apiKeys.map((apiKey) => {
-                const isVisible = visibleKeys.has(apiKey.id);
-                
+                const status = keyStatus(apiKey);
+
                 return (
                   <div
                     key={apiKey.id}
-                    className="flex items-center justify-between p-3 bg-white/5 rounded-lg hover:bg-white/10 transition-colors"
+                    className={`flex items-center justify-between p-3 bg-white/5 rounded-lg hover:bg-white/10 transition-colors ${status ? 'opacity-60' : ''}`}
                   >
                     <div className="flex-1">
-                      <h5 className="text-white font-medium">{apiKey.name}</h5>
-                      <p className="text-gray-400 text-sm font-mono">
-                        {isVisible ? apiKey.key : '••••••••••••••••'}
+                      <h5 className="text-white font-medium">
+                        {apiKey.name}
+                        {status && <span className="ml-2 text-xs text-red-300">{status}</span>}
+                      </h5>
+                      <p className="text-gray-400 text-sm font-mono">{apiKey.key_prefix || 'qf_'}…</p>
+                      <p className="text-gray-500 text-xs">
+                        {apiKey.permissions.join(', ') || 'Geen rechten'}
                       </p>
                       <p className="text-gray-500 text-xs">
-                        Aangemaakt {apiKey.created} • Laatst gebruikt {apiKey.lastUsed}
+                        Aangemaakt {formatDate(apiKey.created_at)} • Laatst gebruikt{' '}
+                        {apiKey.last_used ? formatDate(apiKey.last_used) : 'nog niet'}
+                        {apiKey.expires_at && !status && ` • Verloopt ${formatDate(apiKey.expires_at)}`}
                       </p>
                     </div>
-                    <div className="flex items-center gap-2">
-                      <button
-                        onClick={() => toggleKeyVisibility(apiKey.id)}
-                        className="p-2 hover:bg-white/10 rounded-lg transition-colors"
-                        aria-label={isVisible ? "Verberg API key" : "Toon API key"}
-                        title={isVisible ? "Verberg API key" : "Toon API key"}
-                      >
-                        {isVisible ? (
-                          <EyeOff className="h-4 w-4 text-gray-400" />
-                        ) : (
-                          <Eye className="h-4 w-4 text-gray-400" />
-                        )}
-                      </button>
-                      <button
-                        onClick={() => handleCopyKey(apiKey.key, apiKey.name)}
-                        className="p-2 hover:bg-white/10 rounded-lg transition-colors"
-                        aria-label="Kopieer API key"
-                        title="Kopieer API key"
-                      >
-                        <Copy className="h-4 w-4 text-gray-400 hover:text-blue-400" />
-                      </button>
-                      <button
-                        onClick={() => handleDeleteKey(apiKey.id, apiKey.name)}
-                        className="p-2 hover:bg-white/10 rounded-lg transition-colors"
-                        aria-label="Verwijder API key"
-                        title="Verwijder API key"
-                      >
-                        <Trash2 className="h-4 w-4 text-gray-400 hover:text-red-400" />
-                      </button>
-                    </div>
+                    {!apiKey.revoked_at && (
+                      <div className="flex items-center gap-2">
+                        <button
+                          onClick={() => handleRevokeKey(apiKey.id, apiKey.name)}
+                          className="p-2 hover:bg-white/10 rounded-lg transition-colors"
+                          aria-label="Trek API key in"
+                          title="Trek API key in"
+                        >
+                          <Trash2 className="h-4 w-4 text-gray-400 hover:text-red-400" />
+                        </button>
+                      </div>
+                    )}
                   </div>
                 );
               })}
@@ -170,8 +215,8 @@ export default function APIKeysSection() {
           {/* Security Warning */}
           <div className="mt-6 p-4 bg-yellow-500/10 border border-yellow-500/20 rounded-lg">
             <p className="text-yellow-300 text-sm">
-              ⚠️ <strong>Belangrijk:</strong> Deel je API keys nooit met anderen en bewaar ze veilig. 
-              Als een key gecompromitteerd is, verwijder deze dan onmiddellijk.
+              ⚠️ <strong>Belangrijk:</strong> Deel je API keys nooit met anderen en bewaar ze veilig.
+              Als een key gecompromitteerd is, trek deze dan onmiddellijk in.
             </p>
           </div>
         </CardContent>
@@ -193,11 +238,42 @@ export default function APIKeysSection() {
                       type="text"
                       value={newKeyName}
                       onChange={(e) => setNewKeyName(e.target.value)}
-                      placeholder="bijv. Production API, Mobile App"
+                      placeholder="bijv. Boekhouding koppeling, Zapier"
                       className="w-full px-3 py-2 bg-white/10 border border-white/20 rounded-xl text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
                       autoFocus
                     />
                   </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-300 mb-2">
+                      Rechten <span className="text-red-400">*</span>
+                    </label>
+                    <div className="grid grid-cols-2 gap-2">
+                      {SCOPE_OPTIONS.map(option => (
+                        <label key={option.value} className="flex items-center gap-2 text-sm text-gray-300">
+                          <input
+                            type="checkbox"
+                            checked={newKeyScopes.includes(option.value)}
+                            onChange={() => toggleScope(option.value)}
+                          />
+                          {option.label}
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-300 mb-2">Geldigheid</label>
+                    <select
+                      value={newKeyExpiry}
+                      onChange={(e) => setNewKeyExpiry(e.target.value)}
+                      className="w-full px-3 py-2 bg-white/10 border border-white/20 rounded-xl text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      {EXPIRY_OPTIONS.map(option => (
+                        <option key={option.value} value={option.value} className="bg-gray-900">
+                          {option.label}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
                   <div className="flex gap-2">
                     <button
                       onClick={closeModal}
@@ -208,11 +284,11 @@ export default function APIKeysSection() {
                     </button>
                     <button
                       onClick={handleGenerateKey}
-                      disabled={!newKeyName.trim()}
+                      disabled={!newKeyName.trim() || newKeyScopes.length === 0 || isCreating}
                       className="flex-1 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                       title="Genereer een nieuwe API key"
                     >
-                      Genereer Key
+                      {isCreating ? 'Bezig...' : 'Genereer Key'}
                     </button>
                   </div>
                 </div>
@@ -260,4 +336,3 @@ export default function APIKeysSection() {
     </>
   );
 }
-
@@ -0,0 +1,469 @@
+"use client";
+
+import { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from "../../../../components/ui/card";
+import { Webhook, Plus, Copy, Trash2, RotateCw, ChevronDown, ChevronUp } from "lucide-react";
+import { useToast } from "../hooks/useToast";
+import { WebhookDelivery, WebhookEndpoint } from "../../../../types/forms/settings";
+
+const EVENT_OPTIONS = [
+  { value: 'offer.sent', label: 'Offerte verstuurd' },
+  { value: 'offer.accepted', label: 'Offerte geaccepteerd' },
+  { value: 'invoice.created', label: 'Factuur aangemaakt' },
+  { value: 'invoice.paid', label: 'Factuur betaald' },
+  { value: 'customer.created', label: 'Klant aangemaakt' },
+];
+
+const DELIVERY_STATUS: Record<WebhookDelivery['status'], { label: string; className: string }> = {
+  pending: { label: 'Bezig', className: 'text-yellow-300' },
+  succeeded: { label: 'Afgeleverd', className: 'text-green-400' },
+  failed: { label: 'Mislukt', className: 'text-red-400' },
+};
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString('nl-NL', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+export default function WebhooksSection() {
+  const toast = useToast();
+  const [endpoints, setEndpoints] = useState<WebhookEndpoint[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const [showNewEndpointModal, setShowNewEndpointModal] = useState(false);
+  const [newUrl, setNewUrl] = useState('');
+  const [newDescription, setNewDescription] = useState('');
+  const [newEvents, setNewEvents] = useState<string[]>(['offer.accepted', 'invoice.paid']);
+  const [isCreating, setIsCreating] = useState(false);
+  const [signingSecret, setSigningSecret] = useState<string | null>(null);
+
+  // Afleverlog van het opengeklapte endpoint
+  const [openEndpointId, setOpenEndpointId] = useState<string | null>(null);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [isLoadingDeliveries, setIsLoadingDeliveries] = useState(false);
+
+  const fetchEndpoints = useCallback(async () => {
+    try {
+      const response = await fetch('/api/settings/webhooks');
+      if (response.status === 403) {
+        toast.error('Alleen eigenaren en beheerders kunnen webhooks beheren');
+        return;
+      }
+      if (!response.ok) throw new Error('Failed to fetch webhook endpoints');
+      const data = await response.json();
+      setEndpoints(data.endpoints);
+    } catch (error) {
+      console.error(error);
+      toast.error('Webhooks konden niet worden geladen');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [toast]);
+
+  const fetchDeliveries = async (endpointId: string) => {
+    setIsLoadingDeliveries(true);
+    try {
+      const response = await fetch(`/api/settings/webhooks/${endpointId}/deliveries`);
+      if (!response.ok) throw new Error('Failed to fetch webhook deliveries');
+      const data = await response.json();
+      setDeliveries(data.deliveries);
+    } catch (error) {
+      console.error(error);
+      toast.error('Afleverlog kon niet worden geladen');
+    } finally {
+      setIsLoadingDeliveries(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchEndpoints();
+  }, [fetchEndpoints]);
+
+  const toggleEvent = (event: string) => {
+    setNewEvents(prev =>
+      prev.includes(event) ? prev.filter(e => e !== event) : [...prev, event]
+    );
+  };
+
+  const toggleDeliveries = (endpointId: string) => {
+    if (openEndpointId === endpointId) {
+      setOpenEndpointId(null);
+      return;
+    }
+    setOpenEndpointId(endpointId);
+    setDeliveries([]);
+    fetchDeliveries(endpointId);
+  };
+
+  const handleCopySecret = (secret: string) => {
+    navigator.clipboard.writeText(secret);
+    toast.success('Signing secret gekopieerd naar klembord!');
+  };
+
+  const handleCreateEndpoint = async () => {
+    if (!newUrl.trim()) {
+      toast.error('Voer een URL in voor de webhook');
+      return;
+    }
+    if (newEvents.length === 0) {
+      toast.error('Kies minimaal één gebeurtenis');
+      return;
+    }
+
+    setIsCreating(true);
+    try {
+      const response = await fetch('/api/settings/webhooks', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ url: newUrl.trim(), description: newDescription, events: newEvents }),
+      });
+
+      if (response.status === 400) {
+        const data = await response.json();
+        toast.error(`Ongeldige webhook: ${data.error}`);
+        return;
+      }
+      if (response.status === 403) {
+        toast.error('Alleen eigenaren en beheerders kunnen webhooks aanmaken');
+        return;
+      }
+      if (!response.ok) throw new Error('Failed to create webhook endpoint');
+
+      const data = await response.json();
+      setEndpoints(prev => [data.endpoint, ...prev]);
+      setSigningSecret(data.secret);
+      toast.success('Webhook succesvol aangemaakt!');
+    } catch (error) {
+      console.error(error);
+      toast.error('Webhook kon niet worden aangemaakt');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleToggleEnabled = async (endpoint: WebhookEndpoint) => {
+    const response = await fetch(`/api/settings/webhooks/${endpoint.id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ enabled: !endpoint.enabled }),
+    });
+    if (!response.ok) {
+      toast.error('Webhook kon niet worden bijgewerkt');
+      return;
+    }
+
+    const data = await response.json();
+    setEndpoints(prev => prev.map(e => (e.id === endpoint.id ? data.endpoint : e)));
+    toast.success(data.endpoint.enabled ? 'Webhook ingeschakeld' : 'Webhook uitgeschakeld');
+  };
+
+  const handleRotateSecret = async (endpoint: WebhookEndpoint) => {
+    if (!window.confirm(`Nieuw signing secret maken voor ${endpoint.url}? Het huidige secret werkt daarna niet meer.`)) {
+      return;
+    }
+
+    const response = await fetch(`/api/settings/webhooks/${endpoint.id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ rotate_secret: true }),
+    });
+    if (!response.ok) {
+      toast.error('Signing secret kon niet worden vernieuwd');
+      return;
+    }
+
+    const data = await response.json();
+    setSigningSecret(data.secret);
+    setShowNewEndpointModal(true);
+  };
+
+  const handleDeleteEndpoint = async (endpoint: WebhookEndpoint) => {
+    if (!window.confirm(`Weet je zeker dat je de webhook naar ${endpoint.url} wilt verwijderen? Het afleverlog wordt ook verwijderd.`)) {
+      return;
+    }
+
+    const response = await fetch(`/api/settings/webhooks/${endpoint.id}`, { method: 'DELETE' });
+    if (!response.ok) {
+      toast.error('Webhook kon niet worden verwijderd');
+      return;
+    }
+
+    setEndpoints(prev => prev.filter(e => e.id !== endpoint.id));
+    if (openEndpointId === endpoint.id) setOpenEndpointId(null);
+    toast.success('Webhook verwijderd');
+  };
+
+  const handleRedeliver = async (delivery: WebhookDelivery) => {
+    const response = await fetch(
+      `/api/settings/webhooks/${delivery.endpoint_id}/deliveries/${delivery.id}/redeliver`,
+      { method: 'POST' }
+    );
+    if (!response.ok) {
+      toast.error('Webhook kon niet opnieuw worden verstuurd');
+      return;
+    }
+
+    const data = await response.json();
+    setDeliveries(prev => [data.delivery, ...prev]);
+    toast.success('Webhook wordt opnieuw verstuurd');
+  };
+
+  const closeModal = () => {
+    setShowNewEndpointModal(false);
+    setSigningSecret(null);
+    setNewUrl('');
+    setNewDescription('');
+  };
+
+  return (
+    <>
+      <Card className="bg-white/10 backdrop-blur-xl border border-white/20">
+        <CardHeader>
+          <CardTitle className="text-white flex items-center gap-2">
+            <Webhook className="h-5 w-5" />
+            Webhooks
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center justify-between">
+            <div>
+              <h4 className="text-white font-medium">Uitgaande webhooks</h4>
+              <p className="text-gray-400 text-sm">
+                Ontvang een ondertekend POST-verzoek bij gebeurtenissen, gecontroleerd met de <code>QuoteFast-Signature</code> header
+              </p>
+            </div>
+            <button
+              onClick={() => setShowNewEndpointModal(true)}
+              className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors"
+            >
+              <Plus className="h-4 w-4" />
+              Nieuwe Webhook
+            </button>
+          </div>
+
+          {isLoading ? (
+            <div className="text-center py-8 text-gray-400">Webhooks laden...</div>
+          ) : endpoints.length === 0 ? (
+            <div className="text-center py-8 text-gray-400">
+              <Webhook className="h-12 w-12 mx-auto mb-2 opacity-50" />
+              <p>Geen webhooks gevonden</p>
+              <p className="text-sm">Voeg een endpoint toe om gebeurtenissen te ontvangen</p>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {endpoints.map((endpoint) => (
+                <div key={endpoint.id} className="p-3 bg-white/5 rounded-lg">
+                  <div className={`flex items-center justify-between ${endpoint.enabled ? '' : 'opacity-60'}`}>
+                    <div className="flex-1 min-w-0">
+                      <h5 className="text-white font-medium font-mono text-sm truncate">
+                        {endpoint.url}
+                        {!endpoint.enabled && <span className="ml-2 text-xs text-red-300 font-sans">Uitgeschakeld</span>}
+                      </h5>
+                      {endpoint.description && <p className="text-gray-400 text-sm">{endpoint.description}</p>}
+                      <p className="text-gray-500 text-xs">{endpoint.events.join(', ')}</p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <button
+                        onClick={() => handleToggleEnabled(endpoint)}
+                        className="px-3 py-1 text-xs bg-white/10 hover:bg-white/20 text-white rounded-lg transition-colors"
+                      >
+                        {endpoint.enabled ? 'Uitschakelen' : 'Inschakelen'}
+                      </button>
+                      <button
+                        onClick={() => handleRotateSecret(endpoint)}
+                        className="p-2 hover:bg-white/10 rounded-lg transition-colors"
+                        aria-label="Vernieuw signing secret"
+                        title="Vernieuw signing secret"
+                      >
+                        <RotateCw className="h-4 w-4 text-gray-400" />
+                      </button>
+                      <button
+                        onClick={() => handleDeleteEndpoint(endpoint)}
+                        className="p-2 hover:bg-white/10 rounded-lg transition-colors"
+                        aria-label="Verwijder webhook"
+                        title="Verwijder webhook"
+                      >
+                        <Trash2 className="h-4 w-4 text-gray-400 hover:text-red-400" />
+                      </button>
+                      <button
+                        onClick={() => toggleDeliveries(endpoint.id)}
+                        className="p-2 hover:bg-white/10 rounded-lg transition-colors"
+                        aria-label="Toon afleverlog"
+                        title="Toon afleverlog"
+                      >
+                        {openEndpointId === endpoint.id
+                          ? <ChevronUp className="h-4 w-4 text-gray-400" />
+                          : <ChevronDown className="h-4 w-4 text-gray-400" />}
+                      </button>
+                    </div>
+                  </div>
+
+                  {openEndpointId === endpoint.id && (
+                    <div className="mt-3 border-t border-white/10 pt-3">
+                      {isLoadingDeliveries ? (
+                        <p className="text-gray-400 text-sm">Afleverlog laden...</p>
+                      ) : deliveries.length === 0 ? (
+                        <p className="text-gray-400 text-sm">Nog geen afleveringen</p>
+                      ) : (
+                        <table className="w-full text-sm">
+                          <thead>
+                            <tr className="text-left text-gray-400 text-xs">
+                              <th className="py-1">Gebeurtenis</th>
+                              <th className="py-1">Status</th>
+                              <th className="py-1">Respons</th>
+                              <th className="py-1">Pogingen</th>
+                              <th className="py-1">Tijdstip</th>
+                              <th className="py-1" />
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {deliveries.map((delivery) => (
+                              <tr key={delivery.id} className="text-gray-300 border-t border-white/5">
+                                <td className="py-2 font-mono text-xs">{delivery.event_type}</td>
+                                <td className={`py-2 ${DELIVERY_STATUS[delivery.status].className}`}>
+                                  {DELIVERY_STATUS[delivery.status].label}
+                                </td>
+                                <td className="py-2" title={delivery.error || delivery.response_body || undefined}>
+                                  {delivery.response_status ?? (delivery.error ? 'Geen' : '–')}
+                                  {delivery.duration_ms !== null && (
+                                    <span className="text-gray-500 text-xs"> ({delivery.duration_ms} ms)</span>
+                                  )}
+                                </td>
+                                <td className="py-2">{delivery.attempts}</td>
+                                <td className="py-2 text-xs">
+                                  {formatDateTime(delivery.last_attempt_at || delivery.created_at)}
+                                  {delivery.status === 'pending' && delivery.next_attempt_at && (
+                                    <span className="block text-gray-500">
+                                      Volgende poging {formatDateTime(delivery.next_attempt_at)}
+                                    </span>
+                                  )}
+                                </td>
+                                <td className="py-2 text-right">
+                                  {delivery.status !== 'pending' && (
+                                    <button
+                                      onClick={() => handleRedeliver(delivery)}
+                                      className="px-2 py-1 text-xs bg-white/10 hover:bg-white/20 text-white rounded transition-colors"
+                                    >
+                                      Opnieuw versturen
+                                    </button>
+                                  )}
+                                </td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      )}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* New Endpoint Modal */}
+      {showNewEndpointModal && (
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+          <div className="bg-gray-900 border border-white/20 rounded-2xl p-6 max-w-md w-full shadow-2xl">
+            {!signingSecret ? (
+              <>
+                <h3 className="text-xl font-bold text-white mb-4">Nieuwe Webhook Toevoegen</h3>
+                <div className="space-y-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-300 mb-2">
+                      Endpoint URL <span className="text-red-400">*</span>
+                    </label>
+                    <input
+                      type="url"
+                      value={newUrl}
+                      onChange={(e) => setNewUrl(e.target.value)}
+                      placeholder="https://example.com/webhooks/quotefast"
+                      className="w-full px-3 py-2 bg-white/10 border border-white/20 rounded-xl text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      autoFocus
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-300 mb-2">Omschrijving</label>
+                    <input
+                      type="text"
+                      value={newDescription}
+                      onChange={(e) => setNewDescription(e.target.value)}
+                      placeholder="bijv. Boekhouding, Zapier"
+                      className="w-full px-3 py-2 bg-white/10 border border-white/20 rounded-xl text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-300 mb-2">
+                      Gebeurtenissen <span className="text-red-400">*</span>
+                    </label>
+                    <div className="grid grid-cols-2 gap-2">
+                      {EVENT_OPTIONS.map(option => (
+                        <label key={option.value} className="flex items-center gap-2 text-sm text-gray-300">
+                          <input
+                            type="checkbox"
+                            checked={newEvents.includes(option.value)}
+                            onChange={() => toggleEvent(option.value)}
+                          />
+                          {option.label}
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="flex gap-2">
+                    <button
+                      onClick={closeModal}
+                      className="flex-1 px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-lg transition-colors"
+                    >
+                      Annuleren
+                    </button>
+                    <button
+                      onClick={handleCreateEndpoint}
+                      disabled={!newUrl.trim() || newEvents.length === 0 || isCreating}
+                      className="flex-1 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {isCreating ? 'Bezig...' : 'Toevoegen'}
+                    </button>
+                  </div>
+                </div>
+              </>
+            ) : (
+              <>
+                <h3 className="text-xl font-bold text-white mb-4">Signing Secret</h3>
+                <div className="space-y-4">
+                  <div className="p-4 bg-green-500/10 border border-green-500/30 rounded-lg">
+                    <p className="text-green-300 text-sm mb-2">
+                      ✓ Controleer hiermee de <code>QuoteFast-Signature</code> header van elk verzoek
+                    </p>
+                    <div className="flex items-center gap-2">
+                      <code className="flex-1 px-3 py-2 bg-black/30 text-green-400 rounded text-sm font-mono break-all">
+                        {signingSecret}
+                      </code>
+                      <button
+                        onClick={() => handleCopySecret(signingSecret)}
+                        className="p-2 bg-green-600 hover:bg-green-700 rounded-lg transition-colors"
+                        title="Kopieer het signing secret"
+                        aria-label="Kopieer het signing secret"
+                      >
+                        <Copy className="h-4 w-4 text-white" />
+                      </button>
+                    </div>
+                  </div>
+                  <div className="p-4 bg-yellow-500/10 border border-yellow-500/20 rounded-lg">
+                    <p className="text-yellow-300 text-sm">
+                      ⚠️ <strong>Let op:</strong> Kopieer dit secret nu. Je zult het niet meer kunnen zien.
+                    </p>
+                  </div>
+                  <button
+                    onClick={closeModal}
+                    className="w-full px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors"
+                  >
+                    Sluiten
+                  </button>
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
@@ -8,10 +8,12 @@ import ProfileSection from './components/ProfileSection';
 import NotificationsSection from './components/NotificationsSection';
 import SecuritySection from './components/SecuritySection';
 import APIKeysSection from './components/APIKeysSection';
+import WebhooksSection from './components/WebhooksSection';
 import AppearanceSection from './components/AppearanceSection';
 import AIPersonalizationSection from './components/AIPersonalizationSection';
 import SystemSection from './components/SystemSection';
-import { SETTINGS_TABS, SettingsTab } from './utils/constants';
+import { SETTINGS_TABS, SETTINGS_TAB_PERMISSIONS, SettingsTab } from './utils/constants';
+import { useAuth } from '../../providers';
 
 // Force dynamic rendering for pages that use search params
 export const dynamic = 'force-dynamic';
@@ -29,6 +31,13 @@ function SettingsContent() {
     return 'profile';
   });
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
+  const { can } = useAuth();
+
+  const isTabAllowed = (tab: SettingsTab) => {
+    const permission = SETTINGS_TAB_PERMISSIONS[tab];
+    return !permission || can(permission);
+  };
+  const visibleTabs = SETTINGS_TABS.filter(tab => isTabAllowed(tab.id));
 
   // Update URL when tab changes (for shareable links)
   useEffect(() => {
@@ -77,7 +86,7 @@ function SettingsContent() {
 
   // Render active section
   const renderActiveSection = () => {
-    switch (activeTab) {
+    switch (isTabAllowed(activeTab) ? activeTab : 'profile') {
       case 'profile':
         return <ProfileSection />;
       case 'notifications':
@@ -86,6 +95,8 @@ function SettingsContent() {
         return <SecuritySection />;
       case 'apiKeys':
         return <APIKeysSection />;
+      case 'webhooks':
+        return <WebhooksSection />;
       case 'appearance':
         return <AppearanceSection />;
       case 'aiPersonalization':
@@ -119,7 +130,7 @@ function SettingsContent() {
       {/* Settings Tabs */}
       <div className="border-b border-white/10">
         <div className="flex items-center gap-2 overflow-x-auto pb-2 scrollbar-hide">
-          {SETTINGS_TABS.map((tab) => (
+          {visibleTabs.map((tab) => (
             <button
               key={tab.id}
               onClick={() => setActiveTab(tab.id)}
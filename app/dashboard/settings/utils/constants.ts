@@ -1,5 +1,7 @@
 // Constants voor Settings pagina
 
+import type { Permission } from "../../../../lib/auth/permissions";
+
 export const INACTIVITY_TIMEOUT_OPTIONS = [
   { value: 1, label: '1 minuut' },
   { value: 5, label: '5 minuten' },
@@ -78,6 +80,7 @@ export const SETTINGS_TABS = [
   { id: 'notifications', label: 'Notifications' },
   { id: 'security', label: 'Security' },
   { id: 'apiKeys', label: 'API Keys' },
+  { id: 'webhooks', label: 'Webhooks' },
   { id: 'appearance', label: 'Appearance' },
   { id: 'aiPersonalization', label: 'AI Personalisatie' },
   { id: 'system', label: 'System' },
@@ -85,3 +88,9 @@ export const SETTINGS_TABS = [
 
 export type SettingsTab = typeof SETTINGS_TABS[number]['id'];
 
+// Tabs die alleen zichtbaar zijn voor rollen met het bijbehorende recht
+export const SETTINGS_TAB_PERMISSIONS: Partial<Record<SettingsTab, Permission>> = {
+  apiKeys: 'api_keys:manage',
+  webhooks: 'webhooks:manage',
+};
+
@@ -1,116 +1,51 @@
 "use client";
-import { useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import { 
-  Users, UserPlus, Search, Filter, Crown, Shield, Activity, Mail, Phone, Calendar, 
-  Loader2, ChevronDown, Trash2, UserCheck, CheckCircle, Clock, AlertCircle
+  Users, UserPlus, Search, Crown, Shield, Activity, Mail, Calendar, 
+  Loader2, ChevronDown, Trash2, UserCheck, CheckCircle, Clock, XCircle
 } from "lucide-react";
 import { motion, AnimatePresence } from "framer-motion";
 import { toast } from "react-hot-toast";
+import { teamApi } from "../../../lib/api-service";
+import { usePermission } from "../../providers";
+import type { TeamRole } from "../../../lib/auth/organization";
+import type { TeamInvitation, TeamMember, TeamMemberStatus, TeamOverview } from "../../../types/api/team";
+import type { ActivityLogEntry } from "../../../types/api/activity";
+import { useActivityFeed } from "../../../hooks/data/useActivityFeed";
+import { TEAM_ROLE_LABELS } from "./roles";
+import { activityActor, activityDescription, activityTitle, activityTone, formatActivityTime } from "../history/activity";
 
-// Mock data voor team members en activity
-const teamMembers = [
-  {
-    id: 1,
-    name: "Sarah Johnson",
-    email: "sarah@quotefast.com",
-    role: "Project Manager",
-    status: "active",
-    workload: 85,
-    joinDate: "2023-01-15",
-    lastActive: "2 2 hours ago",
-    projects: 3,
-    avatar: "SJ",
-    permissions: "Admin",
-    inviteStatus: "accepted"
-  },
-  {
-    id: 2,
-    name: "Mike Chen",
-    email: "mike@quotefast.com",
-    role: "Developer",
-    status: "active",
-    workload: 92,
-    joinDate: "2023-03-20",
-    lastActive: "1 hour ago",
-    projects: 2,
-    avatar: "MC",
-    permissions: "Developer",
-    inviteStatus: "accepted"
-  },
-  {
-    id: 3,
-    name: "Emma Wilson",
-    email: "emma@quotefast.com",
-    role: "Designer",
-    status: "away",
-    workload: 67,
-    joinDate: "2023-02-10",
-    lastActive: "5 hours ago",
-    projects: 4,
-    avatar: "EW",
-    permissions: "Designer",
-    inviteStatus: "accepted"
-  },
-  {
-    id: 4,
-    name: "Alex Rodriguez",
-    email: "alex@quotefast.com",
-    role: "Admin",
-    status: "active",
-    workload: 45,
-    joinDate: "2022-11-05",
-    lastActive: "30 minutes ago",
-    projects: 1,
-    avatar: "AR",
-    permissions: "Admin",
-    inviteStatus: "accepted"
-  },
-  {
-    id: 5,
-    name: "Lisa Park",
-    email: "lisa@quotefast.com",
-    role: "Developer",
-    status: "offline",
-    workload: 78,
-    joinDate: "2023-06-12",
-    lastActive: "1 day ago",
-    projects: 3,
-    avatar: "LP",
-    permissions: "Developer",
-    inviteStatus: "accepted"
-  }
-];
-
-// Mock activity data
-const teamActivity = [
-  { id: 1, user: "Mike Chen", action: "completed offer #123", time: "2 hours ago", type: "success" },
-  { id: 2, user: "Sarah Johnson", action: "invited new team member", time: "4 hours ago", type: "info" },
-  { id: 3, user: "Emma Wilson", action: "updated design template", time: "6 hours ago", type: "info" },
-  { id: 4, user: "Alex Rodriguez", action: "reviewed 3 offers", time: "8 hours ago", type: "success" },
-  { id: 5, user: "Lisa Park", action: "started new project", time: "1 day ago", type: "info" }
-];
+const TEAM_ACTIVITY_LIMIT = 10;
 
 // Status colors en icons
-const getStatusConfig = (status: string) => {
+const getStatusConfig = (status: TeamMemberStatus) => {
   switch (status) {
     case "active":
-      return { color: "green", label: "Active", icon: CheckCircle };
-    case "away":
-      return { color: "yellow", label: "Away", icon: Clock };
-    case "offline":
-      return { color: "gray", label: "Offline", icon: UserCheck };
+      return { color: "green", label: "Actief", icon: CheckCircle };
+    case "invited":
+      return { color: "orange", label: "Uitgenodigd", icon: Clock };
     default:
-      return { color: "gray", label: "Unknown", icon: UserCheck };
+      return { color: "gray", label: "Inactief", icon: UserCheck };
   }
 };
 
+// Rollen die uitgenodigd kunnen worden; er is altijd precies één eigenaar
+const INVITE_ROLES = (Object.keys(TEAM_ROLE_LABELS) as TeamRole[]).filter(
+  (role): role is TeamInvitation['role'] => role !== 'owner'
+);
+
 // Role permissions
-const rolePermissions = {
-  Admin: { label: "Admin", color: "purple", icon: Crown, permissions: "Full access" },
-  Developer: { label: "Developer", color: "blue", icon: Activity, permissions: "Project access" },
-  Designer: { label: "Designer", color: "pink", icon: Activity, permissions: "Design access" }
+const rolePermissions: Record<TeamRole, { icon: typeof Crown, permissions: string }> = {
+  owner: { icon: Crown, permissions: "Volledige toegang en abonnement" },
+  admin: { icon: Shield, permissions: "Volledige toegang" },
+  developer: { icon: Activity, permissions: "Projecttoegang" },
+  designer: { icon: Activity, permissions: "Designtoegang" },
+  support: { icon: Mail, permissions: "Klanttoegang" }
 };
 
+const getInitials = (name: string) =>
+  name.split(/[\s@.]+/).filter(Boolean).slice(0, 2).map(part => part[0].toUpperCase()).join('');
+
 // Loading skeleton voor team pagina
 const TeamSkeleton = () => (
     <div className="space-y-6">
@@ -173,9 +108,9 @@ const TeamSkeleton = () => (
 );
 
 // Invite Member Modal
-const InviteModal = ({ isOpen, onClose, onInvite }: { isOpen: boolean, onClose: () => void, onInvite: (email: string, role: string) => void }) => {
+const InviteModal = ({ isOpen, onClose, onInvited }: { isOpen: boolean, onClose: () => void, onInvited: (invitation: TeamInvitation) => void }) => {
   const [email, setEmail] = useState('');
-  const [role, setRole] = useState('Developer');
+  const [role, setRole] = useState<TeamInvitation['role']>('developer');
   const [isSending, setIsSending] = useState(false);
 
   const handleSubmit = async () => {
@@ -186,14 +121,16 @@ const InviteModal = ({ isOpen, onClose, onInvite }: { isOpen: boolean, onClose:
 
     setIsSending(true);
     try {
-      // Simulate API call
-      await new Promise(resolve => setTimeout(resolve, 1500));
-      toast.success("Uitnodiging verzonden!", { duration: 4000 });
-      onInvite(email, role);
+      const result = await teamApi.invite(email, role);
+      if (!result.success || !result.data) {
+        throw new Error(result.error);
+      }
+      toast.success(`Uitnodiging verzonden naar ${result.data.email}`, { duration: 4000 });
+      onInvited(result.data);
       setEmail('');
       onClose();
     } catch (error) {
-      toast.error("Uitnodiging kon niet worden verzonden");
+      toast.error(error instanceof Error && error.message ? error.message : "Uitnodiging kon niet worden verzonden");
     } finally {
       setIsSending(false);
     }
@@ -245,12 +182,12 @@ const InviteModal = ({ isOpen, onClose, onInvite }: { isOpen: boolean, onClose:
                   <label className="block text-sm font-medium mb-2 text-foreground">Rol</label>
                   <select
                     value={role}
-                    onChange={(e) => setRole(e.target.value)}
+                    onChange={(e) => setRole(e.target.value as TeamInvitation['role'])}
                     className="w-full px-3 py-2 border border-border rounded-lg bg-background focus:ring-2 focus:ring-primary"
                   >
-                    <option value="Developer">Developer</option>
-                    <option value="Designer">Designer</option>
-                    <option value="Admin">Admin</option>
+                    {INVITE_ROLES.map(option => (
+                      <option key={option} value={option}>{TEAM_ROLE_LABELS[option]}</option>
+                    ))}
                   </select>
                 </div>
 
@@ -282,7 +219,7 @@ const InviteModal = ({ isOpen, onClose, onInvite }: { isOpen: boolean, onClose:
               </div>
 
               <div className="mt-4 text-xs text-muted-foreground text-center">
-                <p>Teamlid ontvangt een uitnodiging via e-mail en kan binnen 24 uur toetreden.</p>
+                <p>Teamlid ontvangt een uitnodiging via e-mail en kan binnen 7 dagen toetreden.</p>
               </div>
             </div>
           </motion.div>
@@ -293,213 +230,237 @@ const InviteModal = ({ isOpen, onClose, onInvite }: { isOpen: boolean, onClose:
 };
 
 // Team Member Card
-const TeamMemberCard = ({ member, onEdit, onRemove }: { member: any, onEdit: (member: any) => void, onRemove: (member: any) => void }) => {
+const TeamMemberCard = ({ member, onRemove }: { member: TeamMember, onRemove?: (member: TeamMember) => void }) => {
   const statusConfig = getStatusConfig(member.status);
-  const roleConfig = rolePermissions[member.role as keyof typeof rolePermissions] || { label: member.role, color: "gray", icon: Activity };
+  const roleConfig = rolePermissions[member.role];
+  const displayName = member.name || member.email || 'Onbekend';
 
   return (
     <motion.div
       whileHover={{ y: -2, scale: 1.02 }}
       className="glass-card p-4 rounded-xl group cursor-pointer"
     >
-              <div className="flex items-center justify-between">
+      <div className="flex items-center justify-between">
         {/* Avatar & Status */}
         <div className="flex items-center gap-4 flex-1 min-w-0">
-                  <div className="relative">
+          <div className="relative">
             <div className="w-14 h-14 rounded-full bg-gradient-to-br from-primary/20 to-purple-600/20 flex items-center justify-center text-primary font-semibold text-lg">
-                      {member.avatar}
-                    </div>
+              {getInitials(displayName)}
+            </div>
             <motion.div
               initial={{ scale: 0 }}
               animate={{ scale: 1 }}
               className={`absolute -bottom-1 -right-1 w-5 h-5 rounded-full border-2 border-background flex items-center justify-center`}
               style={{ backgroundColor: statusConfig.color }}
+              title={statusConfig.label}
             >
               <statusConfig.icon className="h-3 w-3 text-white" />
             </motion.div>
-                  </div>
+          </div>
 
-                  {/* Member Info */}
+          {/* Member Info */}
           <div className="flex-1 min-w-0">
             <div className="flex items-center gap-2 mb-1">
-              <h3 className="font-semibold text-foreground line-clamp-1">{member.name}</h3>
-              <div className="flex items-center gap-1 px-2 py-1 bg-accent/20 rounded-full text-xs font-medium text-primary">
+              <h3 className="font-semibold text-foreground line-clamp-1">{displayName}</h3>
+              <div className="flex items-center gap-1 px-2 py-1 bg-accent/20 rounded-full text-xs font-medium text-primary" title={roleConfig.permissions}>
                 <roleConfig.icon className="h-3 w-3" />
-                {roleConfig.label}
+                {TEAM_ROLE_LABELS[member.role]}
               </div>
-                    </div>
+            </div>
             <p className="text-sm text-muted-foreground">{member.email}</p>
             <div className="flex items-center gap-4 text-xs text-muted-foreground mt-1">
-                      <span className="flex items-center gap-1">
-                        <Calendar className="h-3 w-3" />
-                {new Date(member.joinDate).toLocaleDateString('nl-NL')}
-                      </span>
-                      <span className="flex items-center gap-1">
-                        <Activity className="h-3 w-3" />
-                        {member.lastActive}
-                      </span>
-                    </div>
-                  </div>
-                </div>
-
-        {/* Workload & Projects */}
-        <div className="flex flex-col items-end gap-4">
-          {/* Workload Progress */}
-          <div className="w-24">
-            <div className="flex justify-between text-xs mb-1">
-              <span>Workload</span>
-              <span className="text-foreground/80">{member.workload}%</span>
-                      </div>
-            <div className="w-full bg-muted rounded-full h-2">
-              <motion.div
-                initial={{ width: 0 }}
-                animate={{ width: `${member.workload}%` }}
-                className="h-2 bg-gradient-to-r from-primary to-purple-600 rounded-full"
-                transition={{ duration: 1 }}
-              />
-                    </div>
-                  </div>
-
-          {/* Projects Count */}
-                  <div className="text-center">
-            <p className="text-xs text-muted-foreground mb-1">Projects</p>
-            <p className="text-sm font-medium text-foreground">{member.projects}</p>
+              <span className="flex items-center gap-1">
+                <Calendar className="h-3 w-3" />
+                {new Date(member.joined_at).toLocaleDateString('nl-NL')}
+              </span>
+              <span className="flex items-center gap-1">
+                <statusConfig.icon className="h-3 w-3" />
+                {statusConfig.label}
+              </span>
+            </div>
           </div>
-                  </div>
+        </div>
 
-                  {/* Actions */}
-        <div className="flex items-center gap-2 opacity-0 group-hover:opacity-100 transition-opacity duration-300">
-          <motion.button
-            whileHover={{ scale: 1.1 }}
-            whileTap={{ scale: 0.9 }}
-                      onClick={() => {
-              // Edit member
-              toast(`Editing ${member.name}`, { duration: 2000 });
-            }}
-            className="modern-glass-button p-2 rounded-lg text-primary"
-            aria-label="Edit member"
-          >
-            <Mail className="h-4 w-4" />
-          </motion.button>
-          <motion.button
-            whileHover={{ scale: 1.1 }}
-            whileTap={{ scale: 0.9 }}
-                      onClick={() => {
-              // Remove member
-              toast.error(`Removed ${member.name}`, { duration: 3000 });
-              onRemove(member.id);
-            }}
-            className="p-2 rounded-lg text-destructive hover:bg-destructive/10 transition-colors"
-            aria-label="Remove member"
-          >
-            <Trash2 className="h-4 w-4" />
-          </motion.button>
-                  </div>
-                </div>
+        {/* Actions */}
+        {onRemove && member.role !== 'owner' && (
+          <div className="flex items-center gap-2 opacity-0 group-hover:opacity-100 transition-opacity duration-300">
+            <motion.button
+              whileHover={{ scale: 1.1 }}
+              whileTap={{ scale: 0.9 }}
+              onClick={() => onRemove(member)}
+              className="p-2 rounded-lg text-destructive hover:bg-destructive/10 transition-colors"
+              aria-label="Teamlid verwijderen"
+            >
+              <Trash2 className="h-4 w-4" />
+            </motion.button>
+          </div>
+        )}
+      </div>
     </motion.div>
   );
 };
 
+// Openstaande uitnodiging
+const InvitationRow = ({ invitation, onRevoke }: { invitation: TeamInvitation, onRevoke?: (invitation: TeamInvitation) => void }) => (
+  <div className="flex items-center justify-between gap-4 p-3 rounded-xl glass-card">
+    <div className="flex items-center gap-3 min-w-0">
+      <Mail className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+      <div className="min-w-0">
+        <p className="text-sm font-medium text-foreground line-clamp-1">{invitation.email}</p>
+        <p className="text-xs text-muted-foreground">
+          {TEAM_ROLE_LABELS[invitation.role]} · verloopt op {new Date(invitation.expires_at).toLocaleDateString('nl-NL')}
+        </p>
+      </div>
+    </div>
+    {onRevoke && (
+      <motion.button
+        whileHover={{ scale: 1.05 }}
+        whileTap={{ scale: 0.95 }}
+        onClick={() => onRevoke(invitation)}
+        className="inline-flex items-center gap-1 px-3 py-1.5 rounded-lg text-sm text-destructive hover:bg-destructive/10 transition-colors"
+      >
+        <XCircle className="h-4 w-4" />
+        Intrekken
+      </motion.button>
+    )}
+  </div>
+);
+
 // Activity Feed Item
-const ActivityItem = ({ activity }: { activity: any }) => {
-  const Icon = activity.type === "success" ? CheckCircle : activity.type === "error" ? AlertCircle : Activity;
+const ActivityItem = ({ activity }: { activity: ActivityLogEntry }) => {
+  const tone = activityTone(activity.action);
+  const description = activityDescription(activity);
+  const dotColor = tone === "success" ? "bg-green-400" : tone === "error" ? "bg-red-400" : tone === "warning" ? "bg-yellow-400" : "bg-blue-400";
 
   return (
     <motion.div
       whileHover={{ x: 4 }}
       className="flex items-center gap-3 p-3 rounded-xl glass-card hover:bg-accent/50 transition-all"
     >
-      <div className={`flex-shrink-0 w-2 h-2 rounded-full ${activity.type === "success" ? "bg-green-400" : "bg-blue-400"}`}></div>
+      <div className={`flex-shrink-0 w-2 h-2 rounded-full ${dotColor}`}></div>
       <div className="flex-1 min-w-0">
-        <p className="text-sm font-medium text-foreground">{activity.user}</p>
-        <p className="text-xs text-muted-foreground line-clamp-1">{activity.action}</p>
+        <p className="text-sm font-medium text-foreground">{activityActor(activity)}</p>
+        <p className="text-xs text-muted-foreground line-clamp-1">
+          {activityTitle(activity.action)}{description ? `: ${description}` : ''}
+        </p>
       </div>
-      <span className="text-xs text-muted-foreground whitespace-nowrap">{activity.time}</span>
+      <span className="text-xs text-muted-foreground whitespace-nowrap">{formatActivityTime(activity.created_at)}</span>
     </motion.div>
   );
 };
 
 // Team Stats Cards
-const TeamStats = () => (
-  <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-8">
-    <motion.div className="glass-card p-6 rounded-2xl text-center">
-      <div className="flex items-center justify-center mb-2">
-        <Users className="h-8 w-8 text-primary" />
-      </div>
-      <div>
-        <p className="text-3xl font-bold text-foreground">5</p>
-        <p className="text-sm text-muted-foreground">Team Members</p>
-      </div>
-    </motion.div>
+const TeamStats = ({ overview }: { overview: TeamOverview }) => {
+  const activeMembers = overview.members.filter(m => m.status === 'active').length;
 
-    <motion.div className="glass-card p-6 rounded-2xl text-center">
-      <div className="flex items-center justify-center mb-2">
-        <CheckCircle className="h-8 w-8 text-green-400" />
-      </div>
-      <div>
-        <p className="text-3xl font-bold text-foreground">3</p>
-        <p className="text-sm text-muted-foreground">Active Now</p>
-      </div>
-    </motion.div>
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-8">
+      <motion.div className="glass-card p-6 rounded-2xl text-center">
+        <div className="flex items-center justify-center mb-2">
+          <Users className="h-8 w-8 text-primary" />
+        </div>
+        <div>
+          <p className="text-3xl font-bold text-foreground">{overview.members.length}</p>
+          <p className="text-sm text-muted-foreground">Teamleden</p>
+        </div>
+      </motion.div>
 
-    <motion.div className="glass-card p-6 rounded-2xl text-center">
-      <div className="flex items-center justify-center mb-2">
-        <Activity className="h-8 w-8 text-blue-400" />
-      </div>
-      <div>
-        <p className="text-3xl font-bold text-foreground">73%</p>
-        <p className="text-sm text-muted-foreground">Avg Workload</p>
-      </div>
-    </motion.div>
+      <motion.div className="glass-card p-6 rounded-2xl text-center">
+        <div className="flex items-center justify-center mb-2">
+          <CheckCircle className="h-8 w-8 text-green-400" />
+        </div>
+        <div>
+          <p className="text-3xl font-bold text-foreground">{activeMembers}</p>
+          <p className="text-sm text-muted-foreground">Actief</p>
+        </div>
+      </motion.div>
 
-    <motion.div className="glass-card p-6 rounded-2xl text-center">
-      <div className="flex items-center justify-center mb-2">
-        <Crown className="h-8 w-8 text-purple-400" />
-      </div>
-      <div>
-        <p className="text-3xl font-bold text-foreground">13</p>
-        <p className="text-sm text-muted-foreground">Total Projects</p>
-      </div>
-    </motion.div>
-              </div>
-);
+      <motion.div className="glass-card p-6 rounded-2xl text-center">
+        <div className="flex items-center justify-center mb-2">
+          <Mail className="h-8 w-8 text-blue-400" />
+        </div>
+        <div>
+          <p className="text-3xl font-bold text-foreground">{overview.invitations.length}</p>
+          <p className="text-sm text-muted-foreground">Openstaande uitnodigingen</p>
+        </div>
+      </motion.div>
+
+      <motion.div className="glass-card p-6 rounded-2xl text-center">
+        <div className="flex items-center justify-center mb-2">
+          <Crown className="h-8 w-8 text-purple-400" />
+        </div>
+        <div>
+          <p className="text-3xl font-bold text-foreground">
+            {overview.seats_used}{overview.max_team_size !== null && ` / ${overview.max_team_size}`}
+          </p>
+          <p className="text-sm text-muted-foreground">Plaatsen in gebruik</p>
+        </div>
+      </motion.div>
+    </div>
+  );
+};
 
 // Main Team Page Component
 export default function TeamPage() {
-  const [teamMembers, setTeamMembers] = useState<any[]>([]);
-  const [activity, setActivity] = useState(teamActivity);
+  const [overview, setOverview] = useState<TeamOverview | null>(null);
+  const { activity, isLoading: isActivityLoading, isLive, refresh: refreshActivity } = useActivityFeed({ limit: TEAM_ACTIVITY_LIMIT });
   const [isInviteOpen, setIsInviteOpen] = useState(false);
   const [searchTerm, setSearchTerm] = useState('');
-  const [isLoading, setIsLoading] = useState(false);
-
-  const handleInvite = (inviteData: any) => {
-    // Simulate API call
-    toast.success(`Uitnodiging verzonden naar ${inviteData.email}`, { duration: 4000 });
-    setTeamMembers(prev => [...prev, {
-      id: Date.now(),
-      name: inviteData.email.split('@')[0],
-      email: inviteData.email,
-      role: inviteData.role,
-      status: "invited",
-      workload: 0,
-      joinDate: new Date().toISOString().split('T')[0],
-      lastActive: "Just invited",
-      projects: 0,
-      avatar: inviteData.email[0].toUpperCase(),
-      permissions: inviteData.role,
-      inviteStatus: "pending"
-    }]);
+  const [isLoading, setIsLoading] = useState(true);
+  const canManageTeam = usePermission('team:manage');
+
+  const loadTeam = useCallback(async () => {
+    const result = await teamApi.getOverview();
+    if (result.success && result.data) {
+      setOverview(result.data);
+    } else {
+      toast.error(result.error || 'Fout bij het ophalen van het team');
+    }
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => {
+    loadTeam();
+  }, [loadTeam]);
+
+  const teamMembers = overview?.members ?? [];
+  const invitations = overview?.invitations ?? [];
+  const isTeamFull = overview !== null && overview.max_team_size !== null && overview.seats_used >= overview.max_team_size;
+
+  const handleInvited = () => {
+    // Opnieuw laden, want een nieuwe uitnodiging vervangt een eerdere voor hetzelfde adres
+    loadTeam();
+  };
+
+  const handleRevoke = async (invitation: TeamInvitation) => {
+    const result = await teamApi.revokeInvitation(invitation.id);
+    if (!result.success) {
+      toast.error(result.error || 'Fout bij het intrekken van de uitnodiging');
+      return;
+    }
+    toast.success(`Uitnodiging voor ${invitation.email} ingetrokken`, { duration: 3000 });
+    loadTeam();
   };
 
-  const handleRemove = (id: any) => {
-    setTeamMembers(prev => prev.filter(member => member.id !== id));
+  const handleRemove = async (member: TeamMember) => {
+    if (!confirm(`Weet je zeker dat je ${member.name || member.email} uit het team wilt verwijderen?`)) {
+      return;
+    }
+
+    const result = await teamApi.removeMember(member.id);
+    if (!result.success) {
+      toast.error(result.error || 'Fout bij het verwijderen van het teamlid');
+      return;
+    }
     toast.success("Teamlid verwijderd", { duration: 3000 });
+    loadTeam();
   };
 
+  const search = searchTerm.toLowerCase();
   const filteredMembers = teamMembers.filter(member =>
-    member.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    member.email.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    member.role.toLowerCase().includes(searchTerm.toLowerCase())
+    (member.name || '').toLowerCase().includes(search) ||
+    (member.email || '').toLowerCase().includes(search) ||
+    TEAM_ROLE_LABELS[member.role].toLowerCase().includes(search)
   );
 
   if (isLoading) {
@@ -557,7 +518,9 @@ export default function TeamPage() {
             whileHover={{ scale: 1.05 }}
             whileTap={{ scale: 0.95 }}
             onClick={() => setIsInviteOpen(true)}
-            className="glass-card-premium inline-flex items-center gap-2 px-6 py-2 rounded-lg font-medium shadow-lg"
+            disabled={isTeamFull || !canManageTeam}
+            title={isTeamFull ? 'Alle plaatsen van je abonnement zijn in gebruik' : undefined}
+            className="glass-card-premium inline-flex items-center gap-2 px-6 py-2 rounded-lg font-medium shadow-lg disabled:opacity-50"
           >
             <UserPlus className="h-4 w-4" />
             <span className="hidden sm:inline">Invite Member</span>
@@ -567,7 +530,7 @@ export default function TeamPage() {
       </motion.div>
 
       {/* Team Stats */}
-      <TeamStats />
+      {overview && <TeamStats overview={overview} />}
 
       {/* Team Members Grid */}
       <motion.div 
@@ -584,7 +547,7 @@ export default function TeamPage() {
             </span>
             <span className="flex items-center gap-1">
               <Clock className="h-3 w-3 text-yellow-400" />
-              {teamMembers.filter(m => m.status === "away").length} away
+              {invitations.length} uitgenodigd
             </span>
           </div>
         </div>
@@ -599,8 +562,7 @@ export default function TeamPage() {
             >
               <TeamMemberCard 
                 member={member} 
-                onEdit={() => toast(`Editing ${member.name}`)}
-                onRemove={handleRemove}
+                onRemove={canManageTeam ? handleRemove : undefined}
               />
             </motion.div>
           ))}
@@ -615,18 +577,36 @@ export default function TeamPage() {
             <Users className="mx-auto h-12 w-12 text-muted-foreground mb-4" />
             <h3 className="text-lg font-medium text-foreground mb-2">Geen teamleden gevonden</h3>
             <p className="text-muted-foreground mb-6">Je team is nog leeg. Nodig je eerste lid uit om te beginnen.</p>
-            <motion.button
-              whileHover={{ scale: 1.05 }}
-              onClick={() => setIsInviteOpen(true)}
-              className="modern-glass-button inline-flex items-center gap-2 px-4 py-2"
-            >
-              <UserPlus className="h-4 w-4" />
-              Eerste teamlid uitnodigen
-            </motion.button>
+            {canManageTeam && (
+              <motion.button
+                whileHover={{ scale: 1.05 }}
+                onClick={() => setIsInviteOpen(true)}
+                className="modern-glass-button inline-flex items-center gap-2 px-4 py-2"
+              >
+                <UserPlus className="h-4 w-4" />
+                Eerste teamlid uitnodigen
+              </motion.button>
+            )}
           </motion.div>
         )}
       </motion.div>
 
+      {/* Pending Invitations */}
+      {invitations.length > 0 && (
+        <motion.div 
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="space-y-4"
+        >
+          <h2 className="text-xl font-semibold text-foreground">Openstaande uitnodigingen ({invitations.length})</h2>
+          <div className="space-y-2">
+            {invitations.map(invitation => (
+              <InvitationRow key={invitation.id} invitation={invitation} onRevoke={canManageTeam ? handleRevoke : undefined} />
+            ))}
+          </div>
+        </motion.div>
+      )}
+
       {/* Activity Feed */}
       <motion.div 
         initial={{ opacity: 0, y: 20 }}
@@ -636,22 +616,32 @@ export default function TeamPage() {
         <div className="flex items-center justify-between">
           <h2 className="text-xl font-semibold text-foreground flex items-center gap-2">
             Recente Activiteit
-            <span className="ml-2 px-2 py-1 bg-primary/10 text-primary text-xs rounded-full">
-              Live
-            </span>
+            {isLive && (
+              <span className="ml-2 px-2 py-1 bg-primary/10 text-primary text-xs rounded-full">
+                Live
+              </span>
+            )}
           </h2>
           <motion.button
             whileHover={{ scale: 1.05 }}
             className="modern-glass-button inline-flex items-center gap-2 px-4 py-2 text-sm"
-            onClick={() => toast("Activiteit feed verversen", { duration: 2000 })}
+            onClick={refreshActivity}
           >
             <Activity className="h-4 w-4" />
-            Refresh
+            Vernieuwen
           </motion.button>
         </div>
 
         <div className="space-y-3 max-h-[400px] overflow-y-auto glass-card rounded-2xl p-4">
-          {activity.map((item, index) => (
+          {isActivityLoading && (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            </div>
+          )}
+          {!isActivityLoading && activity.length === 0 && (
+            <p className="text-sm text-muted-foreground">Nog geen activiteit in je team</p>
+          )}
+          {!isActivityLoading && activity.slice(0, TEAM_ACTIVITY_LIMIT).map((item, index) => (
             <motion.div
               key={item.id}
               initial={{ opacity: 0, x: -20 }}
@@ -668,7 +658,7 @@ export default function TeamPage() {
       <InviteModal 
         isOpen={isInviteOpen} 
         onClose={() => setIsInviteOpen(false)}
-        onInvite={handleInvite}
+        onInvited={handleInvited}
       />
     </div>
   );
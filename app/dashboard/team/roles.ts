@@ -0,0 +1,11 @@
+// Weergave van teamrollen, gedeeld door de teampagina en de uitnodigingspagina
+
+import type { TeamRole } from "../../../lib/auth/organization";
+
+export const TEAM_ROLE_LABELS: Record<TeamRole, string> = {
+  owner: 'Eigenaar',
+  admin: 'Beheerder',
+  developer: 'Developer',
+  designer: 'Designer',
+  support: 'Support',
+};
@@ -0,0 +1,112 @@
+'use client'
+
+import React, { useState } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { Users, XCircle, Loader, AlertTriangle } from 'lucide-react'
+import type { PublicTeamInvitation } from '../../../types/api/team'
+import { TEAM_ROLE_LABELS } from '../../dashboard/team/roles'
+
+interface InviteAcceptProps {
+  token: string
+  invitation: PublicTeamInvitation
+  blocker: string | null
+  signedInEmail: string | null
+}
+
+export default function InviteAccept({ token, invitation, blocker, signedInEmail }: InviteAcceptProps) {
+  const router = useRouter()
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const returnPath = encodeURIComponent(`/invite/${token}`)
+  const isOtherAccount = signedInEmail !== null && signedInEmail.toLowerCase() !== invitation.email.toLowerCase()
+
+  const formatDate = (date: string) =>
+    new Date(date).toLocaleDateString('nl-NL', { year: 'numeric', month: 'long', day: 'numeric' })
+
+  const handleAccept = async () => {
+    setIsSubmitting(true)
+    setError(null)
+    try {
+      const response = await fetch(`/api/invitations/${token}`, { method: 'POST' })
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        throw new Error(data.error || 'Uitnodiging accepteren mislukt')
+      }
+      router.push('/dashboard')
+      router.refresh()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Uitnodiging accepteren mislukt')
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-10 px-4">
+      <div className="max-w-lg mx-auto space-y-6">
+        <div className="bg-white rounded-2xl border border-gray-200 shadow-sm p-8">
+          <p className="text-sm text-gray-500">{invitation.organization_name}</p>
+          <h1 className="text-2xl font-bold text-gray-900 mt-1 flex items-center gap-2">
+            <Users className="w-6 h-6 text-blue-600" />
+            Uitnodiging voor het team
+          </h1>
+          <div className="mt-2 text-sm text-gray-600 space-y-1">
+            <p>Uitgenodigd: {invitation.email}</p>
+            <p>Rol: {TEAM_ROLE_LABELS[invitation.role]}</p>
+            <p>Geldig tot: {formatDate(invitation.expires_at)}</p>
+          </div>
+        </div>
+
+        {blocker ? (
+          <div className="flex items-center gap-3 p-6 rounded-2xl bg-red-50 border border-red-200 text-red-800">
+            <XCircle className="w-6 h-6" />
+            <p className="font-semibold">{blocker}</p>
+          </div>
+        ) : signedInEmail === null ? (
+          <div className="bg-white rounded-2xl border border-gray-200 shadow-sm p-8 space-y-4">
+            <p className="text-gray-700">
+              Log in of maak een account aan met {invitation.email} om de uitnodiging te accepteren.
+            </p>
+            <div className="flex flex-col sm:flex-row gap-3">
+              <Link
+                href={`/login?redirectTo=${returnPath}`}
+                className="flex-1 flex items-center justify-center px-6 py-3 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-semibold transition-colors"
+              >
+                Inloggen
+              </Link>
+              <Link
+                href={`/register?redirectTo=${returnPath}`}
+                className="flex-1 flex items-center justify-center px-6 py-3 bg-white border border-gray-300 hover:bg-gray-100 text-gray-700 rounded-lg font-semibold transition-colors"
+              >
+                Account aanmaken
+              </Link>
+            </div>
+          </div>
+        ) : isOtherAccount ? (
+          <div className="flex items-start gap-3 p-6 rounded-2xl bg-yellow-50 border border-yellow-200 text-yellow-800">
+            <AlertTriangle className="w-6 h-6 flex-shrink-0" />
+            <p>
+              Je bent ingelogd als {signedInEmail}, maar deze uitnodiging is verstuurd naar {invitation.email}.
+              Log uit en log in met dat e-mailadres om de uitnodiging te accepteren.
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {error && (
+              <p className="p-4 rounded-lg bg-red-50 border border-red-200 text-sm text-red-700">{error}</p>
+            )}
+            <button
+              onClick={handleAccept}
+              disabled={isSubmitting}
+              className="w-full flex items-center justify-center gap-2 px-6 py-3 bg-green-600 hover:bg-green-700 disabled:opacity-60 text-white rounded-lg font-semibold transition-colors"
+            >
+              {isSubmitting ? <Loader className="w-5 h-5 animate-spin" /> : <Users className="w-5 h-5" />}
+              Uitnodiging accepteren
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
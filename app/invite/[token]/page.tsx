@@ -0,0 +1,31 @@
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { createServer } from '@/lib/supabase/server';
+import { findInvitationByToken, getInviteBlocker, toPublicInvitation } from '@/lib/team-invites';
+import InviteAccept from './InviteAccept';
+
+export const dynamic = 'force-dynamic';
+
+export const metadata: Metadata = {
+  title: 'Uitnodiging',
+  robots: { index: false, follow: false },
+};
+
+export default async function InvitePage({ params }: { params: { token: string } }) {
+  const result = await findInvitationByToken(createAdminClient(), params.token);
+  if (!result) {
+    notFound();
+  }
+
+  const { data: { user } } = await createServer().auth.getUser();
+
+  return (
+    <InviteAccept
+      token={params.token}
+      invitation={toPublicInvitation(result.invitation, result.organizationName)}
+      blocker={getInviteBlocker(result.invitation)}
+      signedInEmail={user?.email ?? null}
+    />
+  );
+}
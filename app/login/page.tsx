@@ -4,6 +4,7 @@ import { Lock, Mail, LogIn, Eye, EyeOff, ArrowRight, Sparkles, Shield, Zap } fro
 import Link from 'next/link'
 import { useAuth } from '@/app/providers'
 import { useRouter } from 'next/navigation'
+import { safeRedirectPath } from '../../lib/auth/routes'
 import ErrorMessage from '../../components/ui/ErrorMessage'
 import { motion } from 'framer-motion'
 import GradientText from '../../components/ui/GradientText'
@@ -41,10 +42,9 @@ export default function LoginPage() {
     try {
       await signIn(email, password)
       
-      // Check for redirect parameter
+      // Terug naar de pagina waar de middleware vandaan kwam (?next=) of naar de uitnodiging (?redirectTo=)
       const searchParams = new URLSearchParams(window.location.search)
-      const redirectTo = searchParams.get('redirectTo') || '/dashboard'
-      router.push(redirectTo)
+      router.push(safeRedirectPath(searchParams.get('next') || searchParams.get('redirectTo')))
     } catch (err: any) {
       // Use the error message from the error handler
       setError(err.message || 'Inloggen mislukt. Controleer je gegevens.')
@@ -0,0 +1,348 @@
+'use client'
+
+import React, { useEffect, useRef, useState } from 'react'
+import { CheckCircle, XCircle, Download, PenLine, Type, Loader, Eraser, FileText } from 'lucide-react'
+import type { PublicOffer, SignatureType } from '../../../types/api/offer'
+
+interface OfferPortalProps {
+  token: string
+  initialOffer: PublicOffer
+}
+
+type Mode = 'idle' | 'accept' | 'reject'
+
+export default function OfferPortal({ token, initialOffer }: OfferPortalProps) {
+  const [offer, setOffer] = useState(initialOffer)
+  const [mode, setMode] = useState<Mode>('idle')
+  const [name, setName] = useState('')
+  const [signatureType, setSignatureType] = useState<SignatureType>('typed')
+  const [typedSignature, setTypedSignature] = useState('')
+  const [reason, setReason] = useState('')
+  const [hasDrawing, setHasDrawing] = useState(false)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const isDrawing = useRef(false)
+
+  // Registreer de eerste keer openen (zet viewed_at)
+  useEffect(() => {
+    fetch(`/api/o/${token}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ action: 'view' }),
+    }).catch(() => undefined)
+  }, [token])
+
+  const formatCurrency = (amount: number) =>
+    new Intl.NumberFormat('nl-NL', { style: 'currency', currency: offer.currency || 'EUR' }).format(amount)
+
+  const formatDate = (date: string) =>
+    new Date(date).toLocaleDateString('nl-NL', { year: 'numeric', month: 'long', day: 'numeric' })
+
+  const canRespond = offer.status === 'sent' || offer.status === 'viewed'
+
+  const getPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect()
+    return {
+      x: (e.clientX - rect.left) * (e.currentTarget.width / rect.width),
+      y: (e.clientY - rect.top) * (e.currentTarget.height / rect.height),
+    }
+  }
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const context = canvasRef.current?.getContext('2d')
+    if (!context) return
+    const { x, y } = getPoint(e)
+    context.lineWidth = 2
+    context.lineCap = 'round'
+    context.strokeStyle = '#111827'
+    context.beginPath()
+    context.moveTo(x, y)
+    isDrawing.current = true
+    e.currentTarget.setPointerCapture(e.pointerId)
+  }
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!isDrawing.current) return
+    const context = canvasRef.current?.getContext('2d')
+    if (!context) return
+    const { x, y } = getPoint(e)
+    context.lineTo(x, y)
+    context.stroke()
+    setHasDrawing(true)
+  }
+
+  const handlePointerUp = () => {
+    isDrawing.current = false
+  }
+
+  const clearSignature = () => {
+    const canvas = canvasRef.current
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height)
+    setHasDrawing(false)
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError(null)
+
+    let body: Record<string, string>
+    if (mode === 'accept') {
+      const signature = signatureType === 'typed' ? typedSignature : canvasRef.current?.toDataURL('image/png') || ''
+      if (signatureType === 'drawn' && !hasDrawing) {
+        setError('Zet je handtekening in het vak')
+        return
+      }
+      body = { action: 'accept', name, signature_type: signatureType, signature }
+    } else {
+      body = { action: 'reject', name, reason }
+    }
+
+    setIsSubmitting(true)
+    try {
+      const response = await fetch(`/api/o/${token}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      })
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        setError(data.error || 'Er is iets misgegaan, probeer het opnieuw')
+        return
+      }
+      setOffer(data.offer)
+      setMode('idle')
+    } catch {
+      setError('Er is iets misgegaan, probeer het opnieuw')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const inputClass = 'w-full p-3 rounded-lg border border-gray-300 bg-white text-gray-900 focus:ring-2 focus:ring-blue-500 focus:border-transparent'
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-10 px-4">
+      <div className="max-w-3xl mx-auto space-y-6">
+        <div className="bg-white rounded-2xl border border-gray-200 shadow-sm p-8">
+          <p className="text-sm text-gray-500">{offer.organization_name}</p>
+          <h1 className="text-2xl font-bold text-gray-900 mt-1 flex items-center gap-2">
+            <FileText className="w-6 h-6 text-blue-600" />
+            {offer.title}
+          </h1>
+          <div className="mt-2 text-sm text-gray-600 space-y-1">
+            <p>Voor: {offer.client_name}</p>
+            <p>Datum: {formatDate(offer.created_at)}</p>
+            {offer.due_date && <p>Geldig tot: {formatDate(offer.due_date)}</p>}
+          </div>
+
+          {offer.description && (
+            <p className="mt-6 text-gray-700 whitespace-pre-line">{offer.description}</p>
+          )}
+
+          <table className="w-full mt-6 text-sm">
+            <thead>
+              <tr className="border-b border-gray-200 text-left text-gray-500">
+                <th className="py-2 font-medium">Omschrijving</th>
+                <th className="py-2 font-medium text-right">Aantal</th>
+                <th className="py-2 font-medium text-right">Prijs</th>
+                <th className="py-2 font-medium text-right">Totaal</th>
+              </tr>
+            </thead>
+            <tbody>
+              {offer.products.map((product, index) => (
+                <tr key={index} className="border-b border-gray-100">
+                  <td className="py-3">
+                    <p className="font-medium text-gray-900">{product.name}</p>
+                    {product.description && <p className="text-gray-500">{product.description}</p>}
+                  </td>
+                  <td className="py-3 text-right text-gray-700">{product.quantity}</td>
+                  <td className="py-3 text-right text-gray-700">{formatCurrency(product.price)}</td>
+                  <td className="py-3 text-right text-gray-900">{formatCurrency(product.quantity * product.price)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <div className="flex justify-between items-center mt-6 text-lg font-semibold text-gray-900">
+            <span>Totaal (excl. BTW)</span>
+            <span>{formatCurrency(offer.amount)}</span>
+          </div>
+
+          {offer.pdf_url && (
+            <a
+              href={offer.pdf_url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="inline-flex items-center gap-2 mt-6 text-sm text-blue-600 hover:underline"
+            >
+              <Download className="w-4 h-4" />
+              Download PDF
+            </a>
+          )}
+        </div>
+
+        {offer.status === 'accepted' && (
+          <div className="flex items-center gap-3 p-6 rounded-2xl bg-green-50 border border-green-200 text-green-800">
+            <CheckCircle className="w-6 h-6" />
+            Bedankt! Deze offerte is geaccepteerd. {offer.organization_name} neemt contact met je op.
+          </div>
+        )}
+
+        {offer.status === 'rejected' && (
+          <div className="flex items-center gap-3 p-6 rounded-2xl bg-red-50 border border-red-200 text-red-800">
+            <XCircle className="w-6 h-6" />
+            Deze offerte is afgewezen.
+          </div>
+        )}
+
+        {offer.status === 'expired' && (
+          <div className="p-6 rounded-2xl bg-gray-100 border border-gray-200 text-gray-700">
+            Deze offerte is verlopen. Neem contact op met {offer.organization_name} voor een nieuwe offerte.
+          </div>
+        )}
+
+        {canRespond && mode === 'idle' && (
+          <div className="flex flex-col sm:flex-row gap-3">
+            <button
+              onClick={() => setMode('accept')}
+              className="flex-1 flex items-center justify-center gap-2 px-6 py-3 bg-green-600 hover:bg-green-700 text-white rounded-lg font-semibold transition-colors"
+            >
+              <CheckCircle className="w-5 h-5" />
+              Offerte accepteren
+            </button>
+            <button
+              onClick={() => setMode('reject')}
+              className="flex-1 flex items-center justify-center gap-2 px-6 py-3 bg-white border border-gray-300 hover:bg-gray-100 text-gray-700 rounded-lg font-semibold transition-colors"
+            >
+              <XCircle className="w-5 h-5" />
+              Afwijzen
+            </button>
+          </div>
+        )}
+
+        {canRespond && mode !== 'idle' && (
+          <form onSubmit={handleSubmit} className="bg-white rounded-2xl border border-gray-200 shadow-sm p-8 space-y-4">
+            <h2 className="text-lg font-semibold text-gray-900">
+              {mode === 'accept' ? 'Offerte accepteren' : 'Offerte afwijzen'}
+            </h2>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Volledige naam *</label>
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                className={inputClass}
+                required
+                placeholder="Jan Jansen"
+              />
+            </div>
+
+            {mode === 'accept' ? (
+              <div className="space-y-3">
+                <div className="flex gap-2">
+                  <button
+                    type="button"
+                    onClick={() => setSignatureType('typed')}
+                    className={`flex items-center gap-2 px-3 py-1.5 text-sm rounded-lg border ${
+                      signatureType === 'typed' ? 'border-blue-600 text-blue-600 bg-blue-50' : 'border-gray-300 text-gray-600'
+                    }`}
+                  >
+                    <Type className="w-4 h-4" />
+                    Typen
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setSignatureType('drawn')}
+                    className={`flex items-center gap-2 px-3 py-1.5 text-sm rounded-lg border ${
+                      signatureType === 'drawn' ? 'border-blue-600 text-blue-600 bg-blue-50' : 'border-gray-300 text-gray-600'
+                    }`}
+                  >
+                    <PenLine className="w-4 h-4" />
+                    Tekenen
+                  </button>
+                </div>
+
+                {signatureType === 'typed' ? (
+                  <input
+                    type="text"
+                    value={typedSignature}
+                    onChange={(e) => setTypedSignature(e.target.value)}
+                    className={`${inputClass} font-serif italic text-2xl`}
+                    required
+                    placeholder="Typ je handtekening"
+                    aria-label="Handtekening"
+                  />
+                ) : (
+                  <div>
+                    <canvas
+                      ref={canvasRef}
+                      width={600}
+                      height={180}
+                      onPointerDown={handlePointerDown}
+                      onPointerMove={handlePointerMove}
+                      onPointerUp={handlePointerUp}
+                      onPointerLeave={handlePointerUp}
+                      className="w-full h-44 rounded-lg border border-dashed border-gray-400 bg-white touch-none cursor-crosshair"
+                      aria-label="Teken je handtekening"
+                    />
+                    <button
+                      type="button"
+                      onClick={clearSignature}
+                      className="mt-2 flex items-center gap-1 text-sm text-gray-500 hover:text-gray-700"
+                    >
+                      <Eraser className="w-4 h-4" />
+                      Wissen
+                    </button>
+                  </div>
+                )}
+
+                <p className="text-xs text-gray-500">
+                  Door te ondertekenen ga je akkoord met deze offerte. Je naam, handtekening en het tijdstip worden vastgelegd.
+                </p>
+              </div>
+            ) : (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Reden *</label>
+                <textarea
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  rows={3}
+                  className={inputClass}
+                  required
+                  placeholder="Waarom wijs je deze offerte af?"
+                />
+              </div>
+            )}
+
+            {error && <p className="text-sm text-red-600">{error}</p>}
+
+            <div className="flex justify-end gap-3">
+              <button
+                type="button"
+                onClick={() => {
+                  setMode('idle')
+                  setError(null)
+                }}
+                className="px-6 py-3 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 transition-colors"
+              >
+                Annuleren
+              </button>
+              <button
+                type="submit"
+                disabled={isSubmitting}
+                className={`flex items-center gap-2 px-6 py-3 rounded-lg text-white font-semibold transition-colors disabled:opacity-50 ${
+                  mode === 'accept' ? 'bg-green-600 hover:bg-green-700' : 'bg-red-600 hover:bg-red-700'
+                }`}
+              >
+                {isSubmitting && <Loader className="w-4 h-4 animate-spin" />}
+                {mode === 'accept' ? 'Ondertekenen en accepteren' : 'Afwijzen'}
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  )
+}
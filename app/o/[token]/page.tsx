@@ -0,0 +1,21 @@
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { findOfferByToken, toPublicOffer } from '@/lib/offer-portal';
+import OfferPortal from './OfferPortal';
+
+export const dynamic = 'force-dynamic';
+
+export const metadata: Metadata = {
+  title: 'Offerte bekijken',
+  robots: { index: false, follow: false },
+};
+
+export default async function PublicOfferPage({ params }: { params: { token: string } }) {
+  const result = await findOfferByToken(createAdminClient(), params.token);
+  if (!result) {
+    notFound();
+  }
+
+  return <OfferPortal token={params.token} initialOffer={toPublicOffer(result.offer, result.organizationName)} />;
+}
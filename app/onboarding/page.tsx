@@ -0,0 +1,36 @@
+'use client'
+import { useRouter } from 'next/navigation'
+import { toast } from 'react-hot-toast'
+import PublicNav from '../components/PublicNav'
+import OnboardingWizard from '../register/components/OnboardingWizard'
+import { OnboardingData } from '../../lib/onboarding'
+import { onboardingApi } from '../../lib/api-service'
+
+// Force dynamic rendering for pages that use auth context
+export const dynamic = 'force-dynamic';
+
+// Nieuwe gebruikers komen hier na het registreren; de middleware stuurt ze hierheen zolang de onboarding niet af is
+export default function OnboardingPage() {
+  const router = useRouter()
+
+  const finishOnboarding = async (data: Partial<OnboardingData>) => {
+    const response = await onboardingApi.complete(data)
+    if (!response.success) {
+      toast.error(response.error || 'Er is een fout opgetreden bij het afronden van de onboarding')
+      return
+    }
+    router.push('/dashboard')
+  }
+
+  return (
+    <div className="min-h-screen bg-dark-bg">
+      <PublicNav currentPage="register" />
+      <div className="container-app py-24">
+        <OnboardingWizard
+          onComplete={finishOnboarding}
+          onSkip={() => finishOnboarding({})}
+        />
+      </div>
+    </div>
+  )
+}
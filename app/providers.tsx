@@ -3,12 +3,16 @@
 /* eslint-disable no-console */
 'use client'
 
-import React, { ReactNode, createContext, useState, useEffect } from 'react'
+import React, { ReactNode, createContext, useState, useEffect, useCallback } from 'react'
 import { ThemeProvider as ThemeWrapper  } from '../contexts/ThemeContext'
 import { AIPersonalizationProvider  } from '../contexts/AIPersonalizationContext'
 import { Toaster } from 'react-hot-toast'
 
 import { logger } from "@/lib/logger";
+import type { Permission } from "@/lib/auth/permissions";
+import type { TeamMembership } from "@/types/api/team";
+import type { OrganizationMembership } from "@/types/api/organization";
+import { organizationsApi } from "@/lib/api-service";
 type User = {
   id: string
   email: string
@@ -24,18 +28,73 @@ const AuthContext = createContext<{
   signOut: () => Promise<void>
   signUp: (email: string, password: string, name: string) => Promise<void>
   updateProfile: (updates: { full_name?: string; email?: string }) => Promise<void>
+  // Rol en rechten binnen de actieve organisatie; null zolang die niet bekend zijn
+  membership: TeamMembership | null
+  can: (permission: Permission) => boolean
+  // Organisaties waar de gebruiker lid van is, voor de organisatiewisselaar
+  organizations: OrganizationMembership[]
+  switchOrganization: (organizationId: string) => Promise<void>
 }>({
   user: null,
   loading: false,
   signIn: async () => {},
   signOut: async () => {},
   signUp: async () => {},
-  updateProfile: async () => {}
+  updateProfile: async () => {},
+  membership: null,
+  can: () => false,
+  organizations: [],
+  switchOrganization: async () => {}
 })
 
 export const AuthProvider = ({ children }: { children: ReactNode }) => {
   const [user, setUser] = useState<User | null>(null)
   const [loading, setLoading] = useState(true)
+  const [membership, setMembership] = useState<TeamMembership | null>(null)
+  const [organizations, setOrganizations] = useState<OrganizationMembership[]>([])
+
+  // Haal de rol in de actieve organisatie op zodra er een gebruiker is; de API routes controleren dezelfde rechten
+  const userId = user?.id
+  useEffect(() => {
+    if (!userId) {
+      setMembership(null)
+      setOrganizations([])
+      return
+    }
+
+    let cancelled = false
+    fetch('/api/team/me')
+      .then(response => (response.ok ? response.json() : null))
+      .then(body => {
+        if (!cancelled) setMembership(body?.membership ?? null)
+      })
+      .catch(error => {
+        logger.error('Membership loading error:', 'auth', error)
+        if (!cancelled) setMembership(null)
+      })
+
+    organizationsApi.getAll().then(response => {
+      if (!cancelled) setOrganizations(response.data?.organizations ?? [])
+    })
+
+    return () => {
+      cancelled = true
+    }
+  }, [userId])
+
+  const can = useCallback(
+    (permission: Permission) => membership?.permissions.includes(permission) ?? false,
+    [membership]
+  )
+
+  // Alle gegevens op de pagina horen bij de vorige organisatie, dus laad het dashboard opnieuw
+  const switchOrganization = useCallback(async (organizationId: string) => {
+    const response = await organizationsApi.switch(organizationId)
+    if (!response.success) {
+      throw new Error(response.error || 'Fout bij het wisselen van organisatie')
+    }
+    window.location.assign('/dashboard')
+  }, [])
 
   // Initialize auth state on mount
   useEffect(() => {
@@ -180,7 +239,7 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
   }
 
   return (
-    <AuthContext.Provider value={{ user, loading, signIn, signOut, signUp, updateProfile }}>
+    <AuthContext.Provider value={{ user, loading, signIn, signOut, signUp, updateProfile, membership, can, organizations, switchOrganization }}>
       {children}
     </AuthContext.Provider>
   )
@@ -195,6 +254,12 @@ export const useAuth = () => {
   return context
 }
 
+// Of de rol van de gebruiker een actie toestaat, om knoppen te verbergen of uit te schakelen
+export const usePermission = (permission: Permission): boolean => {
+  const { can } = useAuth()
+  return can(permission)
+}
+
 // Standby context (simple implementation)
 const StandbyContext = createContext({
   isStandby: false,
@@ -5,8 +5,7 @@ import Link from 'next/link'
 import { useAuth } from '../providers'
 import { useRouter } from 'next/navigation'
 import PublicNav from '../components/PublicNav'
-import OnboardingWizard from './components/OnboardingWizard'
-import { OnboardingData } from '../../lib/onboarding'
+import { ONBOARDING_PATH, safeRedirectPath } from '../../lib/auth/routes'
 import { motion } from 'framer-motion'
 import AnimatedCard from '../../components/ui/AnimatedCard'
 import GradientText from '../../components/ui/GradientText'
@@ -21,8 +20,6 @@ export default function RegisterPage() {
   const [showPassword, setShowPassword] = useState(false)
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState('')
-  const [showOnboarding, setShowOnboarding] = useState(false)
-  const [onboardingData, setOnboardingData] = useState<OnboardingData | null>(null)
   const { signUp } = useAuth()
   const router = useRouter()
 
@@ -34,8 +31,15 @@ export default function RegisterPage() {
     try {
       await signUp(form.email, form.password, form.name)
 
-      // Succes — toon onboarding
-      setShowOnboarding(true)
+      // Uitgenodigde gebruikers gaan terug naar hun uitnodiging in plaats van de onboarding
+      const redirectTo = new URLSearchParams(window.location.search).get('redirectTo')
+      if (redirectTo) {
+        router.push(safeRedirectPath(redirectTo))
+        return
+      }
+
+      // Succes — de onboarding maakt de organisatie aan
+      router.push(ONBOARDING_PATH)
     } catch (err: any) {
       setError(err.message || 'Er is een fout opgetreden bij het aanmaken van je account')
     } finally {
@@ -43,33 +47,6 @@ export default function RegisterPage() {
     }
   }
 
-  const handleOnboardingComplete = (data: OnboardingData) => {
-    setOnboardingData(data)
-    setShowOnboarding(false)
-    // Redirect to dashboard
-    router.push('/dashboard')
-  }
-
-  const handleOnboardingSkip = () => {
-    setShowOnboarding(false)
-    // Redirect to dashboard
-    router.push('/dashboard')
-  }
-
-  if (showOnboarding) {
-    return (
-      <div className="min-h-screen bg-dark-bg">
-        <PublicNav currentPage="register" />
-        <div className="container-app py-24">
-          <OnboardingWizard
-            onComplete={handleOnboardingComplete}
-            onSkip={handleOnboardingSkip}
-          />
-        </div>
-      </div>
-    )
-  }
-
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-900 via-blue-900/50 to-slate-900 relative overflow-hidden">
       {/* Enhanced Background Effects */}
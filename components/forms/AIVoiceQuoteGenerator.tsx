@@ -24,6 +24,10 @@ interface VoiceInputData {
 }
 
 import Image from 'next/image';
+import type { QuoteData } from '@/types/api/workflow';
+
+const formatAmount = (amount: number, currency: string) =>
+  new Intl.NumberFormat('nl-NL', { style: 'currency', currency }).format(amount);
 
 export default function AIVoiceQuoteGenerator() {
   const [isRecording, setIsRecording] = useState(false);
@@ -31,6 +35,7 @@ export default function AIVoiceQuoteGenerator() {
   const [transcript, setTranscript] = useState('');
   const [images, setImages] = useState<File[]>([]);
   const [dimensions, setDimensions] = useState({ width: '', height: '', depth: '' });
+  const [generatedQuote, setGeneratedQuote] = useState<QuoteData | null>(null);
   
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const audioChunksRef = useRef<Blob[]>([]);
@@ -93,6 +98,7 @@ export default function AIVoiceQuoteGenerator() {
 
   const generateQuote = async () => {
     setIsProcessing(true);
+    setGeneratedQuote(null);
     
     // Prepare data for AI
     const formData = new FormData();
@@ -108,8 +114,12 @@ export default function AIVoiceQuoteGenerator() {
       });
 
       const result = await response.json();
-      
-      // Handle success - redirect to quote page or show modal
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Quote generation failed');
+      }
+
+      setGeneratedQuote(result.data);
       logger.info('Generated quote:', 'AIVoiceQuoteGenerator', { result });
       
     } catch (error) {
@@ -278,6 +288,29 @@ export default function AIVoiceQuoteGenerator() {
             </div>
           </div>
 
+          {/* Generated Quote */}
+          {generatedQuote && (
+            <div className="mb-6 rounded-2xl border border-white/10 bg-white/5 p-4 text-white">
+              <p className="mb-3 text-sm text-gray-400">{generatedQuote.description}</p>
+              <ul className="mb-3 space-y-1 text-sm">
+                {generatedQuote.items.map((item, i) => (
+                  <li key={i} className="flex justify-between gap-4">
+                    <span>{item.quantity}x {item.description}</span>
+                    <span>{formatAmount(item.total, generatedQuote.currency)}</span>
+                  </li>
+                ))}
+              </ul>
+              <div className="flex justify-between border-t border-white/10 pt-2 text-sm text-gray-400">
+                <span>BTW {generatedQuote.vatRate}%</span>
+                <span>{formatAmount(generatedQuote.vatAmount ?? 0, generatedQuote.currency)}</span>
+              </div>
+              <div className="flex justify-between font-semibold">
+                <span>Totaal (geldig tot {generatedQuote.validUntil})</span>
+                <span>{formatAmount(generatedQuote.amount, generatedQuote.currency)}</span>
+              </div>
+            </div>
+          )}
+
           {/* Action Buttons */}
           <div className="flex gap-4">
             <button
@@ -0,0 +1,105 @@
+"use client";
+import { useCallback, useEffect, useId, useState } from 'react';
+import { activityApi } from '../../lib/api-service';
+import { createClient } from '../../lib/supabase/client';
+import { useAuth } from '../../app/providers';
+import type { ActivityFilters, ActivityLogEntry } from '../../types/api/activity';
+
+// Nieuwe regels vooraan, zonder de regels die al getoond worden nog eens toe te voegen
+const prependNew = (latest: ActivityLogEntry[], current: ActivityLogEntry[]): ActivityLogEntry[] => {
+  const known = new Set(current.map(entry => entry.id));
+  const fresh = latest.filter(entry => !known.has(entry.id));
+  return fresh.length > 0 ? [...fresh, ...current] : current;
+};
+
+/**
+ * Het activity log van de actieve organisatie via /api/activity, met live updates.
+ * Supabase Realtime meldt nieuwe regels; de eerste pagina wordt dan opnieuw opgehaald,
+ * zodat de filters en de gebruikersnamen van de API blijven gelden.
+ */
+export function useActivityFeed(filters: ActivityFilters = {}) {
+  const { membership } = useAuth();
+  const organizationId = membership?.organization_id ?? null;
+  const channelId = useId();
+  const [activity, setActivity] = useState<ActivityLogEntry[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isLive, setIsLive] = useState(false);
+
+  // Filters komen vaak als nieuw object binnen; vergelijk ze op inhoud
+  const filterKey = JSON.stringify(filters);
+
+  const load = useCallback(async () => {
+    setIsLoading(true);
+    const response = await activityApi.list(JSON.parse(filterKey));
+    if (response.success && response.data) {
+      setActivity(response.data.activity);
+      setNextCursor(response.data.pagination.next_cursor);
+      setError(null);
+    } else {
+      setError(response.error || 'Fout bij het ophalen van de activiteit');
+    }
+    setIsLoading(false);
+  }, [filterKey]);
+
+  const loadLatest = useCallback(async () => {
+    const response = await activityApi.list(JSON.parse(filterKey));
+    if (response.success && response.data) {
+      const latest = response.data.activity;
+      setActivity(current => prependNew(latest, current));
+    }
+  }, [filterKey]);
+
+  const loadMore = useCallback(async () => {
+    if (!nextCursor) return;
+    setIsLoadingMore(true);
+    const response = await activityApi.list(JSON.parse(filterKey), nextCursor);
+    if (response.success && response.data) {
+      const page = response.data;
+      setActivity(current => [...current, ...page.activity.filter(entry => !current.some(known => known.id === entry.id))]);
+      setNextCursor(page.pagination.next_cursor);
+    } else {
+      setError(response.error || 'Fout bij het ophalen van de activiteit');
+    }
+    setIsLoadingMore(false);
+  }, [filterKey, nextCursor]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  useEffect(() => {
+    if (!organizationId) return;
+
+    // Realtime past de leesrechten (activity:read) per abonnee toe
+    const supabase = createClient();
+    const channel = supabase
+      .channel(`activity-log:${organizationId}:${channelId}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'activity_log', filter: `organization_id=eq.${organizationId}` },
+        () => {
+          loadLatest();
+        }
+      )
+      .subscribe(status => setIsLive(status === 'SUBSCRIBED'));
+
+    return () => {
+      setIsLive(false);
+      supabase.removeChannel(channel);
+    };
+  }, [organizationId, channelId, loadLatest]);
+
+  return {
+    activity,
+    isLoading,
+    isLoadingMore,
+    error,
+    isLive,
+    hasMore: nextCursor !== null,
+    loadMore,
+    refresh: load,
+  };
+}
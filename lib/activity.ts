@@ -0,0 +1,124 @@
+// The audit trail in activity_log. Every route that creates, changes or deletes data logs it
+// here, as do the webhooks and background jobs; the dashboard reads it through /api/activity
+// and follows new rows with Supabase Realtime.
+
+import { isIP } from 'net';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { z } from 'zod';
+import { createAdminClient } from './supabase/admin';
+import { logger } from './logger';
+import { paginateQuery, toPage } from './public-api/pagination';
+import { activityListQuerySchema } from './public-api/schemas';
+import type { ActivityLogEntry, ActivityPage, ActivityResourceType } from '../types/api/activity';
+
+// Who did it: the request context of the API routes fits, webhooks and jobs pass userId null
+export interface ActivityActor {
+  organizationId: string;
+  userId: string | null;
+  // Set for requests made with an API key (RequestContext)
+  apiKeyId?: string | null;
+}
+
+export interface ActivityDetails {
+  action: string;
+  resource_type: ActivityResourceType;
+  resource_id?: string | null;
+  metadata?: Record<string, unknown>;
+}
+
+export const ACTIVITY_LOG_COLUMNS = 'id, organization_id, user_id, action, resource_type, resource_id, metadata, ip_address, user_agent, created_at, users (full_name, email)';
+
+export const MAX_USER_AGENT_LENGTH = 500;
+
+// The client address behind the proxy; ip_address is INET, so anything else becomes null
+export function requestIpAddress(request: Request): string | null {
+  const forwarded = request.headers.get('x-forwarded-for')?.split(',')[0]?.trim();
+  const address = forwarded || request.headers.get('x-real-ip')?.trim() || '';
+  return isIP(address) ? address : null;
+}
+
+export function toActivityRow(actor: ActivityActor, activity: ActivityDetails, request?: Request | null) {
+  return {
+    organization_id: actor.organizationId,
+    user_id: actor.userId,
+    action: activity.action,
+    resource_type: activity.resource_type,
+    resource_id: activity.resource_id ?? null,
+    metadata: {
+      ...activity.metadata,
+      ...(actor.apiKeyId ? { api_key_id: actor.apiKeyId } : {}),
+    },
+    ip_address: request ? requestIpAddress(request) : null,
+    user_agent: request?.headers.get('user-agent')?.slice(0, MAX_USER_AGENT_LENGTH) || null,
+  };
+}
+
+/**
+ * Write an activity_log row. Uses the service role client: members can read the log but
+ * not write it, so entries cannot be forged from the browser. Failures are logged and
+ * swallowed, because the change itself already succeeded.
+ */
+export async function logActivity(
+  actor: ActivityActor,
+  activity: ActivityDetails,
+  request?: Request | null
+): Promise<void> {
+  try {
+    const { error } = await createAdminClient()
+      .from('activity_log')
+      .insert(toActivityRow(actor, activity, request));
+    if (error) throw error;
+  } catch (error) {
+    logger.error('Failed to log activity', 'activity', { action: activity.action, error });
+  }
+}
+
+// The public API filters plus the team member who did it
+export const activityLogQuerySchema = activityListQuerySchema.extend({
+  user_id: z.string().uuid().optional(),
+});
+
+export type ActivityLogQuery = z.infer<typeof activityLogQuerySchema>;
+
+const toActivityLogEntry = (row: any): ActivityLogEntry => ({
+  id: row.id,
+  organization_id: row.organization_id,
+  user_id: row.user_id ?? null,
+  action: row.action,
+  resource_type: row.resource_type ?? null,
+  resource_id: row.resource_id ?? null,
+  metadata: row.metadata ?? null,
+  ip_address: row.ip_address ?? null,
+  user_agent: row.user_agent ?? null,
+  created_at: row.created_at,
+  user: (Array.isArray(row.users) ? row.users[0] : row.users) ?? null,
+});
+
+/**
+ * One page of the organization's activity, newest first by default. A cursor from another
+ * sort order throws PublicApiError (400).
+ */
+export async function listActivityLog(
+  supabase: SupabaseClient,
+  organizationId: string,
+  options: ActivityLogQuery
+): Promise<ActivityPage> {
+  let query = supabase.from('activity_log').select(ACTIVITY_LOG_COLUMNS).eq('organization_id', organizationId);
+
+  if (options.created_after) query = query.gte('created_at', options.created_after);
+  if (options.created_before) query = query.lt('created_at', options.created_before);
+  if (options.action) query = query.eq('action', options.action);
+  if (options.resource_type) query = query.eq('resource_type', options.resource_type);
+  if (options.resource_id) query = query.eq('resource_id', options.resource_id);
+  if (options.user_id) query = query.eq('user_id', options.user_id);
+
+  const { data, error } = await paginateQuery(query, options);
+  if (error) throw error;
+
+  const page = toPage((data || []) as any[], options, toActivityLogEntry);
+  return { activity: page.data, pagination: page.pagination };
+}
+
+// "offer_status_changed:accepted" for status changes, the plain verb otherwise
+export const statusChangeAction = (resource: 'offer' | 'invoice', status: string): string =>
+  `${resource}_status_changed:${status}`;
@@ -41,6 +41,11 @@ export interface CodeGenerationRequest {
   maxTokens?: number;
 }
 
+export interface GeminiImageInput {
+  mimeType: string;
+  data: string; // base64 encoded
+}
+
 export interface CodeRefactoringRequest {
   code: string;
   instructions: string;
@@ -248,6 +253,45 @@ Provide comprehensive test coverage including:
     }
   }
 
+  async generateQuote(prompt: string, images: GeminiImageInput[] = []): Promise<GeminiResponse> {
+    if (!this.model) {
+      throw new Error('Gemini service not initialized. Please check your API key.');
+    }
+
+    try {
+      const result = await this.model.generateContent({
+        contents: [{
+          role: 'user',
+          parts: [
+            { text: prompt },
+            ...images.map(image => ({ inlineData: { mimeType: image.mimeType, data: image.data } }))
+          ]
+        }],
+        generationConfig: {
+          temperature: 0.2,
+          maxOutputTokens: 2000,
+          responseMimeType: 'application/json',
+        },
+      });
+
+      const response = result.response;
+
+      logger.info('Gemini quote generation successful', 'gemini-service', {
+        model: this.modelName,
+        images: images.length,
+        tokensUsed: response.usageMetadata?.totalTokenCount || 'unknown'
+      });
+
+      return {
+        text: response.text(),
+        usage: response.usageMetadata
+      };
+    } catch (error) {
+      logger.error('Quote generation failed', 'gemini-service', error);
+      throw new Error('Failed to generate quote');
+    }
+  }
+
   async chat(messages: Array<{role: 'user' | 'model', content: string}>): Promise<string> {
     if (!this.model) {
       throw new Error('Gemini service not initialized. Please check your API key.');
@@ -276,6 +320,10 @@ Provide comprehensive test coverage including:
     return !!this.apiKey && !!this.genAI;
   }
 
+  getModelName(): string {
+    return this.modelName;
+  }
+
   getAvailableModels(): string[] {
     return [
       'gemini-1.5-pro',        // Most capable model available
@@ -1,4 +1,5 @@
 // AI Services
 export { geminiService } from './gemini-service';
 export { glmService } from './glm-service';
+export * from './quote-generator';
 export * from './aiPersonalization';
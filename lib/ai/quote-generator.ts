@@ -0,0 +1,139 @@
+// lib/ai/quote-generator.ts
+
+import { z } from 'zod';
+import { logger } from '../../utils/helpers/logger';
+import type { GeminiImageInput, GeminiResponse } from './gemini-service';
+import type { QuoteData } from '../../types/api/workflow';
+
+// Minimal model contract so the generator can run against a stubbed client in tests
+export interface QuoteModelClient {
+  generateQuote(prompt: string, images?: GeminiImageInput[]): Promise<GeminiResponse>;
+  getModelName(): string;
+}
+
+export interface QuoteDimensions {
+  width?: string;
+  height?: string;
+  depth?: string;
+}
+
+export interface QuoteGenerationInput {
+  transcript: string;
+  dimensions?: QuoteDimensions;
+  images?: GeminiImageInput[];
+}
+
+export interface QuoteGenerationResult {
+  quote: QuoteData;
+  prompt: string;
+  modelUsed: string;
+  tokensUsed: number | null;
+}
+
+export const DEFAULT_VAT_RATE = 21;
+export const DEFAULT_VALIDITY_DAYS = 30;
+
+// Shape we ask the model to return; totals are always recalculated server-side
+const modelQuoteSchema = z.object({
+  description: z.string().min(1),
+  currency: z.enum(['EUR', 'USD']).default('EUR'),
+  items: z.array(z.object({
+    description: z.string().min(1),
+    quantity: z.coerce.number().positive(),
+    unitPrice: z.coerce.number().nonnegative(),
+  })).min(1),
+  vatRate: z.coerce.number().min(0).max(100).default(DEFAULT_VAT_RATE),
+  validDays: z.coerce.number().int().positive().max(365).default(DEFAULT_VALIDITY_DAYS),
+  terms: z.string().optional(),
+});
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+export function buildQuotePrompt(input: QuoteGenerationInput): string {
+  const { transcript, dimensions = {}, images = [] } = input;
+  const dimensionLines = (['width', 'height', 'depth'] as const)
+    .filter(key => dimensions[key])
+    .map(key => `- ${key}: ${dimensions[key]} cm`);
+
+  return `You are an experienced estimator for a Dutch service business.
+Turn the customer request below into a priced quote. Write all descriptions in Dutch.
+Use realistic Dutch market prices in EUR, excluding VAT.
+
+Respond with JSON only, using exactly this shape:
+{
+  "description": string,
+  "currency": "EUR",
+  "items": [{ "description": string, "quantity": number, "unitPrice": number }],
+  "vatRate": number,
+  "validDays": number,
+  "terms": string
+}
+
+Customer request (transcribed speech):
+${transcript || '(no transcript, derive the request from the attached photos)'}
+${dimensionLines.length > 0 ? `\nMeasured dimensions:\n${dimensionLines.join('\n')}` : ''}
+${images.length > 0 ? `\n${images.length} photo(s) of the situation are attached.` : ''}`;
+}
+
+export function parseQuoteResponse(text: string, now: Date = new Date()): QuoteData {
+  // Models occasionally wrap JSON in a markdown fence despite the response mime type
+  const json = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw new Error('Model returned invalid JSON');
+  }
+
+  const parsed = modelQuoteSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new Error(`Model returned an invalid quote: ${parsed.error.issues[0]?.message}`);
+  }
+
+  const { description, currency, vatRate, validDays, terms } = parsed.data;
+  const items = parsed.data.items.map(item => ({
+    description: item.description,
+    quantity: item.quantity,
+    unitPrice: roundCurrency(item.unitPrice),
+    total: roundCurrency(item.quantity * item.unitPrice),
+  }));
+
+  const subtotal = roundCurrency(items.reduce((sum, item) => sum + item.total, 0));
+  // Multiply before dividing so half-cent amounts round up instead of drifting down
+  const vatAmount = Math.round(subtotal * vatRate) / 100;
+  const validUntil = new Date(now.getTime() + validDays * 24 * 60 * 60 * 1000);
+
+  return {
+    amount: roundCurrency(subtotal + vatAmount),
+    currency,
+    description,
+    items,
+    validUntil: validUntil.toISOString().split('T')[0],
+    terms,
+    subtotal,
+    vatRate,
+    vatAmount,
+  };
+}
+
+export async function generateQuote(
+  input: QuoteGenerationInput,
+  client: QuoteModelClient
+): Promise<QuoteGenerationResult> {
+  const prompt = buildQuotePrompt(input);
+  const response = await client.generateQuote(prompt, input.images);
+  const quote = parseQuoteResponse(response.text);
+
+  logger.info('Quote generated', 'quote-generator', {
+    items: quote.items.length,
+    amount: quote.amount
+  });
+
+  return {
+    quote,
+    prompt,
+    modelUsed: client.getModelName(),
+    tokensUsed: response.usage?.totalTokenCount ?? null,
+  };
+}
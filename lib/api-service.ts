@@ -1,9 +1,15 @@
-import { createClient } from './supabase/client';
 import { Customer, Invoice, ApiResponse } from '../types/ui/dashboard';
+import { Offer, OfferInput, OfferRevision, OfferStatus } from '../types/api/offer';
+import type { CustomerContact, CustomerOverview } from '../types/api/customer';
+import type { ExportRequestInput } from '../types/api/export';
+import type { TeamInvitation, TeamOverview } from '../types/api/team';
+import type { Organization, OrganizationInput, OrganizationList } from '../types/api/organization';
+import type { ActivityFilters, ActivityPage } from '../types/api/activity';
+import type { OnboardingData } from './onboarding';
+import { Invoice as InvoiceRecord, OfferInvoiceRequest } from '../types/api/invoice';
+import { toDuplicateOfferInput, toRestoredOfferInput } from './offers';
 import { logger } from './logger';
-import { PostgrestError, SupabaseClient } from '@supabase/supabase-js';
-
-const supabase = createClient() as SupabaseClient;
+import { PostgrestError } from '@supabase/supabase-js';
 
 // Cache voor API responses met proper typing
 const apiCache = new Map<string, { data: unknown; timestamp: number }>();
@@ -67,20 +73,36 @@ async function fetchWithCache<T>(
   }
 }
 
+// Klanten en offertes lopen via de API routes, zodat de organisatie server-side wordt bepaald
+async function requestApi<T>(
+  url: string,
+  key: string,
+  init?: RequestInit
+): Promise<{ data: T | null; error: unknown; status: number }> {
+  const response = await fetch(url, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init?.headers },
+  });
+  const body = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    return {
+      data: null,
+      error: new ApiError(body.error || 'Er is een fout opgetreden', response.status),
+      status: response.status
+    };
+  }
+
+  return { data: (body[key] ?? null) as T | null, error: null, status: response.status };
+}
+
 // API functies voor klanten
 export const customersApi = {
   // Haal alle klanten op
   getAll: async (skipCache = false): Promise<ApiResponse<Customer[]>> => {
     return fetchWithCache<Customer[]>(
       'customers:all',
-      async () => {
-        const { data, error } = await supabase
-          .from('customers')
-          .select('*')
-          .order('name', { ascending: true });
-        
-        return { data, error };
-      },
+      () => requestApi<Customer[]>('/api/customers', 'customers'),
       skipCache
     );
   },
@@ -89,73 +111,80 @@ export const customersApi = {
   getById: async (id: string, skipCache = false): Promise<ApiResponse<Customer>> => {
     return fetchWithCache<Customer>(
       `customers:${id}`,
-      async () => {
-        const { data, error } = await supabase
-          .from('customers')
-          .select('*')
-          .eq('id', id)
-          .single();
-        
-        return { data, error };
-      },
+      () => requestApi<Customer>(`/api/customers/${id}`, 'customer'),
       skipCache
     );
   },
 
+  // Klant met offertes, facturen, betalingen en activiteit voor de klantpagina
+  getOverview: async (id: string): Promise<ApiResponse<CustomerOverview>> => {
+    try {
+      const response = await fetch(`/api/customers/${id}/overview`);
+      const body = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        return { success: false, error: body.error || 'Fout bij het ophalen van de klant', status: response.status };
+      }
+
+      return { success: true, data: body as CustomerOverview, status: response.status };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || 'Fout bij het ophalen van de klant',
+        status: 500
+      };
+    }
+  },
+
   // Maak een nieuwe klant aan
-  create: async (customerData: Omit<Customer, 'id' | 'created_at' | 'updated_at'>): Promise<ApiResponse<Customer>> => {
+  create: async (customerData: Omit<Customer, 'id' | 'organization_id' | 'created_at' | 'updated_at'>): Promise<ApiResponse<Customer>> => {
     try {
-      const { data, error } = await supabase
-        .from('customers')
-        .insert(customerData)
-        .select()
-        .single();
-      
+      const { data, error, status } = await requestApi<Customer>('/api/customers', 'customer', {
+        method: 'POST',
+        body: JSON.stringify(customerData),
+      });
+
       if (error) {
         const errorMessage = error instanceof Error ? error.message : 'Fout bij het aanmaken van de klant';
-        const errorStatus = (error as PostgrestError)?.code ? 400 : 500;
-        return { success: false, error: errorMessage, status: errorStatus };
+        return { success: false, error: errorMessage, status };
       }
-      
+
       // Invalidate cache
       apiCache.delete('customers:all');
-      
-      return { success: true, data, status: 201 };
+
+      return { success: true, data: data || undefined, status: 201 };
     } catch (error: any) {
-      return { 
-        success: false, 
-        error: error.message || 'Fout bij het aanmaken van de klant', 
-        status: 500 
+      return {
+        success: false,
+        error: error.message || 'Fout bij het aanmaken van de klant',
+        status: 500
       };
     }
   },
 
   // Update een klant
-  update: async (id: string, customerData: Partial<Omit<Customer, 'id' | 'created_at' | 'updated_at'>>): Promise<ApiResponse<Customer>> => {
+  update: async (id: string, customerData: Partial<Omit<Customer, 'id' | 'organization_id' | 'created_at' | 'updated_at'>>): Promise<ApiResponse<Customer>> => {
     try {
-      const { data, error } = await supabase
-        .from('customers')
-        .update(customerData)
-        .eq('id', id)
-        .select()
-        .single();
-      
+      const { data, error, status } = await requestApi<Customer>(`/api/customers/${id}`, 'customer', {
+        method: 'PATCH',
+        body: JSON.stringify(customerData),
+      });
+
       if (error) {
         const errorMessage = error instanceof Error ? error.message : 'Fout bij het bijwerken van de klant';
-        const errorStatus = (error as PostgrestError)?.code ? 400 : 500;
-        return { success: false, error: errorMessage, status: errorStatus };
+        return { success: false, error: errorMessage, status };
       }
-      
+
       // Invalidate cache
       apiCache.delete('customers:all');
       apiCache.delete(`customers:${id}`);
-      
+
       return { success: true, data: data || undefined, status: 200 };
     } catch (error: any) {
-      return { 
-        success: false, 
-        error: error.message || 'Fout bij het bijwerken van de klant', 
-        status: 500 
+      return {
+        success: false,
+        error: error.message || 'Fout bij het bijwerken van de klant',
+        status: 500
       };
     }
   },
@@ -163,27 +192,114 @@ export const customersApi = {
   // Verwijder een klant
   delete: async (id: string): Promise<ApiResponse<null>> => {
     try {
-      const { error } = await supabase
-        .from('customers')
-        .delete()
-        .eq('id', id);
-      
+      const { error, status } = await requestApi<null>(`/api/customers/${id}`, 'message', { method: 'DELETE' });
+
       if (error) {
         const errorMessage = error instanceof Error ? error.message : 'Fout bij het verwijderen van de klant';
-        const errorStatus = (error as PostgrestError)?.code ? 400 : 500;
-        return { success: false, error: errorMessage, status: errorStatus };
+        return { success: false, error: errorMessage, status };
       }
-      
+
       // Invalidate cache
       apiCache.delete('customers:all');
       apiCache.delete(`customers:${id}`);
-      
-      return { success: false, error: undefined, status: 200 };
+
+      return { success: true, status: 200 };
     } catch (error: any) {
-      return { 
-        success: false, 
-        error: error.message || 'Fout bij het verwijderen van de klant', 
-        status: 500 
+      return {
+        success: false,
+        error: error.message || 'Fout bij het verwijderen van de klant',
+        status: 500
+      };
+    }
+  }
+};
+
+export type ContactInput = Partial<Pick<CustomerContact, 'name' | 'email' | 'phone' | 'job_title' | 'roles' | 'is_primary'>>;
+
+// API functies voor contactpersonen van een klant
+export const contactsApi = {
+  // Haal de contactpersonen van een klant op, de primaire eerst
+  getAll: async (customerId: string): Promise<ApiResponse<CustomerContact[]>> => {
+    try {
+      const { data, error, status } = await requestApi<CustomerContact[]>(`/api/customers/${customerId}/contacts`, 'contacts');
+
+      if (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Fout bij het ophalen van de contactpersonen';
+        return { success: false, error: errorMessage, status };
+      }
+
+      return { success: true, data: data || [], status };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || 'Fout bij het ophalen van de contactpersonen',
+        status: 500
+      };
+    }
+  },
+
+  // Voeg een contactpersoon toe
+  create: async (customerId: string, contactData: ContactInput): Promise<ApiResponse<CustomerContact>> => {
+    try {
+      const { data, error, status } = await requestApi<CustomerContact>(`/api/customers/${customerId}/contacts`, 'contact', {
+        method: 'POST',
+        body: JSON.stringify(contactData),
+      });
+
+      if (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Fout bij het toevoegen van de contactpersoon';
+        return { success: false, error: errorMessage, status };
+      }
+
+      return { success: true, data: data || undefined, status: 201 };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || 'Fout bij het toevoegen van de contactpersoon',
+        status: 500
+      };
+    }
+  },
+
+  // Werk een contactpersoon bij
+  update: async (customerId: string, contactId: string, contactData: ContactInput): Promise<ApiResponse<CustomerContact>> => {
+    try {
+      const { data, error, status } = await requestApi<CustomerContact>(`/api/customers/${customerId}/contacts/${contactId}`, 'contact', {
+        method: 'PATCH',
+        body: JSON.stringify(contactData),
+      });
+
+      if (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Fout bij het bijwerken van de contactpersoon';
+        return { success: false, error: errorMessage, status };
+      }
+
+      return { success: true, data: data || undefined, status: 200 };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || 'Fout bij het bijwerken van de contactpersoon',
+        status: 500
+      };
+    }
+  },
+
+  // Verwijder een contactpersoon
+  delete: async (customerId: string, contactId: string): Promise<ApiResponse<null>> => {
+    try {
+      const { error, status } = await requestApi<null>(`/api/customers/${customerId}/contacts/${contactId}`, 'message', { method: 'DELETE' });
+
+      if (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Fout bij het verwijderen van de contactpersoon';
+        return { success: false, error: errorMessage, status };
+      }
+
+      return { success: true, status: 200 };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || 'Fout bij het verwijderen van de contactpersoon',
+        status: 500
       };
     }
   }
@@ -195,21 +311,7 @@ export const invoicesApi = {
   getAll: async (skipCache = false): Promise<ApiResponse<Invoice[]>> => {
     return fetchWithCache<Invoice[]>(
       'invoices:all',
-      async () => {
-        const { data, error } = await supabase
-          .from('invoices')
-          .select(`
-            *,
-            customers (
-              id,
-              name,
-              email
-            )
-          `)
-          .order('created_at', { ascending: false });
-        
-        return { data, error };
-      },
+      () => requestApi<Invoice[]>('/api/invoices', 'invoices'),
       skipCache
     );
   },
@@ -218,80 +320,60 @@ export const invoicesApi = {
   getById: async (id: string, skipCache = false): Promise<ApiResponse<Invoice>> => {
     return fetchWithCache<Invoice>(
       `invoices:${id}`,
-      async () => {
-        const { data, error } = await supabase
-          .from('invoices')
-          .select(`
-            *,
-            customers (
-              id,
-              name,
-              email
-            )
-          `)
-          .eq('id', id)
-          .single();
-        
-        return { data, error };
-      },
+      () => requestApi<Invoice>(`/api/invoices/${id}`, 'invoice'),
       skipCache
     );
   },
 
-  // Maak een nieuwe factuur aan
-  create: async (invoiceData: Omit<Invoice, 'id' | 'created_at' | 'updated_at'>): Promise<ApiResponse<Invoice>> => {
+  // Maak een nieuwe factuur aan; de organisatie wordt server-side bepaald
+  create: async (invoiceData: Omit<Invoice, 'id' | 'organization_id' | 'created_at' | 'updated_at'>): Promise<ApiResponse<Invoice>> => {
     try {
-      const { data, error } = await supabase
-        .from('invoices')
-        .insert(invoiceData)
-        .select()
-        .single();
-      
+      const { data, error, status } = await requestApi<Invoice>('/api/invoices', 'invoice', {
+        method: 'POST',
+        body: JSON.stringify(invoiceData),
+      });
+
       if (error) {
         const errorMessage = error instanceof Error ? error.message : 'Fout bij het aanmaken van de factuur';
-        const errorStatus = (error as PostgrestError)?.code ? 400 : 500;
-        return { success: false, error: errorMessage, status: errorStatus };
+        return { success: false, error: errorMessage, status };
       }
-      
+
       // Invalidate cache
       apiCache.delete('invoices:all');
-      
-      return { success: true, data, status: 201 };
+
+      return { success: true, data: data || undefined, status: 201 };
     } catch (error: any) {
-      return { 
-        success: false, 
-        error: error.message || 'Fout bij het aanmaken van de factuur', 
-        status: 500 
+      return {
+        success: false,
+        error: error.message || 'Fout bij het aanmaken van de factuur',
+        status: 500
       };
     }
   },
 
   // Update een factuur
-  update: async (id: string, invoiceData: Partial<Omit<Invoice, 'id' | 'created_at' | 'updated_at'>>): Promise<ApiResponse<Invoice>> => {
+  update: async (id: string, invoiceData: Partial<Omit<Invoice, 'id' | 'organization_id' | 'created_at' | 'updated_at'>>): Promise<ApiResponse<Invoice>> => {
     try {
-      const { data, error } = await supabase
-        .from('invoices')
-        .update(invoiceData)
-        .eq('id', id)
-        .select()
-        .single();
-      
+      const { data, error, status } = await requestApi<Invoice>(`/api/invoices/${id}`, 'invoice', {
+        method: 'PUT',
+        body: JSON.stringify(invoiceData),
+      });
+
       if (error) {
         const errorMessage = error instanceof Error ? error.message : 'Fout bij het bijwerken van de factuur';
-        const errorStatus = (error as PostgrestError)?.code ? 400 : 500;
-        return { success: false, error: errorMessage, status: errorStatus };
+        return { success: false, error: errorMessage, status };
       }
-      
+
       // Invalidate cache
       apiCache.delete('invoices:all');
       apiCache.delete(`invoices:${id}`);
-      
+
       return { success: true, data: data || undefined, status: 200 };
     } catch (error: any) {
-      return { 
-        success: false, 
-        error: error.message || 'Fout bij het bijwerken van de factuur', 
-        status: 500 
+      return {
+        success: false,
+        error: error.message || 'Fout bij het bijwerken van de factuur',
+        status: 500
       };
     }
   },
@@ -299,27 +381,509 @@ export const invoicesApi = {
   // Verwijder een factuur
   delete: async (id: string): Promise<ApiResponse<null>> => {
     try {
-      const { error } = await supabase
-        .from('invoices')
-        .delete()
-        .eq('id', id);
-      
+      const { error, status } = await requestApi<null>(`/api/invoices/${id}`, 'message', { method: 'DELETE' });
+
       if (error) {
         const errorMessage = error instanceof Error ? error.message : 'Fout bij het verwijderen van de factuur';
-        const errorStatus = (error as PostgrestError)?.code ? 400 : 500;
-        return { success: false, error: errorMessage, status: errorStatus };
+        return { success: false, error: errorMessage, status };
       }
-      
+
       // Invalidate cache
       apiCache.delete('invoices:all');
       apiCache.delete(`invoices:${id}`);
-      
-      return { success: false, error: undefined, status: 200 };
+
+      return { success: true, status: 200 };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || 'Fout bij het verwijderen van de factuur',
+        status: 500
+      };
+    }
+  }
+};
+
+// API functies voor offertes
+export const offersApi = {
+  // Haal alle offertes op
+  getAll: async (skipCache = false): Promise<ApiResponse<Offer[]>> => {
+    return fetchWithCache<Offer[]>(
+      'offers:all',
+      () => requestApi<Offer[]>('/api/offers', 'offers'),
+      skipCache
+    );
+  },
+
+  // Haal een specifieke offerte op
+  getById: async (id: string, skipCache = false): Promise<ApiResponse<Offer>> => {
+    return fetchWithCache<Offer>(
+      `offers:${id}`,
+      () => requestApi<Offer>(`/api/offers/${id}`, 'offer'),
+      skipCache
+    );
+  },
+
+  // Maak een nieuwe offerte aan
+  create: async (offerData: OfferInput): Promise<ApiResponse<Offer>> => {
+    try {
+      const { data, error, status } = await requestApi<Offer>('/api/offers', 'offer', {
+        method: 'POST',
+        body: JSON.stringify(offerData),
+      });
+
+      if (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Fout bij het aanmaken van de offerte';
+        return { success: false, error: errorMessage, status };
+      }
+
+      // Invalidate cache
+      apiCache.delete('offers:all');
+
+      return { success: true, data: data || undefined, status: 201 };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || 'Fout bij het aanmaken van de offerte',
+        status: 500
+      };
+    }
+  },
+
+  // Update een offerte
+  update: async (id: string, offerData: OfferInput): Promise<ApiResponse<Offer>> => {
+    try {
+      const { data, error, status } = await requestApi<Offer>(`/api/offers/${id}`, 'offer', {
+        method: 'PUT',
+        body: JSON.stringify(offerData),
+      });
+
+      if (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Fout bij het bijwerken van de offerte';
+        return { success: false, error: errorMessage, status };
+      }
+
+      // Invalidate cache
+      apiCache.delete('offers:all');
+      apiCache.delete(`offers:${id}`);
+      apiCache.delete(`offers:${id}:revisions`);
+
+      return { success: true, data: data || undefined, status: 200 };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || 'Fout bij het bijwerken van de offerte',
+        status: 500
+      };
+    }
+  },
+
+  // Maak een kopie van een bestaande offerte als nieuw concept
+  duplicate: async (offer: Offer): Promise<ApiResponse<Offer>> => {
+    return offersApi.create(toDuplicateOfferInput(offer));
+  },
+
+  // Haal de revisiegeschiedenis van een offerte op (nieuwste eerst)
+  getRevisions: async (id: string, skipCache = false): Promise<ApiResponse<OfferRevision[]>> => {
+    return fetchWithCache<OfferRevision[]>(
+      `offers:${id}:revisions`,
+      () => requestApi<OfferRevision[]>(`/api/offers/${id}/revisions`, 'revisions'),
+      skipCache
+    );
+  },
+
+  // Zet een oudere revisie terug als nieuw concept
+  restoreRevision: async (revision: OfferRevision): Promise<ApiResponse<Offer>> => {
+    return offersApi.create(toRestoredOfferInput(revision));
+  },
+
+  // Genereer de PDF van een offerte en geef de opgeslagen URL terug
+  generatePdf: async (id: string): Promise<ApiResponse<string>> => {
+    try {
+      const { data, error, status } = await requestApi<string>(`/api/offers/${id}/pdf`, 'pdf_url', {
+        method: 'POST',
+      });
+
+      if (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Fout bij het genereren van de PDF';
+        return { success: false, error: errorMessage, status };
+      }
+
+      // Invalidate cache
+      apiCache.delete(`offers:${id}`);
+
+      return { success: true, data: data || undefined, status: 200 };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || 'Fout bij het genereren van de PDF',
+        status: 500
+      };
+    }
+  },
+
+  // Verstuur een offerte per e-mail met de PDF als bijlage
+  send: async (id: string): Promise<ApiResponse<Offer>> => {
+    try {
+      const { data, error, status } = await requestApi<Offer>(`/api/offers/${id}/send`, 'offer', {
+        method: 'POST',
+      });
+
+      if (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Fout bij het versturen van de offerte';
+        return { success: false, error: errorMessage, status };
+      }
+
+      // Invalidate cache
+      apiCache.delete('offers:all');
+      apiCache.delete(`offers:${id}`);
+      apiCache.delete(`offers:${id}:revisions`);
+
+      return { success: true, data: data || undefined, status: 200 };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || 'Fout bij het versturen van de offerte',
+        status: 500
+      };
+    }
+  },
+
+  // Maak een conceptfactuur (of aanbetalingsfactuur) van een geaccepteerde offerte
+  convertToInvoice: async (id: string, invoiceRequest: OfferInvoiceRequest = {}): Promise<ApiResponse<InvoiceRecord>> => {
+    try {
+      const { data, error, status } = await requestApi<InvoiceRecord>(`/api/offers/${id}/invoice`, 'invoice', {
+        method: 'POST',
+        body: JSON.stringify(invoiceRequest),
+      });
+
+      if (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Fout bij het factureren van de offerte';
+        return { success: false, error: errorMessage, status };
+      }
+
+      // Invalidate cache
+      apiCache.delete('invoices:all');
+
+      return { success: true, data: data || undefined, status: 201 };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || 'Fout bij het factureren van de offerte',
+        status: 500
+      };
+    }
+  },
+
+  // Zet de status van meerdere offertes tegelijk
+  bulkUpdateStatus: async (ids: string[], status: OfferStatus): Promise<ApiResponse<Offer[]>> => {
+    try {
+      const { data, error, status: responseStatus } = await requestApi<Offer[]>('/api/offers', 'offers', {
+        method: 'PATCH',
+        body: JSON.stringify({ ids, status }),
+      });
+
+      if (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Fout bij het bijwerken van de offertes';
+        return { success: false, error: errorMessage, status: responseStatus };
+      }
+
+      // Invalidate cache
+      apiCache.delete('offers:all');
+      ids.forEach(id => {
+        apiCache.delete(`offers:${id}`);
+        apiCache.delete(`offers:${id}:revisions`);
+      });
+
+      return { success: true, data: data || undefined, status: 200 };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || 'Fout bij het bijwerken van de offertes',
+        status: 500
+      };
+    }
+  },
+
+  // Verwijder een offerte
+  delete: async (id: string): Promise<ApiResponse<null>> => {
+    try {
+      const { error, status } = await requestApi<null>(`/api/offers/${id}`, 'offer', {
+        method: 'DELETE',
+      });
+
+      if (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Fout bij het verwijderen van de offerte';
+        return { success: false, error: errorMessage, status };
+      }
+
+      // Invalidate cache
+      apiCache.delete('offers:all');
+      apiCache.delete(`offers:${id}`);
+
+      return { success: true, status: 200 };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || 'Fout bij het verwijderen van de offerte',
+        status: 500
+      };
+    }
+  }
+};
+
+// Exports van offertes, facturen en klanten
+export const exportsApi = {
+  // Download het bestand met de gefilterde of geselecteerde rijen
+  download: async (exportRequest: ExportRequestInput): Promise<ApiResponse<null>> => {
+    try {
+      const response = await fetch('/api/export', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(exportRequest),
+      });
+
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        return { success: false, error: body.error || 'Fout bij het exporteren', status: response.status };
+      }
+
+      // De bestandsnaam komt van de server, bijvoorbeeld offertes-2024-05-01.xlsx
+      const fileName = response.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)?.[1]
+        || `export.${exportRequest.format}`;
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = fileName;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+
+      return { success: true, status: response.status };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || 'Fout bij het exporteren',
+        status: 500
+      };
+    }
+  }
+};
+
+// Teamleden en uitnodigingen
+export const teamApi = {
+  // Leden, openstaande uitnodigingen en het aantal plaatsen van het abonnement
+  getOverview: async (): Promise<ApiResponse<TeamOverview>> => {
+    try {
+      const response = await fetch('/api/team');
+      const body = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        return { success: false, error: body.error || 'Fout bij het ophalen van het team', status: response.status };
+      }
+
+      return { success: true, data: body as TeamOverview, status: response.status };
     } catch (error: any) {
-      return { 
-        success: false, 
-        error: error.message || 'Fout bij het verwijderen van de factuur', 
-        status: 500 
+      return {
+        success: false,
+        error: error.message || 'Fout bij het ophalen van het team',
+        status: 500
+      };
+    }
+  },
+
+  // Nodig iemand uit; de uitnodiging wordt per e-mail verstuurd
+  invite: async (email: string, role: TeamInvitation['role']): Promise<ApiResponse<TeamInvitation>> => {
+    try {
+      const { data, error, status } = await requestApi<TeamInvitation>('/api/team/invitations', 'invitation', {
+        method: 'POST',
+        body: JSON.stringify({ email, role }),
+      });
+
+      if (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Uitnodiging kon niet worden verzonden';
+        return { success: false, error: errorMessage, status };
+      }
+
+      return { success: true, data: data || undefined, status: 201 };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || 'Uitnodiging kon niet worden verzonden',
+        status: 500
+      };
+    }
+  },
+
+  // Trek een openstaande uitnodiging in
+  revokeInvitation: async (id: string): Promise<ApiResponse<TeamInvitation>> => {
+    try {
+      const { data, error, status } = await requestApi<TeamInvitation>(`/api/team/invitations/${id}`, 'invitation', { method: 'DELETE' });
+
+      if (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Fout bij het intrekken van de uitnodiging';
+        return { success: false, error: errorMessage, status };
+      }
+
+      return { success: true, data: data || undefined, status: 200 };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || 'Fout bij het intrekken van de uitnodiging',
+        status: 500
+      };
+    }
+  },
+
+  // Verwijder een teamlid uit de organisatie
+  removeMember: async (id: string): Promise<ApiResponse<null>> => {
+    try {
+      const { error, status } = await requestApi<null>(`/api/team/members/${id}`, 'success', { method: 'DELETE' });
+
+      if (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Fout bij het verwijderen van het teamlid';
+        return { success: false, error: errorMessage, status };
+      }
+
+      return { success: true, status: 200 };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || 'Fout bij het verwijderen van het teamlid',
+        status: 500
+      };
+    }
+  }
+};
+
+// Organisaties (werkruimtes) van de gebruiker
+export const organizationsApi = {
+  // Organisaties waar de gebruiker lid van is en welke actief is
+  getAll: async (): Promise<ApiResponse<OrganizationList>> => {
+    try {
+      const response = await fetch('/api/organizations');
+      const body = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        return { success: false, error: body.error || 'Fout bij het ophalen van de organisaties', status: response.status };
+      }
+
+      return { success: true, data: body as OrganizationList, status: response.status };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || 'Fout bij het ophalen van de organisaties',
+        status: 500
+      };
+    }
+  },
+
+  // Maak een organisatie aan met de bedrijfsnaam en branche uit de onboarding; die wordt meteen actief
+  create: async (organizationInput: OrganizationInput): Promise<ApiResponse<Organization>> => {
+    try {
+      const { data, error, status } = await requestApi<Organization>('/api/organizations', 'organization', {
+        method: 'POST',
+        body: JSON.stringify(organizationInput),
+      });
+
+      if (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Fout bij het aanmaken van de organisatie';
+        return { success: false, error: errorMessage, status };
+      }
+
+      // Gecachte gegevens horen bij de vorige organisatie
+      apiCache.clear();
+
+      return { success: true, data: data || undefined, status: 201 };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || 'Fout bij het aanmaken van de organisatie',
+        status: 500
+      };
+    }
+  },
+
+  // Wissel van actieve organisatie
+  switch: async (organizationId: string): Promise<ApiResponse<string>> => {
+    try {
+      const { data, error, status } = await requestApi<string>('/api/organizations/active', 'active_organization_id', {
+        method: 'POST',
+        body: JSON.stringify({ organization_id: organizationId }),
+      });
+
+      if (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Fout bij het wisselen van organisatie';
+        return { success: false, error: errorMessage, status };
+      }
+
+      // Gecachte gegevens horen bij de vorige organisatie
+      apiCache.clear();
+
+      return { success: true, data: data || undefined, status: 200 };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || 'Fout bij het wisselen van organisatie',
+        status: 500
+      };
+    }
+  }
+};
+
+// Rond de onboarding af; zonder organisatie wordt er een aangemaakt met de bedrijfsnaam en branche
+// API functies voor het activity log; niet gecachet, nieuwe regels komen live binnen via Supabase Realtime
+export const activityApi = {
+  // Een pagina activiteit, nieuwste eerst; geef next_cursor mee voor de volgende pagina
+  list: async (filters: ActivityFilters = {}, cursor?: string | null): Promise<ApiResponse<ActivityPage>> => {
+    try {
+      const params = new URLSearchParams();
+      Object.entries(filters).forEach(([key, value]) => {
+        if (value !== undefined && value !== '') params.set(key, String(value));
+      });
+      if (cursor) params.set('cursor', cursor);
+
+      const query = params.toString();
+      const response = await fetch(`/api/activity${query ? `?${query}` : ''}`);
+      const body = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        return { success: false, error: body.error || 'Fout bij het ophalen van de activiteit', status: response.status };
+      }
+
+      return { success: true, data: body as ActivityPage, status: response.status };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || 'Fout bij het ophalen van de activiteit',
+        status: 500
+      };
+    }
+  },
+};
+
+export const onboardingApi = {
+  complete: async (data: Partial<OnboardingData>): Promise<ApiResponse<Organization | null>> => {
+    try {
+      const { data: organization, error, status } = await requestApi<Organization>('/api/onboarding', 'organization', {
+        method: 'POST',
+        body: JSON.stringify({ companyName: data.companyName, industry: data.industry }),
+      });
+
+      if (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Fout bij het afronden van de onboarding';
+        return { success: false, error: errorMessage, status };
+      }
+
+      // Gecachte gegevens horen mogelijk bij een andere organisatie
+      apiCache.clear();
+
+      return { success: true, data: organization, status: 200 };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || 'Fout bij het afronden van de onboarding',
+        status: 500
       };
     }
   }
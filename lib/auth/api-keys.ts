@@ -0,0 +1,145 @@
+// API keys for the public API. Keys look like qf_<random> and are shown once when created;
+// only a SHA-256 hash is stored, next to a short prefix to recognise the key in the settings.
+
+import { createHash, randomBytes } from 'crypto';
+import { SupabaseClient } from '@supabase/supabase-js';
+import type { OrganizationContext, TeamRole } from './organization';
+
+export const API_KEY_PREFIX = 'qf_';
+
+export const API_SCOPES = [
+  'customers:read',
+  'customers:write',
+  'offers:read',
+  'offers:write',
+  'invoices:read',
+  'invoices:write',
+  'activity:read',
+] as const;
+
+export type ApiScope = typeof API_SCOPES[number];
+
+// Shown in the settings list; long enough to tell keys apart, too short to be useful
+const DISPLAY_PREFIX_LENGTH = API_KEY_PREFIX.length + 8;
+
+// last_used is written at most once per minute per key
+const LAST_USED_INTERVAL_MS = 60 * 1000;
+
+export interface ApiKeyRecord {
+  id: string;
+  organization_id: string;
+  user_id: string;
+  permissions: unknown;
+  expires_at: string | null;
+  revoked_at: string | null;
+  last_used: string | null;
+}
+
+export interface GeneratedApiKey {
+  key: string;
+  key_hash: string;
+  key_prefix: string;
+}
+
+export type ApiKeyCheck = 'valid' | 'revoked' | 'expired' | 'insufficient_scope';
+
+// Request context for an API key; sessions have no scopes and are limited by their role only
+export interface ApiKeyContext extends OrganizationContext {
+  apiKeyId: string;
+  scopes: ApiScope[];
+}
+
+export const isApiScope = (value: unknown): value is ApiScope =>
+  typeof value === 'string' && (API_SCOPES as readonly string[]).includes(value);
+
+export const normalizeScopes = (value: unknown): ApiScope[] =>
+  Array.isArray(value) ? API_SCOPES.filter(scope => value.includes(scope)) : [];
+
+export const hashApiKey = (key: string): string => createHash('sha256').update(key).digest('hex');
+
+export function generateApiKey(): GeneratedApiKey {
+  const key = `${API_KEY_PREFIX}${randomBytes(32).toString('base64url')}`;
+  return { key, key_hash: hashApiKey(key), key_prefix: key.slice(0, DISPLAY_PREFIX_LENGTH) };
+}
+
+export const looksLikeApiKey = (value: string | null | undefined): value is string =>
+  typeof value === 'string' && value.startsWith(API_KEY_PREFIX) && value.length > DISPLAY_PREFIX_LENGTH;
+
+// Authorization: Bearer qf_...
+export const bearerApiKey = (authorization: string | null): string | null => {
+  const match = authorization?.match(/^Bearer\s+(\S+)$/i);
+  return match && looksLikeApiKey(match[1]) ? match[1] : null;
+};
+
+// Write access to a resource includes reading it
+export const hasScope = (granted: ApiScope[], required: ApiScope): boolean =>
+  granted.includes(required) || (required.endsWith(':read') && granted.includes(required.replace(/:read$/, ':write') as ApiScope));
+
+export function checkApiKey(record: ApiKeyRecord, required: ApiScope | null, now: Date = new Date()): ApiKeyCheck {
+  if (record.revoked_at) return 'revoked';
+  if (record.expires_at && new Date(record.expires_at) <= now) return 'expired';
+  if (required && !hasScope(normalizeScopes(record.permissions), required)) return 'insufficient_scope';
+  return 'valid';
+}
+
+export const shouldTouchLastUsed = (lastUsed: string | null, now: Date = new Date()): boolean =>
+  !lastUsed || now.getTime() - new Date(lastUsed).getTime() >= LAST_USED_INTERVAL_MS;
+
+export type ApiKeyAuthResult =
+  | { context: ApiKeyContext; error?: undefined; status?: undefined }
+  | { context?: undefined; error: string; status: 401 | 403 };
+
+/**
+ * Resolve an API key to the organization it belongs to. Needs a service role client:
+ * there is no user session to satisfy RLS. The key's creator must still be an active
+ * member, so removing someone from the team also disables their keys.
+ */
+export async function authenticateApiKey(
+  supabase: SupabaseClient,
+  key: string,
+  required: ApiScope | null,
+  now: Date = new Date()
+): Promise<ApiKeyAuthResult> {
+  const { data: record, error } = await supabase
+    .from('api_keys')
+    .select('id, organization_id, user_id, permissions, expires_at, revoked_at, last_used')
+    .eq('key_hash', hashApiKey(key))
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!record) return { error: 'Invalid API key', status: 401 };
+
+  const check = checkApiKey(record, required, now);
+  if (check === 'revoked' || check === 'expired') {
+    return { error: `API key ${check}`, status: 401 };
+  }
+  if (check === 'insufficient_scope') {
+    return { error: `API key is missing the ${required} scope`, status: 403 };
+  }
+
+  const { data: membership } = await supabase
+    .from('team_members')
+    .select('role')
+    .eq('organization_id', record.organization_id)
+    .eq('user_id', record.user_id)
+    .eq('status', 'active')
+    .maybeSingle();
+
+  if (!membership) {
+    return { error: 'Invalid API key', status: 401 };
+  }
+
+  if (shouldTouchLastUsed(record.last_used, now)) {
+    await supabase.from('api_keys').update({ last_used: now.toISOString() }).eq('id', record.id);
+  }
+
+  return {
+    context: {
+      userId: record.user_id,
+      organizationId: record.organization_id,
+      role: membership.role as TeamRole,
+      apiKeyId: record.id,
+      scopes: normalizeScopes(record.permissions),
+    },
+  };
+}
@@ -0,0 +1,71 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+
+export type TeamRole = 'owner' | 'admin' | 'developer' | 'designer' | 'support';
+
+export interface OrganizationContext {
+  userId: string;
+  organizationId: string;
+  role: TeamRole;
+}
+
+// Cookie holding the organization the user switched to; set by POST /api/organizations/active
+export const ACTIVE_ORGANIZATION_COOKIE = 'qf_active_org';
+
+export const ACTIVE_ORGANIZATION_COOKIE_OPTIONS = {
+  httpOnly: true,
+  sameSite: 'lax' as const,
+  secure: process.env.NODE_ENV === 'production',
+  path: '/',
+  maxAge: 60 * 60 * 24 * 365,
+};
+
+// The membership matching the chosen organization, or the oldest one when the cookie is
+// missing or points to an organization the user no longer belongs to.
+// Expects the memberships ordered by joined_at.
+export function pickActiveMembership<T extends { organization_id: string }>(
+  memberships: T[],
+  activeOrganizationId: string | null
+): T | null {
+  if (activeOrganizationId) {
+    const active = memberships.find(membership => membership.organization_id === activeOrganizationId);
+    if (active) {
+      return active;
+    }
+  }
+  return memberships[0] ?? null;
+}
+
+// Resolve the signed-in user and the organization their data is scoped to: the active
+// organization when given and still valid, otherwise the one they joined first.
+// Returns null when there is no session or the user has no active membership.
+export async function getOrganizationContext(
+  supabase: SupabaseClient,
+  activeOrganizationId: string | null = null
+): Promise<OrganizationContext | null> {
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+  if (authError || !user) {
+    return null;
+  }
+
+  const { data: memberships, error } = await supabase
+    .from('team_members')
+    .select('organization_id, role')
+    .eq('user_id', user.id)
+    .eq('status', 'active')
+    .order('joined_at', { ascending: true });
+
+  if (error || !memberships) {
+    return null;
+  }
+
+  const membership = pickActiveMembership(memberships, activeOrganizationId);
+  if (!membership) {
+    return null;
+  }
+
+  return {
+    userId: user.id,
+    organizationId: membership.organization_id,
+    role: membership.role as TeamRole,
+  };
+}
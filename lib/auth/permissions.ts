@@ -0,0 +1,57 @@
+// What each team role may do. Used by the API routes (authenticateRequest / authenticateSession),
+// by usePermission in the browser and, mirrored in SQL, by the RLS policies of migration 019
+// and the send functions of migration 025.
+
+import type { TeamRole } from './organization';
+
+export const PERMISSIONS = [
+  'customers:read',
+  'customers:write',
+  'customers:delete',
+  'offers:read',
+  'offers:write',
+  'offers:send',
+  'offers:delete',
+  'invoices:read',
+  'invoices:write',
+  'invoices:send',
+  'invoices:delete',
+  'activity:read',
+  'team:manage',
+  'settings:manage',
+  'billing:manage',
+  'api_keys:manage',
+  'webhooks:manage',
+] as const;
+
+export type Permission = typeof PERMISSIONS[number];
+
+// Keep in sync with public.role_has_permission() in supabase/migrations/019_role_permissions.sql
+export const ROLE_PERMISSIONS: Record<TeamRole, readonly Permission[]> = {
+  owner: PERMISSIONS,
+  admin: PERMISSIONS,
+  developer: [
+    'customers:read', 'customers:write', 'customers:delete',
+    'offers:read', 'offers:write', 'offers:send', 'offers:delete',
+    'invoices:read', 'invoices:write', 'invoices:send',
+    'activity:read',
+  ],
+  designer: [
+    'customers:read',
+    'offers:read', 'offers:write',
+    'invoices:read',
+    'activity:read',
+  ],
+  support: [
+    'customers:read', 'customers:write',
+    'offers:read', 'offers:send',
+    'invoices:read', 'invoices:send',
+    'activity:read',
+  ],
+};
+
+export const hasPermission = (role: TeamRole | null | undefined, permission: Permission): boolean =>
+  !!role && ROLE_PERMISSIONS[role].includes(permission);
+
+export const permissionsForRole = (role: TeamRole | null | undefined): Permission[] =>
+  role ? [...ROLE_PERMISSIONS[role]] : [];
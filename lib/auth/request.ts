@@ -0,0 +1,73 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { cookies } from 'next/headers';
+import { createServer } from '../supabase/server';
+import { createAdminClient } from '../supabase/admin';
+import { ACTIVE_ORGANIZATION_COOKIE, getOrganizationContext, type OrganizationContext } from './organization';
+import { authenticateApiKey, bearerApiKey, type ApiScope } from './api-keys';
+import { hasPermission, type Permission } from './permissions';
+
+export interface RequestContext extends OrganizationContext {
+  // Set when the request was made with an API key instead of a session
+  apiKeyId: string | null;
+}
+
+export type RequestAuthResult =
+  | { supabase: SupabaseClient; context: RequestContext; error?: undefined; status?: undefined }
+  | { supabase?: undefined; context?: undefined; error: string; status: 401 | 403 };
+
+export type SessionAuthResult =
+  | { supabase: SupabaseClient; context: OrganizationContext; error?: undefined; status?: undefined }
+  | { supabase?: undefined; context?: undefined; error: string; status: 401 | 403 };
+
+/**
+ * Authenticate an API route request with either the session cookie or an
+ * `Authorization: Bearer qf_...` API key that grants `scope`. The member's role must
+ * also grant `permission`, which defaults to the permission of the same name as the scope;
+ * an API key never allows more than the role of the member who created it.
+ *
+ * API key requests get a service role client, because there is no session for RLS;
+ * routes must therefore always filter on context.organizationId.
+ */
+export async function authenticateRequest(
+  request: Request,
+  scope: ApiScope,
+  permission: Permission = scope
+): Promise<RequestAuthResult> {
+  const apiKey = bearerApiKey(request.headers.get('authorization'));
+
+  if (apiKey) {
+    const supabase = createAdminClient();
+    const result = await authenticateApiKey(supabase, apiKey, scope);
+    if (result.error !== undefined) {
+      return { error: result.error, status: result.status };
+    }
+    if (!hasPermission(result.context.role, permission)) {
+      return { error: 'Forbidden', status: 403 };
+    }
+    return { supabase, context: result.context };
+  }
+
+  const auth = await authenticateSession(permission);
+  if (auth.error !== undefined) {
+    return auth;
+  }
+  return { supabase: auth.supabase, context: { ...auth.context, apiKeyId: null } };
+}
+
+/**
+ * Authenticate a dashboard-only route with the session cookie. The organization is the one
+ * chosen in the organization switcher (ACTIVE_ORGANIZATION_COOKIE). Without `permission`
+ * any active member of that organization is allowed.
+ */
+export async function authenticateSession(permission: Permission | null = null): Promise<SessionAuthResult> {
+  const supabase = createServer();
+  const activeOrganizationId = cookies().get(ACTIVE_ORGANIZATION_COOKIE)?.value ?? null;
+  const context = await getOrganizationContext(supabase, activeOrganizationId);
+  if (!context) {
+    return { error: 'Unauthorized', status: 401 };
+  }
+  if (permission && !hasPermission(context.role, permission)) {
+    return { error: 'Forbidden', status: 403 };
+  }
+  return { supabase, context };
+}
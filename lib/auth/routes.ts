@@ -0,0 +1,70 @@
+// Which routes middleware.ts protects. Kept free of Next.js imports so it runs in the edge
+// runtime and can be unit tested.
+
+export const LOGIN_PATH = '/login';
+export const ONBOARDING_PATH = '/onboarding';
+
+// Public token links (offer portal, team invitations): no session and no session refresh
+const TOKEN_PREFIXES = ['/o/', '/api/o/', '/invite/', '/api/invitations/'];
+
+// API routes that authenticate themselves: sign-in, signed webhooks, and the public API with API keys
+const SELF_AUTHENTICATED_API_PREFIXES = ['/api/auth/', '/api/webhooks/', '/api/inngest', '/api/v1/'];
+
+// Pages that need a session; the dashboard also needs finished onboarding
+const SESSION_PAGE_PREFIXES = ['/dashboard', ONBOARDING_PATH];
+
+export type RouteAccess =
+  // Token links: leave the request alone
+  | 'token'
+  // Anyone, but refresh the session when there is one
+  | 'public'
+  // API route: 401 JSON without a session
+  | 'api'
+  // Page: redirect to the login page without a session
+  | 'page';
+
+const matchesPrefix = (pathname: string, prefix: string): boolean =>
+  prefix.endsWith('/')
+    ? pathname.startsWith(prefix)
+    : pathname === prefix || pathname.startsWith(`${prefix}/`);
+
+export function getRouteAccess(pathname: string): RouteAccess {
+  if (TOKEN_PREFIXES.some(prefix => matchesPrefix(pathname, prefix))) {
+    return 'token';
+  }
+  if (pathname === '/api' || pathname.startsWith('/api/')) {
+    return SELF_AUTHENTICATED_API_PREFIXES.some(prefix => matchesPrefix(pathname, prefix)) ? 'public' : 'api';
+  }
+  return SESSION_PAGE_PREFIXES.some(prefix => matchesPrefix(pathname, prefix)) ? 'page' : 'public';
+}
+
+// Session routes that also accept an API key through authenticateRequest; keep in sync with
+// the routes that call it. Other API routes never look at the key, so they need a session.
+const API_KEY_ROUTE_PREFIXES = ['/api/customers', '/api/offers', '/api/invoices', '/api/export'];
+
+// Same format as API_KEY_PREFIX; lib/auth/api-keys.ts needs Node crypto, so it cannot be imported here
+const API_KEY_BEARER = /^Bearer\s+qf_\S+$/i;
+
+// Requests with an API key skip the session check only where the route validates the key itself
+export const acceptsApiKey = (pathname: string, authorization: string | null): boolean =>
+  API_KEY_BEARER.test(authorization ?? '') &&
+  API_KEY_ROUTE_PREFIXES.some(prefix => matchesPrefix(pathname, prefix));
+
+// Dashboard pages wait until the onboarding wizard is finished
+export const requiresOnboarding = (pathname: string): boolean => matchesPrefix(pathname, '/dashboard');
+
+// Mirrors OnboardingData.completed; stored in the user metadata by POST /api/onboarding
+// (or when accepting a team invitation), because middleware cannot read localStorage
+export const hasCompletedOnboarding = (userMetadata: Record<string, unknown> | null | undefined): boolean =>
+  userMetadata?.onboarding_completed === true;
+
+// Only same-origin paths are followed after signing in, never another site
+export function safeRedirectPath(next: string | null | undefined, fallback = '/dashboard'): string {
+  if (!next || !next.startsWith('/') || next.startsWith('//') || next.startsWith('/\\')) {
+    return fallback;
+  }
+  return next;
+}
+
+export const loginRedirectPath = (pathname: string, search = ''): string =>
+  `${LOGIN_PATH}?next=${encodeURIComponent(`${pathname}${search}`)}`;
@@ -0,0 +1,85 @@
+// Stripe payment links for invoices. The link charges the outstanding amount once;
+// the webhook matches the completed checkout back to the invoice by payment link ID.
+
+import type Stripe from 'stripe';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { getOutstandingAmount } from '../invoices';
+import { logger } from '../logger';
+import type { Invoice } from '../../types/api/invoice';
+
+export type PayableInvoice = Pick<
+  Invoice,
+  'id' | 'organization_id' | 'invoice_number' | 'invoice_type' | 'status' | 'amount' | 'total' | 'currency' | 'stripe_payment_link_id'
+>;
+
+export interface InvoicePaymentLink {
+  stripe_payment_link_id: string;
+  payment_url: string;
+}
+
+// iDEAL and Bancontact only settle in euro
+export const invoicePaymentMethods = (currency: string): Stripe.PaymentLinkCreateParams.PaymentMethodType[] =>
+  currency.toUpperCase() === 'EUR' ? ['card', 'ideal', 'bancontact'] : ['card'];
+
+export const toMinorUnits = (amount: number): number => Math.round(amount * 100);
+
+export const buildPaymentLinkParams = (invoice: PayableInvoice): Stripe.PaymentLinkCreateParams => {
+  const metadata = { invoice_id: invoice.id, organization_id: invoice.organization_id };
+
+  return {
+    line_items: [
+      {
+        price_data: {
+          currency: invoice.currency.toLowerCase(),
+          unit_amount: toMinorUnits(getOutstandingAmount(invoice)),
+          product_data: { name: `Factuur ${invoice.invoice_number}` },
+        },
+        quantity: 1,
+      },
+    ],
+    payment_method_types: invoicePaymentMethods(invoice.currency),
+    // One successful payment settles the invoice; the link stops accepting payments after that
+    restrictions: { completed_sessions: { limit: 1 } },
+    metadata,
+    payment_intent_data: { metadata, description: `Factuur ${invoice.invoice_number}` },
+  };
+};
+
+/**
+ * Create a payment link for the outstanding amount of an invoice. A previous link is
+ * deactivated first, since the amount may have changed since it was created.
+ * Returns null when nothing is left to pay.
+ */
+export async function createInvoicePaymentLink(
+  stripe: Stripe,
+  invoice: PayableInvoice
+): Promise<InvoicePaymentLink | null> {
+  if (getOutstandingAmount(invoice) <= 0) {
+    return null;
+  }
+
+  if (invoice.stripe_payment_link_id) {
+    try {
+      await stripe.paymentLinks.update(invoice.stripe_payment_link_id, { active: false });
+    } catch (error) {
+      logger.warn(`Failed to deactivate payment link ${invoice.stripe_payment_link_id}`, 'stripe', error);
+    }
+  }
+
+  const link = await stripe.paymentLinks.create(buildPaymentLinkParams(invoice));
+  return { stripe_payment_link_id: link.id, payment_url: link.url };
+}
+
+export async function saveInvoicePaymentLink(
+  supabase: SupabaseClient,
+  invoiceId: string,
+  link: InvoicePaymentLink
+): Promise<void> {
+  // Through mark_invoice_sent (migration 025), since members with invoices:send only may not update invoices
+  const { error } = await supabase.rpc('mark_invoice_sent', {
+    p_invoice_id: invoiceId,
+    p_stripe_payment_link_id: link.stripe_payment_link_id,
+    p_payment_url: link.payment_url,
+  });
+  if (error) throw error;
+}
@@ -0,0 +1,272 @@
+// Stripe webhook processing: organization subscriptions, paid invoices and payment links, and idempotency.
+// Database access goes through StripeWebhookStore so events can be replayed in tests.
+
+import type Stripe from 'stripe';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { logActivity, statusChangeAction } from '../activity';
+import { logger } from '../logger';
+import { emitWebhookEvent } from '../outgoing-webhooks';
+import { INVOICE_COLUMNS, serializeInvoice } from '../public-api/resources';
+
+export type SubscriptionTier = 'free' | 'pro' | 'enterprise';
+
+export type StripeEventResult = 'processed' | 'duplicate' | 'ignored';
+
+// Invoices are paid either through a Stripe invoice or through their payment link
+export type InvoicePaymentReference =
+  | { column: 'stripe_invoice_id'; value: string }
+  | { column: 'stripe_payment_link_id'; value: string };
+
+export interface SubscriptionRecord {
+  organization_id: string;
+  stripe_customer_id: string;
+  stripe_subscription_id: string;
+  plan: string | null;
+  status: Stripe.Subscription.Status;
+  seats: number;
+  current_period_end: string | null;
+  cancel_at_period_end: boolean;
+}
+
+export interface StripeWebhookStore {
+  // Returns false when the event was already processed
+  claimEvent(event: Pick<Stripe.Event, 'id' | 'type'>): Promise<boolean>;
+  // Forget a claimed event after a failure so Stripe's retry is processed again
+  releaseEvent(eventId: string): Promise<void>;
+  findOrganizationIdByCustomer(customerId: string): Promise<string | null>;
+  linkCustomer(organizationId: string, customerId: string): Promise<void>;
+  saveSubscription(record: SubscriptionRecord, tier: SubscriptionTier): Promise<void>;
+  // Returns the number of invoices that were marked as paid
+  markInvoicePaid(reference: InvoicePaymentReference, paidAt: string): Promise<number>;
+}
+
+const ENTITLED_STATUSES: Stripe.Subscription.Status[] = ['active', 'trialing', 'past_due'];
+
+// Paid plans by the lookup key of their Stripe price. The tier is only taken from the price:
+// subscription metadata comes from the checkout request and can say anything.
+export const PLAN_TIERS: Record<string, SubscriptionTier> = {
+  starter: 'pro',
+  professional: 'pro',
+  enterprise: 'enterprise',
+};
+
+const toIsoDate = (timestamp: number | null | undefined): string | null =>
+  timestamp ? new Date(timestamp * 1000).toISOString() : null;
+
+// Expandable Stripe fields are either an ID or the expanded object
+const idOf = (value: string | { id: string } | null): string | null =>
+  typeof value === 'string' ? value : value?.id || null;
+
+export const toSubscriptionRecord = (
+  subscription: Stripe.Subscription,
+  organizationId: string
+): SubscriptionRecord => {
+  const item = subscription.items.data[0];
+  return {
+    organization_id: organizationId,
+    stripe_customer_id: idOf(subscription.customer) || '',
+    stripe_subscription_id: subscription.id,
+    plan: item?.price.lookup_key || item?.price.id || null,
+    status: subscription.status,
+    seats: item?.quantity ?? 1,
+    current_period_end: toIsoDate(item?.current_period_end),
+    cancel_at_period_end: subscription.cancel_at_period_end,
+  };
+};
+
+const planTier = (plan: string | null): SubscriptionTier | null =>
+  plan && Object.prototype.hasOwnProperty.call(PLAN_TIERS, plan) ? PLAN_TIERS[plan] : null;
+
+// A price that is not in PLAN_TIERS unlocks nothing
+export const subscriptionTier = (record: Pick<SubscriptionRecord, 'plan' | 'status'>): SubscriptionTier => {
+  if (!ENTITLED_STATUSES.includes(record.status)) return 'free';
+  return planTier(record.plan) ?? 'free';
+};
+
+async function handleSubscription(subscription: Stripe.Subscription, store: StripeWebhookStore): Promise<StripeEventResult> {
+  const customerId = idOf(subscription.customer);
+  const organizationId = subscription.metadata?.organization_id
+    || (customerId ? await store.findOrganizationIdByCustomer(customerId) : null);
+
+  if (!organizationId) {
+    logger.warn(`No organization for subscription ${subscription.id}`, 'stripe', { customerId });
+    return 'ignored';
+  }
+
+  const record = toSubscriptionRecord(subscription, organizationId);
+  if (ENTITLED_STATUSES.includes(record.status) && !planTier(record.plan)) {
+    logger.warn(`Subscription ${subscription.id} has a price without a plan tier`, 'stripe', { plan: record.plan });
+  }
+  await store.saveSubscription(record, subscriptionTier(record));
+  return 'processed';
+}
+
+// A checkout through an invoice payment link; iDEAL and card settle immediately,
+// delayed methods are only paid once async_payment_succeeded arrives
+async function handlePaymentLinkCheckout(
+  session: Stripe.Checkout.Session,
+  event: Stripe.Event,
+  store: StripeWebhookStore
+): Promise<StripeEventResult> {
+  const paymentLinkId = idOf(session.payment_link);
+  if (!paymentLinkId || session.payment_status !== 'paid') return 'ignored';
+
+  const paidAt = toIsoDate(event.created) || new Date().toISOString();
+  const updated = await store.markInvoicePaid({ column: 'stripe_payment_link_id', value: paymentLinkId }, paidAt);
+  logger.info(`Payment link ${paymentLinkId} paid, ${updated} invoice(s) updated`, 'stripe', {
+    invoiceId: session.metadata?.invoice_id,
+  });
+  return updated > 0 ? 'processed' : 'ignored';
+}
+
+async function handleEvent(event: Stripe.Event, store: StripeWebhookStore): Promise<StripeEventResult> {
+  switch (event.type) {
+    case 'checkout.session.completed': {
+      const session = event.data.object;
+      if (session.mode === 'payment') {
+        return handlePaymentLinkCheckout(session, event, store);
+      }
+
+      const organizationId = session.client_reference_id || session.metadata?.organization_id;
+      const customerId = idOf(session.customer);
+
+      // Subscription details follow in customer.subscription.* events
+      if (session.mode === 'subscription' && organizationId && customerId) {
+        await store.linkCustomer(organizationId, customerId);
+        return 'processed';
+      }
+      return 'ignored';
+    }
+
+    case 'checkout.session.async_payment_succeeded':
+      return handlePaymentLinkCheckout(event.data.object, event, store);
+
+    case 'customer.subscription.created':
+    case 'customer.subscription.updated':
+    case 'customer.subscription.deleted':
+      return handleSubscription(event.data.object, store);
+
+    case 'invoice.paid': {
+      const invoice = event.data.object;
+      if (!invoice.id) return 'ignored';
+
+      const paidAt = toIsoDate(invoice.status_transitions.paid_at) || toIsoDate(event.created) || new Date().toISOString();
+      const updated = await store.markInvoicePaid({ column: 'stripe_invoice_id', value: invoice.id }, paidAt);
+      logger.info(`Stripe invoice ${invoice.id} paid, ${updated} invoice(s) updated`, 'stripe');
+      return updated > 0 ? 'processed' : 'ignored';
+    }
+
+    case 'invoice.payment_failed':
+      // The subscription moves to past_due through customer.subscription.updated
+      logger.warn(`Payment failed: ${event.data.object.id}`, 'stripe');
+      return 'processed';
+
+    default:
+      return 'ignored';
+  }
+}
+
+/**
+ * Apply a verified Stripe event exactly once. The event ID is claimed before
+ * processing and released again when processing fails, so a retry can succeed.
+ */
+export async function processStripeEvent(event: Stripe.Event, store: StripeWebhookStore): Promise<StripeEventResult> {
+  if (!(await store.claimEvent(event))) {
+    logger.info(`Skipping already processed event ${event.id}`, 'stripe');
+    return 'duplicate';
+  }
+
+  try {
+    return await handleEvent(event, store);
+  } catch (error) {
+    await store.releaseEvent(event.id);
+    throw error;
+  }
+}
+
+// Unique violation on stripe_events.id means the event was processed before
+const UNIQUE_VIOLATION = '23505';
+
+export const createSupabaseWebhookStore = (supabase: SupabaseClient): StripeWebhookStore => ({
+  async claimEvent(event) {
+    const { error } = await supabase.from('stripe_events').insert({ id: event.id, type: event.type });
+    if (error?.code === UNIQUE_VIOLATION) return false;
+    if (error) throw error;
+    return true;
+  },
+
+  async releaseEvent(eventId) {
+    await supabase.from('stripe_events').delete().eq('id', eventId);
+  },
+
+  async findOrganizationIdByCustomer(customerId) {
+    const { data } = await supabase
+      .from('organizations')
+      .select('id')
+      .eq('stripe_customer_id', customerId)
+      .maybeSingle();
+    return data?.id || null;
+  },
+
+  async linkCustomer(organizationId, customerId) {
+    const { error } = await supabase
+      .from('organizations')
+      .update({ stripe_customer_id: customerId, updated_at: new Date().toISOString() })
+      .eq('id', organizationId);
+    if (error) throw error;
+  },
+
+  async saveSubscription(record, tier) {
+    const now = new Date().toISOString();
+    const { error } = await supabase
+      .from('organization_subscriptions')
+      .upsert({ ...record, updated_at: now }, { onConflict: 'organization_id' });
+    if (error) throw error;
+
+    // Paid seats become the team size limit while the subscription is active
+    const { error: organizationError } = await supabase
+      .from('organizations')
+      .update({
+        subscription_tier: tier,
+        stripe_customer_id: record.stripe_customer_id,
+        ...(tier !== 'free' ? { max_team_size: record.seats } : {}),
+        updated_at: now
+      })
+      .eq('id', record.organization_id);
+    if (organizationError) throw organizationError;
+
+    await logActivity(
+      { organizationId: record.organization_id, userId: null },
+      {
+        action: 'subscription_updated',
+        resource_type: 'organization',
+        resource_id: record.organization_id,
+        metadata: { plan: record.plan, status: record.status, seats: record.seats, source: 'stripe' },
+      }
+    );
+  },
+
+  async markInvoicePaid(reference, paidAt) {
+    const { data, error } = await supabase
+      .from('invoices')
+      .update({ status: 'paid', paid_at: paidAt, updated_at: new Date().toISOString() })
+      .eq(reference.column, reference.value)
+      .not('status', 'in', '(paid,cancelled)')
+      .select(`organization_id, ${INVOICE_COLUMNS}`);
+    if (error) throw error;
+
+    for (const invoice of data || []) {
+      await emitWebhookEvent(invoice.organization_id, 'invoice.paid', serializeInvoice(invoice));
+      await logActivity(
+        { organizationId: invoice.organization_id, userId: null },
+        {
+          action: statusChangeAction('invoice', 'paid'),
+          resource_type: 'invoice',
+          resource_id: invoice.id,
+          metadata: { invoice_number: invoice.invoice_number, source: 'stripe' },
+        }
+      );
+    }
+    return data?.length || 0;
+  },
+});
@@ -0,0 +1,17 @@
+// Server-side Stripe client, only available when STRIPE_ENABLED=true and a secret key is set
+
+import Stripe from 'stripe';
+
+export const isStripeEnabled = (): boolean => process.env.STRIPE_ENABLED === 'true';
+
+let stripe: Stripe | null = null;
+
+export function getStripeClient(): Stripe | null {
+  if (!isStripeEnabled() || !process.env.STRIPE_SECRET_KEY) {
+    return null;
+  }
+  if (!stripe) {
+    stripe = new Stripe(process.env.STRIPE_SECRET_KEY);
+  }
+  return stripe;
+}
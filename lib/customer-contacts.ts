@@ -0,0 +1,154 @@
+// Contact persons of a customer. Offers and invoices can be addressed to a chosen contact;
+// otherwise they go to the contact with the matching role, then the primary contact, then the customer.
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import type { ContactRole, CustomerContact } from '../types/api/customer';
+
+export const CONTACT_ROLES: ContactRole[] = ['quotes', 'billing', 'technical'];
+
+export type ContactDocument = 'offer' | 'invoice';
+
+// Role that receives each kind of document
+export const DOCUMENT_CONTACT_ROLES: Record<ContactDocument, ContactRole> = {
+  offer: 'quotes',
+  invoice: 'billing',
+};
+
+export const CONTACT_COLUMNS = 'id, organization_id, customer_id, name, email, phone, job_title, roles, is_primary, created_at, updated_at';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export const isContactRole = (value: unknown): value is ContactRole =>
+  typeof value === 'string' && (CONTACT_ROLES as string[]).includes(value);
+
+export type ContactInput =
+  | { values: Record<string, unknown>; error?: undefined }
+  | { error: string; values?: undefined };
+
+/**
+ * Validate contact fields from a request body. With partial, only the fields present
+ * are returned (for PATCH); otherwise name is required.
+ */
+export const parseContactInput = (body: Record<string, unknown>, partial = false): ContactInput => {
+  const values: Record<string, unknown> = {};
+
+  if (body.name !== undefined || !partial) {
+    if (typeof body.name !== 'string' || !body.name.trim()) {
+      return { error: 'Missing required field: name' };
+    }
+    values.name = body.name.trim();
+  }
+
+  for (const field of ['email', 'phone', 'job_title'] as const) {
+    if (body[field] === undefined) continue;
+    if (body[field] !== null && typeof body[field] !== 'string') {
+      return { error: `${field} must be a string` };
+    }
+    values[field] = (body[field] as string | null)?.trim() || null;
+  }
+
+  if (typeof values.email === 'string' && !EMAIL_PATTERN.test(values.email)) {
+    return { error: 'Invalid email address' };
+  }
+
+  if (body.roles !== undefined) {
+    if (!Array.isArray(body.roles) || !body.roles.every(isContactRole)) {
+      return { error: `Roles must be a list of: ${CONTACT_ROLES.join(', ')}` };
+    }
+    values.roles = Array.from(new Set(body.roles));
+  }
+
+  if (body.is_primary !== undefined) {
+    if (typeof body.is_primary !== 'boolean') {
+      return { error: 'is_primary must be a boolean' };
+    }
+    values.is_primary = body.is_primary;
+  }
+
+  return { values };
+};
+
+export interface DocumentRecipient {
+  email: string;
+  name: string;
+  // null when the document goes to the customer's own address
+  contact_id: string | null;
+}
+
+type RecipientContact = Pick<CustomerContact, 'id' | 'name' | 'email' | 'roles' | 'is_primary'>;
+
+/**
+ * Pick who receives a document: the chosen contact, else a contact with the role
+ * (primary first), else the primary contact, else the customer itself.
+ * Contacts without an email address are skipped.
+ */
+export const selectDocumentRecipient = (
+  customer: { name: string; email: string | null },
+  contacts: RecipientContact[],
+  role: ContactRole,
+  contactId: string | null = null
+): DocumentRecipient | null => {
+  const reachable = contacts
+    .filter(contact => contact.email)
+    .sort((a, b) => Number(b.is_primary) - Number(a.is_primary));
+
+  const contact =
+    reachable.find(c => c.id === contactId) ||
+    reachable.find(c => c.roles.includes(role)) ||
+    reachable.find(c => c.is_primary);
+
+  if (contact) {
+    return { email: contact.email as string, name: contact.name, contact_id: contact.id };
+  }
+  return customer.email ? { email: customer.email, name: customer.name, contact_id: null } : null;
+};
+
+export async function findDocumentRecipient(
+  supabase: SupabaseClient,
+  customer: { id: string; name: string; email: string | null },
+  document: ContactDocument,
+  contactId: string | null = null
+): Promise<DocumentRecipient | null> {
+  const { data: contacts, error } = await supabase
+    .from('customer_contacts')
+    .select('id, name, email, roles, is_primary')
+    .eq('customer_id', customer.id);
+  if (error) throw error;
+
+  return selectDocumentRecipient(customer, contacts || [], DOCUMENT_CONTACT_ROLES[document], contactId);
+}
+
+// A document can only be addressed to a contact of its own customer
+export async function isContactOfCustomer(
+  supabase: SupabaseClient,
+  organizationId: string,
+  customerId: string | null | undefined,
+  contactId: string
+): Promise<boolean> {
+  if (!customerId) return false;
+
+  const { data, error } = await supabase
+    .from('customer_contacts')
+    .select('id')
+    .eq('id', contactId)
+    .eq('customer_id', customerId)
+    .eq('organization_id', organizationId)
+    .maybeSingle();
+  if (error) throw error;
+  return !!data;
+}
+
+// Only one contact per customer can be primary (idx_customer_contacts_primary)
+export async function clearPrimaryContact(
+  supabase: SupabaseClient,
+  organizationId: string,
+  customerId: string
+): Promise<void> {
+  const { error } = await supabase
+    .from('customer_contacts')
+    .update({ is_primary: false, updated_at: new Date().toISOString() })
+    .eq('customer_id', customerId)
+    .eq('organization_id', organizationId)
+    .eq('is_primary', true);
+  if (error) throw error;
+}
@@ -0,0 +1,306 @@
+// Customer import from a spreadsheet. Rows are mapped to customer fields, validated and matched
+// against existing customers into a plan that the wizard previews; the same plan is then written in batches.
+
+import { parseCustomerUpdate } from './customers';
+import { toCsv } from './spreadsheet/csv';
+import type { BatchOperation } from './database-service';
+import type {
+  Customer,
+  CustomerImportError,
+  CustomerImportField,
+  CustomerImportRow,
+  CustomerImportSummary,
+  CustomerStatus,
+  DuplicateStrategy,
+} from '../types/api/customer';
+
+export const CUSTOMER_IMPORT_FIELDS: CustomerImportField[] = [
+  'name', 'email', 'phone', 'company', 'vat_number', 'status', 'source',
+  'address.street', 'address.postal_code', 'address.city', 'address.country',
+];
+
+export const DUPLICATE_STRATEGIES: DuplicateStrategy[] = ['skip', 'merge', 'overwrite'];
+
+export const MAX_IMPORT_ROWS = 5000;
+export const MAX_IMPORT_FILE_SIZE = 5 * 1024 * 1024;
+
+// Rows written per batch; a failing batch is retried row by row to find the bad rows
+const IMPORT_CHUNK_SIZE = 100;
+
+// The customer field of each spreadsheet column, or null when the column is ignored
+export type ColumnMapping = Array<CustomerImportField | null>;
+
+export type ImportCustomer = Pick<
+  Customer,
+  'id' | 'name' | 'email' | 'phone' | 'company' | 'address' | 'vat_number' | 'status' | 'source'
+>;
+
+export const IMPORT_CUSTOMER_COLUMNS = 'id, name, email, phone, company, address, vat_number, status, source';
+
+// Header names per field, lowercase without spaces or punctuation ("E-mailadres" -> "emailadres")
+const HEADER_ALIASES: Record<CustomerImportField, string[]> = {
+  name: ['name', 'naam', 'klant', 'klantnaam', 'contactpersoon', 'contact', 'fullname', 'volledigenaam'],
+  email: ['email', 'emailadres', 'emailaddress', 'mail'],
+  phone: ['phone', 'phonenumber', 'telefoon', 'telefoonnummer', 'tel', 'mobiel', 'mobile'],
+  company: ['company', 'companyname', 'bedrijf', 'bedrijfsnaam', 'organisatie', 'organization'],
+  vat_number: ['vatnumber', 'vat', 'vatid', 'btw', 'btwnummer', 'btwnr', 'btwid'],
+  status: ['status'],
+  source: ['source', 'bron'],
+  'address.street': ['street', 'streetaddress', 'address', 'straat', 'adres'],
+  'address.postal_code': ['postalcode', 'zip', 'zipcode', 'postcode'],
+  'address.city': ['city', 'town', 'plaats', 'stad', 'woonplaats'],
+  'address.country': ['country', 'land'],
+};
+
+// Dutch status labels as they appear in exports of the customer list
+const STATUS_ALIASES: Record<string, CustomerStatus> = {
+  klant: 'customer',
+  inactief: 'inactive',
+};
+
+export const isImportField = (value: unknown): value is CustomerImportField =>
+  typeof value === 'string' && (CUSTOMER_IMPORT_FIELDS as string[]).includes(value);
+
+const normalizeHeader = (header: string): string => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// Map each column to the field its header names; every field is used at most once
+export const autoMapColumns = (headers: string[]): ColumnMapping => {
+  const used = new Set<CustomerImportField>();
+  return headers.map(header => {
+    const normalized = normalizeHeader(header);
+    const field = CUSTOMER_IMPORT_FIELDS.find(candidate => !used.has(candidate) && HEADER_ALIASES[candidate].includes(normalized));
+    if (!field) return null;
+    used.add(field);
+    return field;
+  });
+};
+
+export const validateColumnMapping = (mapping: unknown): string | null => {
+  if (!Array.isArray(mapping) || !mapping.every(field => field === null || isImportField(field))) {
+    return `Mapping must be a list of: ${CUSTOMER_IMPORT_FIELDS.join(', ')} or null`;
+  }
+  const fields = mapping.filter(Boolean);
+  const repeated = fields.find((field, index) => fields.indexOf(field) !== index);
+  if (repeated) {
+    return `Column mapped twice: ${repeated}`;
+  }
+  if (!fields.includes('name') && !fields.includes('company')) {
+    return 'Map a column to name or company';
+  }
+  return null;
+};
+
+/**
+ * Turn one spreadsheet row into validated customer values. Empty cells are left out,
+ * so they never clear existing data; rows without a name use the company name.
+ */
+export const toCustomerValues = (
+  cells: string[],
+  mapping: ColumnMapping
+): { values: Record<string, unknown>; error?: undefined } | { error: string; values?: undefined } => {
+  const body: Record<string, unknown> = {};
+  const address: Record<string, string> = {};
+
+  mapping.forEach((field, index) => {
+    const value = cells[index]?.trim();
+    if (!field || !value) return;
+
+    if (field.startsWith('address.')) {
+      address[field.slice('address.'.length)] = value;
+    } else if (field === 'status') {
+      body.status = STATUS_ALIASES[value.toLowerCase()] || value.toLowerCase();
+    } else {
+      body[field] = value;
+    }
+  });
+
+  if (!body.name && body.company) {
+    body.name = body.company;
+  }
+  if (!body.name) {
+    return { error: 'Missing required field: name' };
+  }
+  if (Object.keys(address).length > 0) {
+    body.address = address;
+  }
+
+  const parsed = parseCustomerUpdate(body);
+  return parsed.error !== undefined ? { error: parsed.error } : { values: parsed.updates };
+};
+
+// Customers are the same when their email address or company name matches
+const duplicateKeys = (customer: { email?: unknown; company?: unknown }): string[] =>
+  [
+    typeof customer.email === 'string' && customer.email ? `email:${customer.email.toLowerCase()}` : null,
+    typeof customer.company === 'string' && customer.company ? `company:${customer.company.trim().toLowerCase()}` : null,
+  ].filter((key): key is string => key !== null);
+
+const isEmpty = (value: unknown) => value === null || value === undefined || value === '';
+
+/**
+ * Fields to write to an existing customer. Merge only fills what is still empty;
+ * overwrite replaces everything the row has a value for.
+ */
+export const customerChanges = (
+  existing: ImportCustomer,
+  values: Record<string, unknown>,
+  strategy: Exclude<DuplicateStrategy, 'skip'>
+): Record<string, unknown> => {
+  const changes: Record<string, unknown> = {};
+
+  for (const [field, value] of Object.entries(values)) {
+    if (field === 'address') {
+      const current: Record<string, string | undefined> = existing.address || {};
+      const filled = Object.fromEntries(Object.entries(current).filter(([, part]) => !isEmpty(part)));
+      const address = strategy === 'merge'
+        ? { ...(value as Record<string, string>), ...filled }
+        : { ...current, ...(value as Record<string, string>) };
+      if (Object.keys(address).some(key => address[key] !== current[key])) {
+        changes.address = address;
+      }
+      continue;
+    }
+
+    const current = existing[field as keyof ImportCustomer];
+    if (current !== value && (strategy === 'overwrite' || isEmpty(current))) {
+      changes[field] = value;
+    }
+  }
+
+  return changes;
+};
+
+/**
+ * Decide per row whether it creates a customer, updates the customer it duplicates,
+ * is skipped or is invalid. Rows repeating an earlier row of the file are invalid.
+ */
+export const planCustomerImport = (
+  rows: string[][],
+  mapping: ColumnMapping,
+  existing: ImportCustomer[],
+  strategy: DuplicateStrategy
+): CustomerImportRow[] => {
+  const existingByKey = new Map<string, ImportCustomer>();
+  existing.forEach(customer => {
+    duplicateKeys(customer).forEach(key => {
+      if (!existingByKey.has(key)) existingByKey.set(key, customer);
+    });
+  });
+  const rowByKey = new Map<string, number>();
+
+  return rows.map((cells, index) => {
+    // Data rows start below the header row
+    const row = index + 2;
+    const parsed = toCustomerValues(cells, mapping);
+    if (parsed.error !== undefined) {
+      return { row, action: 'invalid', values: {}, duplicate: null, changes: null, error: parsed.error };
+    }
+
+    const { values } = parsed;
+    const keys = duplicateKeys(values);
+    const earlierRow = keys.map(key => rowByKey.get(key)).find(Boolean);
+    if (earlierRow) {
+      return { row, action: 'invalid', values, duplicate: null, changes: null, error: `Duplicate of row ${earlierRow}` };
+    }
+    keys.forEach(key => rowByKey.set(key, row));
+
+    const match = keys.map(key => existingByKey.get(key)).find(Boolean);
+    if (!match) {
+      return { row, action: 'create', values, duplicate: null, changes: null, error: null };
+    }
+
+    const duplicate = { id: match.id, name: match.name };
+    const changes = strategy === 'skip' ? {} : customerChanges(match, values, strategy);
+    return Object.keys(changes).length > 0
+      ? { row, action: 'update', values, duplicate, changes, error: null }
+      : { row, action: 'skip', values, duplicate, changes: null, error: null };
+  });
+};
+
+export const summarizeImportPlan = (plan: CustomerImportRow[]): CustomerImportSummary => ({
+  created: plan.filter(row => row.action === 'create').length,
+  updated: plan.filter(row => row.action === 'update').length,
+  skipped: plan.filter(row => row.action === 'skip').length,
+  failed: plan.filter(row => row.action === 'invalid').length,
+});
+
+// Runs operations in order and stops at the first error, like DatabaseService.batch
+export type ImportBatch = (operations: BatchOperation[]) => Promise<{ error: string | null }>;
+
+const toImportError = (row: CustomerImportRow, error: string): CustomerImportError => ({
+  row: row.row,
+  name: typeof row.values.name === 'string' ? row.values.name : null,
+  email: typeof row.values.email === 'string' ? row.values.email : null,
+  error,
+});
+
+/**
+ * Write the create and update rows of a plan. Each chunk runs its updates and then a single
+ * insert of its new customers; when it fails, updates are safe to repeat and the insert did
+ * not happen, so the chunk is retried row by row to report exactly which rows failed.
+ */
+export async function runCustomerImport(
+  plan: CustomerImportRow[],
+  organizationId: string,
+  batch: ImportBatch
+): Promise<{ summary: CustomerImportSummary; errors: CustomerImportError[] }> {
+  const summary: CustomerImportSummary = { ...summarizeImportPlan(plan), created: 0, updated: 0 };
+  const errors = plan
+    .filter(row => row.action === 'invalid')
+    .map(row => toImportError(row, row.error || 'Invalid row'));
+
+  const now = new Date().toISOString();
+  const toInsert = (row: CustomerImportRow) => ({
+    organization_id: organizationId,
+    ...row.values,
+    source: row.values.source ?? 'import',
+  });
+  const toUpdate = (row: CustomerImportRow): BatchOperation => ({
+    operation: 'update',
+    table: 'customers',
+    data: { ...row.changes, updated_at: now },
+    filters: { id: row.duplicate?.id, organization_id: organizationId },
+  });
+
+  const writable = plan.filter(row => row.action === 'create' || row.action === 'update');
+  for (let start = 0; start < writable.length; start += IMPORT_CHUNK_SIZE) {
+    const chunk = writable.slice(start, start + IMPORT_CHUNK_SIZE);
+    const creates = chunk.filter(row => row.action === 'create');
+    const updates = chunk.filter(row => row.action === 'update');
+
+    const operations = updates.map(toUpdate);
+    if (creates.length > 0) {
+      operations.push({ operation: 'insert', table: 'customers', data: creates.map(toInsert) });
+    }
+
+    const result = await batch(operations);
+    if (!result.error) {
+      summary.created += creates.length;
+      summary.updated += updates.length;
+      continue;
+    }
+
+    for (const row of chunk) {
+      const single = await batch([
+        row.action === 'update' ? toUpdate(row) : { operation: 'insert', table: 'customers', data: [toInsert(row)] },
+      ]);
+      if (single.error) {
+        summary.failed++;
+        errors.push(toImportError(row, single.error));
+      } else if (row.action === 'create') {
+        summary.created++;
+      } else {
+        summary.updated++;
+      }
+    }
+  }
+
+  return { summary, errors: errors.sort((a, b) => a.row - b.row) };
+}
+
+// CSV with one line per row that was not imported, for the download in the wizard
+export const toImportErrorReport = (errors: CustomerImportError[]): string =>
+  toCsv([
+    ['Rij', 'Naam', 'E-mail', 'Fout'],
+    ...errors.map(error => [error.row, error.name, error.email, error.error]),
+  ]);
@@ -0,0 +1,137 @@
+// Shared helpers for customers, used by the customer API routes and the customer detail page
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { roundCents } from './vat';
+import { checkVatNumber, normalizeVatNumber } from '../validators/vat-number';
+import type {
+  CustomerAccountSummary,
+  CustomerInvoice,
+  CustomerOffer,
+  CustomerPayment,
+  CustomerStatus,
+} from '../types/api/customer';
+
+export const CUSTOMER_STATUSES: CustomerStatus[] = ['lead', 'customer', 'vip', 'inactive'];
+
+export const isCustomerStatus = (value: unknown): value is CustomerStatus =>
+  typeof value === 'string' && (CUSTOMER_STATUSES as string[]).includes(value);
+
+const OPTIONAL_TEXT_FIELDS = ['email', 'phone', 'company', 'source'] as const;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export type CustomerUpdate =
+  | { updates: Record<string, unknown>; error?: undefined }
+  | { error: string; updates?: undefined };
+
+/**
+ * Validate a partial customer update. Only fields present in the body are changed;
+ * empty optional fields are cleared.
+ */
+export const parseCustomerUpdate = (body: Record<string, unknown>): CustomerUpdate => {
+  const updates: Record<string, unknown> = {};
+
+  if (body.name !== undefined) {
+    if (typeof body.name !== 'string' || !body.name.trim()) {
+      return { error: 'Name cannot be empty' };
+    }
+    updates.name = body.name.trim();
+  }
+
+  for (const field of OPTIONAL_TEXT_FIELDS) {
+    if (body[field] === undefined) continue;
+    if (body[field] !== null && typeof body[field] !== 'string') {
+      return { error: `${field} must be a string` };
+    }
+    updates[field] = (body[field] as string | null)?.trim() || null;
+  }
+
+  if (typeof updates.email === 'string' && !EMAIL_PATTERN.test(updates.email)) {
+    return { error: 'Invalid email address' };
+  }
+
+  if (body.status !== undefined) {
+    if (!isCustomerStatus(body.status)) {
+      return { error: `Status must be one of: ${CUSTOMER_STATUSES.join(', ')}` };
+    }
+    updates.status = body.status;
+  }
+
+  if (body.address !== undefined) {
+    if (body.address !== null && (typeof body.address !== 'object' || Array.isArray(body.address))) {
+      return { error: 'Address must be an object' };
+    }
+    updates.address = body.address;
+  }
+
+  if (body.vat_number !== undefined) {
+    if (body.vat_number) {
+      const vatCheck = checkVatNumber(String(body.vat_number));
+      if (!vatCheck.valid) {
+        return { error: vatCheck.error || 'Invalid VAT number' };
+      }
+      updates.vat_number = normalizeVatNumber(String(body.vat_number));
+    } else {
+      updates.vat_number = null;
+    }
+  }
+
+  return { updates };
+};
+
+export const toCustomerPayments = (invoices: CustomerInvoice[]): CustomerPayment[] =>
+  invoices
+    .filter(invoice => invoice.status === 'paid' && invoice.paid_at)
+    .map(invoice => ({
+      invoice_id: invoice.id,
+      invoice_number: invoice.invoice_number,
+      amount: Number(invoice.total ?? invoice.amount),
+      currency: invoice.currency,
+      paid_at: invoice.paid_at as string,
+      refund: invoice.invoice_type === 'credit_note',
+    }))
+    .sort((a, b) => b.paid_at.localeCompare(a.paid_at));
+
+/**
+ * Lifetime value and open balance of a customer. Credit notes carry negative totals,
+ * so a paid credit note lowers the lifetime value and an open one lowers the balance.
+ */
+export const summarizeCustomerAccount = (
+  offers: Pick<CustomerOffer, 'status'>[],
+  invoices: CustomerInvoice[]
+): CustomerAccountSummary => {
+  const totalOf = (invoice: CustomerInvoice) => Number(invoice.total ?? invoice.amount) || 0;
+  const payments = toCustomerPayments(invoices);
+  const open = invoices.filter(invoice => invoice.status === 'sent' || invoice.status === 'overdue');
+
+  return {
+    lifetime_value: roundCents(payments.reduce((sum, payment) => sum + payment.amount, 0)),
+    open_balance: roundCents(open.reduce((sum, invoice) => sum + totalOf(invoice), 0)),
+    overdue_balance: roundCents(
+      open.filter(invoice => invoice.status === 'overdue').reduce((sum, invoice) => sum + totalOf(invoice), 0)
+    ),
+    offer_count: offers.length,
+    accepted_offer_count: offers.filter(offer => offer.status === 'accepted').length,
+    invoice_count: invoices.filter(invoice => invoice.invoice_type !== 'credit_note').length,
+    last_payment_at: payments.find(payment => !payment.refund)?.paid_at || null,
+  };
+};
+
+/**
+ * The customer, if it belongs to the organization. API keys use the service role client,
+ * which skips RLS, so customer ids from a request body must be checked with this first.
+ */
+export async function findOrganizationCustomer(
+  supabase: SupabaseClient,
+  organizationId: string,
+  customerId: string
+): Promise<{ id: string; vat_number: string | null } | null> {
+  const { data, error } = await supabase
+    .from('customers')
+    .select('id, vat_number')
+    .eq('id', customerId)
+    .eq('organization_id', organizationId)
+    .maybeSingle();
+  if (error) throw error;
+  return data;
+}
@@ -1,6 +1,7 @@
 // Enhanced Database Service with Caching and Query Optimization
 // Comprehensive database operations with Redis caching, query optimization, and error handling
 
+import { SupabaseClient } from '@supabase/supabase-js';
 import { supabase } from './supabase';
 import { logger } from './logger';
 
@@ -23,6 +24,15 @@ export interface QueryResult<T> {
 // Database operation types
 export type DatabaseOperation = 'select' | 'insert' | 'update' | 'delete' | 'upsert';
 
+// Single step of a batch
+export interface BatchOperation {
+  operation: DatabaseOperation;
+  table: string;
+  data?: any;
+  filters?: Record<string, any>;
+  options?: any;
+}
+
 // Enhanced database service class
 export class DatabaseService {
   private static instance: DatabaseService;
@@ -172,9 +182,12 @@ export class DatabaseService {
       limit?: number;
       offset?: number;
       cache?: CacheConfig;
+      client?: SupabaseClient;
     } = {}
   ): Promise<QueryResult<T[]>> {
-    const cacheKey = this.generateCacheKey(table, 'select', options);
+    // The client is not part of the cache key (and cannot be serialized)
+    const { client, ...queryOptions } = options;
+    const cacheKey = this.generateCacheKey(table, 'select', queryOptions);
     
     // Check cache first
     const cachedResult = this.getFromCache<T[]>(cacheKey);
@@ -183,7 +196,7 @@ export class DatabaseService {
     }
 
     try {
-      let query = supabase.from(table).select(options.columns || '*');
+      let query = (client || supabase).from(table).select(options.columns || '*');
 
       // Apply filters
       if (options.filters) {
@@ -271,10 +284,11 @@ export class DatabaseService {
     options: {
       cache?: CacheConfig;
       invalidateTags?: string[];
+      client?: SupabaseClient;
     } = {}
   ): Promise<QueryResult<T[]>> {
     try {
-      const { data: result, error } = await supabase
+      const { data: result, error } = await (options.client || supabase)
         .from(table)
         .insert(data)
         .select();
@@ -322,10 +336,11 @@ export class DatabaseService {
     options: {
       cache?: CacheConfig;
       invalidateTags?: string[];
+      client?: SupabaseClient;
     } = {}
   ): Promise<QueryResult<T[]>> {
     try {
-      let query = supabase.from(table).update(data);
+      let query = (options.client || supabase).from(table).update(data);
 
       // Apply filters
       Object.entries(filters).forEach(([key, value]) => {
@@ -375,10 +390,11 @@ export class DatabaseService {
     filters: Record<string, any>,
     options: {
       invalidateTags?: string[];
+      client?: SupabaseClient;
     } = {}
   ): Promise<QueryResult<null>> {
     try {
-      let query = supabase.from(table).delete();
+      let query = (options.client || supabase).from(table).delete();
 
       // Apply filters
       Object.entries(filters).forEach(([key, value]) => {
@@ -428,10 +444,11 @@ export class DatabaseService {
       onConflict?: string;
       cache?: CacheConfig;
       invalidateTags?: string[];
+      client?: SupabaseClient;
     } = {}
   ): Promise<QueryResult<T[]>> {
     try {
-      let query = supabase.from(table).upsert(data);
+      let query = (options.client || supabase).from(table).upsert(data);
 
       if (options.onConflict) {
         query = query.onConflict(options.onConflict);
@@ -556,38 +573,35 @@ export class DatabaseService {
   }
 
   /**
-   * Batch operations for better performance
+   * Batch operations for better performance. Pass the request's client in API routes,
+   * so the operations run as the signed-in user and RLS applies.
    */
   public async batch<T>(
-    operations: Array<{
-      operation: DatabaseOperation;
-      table: string;
-      data?: any;
-      filters?: Record<string, any>;
-      options?: any;
-    }>
+    operations: BatchOperation[],
+    client?: SupabaseClient
   ): Promise<QueryResult<T[]>> {
     try {
       const results: any[] = [];
       
       for (const op of operations) {
         let result: QueryResult<any>;
+        const options = client ? { ...op.options, client } : op.options;
         
         switch (op.operation) {
           case 'select':
-            result = await this.select(op.table, op.options);
+            result = await this.select(op.table, options);
             break;
           case 'insert':
-            result = await this.insert(op.table, op.data, op.options);
+            result = await this.insert(op.table, op.data, options);
             break;
           case 'update':
-            result = await this.update(op.table, op.data, op.filters!, op.options);
+            result = await this.update(op.table, op.data, op.filters!, options);
             break;
           case 'delete':
-            result = await this.delete(op.table, op.filters!, op.options);
+            result = await this.delete(op.table, op.filters!, options);
             break;
           case 'upsert':
-            result = await this.upsert(op.table, op.data, op.options);
+            result = await this.upsert(op.table, op.data, options);
             break;
           default:
             throw new Error(`Unsupported operation: ${op.operation}`);
@@ -638,7 +652,7 @@ export const db = {
   upsert: <T>(table: string, data: T | T[], options?: any) => databaseService.upsert<T>(table, data, options),
   rawQuery: <T>(query: string, params?: any[], options?: any) => 
     databaseService.rawQuery<T>(query, params, options),
-  batch: <T>(operations: any[]) => databaseService.batch<T>(operations),
+  batch: <T>(operations: BatchOperation[], client?: SupabaseClient) => databaseService.batch<T>(operations, client),
   clearCache: () => databaseService.clearCache(),
   invalidateCacheByTags: (tags: string[]) => databaseService.invalidateCacheByTags(tags),
   getCacheStats: () => databaseService.getCacheStats(),
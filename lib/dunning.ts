@@ -0,0 +1,317 @@
+// Payment reminders (dunning) for overdue invoices, run as Inngest functions.
+// Database and email access go through DunningStore and DunningMailer so both flows
+// can be run with a stubbed step in tests.
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import type { GetStepTools } from 'inngest';
+import type { inngest } from './inngest/client';
+import type { CustomEmailTemplate, EmailResult, PaymentReminderEmailParams, PaymentReminderLevel } from './email/email';
+import { toActivityRow } from './activity';
+import { getOutstandingAmount } from './invoices';
+import { DOCUMENT_CONTACT_ROLES, selectDocumentRecipient } from './customer-contacts';
+import { PDF_EMAIL_LINK_EXPIRY_SECONDS, createPdfSignedUrl } from './pdf/storage';
+import type { Invoice } from '../types/api/invoice';
+import type { Customer, CustomerContact } from '../types/api/customer';
+
+export const REMINDER_LEVELS: PaymentReminderLevel[] = ['friendly', 'firm', 'final'];
+
+// Days after the due date at which each reminder is sent
+export type ReminderSchedule = Record<PaymentReminderLevel, number>;
+
+export const DEFAULT_REMINDER_SCHEDULE: ReminderSchedule = { friendly: 3, firm: 14, final: 30 };
+
+export const INVOICE_OVERDUE_EVENT = 'invoice/overdue';
+
+// Reminders go out in the morning (UTC) of the scheduled day
+const REMINDER_HOUR_UTC = 8;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// pdf_url is a signed download link the customer can open from the reminder
+export type DunningInvoice = Pick<
+  Invoice,
+  'id' | 'organization_id' | 'invoice_number' | 'invoice_type' | 'status' | 'amount' | 'total' | 'currency'
+  | 'due_date' | 'pdf_url' | 'payment_url' | 'reminders_sent'
+> & {
+  customer_name: string | null;
+  customer_email: string | null;
+};
+
+export type OverdueInvoice = Pick<Invoice, 'id' | 'organization_id' | 'invoice_number' | 'due_date'>;
+
+export interface DunningOrganization {
+  name: string;
+  dunning_enabled: boolean;
+  reminder_schedule: unknown;
+}
+
+export interface DunningActivity {
+  organization_id: string;
+  action: string;
+  resource_id: string;
+  metadata: Record<string, unknown>;
+}
+
+export interface DunningStore {
+  // Flip sent invoices past their due date to overdue and return the ones that changed
+  markOverdue(today: string): Promise<OverdueInvoice[]>;
+  getInvoice(invoiceId: string): Promise<DunningInvoice | null>;
+  getOrganization(organizationId: string): Promise<DunningOrganization | null>;
+  getTemplate(organizationId: string, level: PaymentReminderLevel): Promise<CustomEmailTemplate | null>;
+  recordReminder(invoiceId: string, remindersSent: number, sentAt: string): Promise<void>;
+  logActivity(activity: DunningActivity): Promise<void>;
+}
+
+export interface DunningMailer {
+  sendPaymentReminder(params: PaymentReminderEmailParams): Promise<EmailResult>;
+}
+
+export type DunningStep = Pick<GetStepTools<typeof inngest>, 'run' | 'sleepUntil' | 'sendEvent'>;
+
+export const isValidReminderSchedule = (value: unknown): value is ReminderSchedule => {
+  if (!value || typeof value !== 'object') return false;
+  const days = REMINDER_LEVELS.map(level => (value as Record<string, unknown>)[level]);
+  return days.every((day, index) =>
+    typeof day === 'number' && Number.isInteger(day) && day >= 0 && (index === 0 || day > (days[index - 1] as number))
+  );
+};
+
+export const normalizeReminderSchedule = (value: unknown): ReminderSchedule =>
+  isValidReminderSchedule(value) ? value : DEFAULT_REMINDER_SCHEDULE;
+
+export const reminderDate = (dueDate: string, days: number): Date => {
+  const date = new Date(`${dueDate.slice(0, 10)}T00:00:00.000Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  date.setUTCHours(REMINDER_HOUR_UTC);
+  return date;
+};
+
+export const daysOverdue = (dueDate: string, now: Date): number =>
+  Math.max(0, Math.floor((now.getTime() - new Date(`${dueDate.slice(0, 10)}T00:00:00.000Z`).getTime()) / DAY_MS));
+
+// Reminders stop once the invoice is paid, cancelled or otherwise has nothing left to pay
+const stopReason = (invoice: DunningInvoice | null): string | null => {
+  if (!invoice) return 'deleted';
+  if (invoice.status === 'paid' || invoice.status === 'cancelled') return invoice.status;
+  if (invoice.status === 'draft' || getOutstandingAmount(invoice) <= 0) return 'not_due';
+  if (!invoice.customer_email) return 'no_email';
+  return null;
+};
+
+/**
+ * Daily sweep: mark invoices overdue after their due date, log the status change
+ * and start a reminder flow for each of them.
+ */
+export async function markOverdueInvoices(
+  step: DunningStep,
+  store: DunningStore,
+  today: string = new Date().toISOString().slice(0, 10)
+): Promise<{ marked: number }> {
+  const overdue = await step.run('mark-overdue', () => store.markOverdue(today));
+  if (overdue.length === 0) {
+    return { marked: 0 };
+  }
+
+  await step.run('log-overdue', async () => {
+    for (const invoice of overdue) {
+      await store.logActivity({
+        organization_id: invoice.organization_id,
+        action: 'invoice_status_changed:overdue',
+        resource_id: invoice.id,
+        metadata: { old_status: 'sent', new_status: 'overdue', invoice_number: invoice.invoice_number, due_date: invoice.due_date },
+      });
+    }
+  });
+
+  await step.sendEvent('start-reminders', overdue.map(invoice => ({
+    name: INVOICE_OVERDUE_EVENT,
+    data: { invoiceId: invoice.id, organizationId: invoice.organization_id },
+  })));
+
+  return { marked: overdue.length };
+}
+
+/**
+ * Reminder flow for one overdue invoice: sleep until each scheduled day, re-check the
+ * invoice and send the friendly, firm and final reminder in turn. Steps that were
+ * already sent are skipped, so a re-delivered event never sends a reminder twice.
+ */
+export async function runInvoiceDunning(
+  invoiceId: string,
+  step: DunningStep,
+  store: DunningStore,
+  mailer: DunningMailer
+): Promise<{ status: 'completed' | 'stopped' | 'disabled'; reason?: string; sent: number }> {
+  const invoice = await step.run('load-invoice', () => store.getInvoice(invoiceId));
+  if (!invoice) {
+    return { status: 'stopped', reason: 'deleted', sent: 0 };
+  }
+
+  const organization = await step.run('load-organization', () => store.getOrganization(invoice.organization_id));
+  if (!organization?.dunning_enabled) {
+    return { status: 'disabled', sent: 0 };
+  }
+
+  const schedule = normalizeReminderSchedule(organization.reminder_schedule);
+  let sent = 0;
+
+  for (let index = 0; index < REMINDER_LEVELS.length; index++) {
+    const level = REMINDER_LEVELS[index];
+    if (invoice.reminders_sent > index) continue;
+
+    await step.sleepUntil(`wait-${level}`, reminderDate(invoice.due_date, schedule[level]));
+
+    const outcome = await step.run(`send-${level}`, async () => {
+      const current = await store.getInvoice(invoiceId);
+      const reason = stopReason(current);
+      if (reason || !current) {
+        return { sent: false, reason: reason || 'deleted', messageId: null, daysOverdue: null };
+      }
+      if (current.reminders_sent > index) {
+        return { sent: false, reason: null, messageId: null, daysOverdue: null };
+      }
+
+      const now = new Date();
+      const overdueDays = daysOverdue(current.due_date, now);
+      const result = await mailer.sendPaymentReminder({
+        email: current.customer_email as string,
+        level,
+        customerName: current.customer_name || '',
+        invoiceNumber: current.invoice_number as string,
+        amount: getOutstandingAmount(current),
+        dueDate: current.due_date,
+        daysOverdue: overdueDays,
+        companyName: organization.name,
+        downloadUrl: current.pdf_url,
+        paymentUrl: current.payment_url,
+        template: await store.getTemplate(current.organization_id, level),
+      });
+
+      // Throwing lets Inngest retry the step with backoff
+      if (!result.success) {
+        throw new Error(`Failed to send ${level} reminder for invoice ${current.invoice_number}: ${result.error}`);
+      }
+
+      await store.recordReminder(invoiceId, index + 1, now.toISOString());
+      return { sent: true, reason: null, messageId: result.messageId, daysOverdue: overdueDays };
+    });
+
+    if (outcome.reason) {
+      await step.run(`log-stopped-${level}`, () => store.logActivity({
+        organization_id: invoice.organization_id,
+        action: 'invoice_reminders_stopped',
+        resource_id: invoiceId,
+        metadata: { reason: outcome.reason, reminders_sent: index, invoice_number: invoice.invoice_number },
+      }));
+      return { status: 'stopped', reason: outcome.reason, sent };
+    }
+
+    if (outcome.sent) {
+      sent++;
+      await step.run(`log-${level}`, () => store.logActivity({
+        organization_id: invoice.organization_id,
+        action: `invoice_reminder_sent:${level}`,
+        resource_id: invoiceId,
+        metadata: {
+          level,
+          invoice_number: invoice.invoice_number,
+          days_overdue: outcome.daysOverdue,
+          message_id: outcome.messageId,
+        },
+      }));
+    }
+  }
+
+  return { status: 'completed', sent };
+}
+
+export const createSupabaseDunningStore = (supabase: SupabaseClient): DunningStore => ({
+  async markOverdue(today) {
+    const { data, error } = await supabase
+      .from('invoices')
+      .update({ status: 'overdue', updated_at: new Date().toISOString() })
+      .eq('status', 'sent')
+      .neq('invoice_type', 'credit_note')
+      .lt('due_date', today)
+      .select('id, organization_id, invoice_number, due_date');
+    if (error) throw error;
+    return data || [];
+  },
+
+  async getInvoice(invoiceId) {
+    const { data, error } = await supabase
+      .from('invoices')
+      .select(`
+        id, organization_id, invoice_number, invoice_type, status, amount, total, currency,
+        due_date, pdf_url, payment_url, reminders_sent, contact_id,
+        customers (
+          name,
+          email,
+          customer_contacts (id, name, email, roles, is_primary)
+        )
+      `)
+      .eq('id', invoiceId)
+      .maybeSingle();
+    if (error) throw error;
+    if (!data) return null;
+
+    const { customers, contact_id, ...invoice } = data as typeof data & {
+      contact_id: string | null;
+      customers: (Pick<Customer, 'name' | 'email'> & { customer_contacts: CustomerContact[] | null }) | null;
+    };
+    // Reminders go to the same person as the invoice: its contact, else the billing contact
+    const recipient = customers
+      ? selectDocumentRecipient(customers, customers.customer_contacts || [], DOCUMENT_CONTACT_ROLES.invoice, contact_id)
+      : null;
+    return {
+      ...invoice,
+      pdf_url: invoice.pdf_url
+        ? await createPdfSignedUrl(supabase, 'invoice', invoice.id, PDF_EMAIL_LINK_EXPIRY_SECONDS)
+        : null,
+      customer_name: recipient?.name || customers?.name || null,
+      customer_email: recipient?.email || null,
+    } as DunningInvoice;
+  },
+
+  async getOrganization(organizationId) {
+    const { data, error } = await supabase
+      .from('organizations')
+      .select('name, dunning_enabled, reminder_schedule')
+      .eq('id', organizationId)
+      .maybeSingle();
+    if (error) throw error;
+    return data;
+  },
+
+  async getTemplate(organizationId, level) {
+    const { data, error } = await supabase
+      .from('email_templates')
+      .select('subject, html_content, text_content')
+      .eq('organization_id', organizationId)
+      .eq('type', `payment_reminder_${level}`)
+      .eq('is_active', true)
+      .order('updated_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    if (error) throw error;
+    return data;
+  },
+
+  async recordReminder(invoiceId, remindersSent, sentAt) {
+    const { error } = await supabase
+      .from('invoices')
+      .update({ reminders_sent: remindersSent, last_reminder_at: sentAt, updated_at: sentAt })
+      .eq('id', invoiceId);
+    if (error) throw error;
+  },
+
+  // Written directly instead of through logActivity, so a failed insert fails the step and is retried
+  async logActivity({ organization_id, action, resource_id, metadata }) {
+    const { error } = await supabase
+      .from('activity_log')
+      .insert(toActivityRow(
+        { organizationId: organization_id, userId: null },
+        { action, resource_type: 'invoice', resource_id, metadata }
+      ));
+    if (error) throw error;
+  },
+});
@@ -285,12 +285,14 @@ export const TeamInviteEmail = ({
   recipientName,
   inviterName,
   companyName = 'QuoteFast',
-  inviteUrl
+  inviteUrl,
+  expiresIn
 }: { 
   recipientName: string
   inviterName: string
   companyName?: string
   inviteUrl: string
+  expiresIn?: string
 }) => {
   return (
     <EmailTemplate companyName={companyName}>
@@ -322,6 +324,11 @@ export const TeamInviteEmail = ({
           Accepteer Uitnodiging
         </a>
       </div>
+      {expiresIn && (
+        <p style={{ margin: '0 0 1rem 0', fontSize: '14px', color: '#64748b' }}>
+          Deze uitnodiging verloopt over {expiresIn}.
+        </p>
+      )}
     </EmailTemplate>
   )
 }
@@ -1,10 +1,15 @@
 // Enhanced Email Service for QuoteFast Dashboard
 // Supports multiple email providers with fallback and comprehensive error handling
 
+import { createElement } from 'react';
+import { SupabaseClient } from '@supabase/supabase-js';
 import { logger } from '../logger';
+import { TeamInviteEmail } from './components';
+import { decryptSecret } from '../secrets';
+import { SmtpError, sendSmtpMail, toSmtpSettings, type SmtpErrorCode, type SmtpSettings } from './smtp';
 
 // Email provider types
-export type EmailProvider = 'resend' | 'sendgrid' | 'aws-ses' | 'mock';
+export type EmailProvider = 'resend' | 'sendgrid' | 'aws-ses' | 'smtp' | 'mock';
 
 // Enhanced email result type
 export type EmailResult = {
@@ -22,6 +27,8 @@ export type EmailResult = {
   data?: undefined;
   messageId?: undefined;
   provider?: EmailProvider;
+  // Set when an SMTP server rejected the message or connection
+  code?: SmtpErrorCode;
 };
 
 // Email template types
@@ -33,6 +40,13 @@ export interface EmailTemplate {
   replyTo?: string;
 }
 
+// File attached to an outgoing email, e.g. an offer or invoice PDF
+export interface EmailAttachment {
+  filename: string;
+  content: Uint8Array;
+  contentType: string;
+}
+
 // Email parameters interfaces
 export interface WelcomeEmailParams {
   email: string;
@@ -43,22 +57,54 @@ export interface WelcomeEmailParams {
 
 export interface InvoiceEmailParams {
   email: string;
+  // Contact person the invoice is addressed to, used in the greeting
+  recipientName?: string;
   invoiceId: string;
   invoiceNumber: string;
   amount: number;
   dueDate: string;
   downloadUrl: string;
   companyName: string;
+  // Stripe payment link for the outstanding amount (iDEAL, Bancontact, card)
+  paymentUrl?: string | null;
+  attachments?: EmailAttachment[];
 }
 
 export interface OfferEmailParams {
   email: string;
+  // Contact person the offer is addressed to, used in the greeting
+  recipientName?: string;
   offerId: string;
   offerNumber: string;
   amount: number;
   validUntil: string;
   downloadUrl: string;
   companyName: string;
+  attachments?: EmailAttachment[];
+}
+
+// Escalation steps of the payment reminder flow for overdue invoices
+export type PaymentReminderLevel = 'friendly' | 'firm' | 'final';
+
+// Organization override from the email_templates table, with {{placeholder}} variables
+export interface CustomEmailTemplate {
+  subject: string;
+  html_content: string | null;
+  text_content: string | null;
+}
+
+export interface PaymentReminderEmailParams {
+  email: string;
+  level: PaymentReminderLevel;
+  customerName: string;
+  invoiceNumber: string;
+  amount: number;
+  dueDate: string;
+  daysOverdue: number;
+  companyName: string;
+  downloadUrl?: string | null;
+  paymentUrl?: string | null;
+  template?: CustomEmailTemplate | null;
 }
 
 export interface PasswordResetEmailParams {
@@ -68,6 +114,15 @@ export interface PasswordResetEmailParams {
   expiresIn: string;
 }
 
+export interface TeamInviteEmailParams {
+  email: string;
+  recipientName: string;
+  inviterName: string;
+  companyName: string;
+  inviteUrl: string;
+  expiresIn: string;
+}
+
 // Email service configuration
 interface EmailConfig {
   provider: EmailProvider;
@@ -76,8 +131,58 @@ interface EmailConfig {
   fromName: string;
   replyToEmail?: string;
   fallbackProvider?: EmailProvider;
+  smtp?: SmtpSettings;
 }
 
+// Provider APIs expect attachment content as base64
+const toBase64 = (content: Uint8Array): string => Buffer.from(content).toString('base64');
+
+// Replace {{name}} placeholders; unknown placeholders are left as they are
+export const fillTemplate = (content: string, variables: Record<string, string>): string =>
+  content.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) => variables[name] ?? match);
+
+// Variables available in organization payment reminder templates
+export const paymentReminderVariables = (params: PaymentReminderEmailParams): Record<string, string> => ({
+  customer_name: params.customerName,
+  invoice_number: params.invoiceNumber,
+  amount: `€${params.amount.toFixed(2)}`,
+  due_date: params.dueDate,
+  days_overdue: String(params.daysOverdue),
+  company_name: params.companyName,
+  payment_url: params.paymentUrl || '',
+  download_url: params.downloadUrl || '',
+});
+
+const PAYMENT_REMINDER_COPY: Record<PaymentReminderLevel, {
+  subject: string;
+  color: string;
+  intro: (invoiceNumber: string, dueDate: string, daysOverdue: number) => string;
+  request: (amount: string) => string;
+}> = {
+  friendly: {
+    subject: 'Herinnering:',
+    color: '#2563eb',
+    intro: (invoiceNumber, dueDate) =>
+      `Volgens onze administratie staat factuur ${invoiceNumber} met vervaldatum ${dueDate} nog open. Mogelijk is deze aan uw aandacht ontsnapt.`,
+    request: amount => `Wilt u het openstaande bedrag van ${amount} alsnog voldoen?`,
+  },
+  firm: {
+    subject: 'Tweede herinnering:',
+    color: '#ea580c',
+    intro: (invoiceNumber, dueDate, daysOverdue) =>
+      `Ondanks onze eerdere herinnering hebben wij de betaling van factuur ${invoiceNumber} nog niet ontvangen. De vervaldatum van ${dueDate} is inmiddels ${daysOverdue} dagen verstreken.`,
+    request: amount => `Wij verzoeken u het openstaande bedrag van ${amount} binnen 7 dagen te voldoen.`,
+  },
+  final: {
+    subject: 'Laatste aanmaning:',
+    color: '#dc2626',
+    intro: (invoiceNumber, dueDate, daysOverdue) =>
+      `Factuur ${invoiceNumber} met vervaldatum ${dueDate} is ${daysOverdue} dagen na de vervaldatum nog steeds niet betaald, ondanks eerdere herinneringen.`,
+    request: amount =>
+      `Wij verzoeken u het openstaande bedrag van ${amount} binnen 7 dagen te voldoen. Blijft betaling uit, dan dragen wij de vordering over voor incasso, waarbij de wettelijke incassokosten voor uw rekening komen.`,
+  },
+};
+
 // Enhanced email service class
 export class EmailService {
   private config: EmailConfig;
@@ -124,6 +229,11 @@ export class EmailService {
       case 'aws-ses':
         // AWS SES uses IAM roles or access keys
         break;
+      case 'smtp':
+        if (!this.config.smtp?.smtp_host) {
+          throw new Error('SMTP host is required');
+        }
+        break;
       case 'mock':
         logger.info('Using mock email provider for development', 'email');
         break;
@@ -167,7 +277,8 @@ export class EmailService {
       const template = this.generateInvoiceTemplate(params);
       return await this.sendEmail({
         to: params.email,
-        ...template
+        ...template,
+        attachments: params.attachments
       });
     } catch (error) {
       logger.error('Failed to send invoice email', 'email', error);
@@ -190,7 +301,8 @@ export class EmailService {
       const template = this.generateOfferTemplate(params);
       return await this.sendEmail({
         to: params.email,
-        ...template
+        ...template,
+        attachments: params.attachments
       });
     } catch (error) {
       logger.error('Failed to send offer email', 'email', error);
@@ -201,6 +313,62 @@ export class EmailService {
     }
   }
 
+  /**
+   * Send a payment reminder for an overdue invoice
+   */
+  async sendPaymentReminder(params: PaymentReminderEmailParams): Promise<EmailResult> {
+    try {
+      if (!this.isInitialized) {
+        await this.initialize();
+      }
+
+      const template = params.template
+        ? this.applyCustomTemplate(params.template, paymentReminderVariables(params))
+        : this.generatePaymentReminderTemplate(params);
+      return await this.sendEmail({
+        to: params.email,
+        ...template
+      });
+    } catch (error) {
+      logger.error('Failed to send payment reminder email', 'email', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Send a short test email to check the provider configuration
+   */
+  async sendTestEmail(email: string): Promise<EmailResult> {
+    try {
+      if (!this.isInitialized) {
+        await this.initialize();
+      }
+
+      return await this.sendEmail({
+        to: email,
+        from: `${this.config.fromName} <${this.config.fromEmail}>`,
+        subject: 'Test e-mail van QuoteFast',
+        html: `
+          <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+            <h1 style="color: #2563eb;">Je e-mailinstellingen werken</h1>
+            <p>Deze test e-mail is verstuurd via ${this.config.provider === 'smtp' ? `je eigen mailserver (${this.config.smtp?.smtp_host})` : 'QuoteFast'}.</p>
+            <p>Offertes en facturen worden voortaan vanaf ${this.config.fromEmail} verstuurd.</p>
+          </div>
+        `,
+        text: `Je e-mailinstellingen werken\n\nOffertes en facturen worden voortaan vanaf ${this.config.fromEmail} verstuurd.`
+      });
+    } catch (error) {
+      logger.error('Failed to send test email', 'email', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
   /**
    * Send password reset email
    */
@@ -224,6 +392,29 @@ export class EmailService {
     }
   }
 
+  /**
+   * Send a team invitation, rendered from the TeamInviteEmail component
+   */
+  async sendTeamInvite(params: TeamInviteEmailParams): Promise<EmailResult> {
+    try {
+      if (!this.isInitialized) {
+        await this.initialize();
+      }
+
+      const template = await this.generateTeamInviteTemplate(params);
+      return await this.sendEmail({
+        to: params.email,
+        ...template
+      });
+    } catch (error) {
+      logger.error('Failed to send team invite email', 'email', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
   /**
    * Core email sending method with provider abstraction
    */
@@ -234,6 +425,7 @@ export class EmailService {
     text: string;
     from: string;
     replyTo?: string;
+    attachments?: EmailAttachment[];
   }): Promise<EmailResult> {
     try {
       // Rate limiting check
@@ -251,6 +443,9 @@ export class EmailService {
         case 'aws-ses':
           result = await this.sendViaAWSSES(emailData);
           break;
+        case 'smtp':
+          result = await this.sendViaSmtp(emailData);
+          break;
         case 'mock':
           result = await this.sendViaMock(emailData);
           break;
@@ -294,11 +489,32 @@ export class EmailService {
 
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Unknown error'
+        error: error instanceof Error ? error.message : 'Unknown error',
+        ...(error instanceof SmtpError ? { code: error.code } : {})
       };
     }
   }
 
+  /**
+   * SMTP provider implementation, sends through the user's own mail server
+   */
+  private async sendViaSmtp(emailData: any): Promise<EmailResult> {
+    const messageId = await sendSmtpMail(this.config.smtp as SmtpSettings, {
+      ...emailData,
+      replyTo: emailData.replyTo || this.config.replyToEmail
+    });
+
+    return {
+      success: true,
+      data: {
+        id: messageId,
+        provider: 'smtp',
+        timestamp: new Date().toISOString()
+      },
+      messageId
+    };
+  }
+
   /**
    * Resend provider implementation
    */
@@ -316,6 +532,10 @@ export class EmailService {
         html: emailData.html,
         text: emailData.text,
         reply_to: emailData.replyTo,
+        attachments: emailData.attachments?.map((attachment: EmailAttachment) => ({
+          filename: attachment.filename,
+          content: toBase64(attachment.content),
+        })),
       }),
     });
 
@@ -357,6 +577,12 @@ export class EmailService {
           { type: 'text/html', value: emailData.html }
         ],
         reply_to: emailData.replyTo ? { email: emailData.replyTo } : undefined,
+        attachments: emailData.attachments?.map((attachment: EmailAttachment) => ({
+          content: toBase64(attachment.content),
+          filename: attachment.filename,
+          type: attachment.contentType,
+          disposition: 'attachment',
+        })),
       }),
     });
 
@@ -406,7 +632,8 @@ export class EmailService {
     
     logger.info('Mock email sent', 'email', {
       to: emailData.to,
-      subject: emailData.subject
+      subject: emailData.subject,
+      attachments: emailData.attachments?.map((attachment: EmailAttachment) => attachment.filename)
     });
 
     return {
@@ -531,6 +758,8 @@ export class EmailService {
             <p style="font-size: 18px; color: #666;">van ${params.companyName}</p>
           </div>
           
+          ${params.recipientName ? `<p>Beste ${params.recipientName},</p>` : ''}
+
           <div style="background: #f8fafc; padding: 20px; border-radius: 8px; margin-bottom: 20px;">
             <h2 style="color: #2563eb; margin-top: 0;">Factuur Details</h2>
             <p><strong>Factuurnummer:</strong> ${params.invoiceNumber}</p>
@@ -538,6 +767,15 @@ export class EmailService {
             <p><strong>Vervaldatum:</strong> ${params.dueDate}</p>
           </div>
           
+          ${params.paymentUrl ? `
+          <div style="text-align: center; margin: 30px 0;">
+            <a href="${params.paymentUrl}" 
+               style="background: #16a34a; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; display: inline-block; font-weight: bold;">
+              Nu betalen
+            </a>
+            <p style="font-size: 14px; color: #666;">Betaal direct online via iDEAL, Bancontact of creditcard</p>
+          </div>
+          ` : ''}
           <div style="text-align: center; margin: 30px 0;">
             <a href="${params.downloadUrl}" 
                style="background: #2563eb; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; display: inline-block; font-weight: bold;">
@@ -553,12 +791,16 @@ export class EmailService {
       `,
       text: `
         Factuur ${params.invoiceNumber} van ${params.companyName}
-        
+        ${params.recipientName ? `
+        Beste ${params.recipientName},
+        ` : ''}
         Factuur Details:
         - Factuurnummer: ${params.invoiceNumber}
         - Bedrag: €${params.amount.toFixed(2)}
         - Vervaldatum: ${params.dueDate}
-        
+        ${params.paymentUrl ? `
+        Nu betalen (iDEAL, Bancontact of creditcard): ${params.paymentUrl}
+        ` : ''}
         Download factuur: ${params.downloadUrl}
         
         Voor vragen over deze factuur, neem contact op met ${params.companyName}
@@ -587,6 +829,8 @@ export class EmailService {
             <p style="font-size: 18px; color: #666;">van ${params.companyName}</p>
           </div>
           
+          ${params.recipientName ? `<p>Beste ${params.recipientName},</p>` : ''}
+
           <div style="background: #f8fafc; padding: 20px; border-radius: 8px; margin-bottom: 20px;">
             <h2 style="color: #2563eb; margin-top: 0;">Offerte Details</h2>
             <p><strong>Offertenummer:</strong> ${params.offerNumber}</p>
@@ -609,7 +853,9 @@ export class EmailService {
       `,
       text: `
         Offerte ${params.offerNumber} van ${params.companyName}
-        
+        ${params.recipientName ? `
+        Beste ${params.recipientName},
+        ` : ''}
         Offerte Details:
         - Offertenummer: ${params.offerNumber}
         - Bedrag: €${params.amount.toFixed(2)}
@@ -622,6 +868,130 @@ export class EmailService {
     };
   }
 
+  /**
+   * Fill an organization's own template; the text part falls back to the HTML without tags
+   */
+  private applyCustomTemplate(template: CustomEmailTemplate, variables: Record<string, string>): EmailTemplate {
+    const html = fillTemplate(template.html_content || template.text_content || '', variables);
+    return {
+      subject: fillTemplate(template.subject, variables),
+      from: `${this.config.fromName} <${this.config.fromEmail}>`,
+      html,
+      text: template.text_content ? fillTemplate(template.text_content, variables) : html.replace(/<[^>]+>/g, '')
+    };
+  }
+
+  /**
+   * Generate payment reminder email template, escalating in tone per level
+   */
+  private generatePaymentReminderTemplate(params: PaymentReminderEmailParams): EmailTemplate {
+    const copy = PAYMENT_REMINDER_COPY[params.level];
+    const amount = `€${params.amount.toFixed(2)}`;
+    const intro = copy.intro(params.invoiceNumber, params.dueDate, params.daysOverdue);
+    const request = copy.request(amount);
+
+    return {
+      subject: `${copy.subject} factuur ${params.invoiceNumber} van ${params.companyName}`,
+      from: `${this.config.fromName} <${this.config.fromEmail}>`,
+      html: `
+        <!DOCTYPE html>
+        <html>
+        <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+          <title>${copy.subject} factuur ${params.invoiceNumber}</title>
+        </head>
+        <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+          <div style="text-align: center; margin-bottom: 30px;">
+            <h1 style="color: ${copy.color};">${copy.subject}</h1>
+            <p style="font-size: 18px; color: #666;">Factuur ${params.invoiceNumber} van ${params.companyName}</p>
+          </div>
+          
+          <p>Beste ${params.customerName},</p>
+          <p>${intro}</p>
+          <p>${request}</p>
+          
+          <div style="background: #f8fafc; padding: 20px; border-radius: 8px; margin-bottom: 20px;">
+            <p><strong>Factuurnummer:</strong> ${params.invoiceNumber}</p>
+            <p><strong>Openstaand bedrag:</strong> ${amount}</p>
+            <p><strong>Vervaldatum:</strong> ${params.dueDate}</p>
+          </div>
+          ${params.paymentUrl ? `
+          <div style="text-align: center; margin: 30px 0;">
+            <a href="${params.paymentUrl}" 
+               style="background: #16a34a; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; display: inline-block; font-weight: bold;">
+              Nu betalen
+            </a>
+          </div>
+          ` : ''}${params.downloadUrl ? `
+          <p style="text-align: center;"><a href="${params.downloadUrl}" style="color: #2563eb;">Download factuur</a></p>
+          ` : ''}
+          <div style="border-top: 1px solid #e5e7eb; padding-top: 20px; margin-top: 30px; font-size: 14px; color: #666;">
+            <p>Heeft u inmiddels betaald? Dan kunt u deze herinnering als niet verzonden beschouwen.</p>
+            <p>Met vriendelijke groet,<br>${params.companyName}</p>
+          </div>
+        </body>
+        </html>
+      `,
+      text: `
+        ${copy.subject} factuur ${params.invoiceNumber} van ${params.companyName}
+        
+        Beste ${params.customerName},
+        
+        ${intro}
+        ${request}
+        
+        - Factuurnummer: ${params.invoiceNumber}
+        - Openstaand bedrag: ${amount}
+        - Vervaldatum: ${params.dueDate}
+        ${params.paymentUrl ? `
+        Nu betalen: ${params.paymentUrl}
+        ` : ''}${params.downloadUrl ? `
+        Download factuur: ${params.downloadUrl}
+        ` : ''}
+        Heeft u inmiddels betaald? Dan kunt u deze herinnering als niet verzonden beschouwen.
+        
+        Met vriendelijke groet,
+        ${params.companyName}
+      `
+    };
+  }
+
+  /**
+   * Generate team invite email template
+   */
+  private async generateTeamInviteTemplate(params: TeamInviteEmailParams): Promise<EmailTemplate> {
+    // Loaded on demand: react-dom/server may not be imported statically from server components
+    const { renderToStaticMarkup } = await import('react-dom/server');
+    const body = renderToStaticMarkup(createElement(TeamInviteEmail, {
+      recipientName: params.recipientName,
+      inviterName: params.inviterName,
+      companyName: params.companyName,
+      inviteUrl: params.inviteUrl,
+      expiresIn: params.expiresIn
+    }));
+
+    return {
+      subject: `Uitnodiging voor het ${params.companyName} team`,
+      from: `${this.config.fromName} <${this.config.fromEmail}>`,
+      html: `<!DOCTYPE html><html><head><meta charset="utf-8"><title>Uitnodiging</title></head><body>${body}</body></html>`,
+      text: `
+        Uitnodiging voor ${params.companyName}
+
+        Beste ${params.recipientName},
+
+        ${params.inviterName} heeft je uitgenodigd om lid te worden van het ${params.companyName} team.
+
+        Accepteer de uitnodiging: ${params.inviteUrl}
+
+        Deze uitnodiging verloopt over ${params.expiresIn}.
+
+        Met vriendelijke groet,
+        Het QuoteFast Team
+      `
+    };
+  }
+
   /**
    * Generate password reset email template
    */
@@ -700,6 +1070,33 @@ const defaultEmailService = new EmailService({
   fallbackProvider: 'mock'
 });
 
+// Email service that sends through the user's own SMTP server from user_email_settings.
+// Without enabled SMTP settings the default service is used. There is deliberately no
+// fallback provider: a misconfigured server should surface instead of being masked.
+export const createSmtpEmailService = (settings: SmtpSettings): EmailService =>
+  new EmailService({
+    provider: 'smtp',
+    fromEmail: settings.from_email,
+    fromName: settings.from_name || settings.from_email,
+    replyToEmail: settings.reply_to || undefined,
+    smtp: settings
+  });
+
+export async function getUserEmailService(supabase: SupabaseClient, userId: string): Promise<EmailService> {
+  const { data, error } = await supabase
+    .from('user_email_settings')
+    .select('*')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    logger.warn('Failed to load user email settings, using the default provider', 'email', error);
+  }
+
+  const settings = toSmtpSettings(data && { ...data, smtp_password: decryptSecret(data.smtp_password) });
+  return settings ? createSmtpEmailService(settings) : defaultEmailService;
+}
+
 // Legacy email utilities for backward compatibility
 export const emailUtils = {
   async sendWelcome({ email, name }: WelcomeEmailParams): Promise<EmailResult> {
@@ -731,6 +1128,5 @@ export const emailUtils = {
   }
 };
 
-// Export the service class and default instance
-export { EmailService };
+// Export the default instance; the class is exported where it is declared
 export default defaultEmailService;
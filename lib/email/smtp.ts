@@ -0,0 +1,171 @@
+// SMTP delivery through a user's own mail server, configured in user_email_settings.
+// Transport errors are mapped to a small set of codes the settings page can explain. The host
+// must resolve to public addresses only, and every connection failure gets the same code, so
+// the settings cannot be used to probe hosts and ports inside our own network.
+
+import { lookup } from 'dns/promises';
+import { isIP } from 'net';
+import nodemailer from 'nodemailer';
+import { isPublicAddress } from '../public-fetch';
+
+export interface SmtpSettings {
+  smtp_host: string;
+  smtp_port: number;
+  smtp_username: string | null;
+  smtp_password: string | null;
+  from_email: string;
+  from_name: string | null;
+  reply_to: string | null;
+  // use_ssl: implicit TLS from the first byte (port 465); use_tls: upgrade with STARTTLS (port 587)
+  use_tls: boolean;
+  use_ssl: boolean;
+}
+
+export interface SmtpMessage {
+  from: string;
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+  replyTo?: string;
+  attachments?: { filename: string; content: Uint8Array; contentType: string }[];
+}
+
+export type SmtpErrorCode =
+  | 'auth_failed'
+  | 'tls_mismatch'
+  | 'certificate_invalid'
+  | 'connection_failed'
+  | 'rejected'
+  | 'unknown';
+
+const SMTP_ERROR_MESSAGES: Record<SmtpErrorCode, string> = {
+  auth_failed: 'SMTP authentication failed, check the username and password',
+  tls_mismatch: 'TLS/SSL settings do not match the server, use SSL on port 465 or STARTTLS on port 587',
+  certificate_invalid: 'The SMTP server certificate is not trusted',
+  connection_failed: 'Could not connect to the SMTP server, check the host and port',
+  rejected: 'The SMTP server rejected the message',
+  unknown: 'Sending through SMTP failed',
+};
+
+// Row from user_email_settings; null when SMTP is switched off or incomplete
+export const toSmtpSettings = (row: Partial<Record<keyof SmtpSettings | 'enabled', unknown>> | null): SmtpSettings | null => {
+  if (!row || row.enabled !== true || !row.smtp_host || !row.from_email) return null;
+  return {
+    smtp_host: String(row.smtp_host),
+    smtp_port: Number(row.smtp_port) || 587,
+    smtp_username: (row.smtp_username as string) || null,
+    smtp_password: (row.smtp_password as string) || null,
+    from_email: String(row.from_email),
+    from_name: (row.from_name as string) || null,
+    reply_to: (row.reply_to as string) || null,
+    use_tls: row.use_tls !== false,
+    use_ssl: row.use_ssl === true,
+  };
+};
+
+export class SmtpError extends Error {
+  constructor(public readonly code: SmtpErrorCode, public readonly detail?: string) {
+    super(SMTP_ERROR_MESSAGES[code]);
+    this.name = 'SmtpError';
+  }
+}
+
+// Fail fast: the test endpoint and invoice sending wait for the result
+const CONNECTION_TIMEOUT_MS = 10000;
+
+type TransportError = Error & { code?: string; responseCode?: number; command?: string };
+
+// SSL against a plain port fails the handshake; plain against an SSL port never gets a greeting
+const TLS_MISMATCH_PATTERN = /wrong version number|unknown protocol|packet length too long|ssl3_get_record|STARTTLS|greeting never received/i;
+const CERTIFICATE_PATTERN = /certificate|self[- ]signed|CERT_/i;
+
+/**
+ * Map a nodemailer or socket error to an SmtpErrorCode. Nodemailer wraps socket
+ * errors (code ESOCKET/ECONNECTION) and keeps the original reason in the message.
+ */
+export function mapSmtpError(error: unknown): SmtpError {
+  if (error instanceof SmtpError) return error;
+
+  const transportError = (error || {}) as TransportError;
+  const code = transportError.code || '';
+  const message = transportError.message || String(error);
+
+  if (code === 'EAUTH' || transportError.responseCode === 535 || transportError.responseCode === 534) {
+    return new SmtpError('auth_failed', message);
+  }
+  if (['ECONNREFUSED', 'ECONNRESET', 'EHOSTUNREACH', 'ENETUNREACH', 'EDNS', 'ENOTFOUND'].includes(code)
+    || /ECONNREFUSED|ENOTFOUND|EAI_AGAIN|EHOSTUNREACH/.test(message)) {
+    return new SmtpError('connection_failed', message);
+  }
+  if (CERTIFICATE_PATTERN.test(code) || CERTIFICATE_PATTERN.test(message)) {
+    return new SmtpError('certificate_invalid', message);
+  }
+  if (code === 'ETLS' || TLS_MISMATCH_PATTERN.test(message)) {
+    return new SmtpError('tls_mismatch', message);
+  }
+  if (code === 'ETIMEDOUT' || /timeout|ETIMEDOUT/i.test(message)) {
+    return new SmtpError('connection_failed', message);
+  }
+  if (code === 'EENVELOPE' || code === 'EMESSAGE' || (transportError.responseCode ?? 0) >= 500) {
+    return new SmtpError('rejected', message);
+  }
+  return new SmtpError('unknown', message);
+}
+
+/**
+ * The address to connect to: the host is resolved once and refused when any of its addresses
+ * is not public. Connecting to the checked address keeps DNS rebinding from changing it.
+ */
+export async function resolveSmtpAddress(host: string): Promise<string> {
+  const addresses = isIP(host)
+    ? [{ address: host }]
+    : await lookup(host, { all: true }).catch(() => []);
+  if (addresses.length === 0 || addresses.some(entry => !isPublicAddress(entry.address))) {
+    throw new SmtpError('connection_failed', `${host} does not resolve to a public address`);
+  }
+  return addresses[0].address;
+}
+
+export const createSmtpTransport = (settings: SmtpSettings, address: string) =>
+  nodemailer.createTransport({
+    host: address,
+    port: settings.smtp_port,
+    secure: settings.use_ssl,
+    // Without SSL, STARTTLS is either required or switched off entirely
+    requireTLS: !settings.use_ssl && settings.use_tls,
+    ignoreTLS: !settings.use_ssl && !settings.use_tls,
+    // The certificate is checked against the configured host name, not the resolved address
+    tls: isIP(settings.smtp_host) ? undefined : { servername: settings.smtp_host },
+    auth: settings.smtp_username
+      ? { user: settings.smtp_username, pass: settings.smtp_password || '' }
+      : undefined,
+    connectionTimeout: CONNECTION_TIMEOUT_MS,
+    greetingTimeout: CONNECTION_TIMEOUT_MS,
+    socketTimeout: CONNECTION_TIMEOUT_MS,
+  });
+
+// Returns the message ID assigned by the server; throws an SmtpError on failure
+export async function sendSmtpMail(settings: SmtpSettings, message: SmtpMessage): Promise<string> {
+  const transport = createSmtpTransport(settings, await resolveSmtpAddress(settings.smtp_host));
+  try {
+    const info = await transport.sendMail({
+      from: message.from,
+      to: message.to,
+      subject: message.subject,
+      html: message.html,
+      text: message.text,
+      replyTo: message.replyTo || settings.reply_to || undefined,
+      attachments: message.attachments?.map(attachment => ({
+        filename: attachment.filename,
+        content: Buffer.from(attachment.content),
+        contentType: attachment.contentType,
+      })),
+    });
+    return info.messageId;
+  } catch (error) {
+    throw mapSmtpError(error);
+  } finally {
+    transport.close();
+  }
+}
@@ -0,0 +1,295 @@
+// Exports of offers, invoices and customers. The columns are shared with the export dialog,
+// so this module stays free of server-only imports; the API route turns the rows into files.
+
+import { parseInvoiceItems } from './invoices';
+import type { VatRate } from './vat';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { ExportFormat, ExportRequest, ExportResource, ExportSort } from '../types/api/export';
+
+export type ExportRow = { id: string; [column: string]: any };
+
+export interface ExportColumn {
+  key: string;
+  label: string;
+  value: (row: ExportRow) => unknown;
+}
+
+export const EXPORT_RESOURCES: ExportResource[] = ['offers', 'invoices', 'customers'];
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'xlsx', 'json'];
+
+// More ids than this no longer fit in a PostgREST filter; export by filters instead
+export const MAX_EXPORT_IDS = 1000;
+
+// Rows fetched per query while streaming an export
+const EXPORT_PAGE_SIZE = 1000;
+
+// DECIMAL columns arrive as strings or numbers depending on the driver
+const toNumber = (value: unknown): number | null =>
+  value === null || value === undefined || value === '' ? null : Number(value);
+
+const field = (key: string, label: string): ExportColumn => ({ key, label, value: row => row[key] ?? null });
+const amount = (key: string, label: string): ExportColumn => ({ key, label, value: row => toNumber(row[key]) });
+const addressField = (part: string, label: string): ExportColumn => ({
+  key: `address.${part}`,
+  label,
+  value: row => row.address?.[part] ?? null,
+});
+
+// Labels of the customer columns match the header names the customer import recognises
+export const EXPORT_COLUMNS: Record<ExportResource, ExportColumn[]> = {
+  offers: [
+    field('id', 'ID'),
+    field('title', 'Titel'),
+    field('client_name', 'Klant'),
+    field('status', 'Status'),
+    amount('amount', 'Bedrag excl. btw'),
+    amount('vat_amount', 'Btw'),
+    amount('total', 'Totaal'),
+    field('currency', 'Valuta'),
+    field('due_date', 'Geldig tot'),
+    field('viewed_at', 'Bekeken op'),
+    field('created_at', 'Aangemaakt'),
+  ],
+  invoices: [
+    field('id', 'ID'),
+    field('invoice_number', 'Factuurnummer'),
+    field('title', 'Titel'),
+    { key: 'customer', label: 'Klant', value: row => row.customers?.name ?? null },
+    field('status', 'Status'),
+    field('invoice_type', 'Type'),
+    amount('amount', 'Bedrag excl. btw'),
+    amount('vat_amount', 'Btw'),
+    amount('total', 'Totaal'),
+    field('currency', 'Valuta'),
+    field('due_date', 'Vervaldatum'),
+    field('paid_at', 'Betaald op'),
+    field('created_at', 'Aangemaakt'),
+  ],
+  customers: [
+    field('id', 'ID'),
+    field('name', 'Naam'),
+    field('email', 'E-mail'),
+    field('phone', 'Telefoon'),
+    field('company', 'Bedrijf'),
+    field('vat_number', 'Btw-nummer'),
+    field('status', 'Status'),
+    field('source', 'Bron'),
+    addressField('street', 'Straat'),
+    addressField('postal_code', 'Postcode'),
+    addressField('city', 'Plaats'),
+    addressField('country', 'Land'),
+    field('created_at', 'Aangemaakt'),
+  ],
+};
+
+interface ExportSource {
+  table: string;
+  select: string;
+  // Columns a list can be sorted by, as in the DataTable of the page
+  sortable: string[];
+  // Columns the search box of the page matches
+  search: string[];
+  fileName: string;
+}
+
+const EXPORT_SOURCES: Record<ExportResource, ExportSource> = {
+  offers: {
+    table: 'offers',
+    select: 'id, title, client_name, status, amount, vat_amount, total, currency, due_date, viewed_at, created_at, products',
+    sortable: ['id', 'title', 'client_name', 'status', 'amount', 'total', 'due_date', 'created_at'],
+    search: ['title', 'client_name'],
+    fileName: 'offertes',
+  },
+  invoices: {
+    table: 'invoices',
+    select: 'id, invoice_number, title, status, invoice_type, amount, vat_amount, total, currency, due_date, paid_at, created_at, items, customers (name)',
+    sortable: ['id', 'invoice_number', 'title', 'status', 'amount', 'total', 'due_date', 'paid_at', 'created_at'],
+    search: ['invoice_number', 'title', 'description'],
+    fileName: 'facturen',
+  },
+  customers: {
+    table: 'customers',
+    select: 'id, name, email, phone, company, vat_number, status, source, address, created_at',
+    sortable: ['id', 'name', 'email', 'company', 'status', 'created_at'],
+    search: ['name', 'email', 'company'],
+    fileName: 'klanten',
+  },
+};
+
+const DEFAULT_SORT: ExportSort = { key: 'created_at', direction: 'desc' };
+
+const isStringList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+const optionalString = (value: unknown): string | null =>
+  typeof value === 'string' && value.trim() ? value.trim() : null;
+
+export const parseExportRequest = (
+  body: any
+): { request: ExportRequest; error?: undefined } | { error: string; request?: undefined } => {
+  if (!EXPORT_RESOURCES.includes(body?.resource)) {
+    return { error: `Invalid resource, expected one of: ${EXPORT_RESOURCES.join(', ')}` };
+  }
+  if (!EXPORT_FORMATS.includes(body.format)) {
+    return { error: `Invalid format, expected one of: ${EXPORT_FORMATS.join(', ')}` };
+  }
+
+  const resource: ExportResource = body.resource;
+  const available = EXPORT_COLUMNS[resource].map(column => column.key);
+  const columns = body.columns ?? available;
+  if (!isStringList(columns) || columns.length === 0) {
+    return { error: 'Columns must be a non-empty list of column names' };
+  }
+  const unknown = columns.find(column => !available.includes(column));
+  if (unknown) {
+    return { error: `Unknown column: ${unknown}` };
+  }
+
+  const ids = body.ids ?? null;
+  if (ids !== null && !isStringList(ids)) {
+    return { error: 'Ids must be a list of strings' };
+  }
+  if (ids && ids.length > MAX_EXPORT_IDS) {
+    return { error: `Select at most ${MAX_EXPORT_IDS} rows to export` };
+  }
+
+  const sort: ExportSort = { ...DEFAULT_SORT };
+  if (body.sort?.key) {
+    if (!EXPORT_SOURCES[resource].sortable.includes(body.sort.key)) {
+      return { error: `Cannot sort by: ${body.sort.key}` };
+    }
+    sort.key = body.sort.key;
+    sort.direction = body.sort.direction === 'asc' ? 'asc' : 'desc';
+  }
+
+  return {
+    request: {
+      resource,
+      format: body.format,
+      columns,
+      ids,
+      search: optionalString(body.search),
+      status: optionalString(body.status),
+      sort,
+      // Customers have no line items
+      include_items: resource !== 'customers' && body.include_items === true,
+    },
+  };
+};
+
+// Characters with a meaning in PostgREST filters or LIKE patterns are dropped from searches
+const searchTerm = (value: string): string => value.replace(/[%_,.()"\\*]/g, ' ').trim();
+
+/**
+ * Read the rows of an export page by page, filtered and sorted like the list on the page.
+ * Rows are always scoped to the organization, also when the client bypasses RLS.
+ */
+export async function* fetchExportRows(
+  supabase: SupabaseClient,
+  organizationId: string,
+  request: ExportRequest
+): AsyncGenerator<ExportRow[]> {
+  const source = EXPORT_SOURCES[request.resource];
+  const term = request.search ? searchTerm(request.search) : '';
+
+  for (let from = 0; ; from += EXPORT_PAGE_SIZE) {
+    let query = supabase
+      .from(source.table)
+      .select(source.select)
+      .eq('organization_id', organizationId)
+      .order(request.sort.key, { ascending: request.sort.direction === 'asc' })
+      // Ties need a stable order, or rows shift between pages
+      .order('id', { ascending: true })
+      .range(from, from + EXPORT_PAGE_SIZE - 1);
+
+    if (request.ids) query = query.in('id', request.ids);
+    if (request.status) query = query.eq('status', request.status);
+    if (term) query = query.or(source.search.map(column => `${column}.ilike.*${term}*`).join(','));
+
+    const { data, error } = await query;
+    if (error) throw error;
+
+    const rows = (data || []) as unknown as ExportRow[];
+    if (rows.length > 0) yield rows;
+    if (rows.length < EXPORT_PAGE_SIZE) return;
+  }
+}
+
+export const exportColumns = (request: ExportRequest): ExportColumn[] =>
+  request.columns.map(key => EXPORT_COLUMNS[request.resource].find(column => column.key === key)!);
+
+export const toExportHeader = (columns: ExportColumn[]): string[] => columns.map(column => column.label);
+
+export const toExportRow = (row: ExportRow, columns: ExportColumn[]): unknown[] => columns.map(column => column.value(row));
+
+export interface ExportLineItem {
+  name: string;
+  description: string | null;
+  quantity: number;
+  price: number;
+  vat_rate: VatRate | null;
+  total: number;
+}
+
+// Offers keep their lines in products, invoices in items
+export const exportLineItems = (resource: ExportResource, row: ExportRow): ExportLineItem[] => {
+  if (resource === 'offers') {
+    return (Array.isArray(row.products) ? row.products : []).map((product: any) => ({
+      name: product.name,
+      description: product.description || null,
+      quantity: Number(product.quantity) || 0,
+      price: Number(product.price) || 0,
+      vat_rate: product.vat_rate ?? null,
+      total: (Number(product.quantity) || 0) * (Number(product.price) || 0),
+    }));
+  }
+  if (resource === 'invoices') {
+    return parseInvoiceItems(row.items).map(item => ({
+      name: item.name,
+      description: item.description || null,
+      quantity: Number(item.quantity) || 0,
+      price: Number(item.price) || 0,
+      vat_rate: item.vat_rate ?? null,
+      total: Number(item.total) || 0,
+    }));
+  }
+  return [];
+};
+
+export const LINE_ITEM_HEADER = ['Naam', 'Omschrijving', 'Aantal', 'Prijs', 'Btw-tarief', 'Totaal'];
+
+// Each line refers to its offer or invoice, so the lines sheet can be joined to the main sheet
+export const toLineItemHeader = (resource: ExportResource): string[] =>
+  resource === 'invoices' ? ['Factuur-ID', 'Factuurnummer', ...LINE_ITEM_HEADER] : ['Offerte-ID', 'Offerte', ...LINE_ITEM_HEADER];
+
+export const toLineItemRows = (resource: ExportResource, row: ExportRow): unknown[][] =>
+  exportLineItems(resource, row).map(item => [
+    row.id,
+    resource === 'invoices' ? row.invoice_number : row.title,
+    item.name,
+    item.description,
+    item.quantity,
+    item.price,
+    item.vat_rate,
+    item.total,
+  ]);
+
+// JSON records use the column keys and nest the line items
+export const toExportRecord = (
+  resource: ExportResource,
+  row: ExportRow,
+  columns: ExportColumn[],
+  includeItems: boolean
+): Record<string, unknown> => {
+  const record: Record<string, unknown> = Object.fromEntries(columns.map(column => [column.key, column.value(row)]));
+  if (includeItems) {
+    record.items = exportLineItems(resource, row);
+  }
+  return record;
+};
+
+// Name of the files inside an export, e.g. "offertes" and "offertes-regels"
+export const exportBaseName = (resource: ExportResource): string => EXPORT_SOURCES[resource].fileName;
+
+export const exportFileName = (resource: ExportResource, extension: string, date = new Date()): string =>
+  `${exportBaseName(resource)}-${date.toISOString().slice(0, 10)}.${extension}`;
@@ -1,4 +1,20 @@
 import { inngest } from "./client";
+import { createAdminClient } from "../supabase/admin";
+import emailService from "../email/email";
+import {
+  INVOICE_OVERDUE_EVENT,
+  createSupabaseDunningStore,
+  markOverdueInvoices,
+  runInvoiceDunning,
+} from "../dunning";
+import { reencryptStoredSecrets } from "../secrets";
+import {
+  WEBHOOK_DELIVERY_REQUESTED,
+  WEBHOOK_EVENT_EMITTED,
+  createSupabaseOutgoingWebhookStore,
+  deliverWebhook,
+  fanOutWebhookEvent,
+} from "../outgoing-webhooks";
 
 const helloWorldFn = inngest.createFunction(
   { id: "hello-world" },
@@ -9,4 +25,50 @@ const helloWorldFn = inngest.createFunction(
   }
 );
 
-export const functions = [helloWorldFn];
+// Every morning: mark invoices past their due date as overdue and start their reminders
+const markOverdueInvoicesFn = inngest.createFunction(
+  { id: "mark-overdue-invoices" },
+  { cron: "TZ=Europe/Amsterdam 0 6 * * *" },
+  async ({ step }) => markOverdueInvoices(step, createSupabaseDunningStore(createAdminClient()))
+);
+
+// One run per overdue invoice; a duplicate event within 24 hours does not start a second run
+const invoiceDunningFn = inngest.createFunction(
+  { id: "invoice-dunning", idempotency: "event.data.invoiceId" },
+  { event: INVOICE_OVERDUE_EVENT },
+  async ({ event, step }) =>
+    runInvoiceDunning(event.data.invoiceId, step, createSupabaseDunningStore(createAdminClient()), emailService)
+);
+
+// Encrypts plaintext credentials left from before encryption and re-wraps secrets after a
+// key rotation. Send "secrets/reencrypt" after changing SECRETS_ENCRYPTION_KEYS to run it right away.
+const reencryptSecretsFn = inngest.createFunction(
+  { id: "reencrypt-secrets", concurrency: 1 },
+  [{ event: "secrets/reencrypt" }, { cron: "TZ=Europe/Amsterdam 0 3 * * *" }],
+  async ({ step }) => step.run("reencrypt", () => reencryptStoredSecrets(createAdminClient()))
+);
+
+// Creates a delivery for every endpoint subscribed to an emitted event
+const fanOutWebhookEventFn = inngest.createFunction(
+  { id: "fan-out-webhook-event", idempotency: "event.data.event.id" },
+  { event: WEBHOOK_EVENT_EMITTED },
+  async ({ event, step }) =>
+    fanOutWebhookEvent(event.data.event, step, createSupabaseOutgoingWebhookStore(createAdminClient()))
+);
+
+// One run per delivery, including manual redeliveries from the settings
+const deliverWebhookFn = inngest.createFunction(
+  { id: "deliver-webhook", idempotency: "event.data.deliveryId" },
+  { event: WEBHOOK_DELIVERY_REQUESTED },
+  async ({ event, step }) =>
+    deliverWebhook(event.data.deliveryId, step, createSupabaseOutgoingWebhookStore(createAdminClient()))
+);
+
+export const functions = [
+  helloWorldFn,
+  markOverdueInvoicesFn,
+  invoiceDunningFn,
+  reencryptSecretsFn,
+  fanOutWebhookEventFn,
+  deliverWebhookFn,
+];
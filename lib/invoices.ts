@@ -0,0 +1,262 @@
+// Shared helpers for invoices, used by the API routes and the facturatie page
+
+import { DEFAULT_VAT_RATE, VAT_RATES, calculateLineTotal, calculateVatTotals, normalizeVatRate, roundCents } from './vat';
+import type { Invoice, InvoiceItem, InvoiceStatus, InvoiceType, OfferInvoiceRequest } from '../types/api/invoice';
+import type { Offer } from '../types/api/offer';
+
+export const DEFAULT_PAYMENT_TERMS_DAYS = 30;
+
+// Keep in sync with the status check constraint on invoices
+export const INVOICE_STATUSES: InvoiceStatus[] = ['draft', 'sent', 'paid', 'overdue', 'cancelled'];
+
+export const isInvoiceStatus = (value: unknown): value is InvoiceStatus =>
+  typeof value === 'string' && (INVOICE_STATUSES as string[]).includes(value);
+
+export class InvoiceConversionError extends Error {
+  constructor(message: string, public readonly status: number = 400) {
+    super(message);
+    this.name = 'InvoiceConversionError';
+  }
+}
+
+export type ExistingOfferInvoice = Pick<
+  Invoice,
+  'id' | 'invoice_number' | 'invoice_type' | 'items' | 'amount' | 'status' | 'deposit_percentage' | 'created_at'
+>;
+
+export type InvoiceTotals = Pick<Invoice, 'amount' | 'vat_amount' | 'total'>;
+
+export interface OfferInvoicePlan {
+  invoice_type: InvoiceType;
+  deposit_percentage: number | null;
+  parent_invoice_id: string | null;
+  title: string;
+  description: string | null;
+  items: InvoiceItem[];
+  amount: number;
+  vat_amount: number;
+  total: number;
+}
+
+export const DEFAULT_INVOICE_NUMBER_PATTERN = '{YYYY}-{0000}';
+export const DEFAULT_CREDIT_NOTE_NUMBER_PATTERN = 'C{YYYY}-{0000}';
+
+// Patterns need exactly one sequence token such as {0000}; numbers are allocated by the database
+export const isValidNumberPattern = (pattern: string): boolean =>
+  (pattern.match(/\{0+\}/g) || []).length === 1 && pattern.length <= 50;
+
+// Mirrors public.format_invoice_number() so settings can preview the next number
+export const formatInvoiceNumber = (pattern: string, fiscalYear: number, sequence: number): string => {
+  const digits = /\{(0+)\}/.exec(pattern)?.[1] || '';
+  return pattern
+    .replace('{YYYY}', String(fiscalYear))
+    .replace('{YY}', String(fiscalYear % 100).padStart(2, '0'))
+    .replace(`{${digits}}`, String(sequence).padStart(digits.length, '0'));
+};
+
+export const calculateDueDate = (date: Date, paymentTermsDays: number): string => {
+  const dueDate = new Date(date);
+  dueDate.setDate(dueDate.getDate() + paymentTermsDays);
+  return dueDate.toISOString().split('T')[0];
+};
+
+// Columns to store on the invoice; without lines the amount is taxed at the default rate
+export const calculateInvoiceTotals = (items: InvoiceItem[], fallbackAmount = 0): InvoiceTotals => {
+  const totals = calculateVatTotals(items.length > 0 ? items : [{ quantity: 1, price: fallbackAmount }]);
+  return { amount: totals.subtotal, vat_amount: totals.vatAmount, total: totals.total };
+};
+
+// Amount the customer still has to pay; paid, cancelled and credit note invoices have nothing open
+export const getOutstandingAmount = (
+  invoice: Pick<Invoice, 'status' | 'invoice_type' | 'amount' | 'total'>
+): number => {
+  if (invoice.status === 'paid' || invoice.status === 'cancelled' || invoice.invoice_type === 'credit_note') {
+    return 0;
+  }
+  return Math.max(0, Number(invoice.total ?? invoice.amount) || 0);
+};
+
+// Drop empty rows, coerce numeric fields and recalculate line totals
+export const normalizeInvoiceItems = (items: unknown): InvoiceItem[] => {
+  if (!Array.isArray(items)) return [];
+
+  return items
+    .filter(item => item && typeof item.name === 'string' && item.name.trim() !== '')
+    .map(item => {
+      const quantity = Number(item.quantity) || 0;
+      const price = Number(item.price) || 0;
+      return {
+        name: item.name.trim(),
+        description: item.description || '',
+        quantity,
+        price,
+        total: calculateLineTotal({ quantity, price }),
+        vat_rate: normalizeVatRate(item.vat_rate),
+      };
+    });
+};
+
+const offerItems = (offer: Offer): InvoiceItem[] => {
+  const products = offer.products || [];
+  if (products.length === 0) {
+    return [{
+      name: offer.title,
+      description: '',
+      quantity: 1,
+      price: offer.amount,
+      total: offer.amount,
+      vat_rate: DEFAULT_VAT_RATE,
+    }];
+  }
+
+  return products.map(product => ({
+    name: product.name,
+    description: product.description || '',
+    quantity: product.quantity,
+    price: product.price,
+    total: calculateLineTotal(product),
+    vat_rate: normalizeVatRate(product.vat_rate),
+  }));
+};
+
+// Deposits on legacy invoices without lines are deducted at the default rate
+const depositItems = (deposit: ExistingOfferInvoice): InvoiceItem[] => {
+  const items = parseInvoiceItems(deposit.items);
+  if (items.length > 0) return items;
+  return [{ name: '', description: '', quantity: 1, price: Number(deposit.amount), total: Number(deposit.amount) }];
+};
+
+// Decide what the next invoice for an accepted offer looks like, given the invoices it already has.
+// A deposit invoices a percentage of the offer; the final invoice deducts all earlier deposits.
+export const planOfferInvoice = (
+  offer: Offer,
+  existingInvoices: ExistingOfferInvoice[],
+  request: OfferInvoiceRequest = {}
+): OfferInvoicePlan => {
+  if (offer.status !== 'accepted') {
+    throw new InvoiceConversionError('Only accepted offers can be invoiced');
+  }
+
+  const activeInvoices = existingInvoices.filter(
+    invoice => invoice.status !== 'cancelled' && invoice.invoice_type !== 'credit_note'
+  );
+  if (activeInvoices.some(invoice => invoice.invoice_type !== 'deposit')) {
+    throw new InvoiceConversionError('Offer has already been fully invoiced', 409);
+  }
+
+  const deposits = [...activeInvoices].sort((a, b) => a.created_at.localeCompare(b.created_at));
+  const firstDeposit = deposits[0] || null;
+  const description = offer.terms?.description || null;
+
+  if (request.deposit_percentage !== undefined) {
+    const percentage = Number(request.deposit_percentage);
+    const invoicedPercentage = deposits.reduce((sum, deposit) => sum + Number(deposit.deposit_percentage || 0), 0);
+
+    if (!(percentage > 0 && percentage < 100)) {
+      throw new InvoiceConversionError('Deposit percentage must be between 0 and 100');
+    }
+    if (invoicedPercentage + percentage >= 100) {
+      throw new InvoiceConversionError('Deposits cannot cover the full offer amount; create the final invoice instead');
+    }
+
+    // One deposit line per VAT rate, so the deposit carries the same VAT as the work it pays for
+    const { vatLines } = calculateVatTotals(offerItems(offer));
+    const items = vatLines.map(line => {
+      const amount = roundCents(line.base * percentage / 100);
+      return {
+        name: vatLines.length > 1 ? `Aanbetaling ${percentage}% (BTW ${line.label})` : `Aanbetaling ${percentage}%`,
+        description: offer.title,
+        quantity: 1,
+        price: amount,
+        total: amount,
+        vat_rate: line.rate,
+      };
+    });
+
+    return {
+      invoice_type: 'deposit',
+      deposit_percentage: percentage,
+      parent_invoice_id: firstDeposit?.id || null,
+      title: `Aanbetaling ${percentage}%: ${offer.title}`,
+      description,
+      items,
+      ...calculateInvoiceTotals(items),
+    };
+  }
+
+  // A draft deposit has no number yet and may still be deleted, so it cannot be deducted
+  if (deposits.some(deposit => deposit.status === 'draft')) {
+    throw new InvoiceConversionError('Send or delete the draft deposit invoices before creating the final invoice', 409);
+  }
+
+  const items = offerItems(offer);
+  deposits.forEach(deposit => {
+    depositItems(deposit).forEach(item => {
+      const rate = normalizeVatRate(item.vat_rate);
+      items.push({
+        name: `Reeds gefactureerd (${deposit.invoice_number})`,
+        description: rate === DEFAULT_VAT_RATE ? 'Aanbetaling' : `Aanbetaling (BTW ${VAT_RATES[rate].label})`,
+        quantity: 1,
+        price: -item.total,
+        total: -item.total,
+        vat_rate: rate,
+      });
+    });
+  });
+
+  return {
+    invoice_type: firstDeposit ? 'final' : 'full',
+    deposit_percentage: null,
+    parent_invoice_id: firstDeposit?.id || null,
+    title: firstDeposit ? `Eindfactuur: ${offer.title}` : offer.title,
+    description,
+    items,
+    ...calculateInvoiceTotals(items),
+  };
+};
+
+// Mirrors the delete policy on invoices: numbered invoices stay in the sequence and are
+// cancelled or credited instead
+export const isDeletableInvoice = (invoice: Pick<Invoice, 'status' | 'invoice_number'>): boolean =>
+  invoice.status === 'draft' && !invoice.invoice_number;
+
+// Credit note that reverses every line of an existing invoice
+export const planCreditNote = (
+  invoice: Pick<Invoice, 'invoice_number' | 'invoice_type' | 'title' | 'items' | 'amount' | 'vat_amount' | 'total' | 'status'>
+): Pick<OfferInvoicePlan, 'title' | 'items' | 'amount' | 'vat_amount' | 'total'> => {
+  if (invoice.invoice_type === 'credit_note') {
+    throw new InvoiceConversionError('Credit notes cannot be credited');
+  }
+  if (invoice.status === 'draft' || invoice.status === 'cancelled') {
+    throw new InvoiceConversionError('Only sent or paid invoices can be credited');
+  }
+
+  const items = parseInvoiceItems(invoice.items).map(item => ({
+    ...item,
+    price: -item.price,
+    total: -item.total,
+    vat_rate: normalizeVatRate(item.vat_rate),
+  }));
+
+  // Negate the stored amounts so the credit note reverses exactly what was invoiced
+  return {
+    title: `Creditnota ${invoice.invoice_number}${invoice.title ? `: ${invoice.title}` : ''}`,
+    items,
+    amount: -Number(invoice.amount),
+    vat_amount: -Number(invoice.vat_amount || 0),
+    total: -Number(invoice.total ?? invoice.amount),
+  };
+};
+
+// Items are stored as a JSON string by the invoice form
+export const parseInvoiceItems = (items: Invoice['items']): InvoiceItem[] => {
+  if (!items) return [];
+  if (typeof items !== 'string') return items;
+
+  try {
+    const parsed = JSON.parse(items);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
@@ -184,30 +184,32 @@ export const mockOffers: Offer[] = [
   }
 ];
 
-export const getOffersByStatus = (status: Offer['status']) => {
-  return mockOffers.filter(offer => offer.status === status);
+type OfferSummary = Pick<Offer, 'amount'> & { status: string };
+
+export const getOffersByStatus = (status: Offer['status'], offers: OfferSummary[] = mockOffers) => {
+  return offers.filter(offer => offer.status === status);
 };
 
-export const getTotalOffersValue = () => {
-  return mockOffers.reduce((total, offer) => total + offer.amount, 0);
+export const getTotalOffersValue = (offers: OfferSummary[] = mockOffers) => {
+  return offers.reduce((total, offer) => total + Number(offer.amount), 0);
 };
 
-export const getAcceptedOffersValue = () => {
-  return mockOffers
+export const getAcceptedOffersValue = (offers: OfferSummary[] = mockOffers) => {
+  return offers
     .filter(offer => offer.status === 'accepted')
-    .reduce((total, offer) => total + offer.amount, 0);
+    .reduce((total, offer) => total + Number(offer.amount), 0);
 };
 
-export const getOffersStats = () => {
-  const total = mockOffers.length;
-  const accepted = mockOffers.filter(o => o.status === 'accepted').length;
-  const sent = mockOffers.filter(o => o.status === 'sent').length;
-  const draft = mockOffers.filter(o => o.status === 'draft').length;
-  const rejected = mockOffers.filter(o => o.status === 'rejected').length;
-  const expired = mockOffers.filter(o => o.status === 'expired').length;
+export const getOffersStats = (offers: OfferSummary[] = mockOffers) => {
+  const total = offers.length;
+  const accepted = offers.filter(o => o.status === 'accepted').length;
+  const sent = offers.filter(o => o.status === 'sent' || o.status === 'viewed').length;
+  const draft = offers.filter(o => o.status === 'draft').length;
+  const rejected = offers.filter(o => o.status === 'rejected').length;
+  const expired = offers.filter(o => o.status === 'expired').length;
   
-  const totalValue = getTotalOffersValue();
-  const acceptedValue = getAcceptedOffersValue();
+  const totalValue = getTotalOffersValue(offers);
+  const acceptedValue = getAcceptedOffersValue(offers);
   const acceptanceRate = total > 0 ? Math.round((accepted / total) * 100) : 0;
   const avgValue = total > 0 ? Math.round(totalValue / total) : 0;
   
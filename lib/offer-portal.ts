@@ -0,0 +1,94 @@
+// Public offer portal (/o/[token]): lookup, validation and response rules
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { z } from 'zod';
+import type { Offer, PublicOffer } from '../types/api/offer';
+
+// Roughly 300KB of base64 PNG is plenty for a signature
+const MAX_SIGNATURE_LENGTH = 400_000;
+
+export const offerResponseSchema = z.discriminatedUnion('action', [
+  z.object({ action: z.literal('view') }),
+  z.object({
+    action: z.literal('accept'),
+    name: z.string().trim().min(2, 'Vul je volledige naam in').max(200),
+    signature_type: z.enum(['typed', 'drawn']),
+    signature: z.string().min(1, 'Onderteken de offerte').max(MAX_SIGNATURE_LENGTH),
+  }),
+  z.object({
+    action: z.literal('reject'),
+    name: z.string().trim().min(2, 'Vul je volledige naam in').max(200),
+    reason: z.string().trim().min(3, 'Geef een reden op').max(2000),
+  }),
+]).refine(
+  data => data.action !== 'accept' || data.signature_type === 'typed' || data.signature.startsWith('data:image/png;base64,'),
+  { message: 'Ongeldige handtekening', path: ['signature'] }
+);
+
+export type OfferResponse = z.infer<typeof offerResponseSchema>;
+
+export const getOfferPortalUrl = (token: string, baseUrl = process.env.NEXT_PUBLIC_APP_URL || ''): string =>
+  `${baseUrl}/o/${token}`;
+
+// Returns why the customer can no longer respond, or null when they can
+export const getOfferResponseBlocker = (
+  offer: Pick<Offer, 'status' | 'due_date'>,
+  now: Date = new Date()
+): string | null => {
+  if (offer.status === 'accepted') return 'Deze offerte is al geaccepteerd';
+  if (offer.status === 'rejected') return 'Deze offerte is afgewezen';
+  if (offer.status !== 'sent' && offer.status !== 'viewed') return 'Deze offerte is niet meer geldig';
+  if (offer.due_date && new Date(`${offer.due_date}T23:59:59`) < now) return 'Deze offerte is verlopen';
+  return null;
+};
+
+export const toPublicOffer = (offer: Offer, organizationName: string): PublicOffer => ({
+  title: offer.title,
+  client_name: offer.client_name,
+  amount: offer.amount,
+  vat_amount: offer.vat_amount,
+  total: offer.total,
+  currency: offer.currency,
+  status: offer.status,
+  due_date: offer.due_date,
+  description: offer.terms?.description || null,
+  products: offer.products || [],
+  // The PDF bucket is private, so the portal downloads through the token route
+  pdf_url: offer.pdf_url ? `/api/o/${offer.public_token}/pdf` : null,
+  created_at: offer.created_at,
+  organization_name: organizationName,
+});
+
+// The latest revision is what the customer sees: a revision is written on every content change once sent
+export async function findCurrentRevisionId(supabase: SupabaseClient, offerId: string): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('offer_revisions')
+    .select('id')
+    .eq('offer_id', offerId)
+    .order('version', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data?.id ?? null;
+}
+
+// Drafts are never exposed, even when someone has the token
+export async function findOfferByToken(
+  supabase: SupabaseClient,
+  token: string
+): Promise<{ offer: Offer; organizationName: string } | null> {
+  const { data: offer, error } = await supabase
+    .from('offers')
+    .select('*, organizations (name)')
+    .eq('public_token', token)
+    .neq('status', 'draft')
+    .maybeSingle();
+
+  if (error || !offer) {
+    return null;
+  }
+
+  const { organizations, ...rest } = offer;
+  return { offer: rest as Offer, organizationName: organizations?.name || '' };
+}
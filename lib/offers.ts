@@ -0,0 +1,143 @@
+// Shared helpers for offers, used by the API routes and the offertes page
+
+import { DEFAULT_VAT_RATE, VAT_RATES, calculateVatTotals, normalizeVatRate } from './vat';
+import { hasPermission } from './auth/permissions';
+import type { TeamRole } from './auth/organization';
+import type { Offer, OfferDiffLine, OfferInput, OfferProduct, OfferRevision, OfferStatus } from '../types/api/offer';
+
+// Keep in sync with the status check constraint on offers
+export const OFFER_STATUSES: OfferStatus[] = ['draft', 'sent', 'viewed', 'accepted', 'rejected', 'expired'];
+
+export const isOfferStatus = (value: unknown): value is OfferStatus =>
+  typeof value === 'string' && (OFFER_STATUSES as string[]).includes(value);
+
+// Set by the customer in the offer portal, together with the signature
+export const PORTAL_OFFER_STATUSES: OfferStatus[] = ['accepted', 'rejected'];
+
+// Why a member may not move an offer from `from` to `to`, or null when the change is allowed
+export const offerStatusChangeError = (
+  role: TeamRole | null | undefined,
+  from: OfferStatus | null | undefined,
+  to: OfferStatus
+): string | null => {
+  if (from === to) return null;
+  if (PORTAL_OFFER_STATUSES.includes(to)) {
+    return `Offers can only be ${to} by the customer in the offer portal`;
+  }
+  if (to === 'sent' && !hasPermission(role, 'offers:send')) {
+    return 'Marking an offer as sent requires the offers:send permission';
+  }
+  return null;
+};
+
+export const calculateOfferAmount = (products: OfferProduct[]): number =>
+  calculateVatTotals(products).subtotal;
+
+// Columns to store on the offer; without products the amount is taxed at the default rate
+export const calculateOfferTotals = (
+  products: OfferProduct[],
+  fallbackAmount = 0
+): Pick<Offer, 'amount' | 'vat_amount' | 'total'> => {
+  const totals = calculateVatTotals(products.length > 0 ? products : [{ quantity: 1, price: fallbackAmount }]);
+  return { amount: totals.subtotal, vat_amount: totals.vatAmount, total: totals.total };
+};
+
+// Drop empty rows and coerce numeric fields coming from form inputs
+export const normalizeOfferProducts = (products: unknown): OfferProduct[] => {
+  if (!Array.isArray(products)) return [];
+
+  return products
+    .filter(product => product && typeof product.name === 'string' && product.name.trim() !== '')
+    .map(product => ({
+      name: product.name.trim(),
+      description: product.description || '',
+      quantity: Number(product.quantity) || 0,
+      price: Number(product.price) || 0,
+      vat_rate: normalizeVatRate(product.vat_rate),
+    }));
+};
+
+// Fields to send when creating a copy of an existing offer
+export const toDuplicateOfferInput = (offer: Offer): OfferInput => ({
+  title: `${offer.title} (kopie)`,
+  client_name: offer.client_name,
+  client_id: offer.client_id,
+  contact_id: offer.contact_id,
+  currency: offer.currency,
+  status: 'draft',
+  due_date: offer.due_date,
+  terms: offer.terms,
+  products: offer.products,
+});
+
+// Fields to send when restoring an older revision as a new draft offer
+export const toRestoredOfferInput = (revision: OfferRevision): OfferInput => ({
+  title: `${revision.title} (versie ${revision.version})`,
+  client_name: revision.client_name,
+  client_id: revision.client_id,
+  currency: revision.currency,
+  status: 'draft',
+  due_date: revision.due_date,
+  terms: revision.terms,
+  products: revision.products,
+});
+
+// Render a revision as the lines shown in the diff view
+export const offerRevisionToLines = (revision: OfferRevision): string[] => {
+  const lines = [
+    `Titel: ${revision.title}`,
+    `Klant: ${revision.client_name}`,
+    `Geldig tot: ${revision.due_date || '-'}`,
+    `Valuta: ${revision.currency}`,
+  ];
+
+  if (revision.terms?.description) {
+    lines.push(`Beschrijving: ${revision.terms.description}`);
+  }
+
+  (revision.products || []).forEach(product => {
+    const description = product.description ? ` (${product.description})` : '';
+    const rate = normalizeVatRate(product.vat_rate);
+    const vat = rate === DEFAULT_VAT_RATE ? '' : ` [BTW ${VAT_RATES[rate].label}]`;
+    lines.push(`Item: ${product.name}${description} - ${product.quantity} x ${Number(product.price).toFixed(2)}${vat}`);
+  });
+
+  if (revision.terms?.notes) {
+    lines.push(`Notities: ${revision.terms.notes}`);
+  }
+
+  lines.push(`Totaal: ${Number(revision.amount).toFixed(2)}`);
+  return lines;
+};
+
+// Line-by-line diff between two revisions, based on the longest common subsequence
+export const diffOfferRevisions = (from: OfferRevision, to: OfferRevision): OfferDiffLine[] => {
+  const a = offerRevisionToLines(from);
+  const b = offerRevisionToLines(to);
+
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const diff: OfferDiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      diff.push({ type: 'unchanged', text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      diff.push({ type: 'removed', text: a[i++] });
+    } else {
+      diff.push({ type: 'added', text: b[j++] });
+    }
+  }
+  while (i < a.length) diff.push({ type: 'removed', text: a[i++] });
+  while (j < b.length) diff.push({ type: 'added', text: b[j++] });
+
+  return diff;
+};
@@ -0,0 +1,145 @@
+// Organizations (workspaces): a user can be an active member of several of them and switches
+// between them with ACTIVE_ORGANIZATION_COOKIE. A new organization is created from the
+// onboarding answers, with the creator as its owner.
+
+import { randomBytes } from 'crypto';
+import { SupabaseClient, type User } from '@supabase/supabase-js';
+import type { TeamRole } from './auth/organization';
+import type {
+  Organization,
+  OrganizationIndustry,
+  OrganizationInput,
+  OrganizationMembership,
+} from '../types/api/organization';
+
+// Keep in sync with OnboardingData['industry'] in lib/onboarding.ts
+export const ORGANIZATION_INDUSTRIES: OrganizationIndustry[] = [
+  'it', 'bouw', 'consultancy', 'ecommerce', 'retail', 'healthcare', 'education', 'general',
+];
+
+export const MAX_ORGANIZATION_NAME_LENGTH = 100;
+
+const ORGANIZATION_COLUMNS = 'id, name, slug, owner_id, industry, subscription_tier, created_at';
+
+export const isOrganizationIndustry = (value: unknown): value is OrganizationIndustry =>
+  typeof value === 'string' && (ORGANIZATION_INDUSTRIES as string[]).includes(value);
+
+// "Bakkerij Café 't Hoekje" -> "bakkerij-cafe-t-hoekje"
+export const slugifyOrganizationName = (name: string): string => {
+  const slug = name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 48)
+    .replace(/-+$/, '');
+  return slug || 'organisatie';
+};
+
+// Slugs are unique across all organizations, so a random suffix avoids collisions on common names
+export const generateOrganizationSlug = (name: string): string =>
+  `${slugifyOrganizationName(name)}-${randomBytes(3).toString('hex')}`;
+
+/**
+ * Validate the onboarding answers; returns the normalized input or an error message.
+ */
+export function parseOrganizationInput(
+  body: unknown
+): { values: OrganizationInput; error?: undefined } | { error: string; values?: undefined } {
+  const { companyName, industry } = (body ?? {}) as Record<string, unknown>;
+  const name = typeof companyName === 'string' ? companyName.trim() : '';
+
+  if (!name) {
+    return { error: 'companyName is required' };
+  }
+  if (name.length > MAX_ORGANIZATION_NAME_LENGTH) {
+    return { error: `companyName must be at most ${MAX_ORGANIZATION_NAME_LENGTH} characters` };
+  }
+  if (industry !== undefined && industry !== null && !isOrganizationIndustry(industry)) {
+    return { error: `industry must be one of: ${ORGANIZATION_INDUSTRIES.join(', ')}` };
+  }
+
+  return { values: { companyName: name, industry: isOrganizationIndustry(industry) ? industry : 'general' } };
+}
+
+/**
+ * The organizations the user is an active member of, oldest membership first.
+ */
+export async function listOrganizationMemberships(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<OrganizationMembership[]> {
+  const { data, error } = await supabase
+    .from('team_members')
+    .select('organization_id, role, joined_at, organizations (name, slug)')
+    .eq('user_id', userId)
+    .eq('status', 'active')
+    .order('joined_at', { ascending: true });
+
+  if (error) throw error;
+
+  return (data ?? []).map((membership: any) => {
+    const organization = Array.isArray(membership.organizations)
+      ? membership.organizations[0]
+      : membership.organizations;
+    return {
+      organization_id: membership.organization_id,
+      name: organization?.name ?? '',
+      slug: organization?.slug ?? '',
+      role: membership.role as TeamRole,
+      joined_at: membership.joined_at,
+    };
+  });
+}
+
+/**
+ * Create an organization with the user as its active owner. Needs the service role client:
+ * the user is not a member yet, so RLS would not let them add the owner membership.
+ */
+export async function createOrganization(
+  supabase: SupabaseClient,
+  user: Pick<User, 'id' | 'email' | 'user_metadata'>,
+  input: OrganizationInput
+): Promise<Organization> {
+  // organizations and team_members reference public.users, which new accounts may not have yet
+  const { error: profileError } = await supabase
+    .from('users')
+    .upsert(
+      { id: user.id, email: user.email, full_name: user.user_metadata?.full_name || user.user_metadata?.name || null },
+      { onConflict: 'id', ignoreDuplicates: true }
+    );
+
+  if (profileError) throw profileError;
+
+  const { data: organization, error } = await supabase
+    .from('organizations')
+    .insert({
+      name: input.companyName,
+      slug: generateOrganizationSlug(input.companyName),
+      owner_id: user.id,
+      industry: input.industry ?? 'general',
+    })
+    .select(ORGANIZATION_COLUMNS)
+    .single();
+
+  if (error) throw error;
+
+  const { error: memberError } = await supabase
+    .from('team_members')
+    .insert({
+      user_id: user.id,
+      organization_id: organization.id,
+      role: 'owner',
+      status: 'active',
+      joined_at: new Date().toISOString(),
+    });
+
+  if (memberError) {
+    // An organization without members is unreachable, so do not leave it behind
+    await supabase.from('organizations').delete().eq('id', organization.id);
+    throw memberError;
+  }
+
+  return organization as Organization;
+}
@@ -0,0 +1,395 @@
+// Outgoing webhooks: organizations subscribe endpoints to events such as offer.accepted,
+// and every event is delivered as a signed POST by Inngest, retried with exponential backoff.
+// Database access goes through OutgoingWebhookStore so delivery can be run with a stubbed step in tests.
+
+import { createHmac, randomBytes, randomUUID, timingSafeEqual } from 'crypto';
+import { SupabaseClient } from '@supabase/supabase-js';
+import type { GetStepTools } from 'inngest';
+import { inngest } from './inngest/client';
+import { decryptSecret } from './secrets';
+import { fetchPublicUrl, publicUrlError } from './public-fetch';
+import { logger } from './logger';
+
+export const WEBHOOK_EVENTS = [
+  'offer.sent',
+  'offer.accepted',
+  'invoice.created',
+  'invoice.paid',
+  'customer.created',
+] as const;
+
+export type WebhookEventType = typeof WEBHOOK_EVENTS[number];
+
+export const WEBHOOK_EVENT_EMITTED = 'webhooks/event.emitted';
+export const WEBHOOK_DELIVERY_REQUESTED = 'webhooks/delivery.requested';
+
+// Never select the secret for the browser: it is only shown once, on creation or rotation
+export const WEBHOOK_ENDPOINT_COLUMNS = 'id, url, description, events, enabled, created_by, created_at, updated_at';
+export const WEBHOOK_DELIVERY_COLUMNS =
+  'id, endpoint_id, event_id, event_type, status, attempts, response_status, response_body, error, duration_ms, last_attempt_at, next_attempt_at, delivered_at, redelivery_of, created_at';
+
+export const SIGNATURE_HEADER = 'QuoteFast-Signature';
+
+// First attempt plus five retries, 30 seconds to ~8.5 hours apart
+export const MAX_DELIVERY_ATTEMPTS = 6;
+const BASE_BACKOFF_MS = 30 * 1000;
+const DELIVERY_TIMEOUT_MS = 10 * 1000;
+const MAX_LOGGED_RESPONSE_LENGTH = 2000;
+// Receivers should reject signatures older than this
+export const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+export interface WebhookEvent {
+  id: string;
+  type: WebhookEventType;
+  created_at: string;
+  organization_id: string;
+  data: Record<string, unknown>;
+}
+
+export interface WebhookEndpointTarget {
+  id: string;
+  url: string;
+  // Encrypted signing secret
+  secret: string;
+  enabled: boolean;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  organization_id: string;
+  event_id: string;
+  event_type: string;
+  payload: WebhookEvent;
+  status: 'pending' | 'succeeded' | 'failed';
+  attempts: number;
+  endpoint: WebhookEndpointTarget | null;
+}
+
+export interface DeliveryAttempt {
+  attempts: number;
+  status: WebhookDelivery['status'];
+  response_status: number | null;
+  response_body: string | null;
+  error: string | null;
+  duration_ms: number;
+  last_attempt_at: string;
+  next_attempt_at: string | null;
+  delivered_at: string | null;
+}
+
+export interface OutgoingWebhookStore {
+  // Enabled endpoints of the organization that subscribe to the event type
+  findSubscribedEndpoints(organizationId: string, type: WebhookEventType): Promise<{ id: string }[]>;
+  // Returns the ids of the new delivery rows
+  createDeliveries(event: WebhookEvent, endpointIds: string[]): Promise<string[]>;
+  getDelivery(deliveryId: string): Promise<WebhookDelivery | null>;
+  recordAttempt(deliveryId: string, attempt: DeliveryAttempt): Promise<void>;
+}
+
+export type WebhookStep = Pick<GetStepTools<typeof inngest>, 'run' | 'sleep' | 'sendEvent'>;
+
+export type WebhookFetch = (url: string, init: RequestInit) => Promise<Pick<Response, 'status' | 'text'>>;
+
+export const isWebhookEventType = (value: unknown): value is WebhookEventType =>
+  typeof value === 'string' && (WEBHOOK_EVENTS as readonly string[]).includes(value);
+
+export const generateWebhookSecret = (): string => `whsec_${randomBytes(24).toString('base64url')}`;
+
+// Delay after failed attempt n (1-based): 30s, 2m, 8m, 32m, ~2h8m
+export const retryDelayMs = (attempt: number): number => BASE_BACKOFF_MS * Math.pow(4, attempt - 1);
+
+/**
+ * Signature header in the form t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">.
+ * The timestamp is signed too, so a captured request cannot be replayed later.
+ */
+export const signWebhookPayload = (secret: string, body: string, timestamp: number): string => {
+  const signature = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${signature}`;
+};
+
+// For receivers (and tests): checks the signature and that it is recent
+export const verifyWebhookSignature = (
+  secret: string,
+  body: string,
+  header: string,
+  now: number = Math.floor(Date.now() / 1000)
+): boolean => {
+  const parts = Object.fromEntries(header.split(',').map(part => part.split('=') as [string, string]));
+  const timestamp = Number(parts.t);
+  if (!parts.v1 || !Number.isInteger(timestamp) || Math.abs(now - timestamp) > SIGNATURE_TOLERANCE_SECONDS) {
+    return false;
+  }
+
+  const expected = Buffer.from(signWebhookPayload(secret, body, timestamp).split('v1=')[1], 'hex');
+  const actual = Buffer.from(parts.v1, 'hex');
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+};
+
+// Deliveries go to public HTTPS endpoints only; the host is checked again on every attempt
+export const webhookUrlError = publicUrlError;
+
+// Connects to public addresses only and never follows redirects, so a 3xx response is a failed attempt
+const fetchWebhook: WebhookFetch = async (url, init) => {
+  const response = await fetchPublicUrl(url, {
+    method: 'POST',
+    headers: init.headers as Record<string, string>,
+    body: init.body as string,
+    signal: init.signal ?? undefined,
+    // Enough bytes for the logged response in any encoding
+    maxBytes: MAX_LOGGED_RESPONSE_LENGTH * 4,
+  });
+  return { status: response.status, text: async () => response.body.toString('utf8') };
+};
+
+/**
+ * Queue a webhook event for an organization. Routes call this after their change is
+ * saved; a failure is logged and never fails the request that triggered it.
+ */
+export async function emitWebhookEvent(
+  organizationId: string,
+  type: WebhookEventType,
+  data: Record<string, unknown>
+): Promise<void> {
+  const event: WebhookEvent = {
+    id: randomUUID(),
+    type,
+    created_at: new Date().toISOString(),
+    organization_id: organizationId,
+    data,
+  };
+
+  try {
+    await inngest.send({ name: WEBHOOK_EVENT_EMITTED, data: { event } });
+  } catch (error) {
+    logger.error(`Failed to queue webhook event ${type}`, 'webhooks', { organizationId, error });
+  }
+}
+
+// Offer statuses that are published when an offer moves into them
+const OFFER_STATUS_EVENTS: Partial<Record<string, WebhookEventType>> = {
+  sent: 'offer.sent',
+  accepted: 'offer.accepted',
+};
+
+export const offerStatusEvent = (previousStatus: string | null | undefined, status: string): WebhookEventType | null =>
+  previousStatus === status ? null : OFFER_STATUS_EVENTS[status] ?? null;
+
+/**
+ * Emit offer.sent or offer.accepted for an update that changed the offer status, so
+ * receivers get the same events from the dashboard, the public API and bulk updates.
+ */
+export async function emitOfferStatusEvent(
+  organizationId: string,
+  previousStatus: string | null | undefined,
+  offer: Record<string, unknown> & { status: string }
+): Promise<void> {
+  const type = offerStatusEvent(previousStatus, offer.status);
+  if (type) {
+    await emitWebhookEvent(organizationId, type, offer);
+  }
+}
+
+/**
+ * Create a delivery for every endpoint subscribed to the event and start delivering them.
+ */
+export async function fanOutWebhookEvent(
+  event: WebhookEvent,
+  step: WebhookStep,
+  store: OutgoingWebhookStore
+): Promise<{ deliveries: number }> {
+  const deliveryIds = await step.run('create-deliveries', async () => {
+    const endpoints = await store.findSubscribedEndpoints(event.organization_id, event.type);
+    return endpoints.length > 0 ? store.createDeliveries(event, endpoints.map(endpoint => endpoint.id)) : [];
+  });
+
+  if (deliveryIds.length > 0) {
+    await step.sendEvent('deliver', deliveryIds.map(deliveryId => ({
+      name: WEBHOOK_DELIVERY_REQUESTED,
+      data: { deliveryId },
+    })));
+  }
+
+  return { deliveries: deliveryIds.length };
+}
+
+const truncate = (value: string): string =>
+  value.length > MAX_LOGGED_RESPONSE_LENGTH ? `${value.slice(0, MAX_LOGGED_RESPONSE_LENGTH)}…` : value;
+
+const readSigningSecret = (value: string | null): string | null => {
+  try {
+    return decryptSecret(value);
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * One POST to the endpoint; any 2xx response counts as delivered. Without a signing secret
+ * nothing is sent and the attempt is final (retryable: false), since retrying cannot fix it.
+ */
+export async function postWebhook(
+  delivery: WebhookDelivery & { endpoint: WebhookEndpointTarget },
+  send: WebhookFetch,
+  now: Date = new Date()
+): Promise<Pick<DeliveryAttempt, 'response_status' | 'response_body' | 'error' | 'duration_ms'> & { ok: boolean; retryable: boolean }> {
+  const body = JSON.stringify(delivery.payload);
+  const secret = readSigningSecret(delivery.endpoint.secret);
+  if (!secret) {
+    return {
+      ok: false,
+      retryable: false,
+      response_status: null,
+      response_body: null,
+      error: 'Signing secret is missing or cannot be decrypted',
+      duration_ms: 0,
+    };
+  }
+  const started = Date.now();
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), DELIVERY_TIMEOUT_MS);
+
+  try {
+    const response = await send(delivery.endpoint.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'QuoteFast-Webhooks/1.0',
+        'QuoteFast-Event': delivery.event_type,
+        'QuoteFast-Delivery': delivery.id,
+        [SIGNATURE_HEADER]: signWebhookPayload(secret, body, Math.floor(now.getTime() / 1000)),
+      },
+      body,
+      signal: controller.signal,
+      redirect: 'manual',
+    });
+    const responseBody = truncate(await response.text().catch(() => ''));
+    const ok = response.status >= 200 && response.status < 300;
+
+    return {
+      ok,
+      retryable: !ok,
+      response_status: response.status,
+      response_body: responseBody || null,
+      error: ok ? null : `Endpoint responded with ${response.status}`,
+      duration_ms: Date.now() - started,
+    };
+  } catch (error) {
+    const aborted = error instanceof Error && error.name === 'AbortError';
+    return {
+      ok: false,
+      retryable: true,
+      response_status: null,
+      response_body: null,
+      error: aborted ? `No response within ${DELIVERY_TIMEOUT_MS / 1000} seconds` : (error as Error).message || 'Request failed',
+      duration_ms: Date.now() - started,
+    };
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+export type DeliveryResult =
+  | { status: 'succeeded'; attempts: number }
+  | { status: 'failed'; attempts: number }
+  | { status: 'skipped'; reason: 'deleted' | 'endpoint_disabled' | 'already_delivered' };
+
+/**
+ * Deliver one webhook, sleeping with exponential backoff between failed attempts.
+ * Each attempt is a separate step, so a re-run of the function never repeats one
+ * that already got a response, and every attempt is written to the delivery log.
+ */
+export async function deliverWebhook(
+  deliveryId: string,
+  step: WebhookStep,
+  store: OutgoingWebhookStore,
+  send: WebhookFetch = fetchWebhook
+): Promise<DeliveryResult> {
+  for (let attempt = 1; attempt <= MAX_DELIVERY_ATTEMPTS; attempt++) {
+    const outcome = await step.run(`attempt-${attempt}`, async () => {
+      const delivery = await store.getDelivery(deliveryId);
+      if (!delivery) return { skipped: 'deleted' as const };
+      if (delivery.status === 'succeeded') return { skipped: 'already_delivered' as const };
+      if (!delivery.endpoint || !delivery.endpoint.enabled) return { skipped: 'endpoint_disabled' as const };
+
+      const now = new Date();
+      const result = await postWebhook({ ...delivery, endpoint: delivery.endpoint }, send, now);
+      const final = result.ok || !result.retryable || attempt === MAX_DELIVERY_ATTEMPTS;
+
+      await store.recordAttempt(deliveryId, {
+        attempts: attempt,
+        status: result.ok ? 'succeeded' : final ? 'failed' : 'pending',
+        response_status: result.response_status,
+        response_body: result.response_body,
+        error: result.error,
+        duration_ms: result.duration_ms,
+        last_attempt_at: now.toISOString(),
+        next_attempt_at: final ? null : new Date(now.getTime() + retryDelayMs(attempt)).toISOString(),
+        delivered_at: result.ok ? now.toISOString() : null,
+      });
+      return { ok: result.ok, final };
+    });
+
+    if ('skipped' in outcome) {
+      return { status: 'skipped', reason: outcome.skipped };
+    }
+    if (outcome.ok) {
+      return { status: 'succeeded', attempts: attempt };
+    }
+    if (outcome.final) {
+      return { status: 'failed', attempts: attempt };
+    }
+    if (attempt < MAX_DELIVERY_ATTEMPTS) {
+      await step.sleep(`backoff-${attempt}`, retryDelayMs(attempt));
+    }
+  }
+
+  return { status: 'failed', attempts: MAX_DELIVERY_ATTEMPTS };
+}
+
+export const createSupabaseOutgoingWebhookStore = (supabase: SupabaseClient): OutgoingWebhookStore => ({
+  async findSubscribedEndpoints(organizationId, type) {
+    const { data, error } = await supabase
+      .from('webhook_endpoints')
+      .select('id')
+      .eq('organization_id', organizationId)
+      .eq('enabled', true)
+      .contains('events', [type]);
+    if (error) throw error;
+    return data || [];
+  },
+
+  async createDeliveries(event, endpointIds) {
+    const { data, error } = await supabase
+      .from('webhook_deliveries')
+      .insert(endpointIds.map(endpointId => ({
+        organization_id: event.organization_id,
+        endpoint_id: endpointId,
+        event_id: event.id,
+        event_type: event.type,
+        payload: event,
+      })))
+      .select('id');
+    if (error) throw error;
+    return (data || []).map(row => row.id);
+  },
+
+  async getDelivery(deliveryId) {
+    const { data, error } = await supabase
+      .from('webhook_deliveries')
+      .select('id, organization_id, event_id, event_type, payload, status, attempts, webhook_endpoints (id, url, secret, enabled)')
+      .eq('id', deliveryId)
+      .maybeSingle();
+    if (error) throw error;
+    if (!data) return null;
+
+    const { webhook_endpoints: endpoint, ...delivery } = data as unknown as Omit<WebhookDelivery, 'endpoint'> & {
+      webhook_endpoints: WebhookEndpointTarget | null;
+    };
+    return { ...delivery, endpoint };
+  },
+
+  async recordAttempt(deliveryId, attempt) {
+    const { error } = await supabase.from('webhook_deliveries').update(attempt).eq('id', deliveryId);
+    if (error) throw error;
+  },
+});
@@ -0,0 +1,331 @@
+// PDF rendering for offers, invoices and credit notes
+// Pure layout code: callers load the data and decide where the bytes go
+
+import { PDFDocument, PDFFont, PDFImage, PDFPage, StandardFonts, rgb } from 'pdf-lib';
+import { VAT_RATES, calculateLineTotal, calculateVatTotals, getVatNotices, normalizeVatRate, type VatBreakdownLine, type VatRate } from '../vat';
+
+export type PdfDocumentKind = 'offer' | 'invoice' | 'credit_note';
+
+export interface PdfParty {
+  name: string;
+  // Contact person the document is addressed to ("t.a.v.")
+  attention?: string | null;
+  address?: Record<string, string> | null;
+  email?: string | null;
+  vatNumber?: string | null;
+  iban?: string | null;
+}
+
+export interface PdfLineItem {
+  name: string;
+  description?: string;
+  quantity: number;
+  price: number;
+  vatRate?: VatRate;
+}
+
+export interface PdfLogo {
+  bytes: Uint8Array;
+  mimeType: string;
+}
+
+export interface PdfDocumentData {
+  kind: PdfDocumentKind;
+  number: string;
+  title: string;
+  description?: string | null;
+  issueDate: string;
+  dueDate?: string | null;
+  currency: string;
+  seller: PdfParty;
+  logo?: PdfLogo | null;
+  customer: PdfParty;
+  items: PdfLineItem[];
+  paymentTermsDays: number;
+  // Online payment link for the outstanding amount, invoices only
+  paymentUrl?: string | null;
+  notes?: string | null;
+}
+
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 50;
+const TEXT_COLOR = rgb(0.13, 0.13, 0.13);
+const MUTED_COLOR = rgb(0.45, 0.45, 0.45);
+const ACCENT_COLOR = rgb(0.15, 0.39, 0.92);
+
+const DOCUMENT_TITLES: Record<PdfDocumentKind, string> = {
+  offer: 'OFFERTE',
+  invoice: 'FACTUUR',
+  credit_note: 'CREDITNOTA',
+};
+
+// The VAT column is narrow, so zero-VAT regimes get a short label
+const vatColumnLabel = (rate: VatRate): string => {
+  if (rate === 'exempt') return 'vrij';
+  if (rate === 'reverse_charge') return 'verlegd';
+  return VAT_RATES[rate].label;
+};
+
+const vatBreakdownLabel = (line: VatBreakdownLine, money: (value: number) => string): string =>
+  line.rate === 'exempt' || line.rate === 'reverse_charge'
+    ? `${line.label} over ${money(line.base)}`
+    : `BTW ${line.label} over ${money(line.base)}`;
+
+export const formatAddressLines = (address?: Record<string, string> | null): string[] => {
+  if (!address) return [];
+
+  const { street, postal_code, city, country, ...rest } = address;
+  const lines = [street, [postal_code, city].filter(Boolean).join(' '), country].filter(Boolean) as string[];
+  return lines.length > 0 ? lines : Object.values(rest).filter(Boolean);
+};
+
+// The standard fonts only cover WinAnsi; swap anything else for a safe character
+const sanitize = (text: string): string =>
+  text.replace(/[\u00A0\u202F]/g, ' ').replace(/[^\x20-\x7E\u00A1-\u00FF\u20AC\u2013\u2014\u2018\u2019\u201C\u201D\u2022\u2026]/g, '?');
+
+const formatDate = (date: string): string =>
+  new Date(date).toLocaleDateString('nl-NL', { year: 'numeric', month: 'long', day: 'numeric' });
+
+class PdfWriter {
+  private page: PDFPage;
+  y: number;
+
+  constructor(private doc: PDFDocument, private font: PDFFont, private bold: PDFFont) {
+    this.page = doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    this.y = PAGE_HEIGHT - MARGIN;
+  }
+
+  ensureSpace(height: number) {
+    if (this.y - height < MARGIN + 40) {
+      this.page = this.doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+      this.y = PAGE_HEIGHT - MARGIN;
+    }
+  }
+
+  text(value: string, x: number, options: { size?: number; bold?: boolean; color?: ReturnType<typeof rgb>; y?: number } = {}) {
+    this.page.drawText(sanitize(value), {
+      x,
+      y: options.y ?? this.y,
+      size: options.size ?? 10,
+      font: options.bold ? this.bold : this.font,
+      color: options.color ?? TEXT_COLOR,
+    });
+  }
+
+  textRight(value: string, right: number, options: { size?: number; bold?: boolean; color?: ReturnType<typeof rgb>; y?: number } = {}) {
+    const width = (options.bold ? this.bold : this.font).widthOfTextAtSize(sanitize(value), options.size ?? 10);
+    this.text(value, right - width, options);
+  }
+
+  // Draw text wrapped to a maximum width and return the number of lines used
+  paragraph(value: string, x: number, maxWidth: number, size = 10, color = TEXT_COLOR): number {
+    const lines = this.wrap(value, maxWidth, size);
+    lines.forEach(line => {
+      this.ensureSpace(size + 4);
+      this.text(line, x, { size, color });
+      this.y -= size + 4;
+    });
+    return lines.length;
+  }
+
+  wrap(value: string, maxWidth: number, size = 10): string[] {
+    const lines: string[] = [];
+    sanitize(value).split('\n').forEach(paragraph => {
+      let line = '';
+      paragraph.split(' ').forEach(word => {
+        const candidate = line ? `${line} ${word}` : word;
+        if (line && this.font.widthOfTextAtSize(candidate, size) > maxWidth) {
+          lines.push(line);
+          line = word;
+        } else {
+          line = candidate;
+        }
+      });
+      lines.push(line);
+    });
+    return lines;
+  }
+
+  line(y = this.y) {
+    this.page.drawLine({
+      start: { x: MARGIN, y },
+      end: { x: PAGE_WIDTH - MARGIN, y },
+      thickness: 0.5,
+      color: rgb(0.8, 0.8, 0.8),
+    });
+  }
+
+  image(image: PDFImage, x: number, maxWidth: number, maxHeight: number) {
+    const scaled = image.scaleToFit(maxWidth, maxHeight);
+    this.page.drawImage(image, { x, y: this.y - scaled.height, width: scaled.width, height: scaled.height });
+    return scaled.height;
+  }
+}
+
+export async function renderDocumentPdf(data: PdfDocumentData): Promise<Uint8Array> {
+  const doc = await PDFDocument.create();
+  doc.setTitle(`${DOCUMENT_TITLES[data.kind]} ${data.number}`);
+  doc.setCreator('QuoteFast');
+
+  const font = await doc.embedFont(StandardFonts.Helvetica);
+  const bold = await doc.embedFont(StandardFonts.HelveticaBold);
+  const writer = new PdfWriter(doc, font, bold);
+  const right = PAGE_WIDTH - MARGIN;
+
+  const money = (amount: number) =>
+    new Intl.NumberFormat('nl-NL', { style: 'currency', currency: data.currency || 'EUR' }).format(amount);
+
+  // Letterhead: logo (or name) left, seller details right
+  const headerTop = writer.y;
+  let logoHeight = 0;
+  if (data.logo) {
+    try {
+      const image = data.logo.mimeType.includes('png')
+        ? await doc.embedPng(data.logo.bytes)
+        : await doc.embedJpg(data.logo.bytes);
+      logoHeight = writer.image(image, MARGIN, 150, 60);
+    } catch {
+      // Unsupported logo formats fall back to the organization name
+      logoHeight = 0;
+    }
+  }
+  if (!logoHeight) {
+    writer.text(data.seller.name, MARGIN, { size: 18, bold: true, color: ACCENT_COLOR, y: headerTop - 18 });
+    logoHeight = 24;
+  }
+
+  const sellerLines = [
+    ...formatAddressLines(data.seller.address),
+    data.seller.email,
+    data.seller.vatNumber ? `BTW: ${data.seller.vatNumber}` : null,
+    data.seller.iban ? `IBAN: ${data.seller.iban}` : null,
+  ].filter(Boolean) as string[];
+  writer.textRight(data.seller.name, right, { bold: true, y: headerTop - 10 });
+  sellerLines.forEach((line, index) => {
+    writer.textRight(line, right, { size: 9, color: MUTED_COLOR, y: headerTop - 24 - index * 12 });
+  });
+  writer.y = headerTop - Math.max(logoHeight, 24 + sellerLines.length * 12) - 30;
+
+  // Document title and dates
+  writer.text(`${DOCUMENT_TITLES[data.kind]} ${data.number}`, MARGIN, { size: 16, bold: true });
+  writer.y -= 20;
+  writer.text(`Datum: ${formatDate(data.issueDate)}`, MARGIN, { size: 9, color: MUTED_COLOR });
+  if (data.dueDate) {
+    writer.y -= 12;
+    writer.text(
+      `${data.kind === 'offer' ? 'Geldig tot' : 'Vervaldatum'}: ${formatDate(data.dueDate)}`,
+      MARGIN,
+      { size: 9, color: MUTED_COLOR }
+    );
+  }
+  writer.y -= 28;
+
+  // Customer
+  writer.text('Aan', MARGIN, { size: 9, color: MUTED_COLOR });
+  writer.y -= 14;
+  [
+    data.customer.name,
+    data.customer.attention ? `t.a.v. ${data.customer.attention}` : null,
+    ...formatAddressLines(data.customer.address),
+    data.customer.email,
+  ]
+    .filter(Boolean)
+    .forEach((line, index) => {
+      writer.text(line as string, MARGIN, { bold: index === 0 });
+      writer.y -= 13;
+    });
+  if (data.customer.vatNumber) {
+    writer.text(`BTW: ${data.customer.vatNumber}`, MARGIN, { size: 9, color: MUTED_COLOR });
+    writer.y -= 13;
+  }
+  writer.y -= 15;
+
+  writer.text(data.title, MARGIN, { size: 12, bold: true });
+  writer.y -= 16;
+  if (data.description) {
+    writer.paragraph(data.description, MARGIN, right - MARGIN, 10, MUTED_COLOR);
+  }
+  writer.y -= 10;
+
+  // Line items
+  const columns = { quantity: 330, price: 410, vat: 455, total: right };
+  const drawTableHeader = () => {
+    writer.text('Omschrijving', MARGIN, { size: 9, bold: true });
+    writer.textRight('Aantal', columns.quantity, { size: 9, bold: true });
+    writer.textRight('Prijs', columns.price, { size: 9, bold: true });
+    writer.textRight('BTW', columns.vat, { size: 9, bold: true });
+    writer.textRight('Totaal', columns.total, { size: 9, bold: true });
+    writer.y -= 6;
+    writer.line();
+    writer.y -= 14;
+  };
+  drawTableHeader();
+
+  data.items.forEach(item => {
+    const descriptionLines = item.description ? writer.wrap(item.description, columns.quantity - MARGIN - 50, 8) : [];
+    writer.ensureSpace(16 + descriptionLines.length * 10);
+    writer.text(item.name, MARGIN);
+    writer.textRight(String(item.quantity), columns.quantity);
+    writer.textRight(money(item.price), columns.price);
+    writer.textRight(vatColumnLabel(normalizeVatRate(item.vatRate)), columns.vat);
+    writer.textRight(money(calculateLineTotal(item)), columns.total);
+    writer.y -= 12;
+    descriptionLines.forEach(line => {
+      writer.text(line, MARGIN, { size: 8, color: MUTED_COLOR });
+      writer.y -= 10;
+    });
+    writer.y -= 4;
+  });
+
+  // VAT breakdown and totals
+  const totals = calculateVatTotals(data.items.map(item => ({ ...item, vat_rate: item.vatRate })));
+  writer.ensureSpace(40 + totals.vatLines.length * 14);
+  writer.line(writer.y + 6);
+  writer.y -= 10;
+  writer.text('Subtotaal', 360);
+  writer.textRight(money(totals.subtotal), right);
+  totals.vatLines.forEach(line => {
+    writer.y -= 14;
+    writer.text(vatBreakdownLabel(line, money), 360, { size: 9, color: MUTED_COLOR });
+    writer.textRight(money(line.vat), right, { size: 9, color: MUTED_COLOR });
+  });
+  writer.y -= 18;
+  writer.text('Totaal', 360, { bold: true, size: 12 });
+  writer.textRight(money(totals.total), right, { bold: true, size: 12 });
+  writer.y -= 36;
+
+  const vatNotices = getVatNotices(totals, data.customer.vatNumber);
+  vatNotices.forEach(notice => writer.paragraph(notice, MARGIN, right - MARGIN, 9, TEXT_COLOR));
+  if (vatNotices.length > 0) writer.y -= 6;
+
+  // Payment terms
+  if (data.kind === 'invoice') {
+    const terms = data.seller.iban
+      ? `Gelieve het totaalbedrag van ${money(totals.total)} binnen ${data.paymentTermsDays} dagen over te maken op ${data.seller.iban} t.n.v. ${data.seller.name}, onder vermelding van factuurnummer ${data.number}.`
+      : `Gelieve het totaalbedrag van ${money(totals.total)} binnen ${data.paymentTermsDays} dagen te voldoen, onder vermelding van factuurnummer ${data.number}.`;
+    writer.paragraph(terms, MARGIN, right - MARGIN, 9, MUTED_COLOR);
+    if (data.paymentUrl) {
+      writer.y -= 4;
+      writer.paragraph(`Betaal direct online via iDEAL, Bancontact of creditcard:\n${data.paymentUrl}`, MARGIN, right - MARGIN, 9, ACCENT_COLOR);
+    }
+  } else if (data.kind === 'offer') {
+    const validity = data.dueDate ? ` Deze offerte is geldig tot ${formatDate(data.dueDate)}.` : '';
+    writer.paragraph(
+      `Na akkoord factureren wij met een betalingstermijn van ${data.paymentTermsDays} dagen.${validity}`,
+      MARGIN,
+      right - MARGIN,
+      9,
+      MUTED_COLOR
+    );
+  } else {
+    writer.paragraph('Het gecrediteerde bedrag wordt verrekend of teruggestort.', MARGIN, right - MARGIN, 9, MUTED_COLOR);
+  }
+
+  if (data.notes) {
+    writer.y -= 10;
+    writer.paragraph(data.notes, MARGIN, right - MARGIN, 9, MUTED_COLOR);
+  }
+
+  return doc.save();
+}
@@ -0,0 +1,211 @@
+// Load an offer or invoice, render its PDF and store it in Supabase storage
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { DEFAULT_PAYMENT_TERMS_DAYS, getOutstandingAmount, parseInvoiceItems } from '../invoices';
+import { logger } from '../logger';
+import { fetchPublicUrl } from '../public-fetch';
+import { normalizeVatRate } from '../vat';
+import { renderDocumentPdf, type PdfDocumentData, type PdfLogo, type PdfParty } from './document-pdf';
+import { pdfBucket, pdfDownloadPath, pdfStoragePath, type PdfSource } from './storage';
+import type { Invoice } from '../../types/api/invoice';
+import type { Offer } from '../../types/api/offer';
+
+export type { PdfSource } from './storage';
+
+export interface PdfOrganization {
+  name: string;
+  logo_url: string | null;
+  address: Record<string, string> | null;
+  vat_number: string | null;
+  iban: string | null;
+  payment_terms_days: number | null;
+}
+
+export interface PdfCustomer {
+  name: string;
+  email: string | null;
+  company: string | null;
+  address: Record<string, string> | null;
+  vat_number: string | null;
+  // Contact person of the offer or invoice, printed as "t.a.v." with their email
+  contact?: { name: string; email: string | null } | null;
+}
+
+export interface StoredPdf {
+  // Authenticated download route, see lib/pdf/storage
+  pdfUrl: string;
+  fileName: string;
+  bytes: Uint8Array;
+}
+
+const ORGANIZATION_COLUMNS = 'name, logo_url, address, vat_number, iban, payment_terms_days';
+const CUSTOMER_COLUMNS = 'name, email, company, address, vat_number';
+
+const toSeller = (organization: PdfOrganization): PdfParty => ({
+  name: organization.name,
+  address: organization.address,
+  vatNumber: organization.vat_number,
+  iban: organization.iban,
+});
+
+const toCustomer = (fallbackName: string, customer: PdfCustomer | null): PdfParty => ({
+  name: customer?.company || customer?.name || fallbackName,
+  attention: customer?.contact?.name,
+  address: customer?.address,
+  email: customer?.contact?.email || customer?.email,
+  vatNumber: customer?.vat_number,
+});
+
+export const offerNumber = (offer: Pick<Offer, 'id'>): string => offer.id.slice(0, 8).toUpperCase();
+
+export const buildOfferPdfData = (
+  offer: Offer,
+  organization: PdfOrganization,
+  customer: PdfCustomer | null,
+  logo: PdfLogo | null = null
+): PdfDocumentData => ({
+  kind: 'offer',
+  number: offerNumber(offer),
+  title: offer.title,
+  description: offer.terms?.description,
+  issueDate: offer.created_at,
+  dueDate: offer.due_date,
+  currency: offer.currency,
+  seller: toSeller(organization),
+  logo,
+  customer: toCustomer(offer.client_name, customer),
+  items: (offer.products || []).map(product => ({
+    name: product.name,
+    description: product.description,
+    quantity: product.quantity,
+    price: product.price,
+    vatRate: normalizeVatRate(product.vat_rate),
+  })),
+  paymentTermsDays: organization.payment_terms_days ?? DEFAULT_PAYMENT_TERMS_DAYS,
+});
+
+// Drafts are numbered when they are sent; a preview before that shows this instead
+const DRAFT_INVOICE_NUMBER = 'Concept';
+
+export const buildInvoicePdfData = (
+  invoice: Invoice,
+  organization: PdfOrganization,
+  customer: PdfCustomer | null,
+  logo: PdfLogo | null = null
+): PdfDocumentData => ({
+  kind: invoice.invoice_type === 'credit_note' ? 'credit_note' : 'invoice',
+  number: invoice.invoice_number ?? DRAFT_INVOICE_NUMBER,
+  title: invoice.title || `Factuur ${invoice.invoice_number ?? DRAFT_INVOICE_NUMBER}`,
+  description: invoice.description,
+  issueDate: invoice.created_at,
+  dueDate: invoice.due_date,
+  currency: invoice.currency,
+  seller: toSeller(organization),
+  logo,
+  customer: toCustomer(customer?.name || '', customer),
+  items: parseInvoiceItems(invoice.items).map(item => ({
+    name: item.name,
+    description: item.description,
+    quantity: item.quantity,
+    price: item.price,
+    vatRate: normalizeVatRate(item.vat_rate),
+  })),
+  paymentTermsDays: organization.payment_terms_days ?? DEFAULT_PAYMENT_TERMS_DAYS,
+  paymentUrl: getOutstandingAmount(invoice) > 0 ? invoice.payment_url : null,
+});
+
+const MAX_LOGO_BYTES = 2 * 1024 * 1024;
+const LOGO_TIMEOUT_MS = 5 * 1000;
+const LOGO_MIME_TYPES = ['image/png', 'image/jpeg'];
+
+// A missing or unreachable logo should never block the PDF. logo_url is set by the organization,
+// so it is fetched like a webhook: public hosts only, no redirects, and a capped size and type.
+async function fetchLogo(logoUrl: string | null): Promise<PdfLogo | null> {
+  if (!logoUrl) return null;
+
+  try {
+    const response = await fetchPublicUrl(logoUrl, {
+      signal: AbortSignal.timeout(LOGO_TIMEOUT_MS),
+      maxBytes: MAX_LOGO_BYTES,
+    });
+    const mimeType = String(response.headers['content-type'] || '').split(';')[0].trim().toLowerCase();
+    if (response.status !== 200 || response.truncated || !LOGO_MIME_TYPES.includes(mimeType)) {
+      logger.warn('Skipping organization logo', 'pdf', { logoUrl, status: response.status, mimeType, truncated: response.truncated });
+      return null;
+    }
+    return { bytes: new Uint8Array(response.body), mimeType };
+  } catch (error) {
+    logger.warn('Failed to fetch organization logo', 'pdf', { logoUrl, error });
+    return null;
+  }
+}
+
+/**
+ * Render the PDF for an offer or invoice, upload it to the matching private bucket
+ * and write its download route back to pdf_url.
+ */
+export async function generateAndStorePdf(
+  supabase: SupabaseClient,
+  source: PdfSource,
+  id: string,
+  organizationId: string
+): Promise<StoredPdf> {
+  const table = pdfBucket(source);
+
+  const { data: record, error } = await supabase
+    .from(table)
+    .select('*')
+    .eq('id', id)
+    .eq('organization_id', organizationId)
+    .single();
+
+  if (error || !record) {
+    throw new Error(`${source} ${id} not found`);
+  }
+
+  const { data: organization, error: organizationError } = await supabase
+    .from('organizations')
+    .select(ORGANIZATION_COLUMNS)
+    .eq('id', organizationId)
+    .single();
+
+  if (organizationError || !organization) {
+    throw new Error(`organization ${organizationId} not found`);
+  }
+
+  const customerId = source === 'offer' ? record.client_id : record.customer_id;
+  const { data: customer } = customerId
+    ? await supabase.from('customers').select(CUSTOMER_COLUMNS).eq('id', customerId).single()
+    : { data: null };
+  const { data: contact } = customer && record.contact_id
+    ? await supabase.from('customer_contacts').select('name, email').eq('id', record.contact_id).maybeSingle()
+    : { data: null };
+  const recipient = customer ? { ...customer, contact } : null;
+
+  const logo = await fetchLogo(organization.logo_url);
+  const data = source === 'offer'
+    ? buildOfferPdfData(record, organization, recipient, logo)
+    : buildInvoicePdfData(record, organization, recipient, logo);
+  const bytes = await renderDocumentPdf(data);
+
+  const { error: uploadError } = await supabase.storage
+    .from(table)
+    .upload(pdfStoragePath(id), bytes, {
+      contentType: 'application/pdf',
+      cacheControl: '3600',
+      upsert: true
+    });
+
+  if (uploadError) {
+    throw uploadError;
+  }
+
+  const pdfUrl = pdfDownloadPath(source, id);
+  await supabase.from(table).update({ pdf_url: pdfUrl }).eq('id', id);
+
+  return {
+    pdfUrl,
+    fileName: `${source === 'offer' ? 'offerte' : 'factuur'}-${data.number}.pdf`,
+    bytes,
+  };
+}
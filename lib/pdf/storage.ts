@@ -0,0 +1,30 @@
+// Where offer and invoice PDFs live in Supabase storage and how they are handed out.
+// The buckets are private: the dashboard and the offer portal download through routes that
+// check access and redirect to a short-lived signed URL, emails carry a signed URL of their own.
+
+import { SupabaseClient } from '@supabase/supabase-js';
+
+export type PdfSource = 'offer' | 'invoice';
+
+// Long enough to open the redirect, too short to share the link
+export const PDF_DOWNLOAD_EXPIRY_SECONDS = 60;
+// Download links in invoice emails and payment reminders
+export const PDF_EMAIL_LINK_EXPIRY_SECONDS = 14 * 24 * 60 * 60;
+
+export const pdfBucket = (source: PdfSource): string => (source === 'offer' ? 'offers' : 'invoices');
+
+export const pdfStoragePath = (id: string): string => `public/${id}.pdf`;
+
+// Stored in pdf_url: the authenticated route that serves the PDF
+export const pdfDownloadPath = (source: PdfSource, id: string): string => `/api/${pdfBucket(source)}/${id}/pdf`;
+
+export async function createPdfSignedUrl(
+  supabase: SupabaseClient,
+  source: PdfSource,
+  id: string,
+  expiresIn: number = PDF_DOWNLOAD_EXPIRY_SECONDS
+): Promise<string> {
+  const { data, error } = await supabase.storage.from(pdfBucket(source)).createSignedUrl(pdfStoragePath(id), expiresIn);
+  if (error || !data) throw error || new Error(`No signed URL for ${source} ${id}`);
+  return data.signedUrl;
+}
@@ -0,0 +1,13 @@
+// Errors thrown by the public API helpers; handleApiError turns them into the error envelope
+
+export class PublicApiError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly code: string,
+    message: string,
+    public readonly details?: { path: string; message: string }[]
+  ) {
+    super(message);
+    this.name = 'PublicApiError';
+  }
+}
@@ -0,0 +1,71 @@
+// Response envelope and request helpers for the public API (/api/v1).
+// Success: { data } or { data, pagination }. Failure: { error: { code, message, details? } }.
+
+import { NextResponse } from 'next/server';
+import { ZodError, type ZodTypeAny, type z } from 'zod';
+import { authenticateRequest } from '../auth/request';
+import type { ApiScope } from '../auth/api-keys';
+import type { Permission } from '../auth/permissions';
+import { PublicApiError } from './errors';
+
+export { PublicApiError };
+
+export const apiData = <T>(data: T, status = 200) => NextResponse.json({ data }, { status });
+
+export const apiPage = <T>(page: { data: T[]; pagination: unknown }) => NextResponse.json(page);
+
+export const apiError = (error: PublicApiError) =>
+  NextResponse.json(
+    { error: { code: error.code, message: error.message, ...(error.details ? { details: error.details } : {}) } },
+    { status: error.status }
+  );
+
+export const notFound = (resource: string) => new PublicApiError(404, 'not_found', `${resource} not found`);
+
+// Ids that are not UUIDs cannot exist, so they get the same 404 as unknown ids
+export const resourceId = (params: { id: string }, resource: string): string => {
+  if (!/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(params.id)) {
+    throw notFound(resource);
+  }
+  return params.id;
+};
+
+export const validationError = (error: ZodError, source: 'query' | 'body') =>
+  new PublicApiError(
+    400,
+    'validation_failed',
+    source === 'query' ? 'Invalid query parameters' : 'Invalid request body',
+    error.issues.map(issue => ({ path: issue.path.join('.'), message: issue.message }))
+  );
+
+export function parseQuery<S extends ZodTypeAny>(request: Request, schema: S): z.output<S> {
+  const params = Object.fromEntries(new URL(request.url).searchParams.entries());
+  const result = schema.safeParse(params);
+  if (!result.success) throw validationError(result.error, 'query');
+  return result.data;
+}
+
+export async function parseBody<S extends ZodTypeAny>(request: Request, schema: S): Promise<z.output<S>> {
+  const body = await request.json().catch(() => {
+    throw new PublicApiError(400, 'invalid_json', 'Request body must be valid JSON');
+  });
+  const result = schema.safeParse(body);
+  if (!result.success) throw validationError(result.error, 'body');
+  return result.data;
+}
+
+export async function requireApiAuth(request: Request, scope: ApiScope, permission?: Permission) {
+  const auth = await authenticateRequest(request, scope, permission);
+  if (auth.error !== undefined) {
+    throw new PublicApiError(auth.status, auth.status === 401 ? 'unauthorized' : 'forbidden', auth.error);
+  }
+  return auth;
+}
+
+// Unexpected errors are logged and hidden behind a generic message
+export function handleApiError(error: unknown, route: string) {
+  if (error instanceof PublicApiError) return apiError(error);
+
+  console.error(`Error in ${route}:`, error);
+  return apiError(new PublicApiError(500, 'internal_error', 'Internal server error'));
+}
@@ -0,0 +1,161 @@
+// OpenAPI 3 document for /api/v1, generated from the zod schemas in ./schemas
+
+import { OpenAPIRegistry, OpenApiGeneratorV3, type ResponseConfig, type RouteConfig } from '@asteasolutions/zod-to-openapi';
+import type { AnyZodObject, ZodTypeAny } from 'zod';
+import type { ApiScope } from '../auth/api-keys';
+import {
+  activityListQuerySchema,
+  activitySchema,
+  customerCreateSchema,
+  customerListQuerySchema,
+  customerSchema,
+  customerUpdateSchema,
+  errorSchema,
+  idParamsSchema,
+  invoiceCreateSchema,
+  invoiceListQuerySchema,
+  invoiceSchema,
+  invoiceUpdateSchema,
+  itemEnvelope,
+  listEnvelope,
+  offerCreateSchema,
+  offerListQuerySchema,
+  offerSchema,
+  offerUpdateSchema,
+} from './schemas';
+
+export const API_VERSION = '1.0.0';
+
+const json = (schema: ZodTypeAny, description: string): ResponseConfig => ({
+  description,
+  content: { 'application/json': { schema } },
+});
+
+const errorResponses: Record<number, ResponseConfig> = {
+  400: json(errorSchema, 'Invalid request'),
+  401: json(errorSchema, 'Missing, invalid, revoked or expired API key'),
+  403: json(errorSchema, 'The API key does not have the required scope'),
+};
+
+interface ResourceDefinition {
+  path: string;
+  tag: string;
+  name: string;
+  schema: ZodTypeAny;
+  listQuery: AnyZodObject;
+  createBody?: ZodTypeAny;
+  updateBody?: ZodTypeAny;
+  scope: 'customers' | 'offers' | 'invoices';
+}
+
+const withScope = (route: RouteConfig, scope: ApiScope): RouteConfig => ({
+  ...route,
+  description: `${route.description ? `${route.description}\n\n` : ''}Requires the \`${scope}\` scope.`,
+});
+
+function registerResource(registry: OpenAPIRegistry, resource: ResourceDefinition) {
+  const read: ApiScope = `${resource.scope}:read`;
+  const write: ApiScope = `${resource.scope}:write`;
+  const itemPath = `${resource.path}/{id}`;
+  const notFound = { 404: json(errorSchema, `${resource.name} not found`) };
+
+  registry.registerPath(withScope({
+    method: 'get',
+    path: resource.path,
+    tags: [resource.tag],
+    summary: `List ${resource.tag.toLowerCase()}`,
+    request: { query: resource.listQuery },
+    responses: { 200: json(listEnvelope(resource.schema), `A page of ${resource.tag.toLowerCase()}`), ...errorResponses },
+  }, read));
+
+  if (resource.createBody) {
+    registry.registerPath(withScope({
+      method: 'post',
+      path: resource.path,
+      tags: [resource.tag],
+      summary: `Create a ${resource.name.toLowerCase()}`,
+      request: { body: { content: { 'application/json': { schema: resource.createBody } } } },
+      responses: { 201: json(itemEnvelope(resource.schema), `The created ${resource.name.toLowerCase()}`), ...errorResponses },
+    }, write));
+  }
+
+  registry.registerPath(withScope({
+    method: 'get',
+    path: itemPath,
+    tags: [resource.tag],
+    summary: `Get a ${resource.name.toLowerCase()}`,
+    request: { params: idParamsSchema },
+    responses: { 200: json(itemEnvelope(resource.schema), resource.name), ...errorResponses, ...notFound },
+  }, read));
+
+  if (resource.updateBody) {
+    registry.registerPath(withScope({
+      method: 'patch',
+      path: itemPath,
+      tags: [resource.tag],
+      summary: `Update a ${resource.name.toLowerCase()}`,
+      description: 'Only the fields in the body are changed.',
+      request: { params: idParamsSchema, body: { content: { 'application/json': { schema: resource.updateBody } } } },
+      responses: { 200: json(itemEnvelope(resource.schema), `The updated ${resource.name.toLowerCase()}`), ...errorResponses, ...notFound },
+    }, write));
+
+    registry.registerPath(withScope({
+      method: 'delete',
+      path: itemPath,
+      tags: [resource.tag],
+      summary: `Delete a ${resource.name.toLowerCase()}`,
+      request: { params: idParamsSchema },
+      responses: { 204: { description: 'Deleted' }, ...errorResponses, ...notFound },
+    }, write));
+  }
+}
+
+export function generateOpenApiDocument(serverUrl: string) {
+  const registry = new OpenAPIRegistry();
+
+  const bearerAuth = registry.registerComponent('securitySchemes', 'bearerAuth', {
+    type: 'http',
+    scheme: 'bearer',
+    description: 'An API key created under Instellingen → API Keys, e.g. `Authorization: Bearer qf_...`',
+  });
+
+  registerResource(registry, {
+    path: '/customers', tag: 'Customers', name: 'Customer', scope: 'customers',
+    schema: customerSchema, listQuery: customerListQuerySchema,
+    createBody: customerCreateSchema, updateBody: customerUpdateSchema,
+  });
+  registerResource(registry, {
+    path: '/offers', tag: 'Offers', name: 'Offer', scope: 'offers',
+    schema: offerSchema, listQuery: offerListQuerySchema,
+    createBody: offerCreateSchema, updateBody: offerUpdateSchema,
+  });
+  registerResource(registry, {
+    path: '/invoices', tag: 'Invoices', name: 'Invoice', scope: 'invoices',
+    schema: invoiceSchema, listQuery: invoiceListQuerySchema,
+    createBody: invoiceCreateSchema, updateBody: invoiceUpdateSchema,
+  });
+
+  registry.registerPath(withScope({
+    method: 'get',
+    path: '/activity',
+    tags: ['Activity'],
+    summary: 'List activity',
+    description: 'Everything that happened in the organization, newest first.',
+    request: { query: activityListQuerySchema },
+    responses: { 200: json(listEnvelope(activitySchema), 'A page of activity'), ...errorResponses },
+  }, 'activity:read'));
+
+  const document = new OpenApiGeneratorV3(registry.definitions).generateDocument({
+    openapi: '3.0.3',
+    info: {
+      title: 'QuoteFast API',
+      version: API_VERSION,
+      description: 'Customers, offers, invoices and activity of your organization. Lists are paginated with ' +
+        '`limit` and `cursor`; pass `pagination.next_cursor` from a response to get the next page.',
+    },
+    servers: [{ url: serverUrl }],
+    security: [{ [bearerAuth.name]: [] }],
+  });
+
+  return document;
+}
@@ -0,0 +1,109 @@
+// Cursor pagination for the public API. Pages are keyed on (sort field, id), so rows
+// created or deleted while paging never cause duplicates or skipped rows.
+// Sort fields must be NOT NULL columns, otherwise the keyset comparison drops rows.
+
+import { PublicApiError } from './errors';
+
+export interface SortOrder {
+  field: string;
+  ascending: boolean;
+}
+
+interface Cursor {
+  sort: string;
+  value: string | number;
+  id: string;
+}
+
+export interface Page<T> {
+  data: T[];
+  pagination: {
+    limit: number;
+    has_more: boolean;
+    next_cursor: string | null;
+  };
+}
+
+// The query builder methods pagination needs
+interface PageableQuery<Q> {
+  order(column: string, options: { ascending: boolean }): Q;
+  or(filters: string): Q;
+  limit(count: number): Q;
+}
+
+// "-created_at" sorts newest first
+export const parseSort = (sort: string): SortOrder =>
+  sort.startsWith('-') ? { field: sort.slice(1), ascending: false } : { field: sort, ascending: true };
+
+export const encodeCursor = (cursor: Cursor): string =>
+  Buffer.from(JSON.stringify([cursor.sort, cursor.value, cursor.id])).toString('base64url');
+
+export function decodeCursor(value: string, sort: string): Cursor {
+  try {
+    const [cursorSort, cursorValue, id] = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    if (
+      cursorSort === sort &&
+      (typeof cursorValue === 'string' || typeof cursorValue === 'number') &&
+      typeof id === 'string'
+    ) {
+      return { sort, value: cursorValue, id };
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new PublicApiError(400, 'invalid_cursor', 'The cursor is invalid or belongs to a different sort order');
+}
+
+// PostgREST filter values are quoted so commas, dots and colons in timestamps survive
+export const quoteFilterValue = (value: string | number): string =>
+  `"${String(value).replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+
+// Rows after the cursor: sort value past it, or the same sort value with a later id
+export const cursorFilter = (order: SortOrder, cursor: Cursor): string => {
+  const operator = order.ascending ? 'gt' : 'lt';
+  const value = quoteFilterValue(cursor.value);
+  return `${order.field}.${operator}.${value},and(${order.field}.eq.${value},id.${operator}.${quoteFilterValue(cursor.id)})`;
+};
+
+/**
+ * Order the query, continue after `cursor` and fetch one row more than the page size,
+ * which tells toPage whether there is a next page.
+ */
+export function paginateQuery<Q extends PageableQuery<Q>>(
+  query: Q,
+  options: { sort: string; limit: number; cursor?: string }
+): Q {
+  const order = parseSort(options.sort);
+  let paged = query
+    .order(order.field, { ascending: order.ascending })
+    .order('id', { ascending: order.ascending });
+
+  if (options.cursor) {
+    paged = paged.or(cursorFilter(order, decodeCursor(options.cursor, options.sort)));
+  }
+
+  return paged.limit(options.limit + 1);
+}
+
+// The cursor is taken from the database row, before it is serialized for the response
+export function toPage<T extends { id: string }, R>(
+  rows: T[],
+  options: { sort: string; limit: number },
+  serialize: (row: T) => R
+): Page<R> {
+  const hasMore = rows.length > options.limit;
+  const pageRows = rows.slice(0, options.limit);
+  const last = pageRows[pageRows.length - 1];
+  const { field } = parseSort(options.sort);
+
+  return {
+    data: pageRows.map(serialize),
+    pagination: {
+      limit: options.limit,
+      has_more: hasMore,
+      next_cursor: hasMore && last
+        ? encodeCursor({ sort: options.sort, value: (last as Record<string, unknown>)[field] as string | number, id: last.id })
+        : null,
+    },
+  };
+}
@@ -0,0 +1,212 @@
+// Listing and serializing the resources of the public API. Responses only contain the
+// documented fields, so internal columns (portal tokens, Stripe ids) never leak.
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { parseInvoiceItems } from '../invoices';
+import { usesReverseCharge, type VatLineInput } from '../vat';
+import { isValidVatNumber } from '../../validators/vat-number';
+import { PublicApiError } from './errors';
+import { paginateQuery, toPage, type Page } from './pagination';
+import type { z } from 'zod';
+import type {
+  activityListQuerySchema,
+  activitySchema,
+  customerListQuerySchema,
+  customerSchema,
+  invoiceListQuerySchema,
+  invoiceSchema,
+  offerListQuerySchema,
+  offerSchema,
+} from './schemas';
+
+type Row = { id: string; [column: string]: any };
+type ApiCustomer = z.infer<typeof customerSchema>;
+type ApiOffer = z.infer<typeof offerSchema>;
+type ApiInvoice = z.infer<typeof invoiceSchema>;
+type ApiActivity = z.infer<typeof activitySchema>;
+
+export const CUSTOMER_COLUMNS = 'id, name, email, phone, company, address, status, source, vat_number, created_at, updated_at';
+export const OFFER_COLUMNS = 'id, title, client_name, client_id, contact_id, amount, vat_amount, total, currency, status, due_date, terms, products, viewed_at, created_at, updated_at';
+export const INVOICE_COLUMNS = 'id, invoice_number, offer_id, customer_id, contact_id, title, description, items, amount, vat_amount, total, currency, status, invoice_type, due_date, paid_at, payment_url, created_at, updated_at';
+export const ACTIVITY_COLUMNS = 'id, user_id, action, resource_type, resource_id, metadata, created_at';
+
+// DECIMAL columns arrive as strings or numbers depending on the driver
+const toNumber = (value: unknown): number => Number(value) || 0;
+const toNullableNumber = (value: unknown): number | null => (value === null || value === undefined ? null : Number(value));
+
+export const serializeCustomer = (row: Row): ApiCustomer => ({
+  id: row.id,
+  name: row.name,
+  email: row.email ?? null,
+  phone: row.phone ?? null,
+  company: row.company ?? null,
+  address: row.address ?? null,
+  status: row.status ?? 'lead',
+  source: row.source ?? null,
+  vat_number: row.vat_number ?? null,
+  created_at: row.created_at,
+  updated_at: row.updated_at,
+});
+
+export const serializeOffer = (row: Row): ApiOffer => ({
+  id: row.id,
+  title: row.title,
+  client_name: row.client_name,
+  client_id: row.client_id ?? null,
+  contact_id: row.contact_id ?? null,
+  amount: toNumber(row.amount),
+  vat_amount: toNumber(row.vat_amount),
+  total: toNullableNumber(row.total),
+  currency: row.currency ?? 'EUR',
+  status: row.status,
+  due_date: row.due_date ?? null,
+  terms: row.terms ?? null,
+  products: Array.isArray(row.products) ? row.products : [],
+  viewed_at: row.viewed_at ?? null,
+  created_at: row.created_at,
+  updated_at: row.updated_at,
+});
+
+export const serializeInvoice = (row: Row): ApiInvoice => ({
+  id: row.id,
+  invoice_number: row.invoice_number ?? null,
+  offer_id: row.offer_id ?? null,
+  customer_id: row.customer_id ?? null,
+  contact_id: row.contact_id ?? null,
+  title: row.title ?? null,
+  description: row.description ?? null,
+  items: parseInvoiceItems(row.items),
+  amount: toNumber(row.amount),
+  vat_amount: toNumber(row.vat_amount),
+  total: toNullableNumber(row.total),
+  currency: row.currency ?? 'EUR',
+  status: row.status,
+  invoice_type: row.invoice_type ?? 'full',
+  due_date: row.due_date,
+  paid_at: row.paid_at ?? null,
+  payment_url: row.payment_url ?? null,
+  created_at: row.created_at,
+  updated_at: row.updated_at,
+});
+
+export const serializeActivity = (row: Row): ApiActivity => ({
+  id: row.id,
+  user_id: row.user_id ?? null,
+  action: row.action,
+  resource_type: row.resource_type ?? null,
+  resource_id: row.resource_id ?? null,
+  metadata: row.metadata ?? null,
+  created_at: row.created_at,
+});
+
+interface ListOptions {
+  limit: number;
+  sort: string;
+  cursor?: string;
+  created_after?: string;
+  created_before?: string;
+}
+
+// Characters with a meaning in PostgREST filters or LIKE patterns are dropped from searches
+const searchTerm = (value: string): string => value.replace(/[%_,.()"\\*]/g, ' ').trim();
+
+async function listPage(
+  supabase: SupabaseClient,
+  table: string,
+  columns: string,
+  organizationId: string,
+  options: ListOptions,
+  filter: (query: any) => any,
+  serialize: (row: Row) => any
+): Promise<Page<any>> {
+  let query = supabase.from(table).select(columns).eq('organization_id', organizationId);
+
+  if (options.created_after) query = query.gte('created_at', options.created_after);
+  if (options.created_before) query = query.lt('created_at', options.created_before);
+
+  const { data, error } = await paginateQuery(filter(query), options);
+  if (error) throw error;
+
+  return toPage((data || []) as unknown as Row[], options, serialize);
+}
+
+export const listCustomers = (
+  supabase: SupabaseClient,
+  organizationId: string,
+  options: z.infer<typeof customerListQuerySchema>
+): Promise<Page<ApiCustomer>> =>
+  listPage(supabase, 'customers', CUSTOMER_COLUMNS, organizationId, options, query => {
+    if (options.status) query = query.eq('status', options.status);
+    const term = options.q ? searchTerm(options.q) : '';
+    if (term) query = query.or(`name.ilike.*${term}*,email.ilike.*${term}*,company.ilike.*${term}*`);
+    return query;
+  }, serializeCustomer);
+
+export const listOffers = (
+  supabase: SupabaseClient,
+  organizationId: string,
+  options: z.infer<typeof offerListQuerySchema>
+): Promise<Page<ApiOffer>> =>
+  listPage(supabase, 'offers', OFFER_COLUMNS, organizationId, options, query => {
+    if (options.status) query = query.eq('status', options.status);
+    if (options.client_id) query = query.eq('client_id', options.client_id);
+    return query;
+  }, serializeOffer);
+
+export const listInvoices = (
+  supabase: SupabaseClient,
+  organizationId: string,
+  options: z.infer<typeof invoiceListQuerySchema>
+): Promise<Page<ApiInvoice>> =>
+  listPage(supabase, 'invoices', INVOICE_COLUMNS, organizationId, options, query => {
+    if (options.status) query = query.eq('status', options.status);
+    if (options.customer_id) query = query.eq('customer_id', options.customer_id);
+    if (options.offer_id) query = query.eq('offer_id', options.offer_id);
+    return query;
+  }, serializeInvoice);
+
+export const listActivity = (
+  supabase: SupabaseClient,
+  organizationId: string,
+  options: z.infer<typeof activityListQuerySchema>
+): Promise<Page<ApiActivity>> =>
+  listPage(supabase, 'activity_log', ACTIVITY_COLUMNS, organizationId, options, query => {
+    if (options.action) query = query.eq('action', options.action);
+    if (options.resource_type) query = query.eq('resource_type', options.resource_type);
+    if (options.resource_id) query = query.eq('resource_id', options.resource_id);
+    return query;
+  }, serializeActivity);
+
+// Customers referenced from offers and invoices must belong to the same organization
+export async function findCustomer(
+  supabase: SupabaseClient,
+  organizationId: string,
+  customerId: string
+): Promise<{ id: string; vat_number: string | null }> {
+  const { data: customer, error } = await supabase
+    .from('customers')
+    .select('id, vat_number')
+    .eq('id', customerId)
+    .eq('organization_id', organizationId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!customer) {
+    throw new PublicApiError(400, 'customer_not_found', `Customer ${customerId} does not exist`);
+  }
+  return customer;
+}
+
+// Reverse-charge lines are only allowed for business customers with a valid VAT number
+export const assertReverseChargeAllowed = (
+  items: VatLineInput[],
+  customer: { vat_number: string | null } | null
+): void => {
+  if (usesReverseCharge(items) && !(customer?.vat_number && isValidVatNumber(customer.vat_number))) {
+    throw new PublicApiError(
+      400,
+      'reverse_charge_not_allowed',
+      'Reverse-charge VAT requires a customer with a valid VAT number'
+    );
+  }
+};
@@ -0,0 +1,232 @@
+// Request and response schemas of the public API (/api/v1). The same schemas validate
+// input in the routes and generate the OpenAPI document, so the two cannot drift apart.
+
+import { z } from 'zod';
+import { extendZodWithOpenApi } from '@asteasolutions/zod-to-openapi';
+import { VAT_RATE_OPTIONS, type VatRate } from '../vat';
+import { CUSTOMER_STATUSES } from '../customers';
+import { INVOICE_STATUSES } from '../invoices';
+import { OFFER_STATUSES } from '../offers';
+import { vatNumberSchema } from '../../validators/vat-number';
+import type { CustomerStatus } from '../../types/api/customer';
+import type { InvoiceStatus } from '../../types/api/invoice';
+import type { OfferStatus } from '../../types/api/offer';
+
+extendZodWithOpenApi(z);
+
+export const MAX_PAGE_SIZE = 100;
+export const DEFAULT_PAGE_SIZE = 25;
+
+const INVOICE_TYPES = ['full', 'deposit', 'final', 'credit_note'] as const;
+const CURRENCIES = ['EUR', 'USD'] as const;
+
+const id = z.string().uuid();
+const timestamp = z.string().openapi({ format: 'date-time', example: '2026-03-01T12:00:00Z' });
+const date = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected a date as YYYY-MM-DD').openapi({ format: 'date', example: '2026-03-31' });
+const vatRate = z.enum(VAT_RATE_OPTIONS as [VatRate, ...VatRate[]]);
+const customerStatus = z.enum(CUSTOMER_STATUSES as [CustomerStatus, ...CustomerStatus[]]);
+const offerStatus = z.enum(OFFER_STATUSES as [OfferStatus, ...OfferStatus[]]);
+const invoiceStatus = z.enum(INVOICE_STATUSES as [InvoiceStatus, ...InvoiceStatus[]]);
+
+// Shared envelope pieces
+
+export const errorSchema = z.object({
+  error: z.object({
+    code: z.string().openapi({ example: 'validation_failed' }),
+    message: z.string(),
+    details: z.array(z.object({ path: z.string(), message: z.string() })).optional(),
+  }),
+}).openapi('Error');
+
+export const paginationSchema = z.object({
+  limit: z.number().int(),
+  has_more: z.boolean(),
+  next_cursor: z.string().nullable().openapi({ description: 'Pass as `cursor` to fetch the next page' }),
+}).openapi('Pagination');
+
+export const itemEnvelope = <T extends z.ZodTypeAny>(schema: T) => z.object({ data: schema });
+
+export const listEnvelope = <T extends z.ZodTypeAny>(schema: T) =>
+  z.object({ data: z.array(schema), pagination: paginationSchema });
+
+export const idParamsSchema = z.object({ id: id.openapi({ param: { name: 'id', in: 'path' } }) });
+
+const listQuery = <S extends string>(sortFields: readonly [S, ...S[]]) => z.object({
+  limit: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).default(DEFAULT_PAGE_SIZE),
+  cursor: z.string().optional(),
+  sort: z
+    .enum([...sortFields, ...sortFields.map(field => `-${field}`)] as [string, ...string[]])
+    .default(`-${sortFields[0]}`)
+    .openapi({ description: 'Field to sort on; prefix with - for descending' }),
+  created_after: timestamp.optional(),
+  created_before: timestamp.optional(),
+});
+
+// Customers
+
+export const customerSchema = z.object({
+  id,
+  name: z.string(),
+  email: z.string().nullable(),
+  phone: z.string().nullable(),
+  company: z.string().nullable(),
+  address: z.record(z.unknown()).nullable(),
+  status: customerStatus,
+  source: z.string().nullable(),
+  vat_number: z.string().nullable(),
+  created_at: timestamp,
+  updated_at: timestamp,
+}).openapi('Customer');
+
+export const customerCreateSchema = z.object({
+  name: z.string().trim().min(1).max(200),
+  email: z.string().trim().email(),
+  phone: z.string().trim().max(50).nullish(),
+  company: z.string().trim().max(200).nullish(),
+  address: z.record(z.unknown()).nullish(),
+  status: customerStatus.optional(),
+  source: z.string().trim().max(100).nullish(),
+  vat_number: vatNumberSchema.nullish(),
+}).strict().openapi('CustomerCreate');
+
+export const customerUpdateSchema = customerCreateSchema.partial().strict().openapi('CustomerUpdate');
+
+export const CUSTOMER_SORT_FIELDS = ['created_at', 'updated_at', 'name'] as const;
+
+export const customerListQuerySchema = listQuery(CUSTOMER_SORT_FIELDS).extend({
+  status: customerStatus.optional(),
+  q: z.string().trim().min(1).max(100).optional().openapi({ description: 'Searches name, email and company' }),
+});
+
+// Offers
+
+const offerProductSchema = z.object({
+  name: z.string().trim().min(1),
+  description: z.string().optional(),
+  quantity: z.number().nonnegative(),
+  price: z.number(),
+  vat_rate: vatRate.optional(),
+}).openapi('OfferProduct');
+
+export const offerSchema = z.object({
+  id,
+  title: z.string(),
+  client_name: z.string(),
+  client_id: id.nullable(),
+  contact_id: id.nullable().openapi({ description: 'Contact person the offer is addressed to' }),
+  amount: z.number().openapi({ description: 'Excluding VAT' }),
+  vat_amount: z.number(),
+  total: z.number().nullable(),
+  currency: z.enum(CURRENCIES),
+  status: offerStatus,
+  due_date: date.nullable(),
+  terms: z.record(z.unknown()).nullable(),
+  products: z.array(offerProductSchema),
+  viewed_at: timestamp.nullable(),
+  created_at: timestamp,
+  updated_at: timestamp,
+}).openapi('Offer');
+
+export const offerCreateSchema = z.object({
+  title: z.string().trim().min(1).max(200),
+  client_name: z.string().trim().min(1).max(200),
+  client_id: id.nullish(),
+  currency: z.enum(CURRENCIES).optional(),
+  status: offerStatus.optional(),
+  due_date: date.nullish(),
+  terms: z.record(z.unknown()).nullish(),
+  products: z.array(offerProductSchema).optional(),
+  amount: z.number().optional().openapi({ description: 'Used when the offer has no products' }),
+}).strict().refine(
+  offer => (offer.products && offer.products.length > 0) || offer.amount !== undefined,
+  { message: 'Either products or amount is required', path: ['products'] }
+).openapi('OfferCreate');
+
+export const offerUpdateSchema = offerCreateSchema.innerType().partial().strict().openapi('OfferUpdate');
+
+export const OFFER_SORT_FIELDS = ['created_at', 'updated_at', 'amount', 'title'] as const;
+
+export const offerListQuerySchema = listQuery(OFFER_SORT_FIELDS).extend({
+  status: offerStatus.optional(),
+  client_id: id.optional(),
+});
+
+// Invoices
+
+const invoiceItemSchema = z.object({
+  name: z.string().trim().min(1),
+  description: z.string().optional(),
+  quantity: z.number().nonnegative(),
+  price: z.number(),
+  vat_rate: vatRate.optional(),
+}).openapi('InvoiceItemInput');
+
+export const invoiceSchema = z.object({
+  id,
+  invoice_number: z.string().nullable().openapi({ description: 'Assigned when the invoice leaves draft' }),
+  offer_id: id.nullable(),
+  customer_id: id.nullable(),
+  contact_id: id.nullable().openapi({ description: 'Contact person the invoice is addressed to' }),
+  title: z.string().nullable(),
+  description: z.string().nullable(),
+  items: z.array(invoiceItemSchema.extend({ total: z.number() }).openapi('InvoiceItem')),
+  amount: z.number().openapi({ description: 'Excluding VAT' }),
+  vat_amount: z.number(),
+  total: z.number().nullable(),
+  currency: z.enum(CURRENCIES),
+  status: invoiceStatus,
+  invoice_type: z.enum(INVOICE_TYPES),
+  due_date: date,
+  paid_at: timestamp.nullable(),
+  payment_url: z.string().nullable(),
+  created_at: timestamp,
+  updated_at: timestamp,
+}).openapi('Invoice');
+
+export const invoiceCreateSchema = z.object({
+  customer_id: id,
+  title: z.string().trim().min(1).max(200),
+  description: z.string().max(5000).nullish(),
+  status: invoiceStatus.optional(),
+  due_date: date,
+  items: z.array(invoiceItemSchema).optional(),
+  total: z.number().optional().openapi({ description: 'Amount excluding VAT, used when the invoice has no items' }),
+}).strict().refine(
+  invoice => (invoice.items && invoice.items.length > 0) || invoice.total !== undefined,
+  { message: 'Either items or total is required', path: ['items'] }
+).openapi('InvoiceCreate');
+
+export const invoiceUpdateSchema = invoiceCreateSchema.innerType().partial().strict().openapi('InvoiceUpdate');
+
+export const INVOICE_SORT_FIELDS = ['created_at', 'updated_at', 'due_date', 'amount', 'invoice_number'] as const;
+
+export const invoiceListQuerySchema = listQuery(INVOICE_SORT_FIELDS).extend({
+  status: invoiceStatus.optional(),
+  customer_id: id.optional(),
+  offer_id: id.optional(),
+});
+
+// Activity
+
+export const activitySchema = z.object({
+  id,
+  user_id: id.nullable(),
+  action: z.string().openapi({ example: 'invoice_reminder_sent:friendly' }),
+  resource_type: z.string().nullable(),
+  resource_id: id.nullable(),
+  metadata: z.record(z.unknown()).nullable(),
+  created_at: timestamp,
+}).openapi('Activity');
+
+export const ACTIVITY_SORT_FIELDS = ['created_at'] as const;
+
+export const activityListQuerySchema = listQuery(ACTIVITY_SORT_FIELDS).extend({
+  action: z.string().max(100).optional(),
+  resource_type: z.string().max(50).optional(),
+  resource_id: id.optional(),
+});
+
+export type CustomerCreate = z.infer<typeof customerCreateSchema>;
+export type OfferCreate = z.infer<typeof offerCreateSchema>;
+export type InvoiceCreate = z.infer<typeof invoiceCreateSchema>;
+export type ListQuery = z.infer<ReturnType<typeof listQuery>>;
@@ -0,0 +1,196 @@
+// Requests to URLs that organizations configure, such as webhook endpoints and logos.
+// Every address the host resolves to is checked when the connection is made, so names that
+// point into private ranges and DNS rebinding are rejected as well as literal addresses.
+// Redirects are never followed and only the first maxBytes of a response are read.
+
+import { lookup as dnsLookup } from 'dns';
+import type { IncomingHttpHeaders } from 'http';
+import { request } from 'https';
+import { isIP, type LookupFunction } from 'net';
+
+export class UnsafeUrlError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnsafeUrlError';
+  }
+}
+
+export interface PublicFetchOptions {
+  method?: 'GET' | 'POST';
+  headers?: Record<string, string>;
+  body?: string;
+  signal?: AbortSignal;
+  // Bytes of the response body that are read; the rest is discarded and truncated is set
+  maxBytes: number;
+}
+
+export interface PublicFetchResponse {
+  status: number;
+  headers: IncomingHttpHeaders;
+  body: Buffer;
+  truncated: boolean;
+}
+
+// Network and prefix length of every IPv4 range that is not reachable on the public internet
+const NON_PUBLIC_IPV4: [string, number][] = [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10], // carrier-grade NAT
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16], // link-local, including cloud metadata at 169.254.169.254
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.0.2.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['198.51.100.0', 24],
+  ['203.0.113.0', 24],
+  ['224.0.0.0', 4], // multicast
+  ['240.0.0.0', 4], // reserved and broadcast
+];
+
+const ipv4ToNumber = (address: string): number =>
+  address.split('.').reduce((value, octet) => value * 256 + Number(octet), 0);
+
+const isPublicIPv4 = (address: string): boolean => {
+  const value = ipv4ToNumber(address);
+  return !NON_PUBLIC_IPV4.some(([network, prefix]) => {
+    const start = ipv4ToNumber(network);
+    return value >= start && value < start + 2 ** (32 - prefix);
+  });
+};
+
+// The eight 16-bit groups of an IPv6 address; a trailing dotted IPv4 part becomes the last two
+const ipv6Groups = (address: string): number[] => {
+  let value = address.split('%')[0].toLowerCase();
+  const dotted = value.match(/(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) {
+    const ipv4 = ipv4ToNumber(dotted[1]);
+    value = `${value.slice(0, -dotted[1].length)}${(ipv4 >>> 16).toString(16)}:${(ipv4 & 0xffff).toString(16)}`;
+  }
+
+  const parse = (part: string | undefined) => (part ? part.split(':').map(group => parseInt(group, 16)) : []);
+  const [head, tail] = value.split('::');
+  if (tail === undefined) return parse(head);
+
+  const start = parse(head);
+  const end = parse(tail);
+  return [...start, ...Array(8 - start.length - end.length).fill(0), ...end];
+};
+
+const embeddedIPv4 = (high: number, low: number): string => `${high >> 8}.${high & 0xff}.${low >> 8}.${low & 0xff}`;
+
+const isPublicIPv6 = (address: string): boolean => {
+  const groups = ipv6Groups(address);
+  const [first, second, third] = groups;
+
+  // IPv4-mapped (::ffff:0:0/96), IPv4-compatible (::/96) and NAT64 (64:ff9b::/96) addresses reach the IPv4 address inside
+  if (groups.slice(0, 5).every(group => group === 0) && (groups[5] === 0 || groups[5] === 0xffff)) {
+    return isPublicIPv4(embeddedIPv4(groups[6], groups[7]));
+  }
+  if (first === 0x64 && second === 0xff9b && groups.slice(2, 6).every(group => group === 0)) {
+    return isPublicIPv4(embeddedIPv4(groups[6], groups[7]));
+  }
+  // 6to4 (2002::/16) carries the IPv4 address in the second and third group
+  if (first === 0x2002) {
+    return isPublicIPv4(embeddedIPv4(second, third));
+  }
+
+  return !(
+    (first & 0xfe00) === 0xfc00 || // unique local
+    (first & 0xffc0) === 0xfe80 || // link-local
+    (first & 0xffc0) === 0xfec0 || // site-local
+    (first & 0xff00) === 0xff00 || // multicast
+    (first === 0x2001 && second === 0x0db8) // documentation
+  );
+};
+
+export const isPublicAddress = (address: string): boolean => {
+  switch (isIP(address)) {
+    case 4:
+      return isPublicIPv4(address);
+    case 6:
+      return isPublicIPv6(address);
+    default:
+      return false;
+  }
+};
+
+/**
+ * Checks a URL before it is saved or requested: https only, and no hosts inside our own network.
+ * The URL parser normalizes decimal, octal and hex IPv4 hosts, so those are checked as addresses.
+ * Host names are checked again on every request by publicLookup, after they are resolved.
+ */
+export const publicUrlError = (value: string): string | null => {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return 'URL is invalid';
+  }
+  if (url.protocol !== 'https:') return 'URL must use https';
+
+  const host = url.hostname.toLowerCase().replace(/^\[|\]$/g, '');
+  const isPublic = isIP(host)
+    ? isPublicAddress(host)
+    : host.includes('.') && !/(^|\.)(localhost|internal|local)$/.test(host.replace(/\.$/, ''));
+  return isPublic ? null : 'URL must point to a public host';
+};
+
+// Resolves the host for the connection and fails when any of its addresses is not public
+export const publicLookup: LookupFunction = (hostname, options, callback) => {
+  dnsLookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, '');
+    if (addresses.length === 0 || addresses.some(entry => !isPublicAddress(entry.address))) {
+      return callback(new UnsafeUrlError(`${hostname} does not resolve to a public address`), '');
+    }
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+/**
+ * Request a URL that passed publicUrlError over a connection that only goes to public
+ * addresses. Any status is returned as is, so a redirect is a 3xx response and not followed.
+ */
+export function fetchPublicUrl(value: string, options: PublicFetchOptions): Promise<PublicFetchResponse> {
+  const urlError = publicUrlError(value);
+  if (urlError) return Promise.reject(new UnsafeUrlError(urlError));
+
+  return new Promise((resolve, reject) => {
+    // No shared agent, so a pooled connection to an earlier address is never reused
+    const req = request(new URL(value), {
+      method: options.method ?? 'GET',
+      headers: options.headers,
+      signal: options.signal,
+      lookup: publicLookup,
+      agent: false,
+    }, response => {
+      const chunks: Buffer[] = [];
+      let size = 0;
+      const done = (truncated: boolean) => resolve({
+        status: response.statusCode ?? 0,
+        headers: response.headers,
+        body: Buffer.concat(chunks),
+        truncated,
+      });
+
+      response.on('data', (chunk: Buffer) => {
+        const remaining = options.maxBytes - size;
+        if (chunk.length > remaining) {
+          chunks.push(chunk.subarray(0, remaining));
+          done(true);
+          response.destroy();
+          return;
+        }
+        chunks.push(chunk);
+        size += chunk.length;
+      });
+      response.on('end', () => done(false));
+      response.on('error', reject);
+    });
+
+    req.on('error', reject);
+    req.end(options.body);
+  });
+}
@@ -0,0 +1,191 @@
+// Envelope encryption for credentials stored in the database (SMTP passwords, WhatsApp tokens).
+// Every secret gets its own data key; the data key is wrapped with a key encryption key
+// from SECRETS_ENCRYPTION_KEYS, so rotating that key only re-wraps data keys.
+//
+// SECRETS_ENCRYPTION_KEYS="2024-06:<base64 32 bytes>,2023-01:<base64 32 bytes>"
+// The first key encrypts; the others are only used to decrypt until rows are rotated.
+
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { logger } from './logger';
+
+const FORMAT_VERSION = 'v1';
+const PREFIX = `enc:${FORMAT_VERSION}:`;
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+const KEY_LENGTH = 32;
+
+// What the API returns instead of a stored secret; sending it back means "unchanged"
+export const SECRET_MASK = '••••••••';
+
+export class SecretsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SecretsError';
+  }
+}
+
+interface EncryptionKey {
+  id: string;
+  key: Buffer;
+}
+
+export const parseEncryptionKeys = (value: string | undefined): EncryptionKey[] =>
+  (value || '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map(entry => {
+      const separator = entry.indexOf(':');
+      const id = entry.slice(0, separator);
+      const key = Buffer.from(entry.slice(separator + 1), 'base64');
+      if (separator < 1 || !/^[\w.-]+$/.test(id) || key.length !== KEY_LENGTH) {
+        throw new SecretsError('SECRETS_ENCRYPTION_KEYS entries must look like <id>:<base64 of 32 bytes>');
+      }
+      return { id, key };
+    });
+
+const getKeys = (): EncryptionKey[] => {
+  const keys = parseEncryptionKeys(process.env.SECRETS_ENCRYPTION_KEYS);
+  if (keys.length === 0) {
+    throw new SecretsError('SECRETS_ENCRYPTION_KEYS is not configured');
+  }
+  return keys;
+};
+
+const seal = (key: Buffer, plaintext: Buffer, aad: string): string => {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  cipher.setAAD(Buffer.from(aad));
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64');
+};
+
+const open = (key: Buffer, sealed: string, aad: string): Buffer => {
+  const bytes = Buffer.from(sealed, 'base64');
+  const decipher = createDecipheriv(ALGORITHM, key, bytes.subarray(0, IV_LENGTH));
+  decipher.setAAD(Buffer.from(aad));
+  decipher.setAuthTag(bytes.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH));
+  return Buffer.concat([decipher.update(bytes.subarray(IV_LENGTH + TAG_LENGTH)), decipher.final()]);
+};
+
+interface ParsedSecret {
+  keyId: string;
+  wrappedKey: string;
+  payload: string;
+}
+
+const parseSecret = (value: string): ParsedSecret => {
+  const [keyId, wrappedKey, payload] = value.slice(PREFIX.length).split(':');
+  if (!keyId || !wrappedKey || !payload) {
+    throw new SecretsError('Malformed encrypted secret');
+  }
+  return { keyId, wrappedKey, payload };
+};
+
+const unwrapDataKey = (secret: ParsedSecret, keys: EncryptionKey[]): Buffer => {
+  const encryptionKey = keys.find(candidate => candidate.id === secret.keyId);
+  if (!encryptionKey) {
+    throw new SecretsError(`Encryption key ${secret.keyId} is not configured`);
+  }
+  return open(encryptionKey.key, secret.wrappedKey, `${PREFIX}${secret.keyId}`);
+};
+
+export const isEncryptedSecret = (value: string | null | undefined): value is string =>
+  typeof value === 'string' && value.startsWith(PREFIX);
+
+// Format: enc:v1:<key id>:<wrapped data key>:<encrypted value>
+export function encryptSecret(plaintext: string): string {
+  const [activeKey] = getKeys();
+  const dataKey = randomBytes(KEY_LENGTH);
+  const wrappedKey = seal(activeKey.key, dataKey, `${PREFIX}${activeKey.id}`);
+  const payload = seal(dataKey, Buffer.from(plaintext, 'utf8'), PREFIX);
+  return `${PREFIX}${activeKey.id}:${wrappedKey}:${payload}`;
+}
+
+// Values written before encryption was introduced are returned as they are
+export function decryptSecret(value: string | null | undefined): string | null {
+  if (!value) return null;
+  if (!isEncryptedSecret(value)) return value;
+
+  const secret = parseSecret(value);
+  try {
+    return open(unwrapDataKey(secret, getKeys()), secret.payload, PREFIX).toString('utf8');
+  } catch (error) {
+    if (error instanceof SecretsError) throw error;
+    throw new SecretsError('Secret could not be decrypted');
+  }
+}
+
+// Plaintext rows and rows wrapped with an older key
+export const needsRotation = (value: string | null | undefined): boolean => {
+  if (!value) return false;
+  if (!isEncryptedSecret(value)) return true;
+  return parseSecret(value).keyId !== getKeys()[0].id;
+};
+
+/**
+ * Bring a stored value up to date: encrypt plaintext, or re-wrap the data key of
+ * a value encrypted under an older key. The encrypted value itself is untouched.
+ */
+export function rotateSecret(value: string): string {
+  if (!isEncryptedSecret(value)) return encryptSecret(value);
+
+  const keys = getKeys();
+  const secret = parseSecret(value);
+  if (secret.keyId === keys[0].id) return value;
+
+  const wrappedKey = seal(keys[0].key, unwrapDataKey(secret, keys), `${PREFIX}${keys[0].id}`);
+  return `${PREFIX}${keys[0].id}:${wrappedKey}:${secret.payload}`;
+}
+
+export const maskSecret = (value: string | null | undefined): string => (value ? SECRET_MASK : '');
+
+// Value to store for a secret from a settings form: undefined keeps the stored value (omitted,
+// or the mask sent back), null removes it (an explicit empty string)
+export const secretFromInput = (input: unknown): string | null | undefined => {
+  if (input === '') return null;
+  if (typeof input !== 'string' || input === SECRET_MASK) return undefined;
+  return encryptSecret(input);
+};
+
+// Columns holding encrypted secrets
+export const SECRET_COLUMNS = [
+  { table: 'user_email_settings', column: 'smtp_password' },
+  { table: 'user_whatsapp_settings', column: 'access_token' },
+  { table: 'webhook_endpoints', column: 'secret' },
+] as const;
+
+/**
+ * Encrypt rows that still hold plaintext and re-wrap rows encrypted with an older key.
+ * Runs as a deploy step (npm run secrets:encrypt), daily from Inngest and after adding a new
+ * key to SECRETS_ENCRYPTION_KEYS.
+ */
+export async function reencryptStoredSecrets(supabase: SupabaseClient): Promise<Record<string, number>> {
+  const updated: Record<string, number> = {};
+
+  for (const { table, column } of SECRET_COLUMNS) {
+    const { data: rows, error } = await supabase
+      .from(table)
+      .select(`id, ${column}`)
+      .not(column, 'is', null);
+    if (error) throw error;
+
+    updated[table] = 0;
+    for (const row of (rows || []) as unknown as Record<string, string>[]) {
+      if (!needsRotation(row[column])) continue;
+
+      const { error: updateError } = await supabase
+        .from(table)
+        .update({ [column]: rotateSecret(row[column]) })
+        .eq('id', row.id)
+        .eq(column, row[column]);
+      if (updateError) throw updateError;
+      updated[table]++;
+    }
+  }
+
+  logger.info('Re-encrypted stored secrets', 'secrets', updated);
+  return updated;
+}
@@ -0,0 +1,74 @@
+// CSV reading and writing for imports and exports. Free of Node APIs, so the browser can use it too.
+
+export type CsvDelimiter = ',' | ';' | '\t';
+
+// Dutch Excel saves CSV with semicolons; pick whichever separates the header row most
+export const detectDelimiter = (text: string): CsvDelimiter => {
+  const header = text.slice(0, text.search(/\r?\n|$/));
+  const counts = ([',', ';', '\t'] as CsvDelimiter[]).map(delimiter => ({
+    delimiter,
+    count: header.split(delimiter).length - 1,
+  }));
+  return counts.reduce((best, current) => (current.count > best.count ? current : best)).delimiter;
+};
+
+/**
+ * Parse CSV text (RFC 4180: quoted fields, escaped quotes, line breaks inside quotes).
+ * Rows without any value are dropped.
+ */
+export const parseCsv = (text: string, delimiter: CsvDelimiter = detectDelimiter(text)): string[][] => {
+  const input = text.replace(/^\uFEFF/, '');
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  row.push(field);
+  rows.push(row);
+
+  return rows.filter(cells => cells.some(cell => cell.trim() !== ''));
+};
+
+// Spreadsheet applications run text starting with these as a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const formatCell = (value: unknown, delimiter: CsvDelimiter): string => {
+  if (value === null || value === undefined) return '';
+  const raw = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  // Numbers are written as is, so negative amounts stay numbers; text gets a leading quote
+  const text = typeof value !== 'number' && FORMULA_PREFIX.test(raw) ? `'${raw}` : raw;
+  return text.includes('"') || text.includes(delimiter) || /[\r\n]/.test(text)
+    ? `"${text.replace(/"/g, '""')}"`
+    : text;
+};
+
+export const toCsv = (rows: unknown[][], delimiter: CsvDelimiter = ','): string =>
+  rows.map(row => row.map(value => formatCell(value, delimiter)).join(delimiter)).join('\r\n');
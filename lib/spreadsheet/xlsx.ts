@@ -0,0 +1,311 @@
+// Minimal XLSX support: an .xlsx file is a zip archive of XML parts. Only the parts needed
+// to read the cell values of the first worksheet are parsed; formulas, styles and dates are not.
+// Written workbooks contain plain text and number cells without styling.
+
+import { deflateRawSync, inflateRawSync } from 'zlib';
+import { parseCsv } from './csv';
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+// Uncompressed size at which a file in an archive is refused; a few kilobytes of deflated
+// data can otherwise expand to gigabytes
+export const MAX_ZIP_ENTRY_SIZE = 25 * 1024 * 1024;
+
+const inflateEntry = (data: Buffer): Buffer => {
+  try {
+    return inflateRawSync(data, { maxOutputLength: MAX_ZIP_ENTRY_SIZE });
+  } catch (error) {
+    if (error instanceof RangeError) {
+      throw new Error('The xlsx file is too large to read');
+    }
+    throw error;
+  }
+};
+
+// Read the files in a zip archive that `include` selects (all by default), keyed by path
+export const readZip = (bytes: Uint8Array, include: (name: string) => boolean = () => true): Map<string, Buffer> => {
+  const buffer = Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  let end = buffer.length - 22;
+  while (end >= 0 && buffer.readUInt32LE(end) !== END_OF_CENTRAL_DIRECTORY) end--;
+  if (end < 0) {
+    throw new Error('Not a valid xlsx file');
+  }
+
+  const entryCount = buffer.readUInt16LE(end + 10);
+  let offset = buffer.readUInt32LE(end + 16);
+  const files = new Map<string, Buffer>();
+
+  for (let i = 0; i < entryCount; i++) {
+    if (buffer.readUInt32LE(offset) !== CENTRAL_DIRECTORY_ENTRY) {
+      throw new Error('Not a valid xlsx file');
+    }
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localOffset = buffer.readUInt32LE(offset + 42);
+    const name = buffer.toString('utf8', offset + 46, offset + 46 + nameLength);
+
+    if (buffer.readUInt32LE(localOffset) !== LOCAL_FILE_HEADER) {
+      throw new Error('Not a valid xlsx file');
+    }
+    const dataStart = localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+    const data = buffer.subarray(dataStart, dataStart + compressedSize);
+
+    // 0 = stored, 8 = deflate; other methods are not used by spreadsheet applications
+    if ((method === 0 || method === 8) && include(name)) {
+      files.set(name, method === 8 ? inflateEntry(data) : data);
+    }
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return files;
+};
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+const crc32 = (data: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array | string;
+}
+
+// Build a deflated zip archive
+export const writeZip = (entries: ZipEntry[]): Uint8Array<ArrayBuffer> => {
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, 'utf8');
+    const data = typeof entry.data === 'string' ? Buffer.from(entry.data, 'utf8') : Buffer.from(entry.data);
+    const compressed = deflateRawSync(data);
+    const crc = crc32(data);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(LOCAL_FILE_HEADER, 0);
+    local.writeUInt16LE(20, 4); // version needed
+    local.writeUInt16LE(0x0800, 6); // UTF-8 file names
+    local.writeUInt16LE(8, 8); // deflate
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(CENTRAL_DIRECTORY_ENTRY, 0);
+    central.writeUInt16LE(20, 4); // version made by
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(0x0800, 8);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(compressed.length, 20);
+    central.writeUInt32LE(data.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    localParts.push(local, name, compressed);
+    centralParts.push(central, name);
+    offset += local.length + name.length + compressed.length;
+  }
+
+  const centralDirectory = Buffer.concat(centralParts);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return new Uint8Array(Buffer.concat([...localParts, centralDirectory, end]));
+};
+
+const decodeXml = (text: string): string =>
+  text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+
+// Text of all <t> runs inside an element (rich text is split over several runs)
+const textContent = (xml: string): string =>
+  Array.from(xml.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g), match => decodeXml(match[1])).join('');
+
+// Column letters of a cell reference to a zero-based index: A1 -> 0, AB7 -> 27
+const columnIndex = (reference: string): number =>
+  reference.replace(/\d+$/, '').split('').reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+
+const columnLetters = (index: number): string =>
+  index < 26 ? String.fromCharCode(65 + index) : columnLetters(Math.floor(index / 26) - 1) + String.fromCharCode(65 + (index % 26));
+
+const WORKBOOK_PATH = 'xl/workbook.xml';
+const WORKBOOK_RELATIONS_PATH = 'xl/_rels/workbook.xml.rels';
+const SHARED_STRINGS_PATH = 'xl/sharedStrings.xml';
+
+// Path of the first worksheet, following the workbook relationships
+const firstSheetPath = (bytes: Uint8Array): string => {
+  const files = readZip(bytes, name => name === WORKBOOK_PATH || name === WORKBOOK_RELATIONS_PATH);
+  const workbook = files.get(WORKBOOK_PATH)?.toString('utf8') || '';
+  const relations = files.get(WORKBOOK_RELATIONS_PATH)?.toString('utf8') || '';
+  const relationId = workbook.match(/<sheet\s[^>]*r:id="([^"]+)"/)?.[1];
+  const target = relationId
+    ? relations.match(new RegExp(`<Relationship\\s[^>]*Id="${relationId}"[^>]*Target="([^"]+)"`))?.[1]
+      || relations.match(new RegExp(`<Relationship\\s[^>]*Target="([^"]+)"[^>]*Id="${relationId}"`))?.[1]
+    : undefined;
+
+  if (!target) return 'xl/worksheets/sheet1.xml';
+  return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+};
+
+/**
+ * Read the cell values of the first worksheet as text, one array per row.
+ * Rows without any value are dropped. Only the workbook, the shared strings and that
+ * worksheet are decompressed.
+ */
+export const readXlsx = (bytes: Uint8Array): string[][] => {
+  const sheetPath = firstSheetPath(bytes);
+  const files = readZip(bytes, name => name === sheetPath || name === SHARED_STRINGS_PATH);
+  const sheet = files.get(sheetPath)?.toString('utf8');
+  if (!sheet) {
+    throw new Error('The xlsx file has no worksheet');
+  }
+
+  const sharedStrings = Array.from(
+    (files.get(SHARED_STRINGS_PATH)?.toString('utf8') || '').matchAll(/<si>([\s\S]*?)<\/si>/g),
+    match => textContent(match[1])
+  );
+
+  const rows: string[][] = [];
+  for (const [, rowXml = ''] of Array.from(sheet.matchAll(/<row\b(?:[^>]*?\/>|[^>]*>([\s\S]*?)<\/row>)/g))) {
+    const row: string[] = [];
+    for (const [, attributes, content = ''] of Array.from(rowXml.matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g))) {
+      const reference = attributes.match(/\br="([A-Z]+\d+)"/)?.[1];
+      const type = attributes.match(/\bt="([^"]+)"/)?.[1];
+      const value = content.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+
+      let text = '';
+      if (type === 's') {
+        text = sharedStrings[Number(value)] ?? '';
+      } else if (type === 'inlineStr') {
+        text = textContent(content);
+      } else if (type === 'b') {
+        text = value === '1' ? 'TRUE' : 'FALSE';
+      } else if (value !== undefined) {
+        text = decodeXml(value);
+      }
+
+      row[reference ? columnIndex(reference) : row.length] = text;
+    }
+    rows.push(Array.from(row, cell => cell ?? ''));
+  }
+
+  return rows.filter(cells => cells.some(cell => cell.trim() !== ''));
+};
+
+// Uploaded spreadsheets are either xlsx or (semicolon or comma separated) CSV
+export const readSpreadsheet = (fileName: string, bytes: Uint8Array): string[][] =>
+  fileName.toLowerCase().endsWith('.xlsx')
+    ? readXlsx(bytes)
+    : parseCsv(new TextDecoder('utf-8').decode(bytes));
+
+export interface Sheet {
+  name: string;
+  rows: unknown[][];
+}
+
+const escapeXml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // Control characters are not allowed in XML
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+
+const writeCell = (value: unknown, reference: string): string => {
+  if (value === null || value === undefined || value === '') return '';
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return `<c r="${reference}"><v>${value}</v></c>`;
+  }
+  if (typeof value === 'boolean') {
+    return `<c r="${reference}" t="b"><v>${value ? 1 : 0}</v></c>`;
+  }
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return `<c r="${reference}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(text)}</t></is></c>`;
+};
+
+const writeSheet = (rows: unknown[][]): string =>
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+  '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>' +
+  rows.map((row, rowIndex) =>
+    `<row r="${rowIndex + 1}">${row.map((value, columnIndex) => writeCell(value, `${columnLetters(columnIndex)}${rowIndex + 1}`)).join('')}</row>`
+  ).join('') +
+  '</sheetData></worksheet>';
+
+/**
+ * Build an xlsx workbook with one worksheet per sheet. Numbers and booleans keep their type,
+ * everything else is written as text.
+ */
+export const writeXlsx = (sheets: Sheet[]): Uint8Array<ArrayBuffer> => {
+  const sheetEntries = sheets.map((sheet, index) => ({ ...sheet, id: index + 1 }));
+
+  return writeZip([
+    {
+      name: '[Content_Types].xml',
+      data: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+        '<Default Extension="xml" ContentType="application/xml"/>' +
+        '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+        sheetEntries.map(sheet =>
+          `<Override PartName="/xl/worksheets/sheet${sheet.id}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+        ).join('') +
+        '</Types>',
+    },
+    {
+      name: '_rels/.rels',
+      data: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+        '</Relationships>',
+    },
+    {
+      name: 'xl/workbook.xml',
+      data: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" ' +
+        'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets>' +
+        sheetEntries.map(sheet =>
+          // Excel limits sheet names to 31 characters
+          `<sheet name="${escapeXml(sheet.name.slice(0, 31))}" sheetId="${sheet.id}" r:id="rId${sheet.id}"/>`
+        ).join('') +
+        '</sheets></workbook>',
+    },
+    {
+      name: 'xl/_rels/workbook.xml.rels',
+      data: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        sheetEntries.map(sheet =>
+          `<Relationship Id="rId${sheet.id}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${sheet.id}.xml"/>`
+        ).join('') +
+        '</Relationships>',
+    },
+    ...sheetEntries.map(sheet => ({ name: `xl/worksheets/sheet${sheet.id}.xml`, data: writeSheet(sheet.rows) })),
+  ]);
+};
@@ -1,6 +1,7 @@
 /* Complete Supabase setup voor QuoteFast */
 
 import { createClient } from '@supabase/supabase-js'
+import { pdfDownloadPath } from './pdf/storage'
 
 // Environment variables
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
@@ -310,7 +311,7 @@ export const storageUtils = {
       await supabase
         .from('offers')
         .update({
-          pdf_url: supabase.storage.from('offers').getPublicUrl(`public/${fileName}`).data.publicUrl
+          pdf_url: pdfDownloadPath('offer', offerId)
         })
         .eq('id', offerId)
     }
@@ -318,9 +319,9 @@ export const storageUtils = {
     return { data, error }
   },
 
-  // Get offer PDF URL
+  // Get offer PDF URL; the bucket is private, so this is the authenticated download route
   getOfferPDFUrl: (offerId: string) => {
-    return supabase.storage.from('offers').getPublicUrl(`public/${offerId}.pdf`)
+    return pdfDownloadPath('offer', offerId)
   }
 }
 
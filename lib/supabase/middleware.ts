@@ -0,0 +1,38 @@
+import { createServerClient } from '@supabase/ssr'
+import { NextResponse, type NextRequest } from 'next/server'
+import type { User } from '@supabase/supabase-js'
+
+// Refresh the Supabase session in middleware. The refreshed auth cookies are set on both the
+// request (for the route that runs next) and the returned response (for the browser).
+export async function updateSession(request: NextRequest): Promise<{ response: NextResponse; user: User | null }> {
+  let response = NextResponse.next({ request })
+
+  const supabase = createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        getAll() {
+          return request.cookies.getAll()
+        },
+        setAll(cookiesToSet) {
+          cookiesToSet.forEach(({ name, value }) => request.cookies.set(name, value))
+          response = NextResponse.next({ request })
+          cookiesToSet.forEach(({ name, value, options }) => response.cookies.set(name, value, options))
+        },
+      },
+    }
+  )
+
+  // getUser() validates the token with Supabase and refreshes it when it expired
+  const { data: { user } } = await supabase.auth.getUser()
+
+  return { response, user }
+}
+
+// Redirects must carry the refreshed auth cookies as well, or the browser keeps the expired ones
+export function redirectWithSession(request: NextRequest, session: NextResponse, pathname: string): NextResponse {
+  const redirect = NextResponse.redirect(new URL(pathname, request.url))
+  session.cookies.getAll().forEach(cookie => redirect.cookies.set(cookie))
+  return redirect
+}
@@ -0,0 +1,122 @@
+// Team invitations: an owner or admin invites an email address with a role, the invitee gets a
+// link with a random token and joins the organization by accepting it on /invite/[token].
+// Like API keys, only a SHA-256 hash of the token is stored.
+
+import { createHash, randomBytes } from 'crypto';
+import { SupabaseClient } from '@supabase/supabase-js';
+import type { TeamRole } from './auth/organization';
+import type { PublicTeamInvitation, TeamInvitation } from '../types/api/team';
+
+export const INVITE_EXPIRY_DAYS = 7;
+
+export const INVITABLE_ROLES: TeamInvitation['role'][] = ['admin', 'developer', 'designer', 'support'];
+
+export const TEAM_INVITATION_COLUMNS = 'id, organization_id, email, role, invited_by, expires_at, accepted_at, revoked_at, created_at';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export const hashInviteToken = (token: string): string => createHash('sha256').update(token).digest('hex');
+
+export const generateInviteToken = (): { token: string; token_hash: string } => {
+  const token = randomBytes(32).toString('base64url');
+  return { token, token_hash: hashInviteToken(token) };
+};
+
+export const getInviteUrl = (token: string, baseUrl = process.env.NEXT_PUBLIC_APP_URL || ''): string =>
+  `${baseUrl}/invite/${token}`;
+
+export const inviteExpiresAt = (now: Date = new Date()): string =>
+  new Date(now.getTime() + INVITE_EXPIRY_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+/**
+ * Owners manage everyone but themselves; admins manage the roles below admin.
+ * The same rule applies to inviting a role and to removing a member with that role.
+ * Keep in sync with public.can_manage_role(), which enforces it in the team policies.
+ */
+export const canManageRole = (actor: TeamRole, target: TeamRole): boolean => {
+  if (target === 'owner') return false;
+  if (actor === 'owner') return true;
+  return actor === 'admin' && target !== 'admin';
+};
+
+export const parseInviteInput = (
+  body: any
+): { values: { email: string; role: TeamInvitation['role'] }; error?: undefined } | { error: string; values?: undefined } => {
+  const email = typeof body?.email === 'string' ? body.email.trim().toLowerCase() : '';
+  if (!EMAIL_PATTERN.test(email)) {
+    return { error: 'Invalid email address' };
+  }
+  if (!INVITABLE_ROLES.includes(body.role)) {
+    return { error: `Role must be one of: ${INVITABLE_ROLES.join(', ')}` };
+  }
+  return { values: { email, role: body.role } };
+};
+
+// Returns why an invitation can no longer be accepted, or null when it can
+export const getInviteBlocker = (
+  invitation: Pick<TeamInvitation, 'expires_at' | 'accepted_at' | 'revoked_at'>,
+  now: Date = new Date()
+): string | null => {
+  if (invitation.accepted_at) return 'Deze uitnodiging is al geaccepteerd';
+  if (invitation.revoked_at) return 'Deze uitnodiging is ingetrokken';
+  if (new Date(invitation.expires_at) <= now) return 'Deze uitnodiging is verlopen';
+  return null;
+};
+
+/**
+ * Seats taken in an organization: members that are not inactive plus open invitations,
+ * so invitations cannot overbook the team.
+ */
+export async function countUsedSeats(supabase: SupabaseClient, organizationId: string): Promise<number> {
+  const [members, invitations] = await Promise.all([
+    supabase
+      .from('team_members')
+      .select('id', { count: 'exact', head: true })
+      .eq('organization_id', organizationId)
+      .neq('status', 'inactive'),
+    supabase
+      .from('team_invitations')
+      .select('id', { count: 'exact', head: true })
+      .eq('organization_id', organizationId)
+      .is('accepted_at', null)
+      .is('revoked_at', null)
+      .gt('expires_at', new Date().toISOString()),
+  ]);
+
+  if (members.error) throw members.error;
+  if (invitations.error) throw invitations.error;
+  return (members.count || 0) + (invitations.count || 0);
+}
+
+// max_team_size follows the subscription tier; without a limit the team can grow freely
+export const hasFreeSeat = (maxTeamSize: number | null, usedSeats: number): boolean =>
+  maxTeamSize === null || usedSeats < maxTeamSize;
+
+export async function findInvitationByToken(
+  supabase: SupabaseClient,
+  token: string
+): Promise<{ invitation: TeamInvitation; organizationName: string; maxTeamSize: number | null } | null> {
+  const { data, error } = await supabase
+    .from('team_invitations')
+    .select(`${TEAM_INVITATION_COLUMNS}, organizations (name, max_team_size)`)
+    .eq('token_hash', hashInviteToken(token))
+    .maybeSingle();
+
+  if (error || !data) {
+    return null;
+  }
+
+  const { organizations, ...invitation } = data as any;
+  return {
+    invitation: invitation as TeamInvitation,
+    organizationName: organizations?.name || '',
+    maxTeamSize: organizations?.max_team_size ?? null,
+  };
+}
+
+export const toPublicInvitation = (invitation: TeamInvitation, organizationName: string): PublicTeamInvitation => ({
+  organization_name: organizationName,
+  email: invitation.email,
+  role: invitation.role,
+  expires_at: invitation.expires_at,
+});
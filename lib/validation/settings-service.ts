@@ -181,12 +181,5 @@ export const settingsService = {
       return { data: false, error: error.message || 'Onbekende fout' };
     }
   },
-
-  // Generate API key (mock implementation)
-  generateAPIKey: (): string => {
-    const prefix = 'sk-' + (Math.random() > 0.5 ? 'prod' : 'dev');
-    const random = Math.random().toString(36).substring(2, 15);
-    return `${prefix}-...${random.substring(0, 6)}`;
-  },
 };
 
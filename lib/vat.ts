@@ -0,0 +1,107 @@
+// VAT engine shared by the offer and invoice forms, the API routes and the PDF renderer.
+// Every line carries a rate; VAT is calculated over the per-rate subtotal, not per line.
+
+export type VatRate = 'standard' | 'reduced' | 'zero' | 'exempt' | 'reverse_charge';
+
+export interface VatRateDefinition {
+  percentage: number;
+  label: string;
+}
+
+export const VAT_RATES: Record<VatRate, VatRateDefinition> = {
+  standard: { percentage: 21, label: '21%' },
+  reduced: { percentage: 9, label: '9%' },
+  zero: { percentage: 0, label: '0%' },
+  exempt: { percentage: 0, label: 'Vrijgesteld' },
+  // EU B2B: the customer accounts for the VAT in their own country
+  reverse_charge: { percentage: 0, label: 'BTW verlegd' },
+};
+
+export const VAT_RATE_OPTIONS = Object.keys(VAT_RATES) as VatRate[];
+
+export const DEFAULT_VAT_RATE: VatRate = 'standard';
+
+export interface VatLineInput {
+  quantity: number;
+  price: number;
+  vat_rate?: VatRate | null;
+}
+
+export interface VatBreakdownLine {
+  rate: VatRate;
+  percentage: number;
+  label: string;
+  base: number;
+  vat: number;
+}
+
+export interface VatTotals {
+  subtotal: number;
+  vatLines: VatBreakdownLine[];
+  vatAmount: number;
+  total: number;
+}
+
+// Half away from zero, so credit notes round to exactly the negated invoice amounts.
+// The epsilon keeps values like 1.005 from rounding down because of float representation.
+export const roundCents = (value: number): number => {
+  const cents = Math.round((Math.abs(value) + Number.EPSILON) * 100);
+  return cents === 0 ? 0 : Math.sign(value) * cents / 100;
+};
+
+export const isVatRate = (value: unknown): value is VatRate =>
+  typeof value === 'string' && value in VAT_RATES;
+
+// Accepts rate codes as well as plain percentages from older data (21, '9', 0)
+export const normalizeVatRate = (value: unknown): VatRate => {
+  if (isVatRate(value)) return value;
+
+  const percentage = Number(value);
+  if (value === null || value === undefined || value === '' || Number.isNaN(percentage)) {
+    return DEFAULT_VAT_RATE;
+  }
+  if (percentage === VAT_RATES.reduced.percentage) return 'reduced';
+  if (percentage === 0) return 'zero';
+  return DEFAULT_VAT_RATE;
+};
+
+export const calculateLineTotal = (item: Pick<VatLineInput, 'quantity' | 'price'>): number =>
+  roundCents(item.quantity * item.price);
+
+export const calculateVatTotals = (items: VatLineInput[]): VatTotals => {
+  const bases = new Map<VatRate, number>();
+  items.forEach(item => {
+    const rate = normalizeVatRate(item.vat_rate);
+    bases.set(rate, (bases.get(rate) || 0) + calculateLineTotal(item));
+  });
+
+  const vatLines = VAT_RATE_OPTIONS
+    .filter(rate => bases.has(rate))
+    .map(rate => {
+      const base = roundCents(bases.get(rate) || 0);
+      const { percentage, label } = VAT_RATES[rate];
+      return { rate, percentage, label, base, vat: roundCents(base * percentage / 100) };
+    });
+
+  const subtotal = roundCents(vatLines.reduce((sum, line) => sum + line.base, 0));
+  const vatAmount = roundCents(vatLines.reduce((sum, line) => sum + line.vat, 0));
+
+  return { subtotal, vatLines, vatAmount, total: roundCents(subtotal + vatAmount) };
+};
+
+export const usesReverseCharge = (items: VatLineInput[]): boolean =>
+  items.some(item => normalizeVatRate(item.vat_rate) === 'reverse_charge');
+
+// Statements the invoice must carry for zero-VAT lines
+export const getVatNotices = (totals: VatTotals, customerVatNumber?: string | null): string[] => {
+  const notices: string[] = [];
+  if (totals.vatLines.some(line => line.rate === 'reverse_charge')) {
+    notices.push(customerVatNumber
+      ? `BTW verlegd naar de afnemer (btw-nummer afnemer: ${customerVatNumber}).`
+      : 'BTW verlegd naar de afnemer.');
+  }
+  if (totals.vatLines.some(line => line.rate === 'exempt')) {
+    notices.push('Vrijgesteld van BTW.');
+  }
+  return notices;
+};
@@ -1,17 +1,50 @@
-// Minimal middleware for Next.js to generate middleware manifest
-// Full auth middleware is temporarily disabled due to missing Supabase dependencies
+// Refreshes the Supabase session on every request and protects the dashboard and the API routes.
+// Route classification lives in lib/auth/routes.ts.
 
 import { NextResponse, type NextRequest } from 'next/server'
+import {
+  ONBOARDING_PATH,
+  acceptsApiKey,
+  getRouteAccess,
+  hasCompletedOnboarding,
+  loginRedirectPath,
+  requiresOnboarding,
+} from './lib/auth/routes'
+import { redirectWithSession, updateSession } from './lib/supabase/middleware'
 
 export async function middleware(request: NextRequest) {
-  // For now, just pass through all requests
-  return NextResponse.next({
-    request: {
-      headers: request.headers,
-    },
-  })
+  const { pathname, search } = request.nextUrl
+  const access = getRouteAccess(pathname)
+
+  if (access === 'token') {
+    return NextResponse.next()
+  }
+
+  // API keys are checked by the route itself (authenticateRequest)
+  if (access === 'api' && acceptsApiKey(pathname, request.headers.get('authorization'))) {
+    return NextResponse.next()
+  }
+
+  const { response, user } = await updateSession(request)
+
+  if (access === 'public') {
+    return response
+  }
+
+  if (!user) {
+    if (access === 'api') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    return redirectWithSession(request, response, loginRedirectPath(pathname, search))
+  }
+
+  if (requiresOnboarding(pathname) && !hasCompletedOnboarding(user.user_metadata)) {
+    return redirectWithSession(request, response, ONBOARDING_PATH)
+  }
+
+  return response
 }
 
 export const config = {
-  matcher: ['/((?!api|_next/static|_next/image|favicon.ico).*)'],
+  matcher: ['/((?!_next/static|_next/image|favicon.ico|.*\\.(?:svg|png|jpg|jpeg|gif|webp|ico)$).*)'],
 }
@@ -0,0 +1,20 @@
+/**
+ * Encrypt Secrets Script
+ * Deploy step before supabase/migrations/024_require_encrypted_secrets.sql: encrypts SMTP passwords
+ * and WhatsApp tokens that are still stored as plaintext. The encryption key lives in the
+ * application environment, so this cannot run inside the migration itself.
+ *
+ * NEXT_PUBLIC_SUPABASE_URL=... SUPABASE_SERVICE_ROLE_KEY=... SECRETS_ENCRYPTION_KEYS=... npm run secrets:encrypt
+ */
+
+import { createAdminClient } from '../lib/supabase/admin';
+import { reencryptStoredSecrets } from '../lib/secrets';
+
+reencryptStoredSecrets(createAdminClient())
+  .then(updated => {
+    console.log('✅ Secrets encrypted:', updated);
+  })
+  .catch(error => {
+    console.error('❌ Encrypting secrets failed:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import {
+  activityLogQuerySchema,
+  requestIpAddress,
+  statusChangeAction,
+  toActivityRow,
+} from '../../../lib/activity';
+
+const request = (headers: Record<string, string>) =>
+  new Request('https://app.quotefast.test/api/offers', { headers });
+
+describe('requestIpAddress', () => {
+  it('uses the first address of x-forwarded-for', () => {
+    expect(requestIpAddress(request({ 'x-forwarded-for': '203.0.113.7, 10.0.0.1' }))).toBe('203.0.113.7');
+  });
+
+  it('falls back to x-real-ip', () => {
+    expect(requestIpAddress(request({ 'x-real-ip': '2001:db8::1' }))).toBe('2001:db8::1');
+  });
+
+  it('drops values that are not an IP address', () => {
+    expect(requestIpAddress(request({ 'x-forwarded-for': 'unknown' }))).toBeNull();
+    expect(requestIpAddress(request({}))).toBeNull();
+  });
+});
+
+describe('toActivityRow', () => {
+  const actor = { organizationId: 'org-1', userId: 'user-1' };
+
+  it('records the request origin', () => {
+    const row = toActivityRow(
+      actor,
+      { action: 'customer_created', resource_type: 'customer', resource_id: 'customer-1', metadata: { name: 'Bakkerij' } },
+      request({ 'x-forwarded-for': '203.0.113.7', 'user-agent': 'Mozilla/5.0' })
+    );
+
+    expect(row).toEqual({
+      organization_id: 'org-1',
+      user_id: 'user-1',
+      action: 'customer_created',
+      resource_type: 'customer',
+      resource_id: 'customer-1',
+      metadata: { name: 'Bakkerij' },
+      ip_address: '203.0.113.7',
+      user_agent: 'Mozilla/5.0',
+    });
+  });
+
+  it('notes the API key a request was made with', () => {
+    const row = toActivityRow(
+      { ...actor, apiKeyId: 'key-1' },
+      { action: 'offer_deleted', resource_type: 'offer', resource_id: 'offer-1' }
+    );
+
+    expect(row.metadata).toEqual({ api_key_id: 'key-1' });
+    expect(row.ip_address).toBeNull();
+    expect(row.user_agent).toBeNull();
+  });
+
+  it('logs webhooks and jobs without a user or resource', () => {
+    const row = toActivityRow(
+      { organizationId: 'org-1', userId: null },
+      { action: 'customers_imported', resource_type: 'customer' }
+    );
+
+    expect(row.user_id).toBeNull();
+    expect(row.resource_id).toBeNull();
+  });
+});
+
+describe('statusChangeAction', () => {
+  it('puts the new status after the colon', () => {
+    expect(statusChangeAction('offer', 'accepted')).toBe('offer_status_changed:accepted');
+    expect(statusChangeAction('invoice', 'paid')).toBe('invoice_status_changed:paid');
+  });
+});
+
+describe('activityLogQuerySchema', () => {
+  it('defaults to the newest activity first', () => {
+    const query = activityLogQuerySchema.parse({});
+    expect(query.sort).toBe('-created_at');
+    expect(query.limit).toBe(25);
+  });
+
+  it('rejects a user filter that is not an id', () => {
+    expect(activityLogQuerySchema.safeParse({ user_id: 'me' }).success).toBe(false);
+  });
+});
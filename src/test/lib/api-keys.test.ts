@@ -0,0 +1,154 @@
+/**
+ * API Key Tests
+ *
+ * Tests key generation, bearer parsing, scopes and authentication of API keys
+ */
+
+import { describe, it, expect } from 'vitest';
+import { SupabaseClient } from '@supabase/supabase-js';
+import {
+  authenticateApiKey,
+  bearerApiKey,
+  checkApiKey,
+  generateApiKey,
+  hasScope,
+  hashApiKey,
+  normalizeScopes,
+  shouldTouchLastUsed,
+  type ApiKeyRecord,
+} from '../../../lib/auth/api-keys';
+
+const now = new Date('2026-03-01T12:00:00Z');
+
+const record = (overrides: Partial<ApiKeyRecord> = {}): ApiKeyRecord => ({
+  id: 'key-1',
+  organization_id: 'org-1',
+  user_id: 'user-1',
+  permissions: ['offers:read', 'invoices:write'],
+  expires_at: null,
+  revoked_at: null,
+  last_used: null,
+  ...overrides,
+});
+
+type Row = Record<string, unknown>;
+
+// Just enough of the query builder for authenticateApiKey
+const fakeSupabase = (tables: Record<string, Row[]>) => {
+  const updates: { table: string; values: Row }[] = [];
+
+  const from = (table: string) => {
+    const filters: [string, unknown][] = [];
+    const query = {
+      select: () => query,
+      eq: (column: string, value: unknown) => {
+        filters.push([column, value]);
+        return query;
+      },
+      maybeSingle: async () => ({
+        data: (tables[table] || []).find(row => filters.every(([column, value]) => row[column] === value)) || null,
+        error: null,
+      }),
+      update: (values: Row) => {
+        updates.push({ table, values });
+        return { eq: async () => ({ error: null }) };
+      },
+    };
+    return query;
+  };
+
+  return { client: { from } as unknown as SupabaseClient, updates };
+};
+
+describe('api keys', () => {
+  it('generates prefixed keys and stores only a hash', () => {
+    const generated = generateApiKey();
+
+    expect(generated.key).toMatch(/^qf_[A-Za-z0-9_-]{43}$/);
+    expect(generated.key_prefix).toBe(generated.key.slice(0, 11));
+    expect(generated.key_hash).toBe(hashApiKey(generated.key));
+    expect(generated.key_hash).not.toContain(generated.key.slice(3));
+    expect(generateApiKey().key).not.toBe(generated.key);
+  });
+
+  it('reads API keys from the Authorization header only', () => {
+    const { key } = generateApiKey();
+
+    expect(bearerApiKey(`Bearer ${key}`)).toBe(key);
+    expect(bearerApiKey(`bearer ${key}`)).toBe(key);
+    expect(bearerApiKey(key)).toBeNull();
+    expect(bearerApiKey('Bearer eyJhbGciOiJIUzI1NiJ9.session')).toBeNull();
+    expect(bearerApiKey(null)).toBeNull();
+  });
+
+  it('lets write scopes include reading', () => {
+    expect(hasScope(['invoices:write'], 'invoices:read')).toBe(true);
+    expect(hasScope(['invoices:read'], 'invoices:write')).toBe(false);
+    expect(hasScope(['offers:read'], 'customers:read')).toBe(false);
+    expect(normalizeScopes(['offers:read', 'admin', 'offers:read'])).toEqual(['offers:read']);
+    expect(normalizeScopes(null)).toEqual([]);
+  });
+
+  it('rejects revoked, expired and under-scoped keys', () => {
+    expect(checkApiKey(record(), 'offers:read', now)).toBe('valid');
+    expect(checkApiKey(record({ revoked_at: '2026-02-01T00:00:00Z' }), 'offers:read', now)).toBe('revoked');
+    expect(checkApiKey(record({ expires_at: '2026-03-01T12:00:00Z' }), 'offers:read', now)).toBe('expired');
+    expect(checkApiKey(record({ expires_at: '2026-04-01T00:00:00Z' }), 'offers:read', now)).toBe('valid');
+    expect(checkApiKey(record(), 'customers:write', now)).toBe('insufficient_scope');
+  });
+
+  it('throttles last used updates', () => {
+    expect(shouldTouchLastUsed(null, now)).toBe(true);
+    expect(shouldTouchLastUsed('2026-03-01T11:59:30Z', now)).toBe(false);
+    expect(shouldTouchLastUsed('2026-03-01T11:58:00Z', now)).toBe(true);
+  });
+
+  describe('authenticateApiKey', () => {
+    const { key, key_hash } = generateApiKey();
+    const member = { organization_id: 'org-1', user_id: 'user-1', status: 'active', role: 'developer' };
+
+    it('resolves a valid key to its organization and the creator\'s role', async () => {
+      const { client, updates } = fakeSupabase({
+        api_keys: [{ ...record(), key_hash }],
+        team_members: [member],
+      });
+
+      const result = await authenticateApiKey(client, key, 'invoices:read', now);
+
+      expect(result.context).toEqual({
+        userId: 'user-1',
+        organizationId: 'org-1',
+        role: 'developer',
+        apiKeyId: 'key-1',
+        scopes: ['offers:read', 'invoices:write'],
+      });
+      expect(updates).toEqual([{ table: 'api_keys', values: { last_used: now.toISOString() } }]);
+    });
+
+    it('returns 401 for unknown or revoked keys and 403 for missing scopes', async () => {
+      const { client } = fakeSupabase({
+        api_keys: [{ ...record({ revoked_at: '2026-02-01T00:00:00Z' }), key_hash }],
+        team_members: [member],
+      });
+
+      expect(await authenticateApiKey(client, generateApiKey().key, null, now)).toEqual({ error: 'Invalid API key', status: 401 });
+      expect(await authenticateApiKey(client, key, null, now)).toEqual({ error: 'API key revoked', status: 401 });
+
+      const scoped = fakeSupabase({ api_keys: [{ ...record(), key_hash }], team_members: [member] });
+      expect(await authenticateApiKey(scoped.client, key, 'customers:read', now)).toEqual({
+        error: 'API key is missing the customers:read scope',
+        status: 403,
+      });
+    });
+
+    it('disables keys of people who left the team', async () => {
+      const { client, updates } = fakeSupabase({
+        api_keys: [{ ...record(), key_hash }],
+        team_members: [{ ...member, status: 'inactive' }],
+      });
+
+      expect(await authenticateApiKey(client, key, 'offers:read', now)).toEqual({ error: 'Invalid API key', status: 401 });
+      expect(updates).toEqual([]);
+    });
+  });
+});
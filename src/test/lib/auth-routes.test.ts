@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import {
+  acceptsApiKey,
+  getRouteAccess,
+  hasCompletedOnboarding,
+  loginRedirectPath,
+  requiresOnboarding,
+  safeRedirectPath,
+} from '../../../lib/auth/routes';
+
+describe('getRouteAccess', () => {
+  it('leaves public token links alone', () => {
+    expect(getRouteAccess('/o/abc123')).toBe('token');
+    expect(getRouteAccess('/api/o/abc123/accept')).toBe('token');
+    expect(getRouteAccess('/invite/abc123')).toBe('token');
+    expect(getRouteAccess('/api/invitations/abc123')).toBe('token');
+  });
+
+  it('protects dashboard pages and the onboarding wizard', () => {
+    expect(getRouteAccess('/dashboard')).toBe('page');
+    expect(getRouteAccess('/dashboard/offertes')).toBe('page');
+    expect(getRouteAccess('/onboarding')).toBe('page');
+  });
+
+  it('answers API routes with 401 instead of a redirect', () => {
+    expect(getRouteAccess('/api/customers')).toBe('api');
+    expect(getRouteAccess('/api/organizations/active')).toBe('api');
+  });
+
+  it('keeps marketing pages and self-authenticated API routes public', () => {
+    expect(getRouteAccess('/')).toBe('public');
+    expect(getRouteAccess('/login')).toBe('public');
+    expect(getRouteAccess('/dashboards-overview')).toBe('public');
+    expect(getRouteAccess('/api/webhooks/stripe')).toBe('public');
+    expect(getRouteAccess('/api/v1/offers')).toBe('public');
+    expect(getRouteAccess('/api/inngest')).toBe('public');
+  });
+});
+
+describe('requiresOnboarding', () => {
+  it('only applies to the dashboard', () => {
+    expect(requiresOnboarding('/dashboard/klanten')).toBe(true);
+    expect(requiresOnboarding('/onboarding')).toBe(false);
+  });
+});
+
+describe('hasCompletedOnboarding', () => {
+  it('reads the flag from the user metadata', () => {
+    expect(hasCompletedOnboarding({ onboarding_completed: true })).toBe(true);
+    expect(hasCompletedOnboarding({ onboarding_completed: 'true' })).toBe(false);
+    expect(hasCompletedOnboarding(undefined)).toBe(false);
+  });
+});
+
+describe('acceptsApiKey', () => {
+  it('lets API keys through to routes that validate them', () => {
+    expect(acceptsApiKey('/api/customers', 'Bearer qf_abc')).toBe(true);
+    expect(acceptsApiKey('/api/offers/123', 'bearer qf_abc')).toBe(true);
+    expect(acceptsApiKey('/api/export', 'Bearer qf_abc')).toBe(true);
+  });
+
+  it('needs a QuoteFast key, not just any bearer header', () => {
+    expect(acceptsApiKey('/api/customers', 'Bearer abc')).toBe(false);
+    expect(acceptsApiKey('/api/customers', 'Basic abc')).toBe(false);
+    expect(acceptsApiKey('/api/customers', null)).toBe(false);
+  });
+
+  it('keeps routes that never read the key behind the session', () => {
+    expect(acceptsApiKey('/api/gemini', 'Bearer qf_abc')).toBe(false);
+    expect(acceptsApiKey('/api/glm', 'Bearer qf_abc')).toBe(false);
+    expect(acceptsApiKey('/api/vercel/projects', 'Bearer qf_abc')).toBe(false);
+    expect(acceptsApiKey('/api/email/welcome', 'Bearer qf_abc')).toBe(false);
+    expect(acceptsApiKey('/api/customersx', 'Bearer qf_abc')).toBe(false);
+  });
+});
+
+describe('safeRedirectPath', () => {
+  it('follows same-origin paths only', () => {
+    expect(safeRedirectPath('/dashboard/offertes?status=sent')).toBe('/dashboard/offertes?status=sent');
+    expect(safeRedirectPath('https://evil.example')).toBe('/dashboard');
+    expect(safeRedirectPath('//evil.example')).toBe('/dashboard');
+    expect(safeRedirectPath('/\\evil.example')).toBe('/dashboard');
+    expect(safeRedirectPath(null)).toBe('/dashboard');
+  });
+
+  it('builds the login link with the original path', () => {
+    expect(loginRedirectPath('/dashboard/offertes', '?status=sent'))
+      .toBe('/login?next=%2Fdashboard%2Foffertes%3Fstatus%3Dsent');
+  });
+});
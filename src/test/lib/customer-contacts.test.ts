@@ -0,0 +1,74 @@
+/**
+ * Customer Contact Tests
+ *
+ * Tests contact validation and who receives an offer or invoice
+ */
+
+import { describe, it, expect } from 'vitest';
+import { DOCUMENT_CONTACT_ROLES, parseContactInput, selectDocumentRecipient } from '../../../lib/customer-contacts';
+import type { CustomerContact } from '../../../types/api/customer';
+
+type Contact = Pick<CustomerContact, 'id' | 'name' | 'email' | 'roles' | 'is_primary'>;
+
+const contact = (overrides: Partial<Contact>): Contact => ({
+  id: 'contact-1',
+  name: 'Jan Jansen',
+  email: 'jan@example.com',
+  roles: [],
+  is_primary: false,
+  ...overrides,
+});
+
+const customer = { name: 'Bakkerij Jansen', email: 'info@bakkerij.nl' };
+
+describe('contact input', () => {
+  it('requires a name unless the update is partial', () => {
+    expect(parseContactInput({ email: 'jan@example.com' }).error).toBe('Missing required field: name');
+    expect(parseContactInput({ phone: ' 0612345678 ' }, true)).toEqual({ values: { phone: '0612345678' } });
+  });
+
+  it('trims fields and removes duplicate roles', () => {
+    expect(parseContactInput({ name: ' Jan ', email: '', roles: ['billing', 'billing', 'quotes'], is_primary: true })).toEqual({
+      values: { name: 'Jan', email: null, roles: ['billing', 'quotes'], is_primary: true },
+    });
+  });
+
+  it('rejects invalid values', () => {
+    expect(parseContactInput({ name: 'Jan', email: 'geen-email' }).error).toBe('Invalid email address');
+    expect(parseContactInput({ name: 'Jan', roles: ['sales'] }).error).toBe('Roles must be a list of: quotes, billing, technical');
+    expect(parseContactInput({ name: 'Jan', is_primary: 'ja' }).error).toBe('is_primary must be a boolean');
+  });
+});
+
+describe('document recipient', () => {
+  const contacts = [
+    contact({ id: 'primary', name: 'Piet', email: 'piet@bakkerij.nl', is_primary: true }),
+    contact({ id: 'billing', name: 'Anna', email: 'anna@bakkerij.nl', roles: ['billing'] }),
+    contact({ id: 'no-email', name: 'Kees', email: null, roles: ['quotes'] }),
+  ];
+
+  it('sends invoices to the billing contact', () => {
+    expect(selectDocumentRecipient(customer, contacts, DOCUMENT_CONTACT_ROLES.invoice)).toEqual({
+      email: 'anna@bakkerij.nl',
+      name: 'Anna',
+      contact_id: 'billing',
+    });
+  });
+
+  it('prefers the contact chosen on the document', () => {
+    expect(selectDocumentRecipient(customer, contacts, 'billing', 'primary')?.contact_id).toBe('primary');
+  });
+
+  it('falls back to the primary contact when nobody with the role has an email address', () => {
+    expect(selectDocumentRecipient(customer, contacts, DOCUMENT_CONTACT_ROLES.offer)?.contact_id).toBe('primary');
+  });
+
+  it('falls back to the customer without reachable contacts', () => {
+    expect(selectDocumentRecipient(customer, [], 'quotes')).toEqual({
+      email: 'info@bakkerij.nl',
+      name: 'Bakkerij Jansen',
+      contact_id: null,
+    });
+    expect(selectDocumentRecipient({ ...customer, email: null }, [contacts[2]], 'quotes')).toBeNull();
+  });
+});
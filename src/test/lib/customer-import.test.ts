@@ -0,0 +1,177 @@
+/**
+ * Customer Import Tests
+ *
+ * Tests reading CSV files, column mapping, duplicate handling and the batched import
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { parseCsv, toCsv } from '../../../lib/spreadsheet/csv';
+import {
+  autoMapColumns,
+  planCustomerImport,
+  runCustomerImport,
+  toImportErrorReport,
+  validateColumnMapping,
+  type ImportBatch,
+  type ImportCustomer,
+} from '../../../lib/customer-import';
+import type { BatchOperation } from '../../../lib/database-service';
+
+const existingCustomer = (overrides: Partial<ImportCustomer>): ImportCustomer => ({
+  id: 'customer-1',
+  name: 'Bakkerij Jansen',
+  email: 'info@bakkerij.nl',
+  phone: null,
+  company: 'Bakkerij Jansen BV',
+  address: { city: 'Utrecht' },
+  vat_number: null,
+  status: 'customer',
+  source: null,
+  ...overrides,
+});
+
+describe('csv', () => {
+  it('reads semicolon separated files with quotes and a byte order mark', () => {
+    const text = '\uFEFFNaam;E-mail;Opmerking\r\n"Jansen; Zonen";jan@example.com;"Zegt ""hallo""\nop twee regels"\r\n;;\r\n';
+    expect(parseCsv(text)).toEqual([
+      ['Naam', 'E-mail', 'Opmerking'],
+      ['Jansen; Zonen', 'jan@example.com', 'Zegt "hallo"\nop twee regels'],
+    ]);
+  });
+
+  it('quotes values that need it when writing', () => {
+    expect(toCsv([['a,b', 'zegt "hoi"', null, 3]])).toBe('"a,b","zegt ""hoi""",,3');
+  });
+
+  it('keeps text from being run as a formula', () => {
+    expect(toCsv([['=HYPERLINK("https://evil.example")', '+31 6 1234', '-', '@SUM(A1)', '\tx', -300]]))
+      .toBe(`"'=HYPERLINK(""https://evil.example"")",'+31 6 1234,'-,'@SUM(A1),'\tx,-300`);
+  });
+});
+
+describe('column mapping', () => {
+  it('maps Dutch and English headers to customer fields', () => {
+    expect(autoMapColumns(['Klantnaam', 'E-mailadres', 'Bedrijf', 'Postcode', 'Woonplaats', 'Notities', 'Email'])).toEqual([
+      'name', 'email', 'company', 'address.postal_code', 'address.city', null, null,
+    ]);
+  });
+
+  it('needs a name or company column and each field once', () => {
+    expect(validateColumnMapping(['email', null])).toBe('Map a column to name or company');
+    expect(validateColumnMapping(['name', 'email', 'email'])).toBe('Column mapped twice: email');
+    expect(validateColumnMapping(['company', 'phone'])).toBeNull();
+  });
+});
+
+describe('import plan', () => {
+  const mapping = autoMapColumns(['Naam', 'E-mail', 'Telefoon', 'Bedrijf', 'Plaats', 'Land']);
+  const existing = [existingCustomer({})];
+
+  it('creates new customers and reports invalid rows', () => {
+    const plan = planCustomerImport(
+      [
+        ['Piet', 'piet@example.com', '', '', 'Delft', 'NL'],
+        ['', 'leeg@example.com', '', '', '', ''],
+        ['Kees', 'geen-email', '', '', '', ''],
+        ['', '', '', 'Alleen Bedrijf BV', '', ''],
+      ],
+      mapping,
+      existing,
+      'skip'
+    );
+
+    expect(plan.map(row => [row.row, row.action, row.error])).toEqual([
+      [2, 'create', null],
+      [3, 'invalid', 'Missing required field: name'],
+      [4, 'invalid', 'Invalid email address'],
+      [5, 'create', null],
+    ]);
+    expect(plan[0].values).toEqual({ name: 'Piet', email: 'piet@example.com', address: { city: 'Delft', country: 'NL' } });
+    expect(plan[3].values.name).toBe('Alleen Bedrijf BV');
+  });
+
+  it('detects duplicates by email or company, also within the file', () => {
+    const plan = planCustomerImport(
+      [
+        ['Jan', 'INFO@bakkerij.nl', '0301234567', '', '', ''],
+        ['Anna', 'anna@example.com', '', 'bakkerij jansen bv', '', ''],
+        ['Anna B', 'anna@example.com', '', '', '', ''],
+      ],
+      mapping,
+      existing,
+      'skip'
+    );
+
+    expect(plan.map(row => [row.action, row.duplicate?.id ?? null, row.error])).toEqual([
+      ['skip', 'customer-1', null],
+      ['skip', 'customer-1', null],
+      ['invalid', null, 'Duplicate of row 3'],
+    ]);
+  });
+
+  it('merges only empty fields and overwrites filled ones', () => {
+    const rows = [['Jan Jansen', 'info@bakkerij.nl', '0301234567', '', 'Amersfoort', 'NL']];
+
+    expect(planCustomerImport(rows, mapping, existing, 'merge')[0].changes).toEqual({
+      phone: '0301234567',
+      address: { city: 'Utrecht', country: 'NL' },
+    });
+    expect(planCustomerImport(rows, mapping, existing, 'overwrite')[0].changes).toEqual({
+      name: 'Jan Jansen',
+      phone: '0301234567',
+      address: { city: 'Amersfoort', country: 'NL' },
+    });
+  });
+});
+
+describe('running the import', () => {
+  const mapping = autoMapColumns(['Naam', 'E-mail']);
+  const plan = planCustomerImport(
+    [
+      ['Piet', 'piet@example.com'],
+      ['Bakkerij', 'info@bakkerij.nl'],
+      ['Fout', 'fout@example.com'],
+      ['', ''],
+    ],
+    mapping,
+    [existingCustomer({ name: 'Bakkerij' })],
+    'overwrite'
+  );
+
+  it('writes updates and one insert per batch', async () => {
+    const batch = vi.fn<ImportBatch>().mockResolvedValue({ error: null });
+    const overwritePlan = planCustomerImport(
+      [['Bakkerij Jansen & Zn', 'info@bakkerij.nl'], ['Piet', 'piet@example.com']],
+      mapping,
+      [existingCustomer({})],
+      'overwrite'
+    );
+
+    const result = await runCustomerImport(overwritePlan, 'org-1', batch);
+
+    expect(result).toEqual({ summary: { created: 1, updated: 1, skipped: 0, failed: 0 }, errors: [] });
+    expect(batch).toHaveBeenCalledTimes(1);
+    const operations = batch.mock.calls[0][0] as BatchOperation[];
+    expect(operations.map(operation => operation.operation)).toEqual(['update', 'insert']);
+    expect(operations[0].filters).toEqual({ id: 'customer-1', organization_id: 'org-1' });
+    expect(operations[1].data).toEqual([{ organization_id: 'org-1', name: 'Piet', email: 'piet@example.com', source: 'import' }]);
+  });
+
+  it('retries a failed batch row by row and reports the failing rows', async () => {
+    const batch = vi.fn<ImportBatch>(async operations => {
+      const rows = operations.flatMap(operation => (Array.isArray(operation.data) ? operation.data : [operation.data]));
+      return { error: rows.some(row => row.email === 'fout@example.com') ? 'duplicate key value' : null };
+    });
+
+    const result = await runCustomerImport(plan, 'org-1', batch);
+
+    expect(result.summary).toEqual({ created: 1, updated: 0, skipped: 1, failed: 2 });
+    expect(result.errors).toEqual([
+      { row: 4, name: 'Fout', email: 'fout@example.com', error: 'duplicate key value' },
+      { row: 5, name: null, email: null, error: 'Missing required field: name' },
+    ]);
+    expect(toImportErrorReport(result.errors)).toBe(
+      'Rij,Naam,E-mail,Fout\r\n4,Fout,fout@example.com,duplicate key value\r\n5,,,Missing required field: name'
+    );
+  });
+});
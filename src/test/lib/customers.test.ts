@@ -0,0 +1,75 @@
+/**
+ * Customer Tests
+ *
+ * Tests customer update validation and the account summary of the customer detail page
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseCustomerUpdate, summarizeCustomerAccount, toCustomerPayments } from '../../../lib/customers';
+import type { CustomerInvoice } from '../../../types/api/customer';
+
+const invoice = (overrides: Partial<CustomerInvoice>): CustomerInvoice => ({
+  id: 'invoice-1',
+  invoice_number: '2026-0001',
+  offer_id: null,
+  title: 'Website',
+  amount: 100,
+  total: 121,
+  currency: 'EUR',
+  status: 'sent',
+  invoice_type: 'full',
+  due_date: '2026-04-01',
+  paid_at: null,
+  created_at: '2026-03-01T10:00:00Z',
+  ...overrides,
+});
+
+describe('customer updates', () => {
+  it('only changes the fields that are sent', () => {
+    expect(parseCustomerUpdate({ status: 'vip', phone: '  ' })).toEqual({ updates: { status: 'vip', phone: null } });
+    expect(parseCustomerUpdate({ name: ' Bakkerij Jansen ', vat_number: 'nl 0044.95.445-b01' })).toEqual({
+      updates: { name: 'Bakkerij Jansen', vat_number: 'NL004495445B01' },
+    });
+  });
+
+  it('rejects invalid values', () => {
+    expect(parseCustomerUpdate({ name: '' }).error).toBe('Name cannot be empty');
+    expect(parseCustomerUpdate({ status: 'prospect' }).error).toBe('Status must be one of: lead, customer, vip, inactive');
+    expect(parseCustomerUpdate({ email: 'geen-email' }).error).toBe('Invalid email address');
+    expect(parseCustomerUpdate({ address: 'Dorpsstraat 1' }).error).toBe('Address must be an object');
+  });
+});
+
+describe('customer account summary', () => {
+  const invoices = [
+    invoice({ id: 'a', invoice_number: '2026-0001', status: 'paid', paid_at: '2026-02-10T09:00:00Z', total: 121 }),
+    invoice({ id: 'b', invoice_number: '2026-0002', status: 'paid', paid_at: '2026-03-05T09:00:00Z', total: 605 }),
+    invoice({ id: 'c', invoice_number: 'C2026-0001', status: 'paid', paid_at: '2026-03-06T09:00:00Z', total: -121, invoice_type: 'credit_note' }),
+    invoice({ id: 'd', invoice_number: '2026-0003', status: 'sent', total: 242 }),
+    invoice({ id: 'e', invoice_number: '2026-0004', status: 'overdue', total: 60.5 }),
+    invoice({ id: 'f', invoice_number: '2026-0005', status: 'draft', total: 1000 }),
+    invoice({ id: 'g', invoice_number: '2026-0006', status: 'cancelled', total: 50 }),
+  ];
+
+  it('lists payments newest first with refunds marked', () => {
+    expect(toCustomerPayments(invoices).map(payment => [payment.invoice_number, payment.amount, payment.refund])).toEqual([
+      ['C2026-0001', -121, true],
+      ['2026-0002', 605, false],
+      ['2026-0001', 121, false],
+    ]);
+  });
+
+  it('derives lifetime value and open balance from the invoices', () => {
+    const offers = [{ status: 'accepted' as const }, { status: 'sent' as const }];
+
+    expect(summarizeCustomerAccount(offers, invoices)).toEqual({
+      lifetime_value: 605,
+      open_balance: 302.5,
+      overdue_balance: 60.5,
+      offer_count: 2,
+      accepted_offer_count: 1,
+      invoice_count: 6,
+      last_payment_at: '2026-03-05T09:00:00Z',
+    });
+  });
+});
@@ -0,0 +1,49 @@
+/**
+ * Document PDF Tests
+ *
+ * Renders offer and invoice PDFs
+ */
+
+import { describe, it, expect } from 'vitest';
+import { PDFDocument } from 'pdf-lib';
+import { formatAddressLines, renderDocumentPdf, type PdfDocumentData } from '../../../lib/pdf/document-pdf';
+
+const invoice: PdfDocumentData = {
+  kind: 'invoice',
+  number: '2024-0001',
+  title: 'Website',
+  description: 'Ontwerp en bouw van de nieuwe website',
+  issueDate: '2024-03-01T10:00:00Z',
+  dueDate: '2024-03-31',
+  currency: 'EUR',
+  seller: {
+    name: 'QuoteFast B.V.',
+    address: { street: 'Damrak 1', postal_code: '1012 LG', city: 'Amsterdam' },
+    vatNumber: 'NL123456789B01',
+    iban: 'NL91ABNA0417164300',
+  },
+  customer: { name: 'ABC Bedrijf', email: 'info@abc.nl' },
+  items: [
+    { name: 'Ontwerp', quantity: 2, price: 250 },
+    { name: 'Boek', description: 'Handleiding', quantity: 1, price: 100, vatRate: 'reduced' },
+  ],
+  paymentTermsDays: 30,
+};
+
+describe('document PDF', () => {
+  it('formats structured addresses', () => {
+    expect(formatAddressLines(invoice.seller.address)).toEqual(['Damrak 1', '1012 LG Amsterdam']);
+    expect(formatAddressLines(null)).toEqual([]);
+  });
+
+  it('renders a valid PDF, adding pages for long item lists', async () => {
+    const bytes = await renderDocumentPdf({
+      ...invoice,
+      items: Array.from({ length: 60 }, (_, index) => ({ name: `Regel ${index + 1} – “extra”`, quantity: 1, price: 10 })),
+    });
+    const pdf = await PDFDocument.load(bytes);
+
+    expect(pdf.getTitle()).toBe('FACTUUR 2024-0001');
+    expect(pdf.getPageCount()).toBeGreaterThan(1);
+  });
+});
@@ -0,0 +1,201 @@
+/**
+ * Dunning Tests
+ *
+ * Runs the overdue sweep and the reminder flow with a stubbed Inngest step
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  DEFAULT_REMINDER_SCHEDULE,
+  INVOICE_OVERDUE_EVENT,
+  isValidReminderSchedule,
+  markOverdueInvoices,
+  reminderDate,
+  runInvoiceDunning,
+  type DunningActivity,
+  type DunningInvoice,
+  type DunningMailer,
+  type DunningStep,
+  type DunningStore,
+  type OverdueInvoice,
+} from '../../../lib/dunning';
+import { fillTemplate, type CustomEmailTemplate, type PaymentReminderEmailParams } from '../../../lib/email/email';
+
+class MemoryStore implements DunningStore {
+  invoice: DunningInvoice = {
+    id: 'invoice-1',
+    organization_id: 'org-1',
+    invoice_number: '2026-0001',
+    invoice_type: 'full',
+    status: 'overdue',
+    amount: 100,
+    total: 121,
+    currency: 'EUR',
+    due_date: '2026-01-01',
+    pdf_url: 'https://example.com/factuur.pdf',
+    payment_url: 'https://buy.stripe.com/test_1',
+    reminders_sent: 0,
+    customer_name: 'Jan Jansen',
+    customer_email: 'jan@example.com',
+  };
+  organization = { name: 'Bouwbedrijf De Vries', dunning_enabled: true, reminder_schedule: DEFAULT_REMINDER_SCHEDULE as unknown };
+  templates = new Map<string, CustomEmailTemplate>();
+  activity: DunningActivity[] = [];
+  overdue: OverdueInvoice[] = [];
+
+  async markOverdue() {
+    return this.overdue;
+  }
+
+  async getInvoice() {
+    return { ...this.invoice };
+  }
+
+  async getOrganization() {
+    return this.organization;
+  }
+
+  async getTemplate(_organizationId: string, level: string) {
+    return this.templates.get(level) || null;
+  }
+
+  async recordReminder(_invoiceId: string, remindersSent: number) {
+    this.invoice.reminders_sent = remindersSent;
+  }
+
+  async logActivity(activity: DunningActivity) {
+    this.activity.push(activity);
+  }
+}
+
+// Runs every step inline; hooks let a test change the world while the flow sleeps
+const stubStep = (onSleep: (id: string) => void = () => {}) => {
+  const step = {
+    run: vi.fn(async (_id: string, fn: () => unknown) => fn()),
+    sleepUntil: vi.fn(async (id: string) => onSleep(id)),
+    sendEvent: vi.fn(async () => ({ ids: [] })),
+  };
+  return { step, asStep: step as unknown as DunningStep };
+};
+
+const stubMailer = () => {
+  const sent: PaymentReminderEmailParams[] = [];
+  const mailer: DunningMailer = {
+    sendPaymentReminder: vi.fn(async (params: PaymentReminderEmailParams) => {
+      sent.push(params);
+      return { success: true as const, messageId: `msg-${sent.length}`, data: { id: `msg-${sent.length}`, provider: 'mock' as const, timestamp: '' } };
+    }),
+  };
+  return { mailer, sent };
+};
+
+describe('markOverdueInvoices', () => {
+  it('logs each overdue invoice and starts its reminder flow', async () => {
+    const store = new MemoryStore();
+    store.overdue = [{ id: 'invoice-1', organization_id: 'org-1', invoice_number: '2026-0001', due_date: '2026-01-01' }];
+    const { step, asStep } = stubStep();
+
+    expect(await markOverdueInvoices(asStep, store, '2026-01-02')).toEqual({ marked: 1 });
+    expect(store.activity[0]).toMatchObject({ action: 'invoice_status_changed:overdue', resource_id: 'invoice-1' });
+    expect(step.sendEvent).toHaveBeenCalledWith('start-reminders', [
+      { name: INVOICE_OVERDUE_EVENT, data: { invoiceId: 'invoice-1', organizationId: 'org-1' } },
+    ]);
+  });
+
+  it('does nothing when no invoice became overdue', async () => {
+    const { step, asStep } = stubStep();
+    expect(await markOverdueInvoices(asStep, new MemoryStore(), '2026-01-02')).toEqual({ marked: 0 });
+    expect(step.sendEvent).not.toHaveBeenCalled();
+  });
+});
+
+describe('runInvoiceDunning', () => {
+  let store: MemoryStore;
+
+  beforeEach(() => {
+    store = new MemoryStore();
+  });
+
+  it('escalates from friendly to firm to final on the schedule', async () => {
+    const { step, asStep } = stubStep();
+    const { mailer, sent } = stubMailer();
+
+    expect(await runInvoiceDunning('invoice-1', asStep, store, mailer)).toEqual({ status: 'completed', sent: 3 });
+    expect(sent.map(params => params.level)).toEqual(['friendly', 'firm', 'final']);
+    expect(sent[0]).toMatchObject({ email: 'jan@example.com', amount: 121, paymentUrl: 'https://buy.stripe.com/test_1' });
+    expect(step.sleepUntil.mock.calls.map(call => call[1])).toEqual([
+      reminderDate('2026-01-01', 3),
+      reminderDate('2026-01-01', 14),
+      reminderDate('2026-01-01', 30),
+    ]);
+    expect(store.invoice.reminders_sent).toBe(3);
+    expect(store.activity.map(entry => entry.action)).toEqual([
+      'invoice_reminder_sent:friendly',
+      'invoice_reminder_sent:firm',
+      'invoice_reminder_sent:final',
+    ]);
+  });
+
+  it('stops as soon as the invoice is paid', async () => {
+    const { asStep } = stubStep(id => {
+      if (id === 'wait-firm') store.invoice.status = 'paid';
+    });
+    const { mailer, sent } = stubMailer();
+
+    expect(await runInvoiceDunning('invoice-1', asStep, store, mailer)).toEqual({ status: 'stopped', reason: 'paid', sent: 1 });
+    expect(sent).toHaveLength(1);
+    expect(store.activity[1]).toMatchObject({ action: 'invoice_reminders_stopped', metadata: { reason: 'paid' } });
+  });
+
+  it('stops when the invoice is cancelled', async () => {
+    store.invoice.status = 'cancelled';
+    const { asStep } = stubStep();
+    const { mailer, sent } = stubMailer();
+
+    expect(await runInvoiceDunning('invoice-1', asStep, store, mailer)).toMatchObject({ status: 'stopped', reason: 'cancelled' });
+    expect(sent).toHaveLength(0);
+  });
+
+  it('skips reminders that were already sent', async () => {
+    store.invoice.reminders_sent = 2;
+    const { step, asStep } = stubStep();
+    const { mailer, sent } = stubMailer();
+
+    await runInvoiceDunning('invoice-1', asStep, store, mailer);
+    expect(sent.map(params => params.level)).toEqual(['final']);
+    expect(step.sleepUntil).toHaveBeenCalledTimes(1);
+  });
+
+  it('sends nothing when the organization disabled reminders', async () => {
+    store.organization.dunning_enabled = false;
+    const { asStep } = stubStep();
+    const { mailer, sent } = stubMailer();
+
+    expect(await runInvoiceDunning('invoice-1', asStep, store, mailer)).toEqual({ status: 'disabled', sent: 0 });
+    expect(sent).toHaveLength(0);
+  });
+
+  it('passes the organization template and throws when sending fails', async () => {
+    const template = { subject: 'Betaal {{invoice_number}}', html_content: '<p>{{amount}}</p>', text_content: null };
+    store.templates.set('friendly', template);
+    const { asStep } = stubStep();
+    const mailer: DunningMailer = { sendPaymentReminder: vi.fn(async () => ({ success: false as const, error: 'provider down' })) };
+
+    await expect(runInvoiceDunning('invoice-1', asStep, store, mailer)).rejects.toThrow('provider down');
+    expect(mailer.sendPaymentReminder).toHaveBeenCalledWith(expect.objectContaining({ template }));
+    expect(store.invoice.reminders_sent).toBe(0);
+  });
+});
+
+describe('reminder schedule', () => {
+  it('requires increasing whole days per level', () => {
+    expect(isValidReminderSchedule({ friendly: 0, firm: 7, final: 21 })).toBe(true);
+    expect(isValidReminderSchedule({ friendly: 7, firm: 7, final: 21 })).toBe(false);
+    expect(isValidReminderSchedule({ friendly: 3, firm: 14 })).toBe(false);
+  });
+
+  it('fills template placeholders', () => {
+    expect(fillTemplate('Factuur {{ invoice_number }} {{unknown}}', { invoice_number: '2026-0001' }))
+      .toBe('Factuur 2026-0001 {{unknown}}');
+  });
+});
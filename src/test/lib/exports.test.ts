@@ -0,0 +1,148 @@
+/**
+ * Export Tests
+ *
+ * Tests parsing export requests, turning rows into columns and line items, and writing xlsx files
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  exportColumns,
+  parseExportRequest,
+  toExportHeader,
+  toExportRecord,
+  toExportRow,
+  toLineItemRows,
+  type ExportRow,
+} from '../../../lib/exports';
+import { MAX_ZIP_ENTRY_SIZE, readXlsx, readZip, writeXlsx, writeZip } from '../../../lib/spreadsheet/xlsx';
+import { autoMapColumns } from '../../../lib/customer-import';
+
+const offer: ExportRow = {
+  id: 'offer-1',
+  title: 'Website',
+  client_name: 'Bakkerij Jansen',
+  status: 'sent',
+  amount: '1000.00',
+  vat_amount: '210.00',
+  total: '1210.00',
+  currency: 'EUR',
+  created_at: '2024-05-01T10:00:00Z',
+  products: [
+    { name: 'Ontwerp', quantity: 2, price: 300, vat_rate: 'standard' },
+    { name: 'Hosting', description: 'Per jaar', quantity: 1, price: 400 },
+  ],
+};
+
+describe('export request', () => {
+  it('defaults to all columns, newest first and no line items', () => {
+    const parsed = parseExportRequest({ resource: 'customers', format: 'csv', include_items: true });
+
+    expect(parsed.request).toMatchObject({
+      ids: null,
+      search: null,
+      sort: { key: 'created_at', direction: 'desc' },
+      include_items: false,
+    });
+    expect(parsed.request?.columns[0]).toBe('id');
+  });
+
+  it('keeps the filters and sort of the list', () => {
+    const parsed = parseExportRequest({
+      resource: 'offers',
+      format: 'xlsx',
+      columns: ['title', 'total'],
+      ids: ['offer-1'],
+      search: ' jansen ',
+      sort: { key: 'amount', direction: 'asc' },
+      include_items: true,
+    });
+
+    expect(parsed.request).toEqual({
+      resource: 'offers',
+      format: 'xlsx',
+      columns: ['title', 'total'],
+      ids: ['offer-1'],
+      search: 'jansen',
+      status: null,
+      sort: { key: 'amount', direction: 'asc' },
+      include_items: true,
+    });
+  });
+
+  it('rejects unknown resources, columns and sort keys', () => {
+    expect(parseExportRequest({ resource: 'payments', format: 'csv' }).error).toMatch(/Invalid resource/);
+    expect(parseExportRequest({ resource: 'offers', format: 'pdf' }).error).toMatch(/Invalid format/);
+    expect(parseExportRequest({ resource: 'offers', format: 'csv', columns: [] }).error).toMatch(/non-empty/);
+    expect(parseExportRequest({ resource: 'offers', format: 'csv', columns: ['portal_token'] }).error).toBe('Unknown column: portal_token');
+    expect(parseExportRequest({ resource: 'offers', format: 'csv', sort: { key: 'products' } }).error).toBe('Cannot sort by: products');
+  });
+});
+
+describe('export rows', () => {
+  const request = parseExportRequest({ resource: 'offers', format: 'csv', columns: ['title', 'status', 'total'] }).request!;
+  const columns = exportColumns(request);
+
+  it('writes the chosen columns with numeric amounts', () => {
+    expect(toExportHeader(columns)).toEqual(['Titel', 'Status', 'Totaal']);
+    expect(toExportRow(offer, columns)).toEqual(['Website', 'sent', 1210]);
+  });
+
+  it('lists line items with a reference to their offer or invoice', () => {
+    expect(toLineItemRows('offers', offer)).toEqual([
+      ['offer-1', 'Website', 'Ontwerp', null, 2, 300, 'standard', 600],
+      ['offer-1', 'Website', 'Hosting', 'Per jaar', 1, 400, null, 400],
+    ]);
+    expect(toLineItemRows('invoices', {
+      id: 'invoice-1',
+      invoice_number: '2024-0001',
+      items: JSON.stringify([{ name: 'Uren', description: '', quantity: 3, price: 80, total: 240 }]),
+    })).toEqual([['invoice-1', '2024-0001', 'Uren', null, 3, 80, null, 240]]);
+  });
+
+  it('nests line items in JSON records', () => {
+    const record = toExportRecord('offers', offer, columns, true);
+    expect(record).toMatchObject({ title: 'Website', status: 'sent', total: 1210 });
+    expect(record.items).toHaveLength(2);
+  });
+
+  it('uses customer headers the import recognises', () => {
+    const customerColumns = exportColumns(parseExportRequest({ resource: 'customers', format: 'csv' }).request!);
+    const mapping = autoMapColumns(toExportHeader(customerColumns));
+    expect(mapping.filter(Boolean)).toHaveLength(11);
+  });
+});
+
+describe('xlsx writer', () => {
+  it('writes sheets that read back with the same values', () => {
+    const bytes = writeXlsx([
+      { name: 'offertes', rows: [['Titel', 'Totaal'], ['Tom & Jerry <BV>', 1210.5], ['Leeg', null]] },
+      { name: 'regels', rows: [['Naam'], ['Ontwerp']] },
+    ]);
+
+    expect(readXlsx(bytes)).toEqual([['Titel', 'Totaal'], ['Tom & Jerry <BV>', '1210.5'], ['Leeg']]);
+    expect([...readZip(bytes).keys()]).toContain('xl/worksheets/sheet2.xml');
+  });
+
+  it('writes zip archives with deflated files', () => {
+    const files = readZip(writeZip([{ name: 'klanten.csv', data: 'Naam\r\nJansen' }]));
+    expect(files.get('klanten.csv')?.toString('utf8')).toBe('Naam\r\nJansen');
+  });
+});
+
+describe('xlsx reader limits', () => {
+  const sheet = '<worksheet><sheetData><row r="1"><c r="A1" t="inlineStr"><is><t>Jansen</t></is></c></row></sheetData></worksheet>';
+  const oversized = 'a'.repeat(MAX_ZIP_ENTRY_SIZE + 1);
+
+  it('only decompresses the parts it reads', () => {
+    const bytes = writeZip([
+      { name: 'xl/worksheets/sheet1.xml', data: sheet },
+      { name: 'xl/media/image1.bin', data: oversized },
+    ]);
+    expect(readXlsx(bytes)).toEqual([['Jansen']]);
+  });
+
+  it('refuses a worksheet that expands beyond the limit', () => {
+    const bytes = writeZip([{ name: 'xl/worksheets/sheet1.xml', data: oversized }]);
+    expect(() => readXlsx(bytes)).toThrow('The xlsx file is too large to read');
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * Invoice Payment Link Tests
+ *
+ * Tests the Stripe payment link parameters and link rotation for invoices
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import type Stripe from 'stripe';
+import {
+  buildPaymentLinkParams,
+  createInvoicePaymentLink,
+  type PayableInvoice,
+} from '../../../lib/billing/invoice-payments';
+import { getOutstandingAmount } from '../../../lib/invoices';
+
+const invoice: PayableInvoice = {
+  id: 'invoice-1',
+  organization_id: 'org-1',
+  invoice_number: '2026-0001',
+  invoice_type: 'full',
+  status: 'sent',
+  amount: 100,
+  total: 121,
+  currency: 'EUR',
+  stripe_payment_link_id: null,
+};
+
+const fakeStripe = () => {
+  const paymentLinks = {
+    create: vi.fn(async () => ({ id: 'plink_new', url: 'https://buy.stripe.com/test_new' })),
+    update: vi.fn(async () => ({})),
+  };
+  return { stripe: { paymentLinks } as unknown as Stripe, paymentLinks };
+};
+
+describe('getOutstandingAmount', () => {
+  it('is the total including VAT for open invoices', () => {
+    expect(getOutstandingAmount({ ...invoice, total: 121 })).toBe(121);
+    expect(getOutstandingAmount({ ...invoice, status: 'overdue', total: 121 })).toBe(121);
+  });
+
+  it('is zero for paid, cancelled and credit note invoices', () => {
+    expect(getOutstandingAmount({ ...invoice, status: 'paid' })).toBe(0);
+    expect(getOutstandingAmount({ ...invoice, status: 'cancelled' })).toBe(0);
+    expect(getOutstandingAmount({ ...invoice, invoice_type: 'credit_note', total: -121 })).toBe(0);
+  });
+});
+
+describe('buildPaymentLinkParams', () => {
+  it('charges the outstanding amount in cents with iDEAL and Bancontact for euro', () => {
+    const params = buildPaymentLinkParams(invoice);
+
+    expect(params.line_items[0].price_data).toEqual({
+      currency: 'eur',
+      unit_amount: 12100,
+      product_data: { name: 'Factuur 2026-0001' },
+    });
+    expect(params.payment_method_types).toEqual(['card', 'ideal', 'bancontact']);
+    expect(params.restrictions).toEqual({ completed_sessions: { limit: 1 } });
+    expect(params.metadata).toEqual({ invoice_id: 'invoice-1', organization_id: 'org-1' });
+  });
+
+  it('only offers card payments for other currencies', () => {
+    expect(buildPaymentLinkParams({ ...invoice, currency: 'USD' }).payment_method_types).toEqual(['card']);
+  });
+});
+
+describe('createInvoicePaymentLink', () => {
+  it('deactivates the previous link before creating a new one', async () => {
+    const { stripe, paymentLinks } = fakeStripe();
+
+    const link = await createInvoicePaymentLink(stripe, { ...invoice, stripe_payment_link_id: 'plink_old' });
+
+    expect(paymentLinks.update).toHaveBeenCalledWith('plink_old', { active: false });
+    expect(link).toEqual({ stripe_payment_link_id: 'plink_new', payment_url: 'https://buy.stripe.com/test_new' });
+  });
+
+  it('creates no link when nothing is left to pay', async () => {
+    const { stripe, paymentLinks } = fakeStripe();
+
+    expect(await createInvoicePaymentLink(stripe, { ...invoice, status: 'paid' })).toBeNull();
+    expect(paymentLinks.create).not.toHaveBeenCalled();
+  });
+});
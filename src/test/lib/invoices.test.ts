@@ -0,0 +1,172 @@
+/**
+ * Invoice Helper Tests
+ *
+ * Invoice numbering and turning accepted offers into (partial) invoices
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  InvoiceConversionError,
+  calculateDueDate,
+  formatInvoiceNumber,
+  isDeletableInvoice,
+  isValidNumberPattern,
+  planCreditNote,
+  planOfferInvoice,
+  type ExistingOfferInvoice,
+} from '../../../lib/invoices';
+import type { Offer } from '../../../types/api/offer';
+
+const offer = {
+  id: 'offer-1',
+  organization_id: 'org-1',
+  title: 'Website',
+  client_name: 'ABC',
+  client_id: 'customer-1',
+  amount: 1000,
+  currency: 'EUR',
+  status: 'accepted',
+  due_date: null,
+  terms: { description: 'Nieuwe website' },
+  products: [
+    { name: 'Ontwerp', quantity: 2, price: 250 },
+    { name: 'Bouw', quantity: 1, price: 500 },
+  ],
+} as unknown as Offer;
+
+const deposit: ExistingOfferInvoice = {
+  id: 'invoice-1',
+  invoice_number: '2024-0007',
+  invoice_type: 'deposit',
+  items: [{ name: 'Aanbetaling 30%', description: 'Website', quantity: 1, price: 300, total: 300, vat_rate: 'standard' }],
+  amount: 300,
+  status: 'sent',
+  deposit_percentage: 30,
+  created_at: '2024-03-01T00:00:00Z',
+};
+
+describe('invoice numbering', () => {
+  it('formats numbers from the configured pattern', () => {
+    expect(formatInvoiceNumber('{YYYY}-{0000}', 2024, 13)).toBe('2024-0013');
+    expect(formatInvoiceNumber('C{YY}/{000000}', 2025, 7)).toBe('C25/000007');
+  });
+
+  it('requires exactly one sequence token in a pattern', () => {
+    expect(isValidNumberPattern('F{YYYY}{000}')).toBe(true);
+    expect(isValidNumberPattern('{YYYY}')).toBe(false);
+    expect(isValidNumberPattern('{000}-{000}')).toBe(false);
+  });
+
+  it('adds the payment terms to the due date', () => {
+    expect(calculateDueDate(new Date('2024-01-20T12:00:00Z'), 14)).toBe('2024-02-03');
+  });
+});
+
+describe('planOfferInvoice', () => {
+  it('copies all products into a full invoice', () => {
+    const plan = planOfferInvoice(offer, []);
+
+    expect(plan.invoice_type).toBe('full');
+    expect(plan.amount).toBe(1000);
+    expect(plan.vat_amount).toBe(210);
+    expect(plan.total).toBe(1210);
+    expect(plan.items).toHaveLength(2);
+    expect(plan.items[0]).toMatchObject({ name: 'Ontwerp', total: 500, vat_rate: 'standard' });
+    expect(plan.parent_invoice_id).toBeNull();
+  });
+
+  it('invoices a percentage as a deposit', () => {
+    const plan = planOfferInvoice(offer, [], { deposit_percentage: 30 });
+
+    expect(plan.invoice_type).toBe('deposit');
+    expect(plan.amount).toBe(300);
+    expect(plan.items).toEqual([
+      { name: 'Aanbetaling 30%', description: 'Website', quantity: 1, price: 300, total: 300, vat_rate: 'standard' },
+    ]);
+  });
+
+  it('splits a deposit per VAT rate', () => {
+    const mixed = {
+      ...offer,
+      products: [
+        { name: 'Bouw', quantity: 1, price: 800, vat_rate: 'standard' },
+        { name: 'Boeken', quantity: 1, price: 200, vat_rate: 'reduced' },
+      ],
+    } as Offer;
+    const plan = planOfferInvoice(mixed, [], { deposit_percentage: 50 });
+
+    expect(plan.items.map(item => [item.name, item.total, item.vat_rate])).toEqual([
+      ['Aanbetaling 50% (BTW 21%)', 400, 'standard'],
+      ['Aanbetaling 50% (BTW 9%)', 100, 'reduced'],
+    ]);
+    expect(plan.vat_amount).toBe(93);
+  });
+
+  it('deducts deposits on the final invoice and references the first one', () => {
+    const plan = planOfferInvoice(offer, [deposit]);
+
+    expect(plan.invoice_type).toBe('final');
+    expect(plan.parent_invoice_id).toBe('invoice-1');
+    expect(plan.amount).toBe(700);
+    expect(plan.total).toBe(847);
+    expect(plan.items[2]).toMatchObject({ name: 'Reeds gefactureerd (2024-0007)', total: -300, vat_rate: 'standard' });
+  });
+
+  it('deducts deposits without lines at the default rate', () => {
+    const plan = planOfferInvoice(offer, [{ ...deposit, items: null }]);
+    expect(plan.items[2]).toMatchObject({ total: -300, vat_rate: 'standard' });
+    expect(plan.amount).toBe(700);
+  });
+
+  it('rejects offers that are not accepted or already invoiced', () => {
+    expect(() => planOfferInvoice({ ...offer, status: 'sent' }, [])).toThrow(InvoiceConversionError);
+    expect(() => planOfferInvoice(offer, [{ ...deposit, invoice_type: 'full' }])).toThrow('already been fully invoiced');
+    expect(() => planOfferInvoice(offer, [deposit], { deposit_percentage: 70 })).toThrow(InvoiceConversionError);
+  });
+
+  it('refuses the final invoice while a deposit is still a draft', () => {
+    const draft: ExistingOfferInvoice = { ...deposit, status: 'draft', invoice_number: null };
+    expect(() => planOfferInvoice(offer, [draft])).toThrow('draft deposit');
+    expect(planOfferInvoice(offer, [draft], { deposit_percentage: 20 }).invoice_type).toBe('deposit');
+  });
+
+  it('ignores cancelled invoices', () => {
+    expect(planOfferInvoice(offer, [{ ...deposit, status: 'cancelled' }]).invoice_type).toBe('full');
+  });
+});
+
+describe('isDeletableInvoice', () => {
+  it('only allows deleting drafts that were never numbered', () => {
+    expect(isDeletableInvoice({ status: 'draft', invoice_number: null })).toBe(true);
+    expect(isDeletableInvoice({ status: 'draft', invoice_number: '2024-0009' })).toBe(false);
+    expect(isDeletableInvoice({ status: 'sent', invoice_number: '2024-0009' })).toBe(false);
+    expect(isDeletableInvoice({ status: 'cancelled', invoice_number: '2024-0009' })).toBe(false);
+  });
+});
+
+describe('planCreditNote', () => {
+  it('reverses every line of the credited invoice', () => {
+    const plan = planCreditNote({
+      invoice_number: '2024-0009',
+      invoice_type: 'full',
+      title: 'Website',
+      items: JSON.stringify([{ name: 'Bouw', description: '', quantity: 2, price: 50, total: 100, vat_rate: 'reduced' }]),
+      amount: 100,
+      vat_amount: 9,
+      total: 109,
+      status: 'sent',
+    });
+
+    expect(plan.title).toBe('Creditnota 2024-0009: Website');
+    expect(plan.amount).toBe(-100);
+    expect(plan.vat_amount).toBe(-9);
+    expect(plan.total).toBe(-109);
+    expect(plan.items).toEqual([{ name: 'Bouw', description: '', quantity: 2, price: -50, total: -100, vat_rate: 'reduced' }]);
+  });
+
+  it('only credits finalised invoices', () => {
+    const invoice = { invoice_number: 'C2024-0001', invoice_type: 'credit_note' as const, title: null, items: [], amount: -10, vat_amount: -2.1, total: -12.1, status: 'sent' as const };
+    expect(() => planCreditNote(invoice)).toThrow(InvoiceConversionError);
+    expect(() => planCreditNote({ ...invoice, invoice_type: 'full', status: 'draft' })).toThrow('Only sent or paid');
+  });
+});
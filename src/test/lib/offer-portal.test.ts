@@ -0,0 +1,106 @@
+/**
+ * Offer Portal Tests
+ *
+ * Validation and response rules for the public /o/[token] portal
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  getOfferPortalUrl,
+  getOfferResponseBlocker,
+  offerResponseSchema,
+  toPublicOffer,
+} from '../../../lib/offer-portal';
+import type { Offer } from '../../../types/api/offer';
+
+const offer = {
+  id: 'offer-1',
+  organization_id: 'org-1',
+  client_id: 'customer-1',
+  client_name: 'Bakkerij Jansen',
+  title: 'Nieuwe website',
+  amount: 1500,
+  currency: 'EUR',
+  status: 'sent',
+  due_date: '2026-02-01',
+  products: [{ name: 'Ontwerp', quantity: 1, price: 1500 }],
+  terms: { description: 'Inclusief hosting', notes: 'Interne marge 30%' },
+  pdf_url: null,
+  public_token: 'abc123',
+  created_at: '2026-01-01T10:00:00Z',
+} as unknown as Offer;
+
+describe('offerResponseSchema', () => {
+  it('accepts a typed signature', () => {
+    const result = offerResponseSchema.safeParse({
+      action: 'accept',
+      name: 'Piet Jansen',
+      signature_type: 'typed',
+      signature: 'Piet Jansen',
+    });
+    expect(result.success).toBe(true);
+  });
+
+  it('requires a PNG data URL for drawn signatures', () => {
+    const invalid = offerResponseSchema.safeParse({
+      action: 'accept',
+      name: 'Piet Jansen',
+      signature_type: 'drawn',
+      signature: 'https://example.com/sig.png',
+    });
+    const valid = offerResponseSchema.safeParse({
+      action: 'accept',
+      name: 'Piet Jansen',
+      signature_type: 'drawn',
+      signature: 'data:image/png;base64,iVBORw0KGgo=',
+    });
+    expect(invalid.success).toBe(false);
+    expect(valid.success).toBe(true);
+  });
+
+  it('requires a reason when rejecting', () => {
+    const result = offerResponseSchema.safeParse({ action: 'reject', name: 'Piet Jansen', reason: '' });
+    expect(result.success).toBe(false);
+  });
+});
+
+describe('getOfferResponseBlocker', () => {
+  const now = new Date('2026-01-15T12:00:00');
+
+  it('allows a response to sent and viewed offers', () => {
+    expect(getOfferResponseBlocker({ status: 'sent', due_date: '2026-02-01' }, now)).toBeNull();
+    expect(getOfferResponseBlocker({ status: 'viewed', due_date: null }, now)).toBeNull();
+  });
+
+  it('blocks offers that were already answered', () => {
+    expect(getOfferResponseBlocker({ status: 'accepted', due_date: null }, now)).toBe('Deze offerte is al geaccepteerd');
+    expect(getOfferResponseBlocker({ status: 'rejected', due_date: null }, now)).toBe('Deze offerte is afgewezen');
+  });
+
+  it('blocks offers past their validity date but not on the last day', () => {
+    expect(getOfferResponseBlocker({ status: 'sent', due_date: '2026-01-14' }, now)).toBe('Deze offerte is verlopen');
+    expect(getOfferResponseBlocker({ status: 'sent', due_date: '2026-01-15' }, now)).toBeNull();
+  });
+});
+
+describe('toPublicOffer', () => {
+  it('exposes the description but not internal notes or ids', () => {
+    const publicOffer = toPublicOffer(offer, 'Webbureau');
+    expect(publicOffer.description).toBe('Inclusief hosting');
+    expect(publicOffer.organization_name).toBe('Webbureau');
+    expect(JSON.stringify(publicOffer)).not.toContain('Interne marge');
+    expect(publicOffer).not.toHaveProperty('id');
+    expect(publicOffer).not.toHaveProperty('public_token');
+  });
+
+  it('links the PDF through the token route instead of the storage bucket', () => {
+    expect(toPublicOffer(offer, 'Webbureau').pdf_url).toBeNull();
+    expect(toPublicOffer({ ...offer, pdf_url: '/api/offers/offer-1/pdf' }, 'Webbureau').pdf_url).toBe('/api/o/abc123/pdf');
+  });
+});
+
+describe('getOfferPortalUrl', () => {
+  it('builds the portal link from the token', () => {
+    expect(getOfferPortalUrl('abc123', 'https://app.quotefast.nl')).toBe('https://app.quotefast.nl/o/abc123');
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * Offer Helper Tests
+ *
+ * Amount calculation, product normalization and revision diffs for offers
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  calculateOfferAmount,
+  diffOfferRevisions,
+  isOfferStatus,
+  normalizeOfferProducts,
+  offerStatusChangeError,
+  toDuplicateOfferInput,
+  toRestoredOfferInput,
+} from '../../../lib/offers';
+import type { Offer, OfferRevision } from '../../../types/api/offer';
+
+describe('offer helpers', () => {
+  it('sums quantity times price rounded to cents', () => {
+    expect(calculateOfferAmount([
+      { name: 'Uren', quantity: 3, price: 33.333 },
+      { name: 'Licentie', quantity: 1, price: 100 },
+    ])).toBe(200);
+  });
+
+  it('drops empty rows and coerces numeric input', () => {
+    expect(normalizeOfferProducts([
+      { name: ' Ontwerp ', quantity: '2', price: '125.50' },
+      { name: 'Boek', quantity: 1, price: 20, vat_rate: 9 },
+      { name: '', quantity: 1, price: 10 },
+      null,
+    ])).toEqual([
+      { name: 'Ontwerp', description: '', quantity: 2, price: 125.5, vat_rate: 'standard' },
+      { name: 'Boek', description: '', quantity: 1, price: 20, vat_rate: 'reduced' },
+    ]);
+    expect(normalizeOfferProducts('invalid')).toEqual([]);
+  });
+
+  it('duplicates an offer as a draft copy', () => {
+    const offer = {
+      id: 'offer-1',
+      title: 'Website',
+      client_name: 'ABC',
+      client_id: null,
+      currency: 'EUR',
+      status: 'accepted',
+      due_date: null,
+      terms: null,
+      products: [],
+    } as unknown as Offer;
+
+    expect(toDuplicateOfferInput(offer)).toMatchObject({ title: 'Website (kopie)', status: 'draft' });
+  });
+});
+
+describe('isOfferStatus', () => {
+  it('accepts the statuses of the offers table only', () => {
+    expect(isOfferStatus('accepted')).toBe(true);
+    expect(isOfferStatus('paid')).toBe(false);
+    expect(isOfferStatus(undefined)).toBe(false);
+  });
+});
+
+describe('offerStatusChangeError', () => {
+  it('requires offers:send to mark an offer as sent', () => {
+    expect(offerStatusChangeError('designer', 'draft', 'sent')).toMatch(/offers:send/);
+    expect(offerStatusChangeError('developer', 'draft', 'sent')).toBeNull();
+    expect(offerStatusChangeError('designer', 'sent', 'expired')).toBeNull();
+  });
+
+  it('leaves accepted and rejected to the offer portal', () => {
+    expect(offerStatusChangeError('owner', 'sent', 'accepted')).toMatch(/offer portal/);
+    expect(offerStatusChangeError('owner', null, 'rejected')).toMatch(/offer portal/);
+    // Saving an accepted offer again keeps its status
+    expect(offerStatusChangeError('designer', 'accepted', 'accepted')).toBeNull();
+  });
+});
+
+describe('offer revision diff', () => {
+  const revision = (version: number, overrides: Partial<OfferRevision> = {}): OfferRevision => ({
+    id: `revision-${version}`,
+    offer_id: 'offer-1',
+    organization_id: 'org-1',
+    version,
+    title: 'Website',
+    client_name: 'ABC',
+    client_id: null,
+    amount: 250,
+    currency: 'EUR',
+    status: 'sent',
+    due_date: null,
+    terms: null,
+    products: [{ name: 'Ontwerp', quantity: 2, price: 125 }],
+    created_by: null,
+    created_at: '2024-01-01T00:00:00Z',
+    ...overrides,
+  });
+
+  it('marks changed lines as removed and added', () => {
+    const diff = diffOfferRevisions(
+      revision(1),
+      revision(2, { amount: 375, products: [{ name: 'Ontwerp', quantity: 3, price: 125 }] })
+    );
+
+    expect(diff.filter(line => line.type !== 'unchanged')).toEqual([
+      { type: 'removed', text: 'Item: Ontwerp - 2 x 125.00' },
+      { type: 'removed', text: 'Totaal: 250.00' },
+      { type: 'added', text: 'Item: Ontwerp - 3 x 125.00' },
+      { type: 'added', text: 'Totaal: 375.00' },
+    ]);
+    expect(diff[0]).toEqual({ type: 'unchanged', text: 'Titel: Website' });
+  });
+
+  it('restores a revision as a new draft', () => {
+    expect(toRestoredOfferInput(revision(3))).toMatchObject({
+      title: 'Website (versie 3)',
+      status: 'draft',
+      products: [{ name: 'Ontwerp', quantity: 2, price: 125 }],
+    });
+  });
+});
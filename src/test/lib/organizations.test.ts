@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { pickActiveMembership } from '../../../lib/auth/organization';
+import {
+  generateOrganizationSlug,
+  parseOrganizationInput,
+  slugifyOrganizationName,
+} from '../../../lib/organizations';
+
+describe('pickActiveMembership', () => {
+  const memberships = [
+    { organization_id: 'org-1', role: 'owner' },
+    { organization_id: 'org-2', role: 'support' },
+  ];
+
+  it('uses the organization from the cookie', () => {
+    expect(pickActiveMembership(memberships, 'org-2')).toEqual(memberships[1]);
+  });
+
+  it('falls back to the oldest membership without a cookie', () => {
+    expect(pickActiveMembership(memberships, null)).toEqual(memberships[0]);
+  });
+
+  it('ignores an organization the user no longer belongs to', () => {
+    expect(pickActiveMembership(memberships, 'org-removed')).toEqual(memberships[0]);
+  });
+
+  it('returns null without memberships', () => {
+    expect(pickActiveMembership([], 'org-1')).toBeNull();
+  });
+});
+
+describe('slugifyOrganizationName', () => {
+  it('strips accents and punctuation', () => {
+    expect(slugifyOrganizationName("Bakkerij Café 't Hoekje")).toBe('bakkerij-cafe-t-hoekje');
+  });
+
+  it('has a fallback for names without letters or digits', () => {
+    expect(slugifyOrganizationName('!!!')).toBe('organisatie');
+  });
+
+  it('adds a random suffix for uniqueness', () => {
+    expect(generateOrganizationSlug('Acme B.V.')).toMatch(/^acme-b-v-[0-9a-f]{6}$/);
+  });
+});
+
+describe('parseOrganizationInput', () => {
+  it('uses the onboarding company name and industry', () => {
+    expect(parseOrganizationInput({ companyName: '  Acme  ', industry: 'bouw' })).toEqual({
+      values: { companyName: 'Acme', industry: 'bouw' },
+    });
+  });
+
+  it('defaults the industry to general', () => {
+    expect(parseOrganizationInput({ companyName: 'Acme' }).values?.industry).toBe('general');
+  });
+
+  it('rejects a missing name and an unknown industry', () => {
+    expect(parseOrganizationInput({ companyName: ' ' }).error).toBe('companyName is required');
+    expect(parseOrganizationInput({ companyName: 'Acme', industry: 'mining' }).error).toMatch(/^industry must be one of/);
+  });
+});
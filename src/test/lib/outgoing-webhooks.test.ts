@@ -0,0 +1,238 @@
+/**
+ * Outgoing Webhooks Tests
+ *
+ * Tests payload signing, endpoint URL checks and delivery with retries using a stubbed Inngest step
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  MAX_DELIVERY_ATTEMPTS,
+  SIGNATURE_HEADER,
+  WEBHOOK_DELIVERY_REQUESTED,
+  deliverWebhook,
+  fanOutWebhookEvent,
+  offerStatusEvent,
+  retryDelayMs,
+  signWebhookPayload,
+  verifyWebhookSignature,
+  webhookUrlError,
+  type DeliveryAttempt,
+  type OutgoingWebhookStore,
+  type WebhookDelivery,
+  type WebhookEvent,
+  type WebhookFetch,
+  type WebhookStep,
+} from '../../../lib/outgoing-webhooks';
+
+const SECRET = 'whsec_test';
+
+const event: WebhookEvent = {
+  id: 'evt-1',
+  type: 'invoice.paid',
+  created_at: '2026-03-01T10:00:00.000Z',
+  organization_id: 'org-1',
+  data: { id: 'invoice-1', status: 'paid', total: 121 },
+};
+
+class MemoryStore implements OutgoingWebhookStore {
+  endpoints = [{ id: 'endpoint-1', events: ['invoice.paid'] }, { id: 'endpoint-2', events: ['offer.sent'] }];
+  delivery: WebhookDelivery = {
+    id: 'delivery-1',
+    organization_id: 'org-1',
+    event_id: event.id,
+    event_type: event.type,
+    payload: event,
+    status: 'pending',
+    attempts: 0,
+    endpoint: { id: 'endpoint-1', url: 'https://example.com/hooks', secret: SECRET, enabled: true },
+  };
+  created: string[][] = [];
+  attempts: DeliveryAttempt[] = [];
+
+  async findSubscribedEndpoints(_organizationId: string, type: string) {
+    return this.endpoints.filter(endpoint => endpoint.events.includes(type));
+  }
+
+  async createDeliveries(_event: WebhookEvent, endpointIds: string[]) {
+    this.created.push(endpointIds);
+    return endpointIds.map(id => `delivery-for-${id}`);
+  }
+
+  async getDelivery() {
+    return { ...this.delivery };
+  }
+
+  async recordAttempt(_deliveryId: string, attempt: DeliveryAttempt) {
+    this.attempts.push(attempt);
+    this.delivery = { ...this.delivery, status: attempt.status, attempts: attempt.attempts };
+  }
+}
+
+// Runs every step inline
+const stubStep = () => {
+  const step = {
+    run: vi.fn(async (_id: string, fn: () => unknown) => fn()),
+    sleep: vi.fn(async () => undefined),
+    sendEvent: vi.fn(async () => ({ ids: [] })),
+  };
+  return { step, asStep: step as unknown as WebhookStep };
+};
+
+// Answers with the given status codes in turn
+const respondWith = (...statuses: number[]) => {
+  const calls: { url: string; init: RequestInit }[] = [];
+  const send: WebhookFetch = async (url, init) => {
+    const status = statuses[Math.min(calls.length, statuses.length - 1)];
+    calls.push({ url, init });
+    return { status, text: async () => (status === 200 ? 'ok' : 'error') };
+  };
+  return { send, calls };
+};
+
+describe('webhook signatures', () => {
+  it('signs the timestamp together with the body', () => {
+    const body = JSON.stringify(event);
+    const header = signWebhookPayload(SECRET, body, 1772359200);
+
+    expect(header).toMatch(/^t=1772359200,v1=[0-9a-f]{64}$/);
+    expect(verifyWebhookSignature(SECRET, body, header, 1772359200)).toBe(true);
+    expect(verifyWebhookSignature(SECRET, `${body} `, header, 1772359200)).toBe(false);
+    expect(verifyWebhookSignature('whsec_other', body, header, 1772359200)).toBe(false);
+  });
+
+  it('rejects old signatures', () => {
+    const header = signWebhookPayload(SECRET, '{}', 1772359200);
+    expect(verifyWebhookSignature(SECRET, '{}', header, 1772359200 + 10 * 60)).toBe(false);
+    expect(verifyWebhookSignature(SECRET, '{}', 'v1=abc', 1772359200)).toBe(false);
+  });
+});
+
+describe('webhook endpoint urls', () => {
+  it('only accepts public https urls', () => {
+    expect(webhookUrlError('https://hooks.example.com/quotefast')).toBeNull();
+    expect(webhookUrlError('http://hooks.example.com')).toBe('URL must use https');
+    expect(webhookUrlError('geen url')).toBe('URL is invalid');
+    expect(webhookUrlError('https://localhost:3000/hook')).toBe('URL must point to a public host');
+    expect(webhookUrlError('https://192.168.1.10/hook')).toBe('URL must point to a public host');
+    expect(webhookUrlError('https://172.20.0.1/hook')).toBe('URL must point to a public host');
+    expect(webhookUrlError('https://[::1]/hook')).toBe('URL must point to a public host');
+    expect(webhookUrlError('https://172.32.0.1/hook')).toBeNull();
+  });
+});
+
+describe('offer status events', () => {
+  it('emits offer.sent and offer.accepted only when the status changes into them', () => {
+    expect(offerStatusEvent('draft', 'sent')).toBe('offer.sent');
+    expect(offerStatusEvent('viewed', 'accepted')).toBe('offer.accepted');
+    expect(offerStatusEvent('accepted', 'accepted')).toBeNull();
+    expect(offerStatusEvent('sent', 'rejected')).toBeNull();
+  });
+});
+
+describe('webhook fan-out', () => {
+  it('creates deliveries for subscribed endpoints only', async () => {
+    const store = new MemoryStore();
+    const { step, asStep } = stubStep();
+
+    await expect(fanOutWebhookEvent(event, asStep, store)).resolves.toEqual({ deliveries: 1 });
+    expect(store.created).toEqual([['endpoint-1']]);
+    expect(step.sendEvent).toHaveBeenCalledWith('deliver', [
+      { name: WEBHOOK_DELIVERY_REQUESTED, data: { deliveryId: 'delivery-for-endpoint-1' } },
+    ]);
+  });
+
+  it('sends nothing without subscribers', async () => {
+    const store = new MemoryStore();
+    const { step, asStep } = stubStep();
+
+    await fanOutWebhookEvent({ ...event, type: 'customer.created' }, asStep, store);
+    expect(store.created).toEqual([]);
+    expect(step.sendEvent).not.toHaveBeenCalled();
+  });
+});
+
+describe('webhook delivery', () => {
+  it('posts the signed payload with event headers', async () => {
+    const store = new MemoryStore();
+    const { asStep } = stubStep();
+    const { send, calls } = respondWith(200);
+
+    await expect(deliverWebhook('delivery-1', asStep, store, send)).resolves.toEqual({ status: 'succeeded', attempts: 1 });
+
+    const headers = calls[0].init.headers as Record<string, string>;
+    expect(calls[0].url).toBe('https://example.com/hooks');
+    expect(headers['QuoteFast-Event']).toBe('invoice.paid');
+    expect(headers['QuoteFast-Delivery']).toBe('delivery-1');
+    expect(verifyWebhookSignature(SECRET, calls[0].init.body as string, headers[SIGNATURE_HEADER])).toBe(true);
+    expect(store.attempts[0]).toMatchObject({ status: 'succeeded', response_status: 200, response_body: 'ok', next_attempt_at: null });
+  });
+
+  it('retries with exponential backoff until the endpoint answers', async () => {
+    const store = new MemoryStore();
+    const { step, asStep } = stubStep();
+    const { send } = respondWith(500, 503, 200);
+
+    await expect(deliverWebhook('delivery-1', asStep, store, send)).resolves.toEqual({ status: 'succeeded', attempts: 3 });
+    expect(step.sleep.mock.calls).toEqual([['backoff-1', 30000], ['backoff-2', 120000]]);
+    expect(store.attempts.map(attempt => [attempt.status, attempt.response_status])).toEqual([
+      ['pending', 500],
+      ['pending', 503],
+      ['succeeded', 200],
+    ]);
+    expect(store.attempts[0].error).toBe('Endpoint responded with 500');
+  });
+
+  it('marks the delivery as failed after the last attempt', async () => {
+    const store = new MemoryStore();
+    const { step, asStep } = stubStep();
+    const { send, calls } = respondWith(500);
+
+    await expect(deliverWebhook('delivery-1', asStep, store, send)).resolves.toEqual({
+      status: 'failed',
+      attempts: MAX_DELIVERY_ATTEMPTS,
+    });
+    expect(calls).toHaveLength(MAX_DELIVERY_ATTEMPTS);
+    expect(step.sleep).toHaveBeenCalledTimes(MAX_DELIVERY_ATTEMPTS - 1);
+    expect(store.delivery.status).toBe('failed');
+    expect(retryDelayMs(MAX_DELIVERY_ATTEMPTS - 1)).toBe(30000 * 256);
+  });
+
+  it('logs network errors as failed attempts', async () => {
+    const store = new MemoryStore();
+    const { asStep } = stubStep();
+    let calls = 0;
+    const send: WebhookFetch = async () => {
+      calls++;
+      if (calls === 1) throw new Error('getaddrinfo ENOTFOUND example.com');
+      return { status: 204, text: async () => '' };
+    };
+
+    await expect(deliverWebhook('delivery-1', asStep, store, send)).resolves.toEqual({ status: 'succeeded', attempts: 2 });
+    expect(store.attempts[0]).toMatchObject({ response_status: null, error: 'getaddrinfo ENOTFOUND example.com' });
+  });
+
+  it('fails the delivery without sending when the signing secret is missing', async () => {
+    const store = new MemoryStore();
+    store.delivery.endpoint = { ...store.delivery.endpoint!, secret: '' };
+    const { step, asStep } = stubStep();
+    const { send, calls } = respondWith(200);
+
+    await expect(deliverWebhook('delivery-1', asStep, store, send)).resolves.toEqual({ status: 'failed', attempts: 1 });
+    expect(calls).toHaveLength(0);
+    expect(step.sleep).not.toHaveBeenCalled();
+    expect(store.attempts[0]).toMatchObject({ status: 'failed', error: 'Signing secret is missing or cannot be decrypted' });
+  });
+
+  it('stops when the endpoint is disabled', async () => {
+    const store = new MemoryStore();
+    store.delivery.endpoint = { ...store.delivery.endpoint!, enabled: false };
+    const { asStep } = stubStep();
+    const { send, calls } = respondWith(200);
+
+    await expect(deliverWebhook('delivery-1', asStep, store, send)).resolves.toEqual({
+      status: 'skipped',
+      reason: 'endpoint_disabled',
+    });
+    expect(calls).toHaveLength(0);
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { PERMISSIONS, ROLE_PERMISSIONS, hasPermission, permissionsForRole } from '../../../lib/auth/permissions';
+import { API_SCOPES } from '../../../lib/auth/api-keys';
+
+describe('hasPermission', () => {
+  it('lets support view but not delete invoices', () => {
+    expect(hasPermission('support', 'invoices:read')).toBe(true);
+    expect(hasPermission('support', 'invoices:delete')).toBe(false);
+  });
+
+  it('limits billing and API keys to owners and admins', () => {
+    for (const permission of ['billing:manage', 'api_keys:manage'] as const) {
+      expect(hasPermission('owner', permission)).toBe(true);
+      expect(hasPermission('admin', permission)).toBe(true);
+      expect(hasPermission('developer', permission)).toBe(false);
+      expect(hasPermission('designer', permission)).toBe(false);
+      expect(hasPermission('support', permission)).toBe(false);
+    }
+  });
+
+  it('grants nothing without a role', () => {
+    expect(hasPermission(null, 'offers:read')).toBe(false);
+    expect(permissionsForRole(undefined)).toEqual([]);
+  });
+});
+
+describe('ROLE_PERMISSIONS', () => {
+  it('lets every role read what it may change', () => {
+    for (const permissions of Object.values(ROLE_PERMISSIONS)) {
+      for (const permission of permissions) {
+        const [resource, action] = permission.split(':');
+        if (['write', 'send', 'delete'].includes(action)) {
+          expect(permissions).toContain(`${resource}:read`);
+        }
+      }
+    }
+  });
+
+  it('has a permission for every API key scope', () => {
+    for (const scope of API_SCOPES) {
+      expect(PERMISSIONS).toContain(scope);
+    }
+  });
+});
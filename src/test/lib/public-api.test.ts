@@ -0,0 +1,176 @@
+/**
+ * Public API Tests
+ *
+ * Tests cursor pagination, input validation and the generated OpenAPI document of /api/v1
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  cursorFilter,
+  decodeCursor,
+  encodeCursor,
+  paginateQuery,
+  parseSort,
+  toPage,
+} from '../../../lib/public-api/pagination';
+import {
+  customerCreateSchema,
+  invoiceListQuerySchema,
+  offerCreateSchema,
+  offerUpdateSchema,
+} from '../../../lib/public-api/schemas';
+import { generateOpenApiDocument } from '../../../lib/public-api/openapi';
+import { serializeInvoice } from '../../../lib/public-api/resources';
+
+const rows = [
+  { id: 'a', created_at: '2026-03-03T10:00:00+00:00' },
+  { id: 'b', created_at: '2026-03-02T10:00:00+00:00' },
+  { id: 'c', created_at: '2026-03-01T10:00:00+00:00' },
+];
+
+// Records the calls paginateQuery makes on the query builder
+const recordingQuery = () => {
+  const calls: unknown[][] = [];
+  const query = {
+    order: (...args: unknown[]) => { calls.push(['order', ...args]); return query; },
+    or: (...args: unknown[]) => { calls.push(['or', ...args]); return query; },
+    limit: (...args: unknown[]) => { calls.push(['limit', ...args]); return query; },
+  };
+  return { query, calls };
+};
+
+describe('public api pagination', () => {
+  it('parses sort parameters', () => {
+    expect(parseSort('-created_at')).toEqual({ field: 'created_at', ascending: false });
+    expect(parseSort('name')).toEqual({ field: 'name', ascending: true });
+  });
+
+  it('only accepts cursors for the same sort order', () => {
+    const cursor = encodeCursor({ sort: '-created_at', value: rows[1].created_at, id: 'b' });
+
+    expect(decodeCursor(cursor, '-created_at')).toEqual({ sort: '-created_at', value: rows[1].created_at, id: 'b' });
+    expect(() => decodeCursor(cursor, 'name')).toThrow('The cursor is invalid or belongs to a different sort order');
+    expect(() => decodeCursor('not-a-cursor', '-created_at')).toThrow();
+  });
+
+  it('continues after the cursor on the sort value and the id', () => {
+    const cursor = { sort: '-created_at', value: '2026-03-02T10:00:00+00:00', id: 'b' };
+
+    expect(cursorFilter(parseSort('-created_at'), cursor)).toBe(
+      'created_at.lt."2026-03-02T10:00:00+00:00",and(created_at.eq."2026-03-02T10:00:00+00:00",id.lt."b")'
+    );
+    expect(cursorFilter(parseSort('name'), { sort: 'name', value: 'Jansen, "B.V."', id: 'x' })).toBe(
+      'name.gt."Jansen, \\"B.V.\\"",and(name.eq."Jansen, \\"B.V.\\"",id.gt."x")'
+    );
+  });
+
+  it('fetches one row more than the page size', () => {
+    const { query, calls } = recordingQuery();
+    const cursor = encodeCursor({ sort: 'name', value: 'Bakker', id: 'b' });
+
+    paginateQuery(query, { sort: 'name', limit: 2, cursor });
+
+    expect(calls).toEqual([
+      ['order', 'name', { ascending: true }],
+      ['order', 'id', { ascending: true }],
+      ['or', 'name.gt."Bakker",and(name.eq."Bakker",id.gt."b")'],
+      ['limit', 3],
+    ]);
+  });
+
+  it('returns a next cursor only when there are more rows', () => {
+    const first = toPage(rows, { sort: '-created_at', limit: 2 }, row => ({ id: row.id }));
+
+    expect(first.data).toEqual([{ id: 'a' }, { id: 'b' }]);
+    expect(first.pagination.has_more).toBe(true);
+    expect(decodeCursor(first.pagination.next_cursor as string, '-created_at')).toEqual({
+      sort: '-created_at',
+      value: rows[1].created_at,
+      id: 'b',
+    });
+
+    const last = toPage(rows.slice(2), { sort: '-created_at', limit: 2 }, row => row);
+    expect(last.pagination).toEqual({ limit: 2, has_more: false, next_cursor: null });
+  });
+});
+
+describe('public api schemas', () => {
+  it('validates and normalizes customer input', () => {
+    const customer = customerCreateSchema.parse({ name: ' Bakkerij Jansen ', email: 'info@jansen.nl', vat_number: 'nl 0044.95.445-b01' });
+    expect(customer).toEqual({ name: 'Bakkerij Jansen', email: 'info@jansen.nl', vat_number: 'NL004495445B01' });
+
+    expect(customerCreateSchema.safeParse({ name: 'Jansen', email: 'geen-email' }).success).toBe(false);
+    // Unknown fields are rejected instead of silently ignored
+    expect(customerCreateSchema.safeParse({ name: 'Jansen', email: 'info@jansen.nl', organization_id: 'x' }).success).toBe(false);
+  });
+
+  it('requires products or an amount for new offers but not for updates', () => {
+    expect(offerCreateSchema.safeParse({ title: 'Website', client_name: 'Jansen' }).success).toBe(false);
+    expect(offerCreateSchema.safeParse({ title: 'Website', client_name: 'Jansen', amount: 1500 }).success).toBe(true);
+    expect(offerUpdateSchema.safeParse({ status: 'sent' }).success).toBe(true);
+    expect(offerUpdateSchema.safeParse({ status: 'betaald' }).success).toBe(false);
+  });
+
+  it('applies list defaults and coerces query strings', () => {
+    expect(invoiceListQuerySchema.parse({})).toEqual({ limit: 25, sort: '-created_at' });
+    expect(invoiceListQuerySchema.parse({ limit: '50', sort: 'due_date', status: 'overdue' })).toEqual({
+      limit: 50,
+      sort: 'due_date',
+      status: 'overdue',
+    });
+    expect(invoiceListQuerySchema.safeParse({ limit: '500' }).success).toBe(false);
+    expect(invoiceListQuerySchema.safeParse({ sort: 'paid_at' }).success).toBe(false);
+  });
+
+  it('serializes invoices with parsed items and numeric amounts', () => {
+    const invoice = serializeInvoice({
+      id: 'inv-1',
+      invoice_number: '2026-0001',
+      items: JSON.stringify([{ name: 'Ontwerp', description: '', quantity: 2, price: 50, total: 100 }]),
+      amount: '100.00',
+      vat_amount: '21.00',
+      total: '121.00',
+      status: 'sent',
+      due_date: '2026-04-01',
+      public_token: 'secret',
+      stripe_invoice_id: 'in_123',
+      created_at: '2026-03-01T10:00:00Z',
+      updated_at: '2026-03-01T10:00:00Z',
+    });
+
+    expect(invoice.items).toHaveLength(1);
+    expect(invoice).toMatchObject({ amount: 100, vat_amount: 21, total: 121, currency: 'EUR', invoice_type: 'full' });
+    expect(invoice).not.toHaveProperty('public_token');
+    expect(invoice).not.toHaveProperty('stripe_invoice_id');
+  });
+});
+
+describe('public api openapi document', () => {
+  const document = generateOpenApiDocument('https://app.quotefast.nl/api/v1');
+
+  it('documents every resource with bearer authentication', () => {
+    expect(document.openapi).toBe('3.0.3');
+    expect(Object.keys(document.paths).sort()).toEqual([
+      '/activity',
+      '/customers',
+      '/customers/{id}',
+      '/invoices',
+      '/invoices/{id}',
+      '/offers',
+      '/offers/{id}',
+    ]);
+    expect(document.components?.securitySchemes).toHaveProperty('bearerAuth');
+    expect(document.security).toEqual([{ bearerAuth: [] }]);
+  });
+
+  it('references the shared schemas and lists query parameters', () => {
+    expect(document.components?.schemas).toHaveProperty('Customer');
+    expect(document.components?.schemas).toHaveProperty('InvoiceCreate');
+    expect(document.components?.schemas).toHaveProperty('Error');
+
+    const listInvoices = document.paths['/invoices'].get;
+    const parameters = (listInvoices?.parameters || []).map(parameter => ('name' in parameter ? parameter.name : null));
+    expect(parameters).toEqual(expect.arrayContaining(['limit', 'cursor', 'sort', 'status', 'customer_id']));
+    expect(listInvoices?.description).toContain('invoices:read');
+  });
+});
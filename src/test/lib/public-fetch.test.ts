@@ -0,0 +1,59 @@
+/**
+ * Public Fetch Tests
+ *
+ * Tests which addresses and URLs count as public, including the encodings used to sneak past a hostname check
+ */
+
+import { describe, it, expect } from 'vitest';
+import { UnsafeUrlError, fetchPublicUrl, isPublicAddress, publicUrlError } from '../../../lib/public-fetch';
+
+describe('isPublicAddress', () => {
+  it('accepts public IPv4 and IPv6 addresses', () => {
+    expect(isPublicAddress('93.184.216.34')).toBe(true);
+    expect(isPublicAddress('172.32.0.1')).toBe(true);
+    expect(isPublicAddress('2606:4700:4700::1111')).toBe(true);
+  });
+
+  it('rejects private, loopback, link-local and metadata addresses', () => {
+    ['127.0.0.1', '10.1.2.3', '172.16.0.1', '192.168.1.10', '169.254.169.254', '100.64.0.1', '0.0.0.0', '224.0.0.1']
+      .forEach(address => expect(isPublicAddress(address)).toBe(false));
+    ['::1', '::', 'fd00::1', 'fe80::1%eth0', 'ff02::1']
+      .forEach(address => expect(isPublicAddress(address)).toBe(false));
+  });
+
+  it('checks the IPv4 address inside mapped, NAT64 and 6to4 IPv6 addresses', () => {
+    expect(isPublicAddress('::ffff:10.0.0.1')).toBe(false);
+    expect(isPublicAddress('::ffff:a00:1')).toBe(false);
+    expect(isPublicAddress('64:ff9b::a9fe:a9fe')).toBe(false);
+    expect(isPublicAddress('2002:7f00:1::')).toBe(false);
+    expect(isPublicAddress('::ffff:93.184.216.34')).toBe(true);
+  });
+
+  it('rejects anything that is not an address', () => {
+    expect(isPublicAddress('example.com')).toBe(false);
+  });
+});
+
+describe('publicUrlError', () => {
+  it('only accepts https URLs on public hosts', () => {
+    expect(publicUrlError('https://hooks.example.com/quotefast')).toBeNull();
+    expect(publicUrlError('http://hooks.example.com')).toBe('URL must use https');
+    expect(publicUrlError('geen url')).toBe('URL is invalid');
+    expect(publicUrlError('https://localhost:3000/hook')).toBe('URL must point to a public host');
+    expect(publicUrlError('https://metadata.google.internal/')).toBe('URL must point to a public host');
+    expect(publicUrlError('https://intranet/')).toBe('URL must point to a public host');
+  });
+
+  it('rejects decimal, octal, hex and IPv4-mapped forms of private addresses', () => {
+    expect(publicUrlError('https://2130706433/hook')).toBe('URL must point to a public host');
+    expect(publicUrlError('https://0177.0.0.1/hook')).toBe('URL must point to a public host');
+    expect(publicUrlError('https://0xa9.0xfe.0xa9.0xfe/latest/meta-data')).toBe('URL must point to a public host');
+    expect(publicUrlError('https://[::ffff:10.0.0.1]/hook')).toBe('URL must point to a public host');
+  });
+});
+
+describe('fetchPublicUrl', () => {
+  it('refuses private URLs before connecting', async () => {
+    await expect(fetchPublicUrl('https://127.0.0.1/hook', { maxBytes: 100 })).rejects.toBeInstanceOf(UnsafeUrlError);
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Quote Generator Tests
+ *
+ * Runs the AI quote generator against a stubbed model client
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  buildQuotePrompt,
+  generateQuote,
+  parseQuoteResponse,
+  type QuoteModelClient,
+} from '../../../lib/ai/quote-generator';
+
+const createStubClient = (text: string, totalTokenCount = 321): QuoteModelClient => ({
+  generateQuote: vi.fn().mockResolvedValue({ text, usage: { totalTokenCount } }),
+  getModelName: () => 'stub-model',
+});
+
+const modelOutput = JSON.stringify({
+  description: 'Plaatsen van een maatwerk kast',
+  currency: 'EUR',
+  items: [
+    { description: 'Eikenhouten kast', quantity: 1, unitPrice: 1250 },
+    { description: 'Montage (uur)', quantity: 3, unitPrice: 55.5 },
+  ],
+  vatRate: 21,
+  validDays: 14,
+  terms: 'Betaling binnen 14 dagen',
+});
+
+describe('buildQuotePrompt', () => {
+  it('includes transcript, dimensions and image count', () => {
+    const prompt = buildQuotePrompt({
+      transcript: 'Ik wil een kast laten maken',
+      dimensions: { width: '100', height: '200', depth: '' },
+      images: [{ mimeType: 'image/png', data: 'abc' }],
+    });
+
+    expect(prompt).toContain('Ik wil een kast laten maken');
+    expect(prompt).toContain('- width: 100 cm');
+    expect(prompt).toContain('- height: 200 cm');
+    expect(prompt).not.toContain('depth');
+    expect(prompt).toContain('1 photo(s)');
+  });
+});
+
+describe('parseQuoteResponse', () => {
+  it('recalculates line totals, VAT and validity', () => {
+    const quote = parseQuoteResponse(modelOutput, new Date('2025-03-01T12:00:00Z'));
+
+    expect(quote.items[1]).toEqual({
+      description: 'Montage (uur)',
+      quantity: 3,
+      unitPrice: 55.5,
+      total: 166.5,
+    });
+    expect(quote.subtotal).toBe(1416.5);
+    expect(quote.vatAmount).toBe(297.47);
+    expect(quote.amount).toBe(1713.97);
+    expect(quote.validUntil).toBe('2025-03-15');
+  });
+
+  it('accepts JSON wrapped in a markdown fence and applies defaults', () => {
+    const quote = parseQuoteResponse(
+      '```json\n{"description":"Schilderwerk","items":[{"description":"Muur","quantity":"2","unitPrice":"100"}]}\n```',
+      new Date('2025-03-01T12:00:00Z')
+    );
+
+    expect(quote.currency).toBe('EUR');
+    expect(quote.vatRate).toBe(21);
+    expect(quote.amount).toBe(242);
+    expect(quote.validUntil).toBe('2025-03-31');
+  });
+
+  it('rejects output without line items', () => {
+    expect(() => parseQuoteResponse('{"description":"Leeg","items":[]}')).toThrow(/invalid quote/);
+  });
+
+  it('rejects non-JSON output', () => {
+    expect(() => parseQuoteResponse('Sorry, dat kan ik niet')).toThrow('Model returned invalid JSON');
+  });
+});
+
+describe('generateQuote', () => {
+  it('passes prompt and images to the model client and reports usage', async () => {
+    const client = createStubClient(modelOutput);
+    const images = [{ mimeType: 'image/jpeg', data: 'base64data' }];
+
+    const result = await generateQuote({ transcript: 'Nieuwe kast', images }, client);
+
+    expect(client.generateQuote).toHaveBeenCalledWith(result.prompt, images);
+    expect(result.modelUsed).toBe('stub-model');
+    expect(result.tokensUsed).toBe(321);
+    expect(result.quote.items).toHaveLength(2);
+  });
+});
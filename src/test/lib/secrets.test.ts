@@ -0,0 +1,90 @@
+/**
+ * Secrets Encryption Tests
+ *
+ * Tests envelope encryption, key rotation and masking of stored credentials
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { randomBytes } from 'crypto';
+import {
+  SECRET_MASK,
+  decryptSecret,
+  encryptSecret,
+  isEncryptedSecret,
+  maskSecret,
+  needsRotation,
+  parseEncryptionKeys,
+  rotateSecret,
+  secretFromInput,
+} from '../../../lib/secrets';
+
+const oldKey = `2025-01:${randomBytes(32).toString('base64')}`;
+const newKey = `2026-01:${randomBytes(32).toString('base64')}`;
+
+describe('secrets', () => {
+  const originalKeys = process.env.SECRETS_ENCRYPTION_KEYS;
+
+  beforeEach(() => {
+    process.env.SECRETS_ENCRYPTION_KEYS = oldKey;
+  });
+
+  afterEach(() => {
+    if (originalKeys === undefined) delete process.env.SECRETS_ENCRYPTION_KEYS;
+    else process.env.SECRETS_ENCRYPTION_KEYS = originalKeys;
+  });
+
+  it('encrypts with a fresh data key and decrypts again', () => {
+    const first = encryptSecret('smtp-wachtwoord');
+    const second = encryptSecret('smtp-wachtwoord');
+
+    expect(first).toMatch(/^enc:v1:2025-01:/);
+    expect(first).not.toContain('smtp-wachtwoord');
+    expect(first).not.toBe(second);
+    expect(decryptSecret(first)).toBe('smtp-wachtwoord');
+  });
+
+  it('returns legacy plaintext values unchanged', () => {
+    expect(decryptSecret('plain-token')).toBe('plain-token');
+    expect(decryptSecret(null)).toBeNull();
+    expect(needsRotation('plain-token')).toBe(true);
+  });
+
+  it('rejects tampered ciphertext', () => {
+    const encrypted = encryptSecret('token');
+    const tampered = encrypted.slice(0, -4) + (encrypted.endsWith('AAAA') ? 'BBBB' : 'AAAA');
+
+    expect(() => decryptSecret(tampered)).toThrow('Secret could not be decrypted');
+  });
+
+  it('re-wraps the data key after rotation without changing the ciphertext', () => {
+    const encrypted = encryptSecret('EAAG-whatsapp-token');
+    process.env.SECRETS_ENCRYPTION_KEYS = `${newKey},${oldKey}`;
+
+    expect(needsRotation(encrypted)).toBe(true);
+    const rotated = rotateSecret(encrypted);
+
+    expect(rotated).toMatch(/^enc:v1:2026-01:/);
+    expect(rotated.split(':').pop()).toBe(encrypted.split(':').pop());
+    expect(needsRotation(rotated)).toBe(false);
+
+    // Once the old key is removed only the rotated value can be read
+    process.env.SECRETS_ENCRYPTION_KEYS = newKey;
+    expect(decryptSecret(rotated)).toBe('EAAG-whatsapp-token');
+    expect(() => decryptSecret(encrypted)).toThrow('Encryption key 2025-01 is not configured');
+  });
+
+  it('requires a configured key to encrypt', () => {
+    delete process.env.SECRETS_ENCRYPTION_KEYS;
+    expect(() => encryptSecret('token')).toThrow('SECRETS_ENCRYPTION_KEYS is not configured');
+    expect(() => parseEncryptionKeys('short:c2hvcnQ=')).toThrow();
+  });
+
+  it('masks stored values, keeps them when the mask is sent back and removes them when emptied', () => {
+    expect(maskSecret(encryptSecret('token'))).toBe(SECRET_MASK);
+    expect(maskSecret(null)).toBe('');
+    expect(secretFromInput(SECRET_MASK)).toBeUndefined();
+    expect(secretFromInput(undefined)).toBeUndefined();
+    expect(secretFromInput('')).toBeNull();
+    expect(isEncryptedSecret(secretFromInput('nieuw-wachtwoord'))).toBe(true);
+  });
+});
@@ -0,0 +1,170 @@
+/**
+ * SMTP Provider Tests
+ *
+ * Sends through a local SMTP sink and checks how transport failures are mapped
+ */
+
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import { AddressInfo, createServer as createNetServer } from 'net';
+import { SMTPServer } from 'smtp-server';
+import { mapSmtpError, sendSmtpMail, toSmtpSettings, type SmtpSettings } from '../../../lib/email/smtp';
+import { createSmtpEmailService } from '../../../lib/email/email';
+
+// The sinks listen on loopback, which is otherwise refused like every non-public address
+vi.mock('../../../lib/public-fetch', async importOriginal => {
+  const actual = await importOriginal<typeof import('../../../lib/public-fetch')>();
+  return { ...actual, isPublicAddress: (address: string) => address === '127.0.0.1' || actual.isPublicAddress(address) };
+});
+
+interface ReceivedMail {
+  from: string;
+  to: string[];
+  raw: string;
+}
+
+const startSink = async (options: { starttls: boolean }) => {
+  const received: ReceivedMail[] = [];
+  const server = new SMTPServer({
+    logger: false,
+    disabledCommands: options.starttls ? [] : ['STARTTLS'],
+    onAuth(auth, _session, callback) {
+      if (auth.username === 'info@example.com' && auth.password === 'geheim') {
+        return callback(null, { user: auth.username });
+      }
+      return callback(Object.assign(new Error('Invalid username or password'), { responseCode: 535 }));
+    },
+    onData(stream, session, callback) {
+      let raw = '';
+      stream.on('data', chunk => { raw += chunk.toString(); });
+      stream.on('end', () => {
+        received.push({
+          from: session.envelope.mailFrom ? session.envelope.mailFrom.address : '',
+          to: session.envelope.rcptTo.map(recipient => recipient.address),
+          raw,
+        });
+        callback();
+      });
+    },
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const port = (server.server.address() as AddressInfo).port;
+  return { server, port, received, close: () => new Promise<void>(resolve => server.close(() => resolve())) };
+};
+
+// A port that was free a moment ago refuses connections
+const closedPort = async (): Promise<number> => {
+  const server = createNetServer();
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const port = (server.address() as AddressInfo).port;
+  await new Promise<void>(resolve => server.close(() => resolve()));
+  return port;
+};
+
+const settingsFor = (port: number, overrides: Partial<SmtpSettings> = {}): SmtpSettings => ({
+  smtp_host: '127.0.0.1',
+  smtp_port: port,
+  smtp_username: 'info@example.com',
+  smtp_password: 'geheim',
+  from_email: 'info@example.com',
+  from_name: 'Bouwbedrijf De Vries',
+  reply_to: 'administratie@example.com',
+  use_tls: false,
+  use_ssl: false,
+  ...overrides,
+});
+
+const message = {
+  from: 'Bouwbedrijf De Vries <info@example.com>',
+  to: 'klant@example.com',
+  subject: 'Factuur 2026-0001',
+  html: '<p>Factuur</p>',
+  text: 'Factuur',
+};
+
+const errorCodeOf = (promise: Promise<unknown>) =>
+  promise.then(() => 'sent', (error: { code: string }) => error.code);
+
+describe('SMTP provider', () => {
+  let sink: Awaited<ReturnType<typeof startSink>>;
+  let startTlsSink: Awaited<ReturnType<typeof startSink>>;
+
+  beforeAll(async () => {
+    sink = await startSink({ starttls: false });
+    startTlsSink = await startSink({ starttls: true });
+  });
+
+  afterAll(async () => {
+    await sink.close();
+    await startTlsSink.close();
+  });
+
+  it('delivers the message with reply-to and attachments', async () => {
+    const messageId = await sendSmtpMail(settingsFor(sink.port), {
+      ...message,
+      attachments: [{ filename: 'factuur.pdf', content: new Uint8Array([37, 80, 68, 70]), contentType: 'application/pdf' }],
+    });
+
+    expect(messageId).toBeTruthy();
+    const mail = sink.received[sink.received.length - 1];
+    expect(mail.from).toBe('info@example.com');
+    expect(mail.to).toEqual(['klant@example.com']);
+    expect(mail.raw).toContain('Reply-To: administratie@example.com');
+    expect(mail.raw).toContain('filename=factuur.pdf');
+  });
+
+  it('maps a wrong password to auth_failed', async () => {
+    expect(await errorCodeOf(sendSmtpMail(settingsFor(sink.port, { smtp_password: 'fout' }), message))).toBe('auth_failed');
+  });
+
+  it('maps a closed port to connection_failed', async () => {
+    expect(await errorCodeOf(sendSmtpMail(settingsFor(await closedPort()), message))).toBe('connection_failed');
+  });
+
+  it('refuses hosts inside the network with the same code', async () => {
+    expect(await errorCodeOf(sendSmtpMail(settingsFor(25, { smtp_host: '10.0.0.1' }), message))).toBe('connection_failed');
+    expect(await errorCodeOf(sendSmtpMail(settingsFor(25, { smtp_host: '169.254.169.254' }), message))).toBe('connection_failed');
+  });
+
+  it('maps SSL against a plain server to tls_mismatch', async () => {
+    expect(await errorCodeOf(sendSmtpMail(settingsFor(sink.port, { use_ssl: true }), message))).toBe('tls_mismatch');
+  });
+
+  it('maps required STARTTLS on a server without it to tls_mismatch', async () => {
+    expect(await errorCodeOf(sendSmtpMail(settingsFor(sink.port, { use_tls: true }), message))).toBe('tls_mismatch');
+  });
+
+  it('maps an untrusted certificate to certificate_invalid', async () => {
+    // The sink offers STARTTLS with its built-in self-signed certificate
+    expect(await errorCodeOf(sendSmtpMail(settingsFor(startTlsSink.port, { use_tls: true }), message))).toBe('certificate_invalid');
+  });
+
+  it('returns the mapped code from the email service', async () => {
+    const result = await createSmtpEmailService(settingsFor(sink.port, { smtp_password: 'fout' })).sendTestEmail('klant@example.com');
+
+    expect(result.success).toBe(false);
+    expect(result.code).toBe('auth_failed');
+    expect(result.error).toContain('authentication failed');
+  });
+
+  it('sends the test email through the user server', async () => {
+    const result = await createSmtpEmailService(settingsFor(sink.port)).sendTestEmail('klant@example.com');
+
+    expect(result.success).toBe(true);
+    expect(sink.received[sink.received.length - 1].raw).toContain('Subject: Test e-mail van QuoteFast');
+  });
+});
+
+describe('SMTP settings and errors', () => {
+  it('only uses enabled and complete settings', () => {
+    expect(toSmtpSettings(null)).toBeNull();
+    expect(toSmtpSettings({ enabled: false, smtp_host: 'smtp.example.com', from_email: 'info@example.com' })).toBeNull();
+    expect(toSmtpSettings({ enabled: true, smtp_host: 'smtp.example.com', from_email: 'info@example.com', smtp_port: '465', use_ssl: true }))
+      .toMatchObject({ smtp_port: 465, use_ssl: true, use_tls: true, smtp_username: null });
+  });
+
+  it('maps DNS failures and timeouts to connection_failed', () => {
+    expect(mapSmtpError(Object.assign(new Error('getaddrinfo ENOTFOUND smtp.invalid'), { code: 'EDNS' })).code).toBe('connection_failed');
+    expect(mapSmtpError(Object.assign(new Error('Connection timeout'), { code: 'ETIMEDOUT' })).code).toBe('connection_failed');
+  });
+});
@@ -0,0 +1,186 @@
+/**
+ * Stripe Webhook Tests
+ *
+ * Replays signed fixture events against an in-memory webhook store
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import Stripe from 'stripe';
+import {
+  processStripeEvent,
+  subscriptionTier,
+  type InvoicePaymentReference,
+  type StripeWebhookStore,
+  type SubscriptionRecord,
+  type SubscriptionTier,
+} from '../../../lib/billing/stripe-webhooks';
+
+const WEBHOOK_SECRET = 'whsec_test_secret';
+const stripe = new Stripe('sk_test_local');
+
+const fixture = (name: string): string =>
+  readFileSync(join(__dirname, '../fixtures/stripe', `${name}.json`), 'utf8');
+
+// Sign the raw payload the way Stripe does and verify it like the route does
+const signedEvent = (name: string): Stripe.Event => {
+  const payload = fixture(name);
+  const header = stripe.webhooks.generateTestHeaderString({ payload, secret: WEBHOOK_SECRET });
+  return stripe.webhooks.constructEvent(payload, header, WEBHOOK_SECRET);
+};
+
+class MemoryStore implements StripeWebhookStore {
+  events = new Set<string>();
+  customers = new Map<string, string>();
+  subscriptions = new Map<string, SubscriptionRecord>();
+  tiers = new Map<string, SubscriptionTier>();
+  invoices = [
+    { id: 'invoice-1', stripe_invoice_id: 'in_123', stripe_payment_link_id: null, status: 'sent', paid_at: null as string | null },
+    { id: 'invoice-2', stripe_invoice_id: null, stripe_payment_link_id: 'plink_123', status: 'sent', paid_at: null as string | null },
+  ];
+  failNextSave = false;
+
+  async claimEvent(event: Pick<Stripe.Event, 'id'>) {
+    if (this.events.has(event.id)) return false;
+    this.events.add(event.id);
+    return true;
+  }
+
+  async releaseEvent(eventId: string) {
+    this.events.delete(eventId);
+  }
+
+  async findOrganizationIdByCustomer(customerId: string) {
+    return this.customers.get(customerId) || null;
+  }
+
+  async linkCustomer(organizationId: string, customerId: string) {
+    this.customers.set(customerId, organizationId);
+  }
+
+  async saveSubscription(record: SubscriptionRecord, tier: SubscriptionTier) {
+    if (this.failNextSave) {
+      this.failNextSave = false;
+      throw new Error('database unavailable');
+    }
+    this.subscriptions.set(record.organization_id, record);
+    this.tiers.set(record.organization_id, tier);
+  }
+
+  async markInvoicePaid(reference: InvoicePaymentReference, paidAt: string) {
+    const matches = this.invoices.filter(invoice => invoice[reference.column] === reference.value && invoice.status !== 'paid');
+    matches.forEach(invoice => {
+      invoice.status = 'paid';
+      invoice.paid_at = paidAt;
+    });
+    return matches.length;
+  }
+}
+
+describe('Stripe webhook processing', () => {
+  let store: MemoryStore;
+
+  beforeEach(() => {
+    store = new MemoryStore();
+  });
+
+  it('rejects payloads with an invalid signature', () => {
+    const payload = fixture('invoice.paid');
+    const header = stripe.webhooks.generateTestHeaderString({ payload, secret: 'whsec_other' });
+    expect(() => stripe.webhooks.constructEvent(payload, header, WEBHOOK_SECRET)).toThrow();
+  });
+
+  it('links the customer and stores the subscription', async () => {
+    expect(await processStripeEvent(signedEvent('checkout.session.completed'), store)).toBe('processed');
+    expect(await processStripeEvent(signedEvent('customer.subscription.updated'), store)).toBe('processed');
+
+    expect(store.customers.get('cus_123')).toBe('org-1');
+    expect(store.subscriptions.get('org-1')).toEqual({
+      organization_id: 'org-1',
+      stripe_customer_id: 'cus_123',
+      stripe_subscription_id: 'sub_123',
+      plan: 'professional',
+      status: 'active',
+      seats: 5,
+      current_period_end: '2026-02-01T00:00:00.000Z',
+      cancel_at_period_end: false,
+    });
+    expect(store.tiers.get('org-1')).toBe('pro');
+  });
+
+  it('takes the plan from the price, not from the subscription metadata', async () => {
+    const event = signedEvent('customer.subscription.updated');
+    const subscription = event.data.object as Stripe.Subscription;
+    subscription.metadata = { ...subscription.metadata, plan: 'Enterprise' };
+
+    await processStripeEvent(event, store);
+    expect(store.subscriptions.get('org-1')?.plan).toBe('professional');
+    expect(store.tiers.get('org-1')).toBe('pro');
+  });
+
+  it('finds the organization by customer when metadata is missing', async () => {
+    await processStripeEvent(signedEvent('checkout.session.completed'), store);
+    await processStripeEvent(signedEvent('customer.subscription.deleted'), store);
+
+    expect(store.subscriptions.get('org-1')?.status).toBe('canceled');
+    expect(store.tiers.get('org-1')).toBe('free');
+  });
+
+  it('marks matching invoices as paid', async () => {
+    expect(await processStripeEvent(signedEvent('invoice.paid'), store)).toBe('processed');
+    expect(store.invoices[0]).toMatchObject({ status: 'paid', paid_at: '2026-01-01T23:59:00.000Z' });
+  });
+
+  it('marks the invoice of a paid payment link as paid', async () => {
+    expect(await processStripeEvent(signedEvent('checkout.session.payment_link'), store)).toBe('processed');
+
+    expect(store.invoices[1]).toMatchObject({ status: 'paid', paid_at: '2026-01-02T00:00:00.000Z' });
+    expect(store.invoices[0].status).toBe('sent');
+    expect(store.customers.size).toBe(0);
+  });
+
+  it('waits for async payment methods to succeed', async () => {
+    const event = signedEvent('checkout.session.payment_link');
+    const session = event.data.object as Stripe.Checkout.Session;
+    session.payment_status = 'unpaid';
+
+    expect(await processStripeEvent(event, store)).toBe('ignored');
+    expect(store.invoices[1].status).toBe('sent');
+
+    session.payment_status = 'paid';
+    const succeeded = { ...event, id: 'evt_async_1', type: 'checkout.session.async_payment_succeeded' } as Stripe.Event;
+    expect(await processStripeEvent(succeeded, store)).toBe('processed');
+    expect(store.invoices[1].status).toBe('paid');
+  });
+
+  it('processes a retried event only once', async () => {
+    const event = signedEvent('invoice.paid');
+    await processStripeEvent(event, store);
+    store.invoices[0].status = 'sent';
+
+    expect(await processStripeEvent(event, store)).toBe('duplicate');
+    expect(store.invoices[0].status).toBe('sent');
+  });
+
+  it('releases the event when processing fails so the retry succeeds', async () => {
+    const event = signedEvent('customer.subscription.updated');
+    store.failNextSave = true;
+
+    await expect(processStripeEvent(event, store)).rejects.toThrow('database unavailable');
+    expect(await processStripeEvent(event, store)).toBe('processed');
+  });
+});
+
+describe('subscriptionTier', () => {
+  it('maps plans and statuses to a tier', () => {
+    expect(subscriptionTier({ plan: 'enterprise', status: 'active' })).toBe('enterprise');
+    expect(subscriptionTier({ plan: 'starter', status: 'trialing' })).toBe('pro');
+    expect(subscriptionTier({ plan: 'professional', status: 'unpaid' })).toBe('free');
+  });
+
+  it('unlocks nothing for prices that are not a plan', () => {
+    expect(subscriptionTier({ plan: 'price_1Abc', status: 'active' })).toBe('free');
+    expect(subscriptionTier({ plan: 'constructor', status: 'active' })).toBe('free');
+  });
+});
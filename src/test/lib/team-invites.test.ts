@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import {
+  canManageRole,
+  generateInviteToken,
+  getInviteBlocker,
+  getInviteUrl,
+  hashInviteToken,
+  hasFreeSeat,
+  inviteExpiresAt,
+  parseInviteInput,
+} from '../../../lib/team-invites';
+
+describe('generateInviteToken', () => {
+  it('returns a url-safe token with its hash', () => {
+    const { token, token_hash } = generateInviteToken();
+    expect(token).toMatch(/^[A-Za-z0-9_-]{43}$/);
+    expect(token_hash).toBe(hashInviteToken(token));
+    expect(token_hash).not.toContain(token);
+  });
+
+  it('generates a different token each time', () => {
+    expect(generateInviteToken().token).not.toBe(generateInviteToken().token);
+  });
+});
+
+describe('getInviteUrl', () => {
+  it('builds the accept page url', () => {
+    expect(getInviteUrl('abc', 'https://app.quotefast.nl')).toBe('https://app.quotefast.nl/invite/abc');
+  });
+});
+
+describe('inviteExpiresAt', () => {
+  it('expires after seven days', () => {
+    expect(inviteExpiresAt(new Date('2024-05-01T12:00:00.000Z'))).toBe('2024-05-08T12:00:00.000Z');
+  });
+});
+
+describe('canManageRole', () => {
+  it('lets owners manage everyone but other owners', () => {
+    expect(canManageRole('owner', 'admin')).toBe(true);
+    expect(canManageRole('owner', 'support')).toBe(true);
+    expect(canManageRole('owner', 'owner')).toBe(false);
+  });
+
+  it('lets admins manage non-admin roles only', () => {
+    expect(canManageRole('admin', 'developer')).toBe(true);
+    expect(canManageRole('admin', 'admin')).toBe(false);
+    expect(canManageRole('admin', 'owner')).toBe(false);
+  });
+
+  it('does not let other roles manage anyone', () => {
+    expect(canManageRole('developer', 'support')).toBe(false);
+  });
+});
+
+describe('parseInviteInput', () => {
+  it('normalizes the email address', () => {
+    expect(parseInviteInput({ email: ' Jan@Example.NL ', role: 'designer' })).toEqual({
+      values: { email: 'jan@example.nl', role: 'designer' },
+    });
+  });
+
+  it('rejects invalid emails and roles', () => {
+    expect(parseInviteInput({ email: 'geen-email', role: 'designer' }).error).toBeDefined();
+    expect(parseInviteInput({ email: 'jan@example.nl', role: 'owner' }).error).toBeDefined();
+    expect(parseInviteInput(null).error).toBeDefined();
+  });
+});
+
+describe('getInviteBlocker', () => {
+  const now = new Date('2024-05-01T12:00:00.000Z');
+  const open = { expires_at: '2024-05-08T12:00:00.000Z', accepted_at: null, revoked_at: null };
+
+  it('allows open invitations', () => {
+    expect(getInviteBlocker(open, now)).toBeNull();
+  });
+
+  it('blocks accepted, revoked and expired invitations', () => {
+    expect(getInviteBlocker({ ...open, accepted_at: '2024-05-01T10:00:00.000Z' }, now)).toContain('geaccepteerd');
+    expect(getInviteBlocker({ ...open, revoked_at: '2024-05-01T10:00:00.000Z' }, now)).toContain('ingetrokken');
+    expect(getInviteBlocker({ ...open, expires_at: '2024-05-01T11:00:00.000Z' }, now)).toContain('verlopen');
+  });
+});
+
+describe('hasFreeSeat', () => {
+  it('caps the team at max_team_size', () => {
+    expect(hasFreeSeat(3, 2)).toBe(true);
+    expect(hasFreeSeat(3, 3)).toBe(false);
+  });
+
+  it('has no limit without max_team_size', () => {
+    expect(hasFreeSeat(null, 100)).toBe(true);
+  });
+});
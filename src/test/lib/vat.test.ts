@@ -0,0 +1,84 @@
+/**
+ * VAT Tests
+ *
+ * Per-rate VAT totals, rounding and VAT number validation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { calculateVatTotals, getVatNotices, normalizeVatRate, roundCents } from '../../../lib/vat';
+import { checkVatNumber, isValidVatNumber, normalizeVatNumber } from '../../../validators/vat-number';
+
+describe('calculateVatTotals', () => {
+  it('groups VAT per rate in a fixed order', () => {
+    const totals = calculateVatTotals([
+      { quantity: 1, price: 100, vat_rate: 'reduced' },
+      { quantity: 2, price: 250 },
+      { quantity: 1, price: 50, vat_rate: 'exempt' },
+    ]);
+
+    expect(totals.vatLines.map(line => [line.rate, line.base, line.vat])).toEqual([
+      ['standard', 500, 105],
+      ['reduced', 100, 9],
+      ['exempt', 50, 0],
+    ]);
+    expect(totals.subtotal).toBe(650);
+    expect(totals.vatAmount).toBe(114);
+    expect(totals.total).toBe(764);
+  });
+
+  it('rounds VAT once per rate instead of per line', () => {
+    // Per line this would be 3 x 0.21 = 0.63; over the rate subtotal it is 0.62
+    const totals = calculateVatTotals([
+      { quantity: 1, price: 0.99 },
+      { quantity: 1, price: 0.99 },
+      { quantity: 1, price: 0.99 },
+    ]);
+    expect(totals.vatAmount).toBe(0.62);
+    expect(totals.total).toBe(3.59);
+  });
+
+  it('rounds half away from zero so credit notes mirror invoices', () => {
+    expect(roundCents(1.005)).toBe(1.01);
+    expect(roundCents(-1.005)).toBe(-1.01);
+    expect(roundCents(-0.001)).toBe(0);
+    expect(calculateVatTotals([{ quantity: -1, price: 10.5 }]).total).toBe(-12.71);
+  });
+
+  it('maps legacy percentages onto rate codes', () => {
+    expect(normalizeVatRate(9)).toBe('reduced');
+    expect(normalizeVatRate('0')).toBe('zero');
+    expect(normalizeVatRate(undefined)).toBe('standard');
+    expect(normalizeVatRate('reverse_charge')).toBe('reverse_charge');
+  });
+
+  it('adds the required statements for reverse charge and exempt lines', () => {
+    const totals = calculateVatTotals([
+      { quantity: 1, price: 100, vat_rate: 'reverse_charge' },
+      { quantity: 1, price: 100, vat_rate: 'exempt' },
+    ]);
+    expect(totals.vatAmount).toBe(0);
+    expect(getVatNotices(totals, 'DE123456789')).toEqual([
+      'BTW verlegd naar de afnemer (btw-nummer afnemer: DE123456789).',
+      'Vrijgesteld van BTW.',
+    ]);
+  });
+});
+
+describe('VAT number validation', () => {
+  it('normalizes separators and case', () => {
+    expect(normalizeVatNumber('nl 0044.95.445-b01')).toBe('NL004495445B01');
+  });
+
+  it('accepts valid Dutch numbers by eleven test or mod-97', () => {
+    expect(isValidVatNumber('NL004495445B01')).toBe(true);
+    expect(isValidVatNumber('NL000099998B57')).toBe(true);
+    expect(checkVatNumber('NL123456789B01').error).toBe('Invalid NL VAT number checksum');
+  });
+
+  it('checks the VIES format per country', () => {
+    expect(isValidVatNumber('BE0123456789')).toBe(true);
+    expect(isValidVatNumber('DE12345678')).toBe(false);
+    expect(isValidVatNumber('ATU12345678')).toBe(true);
+    expect(checkVatNumber('US123456789').error).toBe('VAT number must start with an EU country code');
+  });
+});
@@ -0,0 +1,117 @@
+-- supabase/migrations/005_offer_revisions.sql
+-- Immutable revision history for offers that have been sent to a customer
+
+CREATE TABLE IF NOT EXISTS public.offer_revisions (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    offer_id UUID NOT NULL REFERENCES public.offers(id) ON DELETE CASCADE,
+    organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+    version INTEGER NOT NULL,
+    title TEXT NOT NULL,
+    client_name TEXT NOT NULL,
+    client_id UUID,
+    amount DECIMAL(10,2) NOT NULL,
+    currency TEXT NOT NULL,
+    status TEXT NOT NULL,
+    due_date DATE,
+    terms JSONB,
+    products JSONB,
+    created_by UUID,
+    created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+    UNIQUE (offer_id, version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_offer_revisions_offer_id ON public.offer_revisions(offer_id);
+
+ALTER TABLE public.offer_revisions ENABLE ROW LEVEL SECURITY;
+
+-- Revisions are written by the trigger below only; members can read them
+CREATE POLICY "Users can view offer revisions" ON public.offer_revisions
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.team_members
+      WHERE team_members.user_id = auth.uid()
+      AND team_members.organization_id = offer_revisions.organization_id
+    )
+  );
+
+-- Snapshot an offer whenever it leaves draft, and on every content change afterwards
+CREATE OR REPLACE FUNCTION public.handle_offer_revision()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    IF NEW.status = 'draft' THEN
+        RETURN NEW;
+    END IF;
+
+    -- Status-only updates (viewed, accepted, ...) do not change what the customer saw
+    IF TG_OP = 'UPDATE' AND OLD.status <> 'draft'
+        AND NEW.title IS NOT DISTINCT FROM OLD.title
+        AND NEW.client_name IS NOT DISTINCT FROM OLD.client_name
+        AND NEW.client_id IS NOT DISTINCT FROM OLD.client_id
+        AND NEW.amount IS NOT DISTINCT FROM OLD.amount
+        AND NEW.currency IS NOT DISTINCT FROM OLD.currency
+        AND NEW.due_date IS NOT DISTINCT FROM OLD.due_date
+        AND NEW.terms IS NOT DISTINCT FROM OLD.terms
+        AND NEW.products IS NOT DISTINCT FROM OLD.products THEN
+        RETURN NEW;
+    END IF;
+
+    INSERT INTO public.offer_revisions (
+        offer_id,
+        organization_id,
+        version,
+        title,
+        client_name,
+        client_id,
+        amount,
+        currency,
+        status,
+        due_date,
+        terms,
+        products,
+        created_by
+    )
+    VALUES (
+        NEW.id,
+        NEW.organization_id,
+        COALESCE((SELECT MAX(version) FROM public.offer_revisions WHERE offer_id = NEW.id), 0) + 1,
+        NEW.title,
+        NEW.client_name,
+        NEW.client_id,
+        NEW.amount,
+        NEW.currency,
+        NEW.status,
+        NEW.due_date,
+        NEW.terms,
+        NEW.products,
+        auth.uid()
+    );
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_offer_revision ON public.offers;
+CREATE TRIGGER trigger_offer_revision
+  AFTER INSERT OR UPDATE ON public.offers
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_offer_revision();
+
+-- Revisions can never be changed once written
+CREATE OR REPLACE FUNCTION public.prevent_offer_revision_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    RAISE EXCEPTION 'offer revisions are immutable';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_offer_revision_immutable ON public.offer_revisions;
+CREATE TRIGGER trigger_offer_revision_immutable
+  BEFORE UPDATE ON public.offer_revisions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_offer_revision_update();
@@ -0,0 +1,20 @@
+-- supabase/migrations/006_offer_invoicing.sql
+-- Invoice content columns and links needed to invoice (part of) an accepted offer
+
+-- Payment terms used to calculate invoice due dates
+ALTER TABLE public.organizations
+    ADD COLUMN IF NOT EXISTS payment_terms_days INTEGER DEFAULT 30 NOT NULL CHECK (payment_terms_days >= 0);
+
+-- Content columns written by the invoice form and API routes
+ALTER TABLE public.invoices
+    ADD COLUMN IF NOT EXISTS title TEXT,
+    ADD COLUMN IF NOT EXISTS description TEXT,
+    ADD COLUMN IF NOT EXISTS items JSONB DEFAULT '[]';
+
+-- Deposit and final invoices for the same offer; a final invoice references the first deposit
+ALTER TABLE public.invoices
+    ADD COLUMN IF NOT EXISTS invoice_type TEXT DEFAULT 'full' NOT NULL CHECK (invoice_type IN ('full', 'deposit', 'final')),
+    ADD COLUMN IF NOT EXISTS deposit_percentage DECIMAL(5,2) CHECK (deposit_percentage > 0 AND deposit_percentage < 100),
+    ADD COLUMN IF NOT EXISTS parent_invoice_id UUID REFERENCES public.invoices(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_invoices_offer_id ON public.invoices(offer_id);
@@ -0,0 +1,145 @@
+-- supabase/migrations/007_invoice_number_sequences.sql
+-- Gapless invoice numbering per organization, fiscal year and series (invoices / credit notes)
+
+-- Numbering settings; {YYYY} / {YY} are replaced by the fiscal year, {0000} by the zero-padded sequence
+ALTER TABLE public.organizations
+    ADD COLUMN IF NOT EXISTS invoice_number_pattern TEXT DEFAULT '{YYYY}-{0000}' NOT NULL
+        CHECK (invoice_number_pattern ~ '\{0+\}'),
+    ADD COLUMN IF NOT EXISTS credit_note_number_pattern TEXT DEFAULT 'C{YYYY}-{0000}' NOT NULL
+        CHECK (credit_note_number_pattern ~ '\{0+\}'),
+    ADD COLUMN IF NOT EXISTS fiscal_year_start_month INTEGER DEFAULT 1 NOT NULL
+        CHECK (fiscal_year_start_month BETWEEN 1 AND 12);
+
+-- Credit notes are invoices with their own series that reference the invoice they correct
+ALTER TABLE public.invoices DROP CONSTRAINT IF EXISTS invoices_invoice_type_check;
+ALTER TABLE public.invoices
+    ADD CONSTRAINT invoices_invoice_type_check CHECK (invoice_type IN ('full', 'deposit', 'final', 'credit_note'));
+
+-- Numbers only have to be unique within an organization
+ALTER TABLE public.invoices DROP CONSTRAINT IF EXISTS invoices_invoice_number_key;
+ALTER TABLE public.invoices
+    ADD CONSTRAINT invoices_organization_invoice_number_key UNIQUE (organization_id, invoice_number);
+
+CREATE TABLE IF NOT EXISTS public.invoice_number_sequences (
+    organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+    series TEXT NOT NULL CHECK (series IN ('invoice', 'credit_note')),
+    fiscal_year INTEGER NOT NULL,
+    last_value INTEGER NOT NULL DEFAULT 0,
+    updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+    PRIMARY KEY (organization_id, series, fiscal_year)
+);
+
+-- Only the numbering functions below touch this table
+ALTER TABLE public.invoice_number_sequences ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.format_invoice_number(p_pattern TEXT, p_fiscal_year INTEGER, p_sequence INTEGER)
+RETURNS TEXT
+IMMUTABLE
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_digits TEXT;
+    v_result TEXT;
+BEGIN
+    v_digits := substring(p_pattern FROM '\{(0+)\}');
+    v_result := replace(p_pattern, '{YYYY}', p_fiscal_year::TEXT);
+    v_result := replace(v_result, '{YY}', lpad((p_fiscal_year % 100)::TEXT, 2, '0'));
+    RETURN replace(v_result, '{' || v_digits || '}', lpad(p_sequence::TEXT, length(v_digits), '0'));
+END;
+$$;
+
+-- Allocate the next number in a series. The sequence row is locked until the calling
+-- transaction ends, so concurrent inserts queue up and a rolled back insert frees its number.
+CREATE OR REPLACE FUNCTION public.allocate_invoice_number(p_organization_id UUID, p_series TEXT, p_date DATE)
+RETURNS TEXT
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_organization public.organizations%ROWTYPE;
+    v_fiscal_year INTEGER;
+    v_sequence INTEGER;
+BEGIN
+    SELECT * INTO v_organization FROM public.organizations WHERE id = p_organization_id;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'organization % not found', p_organization_id;
+    END IF;
+
+    v_fiscal_year := EXTRACT(YEAR FROM p_date)::INTEGER;
+    IF EXTRACT(MONTH FROM p_date)::INTEGER < v_organization.fiscal_year_start_month THEN
+        v_fiscal_year := v_fiscal_year - 1;
+    END IF;
+
+    INSERT INTO public.invoice_number_sequences (organization_id, series, fiscal_year, last_value)
+    VALUES (p_organization_id, p_series, v_fiscal_year, 1)
+    ON CONFLICT (organization_id, series, fiscal_year)
+    DO UPDATE SET last_value = invoice_number_sequences.last_value + 1, updated_at = NOW()
+    RETURNING last_value INTO v_sequence;
+
+    RETURN public.format_invoice_number(
+        CASE WHEN p_series = 'credit_note'
+            THEN v_organization.credit_note_number_pattern
+            ELSE v_organization.invoice_number_pattern
+        END,
+        v_fiscal_year,
+        v_sequence
+    );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.allocate_invoice_number(UUID, TEXT, DATE) FROM PUBLIC;
+
+-- Invoice numbers are always assigned by the database, in the same transaction as the insert
+CREATE OR REPLACE FUNCTION public.assign_invoice_number()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    NEW.invoice_number := public.allocate_invoice_number(
+        NEW.organization_id,
+        CASE WHEN NEW.invoice_type = 'credit_note' THEN 'credit_note' ELSE 'invoice' END,
+        CURRENT_DATE
+    );
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_assign_invoice_number ON public.invoices;
+CREATE TRIGGER trigger_assign_invoice_number
+  BEFORE INSERT ON public.invoices
+  FOR EACH ROW
+  EXECUTE FUNCTION public.assign_invoice_number();
+
+-- Numbers are immutable once assigned
+CREATE OR REPLACE FUNCTION public.prevent_invoice_number_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    IF NEW.invoice_number IS DISTINCT FROM OLD.invoice_number THEN
+        RAISE EXCEPTION 'invoice numbers cannot be changed';
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_invoice_number_immutable ON public.invoices;
+CREATE TRIGGER trigger_invoice_number_immutable
+  BEFORE UPDATE OF invoice_number ON public.invoices
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_invoice_number_change();
+
+-- Continue existing series that already follow the default pattern
+INSERT INTO public.invoice_number_sequences (organization_id, series, fiscal_year, last_value)
+SELECT
+    organization_id,
+    'invoice',
+    substring(invoice_number FROM '^(\d{4})-')::INTEGER,
+    MAX(substring(invoice_number FROM '^\d{4}-(\d+)$')::INTEGER)
+FROM public.invoices
+WHERE invoice_number ~ '^\d{4}-\d+$'
+GROUP BY organization_id, substring(invoice_number FROM '^(\d{4})-')
+ON CONFLICT (organization_id, series, fiscal_year) DO NOTHING;
@@ -0,0 +1,57 @@
+-- supabase/migrations/008_document_pdfs.sql
+-- Letterhead details for generated PDFs and storage buckets for offer and invoice PDFs
+
+ALTER TABLE public.organizations
+    ADD COLUMN IF NOT EXISTS logo_url TEXT,
+    ADD COLUMN IF NOT EXISTS address JSONB,
+    ADD COLUMN IF NOT EXISTS vat_number TEXT,
+    ADD COLUMN IF NOT EXISTS iban TEXT;
+
+-- PDFs are stored as public/<id>.pdf and linked through pdf_url
+INSERT INTO storage.buckets (id, name, public)
+VALUES
+    ('offers', 'offers', true),
+    ('invoices', 'invoices', true)
+ON CONFLICT (id) DO NOTHING;
+
+-- Team members may (re)upload the PDF of an offer in their organization
+CREATE POLICY "Members can upload offer PDFs" ON storage.objects
+  FOR INSERT WITH CHECK (
+    bucket_id = 'offers' AND EXISTS (
+      SELECT 1 FROM public.offers
+      JOIN public.team_members ON team_members.organization_id = offers.organization_id
+      WHERE team_members.user_id = auth.uid()
+      AND storage.objects.name = 'public/' || offers.id || '.pdf'
+    )
+  );
+
+CREATE POLICY "Members can replace offer PDFs" ON storage.objects
+  FOR UPDATE USING (
+    bucket_id = 'offers' AND EXISTS (
+      SELECT 1 FROM public.offers
+      JOIN public.team_members ON team_members.organization_id = offers.organization_id
+      WHERE team_members.user_id = auth.uid()
+      AND storage.objects.name = 'public/' || offers.id || '.pdf'
+    )
+  );
+
+-- Same for invoice PDFs
+CREATE POLICY "Members can upload invoice PDFs" ON storage.objects
+  FOR INSERT WITH CHECK (
+    bucket_id = 'invoices' AND EXISTS (
+      SELECT 1 FROM public.invoices
+      JOIN public.team_members ON team_members.organization_id = invoices.organization_id
+      WHERE team_members.user_id = auth.uid()
+      AND storage.objects.name = 'public/' || invoices.id || '.pdf'
+    )
+  );
+
+CREATE POLICY "Members can replace invoice PDFs" ON storage.objects
+  FOR UPDATE USING (
+    bucket_id = 'invoices' AND EXISTS (
+      SELECT 1 FROM public.invoices
+      JOIN public.team_members ON team_members.organization_id = invoices.organization_id
+      WHERE team_members.user_id = auth.uid()
+      AND storage.objects.name = 'public/' || invoices.id || '.pdf'
+    )
+  );
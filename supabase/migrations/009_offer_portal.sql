@@ -0,0 +1,41 @@
+-- supabase/migrations/009_offer_portal.sql
+-- Public offer portal (/o/<token>): access tokens and customer signatures
+
+-- Unguessable token used in the public link; existing offers get one as well
+ALTER TABLE public.offers
+    ADD COLUMN IF NOT EXISTS public_token TEXT UNIQUE DEFAULT encode(gen_random_bytes(24), 'hex');
+
+UPDATE public.offers SET public_token = encode(gen_random_bytes(24), 'hex') WHERE public_token IS NULL;
+
+ALTER TABLE public.offers ALTER COLUMN public_token SET NOT NULL;
+
+-- One row per accept / reject decision made in the portal
+CREATE TABLE IF NOT EXISTS public.offer_signatures (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    offer_id UUID NOT NULL REFERENCES public.offers(id) ON DELETE CASCADE,
+    organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+    decision TEXT NOT NULL CHECK (decision IN ('accepted', 'rejected')),
+    signer_name TEXT NOT NULL,
+    signature_type TEXT CHECK (signature_type IN ('typed', 'drawn')),
+    -- Typed name or a PNG data URL of the drawn signature
+    signature_data TEXT,
+    rejection_reason TEXT,
+    ip_address INET,
+    user_agent TEXT,
+    signed_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+    CHECK (decision = 'rejected' OR (signature_type IS NOT NULL AND signature_data IS NOT NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_offer_signatures_offer_id ON public.offer_signatures(offer_id);
+
+ALTER TABLE public.offer_signatures ENABLE ROW LEVEL SECURITY;
+
+-- Signatures are written by the portal (service role); members can read them
+CREATE POLICY "Users can view offer signatures" ON public.offer_signatures
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.team_members
+      WHERE team_members.user_id = auth.uid()
+      AND team_members.organization_id = offer_signatures.organization_id
+    )
+  );
@@ -0,0 +1,93 @@
+-- supabase/migrations/010_vat.sql
+-- Per-line VAT rates: stored VAT and totals on offers and invoices, customer VAT numbers
+
+-- amount stays the total excluding VAT; vat_amount and total are calculated by lib/vat.ts
+ALTER TABLE public.offers
+    ADD COLUMN IF NOT EXISTS vat_amount DECIMAL(10,2) NOT NULL DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS total DECIMAL(10,2);
+
+ALTER TABLE public.invoices
+    ADD COLUMN IF NOT EXISTS vat_amount DECIMAL(10,2) NOT NULL DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS total DECIMAL(10,2);
+
+-- Needed on the invoice for reverse-charge (EU B2B) lines
+ALTER TABLE public.customers
+    ADD COLUMN IF NOT EXISTS vat_number TEXT;
+
+-- Maps a line's vat_rate code to its percentage; lines without a rate use the standard 21%.
+-- Must match VAT_RATES in lib/vat.ts.
+CREATE OR REPLACE FUNCTION public.vat_percentage(rate TEXT)
+RETURNS DECIMAL(5,2)
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE COALESCE(rate, 'standard')
+    WHEN 'standard' THEN 21
+    WHEN 'reduced' THEN 9
+    ELSE 0
+  END::DECIMAL(5,2);
+$$;
+
+-- Total including VAT, calculated like lib/vat.ts: line totals are rounded to cents,
+-- VAT is calculated and rounded once per rate over the subtotal of that rate
+CREATE OR REPLACE FUNCTION public.calculate_invoice_total(
+  offer_id UUID
+)
+RETURNS DECIMAL(10,2)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  total DECIMAL(10,2) := 0;
+BEGIN
+  SELECT COALESCE(SUM(base + ROUND(base * public.vat_percentage(rate) / 100, 2)), 0)
+  INTO total
+  FROM (
+    SELECT
+      COALESCE(p->>'vat_rate', 'standard') AS rate,
+      SUM(ROUND((p->>'price')::DECIMAL * (p->>'quantity')::DECIMAL, 2)) AS base
+    FROM public.offers o,
+    jsonb_array_elements(o.products) p
+    WHERE o.id = calculate_invoice_total.offer_id
+    GROUP BY 1
+  ) per_rate;
+
+  RETURN total;
+END;
+$$;
+
+-- Existing documents were rendered with the standard rate on every line
+UPDATE public.offers
+SET vat_amount = ROUND(amount * 0.21, 2),
+    total = amount + ROUND(amount * 0.21, 2)
+WHERE total IS NULL;
+
+UPDATE public.invoices
+SET vat_amount = ROUND(amount * 0.21, 2),
+    total = amount + ROUND(amount * 0.21, 2)
+WHERE total IS NULL;
+
+ALTER TABLE public.offers ALTER COLUMN total SET NOT NULL;
+ALTER TABLE public.invoices ALTER COLUMN total SET NOT NULL;
+
+-- Safety net for writers that only send amount (e.g. the older client-side services)
+CREATE OR REPLACE FUNCTION public.fill_document_total()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.total IS NULL THEN
+    NEW.total := NEW.amount + COALESCE(NEW.vat_amount, 0);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_offers_fill_total ON public.offers;
+CREATE TRIGGER trigger_offers_fill_total
+  BEFORE INSERT OR UPDATE ON public.offers
+  FOR EACH ROW EXECUTE FUNCTION public.fill_document_total();
+
+DROP TRIGGER IF EXISTS trigger_invoices_fill_total ON public.invoices;
+CREATE TRIGGER trigger_invoices_fill_total
+  BEFORE INSERT OR UPDATE ON public.invoices
+  FOR EACH ROW EXECUTE FUNCTION public.fill_document_total();
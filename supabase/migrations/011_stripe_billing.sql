@@ -0,0 +1,43 @@
+-- supabase/migrations/011_stripe_billing.sql
+-- Organization subscriptions kept in sync by the Stripe webhook, plus processed event IDs
+
+CREATE TABLE IF NOT EXISTS public.organization_subscriptions (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    organization_id UUID NOT NULL UNIQUE REFERENCES public.organizations(id) ON DELETE CASCADE,
+    stripe_customer_id TEXT,
+    stripe_subscription_id TEXT UNIQUE,
+    plan TEXT,
+    status TEXT NOT NULL DEFAULT 'incomplete' CHECK (status IN (
+        'incomplete', 'incomplete_expired', 'trialing', 'active', 'past_due', 'canceled', 'unpaid', 'paused'
+    )),
+    seats INTEGER NOT NULL DEFAULT 1,
+    current_period_end TIMESTAMPTZ,
+    cancel_at_period_end BOOLEAN NOT NULL DEFAULT false,
+    created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+ALTER TABLE public.organization_subscriptions ENABLE ROW LEVEL SECURITY;
+
+-- Written by the webhook (service role); members can read their organization's subscription
+CREATE POLICY "Users can view organization subscription" ON public.organization_subscriptions
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.team_members
+      WHERE team_members.user_id = auth.uid()
+      AND team_members.organization_id = organization_subscriptions.organization_id
+    )
+  );
+
+-- Stripe delivers events at least once; an event ID is only processed once
+CREATE TABLE IF NOT EXISTS public.stripe_events (
+    id TEXT PRIMARY KEY,
+    type TEXT NOT NULL,
+    processed_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+-- Service role only: RLS on without policies
+ALTER TABLE public.stripe_events ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_invoices_stripe_invoice_id ON public.invoices(stripe_invoice_id);
+CREATE INDEX IF NOT EXISTS idx_organizations_stripe_customer_id ON public.organizations(stripe_customer_id);
@@ -0,0 +1,8 @@
+-- supabase/migrations/012_invoice_payment_links.sql
+-- Stripe payment links on invoices (iDEAL, Bancontact, card); the webhook marks them paid
+
+ALTER TABLE public.invoices
+    ADD COLUMN IF NOT EXISTS stripe_payment_link_id TEXT,
+    ADD COLUMN IF NOT EXISTS payment_url TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_invoices_stripe_payment_link_id ON public.invoices(stripe_payment_link_id);
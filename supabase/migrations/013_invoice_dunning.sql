@@ -0,0 +1,21 @@
+-- supabase/migrations/013_invoice_dunning.sql
+-- Payment reminders for overdue invoices: per-organization schedule, reminder templates and progress per invoice
+
+-- Days after the due date at which the friendly, firm and final reminder go out
+ALTER TABLE public.organizations
+    ADD COLUMN IF NOT EXISTS dunning_enabled BOOLEAN NOT NULL DEFAULT true,
+    ADD COLUMN IF NOT EXISTS reminder_schedule JSONB NOT NULL DEFAULT '{"friendly": 3, "firm": 14, "final": 30}'::jsonb;
+
+-- Number of reminders sent so far (0-3), so a restarted flow never sends a step twice
+ALTER TABLE public.invoices
+    ADD COLUMN IF NOT EXISTS reminders_sent SMALLINT NOT NULL DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS last_reminder_at TIMESTAMPTZ;
+
+ALTER TABLE public.email_templates DROP CONSTRAINT IF EXISTS email_templates_type_check;
+ALTER TABLE public.email_templates ADD CONSTRAINT email_templates_type_check CHECK (type IN (
+    'welcome', 'offer', 'invoice', 'team_invite', 'password_reset', 'newsletter',
+    'payment_reminder_friendly', 'payment_reminder_firm', 'payment_reminder_final'
+));
+
+-- The daily overdue sweep filters on status and due date
+CREATE INDEX IF NOT EXISTS idx_invoices_status_due_date ON public.invoices(status, due_date);
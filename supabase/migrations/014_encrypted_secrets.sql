@@ -0,0 +1,20 @@
+-- supabase/migrations/014_encrypted_secrets.sql
+-- SMTP passwords and WhatsApp access tokens are stored envelope-encrypted (lib/secrets.ts)
+
+-- The key lives in the application environment, not in the database, so existing rows are
+-- encrypted by the reencrypt-secrets Inngest function (daily, or on the "secrets/reencrypt"
+-- event). Until then the application still reads the old plaintext values.
+COMMENT ON COLUMN public.user_email_settings.smtp_password IS
+    'Encrypted: enc:v1:<key id>:<wrapped data key>:<ciphertext>. Never returned to clients.';
+COMMENT ON COLUMN public.user_whatsapp_settings.access_token IS
+    'Encrypted: enc:v1:<key id>:<wrapped data key>:<ciphertext>. Never returned to clients.';
+
+-- Rows still holding plaintext, for checking that the re-encryption ran
+CREATE OR REPLACE VIEW public.unencrypted_secrets AS
+    SELECT 'user_email_settings' AS table_name, id FROM public.user_email_settings
+    WHERE smtp_password IS NOT NULL AND smtp_password <> '' AND smtp_password NOT LIKE 'enc:%'
+    UNION ALL
+    SELECT 'user_whatsapp_settings', id FROM public.user_whatsapp_settings
+    WHERE access_token IS NOT NULL AND access_token <> '' AND access_token NOT LIKE 'enc:%';
+
+REVOKE ALL ON public.unencrypted_secrets FROM anon, authenticated;
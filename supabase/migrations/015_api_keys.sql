@@ -0,0 +1,43 @@
+-- supabase/migrations/015_api_keys.sql
+-- Scoped, expiring and revocable API keys (lib/auth/api-keys.ts)
+
+-- Only the SHA-256 hash of a key is stored; key_prefix identifies it in the settings
+ALTER TABLE public.api_keys
+    ADD COLUMN IF NOT EXISTS key_prefix TEXT,
+    ADD COLUMN IF NOT EXISTS expires_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN IF NOT EXISTS revoked_at TIMESTAMP WITH TIME ZONE;
+
+-- permissions holds the granted scopes, e.g. ["offers:read", "invoices:write"]
+UPDATE public.api_keys SET permissions = '[]'::jsonb
+    WHERE permissions IS NULL OR jsonb_typeof(permissions) <> 'array';
+
+ALTER TABLE public.api_keys
+    ALTER COLUMN permissions SET DEFAULT '[]'::jsonb,
+    ALTER COLUMN permissions SET NOT NULL;
+
+ALTER TABLE public.api_keys
+    ADD CONSTRAINT api_keys_permissions_array CHECK (jsonb_typeof(permissions) = 'array');
+
+CREATE INDEX IF NOT EXISTS idx_api_keys_org_id ON public.api_keys(organization_id);
+
+-- Members can list keys; creating and revoking goes through the API (owners and admins)
+DROP POLICY IF EXISTS "API keys for organization members" ON public.api_keys;
+
+CREATE POLICY "API keys visible to organization members" ON public.api_keys
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.team_members
+      WHERE team_members.user_id = auth.uid()
+      AND team_members.organization_id = api_keys.organization_id
+    )
+  );
+
+CREATE POLICY "API keys managed by owners and admins" ON public.api_keys
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM public.team_members
+      WHERE team_members.user_id = auth.uid()
+      AND team_members.organization_id = api_keys.organization_id
+      AND team_members.role IN ('owner', 'admin')
+    )
+  );
@@ -0,0 +1,79 @@
+-- supabase/migrations/016_outgoing_webhooks.sql
+-- Organization webhook endpoints and the log of signed deliveries (lib/outgoing-webhooks.ts)
+
+CREATE TABLE IF NOT EXISTS public.webhook_endpoints (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+    url TEXT NOT NULL,
+    description TEXT,
+    -- Subscribed event types, e.g. {offer.accepted,invoice.paid}
+    events TEXT[] NOT NULL DEFAULT '{}',
+    -- Signing secret, encrypted like other stored credentials (lib/secrets.ts)
+    secret TEXT NOT NULL,
+    enabled BOOLEAN NOT NULL DEFAULT true,
+    created_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_endpoints_org_id ON public.webhook_endpoints(organization_id);
+
+CREATE TABLE IF NOT EXISTS public.webhook_deliveries (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+    endpoint_id UUID NOT NULL REFERENCES public.webhook_endpoints(id) ON DELETE CASCADE,
+    -- The same event is delivered to every subscribed endpoint under one event id
+    event_id UUID NOT NULL,
+    event_type TEXT NOT NULL,
+    payload JSONB NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'succeeded', 'failed')),
+    attempts SMALLINT NOT NULL DEFAULT 0,
+    response_status INTEGER,
+    response_body TEXT,
+    error TEXT,
+    duration_ms INTEGER,
+    last_attempt_at TIMESTAMPTZ,
+    next_attempt_at TIMESTAMPTZ,
+    delivered_at TIMESTAMPTZ,
+    -- Set on manual redeliveries
+    redelivery_of UUID REFERENCES public.webhook_deliveries(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_endpoint ON public.webhook_deliveries(endpoint_id, created_at DESC);
+
+ALTER TABLE public.webhook_endpoints ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+-- Endpoints carry a signing secret: only owners and admins can see or change them
+CREATE POLICY "Webhook endpoints managed by owners and admins" ON public.webhook_endpoints
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM public.team_members
+      WHERE team_members.user_id = auth.uid()
+      AND team_members.organization_id = webhook_endpoints.organization_id
+      AND team_members.role IN ('owner', 'admin')
+    )
+  );
+
+-- Deliveries are written by the Inngest functions with the service role
+CREATE POLICY "Webhook deliveries visible to owners and admins" ON public.webhook_deliveries
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.team_members
+      WHERE team_members.user_id = auth.uid()
+      AND team_members.organization_id = webhook_deliveries.organization_id
+      AND team_members.role IN ('owner', 'admin')
+    )
+  );
+
+-- Manual redelivery from the settings copies an earlier delivery
+CREATE POLICY "Webhook deliveries redelivered by owners and admins" ON public.webhook_deliveries
+  FOR INSERT WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.team_members
+      WHERE team_members.user_id = auth.uid()
+      AND team_members.organization_id = webhook_deliveries.organization_id
+      AND team_members.role IN ('owner', 'admin')
+    )
+  );
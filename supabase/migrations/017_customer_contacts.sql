@@ -0,0 +1,41 @@
+-- supabase/migrations/017_customer_contacts.sql
+-- Contact persons per customer with roles and a primary flag; offers and invoices can be addressed to one
+
+CREATE TABLE IF NOT EXISTS public.customer_contacts (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+    customer_id UUID NOT NULL REFERENCES public.customers(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    email TEXT,
+    phone TEXT,
+    job_title TEXT,
+    -- Who receives which documents: quotes (offers), billing (invoices, reminders), technical
+    roles TEXT[] NOT NULL DEFAULT '{}' CHECK (roles <@ ARRAY['quotes', 'billing', 'technical']::TEXT[]),
+    is_primary BOOLEAN NOT NULL DEFAULT false,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_customer_contacts_customer_id ON public.customer_contacts(customer_id);
+
+-- At most one primary contact per customer
+CREATE UNIQUE INDEX IF NOT EXISTS idx_customer_contacts_primary
+    ON public.customer_contacts(customer_id) WHERE is_primary;
+
+ALTER TABLE public.customer_contacts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage customer contacts" ON public.customer_contacts
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM public.team_members
+      WHERE team_members.user_id = auth.uid()
+      AND team_members.organization_id = customer_contacts.organization_id
+    )
+  );
+
+-- Without a contact, documents go to the contact with the matching role, then to the customer
+ALTER TABLE public.offers
+    ADD COLUMN IF NOT EXISTS contact_id UUID REFERENCES public.customer_contacts(id) ON DELETE SET NULL;
+
+ALTER TABLE public.invoices
+    ADD COLUMN IF NOT EXISTS contact_id UUID REFERENCES public.customer_contacts(id) ON DELETE SET NULL;
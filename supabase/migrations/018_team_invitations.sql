@@ -0,0 +1,70 @@
+-- supabase/migrations/018_team_invitations.sql
+-- Team invitations with an expiring token, accepted through /invite/<token> (lib/team-invites.ts)
+
+-- Invitees may not have an account yet, so they cannot be a team_members row until they accept.
+-- Only the SHA-256 hash of the token is stored; the token itself is only in the invitation email.
+CREATE TABLE IF NOT EXISTS public.team_invitations (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+    email TEXT NOT NULL,
+    role TEXT NOT NULL CHECK (role IN ('admin', 'developer', 'designer', 'support')),
+    token_hash TEXT UNIQUE NOT NULL,
+    invited_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+    expires_at TIMESTAMPTZ NOT NULL,
+    accepted_at TIMESTAMPTZ,
+    accepted_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+    revoked_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_team_invitations_org_id ON public.team_invitations(organization_id);
+
+-- One open invitation per address; inviting again revokes the previous one
+CREATE UNIQUE INDEX IF NOT EXISTS idx_team_invitations_open_email
+    ON public.team_invitations(organization_id, lower(email))
+    WHERE accepted_at IS NULL AND revoked_at IS NULL;
+
+ALTER TABLE public.team_invitations ENABLE ROW LEVEL SECURITY;
+
+-- Members see the open invitations of their team; owners and admins manage them.
+-- Accepting goes through the API with the service role, because the invitee is not a member yet.
+CREATE POLICY "Team invitations visible to organization members" ON public.team_invitations
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.team_members
+      WHERE team_members.user_id = auth.uid()
+      AND team_members.organization_id = team_invitations.organization_id
+    )
+  );
+
+CREATE POLICY "Team invitations managed by owners and admins" ON public.team_invitations
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM public.team_members
+      WHERE team_members.user_id = auth.uid()
+      AND team_members.organization_id = team_invitations.organization_id
+      AND team_members.role IN ('owner', 'admin')
+    )
+  );
+
+-- The team page shows the name and email of every member, not only your own profile
+CREATE POLICY "Users can view profiles of their team" ON public.users
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.team_members own
+      JOIN public.team_members other ON other.organization_id = own.organization_id
+      WHERE own.user_id = auth.uid()
+      AND other.user_id = users.id
+    )
+  );
+
+-- Owners and admins deactivate members from the team page; joining goes through the API
+CREATE POLICY "Team members managed by owners and admins" ON public.team_members
+  FOR UPDATE USING (
+    EXISTS (
+      SELECT 1 FROM public.team_members manager
+      WHERE manager.user_id = auth.uid()
+      AND manager.organization_id = team_members.organization_id
+      AND manager.role IN ('owner', 'admin')
+    )
+  );
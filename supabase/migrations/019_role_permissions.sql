@@ -0,0 +1,166 @@
+-- supabase/migrations/019_role_permissions.sql
+-- Role based permissions (lib/auth/permissions.ts) enforced in the RLS policies
+
+-- The permission matrix; keep in sync with ROLE_PERMISSIONS in lib/auth/permissions.ts
+CREATE OR REPLACE FUNCTION public.role_has_permission(p_role TEXT, p_permission TEXT)
+RETURNS BOOLEAN
+IMMUTABLE
+LANGUAGE sql
+AS $$
+    SELECT CASE p_role
+        WHEN 'owner' THEN TRUE
+        WHEN 'admin' THEN TRUE
+        WHEN 'developer' THEN p_permission = ANY (ARRAY[
+            'customers:read', 'customers:write', 'customers:delete',
+            'offers:read', 'offers:write', 'offers:send', 'offers:delete',
+            'invoices:read', 'invoices:write', 'invoices:send',
+            'activity:read'
+        ])
+        WHEN 'designer' THEN p_permission = ANY (ARRAY[
+            'customers:read',
+            'offers:read', 'offers:write',
+            'invoices:read',
+            'activity:read'
+        ])
+        WHEN 'support' THEN p_permission = ANY (ARRAY[
+            'customers:read', 'customers:write',
+            'offers:read', 'offers:send',
+            'invoices:read', 'invoices:send',
+            'activity:read'
+        ])
+        ELSE FALSE
+    END;
+$$;
+
+-- Whether the signed-in user is an active member of the organization with a role that grants
+-- the permission. SECURITY DEFINER so policies on team_members itself do not recurse.
+CREATE OR REPLACE FUNCTION public.has_permission(p_organization_id UUID, p_permission TEXT)
+RETURNS BOOLEAN
+STABLE
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE sql
+AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM public.team_members
+        WHERE team_members.user_id = auth.uid()
+        AND team_members.organization_id = p_organization_id
+        AND team_members.status = 'active'
+        AND public.role_has_permission(team_members.role, p_permission)
+    );
+$$;
+
+-- Customers
+DROP POLICY IF EXISTS "Users can manage customers" ON public.customers;
+
+CREATE POLICY "Customers readable with customers:read" ON public.customers
+  FOR SELECT USING (public.has_permission(organization_id, 'customers:read'));
+
+CREATE POLICY "Customers created with customers:write" ON public.customers
+  FOR INSERT WITH CHECK (public.has_permission(organization_id, 'customers:write'));
+
+CREATE POLICY "Customers updated with customers:write" ON public.customers
+  FOR UPDATE USING (public.has_permission(organization_id, 'customers:write'));
+
+CREATE POLICY "Customers deleted with customers:delete" ON public.customers
+  FOR DELETE USING (public.has_permission(organization_id, 'customers:delete'));
+
+-- Contact persons belong to the customer record: editing them is editing the customer
+DROP POLICY IF EXISTS "Users can manage customer contacts" ON public.customer_contacts;
+
+CREATE POLICY "Customer contacts readable with customers:read" ON public.customer_contacts
+  FOR SELECT USING (public.has_permission(organization_id, 'customers:read'));
+
+CREATE POLICY "Customer contacts managed with customers:write" ON public.customer_contacts
+  FOR ALL USING (public.has_permission(organization_id, 'customers:write'))
+  WITH CHECK (public.has_permission(organization_id, 'customers:write'));
+
+-- Offers; sending updates the status, so offers:send may update as well
+DROP POLICY IF EXISTS "Users can manage offers" ON public.offers;
+
+CREATE POLICY "Offers readable with offers:read" ON public.offers
+  FOR SELECT USING (public.has_permission(organization_id, 'offers:read'));
+
+CREATE POLICY "Offers created with offers:write" ON public.offers
+  FOR INSERT WITH CHECK (public.has_permission(organization_id, 'offers:write'));
+
+CREATE POLICY "Offers updated with offers:write or offers:send" ON public.offers
+  FOR UPDATE USING (
+    public.has_permission(organization_id, 'offers:write')
+    OR public.has_permission(organization_id, 'offers:send')
+  );
+
+CREATE POLICY "Offers deleted with offers:delete" ON public.offers
+  FOR DELETE USING (public.has_permission(organization_id, 'offers:delete'));
+
+DROP POLICY IF EXISTS "Users can view offer revisions" ON public.offer_revisions;
+
+CREATE POLICY "Offer revisions readable with offers:read" ON public.offer_revisions
+  FOR SELECT USING (public.has_permission(organization_id, 'offers:read'));
+
+DROP POLICY IF EXISTS "Users can view offer signatures" ON public.offer_signatures;
+
+CREATE POLICY "Offer signatures readable with offers:read" ON public.offer_signatures
+  FOR SELECT USING (public.has_permission(organization_id, 'offers:read'));
+
+-- Invoices; sending updates the status and payment link, so invoices:send may update as well
+DROP POLICY IF EXISTS "Users can manage invoices" ON public.invoices;
+
+CREATE POLICY "Invoices readable with invoices:read" ON public.invoices
+  FOR SELECT USING (public.has_permission(organization_id, 'invoices:read'));
+
+CREATE POLICY "Invoices created with invoices:write" ON public.invoices
+  FOR INSERT WITH CHECK (public.has_permission(organization_id, 'invoices:write'));
+
+CREATE POLICY "Invoices updated with invoices:write or invoices:send" ON public.invoices
+  FOR UPDATE USING (
+    public.has_permission(organization_id, 'invoices:write')
+    OR public.has_permission(organization_id, 'invoices:send')
+  );
+
+CREATE POLICY "Invoices deleted with invoices:delete" ON public.invoices
+  FOR DELETE USING (public.has_permission(organization_id, 'invoices:delete'));
+
+-- Activity log
+DROP POLICY IF EXISTS "Activity log for organization" ON public.activity_log;
+
+CREATE POLICY "Activity log readable with activity:read" ON public.activity_log
+  FOR SELECT USING (public.has_permission(organization_id, 'activity:read'));
+
+-- Organization settings; the owner policy from 001 stays for everything else
+CREATE POLICY "Organization settings managed with settings:manage" ON public.organizations
+  FOR UPDATE USING (public.has_permission(id, 'settings:manage'));
+
+-- API keys: listing them is managing them as well
+DROP POLICY IF EXISTS "API keys visible to organization members" ON public.api_keys;
+DROP POLICY IF EXISTS "API keys managed by owners and admins" ON public.api_keys;
+
+CREATE POLICY "API keys managed with api_keys:manage" ON public.api_keys
+  FOR ALL USING (public.has_permission(organization_id, 'api_keys:manage'))
+  WITH CHECK (public.has_permission(organization_id, 'api_keys:manage'));
+
+-- Webhooks
+DROP POLICY IF EXISTS "Webhook endpoints managed by owners and admins" ON public.webhook_endpoints;
+DROP POLICY IF EXISTS "Webhook deliveries visible to owners and admins" ON public.webhook_deliveries;
+DROP POLICY IF EXISTS "Webhook deliveries redelivered by owners and admins" ON public.webhook_deliveries;
+
+CREATE POLICY "Webhook endpoints managed with webhooks:manage" ON public.webhook_endpoints
+  FOR ALL USING (public.has_permission(organization_id, 'webhooks:manage'))
+  WITH CHECK (public.has_permission(organization_id, 'webhooks:manage'));
+
+CREATE POLICY "Webhook deliveries visible with webhooks:manage" ON public.webhook_deliveries
+  FOR SELECT USING (public.has_permission(organization_id, 'webhooks:manage'));
+
+CREATE POLICY "Webhook deliveries redelivered with webhooks:manage" ON public.webhook_deliveries
+  FOR INSERT WITH CHECK (public.has_permission(organization_id, 'webhooks:manage'));
+
+-- Team; which roles someone may invite or remove is checked by the API (canManageRole)
+DROP POLICY IF EXISTS "Team invitations managed by owners and admins" ON public.team_invitations;
+DROP POLICY IF EXISTS "Team members managed by owners and admins" ON public.team_members;
+
+CREATE POLICY "Team invitations managed with team:manage" ON public.team_invitations
+  FOR ALL USING (public.has_permission(organization_id, 'team:manage'))
+  WITH CHECK (public.has_permission(organization_id, 'team:manage'));
+
+CREATE POLICY "Team members managed with team:manage" ON public.team_members
+  FOR UPDATE USING (public.has_permission(organization_id, 'team:manage'));
@@ -0,0 +1,34 @@
+-- supabase/migrations/020_activity_log.sql
+-- Audit trail: the application writes activity_log (lib/activity.ts) and the dashboard
+-- follows it with Supabase Realtime
+
+-- Offer status changes are logged by the API routes now, with the acting user, IP address
+-- and user agent; the trigger only keeps the notification for sent offers
+CREATE OR REPLACE FUNCTION public.handle_offer_status_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'sent' AND OLD.status != 'sent' THEN
+    PERFORM pg_notify(
+      'offer_status_change',
+      jsonb_build_object(
+        'event', 'offer_sent',
+        'offer_id', NEW.id,
+        'client_id', NEW.client_id
+      )::text
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- /api/activity pages through the newest entries of one organization
+CREATE INDEX IF NOT EXISTS idx_activity_log_org_created_at
+  ON public.activity_log(organization_id, created_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_activity_log_resource_id ON public.activity_log(resource_id);
+
+-- Entries are written with the service role only (no INSERT policy), so members cannot
+-- forge or remove audit entries; reading stays behind activity:read (019)
+
+-- Realtime inserts for the activity feed; Realtime applies the SELECT policy per subscriber
+ALTER PUBLICATION supabase_realtime ADD TABLE public.activity_log;
@@ -0,0 +1,45 @@
+-- supabase/migrations/021_invoice_finalization.sql
+-- Invoices are numbered when they leave draft instead of on insert, and only unnumbered drafts can be deleted
+
+-- Drafts have no number yet; numbered invoices keep theirs
+ALTER TABLE public.invoices ALTER COLUMN invoice_number DROP NOT NULL;
+
+-- A number is allocated once, by the insert or update that moves the invoice out of draft.
+-- Deleting a draft therefore never leaves a gap; issued invoices are corrected with a credit note.
+CREATE OR REPLACE FUNCTION public.assign_invoice_number()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        NEW.invoice_number := NULL;
+    END IF;
+
+    IF NEW.invoice_number IS NULL AND NEW.status <> 'draft' THEN
+        NEW.invoice_number := public.allocate_invoice_number(
+            NEW.organization_id,
+            CASE WHEN NEW.invoice_type = 'credit_note' THEN 'credit_note' ELSE 'invoice' END,
+            CURRENT_DATE
+        );
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_assign_invoice_number ON public.invoices;
+CREATE TRIGGER trigger_assign_invoice_number
+  BEFORE INSERT OR UPDATE OF status ON public.invoices
+  FOR EACH ROW
+  EXECUTE FUNCTION public.assign_invoice_number();
+
+-- Only drafts that were never numbered may be deleted
+DROP POLICY IF EXISTS "Invoices deleted with invoices:delete" ON public.invoices;
+
+CREATE POLICY "Draft invoices deleted with invoices:delete" ON public.invoices
+  FOR DELETE USING (
+    public.has_permission(organization_id, 'invoices:delete')
+    AND status = 'draft'
+    AND invoice_number IS NULL
+  );
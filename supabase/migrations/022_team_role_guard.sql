@@ -0,0 +1,47 @@
+-- supabase/migrations/022_team_role_guard.sql
+-- Team members and invitations can only be changed for roles the signed-in user may manage
+
+-- Mirrors canManageRole in lib/team-invites.ts: nobody manages the owner role, owners manage
+-- every other role and admins the roles below admin
+CREATE OR REPLACE FUNCTION public.can_manage_role(p_organization_id UUID, p_role TEXT)
+RETURNS BOOLEAN
+STABLE
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE sql
+AS $$
+    SELECT p_role <> 'owner' AND EXISTS (
+        SELECT 1 FROM public.team_members
+        WHERE team_members.user_id = auth.uid()
+        AND team_members.organization_id = p_organization_id
+        AND team_members.status = 'active'
+        AND public.role_has_permission(team_members.role, 'team:manage')
+        AND (team_members.role = 'owner' OR (team_members.role = 'admin' AND p_role <> 'admin'))
+    );
+$$;
+
+-- Both the current and the new row are checked, so a member can neither be promoted to a role
+-- the manager may not hand out nor be changed while holding one. Nobody edits their own row.
+DROP POLICY IF EXISTS "Team members managed with team:manage" ON public.team_members;
+
+CREATE POLICY "Team members managed with team:manage" ON public.team_members
+  FOR UPDATE
+  USING (user_id <> auth.uid() AND public.can_manage_role(organization_id, role))
+  WITH CHECK (user_id <> auth.uid() AND public.can_manage_role(organization_id, role));
+
+-- Invitations are readable with team:manage, but only created or revoked for manageable roles
+DROP POLICY IF EXISTS "Team invitations managed with team:manage" ON public.team_invitations;
+
+CREATE POLICY "Team invitations readable with team:manage" ON public.team_invitations
+  FOR SELECT USING (public.has_permission(organization_id, 'team:manage'));
+
+CREATE POLICY "Team invitations created for manageable roles" ON public.team_invitations
+  FOR INSERT WITH CHECK (public.can_manage_role(organization_id, role));
+
+CREATE POLICY "Team invitations updated for manageable roles" ON public.team_invitations
+  FOR UPDATE
+  USING (public.can_manage_role(organization_id, role))
+  WITH CHECK (public.can_manage_role(organization_id, role));
+
+CREATE POLICY "Team invitations deleted for manageable roles" ON public.team_invitations
+  FOR DELETE USING (public.can_manage_role(organization_id, role));
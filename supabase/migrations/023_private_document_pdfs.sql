@@ -0,0 +1,27 @@
+-- supabase/migrations/023_private_document_pdfs.sql
+-- Offer and invoice PDFs are private and downloaded through signed URLs (lib/pdf/storage.ts)
+
+UPDATE storage.buckets SET public = false WHERE id IN ('offers', 'invoices');
+
+-- Signing a URL needs read access to the object; members get it with the matching read permission
+CREATE POLICY "Offer PDFs readable with offers:read" ON storage.objects
+  FOR SELECT USING (
+    bucket_id = 'offers' AND EXISTS (
+      SELECT 1 FROM public.offers
+      WHERE storage.objects.name = 'public/' || offers.id || '.pdf'
+      AND public.has_permission(offers.organization_id, 'offers:read')
+    )
+  );
+
+CREATE POLICY "Invoice PDFs readable with invoices:read" ON storage.objects
+  FOR SELECT USING (
+    bucket_id = 'invoices' AND EXISTS (
+      SELECT 1 FROM public.invoices
+      WHERE storage.objects.name = 'public/' || invoices.id || '.pdf'
+      AND public.has_permission(invoices.organization_id, 'invoices:read')
+    )
+  );
+
+-- pdf_url held the public object URL; it now points to the authenticated download route
+UPDATE public.offers SET pdf_url = '/api/offers/' || id || '/pdf' WHERE pdf_url IS NOT NULL;
+UPDATE public.invoices SET pdf_url = '/api/invoices/' || id || '/pdf' WHERE pdf_url IS NOT NULL;
@@ -0,0 +1,23 @@
+-- supabase/migrations/024_require_encrypted_secrets.sql
+-- Stored credentials must be encrypted; run `npm run secrets:encrypt` (scripts/encrypt-secrets.ts) first
+
+-- An empty value never meant a credential; clearing one now stores NULL
+UPDATE public.user_email_settings SET smtp_password = NULL WHERE smtp_password = '';
+UPDATE public.user_whatsapp_settings SET access_token = NULL WHERE access_token = '';
+
+-- Stops the deploy while plaintext is left, instead of waiting for the daily re-encryption job
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM public.unencrypted_secrets) THEN
+        RAISE EXCEPTION 'Plaintext secrets found in public.unencrypted_secrets; run npm run secrets:encrypt before this migration';
+    END IF;
+END;
+$$;
+
+ALTER TABLE public.user_email_settings
+    ADD CONSTRAINT user_email_settings_smtp_password_encrypted
+        CHECK (smtp_password IS NULL OR smtp_password LIKE 'enc:%');
+
+ALTER TABLE public.user_whatsapp_settings
+    ADD CONSTRAINT user_whatsapp_settings_access_token_encrypted
+        CHECK (access_token IS NULL OR access_token LIKE 'enc:%');
@@ -0,0 +1,76 @@
+-- supabase/migrations/025_send_transitions.sql
+-- Updating offers and invoices needs the write permission; sending goes through functions that only touch the send fields
+
+DROP POLICY IF EXISTS "Offers updated with offers:write or offers:send" ON public.offers;
+
+CREATE POLICY "Offers updated with offers:write" ON public.offers
+  FOR UPDATE USING (public.has_permission(organization_id, 'offers:write'));
+
+DROP POLICY IF EXISTS "Invoices updated with invoices:write or invoices:send" ON public.invoices;
+
+CREATE POLICY "Invoices updated with invoices:write" ON public.invoices
+  FOR UPDATE USING (public.has_permission(organization_id, 'invoices:write'));
+
+-- Called by app/api/offers/[id]/send once the PDF is stored: a draft becomes sent
+-- and pdf_url points to the download route
+CREATE OR REPLACE FUNCTION public.mark_offer_sent(p_offer_id UUID)
+RETURNS public.offers
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_offer public.offers;
+BEGIN
+    UPDATE public.offers
+    SET status = CASE WHEN status = 'draft' THEN 'sent' ELSE status END,
+        pdf_url = '/api/offers/' || id || '/pdf',
+        updated_at = NOW()
+    WHERE id = p_offer_id
+    AND public.has_permission(organization_id, 'offers:send')
+    RETURNING * INTO v_offer;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Offer % not found', p_offer_id USING ERRCODE = 'P0002';
+    END IF;
+    RETURN v_offer;
+END;
+$$;
+
+-- Called by app/api/invoices/[id]/send: a draft becomes sent (and is numbered), the payment
+-- link is stored when one was created and pdf_url is set once the PDF is stored
+CREATE OR REPLACE FUNCTION public.mark_invoice_sent(
+    p_invoice_id UUID,
+    p_pdf_stored BOOLEAN DEFAULT FALSE,
+    p_stripe_payment_link_id TEXT DEFAULT NULL,
+    p_payment_url TEXT DEFAULT NULL
+)
+RETURNS public.invoices
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_invoice public.invoices;
+BEGIN
+    UPDATE public.invoices
+    SET status = CASE WHEN status = 'draft' THEN 'sent' ELSE status END,
+        stripe_payment_link_id = COALESCE(p_stripe_payment_link_id, stripe_payment_link_id),
+        payment_url = COALESCE(p_payment_url, payment_url),
+        pdf_url = CASE WHEN p_pdf_stored THEN '/api/invoices/' || id || '/pdf' ELSE pdf_url END,
+        updated_at = NOW()
+    WHERE id = p_invoice_id
+    AND public.has_permission(organization_id, 'invoices:send')
+    RETURNING * INTO v_invoice;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Invoice % not found', p_invoice_id USING ERRCODE = 'P0002';
+    END IF;
+    RETURN v_invoice;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.mark_offer_sent(UUID) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.mark_invoice_sent(UUID, BOOLEAN, TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.mark_offer_sent(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.mark_invoice_sent(UUID, BOOLEAN, TEXT, TEXT) TO authenticated;
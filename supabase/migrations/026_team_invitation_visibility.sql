@@ -0,0 +1,5 @@
+-- supabase/migrations/026_team_invitation_visibility.sql
+-- Invitations, with their tokens, are only readable with team:manage (policy from 022)
+
+-- Left over from 018: policies are combined with OR, so this one kept invitations readable for every member
+DROP POLICY IF EXISTS "Team invitations visible to organization members" ON public.team_invitations;
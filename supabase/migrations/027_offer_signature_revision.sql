@@ -0,0 +1,5 @@
+-- supabase/migrations/027_offer_signature_revision.sql
+-- A signature records the revision of the offer the customer accepted or rejected
+
+ALTER TABLE public.offer_signatures
+    ADD COLUMN IF NOT EXISTS offer_revision_id UUID REFERENCES public.offer_revisions(id) ON DELETE SET NULL;
@@ -0,0 +1,6 @@
+-- supabase/migrations/028_single_credit_note.sql
+-- An invoice is credited at most once; a cancelled credit note does not count
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_invoices_single_credit_note
+    ON public.invoices(parent_invoice_id)
+    WHERE invoice_type = 'credit_note' AND status <> 'cancelled';
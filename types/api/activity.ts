@@ -0,0 +1,46 @@
+// types/api/activity.ts
+
+// What an activity_log row is about; the dashboard groups and filters on it
+export type ActivityResourceType =
+  | 'customer'
+  | 'offer'
+  | 'invoice'
+  | 'team_member'
+  | 'team_invitation'
+  | 'api_key'
+  | 'webhook_endpoint'
+  | 'organization';
+
+export interface ActivityLogEntry {
+  id: string;
+  organization_id: string;
+  user_id: string | null;
+  // resource_verb, optionally with a detail after a colon: offer_status_changed:accepted
+  action: string;
+  resource_type: ActivityResourceType | null;
+  resource_id: string | null;
+  metadata: Record<string, unknown> | null;
+  ip_address: string | null;
+  user_agent: string | null;
+  created_at: string;
+  // The team member who did it; null for customers (offer portal), webhooks and jobs
+  user: { full_name: string | null; email: string | null } | null;
+}
+
+export interface ActivityPage {
+  activity: ActivityLogEntry[];
+  pagination: {
+    limit: number;
+    has_more: boolean;
+    next_cursor: string | null;
+  };
+}
+
+export interface ActivityFilters {
+  resource_type?: ActivityResourceType;
+  resource_id?: string;
+  action?: string;
+  user_id?: string;
+  created_after?: string;
+  limit?: number;
+}
@@ -0,0 +1,134 @@
+// types/api/customer.ts
+
+import type { Offer } from './offer';
+import type { Invoice } from './invoice';
+
+export type CustomerStatus = 'lead' | 'customer' | 'vip' | 'inactive';
+
+// quotes receives offers, billing receives invoices and payment reminders
+export type ContactRole = 'quotes' | 'billing' | 'technical';
+
+export interface CustomerAddress {
+  street?: string;
+  postal_code?: string;
+  city?: string;
+  country?: string;
+  [key: string]: string | undefined;
+}
+
+export interface Customer {
+  id: string;
+  organization_id: string;
+  name: string;
+  email: string | null;
+  phone: string | null;
+  company: string | null;
+  address: CustomerAddress | null;
+  vat_number: string | null;
+  status: CustomerStatus;
+  source: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CustomerContact {
+  id: string;
+  organization_id: string;
+  customer_id: string;
+  name: string;
+  email: string | null;
+  phone: string | null;
+  job_title: string | null;
+  roles: ContactRole[];
+  is_primary: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export type CustomerOffer = Pick<
+  Offer,
+  'id' | 'title' | 'amount' | 'total' | 'currency' | 'status' | 'due_date' | 'created_at'
+>;
+
+export type CustomerInvoice = Pick<
+  Invoice,
+  'id' | 'invoice_number' | 'offer_id' | 'title' | 'amount' | 'total' | 'currency' | 'status' |
+  'invoice_type' | 'due_date' | 'paid_at' | 'created_at'
+>;
+
+// A paid invoice; a paid credit note is a refund and has a negative amount
+export interface CustomerPayment {
+  invoice_id: string;
+  invoice_number: string | null;
+  amount: number;
+  currency: string;
+  paid_at: string;
+  refund: boolean;
+}
+
+export interface CustomerAccountSummary {
+  // Paid invoices minus refunded credit notes, including VAT
+  lifetime_value: number;
+  // Sent and overdue invoices that still have to be paid
+  open_balance: number;
+  overdue_balance: number;
+  offer_count: number;
+  accepted_offer_count: number;
+  invoice_count: number;
+  last_payment_at: string | null;
+}
+
+export interface CustomerActivity {
+  id: string;
+  user_id: string | null;
+  action: string;
+  resource_type: string | null;
+  resource_id: string | null;
+  metadata: Record<string, unknown> | null;
+  created_at: string;
+}
+
+export interface CustomerOverview {
+  customer: Customer;
+  contacts: CustomerContact[];
+  summary: CustomerAccountSummary;
+  offers: CustomerOffer[];
+  invoices: CustomerInvoice[];
+  payments: CustomerPayment[];
+  activity: CustomerActivity[];
+}
+
+// Customer fields a spreadsheet column can be mapped to; address.* fill the address JSON
+export type CustomerImportField =
+  | 'name' | 'email' | 'phone' | 'company' | 'vat_number' | 'status' | 'source'
+  | 'address.street' | 'address.postal_code' | 'address.city' | 'address.country';
+
+// What to do with a row that matches an existing customer by email or company
+export type DuplicateStrategy = 'skip' | 'merge' | 'overwrite';
+
+export type CustomerImportAction = 'create' | 'update' | 'skip' | 'invalid';
+
+export interface CustomerImportRow {
+  // Row number in the spreadsheet, counting the header row as 1
+  row: number;
+  action: CustomerImportAction;
+  values: Record<string, unknown>;
+  // Existing customer the row matches, and the fields an update writes to it
+  duplicate: { id: string; name: string } | null;
+  changes: Record<string, unknown> | null;
+  error: string | null;
+}
+
+export interface CustomerImportSummary {
+  created: number;
+  updated: number;
+  skipped: number;
+  failed: number;
+}
+
+export interface CustomerImportError {
+  row: number;
+  name: string | null;
+  email: string | null;
+  error: string;
+}
@@ -0,0 +1,31 @@
+// types/api/export.ts
+
+export type ExportResource = 'offers' | 'invoices' | 'customers';
+
+export type ExportFormat = 'csv' | 'xlsx' | 'json';
+
+export interface ExportSort {
+  key: string;
+  direction: 'asc' | 'desc';
+}
+
+// The rows to export: either the selected ids or everything matching the list filters
+export interface ExportRequest {
+  resource: ExportResource;
+  format: ExportFormat;
+  columns: string[];
+  ids: string[] | null;
+  search: string | null;
+  status: string | null;
+  sort: ExportSort;
+  include_items: boolean;
+}
+
+export type ExportRequestInput = Partial<Omit<ExportRequest, 'sort'>> & {
+  resource: ExportResource;
+  format: ExportFormat;
+  sort?: Partial<ExportSort> | null;
+};
+
+// The list state of a page that an export follows
+export type ExportFilters = Pick<ExportRequestInput, 'ids' | 'search' | 'status' | 'sort'>;
@@ -0,0 +1,60 @@
+// types/api/invoice.ts
+
+import type { Currency } from './offer';
+import type { VatRate } from '../../lib/vat';
+
+export type InvoiceStatus = 'draft' | 'sent' | 'paid' | 'overdue' | 'cancelled';
+
+// full: the whole offer, deposit: a percentage up front, final: the remainder after deposits,
+// credit_note: reverses an earlier invoice and is numbered in its own series
+export type InvoiceType = 'full' | 'deposit' | 'final' | 'credit_note';
+
+export interface InvoiceItem {
+  name: string;
+  description: string;
+  quantity: number;
+  price: number;
+  total: number;
+  vat_rate?: VatRate;
+}
+
+export interface Invoice {
+  id: string;
+  organization_id: string;
+  offer_id: string | null;
+  customer_id: string | null;
+  // Contact person of the customer the invoice is addressed to
+  contact_id: string | null;
+  // Assigned by the database when the invoice leaves draft
+  invoice_number: string | null;
+  title: string | null;
+  description: string | null;
+  items: InvoiceItem[] | string | null;
+  // Excluding VAT; vat_amount and total are derived from the items by lib/vat
+  amount: number;
+  vat_amount: number;
+  total: number;
+  currency: Currency;
+  status: InvoiceStatus;
+  invoice_type: InvoiceType;
+  deposit_percentage: number | null;
+  parent_invoice_id: string | null;
+  due_date: string;
+  paid_at: string | null;
+  pdf_url: string | null;
+  stripe_invoice_id: string | null;
+  // Stripe payment link for the outstanding amount, created when the invoice is sent
+  stripe_payment_link_id: string | null;
+  payment_url: string | null;
+  // Payment reminders sent for this invoice (friendly, firm, final)
+  reminders_sent: number;
+  last_reminder_at: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface OfferInvoiceRequest {
+  // Percentage of the offer to invoice as a deposit; omit to invoice the (remaining) total
+  deposit_percentage?: number;
+}
@@ -0,0 +1,115 @@
+// types/api/offer.ts
+
+import type { VatRate } from '../../lib/vat';
+
+export type OfferStatus = 'draft' | 'sent' | 'viewed' | 'accepted' | 'rejected' | 'expired';
+
+export type Currency = 'EUR' | 'USD';
+
+export interface OfferProduct {
+  name: string;
+  description?: string;
+  quantity: number;
+  price: number;
+  vat_rate?: VatRate;
+}
+
+// Free-form offer content that has no dedicated column on the offers table
+export interface OfferTerms {
+  description?: string;
+  notes?: string;
+  [key: string]: unknown;
+}
+
+export interface Offer {
+  id: string;
+  organization_id: string;
+  title: string;
+  client_name: string;
+  client_id: string | null;
+  // Contact person of the customer the offer is addressed to
+  contact_id: string | null;
+  // Excluding VAT; vat_amount and total are derived from the products by lib/vat
+  amount: number;
+  vat_amount: number;
+  total: number;
+  currency: Currency;
+  status: OfferStatus;
+  due_date: string | null;
+  terms: OfferTerms | null;
+  products: OfferProduct[] | null;
+  pdf_url: string | null;
+  viewed_at: string | null;
+  public_token: string;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+  customers?: {
+    id: string;
+    name: string;
+    email: string | null;
+  } | null;
+}
+
+export type OfferInput = Pick<Offer, 'title' | 'client_name'> &
+  Partial<Pick<Offer, 'client_id' | 'contact_id' | 'currency' | 'status' | 'due_date' | 'terms' | 'products'>>;
+
+// Immutable snapshot written by the database whenever a sent offer is saved
+export interface OfferRevision {
+  id: string;
+  offer_id: string;
+  organization_id: string;
+  version: number;
+  title: string;
+  client_name: string;
+  client_id: string | null;
+  amount: number;
+  currency: Currency;
+  status: OfferStatus;
+  due_date: string | null;
+  terms: OfferTerms | null;
+  products: OfferProduct[] | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+export interface OfferDiffLine {
+  type: 'added' | 'removed' | 'unchanged';
+  text: string;
+}
+
+export type SignatureType = 'typed' | 'drawn';
+
+// Accept / reject decision made by the customer in the public portal
+export interface OfferSignature {
+  id: string;
+  offer_id: string;
+  organization_id: string;
+  decision: 'accepted' | 'rejected';
+  signer_name: string;
+  signature_type: SignatureType | null;
+  signature_data: string | null;
+  rejection_reason: string | null;
+  // Revision of the offer that was current when the customer responded
+  offer_revision_id: string | null;
+  ip_address: string | null;
+  user_agent: string | null;
+  signed_at: string;
+}
+
+// What the customer gets to see in the portal; internal notes are left out
+export interface PublicOffer {
+  title: string;
+  client_name: string;
+  amount: number;
+  vat_amount: number;
+  total: number;
+  currency: Currency;
+  status: OfferStatus;
+  due_date: string | null;
+  description: string | null;
+  products: OfferProduct[];
+  pdf_url: string | null;
+  created_at: string;
+  organization_name: string;
+}
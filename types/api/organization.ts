@@ -0,0 +1,37 @@
+// types/api/organization.ts
+
+import type { TeamRole } from '../../lib/auth/organization';
+import type { OnboardingData } from '../../lib/onboarding';
+
+export type OrganizationIndustry = OnboardingData['industry'];
+
+export interface Organization {
+  id: string;
+  name: string;
+  slug: string;
+  owner_id: string;
+  industry: string | null;
+  subscription_tier: 'free' | 'pro' | 'enterprise';
+  created_at: string;
+}
+
+// An organization the signed-in user is an active member of, for the organization switcher
+export interface OrganizationMembership {
+  organization_id: string;
+  name: string;
+  slug: string;
+  role: TeamRole;
+  joined_at: string;
+}
+
+export interface OrganizationList {
+  organizations: OrganizationMembership[];
+  // The organization the API routes currently scope to
+  active_organization_id: string | null;
+}
+
+// Created from the onboarding answers (OnboardingData.companyName and industry)
+export interface OrganizationInput {
+  companyName: string;
+  industry?: OrganizationIndustry;
+}
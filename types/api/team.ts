@@ -0,0 +1,54 @@
+// types/api/team.ts
+
+import type { TeamRole } from '../../lib/auth/organization';
+import type { Permission } from '../../lib/auth/permissions';
+
+export type TeamMemberStatus = 'invited' | 'active' | 'inactive';
+
+export interface TeamMember {
+  id: string;
+  user_id: string;
+  role: TeamRole;
+  status: TeamMemberStatus;
+  joined_at: string;
+  name: string | null;
+  email: string | null;
+  avatar_url: string | null;
+}
+
+export interface TeamInvitation {
+  id: string;
+  organization_id: string;
+  email: string;
+  role: Exclude<TeamRole, 'owner'>;
+  invited_by: string | null;
+  expires_at: string;
+  accepted_at: string | null;
+  revoked_at: string | null;
+  created_at: string;
+}
+
+export interface TeamOverview {
+  members: TeamMember[];
+  invitations: TeamInvitation[];
+  // null when the subscription has no limit
+  max_team_size: number | null;
+  // Active members plus open invitations
+  seats_used: number;
+}
+
+// What the accept page shows before the invitee signs in
+export interface PublicTeamInvitation {
+  organization_name: string;
+  email: string;
+  role: TeamInvitation['role'];
+  expires_at: string;
+}
+
+// The signed-in user's own membership, for usePermission
+export interface TeamMembership {
+  user_id: string;
+  organization_id: string;
+  role: TeamRole;
+  permissions: Permission[];
+}
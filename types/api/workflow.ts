@@ -40,6 +40,9 @@ export interface QuoteData {
   items: QuoteItem[];
   validUntil: string;
   terms?: string;
+  subtotal?: number;
+  vatRate?: number;
+  vatAmount?: number;
 }
 
 export interface EmailData {
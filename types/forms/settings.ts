@@ -35,12 +35,46 @@ export interface NotificationSettings {
   systemMaintenance: boolean;
 }
 
+// As returned by /api/api-keys; the key itself is only returned once, when it is created
 export interface APIKey {
   id: string;
   name: string;
-  key: string;
-  created: string;
-  lastUsed: string;
+  key_prefix: string | null;
+  permissions: string[];
+  last_used: string | null;
+  expires_at: string | null;
+  revoked_at: string | null;
+  created_at: string;
+  user_id: string;
+}
+
+export interface WebhookEndpoint {
+  id: string;
+  url: string;
+  description: string | null;
+  events: string[];
+  enabled: boolean;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  endpoint_id: string;
+  event_id: string;
+  event_type: string;
+  status: 'pending' | 'succeeded' | 'failed';
+  attempts: number;
+  response_status: number | null;
+  response_body: string | null;
+  error: string | null;
+  duration_ms: number | null;
+  last_attempt_at: string | null;
+  next_attempt_at: string | null;
+  delivered_at: string | null;
+  redelivery_of: string | null;
+  created_at: string;
 }
 
 export interface AppearanceSettings {
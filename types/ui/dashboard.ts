@@ -28,3 +28,25 @@ export interface Invoice {
   status: 'paid' | 'pending' | 'overdue';
   dueDate: string;
 }
+
+export interface Customer {
+  id: string;
+  organization_id: string;
+  name: string;
+  email: string | null;
+  phone: string | null;
+  company: string | null;
+  address: Record<string, string> | null;
+  vat_number: string | null;
+  status: 'lead' | 'customer' | 'vip' | 'inactive';
+  source: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ApiResponse<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  status: number;
+}
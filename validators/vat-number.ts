@@ -0,0 +1,93 @@
+import { z } from 'zod';
+
+// Number formats per member state as used by VIES (after the country prefix).
+// Greece uses EL instead of its ISO code; XI is Northern Ireland.
+const VAT_NUMBER_FORMATS: Record<string, RegExp> = {
+  AT: /^U\d{8}$/,
+  BE: /^[01]\d{9}$/,
+  BG: /^\d{9,10}$/,
+  CY: /^\d{8}[A-Z]$/,
+  CZ: /^\d{8,10}$/,
+  DE: /^\d{9}$/,
+  DK: /^\d{8}$/,
+  EE: /^\d{9}$/,
+  EL: /^\d{9}$/,
+  ES: /^[A-Z0-9]\d{7}[A-Z0-9]$/,
+  FI: /^\d{8}$/,
+  FR: /^[A-HJ-NP-Z0-9]{2}\d{9}$/,
+  HR: /^\d{11}$/,
+  HU: /^\d{8}$/,
+  IE: /^(\d{7}[A-W][A-IW]?|\d[A-Z+*]\d{5}[A-W])$/,
+  IT: /^\d{11}$/,
+  LT: /^(\d{9}|\d{12})$/,
+  LU: /^\d{8}$/,
+  LV: /^\d{11}$/,
+  MT: /^\d{8}$/,
+  NL: /^\d{9}B\d{2}$/,
+  PL: /^\d{10}$/,
+  PT: /^\d{9}$/,
+  RO: /^[1-9]\d{1,9}$/,
+  SE: /^\d{10}01$/,
+  SI: /^[1-9]\d{7}$/,
+  SK: /^\d{10}$/,
+  XI: /^(\d{9}|\d{12}|GD\d{3}|HA\d{3})$/,
+};
+
+export const VAT_COUNTRY_CODES = Object.keys(VAT_NUMBER_FORMATS);
+
+export interface VatNumberCheck {
+  valid: boolean;
+  countryCode: string | null;
+  number: string | null;
+  error?: string;
+}
+
+// Strip the separators people type ("NL 8532.12.345.B01") and upper-case
+export const normalizeVatNumber = (value: string): string =>
+  value.toUpperCase().replace(/[\s.\-/]/g, '');
+
+// Dutch numbers either pass the eleven test (company numbers) or the
+// mod-97 check used for sole proprietors since 2020
+const isValidDutchChecksum = (number: string): boolean => {
+  const digits = number.slice(0, 9).split('').map(Number);
+  const elevenTest = digits
+    .slice(0, 8)
+    .reduce((sum, digit, index) => sum + digit * (9 - index), 0) - digits[8];
+  if (elevenTest % 11 === 0) return true;
+
+  // Letters become numbers (A=10 ... Z=35), as in IBAN checks
+  const numeric = `NL${number}`.replace(/[A-Z]/g, letter => String(letter.charCodeAt(0) - 55));
+  const remainder = numeric.split('').reduce((rest, digit) => (rest * 10 + Number(digit)) % 97, 0);
+  return remainder === 1;
+};
+
+export const checkVatNumber = (value: string): VatNumberCheck => {
+  const normalized = normalizeVatNumber(value);
+  const countryCode = normalized.slice(0, 2);
+  const number = normalized.slice(2);
+  const format = VAT_NUMBER_FORMATS[countryCode];
+
+  if (!format) {
+    return { valid: false, countryCode: null, number: null, error: 'VAT number must start with an EU country code' };
+  }
+  if (!format.test(number)) {
+    return { valid: false, countryCode, number, error: `Invalid ${countryCode} VAT number format` };
+  }
+  if (countryCode === 'NL' && !isValidDutchChecksum(number)) {
+    return { valid: false, countryCode, number, error: 'Invalid NL VAT number checksum' };
+  }
+
+  return { valid: true, countryCode, number };
+};
+
+export const isValidVatNumber = (value: string): boolean => checkVatNumber(value).valid;
+
+export const vatNumberSchema = z
+  .string()
+  .transform(normalizeVatNumber)
+  .superRefine((value, ctx) => {
+    const result = checkVatNumber(value);
+    if (!result.valid) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: result.error });
+    }
+  });